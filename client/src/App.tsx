@@ -16,13 +16,19 @@ import ProtectedRoute from './components/layout/ProtectedRoute';
 import Landing from './pages/Landing';
 import Login from './pages/Login';
 import Register from './pages/Register';
+import Track from './pages/Track';
 import Dashboard from './pages/Dashboard';
 import Shipments from './pages/Shipments';
 import ShipmentNew from './pages/ShipmentNew';
+import ShipmentImport from './pages/ShipmentImport';
+import AwbStock from './pages/AwbStock';
+import SlaTargets from './pages/SlaTargets';
 import ShipmentDetail from './pages/ShipmentDetail';
 import Tracking from './pages/Tracking';
 import Weather from './pages/Weather';
 import Reports from './pages/Reports';
+import Quotes from './pages/Quotes';
+import Organization from './pages/Organization';
 
 function App() {
   const [user, setUser] = useState<User | null>(null);
@@ -82,13 +88,15 @@ function App() {
             path="/register" 
             element={user ? <Navigate to="/dashboard" replace /> : <Register />} 
           />
+          <Route path="/track" element={<Track />} />
+          <Route path="/track/:trackingNumber" element={<Track />} />
 
           {/* Protected Routes */}
           <Route
             path="/dashboard"
             element={
               <ProtectedRoute user={user}>
-                <Dashboard />
+                <Dashboard user={user} />
               </ProtectedRoute>
             }
           />
@@ -96,7 +104,7 @@ function App() {
             path="/shipments"
             element={
               <ProtectedRoute user={user}>
-                <Shipments />
+                <Shipments user={user} />
               </ProtectedRoute>
             }
           />
@@ -108,11 +116,51 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/shipments/import"
+            element={
+              <ProtectedRoute user={user}>
+                <ShipmentImport />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/shipments/awb-stock"
+            element={
+              <ProtectedRoute user={user}>
+                <AwbStock />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/shipments/sla-targets"
+            element={
+              <ProtectedRoute user={user}>
+                <SlaTargets />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/shipments/:id"
             element={
               <ProtectedRoute user={user}>
-                <ShipmentDetail />
+                <ShipmentDetail user={user} />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/quotes"
+            element={
+              <ProtectedRoute user={user}>
+                <Quotes />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/organization"
+            element={
+              <ProtectedRoute user={user}>
+                <Organization user={user} onMembershipChange={checkAuth} />
               </ProtectedRoute>
             }
           />
@@ -4,32 +4,16 @@
  */
 
 import { Link } from 'react-router-dom';
-import { Shipment } from '../../types';
+import { Shipment, StatusWorkflow } from '../../types';
+import StatusBadge, { getStatusAppearance } from '../shipments/StatusBadge';
 
 interface RecentShipmentsProps {
   shipments: Shipment[];
   loading?: boolean;
+  workflow?: StatusWorkflow | null;
 }
 
-export default function RecentShipments({ shipments, loading }: RecentShipmentsProps) {
-  const statusColors: Record<string, string> = {
-    pending: 'status-pending',
-    departed: 'status-departed',
-    in_transit: 'status-in_transit',
-    arrived: 'status-arrived',
-    delayed: 'status-delayed',
-    cancelled: 'status-cancelled',
-  };
-
-  const statusIcons: Record<string, string> = {
-    pending: '⏳',
-    departed: '✈️',
-    in_transit: '🚀',
-    arrived: '✅',
-    delayed: '⚠️',
-    cancelled: '❌',
-  };
-
+export default function RecentShipments({ shipments, loading, workflow = null }: RecentShipmentsProps) {
   if (loading) {
     return (
       <div className="card">
@@ -81,7 +65,7 @@ export default function RecentShipments({ shipments, loading }: RecentShipmentsP
               {/* Icon */}
               <div className="w-10 h-10 bg-slate-700/50 rounded-lg flex items-center justify-center
                             group-hover:bg-slate-700 transition-colors">
-                <span className="text-xl">{statusIcons[shipment.status] || '📦'}</span>
+                <span className="text-xl">{getStatusAppearance(workflow, shipment.status).icon}</span>
               </div>
 
               {/* Info */}
@@ -95,10 +79,7 @@ export default function RecentShipments({ shipments, loading }: RecentShipmentsP
               </div>
 
               {/* Status Badge */}
-              <span className={`px-2.5 py-1 text-xs font-medium rounded-full border 
-                             ${statusColors[shipment.status] || 'bg-slate-500/20 text-slate-400'}`}>
-                {shipment.status.replace('_', ' ')}
-              </span>
+              <StatusBadge status={shipment.status} workflow={workflow} />
             </Link>
           ))}
         </div>
@@ -0,0 +1,135 @@
+/**
+ * SlaWidget Component
+ * Open shipments by SLA status, 30-day compliance, shipments at risk and open escalations
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { acknowledgeEscalation } from '../../services/sla';
+import SlaBadge, { slaStatusLabels } from '../shipments/SlaBadge';
+import { SlaStatus, SlaSummary } from '../../types';
+
+interface SlaWidgetProps {
+  summary: SlaSummary | null;
+  loading?: boolean;
+  /** Whether the user may acknowledge escalations */
+  canAcknowledge?: boolean;
+}
+
+const openStatuses: SlaStatus[] = ['on_track', 'at_risk', 'breach_predicted', 'breached'];
+
+const countColors: Record<SlaStatus, string> = {
+  on_track: 'text-green-400',
+  at_risk: 'text-yellow-400',
+  breach_predicted: 'text-orange-400',
+  breached: 'text-red-400',
+  met: 'text-slate-300',
+};
+
+export default function SlaWidget({ summary, loading, canAcknowledge }: SlaWidgetProps) {
+  const [acknowledged, setAcknowledged] = useState<number[]>([]);
+  const [error, setError] = useState('');
+
+  const handleAcknowledge = async (id: number) => {
+    setError('');
+    try {
+      await acknowledgeEscalation(id);
+      setAcknowledged([...acknowledged, id]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge escalation');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="card">
+        <h3 className="text-lg font-semibold text-white mb-4">Service Levels</h3>
+        <div className="animate-pulse h-24 bg-slate-700 rounded"></div>
+      </div>
+    );
+  }
+
+  if (!summary) {
+    return null;
+  }
+
+  const escalations = summary.escalations.filter((escalation) => !acknowledged.includes(escalation.id));
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span>⏱️</span> Service Levels
+        </h3>
+        {summary.compliance.percentage !== null && (
+          <span className="text-sm text-slate-400">
+            <span className="text-white font-medium">{summary.compliance.percentage}%</span> met (30 days)
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-3 py-2 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        {openStatuses.map((status) => (
+          <div key={status} className="bg-slate-700/50 rounded-lg p-3">
+            <div className={`text-2xl font-bold ${countColors[status]}`}>{summary.counts[status]}</div>
+            <div className="text-xs text-slate-400">{slaStatusLabels[status]}</div>
+          </div>
+        ))}
+      </div>
+
+      {escalations.length > 0 && (
+        <div className="space-y-2 mb-4">
+          <h4 className="text-sm font-medium text-slate-300">Escalations</h4>
+          {escalations.map((escalation) => (
+            <div key={escalation.id} className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <Link to={`/shipments/${escalation.shipment_id}`} className="font-medium text-red-400 hover:text-red-300">
+                  {escalation.tracking_number}
+                </Link>
+                <span className="text-xs text-slate-400">
+                  Level {escalation.level} · {escalation.notify_role}
+                </span>
+              </div>
+              <div className="text-xs text-slate-300 mt-1">{escalation.action}</div>
+              {canAcknowledge && (
+                <button
+                  onClick={() => handleAcknowledge(escalation.id)}
+                  className="text-xs text-blue-400 hover:text-blue-300 mt-1"
+                >
+                  Acknowledge
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {summary.atRisk.length === 0 ? (
+        <p className="text-center py-2 text-slate-400 text-sm">No shipments at risk</p>
+      ) : (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-slate-300">At Risk</h4>
+          {summary.atRisk.map((shipment) => (
+            <Link
+              key={shipment.id}
+              to={`/shipments/${shipment.id}`}
+              className="flex items-center justify-between gap-2 text-sm hover:bg-slate-700/50 rounded px-2 py-1"
+            >
+              <span className="text-white truncate">
+                {shipment.tracking_number}
+                <span className="text-slate-400 ml-2">{shipment.origin} → {shipment.destination}</span>
+              </span>
+              <SlaBadge status={shipment.sla_status!} slackHours={shipment.sla_slack_hours} />
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
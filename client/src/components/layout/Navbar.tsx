@@ -27,9 +27,11 @@ export default function Navbar({ user, onLogout }: NavbarProps) {
   const navLinks = [
     { path: '/dashboard', label: 'Dashboard', icon: '📊' },
     { path: '/shipments', label: 'Shipments', icon: '📦' },
+    { path: '/quotes', label: 'Quotes', icon: '💲' },
     { path: '/tracking', label: 'Tracking', icon: '✈️' },
     { path: '/weather', label: 'Weather', icon: '🌤️' },
     { path: '/reports', label: 'Reports', icon: '📄' },
+    { path: '/organization', label: 'Team', icon: '👥' },
   ];
 
   return (
@@ -65,6 +67,7 @@ export default function Navbar({ user, onLogout }: NavbarProps) {
             {user && (
               <span className="text-sm text-slate-400 hidden sm:block">
                 {user.email}
+                {user.role && <span className="ml-2 text-xs text-slate-500 capitalize">({user.role})</span>}
               </span>
             )}
             <button
@@ -0,0 +1,66 @@
+/**
+ * AirportInput Component
+ * Origin or destination field with airport suggestions from the reference table;
+ * free text is still accepted for places that are not airports
+ */
+
+import { useState } from 'react';
+import { searchAirports } from '../../services/airports';
+import { Airport } from '../../types';
+
+interface AirportInputProps {
+  id: string;
+  value: string;
+  placeholder?: string;
+  /** Called with the airport when a suggestion is picked, null when typing free text */
+  onChange: (value: string, airport: Airport | null) => void;
+}
+
+export default function AirportInput({ id, value, placeholder, onChange }: AirportInputProps) {
+  const [suggestions, setSuggestions] = useState<Airport[]>([]);
+  const [selected, setSelected] = useState<Airport | null>(null);
+
+  const loadSuggestions = (query: string) => {
+    searchAirports(query)
+      .then(setSuggestions)
+      .catch(() => setSuggestions([]));
+  };
+
+  const handleChange = (text: string) => {
+    const airport = suggestions.find((entry) => entry.label === text) || null;
+
+    setSelected(airport);
+    if (airport) {
+      onChange(airport.label, airport);
+    } else {
+      onChange(text, null);
+      if (text.trim().length >= 2) loadSuggestions(text);
+    }
+  };
+
+  return (
+    <>
+      <input
+        type="text"
+        className="input"
+        list={`${id}-airports`}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        required
+      />
+      <datalist id={`${id}-airports`}>
+        {suggestions.map((airport) => (
+          <option key={airport.iata} value={airport.label}>
+            {airport.name}, {airport.country}
+          </option>
+        ))}
+      </datalist>
+      {selected && (
+        <p className="text-xs text-slate-400 mt-1">
+          {selected.name} • {selected.iata}/{selected.icao} • {selected.elevation_ft.toLocaleString()} ft • {selected.timezone}
+        </p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,237 @@
+/**
+ * ColdChainCard Component
+ * Temperature range, logged readings and excursions of a perishable shipment
+ */
+
+import { useState } from 'react';
+import { logTemperatureReading, resolveColdChainException } from '../../services/coldChain';
+import { updateShipment } from '../../services/shipments';
+import { ColdChain, ImpactLevel } from '../../types';
+
+interface ColdChainCardProps {
+  shipmentId: string;
+  coldChain: ColdChain;
+  canEdit: boolean;
+  onChanged: () => Promise<void>;
+}
+
+const severityColors: Record<ImpactLevel, string> = {
+  none: 'text-slate-400',
+  low: 'text-green-400',
+  medium: 'text-yellow-400',
+  high: 'text-orange-400',
+  critical: 'text-red-400',
+};
+
+export default function ColdChainCard({ shipmentId, coldChain, canEdit, onChanged }: ColdChainCardProps) {
+  const { range, exception_at, readings, excursions } = coldChain;
+
+  const [editingRange, setEditingRange] = useState<{ min: string; max: string } | null>(null);
+  const [reading, setReading] = useState({ temperature: '', location: '', notes: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (action: () => Promise<unknown>) => {
+    setSaving(true);
+    setError('');
+    try {
+      await action();
+      await onChanged();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update cold chain');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRange = async () => {
+    if (!editingRange) return;
+
+    const saved = await run(() => updateShipment(shipmentId, {
+      temp_min_c: parseFloat(editingRange.min),
+      temp_max_c: parseFloat(editingRange.max),
+    }));
+    if (saved) setEditingRange(null);
+  };
+
+  const handleLogReading = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reading.temperature === '') return;
+
+    const saved = await run(() => logTemperatureReading(shipmentId, {
+      temperature_c: parseFloat(reading.temperature),
+      location: reading.location || undefined,
+      notes: reading.notes || undefined,
+    }));
+    if (saved) setReading({ temperature: '', location: '', notes: '' });
+  };
+
+  const isOutOfRange = (temperature: number) =>
+    !!range && (temperature < range.temp_min_c || temperature > range.temp_max_c);
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">❄️ Cold Chain</h3>
+        {canEdit && !editingRange && (
+          <button
+            onClick={() => setEditingRange({
+              min: range ? String(range.temp_min_c) : '',
+              max: range ? String(range.temp_max_c) : '',
+            })}
+            className="btn-secondary text-sm"
+          >
+            {range ? 'Edit range' : 'Set range'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-3 py-2 rounded-lg mb-4 text-sm">
+          {error}
+        </div>
+      )}
+
+      {exception_at && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-lg px-3 py-2 mb-4 text-sm flex items-center justify-between gap-3">
+          <div>
+            <p className="text-red-400 font-medium">Cold chain exception</p>
+            <p className="text-red-300/80">
+              Temperature left the allowed range · raised {new Date(exception_at).toLocaleString()}
+            </p>
+          </div>
+          {canEdit && (
+            <button
+              onClick={() => run(() => resolveColdChainException(shipmentId))}
+              disabled={saving}
+              className="btn-secondary text-sm whitespace-nowrap"
+            >
+              Resolve
+            </button>
+          )}
+        </div>
+      )}
+
+      {editingRange ? (
+        <div className="flex items-end gap-2 mb-4">
+          <div>
+            <label className="text-xs text-slate-400">Minimum (°C)</label>
+            <input
+              type="number"
+              className="input"
+              step="0.1"
+              value={editingRange.min}
+              onChange={(e) => setEditingRange({ ...editingRange, min: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-slate-400">Maximum (°C)</label>
+            <input
+              type="number"
+              className="input"
+              step="0.1"
+              value={editingRange.max}
+              onChange={(e) => setEditingRange({ ...editingRange, max: e.target.value })}
+            />
+          </div>
+          <button onClick={() => setEditingRange(null)} className="btn-secondary text-sm">
+            Cancel
+          </button>
+          <button
+            onClick={handleSaveRange}
+            disabled={saving || editingRange.min === '' || editingRange.max === ''}
+            className="btn-primary text-sm"
+          >
+            {saving ? 'Saving...' : 'Save range'}
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-300 mb-4">
+          {range
+            ? <>Keep between <span className="font-semibold text-cyan-400">{range.temp_min_c} and {range.temp_max_c}°C</span></>
+            : <span className="text-amber-400">No temperature range set – temperatures are not being checked</span>}
+        </p>
+      )}
+
+      {excursions.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-slate-300 mb-2">Excursions</h4>
+          <ul className="space-y-1 text-sm">
+            {excursions.map((excursion) => (
+              <li key={excursion.id} className="flex justify-between gap-3">
+                <span className={severityColors[excursion.severity || 'none']}>{excursion.description}</span>
+                <span className="text-slate-500 whitespace-nowrap">{new Date(excursion.recorded_at).toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {canEdit && range && (
+        <form onSubmit={handleLogReading} className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end mb-4">
+          <div>
+            <label className="text-xs text-slate-400">Reading (°C)</label>
+            <input
+              type="number"
+              className="input"
+              step="0.1"
+              value={reading.temperature}
+              onChange={(e) => setReading({ ...reading, temperature: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-slate-400">Location</label>
+            <input
+              type="text"
+              className="input"
+              placeholder="e.g., FRA cool room"
+              value={reading.location}
+              onChange={(e) => setReading({ ...reading, location: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-slate-400">Notes</label>
+            <input
+              type="text"
+              className="input"
+              value={reading.notes}
+              onChange={(e) => setReading({ ...reading, notes: e.target.value })}
+            />
+          </div>
+          <button type="submit" disabled={saving || reading.temperature === ''} className="btn-primary text-sm">
+            Log reading
+          </button>
+        </form>
+      )}
+
+      {readings.length > 0 ? (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700">
+              <th className="py-2 pr-4">Recorded</th>
+              <th className="py-2 pr-4">Temperature</th>
+              <th className="py-2 pr-4">Location</th>
+              <th className="py-2">Notes</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            {readings.map((entry) => (
+              <tr key={entry.id} className="border-b border-slate-700/50">
+                <td className="py-2 pr-4">{new Date(entry.recorded_at).toLocaleString()}</td>
+                <td className={`py-2 pr-4 font-medium ${isOutOfRange(Number(entry.temperature_c)) ? 'text-red-400' : 'text-green-400'}`}>
+                  {Number(entry.temperature_c)}°C
+                </td>
+                <td className="py-2 pr-4">{entry.location || '—'}</td>
+                <td className="py-2">{entry.notes || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-slate-400">No temperature readings logged.</p>
+      )}
+    </div>
+  );
+}
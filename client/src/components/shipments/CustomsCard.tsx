@@ -0,0 +1,191 @@
+/**
+ * CustomsCard Component
+ * Customs clearance steps of a shipment with the next step form and dwell time
+ */
+
+import { useState } from 'react';
+import { recordCustomsStep } from '../../services/customs';
+import { CustomsClearance, CustomsStatus } from '../../types';
+
+interface CustomsCardProps {
+  shipmentId: string;
+  customs: CustomsClearance;
+  canEdit: boolean;
+  onRecorded: (customs: CustomsClearance, shipmentStatus: string | null) => Promise<void> | void;
+}
+
+const statusLabels: Record<CustomsStatus, string> = {
+  documents_submitted: 'Documents submitted',
+  under_review: 'Under review',
+  held: 'Held',
+  released: 'Released',
+  duties_paid: 'Duties paid',
+};
+
+const statusColors: Record<CustomsStatus, string> = {
+  documents_submitted: 'text-slate-300',
+  under_review: 'text-blue-400',
+  held: 'text-red-400',
+  released: 'text-green-400',
+  duties_paid: 'text-cyan-400',
+};
+
+/**
+ * Current local time in the format of a datetime-local input
+ */
+const localNow = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const emptyStep = () => ({ status: '' as CustomsStatus | '', broker_reference: '', occurred_at: localNow(), notes: '', hold_shipment: true });
+
+export default function CustomsCard({ shipmentId, customs, canEdit, onRecorded }: CustomsCardProps) {
+  const { status, broker_reference, next_statuses, dwell_hours, steps } = customs;
+
+  const [step, setStep] = useState(emptyStep);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const isHold = step.status === 'held';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!step.status) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const result = await recordCustomsStep(shipmentId, {
+        status: step.status,
+        broker_reference: step.broker_reference || undefined,
+        occurred_at: new Date(step.occurred_at).toISOString(),
+        notes: step.notes || undefined,
+        hold_shipment: isHold ? step.hold_shipment : undefined,
+      });
+      setStep(emptyStep());
+      await onRecorded(result.customs, result.shipmentStatus);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record customs step');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">🛃 Customs</h3>
+        {status && (
+          <span className={`text-sm font-medium ${statusColors[status]}`}>{statusLabels[status]}</span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-3 py-2 rounded-lg mb-4 text-sm">
+          {error}
+        </div>
+      )}
+
+      {steps.length > 0 ? (
+        <>
+          <div className="flex gap-6 text-sm mb-4">
+            <div>
+              <p className="text-slate-400">Dwell time</p>
+              <p className="text-white font-medium">
+                {dwell_hours} hrs{!steps.some(s => s.status === 'released') && ' so far'}
+              </p>
+            </div>
+            <div>
+              <p className="text-slate-400">Broker reference</p>
+              <p className="text-white font-medium">{broker_reference || '—'}</p>
+            </div>
+          </div>
+
+          <ul className="space-y-2 text-sm mb-4">
+            {steps.map((entry) => (
+              <li key={entry.id} className="flex justify-between gap-3 border-l-2 border-slate-600 pl-3">
+                <div>
+                  <p className={`font-medium ${statusColors[entry.status]}`}>{statusLabels[entry.status]}</p>
+                  {entry.notes && <p className="text-slate-400">{entry.notes}</p>}
+                </div>
+                <span className="text-slate-500 whitespace-nowrap">{new Date(entry.occurred_at).toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <p className="text-sm text-slate-400 mb-4">No customs steps recorded.</p>
+      )}
+
+      {canEdit && next_statuses.length > 0 && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <div>
+              <label className="text-xs text-slate-400">Next step</label>
+              <select
+                className="input"
+                value={step.status}
+                onChange={(e) => setStep({ ...step, status: e.target.value as CustomsStatus })}
+              >
+                <option value="">Select...</option>
+                {next_statuses.map((next) => (
+                  <option key={next} value={next}>{statusLabels[next]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-slate-400">Broker reference</label>
+              <input
+                type="text"
+                className="input"
+                maxLength={50}
+                value={step.broker_reference}
+                onChange={(e) => setStep({ ...step, broker_reference: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-slate-400">Time</label>
+              <input
+                type="datetime-local"
+                className="input"
+                max={localNow()}
+                value={step.occurred_at}
+                onChange={(e) => setStep({ ...step, occurred_at: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="text-xs text-slate-400">Notes{isHold && ' (reason for the hold)'}</label>
+            <input
+              type="text"
+              className="input"
+              required={isHold}
+              value={step.notes}
+              onChange={(e) => setStep({ ...step, notes: e.target.value })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            {isHold ? (
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={step.hold_shipment}
+                  onChange={(e) => setStep({ ...step, hold_shipment: e.target.checked })}
+                />
+                Hold the shipment
+              </label>
+            ) : <span />}
+            <button
+              type="submit"
+              disabled={saving || !step.status || (isHold && !step.notes.trim())}
+              className="btn-primary text-sm"
+            >
+              {saving ? 'Saving...' : 'Record step'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * DangerousGoodsCard Component
+ * Dangerous goods declaration of a hazardous shipment and its acceptance checks
+ */
+
+import { useState } from 'react';
+import { saveDangerousGoods } from '../../services/dangerousGoods';
+import { DangerousGoodsDeclaration, DangerousGoodsFormData } from '../../types';
+import DangerousGoodsLines, { emptyDangerousGood } from './DangerousGoodsLines';
+
+interface DangerousGoodsCardProps {
+  shipmentId: string;
+  declaration: DangerousGoodsDeclaration;
+  canEdit: boolean;
+  onSaved: (declaration: DangerousGoodsDeclaration) => void;
+}
+
+export default function DangerousGoodsCard({ shipmentId, declaration, canEdit, onSaved }: DangerousGoodsCardProps) {
+  const [editing, setEditing] = useState<DangerousGoodsFormData[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const { items, check } = declaration;
+
+  const startEditing = () => {
+    setError('');
+    setEditing(items.length > 0
+      ? items.map(({ un_number, proper_shipping_name, class_division, packing_group, quantity, cargo_aircraft_only }) => ({
+        un_number, proper_shipping_name, class_division, packing_group, quantity: Number(quantity), cargo_aircraft_only,
+      }))
+      : [{ ...emptyDangerousGood }]);
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      onSaved(await saveDangerousGoods(shipmentId, editing));
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save dangerous goods');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">☢️ Dangerous Goods</h3>
+        {canEdit && !editing && (
+          <button onClick={startEditing} className="btn-secondary text-sm">
+            {items.length > 0 ? 'Edit declaration' : 'Declare'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-3 py-2 rounded-lg mb-4 text-sm">
+          {error}
+        </div>
+      )}
+
+      {check.accepted ? (
+        <div className="bg-green-500/10 border border-green-500/30 text-green-400 px-3 py-2 rounded-lg mb-4 text-sm">
+          ✓ Accepted for air transport
+          {items.some((item) => item.cargo_aircraft_only) && ' · Cargo aircraft only'}
+        </div>
+      ) : (
+        <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg px-3 py-2 mb-4 text-sm">
+          <p className="text-amber-400 font-medium">Not accepted – the shipment cannot be assigned to a flight</p>
+          <ul className="list-disc list-inside text-amber-300/80 mt-1 space-y-0.5">
+            {check.issues.map((issue, index) => (
+              <li key={index}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {editing ? (
+        <div className="space-y-4">
+          <DangerousGoodsLines items={editing} onChange={setEditing} />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setEditing(null)} className="btn-secondary text-sm">
+              Cancel
+            </button>
+            <button onClick={handleSave} disabled={saving} className="btn-primary text-sm">
+              {saving ? 'Saving...' : 'Save declaration'}
+            </button>
+          </div>
+        </div>
+      ) : items.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700">
+              <th className="py-2 pr-4">UN No.</th>
+              <th className="py-2 pr-4">Proper Shipping Name</th>
+              <th className="py-2 pr-4">Class</th>
+              <th className="py-2 pr-4">PG</th>
+              <th className="py-2 pr-4">Quantity</th>
+              <th className="py-2">Aircraft</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            {items.map((item) => (
+              <tr key={item.id} className="border-b border-slate-700/50">
+                <td className="py-2 pr-4 font-mono">{item.un_number}</td>
+                <td className="py-2 pr-4">{item.proper_shipping_name}</td>
+                <td className="py-2 pr-4">{item.class_division}</td>
+                <td className="py-2 pr-4">{item.packing_group || '—'}</td>
+                <td className="py-2 pr-4">{Number(item.quantity)} {item.unit}</td>
+                <td className="py-2">{item.cargo_aircraft_only ? 'Cargo only' : 'Passenger or cargo'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+/**
+ * DangerousGoodsLines Component
+ * Editable dangerous goods lines with UN number lookup from the reference table
+ */
+
+import { useEffect, useState } from 'react';
+import { searchDangerousGoods } from '../../services/dangerousGoods';
+import { DangerousGoodsFormData, DangerousGoodsReference, PackingGroup } from '../../types';
+
+interface DangerousGoodsLinesProps {
+  items: DangerousGoodsFormData[];
+  onChange: (items: DangerousGoodsFormData[]) => void;
+}
+
+const packingGroups: PackingGroup[] = ['I', 'II', 'III'];
+
+export const emptyDangerousGood: DangerousGoodsFormData = {
+  un_number: '',
+  proper_shipping_name: '',
+  class_division: '',
+  packing_group: null,
+  quantity: 0,
+  cargo_aircraft_only: false,
+};
+
+const normalizeUn = (value: string) => {
+  const digits = value.replace(/^un\s?/i, '').trim();
+  return /^\d{4}$/.test(digits) ? `UN${digits}` : value.trim().toUpperCase();
+};
+
+export default function DangerousGoodsLines({ items, onChange }: DangerousGoodsLinesProps) {
+  // Reference entries seen so far, used for suggestions, auto-fill and units
+  const [reference, setReference] = useState<Record<string, DangerousGoodsReference>>({});
+  const [suggestions, setSuggestions] = useState<DangerousGoodsReference[]>([]);
+
+  const loadSuggestions = (query: string) => {
+    searchDangerousGoods(query)
+      .then((entries) => {
+        setSuggestions(entries);
+        setReference((current) => ({
+          ...current,
+          ...Object.fromEntries(entries.map((entry) => [entry.un_number, entry])),
+        }));
+      })
+      .catch(() => setSuggestions([]));
+  };
+
+  useEffect(() => {
+    loadSuggestions('');
+  }, []);
+
+  const updateItem = (index: number, changes: Partial<DangerousGoodsFormData>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleUnNumber = (index: number, value: string) => {
+    const entry = reference[normalizeUn(value)];
+    if (entry) {
+      // Fill in the details of a known UN number
+      const groups = Object.keys(entry.limits).filter((group) => group !== 'none') as PackingGroup[];
+      updateItem(index, {
+        un_number: entry.un_number,
+        proper_shipping_name: entry.proper_shipping_name,
+        class_division: entry.class_division,
+        packing_group: groups[0] ?? null,
+      });
+    } else {
+      updateItem(index, { un_number: value });
+      if (value.trim().length >= 2) loadSuggestions(value);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <datalist id="dangerous-goods-reference">
+        {suggestions.map((entry) => (
+          <option key={entry.un_number} value={entry.un_number}>
+            {entry.proper_shipping_name} (class {entry.class_division})
+          </option>
+        ))}
+      </datalist>
+
+      {items.map((item, index) => {
+        const unit = reference[normalizeUn(item.un_number)]?.unit;
+
+        return (
+          <div key={index} className="grid grid-cols-2 md:grid-cols-8 gap-2 items-end">
+            <div>
+              <label className="text-xs text-slate-400">UN No.</label>
+              <input
+                type="text"
+                className="input"
+                list="dangerous-goods-reference"
+                placeholder="UN1203"
+                value={item.un_number}
+                onChange={(e) => handleUnNumber(index, e.target.value)}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="text-xs text-slate-400">Proper Shipping Name</label>
+              <input
+                type="text"
+                className="input"
+                value={item.proper_shipping_name}
+                onChange={(e) => updateItem(index, { proper_shipping_name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-slate-400">Class</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="3"
+                value={item.class_division}
+                onChange={(e) => updateItem(index, { class_division: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-slate-400">Packing Group</label>
+              <select
+                className="input"
+                value={item.packing_group || ''}
+                onChange={(e) => updateItem(index, { packing_group: (e.target.value || null) as PackingGroup | null })}
+              >
+                <option value="">None</option>
+                {packingGroups.map((group) => (
+                  <option key={group} value={group}>{group}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-slate-400">Quantity{unit ? ` (${unit})` : ''}</label>
+              <input
+                type="number"
+                className="input"
+                min="0"
+                step="0.001"
+                value={item.quantity || ''}
+                onChange={(e) => updateItem(index, { quantity: e.target.value ? parseFloat(e.target.value) : 0 })}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-300 pb-2">
+              <input
+                type="checkbox"
+                checked={item.cargo_aircraft_only}
+                onChange={(e) => updateItem(index, { cargo_aircraft_only: e.target.checked })}
+              />
+              Cargo aircraft only
+            </label>
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+              className="btn-secondary"
+            >
+              Remove
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...items, { ...emptyDangerousGood }])}
+        className="text-sm text-blue-400 hover:text-blue-300"
+      >
+        + Add dangerous goods line
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * DeliveryProofCard Component
+ * Recipient, signature and condition of a delivered shipment
+ */
+
+import { useState } from 'react';
+import { downloadDeliveryReceipt } from '../../services/delivery';
+import { DeliveryCondition, DeliveryProof } from '../../types';
+
+interface DeliveryProofCardProps {
+  shipmentId: string;
+  trackingNumber: string;
+  delivery: DeliveryProof | null;
+  onRecord?: () => void;
+}
+
+const conditionLabels: Record<DeliveryCondition, string> = {
+  good: 'Good condition',
+  damaged: 'Damaged',
+  shortage: 'Shortage',
+  damaged_and_shortage: 'Damaged and shortage',
+};
+
+export default function DeliveryProofCard({ shipmentId, trackingNumber, delivery, onRecord }: DeliveryProofCardProps) {
+  const [error, setError] = useState('');
+
+  const handleDownload = async () => {
+    try {
+      await downloadDeliveryReceipt(shipmentId, trackingNumber);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download receipt');
+    }
+  };
+
+  if (!delivery) {
+    return (
+      <div className="card">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-white">Proof of Delivery</h3>
+            <p className="text-sm text-slate-400">No proof of delivery has been recorded.</p>
+          </div>
+          {onRecord && (
+            <button onClick={onRecord} className="btn-primary text-sm whitespace-nowrap">
+              Record delivery
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">✅ Proof of Delivery</h3>
+        <button onClick={handleDownload} className="btn-secondary text-sm">
+          Download receipt
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-3 py-2 rounded-lg mb-4 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+        <div>
+          <p className="text-slate-400">Received By</p>
+          <p className="text-white">{delivery.recipient_name}</p>
+        </div>
+        <div>
+          <p className="text-slate-400">Delivered</p>
+          <p className="text-white">{new Date(delivery.delivered_at).toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-slate-400">Location</p>
+          <p className="text-white">
+            {delivery.location || '—'}
+            {delivery.latitude !== null && delivery.longitude !== null && (
+              <span className="block text-xs text-slate-500">
+                {delivery.latitude}, {delivery.longitude}
+              </span>
+            )}
+          </p>
+        </div>
+        <div>
+          <p className="text-slate-400">Condition</p>
+          <p className={delivery.condition === 'good' ? 'text-green-400' : 'text-red-400 font-medium'}>
+            {conditionLabels[delivery.condition]}
+          </p>
+        </div>
+      </div>
+
+      {delivery.condition_notes && (
+        <p className="text-sm text-slate-300 bg-slate-700/30 rounded-lg px-3 py-2 mb-4">
+          {delivery.condition_notes}
+        </p>
+      )}
+
+      {delivery.signature && (
+        <div className="mb-4">
+          <p className="text-sm text-slate-400 mb-1">Signature</p>
+          <img src={delivery.signature} alt="Recipient signature" className="bg-white rounded-lg max-h-28" />
+        </div>
+      )}
+
+      {delivery.photos.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {delivery.photos.map((photo, index) => (
+            <img
+              key={index}
+              src={photo}
+              alt={`Delivery photo ${index + 1}`}
+              className="h-24 w-24 object-cover rounded-lg"
+            />
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500">
+        Recorded {new Date(delivery.created_at).toLocaleString()}
+        {delivery.recorded_by_email && <> by {delivery.recorded_by_email}</>}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+/**
+ * DeliveryProofForm Component
+ * Captures proof of delivery: recipient, signature, time, location, condition and photos
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { DeliveryCondition, DeliveryProofFormData } from '../../types';
+
+interface DeliveryProofFormProps {
+  defaultLocation: string;
+  onSubmit: (proof: DeliveryProofFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+const conditions: { value: DeliveryCondition; label: string }[] = [
+  { value: 'good', label: 'Good condition' },
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'shortage', label: 'Shortage' },
+  { value: 'damaged_and_shortage', label: 'Damaged and shortage' },
+];
+
+const MAX_PHOTOS = 3;
+// Photos are scaled down before upload to stay well below the server's 1 MB limit
+const MAX_PHOTO_SIDE = 1280;
+
+/**
+ * Current local time in the format of a datetime-local input
+ */
+const localNow = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+/**
+ * Read an image file and re-encode it as a JPEG data URL no larger than MAX_PHOTO_SIDE
+ */
+const resizePhoto = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, MAX_PHOTO_SIDE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`${file.name} is not an image`));
+    };
+    image.src = url;
+  });
+
+export default function DeliveryProofForm({ defaultLocation, onSubmit, onCancel }: DeliveryProofFormProps) {
+  const [recipientName, setRecipientName] = useState('');
+  const [deliveredAt, setDeliveredAt] = useState(localNow());
+  const [location, setLocation] = useState(defaultLocation);
+  const [coordinates, setCoordinates] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [condition, setCondition] = useState<DeliveryCondition>('good');
+  const [conditionNotes, setConditionNotes] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [hasSignature, setHasSignature] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (context) {
+      context.lineWidth = 2;
+      context.lineCap = 'round';
+      context.strokeStyle = '#0f172a';
+    }
+  }, []);
+
+  // Pointer position in canvas pixels (the canvas is scaled by CSS)
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvas.height) / rect.height,
+    };
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = pointFor(e);
+    context.beginPath();
+    context.moveTo(x, y);
+    drawing.current = true;
+  };
+
+  const continueStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!drawing.current || !context) return;
+    const { x, y } = pointFor(e);
+    context.lineTo(x, y);
+    context.stroke();
+    setHasSignature(true);
+  };
+
+  const clearSignature = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+  };
+
+  const useCurrentPosition = () => {
+    if (!navigator.geolocation) {
+      setError('Location is not available in this browser');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => setCoordinates({
+        latitude: Number(coords.latitude.toFixed(6)),
+        longitude: Number(coords.longitude.toFixed(6)),
+      }),
+      () => setError('Could not determine the current location')
+    );
+  };
+
+  const handlePhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_PHOTOS - photos.length);
+    e.target.value = '';
+    try {
+      const resized = await Promise.all(files.map(resizePhoto));
+      setPhotos([...photos, ...resized]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read photo');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasSignature || !canvasRef.current) {
+      setError('The recipient must sign');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      await onSubmit({
+        recipient_name: recipientName.trim(),
+        signature: canvasRef.current.toDataURL('image/png'),
+        delivered_at: new Date(deliveredAt).toISOString(),
+        location: location.trim() || undefined,
+        latitude: coordinates?.latitude ?? null,
+        longitude: coordinates?.longitude ?? null,
+        photos,
+        condition,
+        condition_notes: conditionNotes.trim() || undefined,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record delivery');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-slate-800 rounded-xl max-w-xl w-full max-h-[90vh] overflow-y-auto p-6 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white">✅ Proof of Delivery</h2>
+          <button type="button" onClick={onCancel} className="text-slate-400 hover:text-white text-2xl">
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-3 py-2 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label className="label">Received By</label>
+          <input
+            type="text"
+            className="input"
+            placeholder="Recipient's full name"
+            maxLength={100}
+            value={recipientName}
+            onChange={(e) => setRecipientName(e.target.value)}
+            required
+          />
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between">
+            <label className="label">Signature</label>
+            <button type="button" onClick={clearSignature} className="text-xs text-slate-400 hover:text-white">
+              Clear
+            </button>
+          </div>
+          <canvas
+            ref={canvasRef}
+            width={560}
+            height={180}
+            className="w-full h-36 bg-white rounded-lg cursor-crosshair touch-none"
+            onPointerDown={startStroke}
+            onPointerMove={continueStroke}
+            onPointerUp={() => { drawing.current = false; }}
+            onPointerLeave={() => { drawing.current = false; }}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="label">Delivered At</label>
+            <input
+              type="datetime-local"
+              className="input"
+              max={localNow()}
+              value={deliveredAt}
+              onChange={(e) => setDeliveredAt(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <label className="label">Location</label>
+            <input
+              type="text"
+              className="input"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+            />
+            <button type="button" onClick={useCurrentPosition} className="text-xs text-blue-400 hover:text-blue-300 mt-1">
+              {coordinates
+                ? `📍 ${coordinates.latitude}, ${coordinates.longitude}`
+                : '📍 Use current position'}
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label className="label">Condition</label>
+          <select
+            className="input"
+            value={condition}
+            onChange={(e) => setCondition(e.target.value as DeliveryCondition)}
+          >
+            {conditions.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="label">Condition Notes{condition !== 'good' && ' (required)'}</label>
+          <textarea
+            className="input"
+            rows={2}
+            maxLength={1000}
+            placeholder={condition === 'good' ? 'Optional' : 'Describe the damage or missing pieces'}
+            value={conditionNotes}
+            onChange={(e) => setConditionNotes(e.target.value)}
+            required={condition !== 'good'}
+          />
+        </div>
+
+        <div>
+          <label className="label">Photos ({photos.length}/{MAX_PHOTOS})</label>
+          <div className="flex flex-wrap gap-2 items-center">
+            {photos.map((photo, index) => (
+              <div key={index} className="relative">
+                <img src={photo} alt={`Delivery photo ${index + 1}`} className="h-16 w-16 object-cover rounded" />
+                <button
+                  type="button"
+                  onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                  className="absolute -top-2 -right-2 bg-slate-900 text-slate-300 rounded-full w-5 h-5 text-xs"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            {photos.length < MAX_PHOTOS && (
+              <label className="btn-secondary text-sm cursor-pointer">
+                + Add photo
+                <input type="file" accept="image/png,image/jpeg" multiple onChange={handlePhotos} className="hidden" />
+              </label>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button type="button" onClick={onCancel} className="btn-secondary">
+            Cancel
+          </button>
+          <button type="submit" disabled={submitting} className="btn-primary">
+            {submitting ? 'Saving...' : 'Confirm Delivery'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * ShipmentDocuments Component
+ * Paperwork attached to a shipment: upload, download and delete
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  getShipmentDocuments,
+  uploadShipmentDocument,
+  downloadShipmentDocument,
+  deleteShipmentDocument,
+} from '../../services/documents';
+import { DocumentType, ShipmentDocument } from '../../types';
+
+interface ShipmentDocumentsProps {
+  shipmentId: string;
+  canEdit: boolean;
+}
+
+const documentTypes: { value: DocumentType; label: string }[] = [
+  { value: 'awb', label: 'Air Waybill' },
+  { value: 'commercial_invoice', label: 'Commercial Invoice' },
+  { value: 'packing_list', label: 'Packing List' },
+  { value: 'certificate_of_origin', label: 'Certificate of Origin' },
+  { value: 'other', label: 'Other' },
+];
+
+// Mirrors the server limits so obviously invalid files fail before uploading
+const MAX_FILE_MB = 10;
+const ACCEPTED_FILES = '.pdf,.png,.jpg,.jpeg,.tif,.tiff,.csv,.xlsx,.docx';
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export default function ShipmentDocuments({ shipmentId, canEdit }: ShipmentDocumentsProps) {
+  const [documents, setDocuments] = useState<ShipmentDocument[]>([]);
+  const [documentType, setDocumentType] = useState<DocumentType>('commercial_invoice');
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    getShipmentDocuments(shipmentId)
+      .then(setDocuments)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load documents'))
+      .finally(() => setLoading(false));
+  }, [shipmentId]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_FILE_MB * 1024 * 1024) {
+      setError(`${file.name} is larger than ${MAX_FILE_MB} MB`);
+      return;
+    }
+
+    setUploading(true);
+    setError('');
+    try {
+      const document = await uploadShipmentDocument(shipmentId, file, documentType);
+      setDocuments([document, ...documents]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload document');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDownload = async (document: ShipmentDocument) => {
+    try {
+      await downloadShipmentDocument(document);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download document');
+    }
+  };
+
+  const handleDelete = async (document: ShipmentDocument) => {
+    if (!confirm(`Delete ${document.file_name}?`)) return;
+
+    try {
+      await deleteShipmentDocument(shipmentId, document.id);
+      setDocuments(documents.filter((d) => d.id !== document.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete document');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">
+          Documents <span className="text-sm text-slate-400 font-normal">({documents.length})</span>
+        </h3>
+        {canEdit && (
+          <div className="flex gap-2">
+            <select
+              className="input py-1 text-sm"
+              value={documentType}
+              onChange={(e) => setDocumentType(e.target.value as DocumentType)}
+            >
+              {documentTypes.map((type) => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => fileInput.current?.click()}
+              disabled={uploading}
+              className="btn-primary text-sm whitespace-nowrap"
+            >
+              {uploading ? 'Uploading...' : '+ Upload'}
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept={ACCEPTED_FILES}
+              onChange={handleUpload}
+              className="hidden"
+            />
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-3 py-2 rounded-lg mb-4 text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse h-12 bg-slate-700 rounded"></div>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          No documents yet. PDF, image, CSV, XLSX and DOCX files up to {MAX_FILE_MB} MB can be attached.
+        </p>
+      ) : (
+        <div className="divide-y divide-slate-700/50">
+          {documents.map((document) => (
+            <div key={document.id} className="flex items-center justify-between py-2 text-sm">
+              <div className="min-w-0">
+                <button
+                  onClick={() => handleDownload(document)}
+                  className="text-blue-400 hover:text-blue-300 truncate block max-w-full text-left"
+                >
+                  📄 {document.file_name}
+                </button>
+                <div className="text-xs text-slate-500">
+                  {documentTypes.find((type) => type.value === document.document_type)?.label}
+                  {' · '}{formatSize(document.size_bytes)}
+                  {' · '}{new Date(document.created_at).toLocaleString()}
+                  {document.uploaded_by_email && <> · {document.uploaded_by_email}</>}
+                </div>
+              </div>
+              {canEdit && (
+                <button
+                  onClick={() => handleDelete(document)}
+                  className="text-red-400 hover:text-red-300 ml-4"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,8 +3,13 @@
  * Form for creating/editing shipments with validation
  */
 
-import { useState } from 'react';
-import { ShipmentFormData } from '../../types';
+import { useEffect, useState } from 'react';
+import { Airport, AwbStock, DangerousGoodsFormData, ServiceLevel, ShipmentFormData, ShipmentPieceFormData } from '../../types';
+import ShipmentPieces from './ShipmentPieces';
+import DangerousGoodsLines, { emptyDangerousGood } from './DangerousGoodsLines';
+import AirportInput from './AirportInput';
+import { getAwbStock } from '../../services/awb';
+import { validateAwbNumber } from '../../utils/validators';
 
 interface ShipmentFormProps {
   initialData?: Partial<ShipmentFormData>;
@@ -29,8 +34,38 @@ export default function ShipmentForm({
     origin_lon: initialData?.origin_lon,
     dest_lat: initialData?.dest_lat,
     dest_lon: initialData?.dest_lon,
+    origin_iata: initialData?.origin_iata,
+    dest_iata: initialData?.dest_iata,
+    temp_min_c: initialData?.temp_min_c,
+    temp_max_c: initialData?.temp_max_c,
+    service_level: initialData?.service_level || 'standard',
   });
 
+  // Intermediate transfer hubs; the route is split into legs between them
+  const [hubs, setHubs] = useState<string[]>([]);
+
+  // Piece lines; when present the weight is calculated from them
+  const [pieces, setPieces] = useState<ShipmentPieceFormData[]>([]);
+
+  // Dangerous goods lines, required for hazardous cargo
+  const [dangerousGoods, setDangerousGoods] = useState<DangerousGoodsFormData[]>([{ ...emptyDangerousGood }]);
+  const declaresDangerousGoods = !isEditing && formData.cargo_type === 'hazardous';
+
+  // Perishable cargo is kept within a temperature range
+  const isPerishable = formData.cargo_type === 'perishable';
+
+  // AWB stock with serials left, offered for automatic allocation
+  const [awbStock, setAwbStock] = useState<AwbStock[]>([]);
+
+  useEffect(() => {
+    if (isEditing) return;
+    getAwbStock()
+      .then((stock) => setAwbStock(stock.filter((range) => range.remaining > 0)))
+      .catch(() => setAwbStock([]));
+  }, [isEditing]);
+
+  const awbPrefixes = [...new Set(awbStock.map((range) => range.airline_prefix))];
+
   const [errors, setErrors] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
 
@@ -44,6 +79,33 @@ export default function ShipmentForm({
     { value: 'documents', label: 'Documents' },
   ];
 
+  const serviceLevels: { value: ServiceLevel; label: string }[] = [
+    { value: 'standard', label: 'Standard' },
+    { value: 'express', label: 'Express' },
+    { value: 'priority', label: 'Priority' },
+  ];
+
+  // A picked airport fills in the coordinates; typing over it drops them again
+  const handleOrigin = (origin: string, airport: Airport | null) => {
+    setFormData((current) => ({
+      ...current,
+      origin,
+      origin_iata: airport?.iata,
+      origin_lat: airport ? airport.latitude : current.origin_iata ? undefined : current.origin_lat,
+      origin_lon: airport ? airport.longitude : current.origin_iata ? undefined : current.origin_lon,
+    }));
+  };
+
+  const handleDestination = (destination: string, airport: Airport | null) => {
+    setFormData((current) => ({
+      ...current,
+      destination,
+      dest_iata: airport?.iata,
+      dest_lat: airport ? airport.latitude : current.dest_iata ? undefined : current.dest_lat,
+      dest_lon: airport ? airport.longitude : current.dest_iata ? undefined : current.dest_lon,
+    }));
+  };
+
   const validate = (): boolean => {
     const newErrors: string[] = [];
 
@@ -64,10 +126,70 @@ export default function ShipmentForm({
       newErrors.push('Weight must be a positive number');
     }
 
+    if (formData.awb_number) {
+      newErrors.push(...validateAwbNumber(formData.awb_number).errors);
+    }
+
+    if (formData.tracking_pin && !/^[A-Za-z0-9]{4,10}$/.test(formData.tracking_pin.replace(/[\s-]/g, ''))) {
+      newErrors.push('Tracking PIN must be 4-10 letters or digits');
+    }
+
+    pieces.forEach((piece, index) => {
+      if (!(piece.quantity >= 1) || !Number.isInteger(piece.quantity)) {
+        newErrors.push(`Piece ${index + 1}: quantity must be a whole number of at least 1`);
+      }
+      if (!(piece.length_cm > 0 && piece.width_cm > 0 && piece.height_cm > 0)) {
+        newErrors.push(`Piece ${index + 1}: length, width and height are required`);
+      }
+      if (!(piece.weight_kg > 0)) {
+        newErrors.push(`Piece ${index + 1}: weight must be a positive number`);
+      }
+    });
+
+    if (declaresDangerousGoods) {
+      if (dangerousGoods.length === 0) {
+        newErrors.push('Hazardous cargo requires a dangerous goods declaration');
+      }
+      dangerousGoods.forEach((item, index) => {
+        if (!item.un_number.trim() || !item.proper_shipping_name.trim() || !item.class_division.trim()) {
+          newErrors.push(`Dangerous goods line ${index + 1}: UN number, proper shipping name and class are required`);
+        }
+        if (!(item.quantity > 0)) {
+          newErrors.push(`Dangerous goods line ${index + 1}: quantity must be a positive number`);
+        }
+      });
+    }
+
+    if (isPerishable) {
+      if (formData.temp_min_c === undefined || formData.temp_max_c === undefined) {
+        newErrors.push('Perishable cargo requires a temperature range');
+      } else if (formData.temp_min_c >= formData.temp_max_c) {
+        newErrors.push('Minimum temperature must be below the maximum temperature');
+      }
+    }
+
+    hubs.forEach((hub, index) => {
+      if (hub.trim().length < 2) {
+        newErrors.push(`Transfer hub ${index + 1} is required (minimum 2 characters)`);
+      }
+    });
+
     setErrors(newErrors);
     return newErrors.length === 0;
   };
 
+  const buildLegs = () => {
+    const stops = [formData.origin, ...hubs, formData.destination].map(stop => stop.trim());
+    return stops.slice(0, -1).map((origin, index) => ({
+      origin,
+      destination: stops[index + 1],
+    }));
+  };
+
+  const updateHub = (index: number, value: string) => {
+    setHubs(hubs.map((hub, i) => (i === index ? value : hub)));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -75,7 +197,13 @@ export default function ShipmentForm({
 
     setLoading(true);
     try {
-      await onSubmit(formData);
+      await onSubmit({
+        ...formData,
+        ...(isPerishable ? {} : { temp_min_c: undefined, temp_max_c: undefined }),
+        ...(hubs.length > 0 ? { legs: buildLegs() } : {}),
+        ...(pieces.length > 0 ? { pieces, weight_kg: undefined } : {}),
+        ...(declaresDangerousGoods ? { dangerous_goods: dangerousGoods } : {}),
+      });
     } catch (error) {
       setErrors([error instanceof Error ? error.message : 'Failed to save shipment']);
     } finally {
@@ -103,13 +231,11 @@ export default function ShipmentForm({
           <label className="label">
             Origin <span className="text-red-400">*</span>
           </label>
-          <input
-            type="text"
-            className="input"
+          <AirportInput
+            id="origin"
             placeholder="e.g., New York, JFK Airport"
             value={formData.origin}
-            onChange={(e) => setFormData({ ...formData, origin: e.target.value })}
-            required
+            onChange={handleOrigin}
           />
         </div>
 
@@ -117,13 +243,11 @@ export default function ShipmentForm({
           <label className="label">
             Destination <span className="text-red-400">*</span>
           </label>
-          <input
-            type="text"
-            className="input"
+          <AirportInput
+            id="destination"
             placeholder="e.g., Los Angeles, LAX Airport"
             value={formData.destination}
-            onChange={(e) => setFormData({ ...formData, destination: e.target.value })}
-            required
+            onChange={handleDestination}
           />
         </div>
       </div>
@@ -150,10 +274,11 @@ export default function ShipmentForm({
           <input
             type="number"
             className="input"
-            placeholder="e.g., 150"
+            placeholder={pieces.length > 0 ? 'Calculated from pieces' : 'e.g., 150'}
             min="0"
             step="0.01"
-            value={formData.weight_kg || ''}
+            disabled={pieces.length > 0}
+            value={pieces.length > 0 ? '' : formData.weight_kg || ''}
             onChange={(e) => setFormData({ 
               ...formData, 
               weight_kg: e.target.value ? parseFloat(e.target.value) : undefined 
@@ -162,17 +287,202 @@ export default function ShipmentForm({
         </div>
       </div>
 
-      {/* Estimated Arrival */}
+      {/* Dangerous Goods Declaration */}
+      {declaresDangerousGoods && (
+        <div className="border border-amber-500/30 bg-amber-500/5 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-amber-400 mb-1">☢️ Dangerous Goods Declaration</h3>
+          <p className="text-xs text-slate-400 mb-3">
+            Declared items are checked for forbidden goods, quantity limits and segregation before the shipment is created.
+          </p>
+          <DangerousGoodsLines items={dangerousGoods} onChange={setDangerousGoods} />
+        </div>
+      )}
+
+      {/* Cold Chain */}
+      {isPerishable && (
+        <div className="border border-cyan-500/30 bg-cyan-500/5 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-cyan-400 mb-1">❄️ Temperature Range</h3>
+          <p className="text-xs text-slate-400 mb-3">
+            Weather at the origin and destination and logged readings outside this range raise a cold chain exception.
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">
+                Minimum (°C) <span className="text-red-400">*</span>
+              </label>
+              <input
+                type="number"
+                className="input"
+                placeholder="e.g., 2"
+                min="-80"
+                max="40"
+                step="0.1"
+                value={formData.temp_min_c ?? ''}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  temp_min_c: e.target.value ? parseFloat(e.target.value) : undefined,
+                })}
+              />
+            </div>
+            <div>
+              <label className="label">
+                Maximum (°C) <span className="text-red-400">*</span>
+              </label>
+              <input
+                type="number"
+                className="input"
+                placeholder="e.g., 8"
+                min="-80"
+                max="40"
+                step="0.1"
+                value={formData.temp_max_c ?? ''}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  temp_max_c: e.target.value ? parseFloat(e.target.value) : undefined,
+                })}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Estimated Arrival & Service Level */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="label">Estimated Arrival</label>
+          <input
+            type="datetime-local"
+            className="input"
+            value={formData.estimated_arrival || ''}
+            onChange={(e) => setFormData({ ...formData, estimated_arrival: e.target.value })}
+          />
+        </div>
+
+        <div>
+          <label className="label">Service Level</label>
+          <select
+            className="input"
+            value={formData.service_level || 'standard'}
+            onChange={(e) => setFormData({ ...formData, service_level: e.target.value as ServiceLevel })}
+          >
+            {serviceLevels.map((level) => (
+              <option key={level.value} value={level.value}>
+                {level.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-slate-500 mt-1">Sets the promised delivery from your SLA targets</p>
+        </div>
+      </div>
+
+      {/* Air Waybill */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="label">AWB Number</label>
+          <input
+            type="text"
+            className="input"
+            placeholder="e.g., 176-12345675"
+            value={formData.awb_number || ''}
+            disabled={!!formData.awb_prefix}
+            onChange={(e) => setFormData({ ...formData, awb_number: e.target.value })}
+          />
+        </div>
+
+        {!isEditing && awbPrefixes.length > 0 && (
+          <div>
+            <label className="label">Allocate from Stock</label>
+            <select
+              className="input"
+              value={formData.awb_prefix || ''}
+              onChange={(e) => setFormData({
+                ...formData,
+                awb_prefix: e.target.value || undefined,
+                awb_number: e.target.value ? undefined : formData.awb_number,
+              })}
+            >
+              <option value="">Don't allocate</option>
+              {awbPrefixes.map((prefix) => {
+                const next = awbStock.find((range) => range.airline_prefix === prefix);
+                return (
+                  <option key={prefix} value={prefix}>
+                    {prefix}{next?.airline_name ? ` (${next.airline_name})` : ''} – next {next?.next_awb}
+                  </option>
+                );
+              })}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {/* Public Tracking */}
       <div>
-        <label className="label">Estimated Arrival</label>
+        <label className="label">Tracking PIN or Postcode</label>
         <input
-          type="datetime-local"
-          className="input"
-          value={formData.estimated_arrival || ''}
-          onChange={(e) => setFormData({ ...formData, estimated_arrival: e.target.value })}
+          type="text"
+          className="input md:w-1/2"
+          placeholder="Optional"
+          maxLength={12}
+          value={formData.tracking_pin || ''}
+          onChange={(e) => setFormData({ ...formData, tracking_pin: e.target.value || undefined })}
         />
+        <p className="text-xs text-slate-500 mt-1">
+          When set, customers must enter it together with the tracking number on the public tracking page.
+        </p>
       </div>
 
+      {/* Optional Pieces */}
+      <details className="group">
+        <summary className="cursor-pointer text-sm text-slate-400 hover:text-slate-300 transition-colors">
+          Add pieces and dimensions (optional)
+        </summary>
+        <div className="mt-4">
+          <p className="text-xs text-slate-500 mb-3">
+            Freight is charged on the greater of actual and volumetric weight (L×W×H / 6000).
+          </p>
+          <ShipmentPieces pieces={pieces} onChange={setPieces} />
+        </div>
+      </details>
+
+      {/* Optional Transfer Hubs */}
+      {!isEditing && (
+        <details className="group">
+          <summary className="cursor-pointer text-sm text-slate-400 hover:text-slate-300 transition-colors">
+            Add transfer hubs (optional)
+          </summary>
+          <div className="mt-4 space-y-3">
+            <p className="text-xs text-slate-500">
+              Each hub splits the route into a separate leg that can be assigned its own flight.
+            </p>
+            {hubs.map((hub, index) => (
+              <div key={index} className="flex gap-2">
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="e.g., Frankfurt, FRA"
+                  value={hub}
+                  onChange={(e) => updateHub(index, e.target.value)}
+                />
+                <button
+                  type="button"
+                  onClick={() => setHubs(hubs.filter((_, i) => i !== index))}
+                  className="btn-secondary"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setHubs([...hubs, ''])}
+              className="text-sm text-blue-400 hover:text-blue-300"
+            >
+              + Add hub
+            </button>
+          </div>
+        </details>
+      )}
+
       {/* Optional Coordinates */}
       <details className="group">
         <summary className="cursor-pointer text-sm text-slate-400 hover:text-slate-300 transition-colors">
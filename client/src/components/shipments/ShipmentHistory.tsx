@@ -0,0 +1,104 @@
+/**
+ * ShipmentHistory Component
+ * Field-level audit history of a shipment
+ */
+
+import { useEffect, useState } from 'react';
+import { getShipmentHistory } from '../../services/audit';
+import { AuditLogEntry } from '../../types';
+
+interface ShipmentHistoryProps {
+  shipmentId: string;
+}
+
+const actionStyles: Record<string, { icon: string; label: string; color: string }> = {
+  create: { icon: '➕', label: 'Created', color: 'text-green-400' },
+  update: { icon: '✏️', label: 'Updated', color: 'text-blue-400' },
+  assign: { icon: '✈️', label: 'Assigned', color: 'text-purple-400' },
+  delete: { icon: '🗑️', label: 'Deleted', color: 'text-red-400' },
+};
+
+const formatField = (field: string) =>
+  field.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleString();
+  }
+  return String(value).replace(/_/g, ' ');
+};
+
+export default function ShipmentHistory({ shipmentId }: ShipmentHistoryProps) {
+  const [history, setHistory] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    getShipmentHistory(shipmentId)
+      .then(setHistory)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load history'))
+      .finally(() => setLoading(false));
+  }, [shipmentId]);
+
+  if (loading) {
+    return (
+      <div className="card animate-pulse space-y-3">
+        {[...Array(4)].map((_, i) => (
+          <div key={i} className="h-10 bg-slate-700 rounded"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="card text-red-400 text-sm">{error}</div>;
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="card text-center py-8">
+        <p className="text-slate-400">No changes recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-white mb-4">Change History</h3>
+      <div className="divide-y divide-slate-700/50">
+        {history.map((entry) => {
+          const style = actionStyles[entry.action] || actionStyles.update;
+          const snapshot = (entry.new_value || entry.old_value) as Record<string, unknown> | null;
+
+          return (
+            <div key={entry.id} className="py-3 flex gap-3">
+              <span className="text-lg">{style.icon}</span>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm">
+                  <span className={`font-medium ${style.color}`}>{style.label}</span>
+                  {entry.field ? (
+                    <span className="text-slate-300">
+                      {' '}<span className="text-white">{formatField(entry.field)}</span>
+                      {' '}from <span className="text-slate-400">{formatValue(entry.old_value)}</span>
+                      {' '}to <span className="text-white">{formatValue(entry.new_value)}</span>
+                    </span>
+                  ) : snapshot && (
+                    <span className="text-slate-300">
+                      {' '}{formatValue(snapshot.origin)} → {formatValue(snapshot.destination)}
+                      {snapshot.status ? ` (${formatValue(snapshot.status)})` : ''}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-slate-500 mt-0.5">
+                  {entry.user_email || entry.user_id} · {new Date(entry.created_at).toLocaleString()}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * ShipmentLegs Component
+ * Displays the ordered legs of a multi-leg shipment with per-leg flights
+ */
+
+import { ShipmentLeg } from '../../types';
+import StatusBadge from './StatusBadge';
+
+interface ShipmentLegsProps {
+  legs: ShipmentLeg[];
+  onAssignFlight?: (legId: number) => void;
+  onStatusChange?: (legId: number, status: string) => void;
+}
+
+// Legs follow the built-in flight lifecycle; only forward steps are offered here
+const nextLegStatuses: Record<string, string[]> = {
+  pending: ['departed'],
+  departed: ['in_transit', 'delayed'],
+  in_transit: ['arrived', 'delayed'],
+  delayed: ['in_transit', 'arrived'],
+};
+
+export default function ShipmentLegs({ legs, onAssignFlight, onStatusChange }: ShipmentLegsProps) {
+  const formatTime = (value: string | null) =>
+    value ? new Date(value).toLocaleString() : '—';
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-white mb-4">
+        Route Legs <span className="text-sm text-slate-400 font-normal">({legs.length})</span>
+      </h3>
+      <div className="space-y-4">
+        {legs.map((leg, i) => (
+          <div key={leg.id} className="flex gap-4">
+            <div className="flex flex-col items-center">
+              <div className="w-7 h-7 rounded-full bg-slate-700 text-xs text-white flex items-center justify-center">
+                {leg.sequence}
+              </div>
+              {i < legs.length - 1 && <div className="w-0.5 flex-1 bg-slate-700 mt-1" />}
+            </div>
+            <div className="flex-1 pb-4">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-white font-medium">
+                  {leg.origin} → {leg.destination}
+                </div>
+                <StatusBadge status={leg.status} />
+              </div>
+              <div className="grid grid-cols-2 gap-2 mt-2 text-xs text-slate-400">
+                <div>
+                  Planned: {formatTime(leg.planned_departure)} → {formatTime(leg.planned_arrival)}
+                </div>
+                <div>
+                  Actual: {formatTime(leg.actual_departure)} → {formatTime(leg.actual_arrival)}
+                </div>
+              </div>
+              <div className="flex items-center justify-between mt-2">
+                <div className="text-sm text-slate-300">
+                  {leg.tracked_flights ? (
+                    <>✈️ {leg.tracked_flights.callsign || leg.tracked_flights.icao24.toUpperCase()}</>
+                  ) : (
+                    <span className="text-slate-500">No flight assigned</span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {onAssignFlight && !leg.flight_id && leg.status === 'pending' && (
+                    <button
+                      onClick={() => onAssignFlight(leg.id)}
+                      className="text-xs text-blue-400 hover:text-blue-300"
+                    >
+                      Assign Flight
+                    </button>
+                  )}
+                  {onStatusChange && (nextLegStatuses[leg.status] || []).map((status) => (
+                    <button
+                      key={status}
+                      onClick={() => onStatusChange(leg.id, status)}
+                      className="text-xs px-2 py-1 rounded bg-slate-700/50 text-slate-300 hover:bg-slate-700"
+                    >
+                      {status.replace('_', ' ')}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,23 +3,93 @@
  * Displays shipments in a table format
  */
 
+import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Shipment } from '../../types';
+import { Shipment, BulkActionRequest, BulkActionResult, StatusWorkflow } from '../../types';
+import StatusReasonModal from './StatusReasonModal';
+import StatusBadge from './StatusBadge';
+import { formatAwb } from '../../utils/validators';
 
 interface ShipmentListProps {
   shipments: Shipment[];
   loading?: boolean;
   onDelete?: (id: string) => void;
+  statusOptions?: { value: string; label: string; requiresReason?: boolean }[];
+  /** Workflow of the statuses, for their labels and colors */
+  workflow?: StatusWorkflow | null;
+  onBulkAction?: (request: BulkActionRequest) => Promise<BulkActionResult>;
 }
 
-export default function ShipmentList({ shipments, loading, onDelete }: ShipmentListProps) {
-  const statusColors: Record<string, string> = {
-    pending: 'status-pending',
-    departed: 'status-departed',
-    in_transit: 'status-in_transit',
-    arrived: 'status-arrived',
-    delayed: 'status-delayed',
-    cancelled: 'status-cancelled',
+/** Cargo types a bulk update can set; hazardous cargo needs a declaration per shipment */
+const cargoTypes = [
+  { value: 'general', label: 'General Cargo' },
+  { value: 'fragile', label: 'Fragile' },
+  { value: 'perishable', label: 'Perishable' },
+  { value: 'valuable', label: 'Valuable Items' },
+  { value: 'documents', label: 'Documents' },
+];
+
+export default function ShipmentList({
+  shipments,
+  loading,
+  onDelete,
+  statusOptions = [],
+  workflow = null,
+  onBulkAction,
+}: ShipmentListProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkStatus, setBulkStatus] = useState('');
+  const [bulkCargoType, setBulkCargoType] = useState('');
+  const [bulkRunning, setBulkRunning] = useState(false);
+  const [bulkErrors, setBulkErrors] = useState<{ trackingNumber: string; error: string }[]>([]);
+  const [askingReason, setAskingReason] = useState(false);
+
+  // Drop selections for shipments that are no longer listed
+  useEffect(() => {
+    setSelectedIds((current) => {
+      const visible = new Set(shipments.map((s) => s.id));
+      return new Set([...current].filter((id) => visible.has(id)));
+    });
+  }, [shipments]);
+
+  const allSelected = shipments.length > 0 && shipments.every((s) => selectedIds.has(s.id));
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(shipments.map((s) => s.id)));
+  };
+
+  const runBulkAction = async (request: Omit<BulkActionRequest, 'ids'>) => {
+    if (!onBulkAction || selectedIds.size === 0) return;
+    if (request.action === 'delete' &&
+        !confirm(`Delete ${selectedIds.size} shipments? This action cannot be undone.`)) return;
+
+    setBulkRunning(true);
+    setBulkErrors([]);
+    try {
+      const result = await onBulkAction({ ...request, ids: [...selectedIds] });
+      const failed = result.results.filter((r) => !r.success);
+
+      // Keep failed shipments selected so they can be retried
+      setSelectedIds(new Set(failed.map((r) => r.id)));
+      setBulkErrors(failed.map((r) => ({
+        trackingNumber: shipments.find((s) => s.id === r.id)?.tracking_number || r.id,
+        error: r.error || 'Failed',
+      })));
+    } catch {
+      // The parent reports the failure; keep the selection for a retry
+    } finally {
+      setBulkRunning(false);
+    }
   };
 
   if (loading) {
@@ -54,10 +124,98 @@ export default function ShipmentList({ shipments, loading, onDelete }: ShipmentL
 
   return (
     <div className="card overflow-hidden p-0">
+      {/* Bulk Action Toolbar */}
+      {onBulkAction && selectedIds.size > 0 && (
+        <div className="px-4 py-3 bg-blue-500/10 border-b border-blue-500/30">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm text-white font-medium">{selectedIds.size} selected</span>
+
+            <div className="flex items-center gap-2">
+              <select
+                className="input py-1.5 text-sm w-auto"
+                value={bulkStatus}
+                onChange={(e) => setBulkStatus(e.target.value)}
+              >
+                <option value="">Change status...</option>
+                {statusOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => statusOptions.find((option) => option.value === bulkStatus)?.requiresReason
+                  ? setAskingReason(true)
+                  : runBulkAction({ action: 'status', status: bulkStatus })}
+                disabled={!bulkStatus || bulkRunning}
+                className="btn-secondary py-1.5 text-sm"
+              >
+                Apply
+              </button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <select
+                className="input py-1.5 text-sm w-auto"
+                value={bulkCargoType}
+                onChange={(e) => setBulkCargoType(e.target.value)}
+              >
+                <option value="">Set cargo type...</option>
+                {cargoTypes.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => runBulkAction({ action: 'update', updates: { cargo_type: bulkCargoType } })}
+                disabled={!bulkCargoType || bulkRunning}
+                className="btn-secondary py-1.5 text-sm"
+              >
+                Apply
+              </button>
+            </div>
+
+            {onDelete && (
+              <button
+                onClick={() => runBulkAction({ action: 'delete' })}
+                disabled={bulkRunning}
+                className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+              >
+                🗑️ Delete
+              </button>
+            )}
+
+            <button
+              onClick={() => { setSelectedIds(new Set()); setBulkErrors([]); }}
+              className="ml-auto text-sm text-slate-400 hover:text-white"
+            >
+              Clear selection
+            </button>
+          </div>
+
+          {bulkErrors.length > 0 && (
+            <ul className="mt-3 text-xs text-red-300 space-y-0.5">
+              {bulkErrors.map((item) => (
+                <li key={item.trackingNumber}>
+                  <span className="font-medium">{item.trackingNumber}:</span> {item.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       <div className="overflow-x-auto">
         <table className="w-full">
           <thead className="bg-slate-800/50 border-b border-slate-700">
             <tr>
+              {onBulkAction && (
+                <th className="pl-4 py-3 w-8">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    aria-label="Select all shipments"
+                  />
+                </th>
+              )}
               <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase tracking-wider">
                 Tracking #
               </th>
@@ -85,8 +243,20 @@ export default function ShipmentList({ shipments, loading, onDelete }: ShipmentL
             {shipments.map((shipment) => (
               <tr 
                 key={shipment.id} 
-                className="hover:bg-slate-700/30 transition-colors"
+                className={`hover:bg-slate-700/30 transition-colors ${
+                  selectedIds.has(shipment.id) ? 'bg-blue-500/5' : ''
+                }`}
               >
+                {onBulkAction && (
+                  <td className="pl-4 py-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(shipment.id)}
+                      onChange={() => toggleSelected(shipment.id)}
+                      aria-label={`Select ${shipment.tracking_number}`}
+                    />
+                  </td>
+                )}
                 <td className="px-4 py-4">
                   <Link 
                     to={`/shipments/${shipment.id}`}
@@ -94,6 +264,11 @@ export default function ShipmentList({ shipments, loading, onDelete }: ShipmentL
                   >
                     {shipment.tracking_number}
                   </Link>
+                  {shipment.awb_number && (
+                    <div className="text-xs text-slate-500 font-mono mt-0.5">
+                      AWB {formatAwb(shipment.awb_number)}
+                    </div>
+                  )}
                 </td>
                 <td className="px-4 py-4 text-sm text-slate-300">
                   {shipment.origin}
@@ -102,10 +277,7 @@ export default function ShipmentList({ shipments, loading, onDelete }: ShipmentL
                   {shipment.destination}
                 </td>
                 <td className="px-4 py-4">
-                  <span className={`px-2.5 py-1 text-xs font-medium rounded-full border 
-                                 ${statusColors[shipment.status] || 'bg-slate-500/20'}`}>
-                    {shipment.status.replace('_', ' ')}
-                  </span>
+                  <StatusBadge status={shipment.status} workflow={workflow} />
                 </td>
                 <td className="px-4 py-4 text-sm text-slate-400">
                   {shipment.cargo_type || '-'}
@@ -138,6 +310,18 @@ export default function ShipmentList({ shipments, loading, onDelete }: ShipmentL
           </tbody>
         </table>
       </div>
+
+      {askingReason && (
+        <StatusReasonModal
+          statusLabel={statusOptions.find((option) => option.value === bulkStatus)?.label || bulkStatus}
+          subject={`${selectedIds.size} shipments`}
+          onConfirm={async (reason) => {
+            setAskingReason(false);
+            await runBulkAction({ action: 'status', status: bulkStatus, ...reason });
+          }}
+          onCancel={() => setAskingReason(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,109 @@
+/**
+ * ShipmentPieces Component
+ * Editable list of piece lines with live volumetric and chargeable weight
+ */
+
+import { PackagingType, ShipmentPieceFormData } from '../../types';
+import { calculatePieceTotals } from '../../utils/weights';
+
+interface ShipmentPiecesProps {
+  pieces: ShipmentPieceFormData[];
+  onChange: (pieces: ShipmentPieceFormData[]) => void;
+}
+
+const packagingTypes: PackagingType[] = ['box', 'crate', 'pallet', 'drum', 'envelope', 'bag', 'other'];
+
+export const emptyPiece: ShipmentPieceFormData = {
+  quantity: 1,
+  length_cm: 0,
+  width_cm: 0,
+  height_cm: 0,
+  weight_kg: 0,
+  packaging_type: 'box',
+};
+
+const numericFields: { key: keyof ShipmentPieceFormData; label: string; step: string }[] = [
+  { key: 'quantity', label: 'Qty', step: '1' },
+  { key: 'length_cm', label: 'L (cm)', step: '0.1' },
+  { key: 'width_cm', label: 'W (cm)', step: '0.1' },
+  { key: 'height_cm', label: 'H (cm)', step: '0.1' },
+  { key: 'weight_kg', label: 'Kg / pc', step: '0.01' },
+];
+
+export default function ShipmentPieces({ pieces, onChange }: ShipmentPiecesProps) {
+  const totals = calculatePieceTotals(pieces);
+
+  const updatePiece = (index: number, changes: Partial<ShipmentPieceFormData>) => {
+    onChange(pieces.map((piece, i) => (i === index ? { ...piece, ...changes } : piece)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {pieces.map((piece, index) => (
+        <div key={index} className="grid grid-cols-2 md:grid-cols-7 gap-2 items-end">
+          {numericFields.map(({ key, label, step }) => (
+            <div key={key}>
+              <label className="text-xs text-slate-400">{label}</label>
+              <input
+                type="number"
+                className="input"
+                min="0"
+                step={step}
+                value={piece[key] || ''}
+                onChange={(e) => updatePiece(index, { [key]: e.target.value ? parseFloat(e.target.value) : 0 })}
+              />
+            </div>
+          ))}
+          <div>
+            <label className="text-xs text-slate-400">Packaging</label>
+            <select
+              className="input"
+              value={piece.packaging_type}
+              onChange={(e) => updatePiece(index, { packaging_type: e.target.value as PackagingType })}
+            >
+              {packagingTypes.map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(pieces.filter((_, i) => i !== index))}
+            className="btn-secondary"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...pieces, { ...emptyPiece }])}
+        className="text-sm text-blue-400 hover:text-blue-300"
+      >
+        + Add piece line
+      </button>
+
+      {pieces.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-3 border-t border-slate-700 text-sm">
+          <div>
+            <div className="text-xs text-slate-400">Pieces / Volume</div>
+            <div className="text-white">{totals.totalPieces} pcs · {totals.volumeM3} m³</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-400">Actual Weight</div>
+            <div className="text-white">{totals.actualWeightKg} kg</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-400">Volumetric Weight</div>
+            <div className="text-white">{totals.volumetricWeightKg} kg</div>
+          </div>
+          <div>
+            <div className="text-xs text-slate-400">Chargeable Weight</div>
+            <div className="text-white font-semibold">{totals.chargeableWeightKg} kg</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,9 +5,10 @@
  * ACADEMIC REQUIREMENT: Search functionality returning multiple rows
  */
 
-import { useState } from 'react';
-import { SearchCriteria, SearchResult } from '../../types';
+import { useEffect, useState } from 'react';
+import { SearchCriteria, SearchResult, StatusDefinition } from '../../types';
 import { searchShipments } from '../../services/search';
+import { getWorkflow } from '../../services/workflows';
 
 interface ShipmentSearchProps {
   onResults: (results: SearchResult) => void;
@@ -17,6 +18,13 @@ interface ShipmentSearchProps {
 export default function ShipmentSearch({ onResults, onLoading }: ShipmentSearchProps) {
   const [criteria, setCriteria] = useState<SearchCriteria>({});
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [statuses, setStatuses] = useState<StatusDefinition[]>([]);
+
+  useEffect(() => {
+    getWorkflow()
+      .then((workflow) => setStatuses(workflow.statuses))
+      .catch((error) => console.error('Error loading status workflow:', error));
+  }, []);
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,12 +47,7 @@ export default function ShipmentSearch({ onResults, onLoading }: ShipmentSearchP
 
   const statusOptions = [
     { value: '', label: 'All Statuses' },
-    { value: 'pending', label: 'Pending' },
-    { value: 'departed', label: 'Departed' },
-    { value: 'in_transit', label: 'In Transit' },
-    { value: 'arrived', label: 'Arrived' },
-    { value: 'delayed', label: 'Delayed' },
-    { value: 'cancelled', label: 'Cancelled' },
+    ...statuses.map((status) => ({ value: status.name, label: status.label })),
   ];
 
   const cargoTypes = [
@@ -115,7 +118,7 @@ export default function ShipmentSearch({ onResults, onLoading }: ShipmentSearchP
 
         {/* Advanced Search */}
         {showAdvanced && (
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4 pt-4 border-t border-slate-700">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 pt-4 border-t border-slate-700">
             <div>
               <label className="label">Destination</label>
               <input
@@ -127,6 +130,17 @@ export default function ShipmentSearch({ onResults, onLoading }: ShipmentSearchP
               />
             </div>
 
+            <div>
+              <label className="label">AWB Number</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="e.g., 176-12345675"
+                value={criteria.awbNumber || ''}
+                onChange={(e) => setCriteria({ ...criteria, awbNumber: e.target.value })}
+              />
+            </div>
+
             <div>
               <label className="label">Cargo Type</label>
               <select
@@ -142,6 +156,34 @@ export default function ShipmentSearch({ onResults, onLoading }: ShipmentSearchP
               </select>
             </div>
 
+            <div>
+              <label className="label">Chargeable Weight (kg)</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  className="input"
+                  placeholder="Min"
+                  min="0"
+                  value={criteria.minChargeableWeight ?? ''}
+                  onChange={(e) => setCriteria({
+                    ...criteria,
+                    minChargeableWeight: e.target.value ? parseFloat(e.target.value) : undefined,
+                  })}
+                />
+                <input
+                  type="number"
+                  className="input"
+                  placeholder="Max"
+                  min="0"
+                  value={criteria.maxChargeableWeight ?? ''}
+                  onChange={(e) => setCriteria({
+                    ...criteria,
+                    maxChargeableWeight: e.target.value ? parseFloat(e.target.value) : undefined,
+                  })}
+                />
+              </div>
+            </div>
+
             <div>
               <label className="label">Date From</label>
               <input
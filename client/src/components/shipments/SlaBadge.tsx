@@ -0,0 +1,39 @@
+/**
+ * SlaBadge Component
+ * SLA status of a shipment with its slack against the promised delivery
+ */
+
+import { SlaStatus } from '../../types';
+
+export const slaStatusLabels: Record<SlaStatus, string> = {
+  on_track: 'On track',
+  at_risk: 'At risk',
+  breach_predicted: 'Breach predicted',
+  breached: 'Breached',
+  met: 'Met',
+};
+
+const slaStatusStyles: Record<SlaStatus, string> = {
+  on_track: 'bg-green-500/20 text-green-400',
+  at_risk: 'bg-yellow-500/20 text-yellow-400',
+  breach_predicted: 'bg-orange-500/20 text-orange-400',
+  breached: 'bg-red-500/20 text-red-400',
+  met: 'bg-slate-500/20 text-slate-300',
+};
+
+interface SlaBadgeProps {
+  status: SlaStatus;
+  /** Hours of slack; negative when late */
+  slackHours?: number | null;
+}
+
+export default function SlaBadge({ status, slackHours }: SlaBadgeProps) {
+  const slack = slackHours == null ? null : Number(slackHours);
+
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${slaStatusStyles[status]}`}>
+      {slaStatusLabels[status]}
+      {slack !== null && status !== 'met' && ` (${slack >= 0 ? '+' : ''}${slack} h)`}
+    </span>
+  );
+}
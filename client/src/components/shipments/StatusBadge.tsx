@@ -0,0 +1,81 @@
+/**
+ * StatusBadge Component
+ * Shipment status in the label, color and icon of its workflow definition
+ */
+
+import { StatusWorkflow } from '../../types';
+import { getStatusLabel } from '../../services/workflows';
+
+/** Classes of the colors a workflow status can be given */
+const statusColorStyles: Record<string, string> = {
+  yellow: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  amber: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+  orange: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  red: 'bg-red-500/20 text-red-400 border-red-500/30',
+  rose: 'bg-rose-500/20 text-rose-400 border-rose-500/30',
+  pink: 'bg-pink-500/20 text-pink-400 border-pink-500/30',
+  purple: 'bg-purple-500/20 text-purple-400 border-purple-500/30',
+  violet: 'bg-violet-500/20 text-violet-400 border-violet-500/30',
+  indigo: 'bg-indigo-500/20 text-indigo-400 border-indigo-500/30',
+  blue: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  sky: 'bg-sky-500/20 text-sky-400 border-sky-500/30',
+  cyan: 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30',
+  teal: 'bg-teal-500/20 text-teal-400 border-teal-500/30',
+  emerald: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  green: 'bg-green-500/20 text-green-400 border-green-500/30',
+  lime: 'bg-lime-500/20 text-lime-400 border-lime-500/30',
+  gray: 'bg-gray-500/20 text-gray-400 border-gray-500/30',
+  slate: 'bg-slate-500/20 text-slate-400 border-slate-500/30',
+};
+
+/** Built-in statuses, for flight legs and until the workflow has loaded */
+const defaultStatusAppearance: Record<string, { color: string; icon: string }> = {
+  pending: { color: 'yellow', icon: '⏳' },
+  departed: { color: 'blue', icon: '✈️' },
+  in_transit: { color: 'indigo', icon: '🚀' },
+  arrived: { color: 'green', icon: '✅' },
+  delayed: { color: 'red', icon: '⚠️' },
+  cancelled: { color: 'gray', icon: '❌' },
+};
+
+/**
+ * Badge classes of a workflow color name; unknown colors are shown in slate
+ */
+export function getStatusColorClasses(color: string | null | undefined): string {
+  return statusColorStyles[(color || '').toLowerCase()] || statusColorStyles.slate;
+}
+
+/**
+ * Color and icon of a status from its workflow definition
+ */
+export function getStatusAppearance(
+  workflow: StatusWorkflow | null,
+  status: string
+): { color: string; icon: string } {
+  const definition = workflow?.statuses.find((s) => s.name === status);
+  const fallback = defaultStatusAppearance[status] || { color: 'slate', icon: '📦' };
+  return {
+    color: definition?.color || fallback.color,
+    icon: definition?.icon || fallback.icon,
+  };
+}
+
+interface StatusBadgeProps {
+  status: string;
+  workflow?: StatusWorkflow | null;
+  size?: 'sm' | 'md';
+  showIcon?: boolean;
+}
+
+export default function StatusBadge({ status, workflow = null, size = 'sm', showIcon = false }: StatusBadgeProps) {
+  const { color, icon } = getStatusAppearance(workflow, status);
+  const sizeClasses = size === 'md' ? 'px-3 py-1 text-sm' : 'px-2.5 py-1 text-xs';
+
+  return (
+    <span className={`inline-flex items-center gap-1 font-medium rounded-full border whitespace-nowrap
+                     ${sizeClasses} ${getStatusColorClasses(color)}`}>
+      {showIcon && <span>{icon}</span>}
+      {getStatusLabel(workflow, status)}
+    </span>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * StatusReasonModal Component
+ * Asks for the reason of a delay or cancellation before the status is changed
+ */
+
+import { useEffect, useState } from 'react';
+import { getStatusReasons } from '../../services/workflows';
+import { StatusReasonCategory, StatusReasonCode, StatusReasonData } from '../../types';
+
+interface StatusReasonModalProps {
+  /** Label of the status being entered, e.g. "Delayed" */
+  statusLabel: string;
+  /** What the status is applied to, e.g. "3 shipments" or "Leg 2" */
+  subject?: string;
+  onConfirm: (reason: StatusReasonData) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function StatusReasonModal({ statusLabel, subject, onConfirm, onCancel }: StatusReasonModalProps) {
+  const [categories, setCategories] = useState<StatusReasonCategory[]>([]);
+  const [code, setCode] = useState<StatusReasonCode | ''>('');
+  const [text, setText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getStatusReasons()
+      .then(setCategories)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load reasons'));
+  }, []);
+
+  const needsText = code === 'other';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code) return;
+
+    setSubmitting(true);
+    setError('');
+    try {
+      await onConfirm({ reason_code: code, reason_text: text.trim() || undefined });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change the status');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-slate-800 rounded-xl max-w-md w-full p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white">Reason: {statusLabel}</h2>
+          <button type="button" onClick={onCancel} className="text-slate-400 hover:text-white text-2xl">
+            ×
+          </button>
+        </div>
+        <p className="text-sm text-slate-400">
+          Give the reason for changing {subject || 'the shipment'} to {statusLabel.toLowerCase()}. It is kept in
+          the tracking history and counted in the delay analytics.
+        </p>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-3 py-2 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label className="label">Reason</label>
+          <select
+            className="input"
+            value={code}
+            onChange={(e) => setCode(e.target.value as StatusReasonCode)}
+            required
+          >
+            <option value="">Select a reason...</option>
+            {categories.map((category) => (
+              <option key={category.code} value={category.code}>
+                {category.label}{category.iata_codes ? ` (IATA ${category.iata_codes})` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="label">Details{needsText ? '' : ' (optional)'}</label>
+          <textarea
+            className="input"
+            rows={3}
+            maxLength={500}
+            placeholder="e.g., Fog at LHR, rebooked on next day's flight"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            required={needsText}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onCancel} className="btn-secondary">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting || !code || (needsText && !text.trim())}
+            className="btn-primary"
+          >
+            {submitting ? 'Saving...' : `Mark as ${statusLabel}`}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * FlightTrackReplay Components
+ * Breadcrumb trail of a flight's recorded positions with a time slider to replay it;
+ * FlightTrackLayer is drawn inside a map, TrackSlider below it, sharing useTrackReplay.
+ * FlightTrackMap combines both on a map of its own.
+ */
+
+import { useEffect, useState } from 'react';
+import { MapContainer, TileLayer, Polyline, CircleMarker, Tooltip } from 'react-leaflet';
+import { FlightTrack } from '../../types';
+
+/** Time between two points while playing */
+const PLAY_INTERVAL_MS = 400;
+
+export interface TrackReplay {
+  /** Point of the track shown on the map */
+  index: number;
+  setIndex: (index: number) => void;
+  playing: boolean;
+  togglePlaying: () => void;
+}
+
+/**
+ * Replay state of a track; starts at the latest position
+ */
+export function useTrackReplay(track: FlightTrack | null): TrackReplay {
+  const count = track?.points.length ?? 0;
+  const [index, setIndex] = useState(Math.max(count - 1, 0));
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    setIndex(Math.max(count - 1, 0));
+    setPlaying(false);
+  }, [track, count]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const interval = setInterval(() => {
+      setIndex((current) => {
+        if (current >= count - 1) {
+          setPlaying(false);
+          return current;
+        }
+        return current + 1;
+      });
+    }, PLAY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [playing, count]);
+
+  const togglePlaying = () => {
+    if (!playing && index >= count - 1) {
+      setIndex(0);
+    }
+    setPlaying(!playing);
+  };
+
+  return { index, setIndex, playing, togglePlaying };
+}
+
+/**
+ * Trail flown up to the replayed point, the rest of the track faded, and the aircraft's position then
+ */
+export function FlightTrackLayer({ track, replay }: { track: FlightTrack; replay: TrackReplay }) {
+  if (track.points.length === 0) return null;
+
+  const positions = track.points.map((p) => [p.latitude, p.longitude] as [number, number]);
+  const current = track.points[Math.min(replay.index, track.points.length - 1)];
+
+  return (
+    <>
+      <Polyline positions={positions} pathOptions={{ color: '#64748b', weight: 2, dashArray: '4 6' }} />
+      <Polyline positions={positions.slice(0, replay.index + 1)} pathOptions={{ color: '#3b82f6', weight: 3 }} />
+      <CircleMarker
+        center={[current.latitude, current.longitude]}
+        radius={6}
+        pathOptions={{ color: '#ffffff', fillColor: '#3b82f6', fillOpacity: 1, weight: 2 }}
+      >
+        <Tooltip>
+          {new Date(current.recorded_at).toLocaleString()}
+          <br />
+          {current.on_ground ? 'On ground' : `${Math.round(current.altitude * 3.28084).toLocaleString()} ft`}
+          {' • '}
+          {Math.round(current.velocity * 1.94384)} kts
+        </Tooltip>
+      </CircleMarker>
+    </>
+  );
+}
+
+/**
+ * Slider over the recorded positions with a play button
+ */
+export function TrackSlider({ track, replay }: { track: FlightTrack; replay: TrackReplay }) {
+  if (track.points.length === 0) {
+    return (
+      <div className="text-sm text-slate-500">
+        No positions recorded yet. Positions are recorded every time the flight is refreshed.
+      </div>
+    );
+  }
+
+  const current = track.points[Math.min(replay.index, track.points.length - 1)];
+  const hours = Math.floor(track.durationMinutes / 60);
+
+  return (
+    <div>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={replay.togglePlaying}
+          disabled={track.points.length < 2}
+          className="btn-secondary text-sm px-3 py-1"
+        >
+          {replay.playing ? '⏸ Pause' : '▶ Replay'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={track.points.length - 1}
+          value={replay.index}
+          onChange={(e) => replay.setIndex(Number(e.target.value))}
+          className="flex-1 accent-blue-500"
+          aria-label="Track position"
+        />
+        <div className="text-sm text-white font-mono whitespace-nowrap">
+          {new Date(current.recorded_at).toLocaleTimeString()}
+        </div>
+      </div>
+      <div className="text-xs text-slate-500 mt-2">
+        {track.pointCount} positions • {track.distanceKm.toLocaleString()} km
+        {' • '}
+        {hours > 0 ? `${hours}h ` : ''}{track.durationMinutes % 60}m
+        {track.startedAt && ` • since ${new Date(track.startedAt).toLocaleString()}`}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Map fitted to the track, with its slider
+ */
+export function FlightTrackMap({ track }: { track: FlightTrack }) {
+  const replay = useTrackReplay(track);
+  const positions = track.points.map((p) => [p.latitude, p.longitude] as [number, number]);
+
+  return (
+    <div className="space-y-3">
+      {positions.length > 0 && (
+        <div className="h-64 rounded-lg overflow-hidden">
+          <MapContainer
+            {...(positions.length > 1
+              ? { bounds: positions, boundsOptions: { padding: [30, 30] as [number, number] } }
+              : { center: positions[0], zoom: 6 })}
+            style={{ height: '100%', width: '100%' }}
+          >
+            <TileLayer
+              url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+            />
+            <FlightTrackLayer track={track} replay={replay} />
+          </MapContainer>
+        </div>
+      )}
+      <TrackSlider track={track} replay={replay} />
+    </div>
+  );
+}
@@ -68,7 +68,7 @@ export default function WeatherWidget({ weather, location, loading }: WeatherWid
         {/* Temperature */}
         <div>
           <div className="text-3xl font-bold text-white">
-            {Math.round(weather.temperature)}°C
+            {weather.temperature !== null ? `${Math.round(weather.temperature)}°C` : '—'}
           </div>
           <div className="text-sm text-slate-400">{weather.description}</div>
         </div>
@@ -82,7 +82,7 @@ export default function WeatherWidget({ weather, location, loading }: WeatherWid
         </div>
         <div className="bg-slate-700/30 rounded-lg p-3">
           <div className="text-xs text-slate-400 mb-1">Humidity</div>
-          <div className="text-sm text-white">{weather.humidity}%</div>
+          <div className="text-sm text-white">{weather.humidity !== null ? `${weather.humidity}%` : '—'}</div>
         </div>
       </div>
 
@@ -0,0 +1,187 @@
+/**
+ * AWB Stock Page
+ * Manage the air waybill serial ranges issued by airlines
+ */
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getAwbStock, addAwbStock, deleteAwbStock } from '../services/awb';
+import { AwbStock as AwbStockRange } from '../types';
+
+const emptyForm = { airline_prefix: '', airline_name: '', range_start: '', range_end: '' };
+
+export default function AwbStock() {
+  const [stock, setStock] = useState<AwbStockRange[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadStock = async () => {
+    try {
+      setStock(await getAwbStock());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load AWB stock');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStock();
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      await addAwbStock({
+        airline_prefix: form.airline_prefix.trim(),
+        airline_name: form.airline_name.trim() || undefined,
+        range_start: parseInt(form.range_start, 10),
+        range_end: parseInt(form.range_end, 10),
+      });
+      setForm(emptyForm);
+      await loadStock();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add AWB stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Remove this stock range? AWB numbers already allocated are kept.')) return;
+
+    try {
+      await deleteAwbStock(id);
+      setStock(stock.filter((range) => range.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete AWB stock');
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <Link to="/shipments" className="text-sm text-slate-400 hover:text-white mb-2 inline-block">
+          ← Back to Shipments
+        </Link>
+        <h1 className="text-3xl font-bold text-white mb-2">AWB Stock</h1>
+        <p className="text-slate-400">
+          Serial ranges issued by airlines. New shipments can be allocated the next free
+          air waybill number; the check digit is added automatically.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {/* Add Range */}
+      <form onSubmit={handleAdd} className="card mb-6 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <div>
+          <label className="label">Airline Prefix</label>
+          <input
+            type="text"
+            className="input"
+            placeholder="e.g., 176"
+            maxLength={3}
+            value={form.airline_prefix}
+            onChange={(e) => setForm({ ...form, airline_prefix: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <label className="label">Airline</label>
+          <input
+            type="text"
+            className="input"
+            placeholder="e.g., Emirates"
+            value={form.airline_name}
+            onChange={(e) => setForm({ ...form, airline_name: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="label">First Serial</label>
+          <input
+            type="number"
+            className="input"
+            placeholder="7 digits"
+            min="0"
+            max="9999999"
+            value={form.range_start}
+            onChange={(e) => setForm({ ...form, range_start: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <label className="label">Last Serial</label>
+          <input
+            type="number"
+            className="input"
+            placeholder="7 digits"
+            min="0"
+            max="9999999"
+            value={form.range_end}
+            onChange={(e) => setForm({ ...form, range_end: e.target.value })}
+            required
+          />
+        </div>
+        <button type="submit" disabled={saving} className="btn-primary">
+          {saving ? 'Adding...' : 'Add Range'}
+        </button>
+      </form>
+
+      {/* Ranges */}
+      <div className="card overflow-x-auto">
+        {loading ? (
+          <div className="animate-pulse h-24 bg-slate-700 rounded"></div>
+        ) : stock.length === 0 ? (
+          <p className="text-slate-400 text-center py-6">No AWB stock ranges yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-700">
+                <th className="py-2 pr-4">Airline</th>
+                <th className="py-2 pr-4">Range</th>
+                <th className="py-2 pr-4">Next AWB</th>
+                <th className="py-2 pr-4">Remaining</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {stock.map((range) => (
+                <tr key={range.id} className="text-slate-300">
+                  <td className="py-2 pr-4">
+                    <span className="font-mono text-white">{range.airline_prefix}</span>
+                    {range.airline_name && <span className="ml-2">{range.airline_name}</span>}
+                  </td>
+                  <td className="py-2 pr-4 font-mono">
+                    {String(range.range_start).padStart(7, '0')}–{String(range.range_end).padStart(7, '0')}
+                  </td>
+                  <td className="py-2 pr-4 font-mono">{range.next_awb || '—'}</td>
+                  <td className={`py-2 pr-4 ${range.remaining === 0 ? 'text-red-400' : ''}`}>
+                    {range.remaining.toLocaleString()}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => handleDelete(range.id)}
+                      className="text-red-400 hover:text-red-300"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
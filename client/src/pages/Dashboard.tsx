@@ -4,14 +4,22 @@
  */
 
 import { useEffect, useState } from 'react';
-import { getDashboardStats, getRecentActivity } from '../services/analytics';
+import { getDashboardStats, getRecentActivity, getDelayReasons } from '../services/analytics';
 import { getShipments } from '../services/shipments';
 import { getWeatherAlerts } from '../services/weather';
+import { getSlaSummary } from '../services/sla';
+import { hasPermission } from '../services/auth';
+import { getWorkflow } from '../services/workflows';
 import DashboardStats from '../components/dashboard/DashboardStats';
 import RecentShipments from '../components/dashboard/RecentShipments';
-import { DashboardStats as Stats, Shipment, WeatherAlert } from '../types';
+import SlaWidget from '../components/dashboard/SlaWidget';
+import { DashboardStats as Stats, Shipment, WeatherAlert, DelayReasonData, SlaSummary, StatusWorkflow, User } from '../types';
 
-export default function Dashboard() {
+interface DashboardProps {
+  user: User | null;
+}
+
+export default function Dashboard({ user }: DashboardProps) {
   const [stats, setStats] = useState<Stats>({
     totalShipments: 0,
     activeShipments: 0,
@@ -21,6 +29,9 @@ export default function Dashboard() {
   });
   const [shipments, setShipments] = useState<Shipment[]>([]);
   const [weatherAlerts, setWeatherAlerts] = useState<WeatherAlert[]>([]);
+  const [delayReasons, setDelayReasons] = useState<DelayReasonData[]>([]);
+  const [slaSummary, setSlaSummary] = useState<SlaSummary | null>(null);
+  const [workflow, setWorkflow] = useState<StatusWorkflow | null>(null);
   const [activity, setActivity] = useState<Array<{
     id: number;
     trackingNumber: string;
@@ -38,17 +49,23 @@ export default function Dashboard() {
   const loadDashboard = async () => {
     setLoading(true);
     try {
-      const [statsData, shipmentsData, alertsData, activityData] = await Promise.all([
+      const [statsData, shipmentsData, alertsData, activityData, reasonsData, slaData, workflowData] = await Promise.all([
         getDashboardStats(),
         getShipments(),
         getWeatherAlerts().catch(() => []),
         getRecentActivity(5).catch(() => []),
+        getDelayReasons(30).catch(() => []),
+        getSlaSummary().catch(() => null),
+        getWorkflow().catch(() => null),
       ]);
 
       setStats(statsData);
       setShipments(shipmentsData.slice(0, 5));
       setWeatherAlerts(alertsData);
       setActivity(activityData);
+      setDelayReasons(reasonsData);
+      setSlaSummary(slaData);
+      setWorkflow(workflowData);
     } catch (error) {
       console.error('Error loading dashboard:', error);
     } finally {
@@ -71,9 +88,14 @@ export default function Dashboard() {
 
       {/* Main Content */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Recent Shipments */}
-        <div className="lg:col-span-2">
-          <RecentShipments shipments={shipments} loading={loading} />
+        {/* Service Levels and Recent Shipments */}
+        <div className="lg:col-span-2 space-y-6">
+          <SlaWidget
+            summary={slaSummary}
+            loading={loading}
+            canAcknowledge={hasPermission(user, 'shipments:write')}
+          />
+          <RecentShipments shipments={shipments} loading={loading} workflow={workflow} />
         </div>
 
         {/* Sidebar */}
@@ -103,6 +125,38 @@ export default function Dashboard() {
             )}
           </div>
 
+          {/* Delay Reasons */}
+          <div className="card">
+            <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+              <span>⚠️</span> Delay Reasons <span className="text-sm text-slate-400 font-normal">(30 days)</span>
+            </h3>
+            {delayReasons.length === 0 ? (
+              <div className="text-center py-4 text-slate-400">
+                <p>No delays or cancellations</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {delayReasons.map((reason) => (
+                  <div key={reason.code}>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-slate-300">{reason.label}</span>
+                      <span className="text-white font-medium">{reason.count}</span>
+                    </div>
+                    <div className="h-1.5 bg-slate-700 rounded-full mt-1">
+                      <div
+                        className="h-1.5 bg-red-400 rounded-full"
+                        style={{ width: `${(reason.count / delayReasons[0].count) * 100}%` }}
+                      />
+                    </div>
+                    {(reason.byStatus.cancelled || 0) > 0 && (
+                      <div className="text-xs text-slate-500 mt-0.5">{reason.byStatus.cancelled} cancelled</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Recent Activity */}
           <div className="card">
             <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
@@ -77,6 +77,13 @@ export default function Landing() {
                 Sign In
               </Link>
             </div>
+
+            <p className="text-slate-400 mt-8">
+              Expecting a delivery?{' '}
+              <Link to="/track" className="text-blue-400 hover:text-blue-300">
+                Track your shipment →
+              </Link>
+            </p>
           </div>
         </div>
       </div>
@@ -0,0 +1,367 @@
+/**
+ * Organization Page
+ * Team members, their roles and invitations
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  getOrganization,
+  renameOrganization,
+  setAutoStatusMode,
+  inviteMember,
+  cancelInvite,
+  updateMemberRole,
+  removeMember,
+  getMyInvites,
+  acceptInvite,
+} from '../services/organizations';
+import { backfillAirports } from '../services/airports';
+import { AirportBackfillResult, AutoStatusMode, OrganizationDetails, OrganizationInvite, Role, User } from '../types';
+
+interface OrganizationProps {
+  user: User | null;
+  onMembershipChange: () => void;
+}
+
+const roles: { value: Role; label: string; description: string }[] = [
+  { value: 'admin', label: 'Admin', description: 'Everything, including settings and members' },
+  { value: 'dispatcher', label: 'Dispatcher', description: 'Create, update and delete shipments and quotes' },
+  { value: 'viewer', label: 'Viewer', description: 'Read-only access to shipments, reports and analytics' },
+];
+
+const autoStatusModes: { value: AutoStatusMode; label: string; description: string }[] = [
+  { value: 'off', label: 'Off', description: 'Statuses only change when someone updates them' },
+  { value: 'propose', label: 'Suggest', description: 'Flight data suggests the next status on the shipment for a dispatcher to apply' },
+  { value: 'apply', label: 'Automatic', description: 'Flight data moves shipments to departed, in transit and arrived' },
+];
+
+const emptyInvite = { email: '', role: 'dispatcher' as Role };
+
+export default function Organization({ user, onMembershipChange }: OrganizationProps) {
+  const [details, setDetails] = useState<OrganizationDetails | null>(null);
+  const [myInvites, setMyInvites] = useState<OrganizationInvite[]>([]);
+  const [name, setName] = useState('');
+  const [inviteForm, setInviteForm] = useState(emptyInvite);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [backfill, setBackfill] = useState<AirportBackfillResult | null>(null);
+
+  const loadOrganization = async () => {
+    try {
+      const [data, invites] = await Promise.all([getOrganization(), getMyInvites()]);
+      setDetails(data);
+      setName(data.organization.name);
+      setMyInvites(invites);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load organization');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadOrganization();
+  }, []);
+
+  // Runs an action, then reloads so the lists reflect the change
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setSaving(true);
+    setError('');
+    try {
+      await action();
+      await loadOrganization();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => renameOrganization(name.trim()), 'Failed to rename organization');
+  };
+
+  const handleAutoStatus = (mode: AutoStatusMode) => {
+    run(() => setAutoStatusMode(mode), 'Failed to save automatic status setting');
+  };
+
+  const handleBackfill = (dryRun: boolean) => {
+    if (!dryRun && !confirm('Link the shipments listed in the preview to their airports?')) return;
+    run(async () => setBackfill(await backfillAirports(dryRun)), 'Failed to backfill airports');
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await inviteMember(inviteForm.email.trim(), inviteForm.role);
+      setInviteForm(emptyInvite);
+    }, 'Failed to invite member');
+  };
+
+  const handleRemove = (userId: string, email: string) => {
+    if (!confirm(`Remove ${email} from the organization?`)) return;
+    run(() => removeMember(userId), 'Failed to remove member');
+  };
+
+  const handleAccept = (invite: OrganizationInvite) => {
+    const orgName = invite.organizations?.name || 'this organization';
+    if (!confirm(`Join ${orgName}? You will leave your current organization and lose access to its shipments.`)) return;
+    run(async () => {
+      await acceptInvite(invite.id);
+      onMembershipChange();
+    }, 'Failed to accept invitation');
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="card animate-pulse h-48 bg-slate-800"></div>
+      </div>
+    );
+  }
+
+  const canManage = details?.permissions.includes('organization:manage') ?? false;
+  const canManageSettings = details?.permissions.includes('settings:manage') ?? false;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-white mb-2">{details?.organization.name || 'Organization'}</h1>
+        <p className="text-slate-400">
+          Everyone in the organization shares its shipments, quotes and settings.
+          {details && <> Your role: <span className="text-white capitalize">{details.role}</span>.</>}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {/* Invitations for the current user */}
+      {myInvites.length > 0 && (
+        <div className="card mb-6 border-blue-500/30">
+          <h3 className="text-lg font-semibold text-white mb-4">Invitations</h3>
+          <div className="space-y-2">
+            {myInvites.map((invite) => (
+              <div key={invite.id} className="flex items-center justify-between text-sm">
+                <span className="text-slate-300">
+                  Join <span className="text-white">{invite.organizations?.name || 'an organization'}</span> as{' '}
+                  <span className="capitalize">{invite.role}</span>
+                </span>
+                <button onClick={() => handleAccept(invite)} disabled={saving} className="btn-primary text-sm">
+                  Accept
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Rename */}
+      {canManage && (
+        <form onSubmit={handleRename} className="card mb-6 flex gap-4 items-end">
+          <div className="flex-1">
+            <label className="label">Organization Name</label>
+            <input
+              type="text"
+              className="input"
+              maxLength={100}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          <button type="submit" disabled={saving || name.trim() === details?.organization.name} className="btn-secondary">
+            Rename
+          </button>
+        </form>
+      )}
+
+      {/* Automatic status updates */}
+      {canManage && details && (
+        <div className="card mb-6">
+          <h3 className="text-lg font-semibold text-white mb-1">Automatic Status Updates</h3>
+          <p className="text-sm text-slate-400 mb-4">
+            How the assigned flight's take-off, cruise and landing at the destination change a shipment's status.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {autoStatusModes.map((mode) => (
+              <button
+                key={mode.value}
+                onClick={() => handleAutoStatus(mode.value)}
+                disabled={saving || details.organization.auto_status === mode.value}
+                className={`px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+                  details.organization.auto_status === mode.value
+                    ? 'bg-blue-500/20 text-blue-400 cursor-default'
+                    : 'bg-slate-700/50 text-slate-300 hover:bg-slate-700'
+                }`}
+              >
+                <div className="font-medium">{mode.label}</div>
+                <div className="text-xs text-slate-400 mt-1">{mode.description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Airport backfill */}
+      {canManageSettings && (
+        <div className="card mb-6">
+          <h3 className="text-lg font-semibold text-white mb-1">Airport Backfill</h3>
+          <p className="text-sm text-slate-400 mb-4">
+            Link shipments whose origin or destination was typed as free text to airports, filling in missing coordinates.
+          </p>
+          <div className="flex gap-3">
+            <button onClick={() => handleBackfill(true)} disabled={saving} className="btn-secondary">
+              Preview
+            </button>
+            <button onClick={() => handleBackfill(false)} disabled={saving || !backfill?.dryRun} className="btn-primary">
+              Apply
+            </button>
+          </div>
+          {backfill && (
+            <div className="mt-4 text-sm">
+              <p className="text-slate-300">
+                {backfill.dryRun ? 'Would link' : 'Linked'} {backfill.resolved.length} of {backfill.checked} shipments without airports.
+              </p>
+              {backfill.unresolved.length > 0 && (
+                <div className="mt-3">
+                  <p className="text-slate-400 mb-2">Not recognised ({backfill.unresolved.length}):</p>
+                  <ul className="space-y-1 max-h-48 overflow-y-auto">
+                    {backfill.unresolved.map((entry) => (
+                      <li key={`${entry.id}-${entry.field}`} className="text-slate-300">
+                        <span className="font-mono">{entry.tracking_number}</span>
+                        <span className="text-slate-500"> {entry.field}: </span>
+                        {entry.value}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Members */}
+      <div className="card mb-6 overflow-x-auto">
+        <h3 className="text-lg font-semibold text-white mb-4">
+          Members <span className="text-sm text-slate-400 font-normal">({details?.members.length || 0})</span>
+        </h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700">
+              <th className="py-2 pr-4">Email</th>
+              <th className="py-2 pr-4">Role</th>
+              <th className="py-2 pr-4">Joined</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700/50">
+            {details?.members.map((member) => (
+              <tr key={member.user_id} className="text-slate-300">
+                <td className="py-2 pr-4 text-white">
+                  {member.email}
+                  {member.user_id === user?.id && <span className="ml-2 text-slate-500">(you)</span>}
+                </td>
+                <td className="py-2 pr-4">
+                  {canManage ? (
+                    <select
+                      className="input py-1"
+                      value={member.role}
+                      disabled={saving}
+                      onChange={(e) => run(async () => {
+                        await updateMemberRole(member.user_id, e.target.value as Role);
+                        if (member.user_id === user?.id) onMembershipChange();
+                      }, 'Failed to update member')}
+                    >
+                      {roles.map((role) => (
+                        <option key={role.value} value={role.value}>{role.label}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="capitalize">{member.role}</span>
+                  )}
+                </td>
+                <td className="py-2 pr-4">{new Date(member.created_at).toLocaleDateString()}</td>
+                <td className="py-2 text-right">
+                  {canManage && member.user_id !== user?.id && (
+                    <button
+                      onClick={() => handleRemove(member.user_id, member.email)}
+                      className="text-red-400 hover:text-red-300"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Invite */}
+      {canManage && (
+        <div className="card">
+          <h3 className="text-lg font-semibold text-white mb-4">Invite a Member</h3>
+          <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-4">
+            <div className="md:col-span-2">
+              <label className="label">Email</label>
+              <input
+                type="email"
+                className="input"
+                placeholder="colleague@example.com"
+                value={inviteForm.email}
+                onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <label className="label">Role</label>
+              <select
+                className="input"
+                value={inviteForm.role}
+                onChange={(e) => setInviteForm({ ...inviteForm, role: e.target.value as Role })}
+              >
+                {roles.map((role) => (
+                  <option key={role.value} value={role.value}>{role.label}</option>
+                ))}
+              </select>
+            </div>
+            <button type="submit" disabled={saving} className="btn-primary">
+              {saving ? 'Saving...' : 'Send Invite'}
+            </button>
+          </form>
+          <p className="text-xs text-slate-500 mb-4">
+            {roles.find((role) => role.value === inviteForm.role)?.description}.
+            New users join when they first sign in; existing users accept from this page.
+          </p>
+
+          {details && details.invites.length > 0 && (
+            <div className="space-y-2 border-t border-slate-700 pt-4">
+              {details.invites.map((invite) => (
+                <div key={invite.id} className="flex items-center justify-between text-sm text-slate-300">
+                  <span>
+                    {invite.email} <span className="text-slate-500 capitalize">· {invite.role} · pending</span>
+                  </span>
+                  <button
+                    onClick={() => run(() => cancelInvite(invite.id), 'Failed to cancel invitation')}
+                    disabled={saving}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
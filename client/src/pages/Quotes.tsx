@@ -0,0 +1,519 @@
+/**
+ * Quotes Page
+ * Price shipments from rate cards and convert accepted quotes into shipments
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  getRateCards,
+  createRateCard,
+  deleteRateCard,
+  getQuotes,
+  requestQuote,
+  acceptQuote,
+  convertQuote,
+  ConvertDetails,
+} from '../services/quotes';
+import ShipmentPieces from '../components/shipments/ShipmentPieces';
+import DangerousGoodsLines, { emptyDangerousGood } from '../components/shipments/DangerousGoodsLines';
+import { DangerousGoodsFormData, Quote, RateCard, RateCardFormData, ShipmentPieceFormData } from '../types';
+
+const cargoTypes = ['general', 'fragile', 'hazardous', 'perishable', 'valuable', 'documents'];
+
+const rateFields: { key: keyof RateCardFormData; label: string }[] = [
+  { key: 'minimum_charge', label: 'Minimum' },
+  { key: 'rate_minus_45', label: '-45 kg' },
+  { key: 'rate_plus_45', label: '+45 kg' },
+  { key: 'rate_plus_100', label: '+100 kg' },
+  { key: 'rate_plus_300', label: '+300 kg' },
+];
+
+const emptyRateCard: RateCardFormData = {
+  origin: '',
+  destination: '',
+  currency: 'USD',
+  minimum_charge: 0,
+  rate_minus_45: 0,
+  rate_plus_45: 0,
+  rate_plus_100: 0,
+  rate_plus_300: 0,
+  surcharges: {},
+};
+
+const statusStyles: Record<string, string> = {
+  quoted: 'bg-blue-500/20 text-blue-400',
+  accepted: 'bg-green-500/20 text-green-400',
+  converted: 'bg-slate-500/20 text-slate-300',
+};
+
+const formatMoney = (amount: number, currency: string) =>
+  `${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+export default function Quotes() {
+  const navigate = useNavigate();
+
+  // Quote request
+  const [origin, setOrigin] = useState('');
+  const [destination, setDestination] = useState('');
+  const [cargoType, setCargoType] = useState('');
+  const [weightKg, setWeightKg] = useState<number | undefined>(undefined);
+  const [pieces, setPieces] = useState<ShipmentPieceFormData[]>([]);
+  const [quote, setQuote] = useState<Quote | null>(null);
+
+  // Dangerous goods declaration of a hazardous quote being converted
+  const [declaring, setDeclaring] = useState<{ quote: Quote; items: DangerousGoodsFormData[] } | null>(null);
+
+  // Temperature range of a perishable quote being converted
+  const [cooling, setCooling] = useState<{ quote: Quote; min: string; max: string } | null>(null);
+  const [quoting, setQuoting] = useState(false);
+
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [rateCardForm, setRateCardForm] = useState<RateCardFormData>(emptyRateCard);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getQuotes().then(setQuotes).catch((err) => setError(err.message));
+    getRateCards().then(setRateCards).catch((err) => setError(err.message));
+  }, []);
+
+  const replaceQuote = (updated: Quote) => {
+    setQuote(updated);
+    setQuotes((current) => [updated, ...current.filter((q) => q.id !== updated.id)]);
+  };
+
+  const handleQuote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuoting(true);
+    setError('');
+    try {
+      replaceQuote(await requestQuote({
+        origin,
+        destination,
+        cargo_type: cargoType || undefined,
+        ...(pieces.length > 0 ? { pieces } : { weight_kg: weightKg }),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to get quote');
+    } finally {
+      setQuoting(false);
+    }
+  };
+
+  const handleAccept = async (id: string) => {
+    setError('');
+    try {
+      replaceQuote(await acceptQuote(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept quote');
+    }
+  };
+
+  const handleConvert = async (q: Quote, details: ConvertDetails = {}) => {
+    // Hazardous cargo is declared, and perishable cargo given its temperature range,
+    // before the shipment is created
+    if (q.cargo_type === 'hazardous' && !details.dangerous_goods) {
+      setDeclaring({ quote: q, items: [{ ...emptyDangerousGood }] });
+      return;
+    }
+    if (q.cargo_type === 'perishable' && details.temp_min_c === undefined) {
+      setCooling({ quote: q, min: '', max: '' });
+      return;
+    }
+
+    setError('');
+    try {
+      const { shipment } = await convertQuote(q.id, details);
+      navigate(`/shipments/${shipment.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create shipment');
+    }
+  };
+
+  const handleAddRateCard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      const created = await createRateCard(rateCardForm);
+      setRateCards([...rateCards, created]);
+      setRateCardForm(emptyRateCard);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rate card');
+    }
+  };
+
+  const handleDeleteRateCard = async (id: number) => {
+    if (!confirm('Delete this rate card?')) return;
+    try {
+      await deleteRateCard(id);
+      setRateCards(rateCards.filter((card) => card.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rate card');
+    }
+  };
+
+  const setSurcharge = (type: string, value: string) => {
+    const surcharges = { ...rateCardForm.surcharges };
+    if (value) {
+      surcharges[type] = parseFloat(value);
+    } else {
+      delete surcharges[type];
+    }
+    setRateCardForm({ ...rateCardForm, surcharges });
+  };
+
+  const renderActions = (q: Quote) => (
+    <>
+      {q.status === 'quoted' && new Date(q.valid_until) > new Date() && (
+        <button onClick={() => handleAccept(q.id)} className="text-green-400 hover:text-green-300">
+          Accept
+        </button>
+      )}
+      {q.status === 'accepted' && (
+        <button onClick={() => handleConvert(q)} className="text-blue-400 hover:text-blue-300">
+          Create Shipment
+        </button>
+      )}
+      {q.status === 'converted' && q.shipment_id && (
+        <button onClick={() => navigate(`/shipments/${q.shipment_id}`)} className="text-slate-300 hover:text-white">
+          View Shipment
+        </button>
+      )}
+    </>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-white mb-2">Freight Quotes</h1>
+        <p className="text-slate-400">
+          Price a shipment from your rate cards. Accepted quotes can be turned into shipments.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+        {/* Quote Request */}
+        <form onSubmit={handleQuote} className="card lg:col-span-2 space-y-4">
+          <h3 className="text-lg font-semibold text-white">New Quote</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="label">Origin</label>
+              <input className="input" placeholder="e.g., JFK" value={origin}
+                onChange={(e) => setOrigin(e.target.value)} required />
+            </div>
+            <div>
+              <label className="label">Destination</label>
+              <input className="input" placeholder="e.g., LHR" value={destination}
+                onChange={(e) => setDestination(e.target.value)} required />
+            </div>
+            <div>
+              <label className="label">Cargo Type</label>
+              <select className="input" value={cargoType} onChange={(e) => setCargoType(e.target.value)}>
+                <option value="">General</option>
+                {cargoTypes.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {pieces.length === 0 && (
+            <div className="md:w-1/3">
+              <label className="label">Weight (kg)</label>
+              <input
+                type="number"
+                className="input"
+                min="0"
+                step="0.01"
+                placeholder="or add pieces below"
+                value={weightKg ?? ''}
+                onChange={(e) => setWeightKg(e.target.value ? parseFloat(e.target.value) : undefined)}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="label">Pieces</label>
+            <ShipmentPieces pieces={pieces} onChange={setPieces} />
+          </div>
+
+          <div className="flex justify-end">
+            <button type="submit" disabled={quoting} className="btn-primary">
+              {quoting ? 'Pricing...' : 'Get Quote'}
+            </button>
+          </div>
+        </form>
+
+        {/* Quote Result */}
+        <div className="card">
+          <h3 className="text-lg font-semibold text-white mb-4">Price</h3>
+          {quote ? (
+            <div className="space-y-3 text-sm">
+              <div className="text-slate-300">{quote.origin} → {quote.destination}</div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">Chargeable weight</span>
+                <span className="text-white">{quote.chargeable_weight_kg} kg</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">Weight break</span>
+                <span className="text-white">
+                  {quote.weight_break === 'minimum' ? 'Minimum charge' : `${quote.weight_break} kg @ ${quote.rate_per_kg}/kg`}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">Freight</span>
+                <span className="text-white">{formatMoney(quote.freight_charge, quote.currency)}</span>
+              </div>
+              {quote.surcharge > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-slate-400">{quote.cargo_type} surcharge ({quote.surcharge_percent}%)</span>
+                  <span className="text-white">{formatMoney(quote.surcharge, quote.currency)}</span>
+                </div>
+              )}
+              <div className="flex justify-between pt-3 border-t border-slate-700 text-base">
+                <span className="text-white font-semibold">Total</span>
+                <span className="text-white font-semibold">{formatMoney(quote.total, quote.currency)}</span>
+              </div>
+              <div className="text-xs text-slate-500">
+                Valid until {new Date(quote.valid_until).toLocaleDateString()}
+              </div>
+              <div className="flex gap-4 pt-2">{renderActions(quote)}</div>
+            </div>
+          ) : (
+            <p className="text-slate-400 text-sm">Enter a lane and weight or pieces to get a price.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Recent Quotes */}
+      <div className="card mb-8 overflow-x-auto">
+        <h3 className="text-lg font-semibold text-white mb-4">Recent Quotes</h3>
+        {quotes.length === 0 ? (
+          <p className="text-slate-400 text-sm">No quotes yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-700">
+                <th className="py-2 pr-4">Lane</th>
+                <th className="py-2 pr-4">Cargo</th>
+                <th className="py-2 pr-4">Chargeable</th>
+                <th className="py-2 pr-4">Total</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50 text-slate-300">
+              {quotes.map((q) => (
+                <tr key={q.id}>
+                  <td className="py-2 pr-4">{q.origin} → {q.destination}</td>
+                  <td className="py-2 pr-4">{q.cargo_type || 'general'}</td>
+                  <td className="py-2 pr-4">{q.chargeable_weight_kg} kg</td>
+                  <td className="py-2 pr-4">{formatMoney(q.total, q.currency)}</td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-0.5 rounded text-xs ${statusStyles[q.status]}`}>{q.status}</span>
+                  </td>
+                  <td className="py-2 text-right space-x-3">{renderActions(q)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Rate Cards */}
+      <div className="card overflow-x-auto">
+        <h3 className="text-lg font-semibold text-white mb-1">Rate Cards</h3>
+        <p className="text-xs text-slate-500 mb-4">
+          Rates are per kg of chargeable weight. Use * as origin or destination to match any location.
+        </p>
+
+        {rateCards.length > 0 && (
+          <table className="w-full text-sm mb-6">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-700">
+                <th className="py-2 pr-4">Lane</th>
+                {rateFields.map(({ key, label }) => (
+                  <th key={key} className="py-2 pr-4">{label}</th>
+                ))}
+                <th className="py-2 pr-4">Surcharges</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50 text-slate-300">
+              {rateCards.map((card) => (
+                <tr key={card.id}>
+                  <td className="py-2 pr-4 text-white">{card.origin} → {card.destination} ({card.currency})</td>
+                  {rateFields.map(({ key }) => (
+                    <td key={key} className="py-2 pr-4">{Number(card[key]).toFixed(2)}</td>
+                  ))}
+                  <td className="py-2 pr-4">
+                    {Object.entries(card.surcharges || {}).map(([type, percent]) => `${type} +${percent}%`).join(', ') || '—'}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button onClick={() => handleDeleteRateCard(card.id)} className="text-red-400 hover:text-red-300">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <form onSubmit={handleAddRateCard} className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-8 gap-3">
+            <div>
+              <label className="text-xs text-slate-400">Origin</label>
+              <input className="input" placeholder="JFK or *" value={rateCardForm.origin}
+                onChange={(e) => setRateCardForm({ ...rateCardForm, origin: e.target.value })} required />
+            </div>
+            <div>
+              <label className="text-xs text-slate-400">Destination</label>
+              <input className="input" placeholder="LHR or *" value={rateCardForm.destination}
+                onChange={(e) => setRateCardForm({ ...rateCardForm, destination: e.target.value })} required />
+            </div>
+            <div>
+              <label className="text-xs text-slate-400">Currency</label>
+              <input className="input" maxLength={3} value={rateCardForm.currency}
+                onChange={(e) => setRateCardForm({ ...rateCardForm, currency: e.target.value.toUpperCase() })} required />
+            </div>
+            {rateFields.map(({ key, label }) => (
+              <div key={key}>
+                <label className="text-xs text-slate-400">{label}</label>
+                <input
+                  type="number"
+                  className="input"
+                  min="0"
+                  step="0.01"
+                  value={(rateCardForm[key] as number) || ''}
+                  onChange={(e) => setRateCardForm({ ...rateCardForm, [key]: e.target.value ? parseFloat(e.target.value) : 0 })}
+                  required
+                />
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+            {cargoTypes.map((type) => (
+              <div key={type}>
+                <label className="text-xs text-slate-400">{type} surcharge %</label>
+                <input
+                  type="number"
+                  className="input"
+                  min="0"
+                  value={rateCardForm.surcharges[type] ?? ''}
+                  onChange={(e) => setSurcharge(type, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <button type="submit" className="btn-secondary">Add Rate Card</button>
+          </div>
+        </form>
+      </div>
+
+      {/* Dangerous Goods Declaration Modal */}
+      {declaring && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 rounded-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold text-white">☢️ Dangerous Goods Declaration</h2>
+              <button onClick={() => setDeclaring(null)} className="text-slate-400 hover:text-white text-2xl">
+                ×
+              </button>
+            </div>
+            <p className="text-sm text-slate-400">
+              {declaring.quote.origin} → {declaring.quote.destination} is hazardous cargo. Declare the dangerous
+              goods; the shipment is only created when the declaration passes the acceptance checks.
+            </p>
+            {error && (
+              <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-3 py-2 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+            <DangerousGoodsLines
+              items={declaring.items}
+              onChange={(items) => setDeclaring({ ...declaring, items })}
+            />
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setDeclaring(null)} className="btn-secondary">
+                Cancel
+              </button>
+              <button onClick={() => handleConvert(declaring.quote, { dangerous_goods: declaring.items })} className="btn-primary">
+                Create Shipment
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Temperature Range Modal */}
+      {cooling && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 rounded-xl max-w-md w-full p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold text-white">❄️ Temperature Range</h2>
+              <button onClick={() => setCooling(null)} className="text-slate-400 hover:text-white text-2xl">
+                ×
+              </button>
+            </div>
+            <p className="text-sm text-slate-400">
+              {cooling.quote.origin} → {cooling.quote.destination} is perishable cargo. Enter the temperature
+              range it must be kept in.
+            </p>
+            {error && (
+              <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-3 py-2 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="label">Minimum (°C)</label>
+                <input
+                  type="number"
+                  className="input"
+                  step="0.1"
+                  value={cooling.min}
+                  onChange={(e) => setCooling({ ...cooling, min: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="label">Maximum (°C)</label>
+                <input
+                  type="number"
+                  className="input"
+                  step="0.1"
+                  value={cooling.max}
+                  onChange={(e) => setCooling({ ...cooling, max: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setCooling(null)} className="btn-secondary">
+                Cancel
+              </button>
+              <button
+                onClick={() => handleConvert(cooling.quote, {
+                  temp_min_c: parseFloat(cooling.min),
+                  temp_max_c: parseFloat(cooling.max),
+                })}
+                disabled={cooling.min === '' || cooling.max === ''}
+                className="btn-primary"
+              >
+                Create Shipment
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -43,7 +43,7 @@ export default function Reports() {
               and delay risks for route planning.
             </p>
             <div className="text-xs text-slate-500 mt-2">
-              8 columns: Tracking #, Location, Weather, Impact Level, Delay Risk, Temp, Wind, Recorded At
+              9 columns: Tracking #, Location, Impact, Weather, Impact Level, Delay Risk, Temp, Wind, Recorded At
             </div>
           </div>
 
@@ -56,7 +56,7 @@ export default function Reports() {
               average delays, and total volumes.
             </p>
             <div className="text-xs text-slate-500 mt-2">
-              8 columns: Route, Total Shipments, On-Time %, Avg Delay, Weather Delays, Total Weight, Period
+              11 columns: Route, Total Shipments, On-Time %, Avg Delay, Weather Delays, Delay Reasons, Avg Customs Dwell, Customs Holds, Total Weight, Period
             </div>
           </div>
         </div>
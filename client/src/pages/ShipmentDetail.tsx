@@ -5,19 +5,93 @@
 
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { getShipment, updateShipment, deleteShipment } from '../services/shipments';
+import {
+  getShipment,
+  updateShipment,
+  deleteShipment,
+  updateLegStatus,
+  saveShipmentPieces,
+  applyStatusProposal,
+  dismissStatusProposal,
+} from '../services/shipments';
 import { getWeatherImpact } from '../services/weather';
-import { getAvailableFlights, assignShipmentToFlight, getShipmentTracking, getFlightByIcao } from '../services/tracking';
-import { Shipment, TrackingEvent, WeatherData, FlightData } from '../types';
+import {
+  getAvailableFlights,
+  assignShipmentToFlight,
+  getShipmentTracking,
+  getFlightByIcao,
+  getShipmentFlightTrack,
+} from '../services/tracking';
+import { getWorkflow, getStatusLabel } from '../services/workflows';
+import { hasPermission } from '../services/auth';
+import { getDeliveryProof, recordDelivery } from '../services/delivery';
+import { getColdChain } from '../services/coldChain';
+import {
+  Shipment,
+  ShipmentLeg,
+  ShipmentPiece,
+  ShipmentPieceFormData,
+  TrackingEvent,
+  WeatherData,
+  ExpectedWeather,
+  FlightData,
+  FlightTrack,
+  StatusWorkflow,
+  User,
+  DeliveryProof,
+  DeliveryProofFormData,
+  DangerousGoodsDeclaration,
+  ColdChain,
+  CustomsClearance,
+  SlaEscalation,
+  StatusReasonData,
+} from '../types';
+import ShipmentLegs from '../components/shipments/ShipmentLegs';
+import StatusBadge from '../components/shipments/StatusBadge';
+import ShipmentPieces from '../components/shipments/ShipmentPieces';
+import ShipmentHistory from '../components/shipments/ShipmentHistory';
+import ShipmentDocuments from '../components/shipments/ShipmentDocuments';
+import DeliveryProofCard from '../components/shipments/DeliveryProofCard';
+import DangerousGoodsCard from '../components/shipments/DangerousGoodsCard';
+import ColdChainCard from '../components/shipments/ColdChainCard';
+import CustomsCard from '../components/shipments/CustomsCard';
+import DeliveryProofForm from '../components/shipments/DeliveryProofForm';
+import StatusReasonModal from '../components/shipments/StatusReasonModal';
+import SlaBadge from '../components/shipments/SlaBadge';
+import { FlightTrackMap } from '../components/tracking/FlightTrackReplay';
+import { formatAwb } from '../utils/validators';
 
-export default function ShipmentDetail() {
+interface ShipmentDetailProps {
+  user: User | null;
+}
+
+// Legs follow the built-in workflow, where these statuses need a reason
+const LEG_REASON_STATUSES = ['delayed', 'cancelled'];
+
+export default function ShipmentDetail({ user }: ShipmentDetailProps) {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const canWrite = hasPermission(user, 'shipments:write');
 
   const [shipment, setShipment] = useState<Shipment | null>(null);
   const [trackingEvents, setTrackingEvents] = useState<TrackingEvent[]>([]);
   const [weather, setWeather] = useState<{ origin: WeatherData | null; destination: WeatherData | null } | null>(null);
+  const [forecast, setForecast] = useState<{ origin: ExpectedWeather | null; destination: ExpectedWeather | null } | null>(null);
   const [loading, setLoading] = useState(true);
+  const [workflow, setWorkflow] = useState<StatusWorkflow | null>(null);
+  const [legs, setLegs] = useState<ShipmentLeg[]>([]);
+  const [pieces, setPieces] = useState<ShipmentPiece[]>([]);
+  const [editingPieces, setEditingPieces] = useState<ShipmentPieceFormData[] | null>(null);
+  const [savingPieces, setSavingPieces] = useState(false);
+  const [activeTab, setActiveTab] = useState<'overview' | 'history'>('overview');
+  const [delivery, setDelivery] = useState<DeliveryProof | null>(null);
+  const [dangerousGoods, setDangerousGoods] = useState<DangerousGoodsDeclaration | null>(null);
+  const [coldChain, setColdChain] = useState<ColdChain | null>(null);
+  const [customs, setCustoms] = useState<CustomsClearance | null>(null);
+  const [slaEscalations, setSlaEscalations] = useState<SlaEscalation[]>([]);
+  const [showDeliveryForm, setShowDeliveryForm] = useState(false);
+  // Status change waiting for a delay or cancellation reason
+  const [reasonPrompt, setReasonPrompt] = useState<{ status: string; legId?: number } | null>(null);
   
   // Feedback messages
   const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
@@ -27,11 +101,13 @@ export default function ShipmentDetail() {
   const [flightsLoading, setFlightsLoading] = useState(false);
   const [showFlightPicker, setShowFlightPicker] = useState(false);
   const [assigningFlight, setAssigningFlight] = useState(false);
+  const [selectedLegId, setSelectedLegId] = useState<number | undefined>(undefined);
   const [flightSearch, setFlightSearch] = useState('');
   
   // Assigned flight tracking
   const [assignedFlight, setAssignedFlight] = useState<FlightData | null>(null);
   const [flightRefreshing, setFlightRefreshing] = useState(false);
+  const [flightTrack, setFlightTrack] = useState<FlightTrack | null>(null);
 
   // Show feedback message and auto-hide after 4 seconds
   const showFeedback = (type: 'success' | 'error', message: string) => {
@@ -43,17 +119,45 @@ export default function ShipmentDetail() {
     if (id) loadShipment(id);
   }, [id]);
 
+  // Track of the assigned flight since it was assigned
+  const assignedIcao24 = assignedFlight?.icao24;
+  useEffect(() => {
+    setFlightTrack(null);
+    if (!id || !assignedIcao24) return;
+    getShipmentFlightTrack(id)
+      .then(setFlightTrack)
+      .catch((error) => console.error('Error loading flight track:', error));
+  }, [id, assignedIcao24]);
+
+  useEffect(() => {
+    getWorkflow()
+      .then(setWorkflow)
+      .catch((error) => console.error('Error loading status workflow:', error));
+  }, []);
+
   const loadShipment = async (shipmentId: string) => {
     setLoading(true);
     try {
       const data = await getShipment(shipmentId);
       setShipment(data.shipment);
       setTrackingEvents(data.trackingEvents || []);
+      setLegs(data.legs || []);
+      setPieces(data.pieces || []);
+      setDangerousGoods(data.dangerousGoods || null);
+      setColdChain(data.coldChain || null);
+      setCustoms(data.customs || null);
+      setSlaEscalations(data.slaEscalations || []);
+      setDelivery(data.shipment.status === 'arrived' ? await getDeliveryProof(shipmentId) : null);
 
       // Load weather data
       const weatherData = await getWeatherImpact(shipmentId);
       if (weatherData) {
         setWeather(weatherData.currentWeather);
+        setForecast(weatherData.expectedWeather);
+        // Checking the weather may have recorded new temperature excursions
+        if (data.coldChain && weatherData.temperatureExcursions?.length > 0) {
+          setColdChain(await getColdChain(shipmentId));
+        }
       }
 
       // Load assigned flight data
@@ -66,6 +170,25 @@ export default function ShipmentDetail() {
     }
   };
 
+  // Reload the shipment's exception flag and cold chain after a cold chain change
+  const refreshColdChain = async () => {
+    if (!id) return;
+    const data = await getShipment(id);
+    setShipment(data.shipment);
+    setColdChain(data.coldChain || null);
+  };
+
+  // A customs hold may have moved the shipment, so reload its status and history
+  const handleCustomsRecorded = async (updated: CustomsClearance, shipmentStatus: string | null) => {
+    setCustoms(updated);
+    if (shipmentStatus && id) {
+      const data = await getShipment(id);
+      setShipment(data.shipment);
+      setTrackingEvents(data.trackingEvents || []);
+      showFeedback('success', `Shipment held by customs (status: ${shipmentStatus})`);
+    }
+  };
+
   // Load assigned flight from tracking data
   const loadAssignedFlight = async (shipmentId: string) => {
     try {
@@ -135,13 +258,13 @@ export default function ShipmentDetail() {
     }
   };
 
-  const handleStatusChange = async (newStatus: string) => {
+  const handleStatusChange = async (newStatus: string, reason?: StatusReasonData) => {
     if (!shipment || !id) return;
 
     try {
-      const updated = await updateShipment(id, { status: newStatus });
+      const updated = await updateShipment(id, { status: newStatus, ...reason });
       setShipment(updated);
-      showFeedback('success', `Status updated to "${newStatus.replace('_', ' ')}"`);
+      showFeedback('success', `Status updated to "${getStatusLabel(workflow, newStatus)}"`);
       loadShipment(id); // Reload to get new tracking event
     } catch (error) {
       console.error('Error updating status:', error);
@@ -149,6 +272,32 @@ export default function ShipmentDetail() {
     }
   };
 
+  const handleProposal = async (apply: boolean) => {
+    if (!shipment?.proposed_status || !id) return;
+
+    try {
+      if (apply) {
+        await applyStatusProposal(id);
+        showFeedback('success', `Status updated to "${getStatusLabel(workflow, shipment.proposed_status)}"`);
+      } else {
+        await dismissStatusProposal(id);
+      }
+      loadShipment(id);
+    } catch (error) {
+      showFeedback('error', error instanceof Error ? error.message : 'Failed to update status');
+    }
+  };
+
+  const handleRecordDelivery = async (proof: DeliveryProofFormData) => {
+    if (!id) return;
+
+    // Errors propagate so the form can show them and stay open
+    await recordDelivery(id, proof);
+    setShowDeliveryForm(false);
+    showFeedback('success', 'Proof of delivery recorded');
+    loadShipment(id);
+  };
+
   const handleDelete = async () => {
     if (!id || !confirm('Are you sure you want to delete this shipment? This action cannot be undone.')) return;
 
@@ -164,7 +313,8 @@ export default function ShipmentDetail() {
   };
 
   // Load available flights for assignment
-  const loadAvailableFlights = async () => {
+  const loadAvailableFlights = async (legId?: number) => {
+    setSelectedLegId(legId);
     setFlightsLoading(true);
     try {
       const flights = await getAvailableFlights();
@@ -187,19 +337,51 @@ export default function ShipmentDetail() {
     
     setAssigningFlight(true);
     try {
-      await assignShipmentToFlight(id, flight.icao24);
+      await assignShipmentToFlight(id, flight.icao24, selectedLegId);
       setShowFlightPicker(false);
       setAssignedFlight(flight); // Immediately show the assigned flight
       showFeedback('success', `Shipment assigned to flight ${flight.callsign || flight.icao24.toUpperCase()}`);
       loadShipment(id); // Reload to show updated status
     } catch (error) {
       console.error('Error assigning flight:', error);
-      showFeedback('error', 'Failed to assign shipment to flight. Please try again.');
+      showFeedback('error', error instanceof Error ? error.message : 'Failed to assign shipment to flight. Please try again.');
     } finally {
       setAssigningFlight(false);
     }
   };
 
+  // Update the status of a single leg; the shipment status is derived from its legs
+  const handleLegStatusChange = async (legId: number, status: string, reason?: StatusReasonData) => {
+    if (!id) return;
+
+    try {
+      await updateLegStatus(id, legId, status, reason);
+      showFeedback('success', `Leg updated to ${status.replace('_', ' ')}`);
+      loadShipment(id);
+    } catch (error) {
+      console.error('Error updating leg:', error);
+      showFeedback('error', 'Failed to update leg status. Please try again.');
+    }
+  };
+
+  // Replace the piece lines; the server recalculates the weights
+  const handleSavePieces = async () => {
+    if (!id || !editingPieces) return;
+
+    setSavingPieces(true);
+    try {
+      const result = await saveShipmentPieces(id, editingPieces);
+      setPieces(result.pieces);
+      setShipment(result.shipment);
+      setEditingPieces(null);
+      showFeedback('success', 'Pieces updated');
+    } catch (error) {
+      showFeedback('error', error instanceof Error ? error.message : 'Failed to save pieces');
+    } finally {
+      setSavingPieces(false);
+    }
+  };
+
   // Filter flights by search term
   const filteredFlights = availableFlights.filter(flight => 
     flight.callsign?.toLowerCase().includes(flightSearch.toLowerCase()) ||
@@ -331,15 +513,6 @@ export default function ShipmentDetail() {
 
   const etaData = calculateETA();
 
-  const statusColors: Record<string, string> = {
-    pending: 'status-pending',
-    departed: 'status-departed',
-    in_transit: 'status-in_transit',
-    arrived: 'status-arrived',
-    delayed: 'status-delayed',
-    cancelled: 'status-cancelled',
-  };
-
   if (loading) {
     return (
       <div className="max-w-4xl mx-auto px-4 py-8">
@@ -397,414 +570,694 @@ export default function ShipmentDetail() {
           </Link>
           <h1 className="text-3xl font-bold text-white">{shipment.tracking_number}</h1>
           <div className="flex items-center gap-3 mt-2">
-            <span className={`px-3 py-1 text-sm font-medium rounded-full border ${statusColors[shipment.status]}`}>
-              {shipment.status.replace('_', ' ')}
-            </span>
+            <StatusBadge status={shipment.status} workflow={workflow} size="md" showIcon />
             {shipment.cargo_type && (
               <span className="text-sm text-slate-400">{shipment.cargo_type}</span>
             )}
+            {shipment.awb_number && (
+              <span className="text-sm text-slate-400 font-mono">AWB {formatAwb(shipment.awb_number)}</span>
+            )}
+            {shipment.cold_chain_exception_at && (
+              <span className="px-3 py-1 text-sm font-medium rounded-full border bg-red-500/20 text-red-400 border-red-500/30">
+                Cold chain exception
+              </span>
+            )}
           </div>
         </div>
         <div className="flex gap-2">
-          <button onClick={handleDelete} className="btn-secondary text-red-400">
-            Delete
-          </button>
+          <Link
+            to={`/track/${shipment.tracking_number}`}
+            target="_blank"
+            className="btn-secondary"
+            title={shipment.tracking_pin ? 'Customers need the tracking PIN to view this page' : undefined}
+          >
+            Public Tracking ↗
+          </Link>
+          {hasPermission(user, 'shipments:delete') && (
+            <button onClick={handleDelete} className="btn-secondary text-red-400">
+              Delete
+            </button>
+          )}
         </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Main Info */}
-        <div className="lg:col-span-2 space-y-6">
-          {/* Route */}
-          <div className="card">
-            <h3 className="text-lg font-semibold text-white mb-4">Route Details</h3>
-            <div className="flex items-center gap-4">
-              <div className="flex-1">
-                <div className="text-sm text-slate-400">Origin</div>
-                <div className="text-lg text-white">{shipment.origin}</div>
-              </div>
-              <div className="text-2xl text-slate-500">→</div>
-              <div className="flex-1 text-right">
-                <div className="text-sm text-slate-400">Destination</div>
-                <div className="text-lg text-white">{shipment.destination}</div>
-              </div>
-            </div>
-            {/* Show live ETA if flight assigned, otherwise show manual estimated arrival */}
-            {etaData && etaData.etaTime && etaData.etaMinutes !== Infinity ? (
-              <div className="mt-4 pt-4 border-t border-slate-700">
-                <div className="flex items-center gap-2">
-                  <span className={`w-2 h-2 rounded-full animate-pulse ${
-                    etaData.weatherDelay.severity === 'critical' ? 'bg-red-500' :
-                    etaData.weatherDelay.severity === 'high' ? 'bg-orange-500' :
-                    etaData.weatherDelay.severity === 'medium' ? 'bg-yellow-500' :
-                    'bg-green-500'
-                  }`}></span>
-                  <span className={`text-sm font-medium ${
-                    etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
-                    etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
-                    etaData.weatherDelay.severity === 'medium' ? 'text-yellow-400' :
-                    'text-green-400'
-                  }`}>
-                    Live ETA {etaData.weatherDelay.addedMinutes > 0 && '(Weather Adjusted)'}
-                  </span>
+      {/* Tabs */}
+      <div className="flex gap-6 border-b border-slate-700 mb-6">
+        {(['overview', 'history'] as const).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`pb-3 text-sm font-medium border-b-2 -mb-px transition-colors ${
+              activeTab === tab
+                ? 'border-blue-500 text-white'
+                : 'border-transparent text-slate-400 hover:text-slate-300'
+            }`}
+          >
+            {tab === 'overview' ? 'Overview' : 'History'}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'history' && (
+        <ShipmentHistory key={shipment.updated_at} shipmentId={shipment.id} />
+      )}
+
+      {activeTab === 'overview' && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Main Info */}
+          <div className="lg:col-span-2 space-y-6">
+            {/* Route */}
+            <div className="card">
+              <h3 className="text-lg font-semibold text-white mb-4">Route Details</h3>
+              <div className="flex items-center gap-4">
+                <div className="flex-1">
+                  <div className="text-sm text-slate-400">Origin</div>
+                  <div className="text-lg text-white">{shipment.origin}</div>
                 </div>
-                <div className="text-white text-lg font-semibold">
-                  {formatETA(etaData.etaMinutes)}
+                <div className="text-2xl text-slate-500">→</div>
+                <div className="flex-1 text-right">
+                  <div className="text-sm text-slate-400">Destination</div>
+                  <div className="text-lg text-white">{shipment.destination}</div>
                 </div>
-                <div className="text-sm text-slate-400">
-                  ~{etaData.etaTime.toLocaleString()}
+              </div>
+              {/* Show live ETA if flight assigned, otherwise show manual estimated arrival */}
+              {etaData && etaData.etaTime && etaData.etaMinutes !== Infinity ? (
+                <div className="mt-4 pt-4 border-t border-slate-700">
+                  <div className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full animate-pulse ${
+                      etaData.weatherDelay.severity === 'critical' ? 'bg-red-500' :
+                      etaData.weatherDelay.severity === 'high' ? 'bg-orange-500' :
+                      etaData.weatherDelay.severity === 'medium' ? 'bg-yellow-500' :
+                      'bg-green-500'
+                    }`}></span>
+                    <span className={`text-sm font-medium ${
+                      etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
+                      etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
+                      etaData.weatherDelay.severity === 'medium' ? 'text-yellow-400' :
+                      'text-green-400'
+                    }`}>
+                      Live ETA {etaData.weatherDelay.addedMinutes > 0 && '(Weather Adjusted)'}
+                    </span>
+                  </div>
+                  <div className="text-white text-lg font-semibold">
+                    {formatETA(etaData.etaMinutes)}
+                  </div>
+                  <div className="text-sm text-slate-400">
+                    ~{etaData.etaTime.toLocaleString()}
+                  </div>
+                  {etaData.weatherDelay.addedMinutes > 0 && (
+                    <div className={`text-xs mt-1 ${
+                      etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
+                      etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
+                      'text-yellow-400'
+                    }`}>
+                      +{formatETA(etaData.weatherDelay.addedMinutes)} weather delay
+                    </div>
+                  )}
                 </div>
-                {etaData.weatherDelay.addedMinutes > 0 && (
-                  <div className={`text-xs mt-1 ${
-                    etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
-                    etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
-                    'text-yellow-400'
-                  }`}>
-                    +{formatETA(etaData.weatherDelay.addedMinutes)} weather delay
+              ) : shipment.estimated_arrival ? (
+                <div className="mt-4 pt-4 border-t border-slate-700">
+                  <div className="text-sm text-slate-400">Estimated Arrival</div>
+                  <div className="text-white">
+                    {new Date(shipment.estimated_arrival).toLocaleString()}
                   </div>
-                )}
-              </div>
-            ) : shipment.estimated_arrival ? (
-              <div className="mt-4 pt-4 border-t border-slate-700">
-                <div className="text-sm text-slate-400">Estimated Arrival</div>
-                <div className="text-white">
-                  {new Date(shipment.estimated_arrival).toLocaleString()}
                 </div>
-              </div>
-            ) : null}
-          </div>
+              ) : null}
+              {/* Promised delivery from the SLA target, with the slack against the ETA */}
+              {shipment.sla_due_at && (
+                <div className="mt-4 pt-4 border-t border-slate-700">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <div className="text-sm text-slate-400">
+                        Promised Delivery <span className="capitalize">({shipment.service_level || 'standard'})</span>
+                      </div>
+                      <div className="text-white">{new Date(shipment.sla_due_at).toLocaleString()}</div>
+                    </div>
+                    {shipment.sla_status && (
+                      <SlaBadge status={shipment.sla_status} slackHours={shipment.sla_slack_hours} />
+                    )}
+                  </div>
+                  {slaEscalations.map((escalation) => (
+                    <div key={escalation.id} className="text-xs text-slate-400 mt-2">
+                      <span className="text-orange-400">Escalation level {escalation.level}</span>
+                      {' '}({escalation.notify_role}, {new Date(escalation.created_at).toLocaleString()}): {escalation.action}
+                      {escalation.acknowledged_at && <span className="text-slate-500"> · acknowledged</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
 
-          {/* Assigned Flight */}
-          {assignedFlight && (
-            <div className="card bg-gradient-to-br from-blue-900/30 to-slate-800 border-blue-500/30">
+            {/* Legs */}
+            {legs.length > 0 && (
+              <ShipmentLegs
+                legs={legs}
+                onAssignFlight={canWrite ? loadAvailableFlights : undefined}
+                onStatusChange={canWrite
+                  ? (legId, status) => LEG_REASON_STATUSES.includes(status)
+                    ? setReasonPrompt({ status, legId })
+                    : handleLegStatusChange(legId, status)
+                  : undefined}
+              />
+            )}
+
+            {/* Pieces */}
+            <div className="card">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-semibold text-white">✈️ Assigned Flight</h3>
-                <button
-                  onClick={refreshFlightPosition}
-                  disabled={flightRefreshing}
-                  className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
-                >
-                  {flightRefreshing ? '↻ Refreshing...' : '↻ Refresh Position'}
-                </button>
+                <h3 className="text-lg font-semibold text-white">
+                  Pieces <span className="text-sm text-slate-400 font-normal">({shipment.total_pieces || 0})</span>
+                </h3>
+                {!canWrite ? null : editingPieces ? (
+                  <div className="flex gap-2">
+                    <button onClick={() => setEditingPieces(null)} className="btn-secondary text-sm">
+                      Cancel
+                    </button>
+                    <button onClick={handleSavePieces} disabled={savingPieces} className="btn-primary text-sm">
+                      {savingPieces ? 'Saving...' : 'Save Pieces'}
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setEditingPieces(pieces.map(({ quantity, length_cm, width_cm, height_cm, weight_kg, packaging_type }) => ({
+                      quantity: Number(quantity),
+                      length_cm: Number(length_cm),
+                      width_cm: Number(width_cm),
+                      height_cm: Number(height_cm),
+                      weight_kg: Number(weight_kg),
+                      packaging_type,
+                    })))}
+                    className="text-sm text-blue-400 hover:text-blue-300"
+                  >
+                    {pieces.length > 0 ? 'Edit' : '+ Add pieces'}
+                  </button>
+                )}
               </div>
-              
-              {/* Flight Header */}
-              <div className="flex items-center gap-4 mb-4">
-                <div className="w-12 h-12 bg-blue-500/20 rounded-full flex items-center justify-center text-2xl">
-                  ✈️
+
+              {editingPieces ? (
+                <ShipmentPieces pieces={editingPieces} onChange={setEditingPieces} />
+              ) : pieces.length > 0 ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-400 border-b border-slate-700">
+                      <th className="py-2 pr-4">Qty</th>
+                      <th className="py-2 pr-4">Dimensions (cm)</th>
+                      <th className="py-2 pr-4">Weight / pc</th>
+                      <th className="py-2">Packaging</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700/50 text-slate-300">
+                    {pieces.map((piece) => (
+                      <tr key={piece.id}>
+                        <td className="py-2 pr-4">{piece.quantity}</td>
+                        <td className="py-2 pr-4">{piece.length_cm} × {piece.width_cm} × {piece.height_cm}</td>
+                        <td className="py-2 pr-4">{piece.weight_kg} kg</td>
+                        <td className="py-2 capitalize">{piece.packaging_type}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-sm text-slate-400">
+                  No piece dimensions recorded. Chargeable weight is based on the declared weight.
+                </p>
+              )}
+            </div>
+
+            {/* Dangerous Goods */}
+            {dangerousGoods && (shipment.cargo_type === 'hazardous' || dangerousGoods.items.length > 0) && (
+              <DangerousGoodsCard
+                shipmentId={shipment.id}
+                declaration={dangerousGoods}
+                canEdit={canWrite && shipment.cargo_type === 'hazardous'}
+                onSaved={setDangerousGoods}
+              />
+            )}
+
+            {/* Cold Chain */}
+            {coldChain && (
+              <ColdChainCard
+                shipmentId={shipment.id}
+                coldChain={coldChain}
+                canEdit={canWrite}
+                onChanged={refreshColdChain}
+              />
+            )}
+
+            {/* Customs */}
+            {customs && (
+              <CustomsCard
+                shipmentId={shipment.id}
+                customs={customs}
+                canEdit={canWrite}
+                onRecorded={handleCustomsRecorded}
+              />
+            )}
+
+            {/* Proof of Delivery */}
+            {shipment.status === 'arrived' && (
+              <DeliveryProofCard
+                shipmentId={shipment.id}
+                trackingNumber={shipment.tracking_number}
+                delivery={delivery}
+                onRecord={canWrite ? () => setShowDeliveryForm(true) : undefined}
+              />
+            )}
+
+            {/* Documents */}
+            <ShipmentDocuments shipmentId={shipment.id} canEdit={canWrite} />
+
+            {/* Assigned Flight */}
+            {assignedFlight && (
+              <div className="card bg-gradient-to-br from-blue-900/30 to-slate-800 border-blue-500/30">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-white">✈️ Assigned Flight</h3>
+                  <button
+                    onClick={refreshFlightPosition}
+                    disabled={flightRefreshing}
+                    className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                  >
+                    {flightRefreshing ? '↻ Refreshing...' : '↻ Refresh Position'}
+                  </button>
                 </div>
-                <div>
-                  <div className="text-xl font-bold text-white">
-                    {assignedFlight.callsign || assignedFlight.icao24.toUpperCase()}
+              
+                {/* Flight Header */}
+                <div className="flex items-center gap-4 mb-4">
+                  <div className="w-12 h-12 bg-blue-500/20 rounded-full flex items-center justify-center text-2xl">
+                    ✈️
                   </div>
-                  <div className="text-sm text-slate-400">
-                    ICAO: {assignedFlight.icao24.toUpperCase()} • {assignedFlight.originCountry}
+                  <div>
+                    <div className="text-xl font-bold text-white">
+                      {assignedFlight.callsign || assignedFlight.icao24.toUpperCase()}
+                    </div>
+                    <div className="text-sm text-slate-400">
+                      ICAO: {assignedFlight.icao24.toUpperCase()} • {assignedFlight.originCountry}
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              {/* ETA Banner with Weather Adjustment */}
-              {etaData && shipment.dest_lat && shipment.dest_lon && (
-                <div className={`rounded-lg p-4 mb-4 border ${
-                  etaData.weatherDelay.severity === 'critical' 
-                    ? 'bg-gradient-to-r from-red-900/40 to-orange-900/40 border-red-500/30'
-                    : etaData.weatherDelay.severity === 'high'
-                    ? 'bg-gradient-to-r from-orange-900/40 to-yellow-900/40 border-orange-500/30'
-                    : etaData.weatherDelay.severity === 'medium'
-                    ? 'bg-gradient-to-r from-yellow-900/40 to-green-900/40 border-yellow-500/30'
-                    : 'bg-gradient-to-r from-green-900/40 to-blue-900/40 border-green-500/30'
-                }`}>
-                  <div className="flex items-center justify-between mb-3">
-                    <div>
-                      <div className={`text-sm font-medium ${
-                        etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
-                        etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
-                        etaData.weatherDelay.severity === 'medium' ? 'text-yellow-400' :
-                        'text-green-400'
-                      }`}>
-                        Estimated Time of Arrival
-                        {etaData.weatherDelay.addedMinutes > 0 && ' (Weather Adjusted)'}
-                      </div>
-                      <div className="text-3xl font-bold text-white">
-                        {formatETA(etaData.etaMinutes)}
+                {/* ETA Banner with Weather Adjustment */}
+                {etaData && shipment.dest_lat && shipment.dest_lon && (
+                  <div className={`rounded-lg p-4 mb-4 border ${
+                    etaData.weatherDelay.severity === 'critical' 
+                      ? 'bg-gradient-to-r from-red-900/40 to-orange-900/40 border-red-500/30'
+                      : etaData.weatherDelay.severity === 'high'
+                      ? 'bg-gradient-to-r from-orange-900/40 to-yellow-900/40 border-orange-500/30'
+                      : etaData.weatherDelay.severity === 'medium'
+                      ? 'bg-gradient-to-r from-yellow-900/40 to-green-900/40 border-yellow-500/30'
+                      : 'bg-gradient-to-r from-green-900/40 to-blue-900/40 border-green-500/30'
+                  }`}>
+                    <div className="flex items-center justify-between mb-3">
+                      <div>
+                        <div className={`text-sm font-medium ${
+                          etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
+                          etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
+                          etaData.weatherDelay.severity === 'medium' ? 'text-yellow-400' :
+                          'text-green-400'
+                        }`}>
+                          Estimated Time of Arrival
+                          {etaData.weatherDelay.addedMinutes > 0 && ' (Weather Adjusted)'}
+                        </div>
+                        <div className="text-3xl font-bold text-white">
+                          {formatETA(etaData.etaMinutes)}
+                        </div>
+                        {etaData.etaTime && etaData.etaMinutes !== Infinity && (
+                          <div className="text-sm text-slate-400">
+                            ~{etaData.etaTime.toLocaleString()}
+                          </div>
+                        )}
                       </div>
-                      {etaData.etaTime && etaData.etaMinutes !== Infinity && (
+                      <div className="text-right">
+                        <div className="text-sm text-slate-400">Distance Remaining</div>
+                        <div className="text-2xl font-bold text-white">
+                          {Math.round(etaData.distanceKm).toLocaleString()} km
+                        </div>
                         <div className="text-sm text-slate-400">
-                          ~{etaData.etaTime.toLocaleString()}
+                          ({Math.round(etaData.distanceKm * 0.621371).toLocaleString()} mi)
                         </div>
-                      )}
-                    </div>
-                    <div className="text-right">
-                      <div className="text-sm text-slate-400">Distance Remaining</div>
-                      <div className="text-2xl font-bold text-white">
-                        {Math.round(etaData.distanceKm).toLocaleString()} km
-                      </div>
-                      <div className="text-sm text-slate-400">
-                        ({Math.round(etaData.distanceKm * 0.621371).toLocaleString()} mi)
                       </div>
                     </div>
-                  </div>
 
-                  {/* Weather Impact Details */}
-                  {etaData.weatherDelay.addedMinutes > 0 && (
-                    <div className={`mt-3 pt-3 border-t ${
-                      etaData.weatherDelay.severity === 'critical' ? 'border-red-500/30' :
-                      etaData.weatherDelay.severity === 'high' ? 'border-orange-500/30' :
-                      etaData.weatherDelay.severity === 'medium' ? 'border-yellow-500/30' :
-                      'border-green-500/30'
-                    }`}>
-                      <div className="flex items-center justify-between text-sm">
-                        <div className="flex items-center gap-2">
-                          <span className={`${
+                    {/* Weather Impact Details */}
+                    {etaData.weatherDelay.addedMinutes > 0 && (
+                      <div className={`mt-3 pt-3 border-t ${
+                        etaData.weatherDelay.severity === 'critical' ? 'border-red-500/30' :
+                        etaData.weatherDelay.severity === 'high' ? 'border-orange-500/30' :
+                        etaData.weatherDelay.severity === 'medium' ? 'border-yellow-500/30' :
+                        'border-green-500/30'
+                      }`}>
+                        <div className="flex items-center justify-between text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className={`${
+                              etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
+                              etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
+                              etaData.weatherDelay.severity === 'medium' ? 'text-yellow-400' :
+                              'text-blue-400'
+                            }`}>
+                              {etaData.weatherDelay.severity === 'critical' ? '⚠️' :
+                               etaData.weatherDelay.severity === 'high' ? '🌧️' :
+                               etaData.weatherDelay.severity === 'medium' ? '🌥️' : '☁️'}
+                            </span>
+                            <span className="text-slate-300">{etaData.weatherDelay.reason}</span>
+                          </div>
+                          <div className={`font-medium ${
                             etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
                             etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
                             etaData.weatherDelay.severity === 'medium' ? 'text-yellow-400' :
                             'text-blue-400'
                           }`}>
-                            {etaData.weatherDelay.severity === 'critical' ? '⚠️' :
-                             etaData.weatherDelay.severity === 'high' ? '🌧️' :
-                             etaData.weatherDelay.severity === 'medium' ? '🌥️' : '☁️'}
-                          </span>
-                          <span className="text-slate-300">{etaData.weatherDelay.reason}</span>
+                            +{formatETA(etaData.weatherDelay.addedMinutes)} delay
+                          </div>
                         </div>
-                        <div className={`font-medium ${
-                          etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
-                          etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
-                          etaData.weatherDelay.severity === 'medium' ? 'text-yellow-400' :
-                          'text-blue-400'
-                        }`}>
-                          +{formatETA(etaData.weatherDelay.addedMinutes)} delay
+                        <div className="text-xs text-slate-500 mt-1">
+                          Base flight time: {formatETA(etaData.baseEtaMinutes)}
                         </div>
                       </div>
-                      <div className="text-xs text-slate-500 mt-1">
-                        Base flight time: {formatETA(etaData.baseEtaMinutes)}
-                      </div>
-                    </div>
-                  )}
+                    )}
 
-                  {/* Good weather indicator */}
-                  {etaData.weatherDelay.addedMinutes === 0 && etaData.weatherDelay.severity === 'none' && (
-                    <div className="mt-3 pt-3 border-t border-green-500/30">
-                      <div className="flex items-center gap-2 text-sm text-green-400">
-                        <span>☀️</span>
-                        <span>Good weather conditions - no delays expected</span>
+                    {/* Good weather indicator */}
+                    {etaData.weatherDelay.addedMinutes === 0 && etaData.weatherDelay.severity === 'none' && (
+                      <div className="mt-3 pt-3 border-t border-green-500/30">
+                        <div className="flex items-center gap-2 text-sm text-green-400">
+                          <span>☀️</span>
+                          <span>Good weather conditions - no delays expected</span>
+                        </div>
                       </div>
-                    </div>
-                  )}
-                </div>
-              )}
+                    )}
+                  </div>
+                )}
 
-              {/* Flight Stats Grid */}
-              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
-                <div className="bg-slate-800/50 rounded-lg p-3 text-center">
-                  <div className="text-2xl font-bold text-white">
-                    {Math.round(assignedFlight.altitude * 3.28084).toLocaleString()}
+                {/* Flight Stats Grid */}
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+                  <div className="bg-slate-800/50 rounded-lg p-3 text-center">
+                    <div className="text-2xl font-bold text-white">
+                      {Math.round(assignedFlight.altitude * 3.28084).toLocaleString()}
+                    </div>
+                    <div className="text-xs text-slate-400">Altitude (ft)</div>
                   </div>
-                  <div className="text-xs text-slate-400">Altitude (ft)</div>
-                </div>
-                <div className="bg-slate-800/50 rounded-lg p-3 text-center">
-                  <div className="text-2xl font-bold text-white">
-                    {Math.round(assignedFlight.speed * 1.94384)}
+                  <div className="bg-slate-800/50 rounded-lg p-3 text-center">
+                    <div className="text-2xl font-bold text-white">
+                      {Math.round(assignedFlight.speed * 1.94384)}
+                    </div>
+                    <div className="text-xs text-slate-400">Speed (kts)</div>
                   </div>
-                  <div className="text-xs text-slate-400">Speed (kts)</div>
-                </div>
-                <div className="bg-slate-800/50 rounded-lg p-3 text-center">
-                  <div className="text-2xl font-bold text-white">
-                    {Math.round(assignedFlight.heading)}°
+                  <div className="bg-slate-800/50 rounded-lg p-3 text-center">
+                    <div className="text-2xl font-bold text-white">
+                      {Math.round(assignedFlight.heading)}°
+                    </div>
+                    <div className="text-xs text-slate-400">Heading</div>
                   </div>
-                  <div className="text-xs text-slate-400">Heading</div>
-                </div>
-                <div className="bg-slate-800/50 rounded-lg p-3 text-center">
-                  <div className={`text-2xl font-bold ${assignedFlight.onGround ? 'text-yellow-400' : 'text-green-400'}`}>
-                    {assignedFlight.onGround ? 'GND' : 'AIR'}
+                  <div className="bg-slate-800/50 rounded-lg p-3 text-center">
+                    <div className={`text-2xl font-bold ${assignedFlight.onGround ? 'text-yellow-400' : 'text-green-400'}`}>
+                      {assignedFlight.onGround ? 'GND' : 'AIR'}
+                    </div>
+                    <div className="text-xs text-slate-400">Status</div>
                   </div>
-                  <div className="text-xs text-slate-400">Status</div>
                 </div>
-              </div>
 
-              {/* Current Position */}
-              <div className="bg-slate-800/50 rounded-lg p-4">
-                <div className="text-sm text-slate-400 mb-2">Current Position</div>
-                <div className="flex items-center justify-between">
-                  <div className="text-white font-mono">
-                    {assignedFlight.latitude.toFixed(4)}°, {assignedFlight.longitude.toFixed(4)}°
+                {/* Flight Track */}
+                {flightTrack && (
+                  <div className="bg-slate-800/50 rounded-lg p-4 mb-4">
+                    <div className="text-sm text-slate-400 mb-2">Flight Track</div>
+                    <FlightTrackMap track={flightTrack} />
+                  </div>
+                )}
+
+                {/* Current Position */}
+                <div className="bg-slate-800/50 rounded-lg p-4">
+                  <div className="text-sm text-slate-400 mb-2">Current Position</div>
+                  <div className="flex items-center justify-between">
+                    <div className="text-white font-mono">
+                      {assignedFlight.latitude.toFixed(4)}°, {assignedFlight.longitude.toFixed(4)}°
+                    </div>
+                    <a
+                      href={`https://www.google.com/maps?q=${assignedFlight.latitude},${assignedFlight.longitude}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-blue-400 hover:text-blue-300"
+                    >
+                      View on Map ↗
+                    </a>
+                  </div>
+                  <div className="text-xs text-slate-500 mt-2">
+                    Last updated: {new Date(assignedFlight.lastUpdate).toLocaleString()}
                   </div>
-                  <a
-                    href={`https://www.google.com/maps?q=${assignedFlight.latitude},${assignedFlight.longitude}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-sm text-blue-400 hover:text-blue-300"
-                  >
-                    View on Map ↗
-                  </a>
-                </div>
-                <div className="text-xs text-slate-500 mt-2">
-                  Last updated: {new Date(assignedFlight.lastUpdate).toLocaleString()}
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {/* Tracking Timeline */}
-          <div className="card">
-            <h3 className="text-lg font-semibold text-white mb-4">Tracking History</h3>
-            {trackingEvents.length === 0 ? (
-              <p className="text-slate-400">No tracking events yet</p>
-            ) : (
-              <div className="space-y-4">
-                {trackingEvents.map((event, i) => (
-                  <div key={event.id} className="flex gap-4">
-                    <div className="flex flex-col items-center">
-                      <div className={`w-3 h-3 rounded-full ${i === 0 ? 'bg-blue-500' : 'bg-slate-600'}`} />
-                      {i < trackingEvents.length - 1 && (
-                        <div className="w-0.5 flex-1 bg-slate-700 mt-1" />
-                      )}
-                    </div>
-                    <div className="flex-1 pb-4">
-                      <div className="text-sm font-medium text-white">{event.status}</div>
-                      <div className="text-xs text-slate-400">
-                        {event.location} • {new Date(event.timestamp).toLocaleString()}
+            {/* Tracking Timeline */}
+            <div className="card">
+              <h3 className="text-lg font-semibold text-white mb-4">Tracking History</h3>
+              {trackingEvents.length === 0 ? (
+                <p className="text-slate-400">No tracking events yet</p>
+              ) : (
+                <div className="space-y-4">
+                  {trackingEvents.map((event, i) => (
+                    <div key={event.id} className="flex gap-4">
+                      <div className="flex flex-col items-center">
+                        <div className={`w-3 h-3 rounded-full ${i === 0 ? 'bg-blue-500' : 'bg-slate-600'}`} />
+                        {i < trackingEvents.length - 1 && (
+                          <div className="w-0.5 flex-1 bg-slate-700 mt-1" />
+                        )}
+                      </div>
+                      <div className="flex-1 pb-4">
+                        <div className="text-sm font-medium text-white">
+                          {event.status}
+                          {event.automatic && (
+                            <span
+                              className="ml-2 text-xs font-normal text-blue-400"
+                              title="Set from the assigned flight's data"
+                            >
+                              Automatic
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-slate-400">
+                          {event.location} • {new Date(event.timestamp).toLocaleString()}
+                        </div>
+                        {event.notes && (
+                          <div className="text-xs text-slate-500 mt-1">{event.notes}</div>
+                        )}
                       </div>
-                      {event.notes && (
-                        <div className="text-xs text-slate-500 mt-1">{event.notes}</div>
-                      )}
                     </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-6">
+            {/* Status proposed from flight data */}
+            {shipment.proposed_status && (
+              <div className="card border-blue-500/30">
+                <h3 className="text-lg font-semibold text-white mb-2">Suggested Status</h3>
+                <p className="text-sm text-slate-300">
+                  Flight data suggests{' '}
+                  <span className="text-white font-medium">{getStatusLabel(workflow, shipment.proposed_status)}</span>
+                </p>
+                {shipment.proposed_status_notes && (
+                  <p className="text-xs text-slate-400 mt-1">{shipment.proposed_status_notes}</p>
+                )}
+                {canWrite && (
+                  <div className="flex gap-2 mt-4">
+                    <button onClick={() => handleProposal(true)} className="btn-primary text-sm">
+                      Apply
+                    </button>
+                    <button onClick={() => handleProposal(false)} className="btn-secondary text-sm">
+                      Dismiss
+                    </button>
                   </div>
-                ))}
+                )}
               </div>
             )}
-          </div>
-        </div>
 
-        {/* Sidebar */}
-        <div className="space-y-6">
-          {/* Status Actions */}
-          <div className="card">
-            <h3 className="text-lg font-semibold text-white mb-4">Update Status</h3>
-            <div className="space-y-2">
-              {['pending', 'departed', 'in_transit', 'arrived', 'delayed'].map((status) => (
-                <button
-                  key={status}
-                  onClick={() => handleStatusChange(status)}
-                  disabled={shipment.status === status}
-                  className={`w-full px-3 py-2 text-sm rounded-lg text-left transition-colors ${
-                    shipment.status === status
-                      ? 'bg-blue-500/20 text-blue-400 cursor-default'
-                      : 'bg-slate-700/50 text-slate-300 hover:bg-slate-700'
-                  }`}
-                >
-                  {status.replace('_', ' ')}
-                </button>
-              ))}
-            </div>
-          </div>
+            {/* Status Actions */}
+            {canWrite && (
+              <div className="card">
+                <h3 className="text-lg font-semibold text-white mb-4">Update Status</h3>
+                <div className="space-y-2">
+                  {(workflow?.statuses || []).map((definition) => {
+                    const isCurrent = shipment.status === definition.name;
+                    const allowed = workflow?.statuses
+                      .find((s) => s.name === shipment.status)
+                      ?.transitions.includes(definition.name) ?? false;
 
-          {/* Flight Assignment */}
-          {!assignedFlight && (shipment.status === 'pending' || shipment.status === 'departed') && (
-            <div className="card">
-              <h3 className="text-lg font-semibold text-white mb-4">✈️ Assign to Flight</h3>
-              <p className="text-sm text-slate-400 mb-4">
-                Link this shipment to a real flight for live tracking.
-              </p>
-              <button
-                onClick={loadAvailableFlights}
-                disabled={flightsLoading}
-                className="btn-primary w-full"
-              >
-                {flightsLoading ? 'Loading Flights...' : 'Browse Available Flights'}
-              </button>
-            </div>
-          )}
+                    if (!isCurrent && !allowed) return null;
 
-          {/* Assigned Flight Quick Info (Sidebar) */}
-          {assignedFlight && (
-            <div className="card border-blue-500/30">
-              <h3 className="text-lg font-semibold text-white mb-3">✈️ Flight Assigned</h3>
-              <div className="text-white font-medium">
-                {assignedFlight.callsign || assignedFlight.icao24.toUpperCase()}
+                    return (
+                      <button
+                        key={definition.name}
+                        onClick={() => definition.name === 'arrived'
+                          ? setShowDeliveryForm(true)
+                          : definition.requiresReason
+                            ? setReasonPrompt({ status: definition.name })
+                            : handleStatusChange(definition.name)}
+                        disabled={isCurrent}
+                        title={definition.description}
+                        className={`w-full px-3 py-2 text-sm rounded-lg text-left transition-colors ${
+                          isCurrent
+                            ? 'bg-blue-500/20 text-blue-400 cursor-default'
+                            : 'bg-slate-700/50 text-slate-300 hover:bg-slate-700'
+                        }`}
+                      >
+                        <span className="mr-2">{definition.icon}</span>
+                        {definition.label}
+                      </button>
+                    );
+                  })}
+                </div>
               </div>
-              <div className="text-sm text-slate-400 mb-3">{assignedFlight.originCountry}</div>
-              <div className={`inline-flex items-center gap-2 px-2 py-1 rounded text-sm mb-3 ${
-                assignedFlight.onGround 
-                  ? 'bg-yellow-500/20 text-yellow-400' 
-                  : 'bg-green-500/20 text-green-400'
-              }`}>
-                <span className="w-2 h-2 rounded-full bg-current animate-pulse"></span>
-                {assignedFlight.onGround ? 'On Ground' : 'In Flight'}
+            )}
+
+            {/* Flight Assignment */}
+            {canWrite && !assignedFlight && (shipment.status === 'pending' || shipment.status === 'departed') && (
+              <div className="card">
+                <h3 className="text-lg font-semibold text-white mb-4">✈️ Assign to Flight</h3>
+                <p className="text-sm text-slate-400 mb-4">
+                  Link this shipment to a real flight for live tracking.
+                </p>
+                {dangerousGoods && shipment.cargo_type === 'hazardous' && !dangerousGoods.check.accepted && (
+                  <p className="text-sm text-amber-400 mb-4">
+                    The dangerous goods declaration must be accepted before this shipment can be assigned.
+                  </p>
+                )}
+                <button
+                  onClick={() => loadAvailableFlights()}
+                  disabled={flightsLoading || (shipment.cargo_type === 'hazardous' && !dangerousGoods?.check.accepted)}
+                  className="btn-primary w-full"
+                >
+                  {flightsLoading ? 'Loading Flights...' : 'Browse Available Flights'}
+                </button>
               </div>
-              {etaData && etaData.etaMinutes !== Infinity && (
-                <div className="pt-3 border-t border-slate-700">
-                  <div className="text-xs text-slate-400">
-                    ETA {etaData.weatherDelay.addedMinutes > 0 && '(Weather Adjusted)'}
-                  </div>
-                  <div className={`text-lg font-bold ${
-                    etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
-                    etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
-                    etaData.weatherDelay.severity === 'medium' ? 'text-yellow-400' :
-                    'text-green-400'
-                  }`}>
-                    {formatETA(etaData.etaMinutes)}
-                  </div>
-                  <div className="text-xs text-slate-400">{Math.round(etaData.distanceKm)} km away</div>
-                  {etaData.weatherDelay.addedMinutes > 0 && (
-                    <div className={`text-xs mt-1 ${
+            )}
+
+            {/* Assigned Flight Quick Info (Sidebar) */}
+            {assignedFlight && (
+              <div className="card border-blue-500/30">
+                <h3 className="text-lg font-semibold text-white mb-3">✈️ Flight Assigned</h3>
+                <div className="text-white font-medium">
+                  {assignedFlight.callsign || assignedFlight.icao24.toUpperCase()}
+                </div>
+                <div className="text-sm text-slate-400 mb-3">{assignedFlight.originCountry}</div>
+                <div className={`inline-flex items-center gap-2 px-2 py-1 rounded text-sm mb-3 ${
+                  assignedFlight.onGround 
+                    ? 'bg-yellow-500/20 text-yellow-400' 
+                    : 'bg-green-500/20 text-green-400'
+                }`}>
+                  <span className="w-2 h-2 rounded-full bg-current animate-pulse"></span>
+                  {assignedFlight.onGround ? 'On Ground' : 'In Flight'}
+                </div>
+                {etaData && etaData.etaMinutes !== Infinity && (
+                  <div className="pt-3 border-t border-slate-700">
+                    <div className="text-xs text-slate-400">
+                      ETA {etaData.weatherDelay.addedMinutes > 0 && '(Weather Adjusted)'}
+                    </div>
+                    <div className={`text-lg font-bold ${
                       etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
                       etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
-                      'text-yellow-400'
+                      etaData.weatherDelay.severity === 'medium' ? 'text-yellow-400' :
+                      'text-green-400'
                     }`}>
-                      ⚠️ +{formatETA(etaData.weatherDelay.addedMinutes)} delay
+                      {formatETA(etaData.etaMinutes)}
                     </div>
-                  )}
-                </div>
-              )}
-            </div>
-          )}
-
-          {/* Cargo Details */}
-          <div className="card">
-            <h3 className="text-lg font-semibold text-white mb-4">Cargo Details</h3>
-            <div className="space-y-3">
-              <div>
-                <div className="text-xs text-slate-400">Type</div>
-                <div className="text-white">{shipment.cargo_type || 'Not specified'}</div>
-              </div>
-              <div>
-                <div className="text-xs text-slate-400">Weight</div>
-                <div className="text-white">
-                  {shipment.weight_kg ? `${shipment.weight_kg} kg` : 'Not specified'}
-                </div>
-              </div>
-              <div>
-                <div className="text-xs text-slate-400">Created</div>
-                <div className="text-white">
-                  {new Date(shipment.created_at).toLocaleDateString()}
-                </div>
+                    <div className="text-xs text-slate-400">{Math.round(etaData.distanceKm)} km away</div>
+                    {etaData.weatherDelay.addedMinutes > 0 && (
+                      <div className={`text-xs mt-1 ${
+                        etaData.weatherDelay.severity === 'critical' ? 'text-red-400' :
+                        etaData.weatherDelay.severity === 'high' ? 'text-orange-400' :
+                        'text-yellow-400'
+                      }`}>
+                        ⚠️ +{formatETA(etaData.weatherDelay.addedMinutes)} delay
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
-            </div>
-          </div>
+            )}
 
-          {/* Weather */}
-          {weather && (weather.origin || weather.destination) && (
+            {/* Cargo Details */}
             <div className="card">
-              <h3 className="text-lg font-semibold text-white mb-4">Weather</h3>
-              {weather.origin && (
-                <div className="mb-3">
-                  <div className="text-xs text-slate-400">Origin</div>
-                  <div className="text-white">{weather.origin.description}</div>
-                  <div className="text-sm text-slate-400">{Math.round(weather.origin.temperature)}°C</div>
+              <h3 className="text-lg font-semibold text-white mb-4">Cargo Details</h3>
+              <div className="space-y-3">
+                <div>
+                  <div className="text-xs text-slate-400">Type</div>
+                  <div className="text-white">{shipment.cargo_type || 'Not specified'}</div>
                 </div>
-              )}
-              {weather.destination && (
                 <div>
-                  <div className="text-xs text-slate-400">Destination</div>
-                  <div className="text-white">{weather.destination.description}</div>
-                  <div className="text-sm text-slate-400">{Math.round(weather.destination.temperature)}°C</div>
+                  <div className="text-xs text-slate-400">Weight</div>
+                  <div className="text-white">
+                    {shipment.weight_kg ? `${shipment.weight_kg} kg` : 'Not specified'}
+                  </div>
                 </div>
-              )}
+                {shipment.volume_m3 ? (
+                  <div>
+                    <div className="text-xs text-slate-400">Volume / Volumetric Weight</div>
+                    <div className="text-white">
+                      {shipment.volume_m3} m³ · {shipment.volumetric_weight_kg} kg
+                    </div>
+                  </div>
+                ) : null}
+                <div>
+                  <div className="text-xs text-slate-400">Chargeable Weight</div>
+                  <div className="text-white font-semibold">
+                    {shipment.chargeable_weight_kg ? `${shipment.chargeable_weight_kg} kg` : 'Not specified'}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-slate-400">Created</div>
+                  <div className="text-white">
+                    {new Date(shipment.created_at).toLocaleDateString()}
+                  </div>
+                </div>
+              </div>
             </div>
-          )}
+
+            {/* Weather */}
+            {(weather?.origin || weather?.destination || forecast?.origin || forecast?.destination) && (
+              <div className="card">
+                <h3 className="text-lg font-semibold text-white mb-4">Weather</h3>
+                {([
+                  ['Origin', weather?.origin, forecast?.origin, 'departure'],
+                  ['Destination', weather?.destination, forecast?.destination, 'arrival'],
+                ] as const).map(([place, current, expected, moment]) => (current || expected) && (
+                  <div key={place} className="mb-3 last:mb-0">
+                    <div className="text-xs text-slate-400">{place}</div>
+                    {current && (
+                      <>
+                        <div className="text-white">{current.description}</div>
+                        {current.temperature !== null && (
+                          <div className="text-sm text-slate-400">{Math.round(current.temperature)}°C</div>
+                        )}
+                      </>
+                    )}
+                    {expected && (
+                      <div className="mt-1 text-sm">
+                        <span className="text-slate-400">
+                          At {moment} ({new Date(expected.expectedAt).toLocaleString()}):{' '}
+                        </span>
+                        {expected.weather ? (
+                          <>
+                            <span className="text-white">
+                              {expected.weather.description}
+                              {expected.weather.temperature !== null && `, ${Math.round(expected.weather.temperature)}°C`}
+                            </span>{' '}
+                            <span className={`px-2 py-0.5 text-xs rounded-full impact-${expected.weather.impact}`}>
+                              {expected.weather.impact}
+                            </span>
+                          </>
+                        ) : (
+                          <span className="text-slate-500">no forecast yet</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Flight Picker Modal */}
       {showFlightPicker && (
@@ -877,6 +1330,32 @@ export default function ShipmentDetail() {
           </div>
         </div>
       )}
+
+      {/* Proof of Delivery Modal */}
+      {showDeliveryForm && (
+        <DeliveryProofForm
+          defaultLocation={shipment.destination}
+          onSubmit={handleRecordDelivery}
+          onCancel={() => setShowDeliveryForm(false)}
+        />
+      )}
+
+      {/* Delay / Cancellation Reason Modal */}
+      {reasonPrompt && (
+        <StatusReasonModal
+          statusLabel={getStatusLabel(workflow, reasonPrompt.status)}
+          subject={reasonPrompt.legId !== undefined
+            ? `leg ${legs.find((leg) => leg.id === reasonPrompt.legId)?.sequence ?? ''}`
+            : undefined}
+          onConfirm={async (reason) => {
+            setReasonPrompt(null);
+            await (reasonPrompt.legId !== undefined
+              ? handleLegStatusChange(reasonPrompt.legId, reasonPrompt.status, reason)
+              : handleStatusChange(reasonPrompt.status, reason));
+          }}
+          onCancel={() => setReasonPrompt(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,206 @@
+/**
+ * Shipment Import Page
+ * Bulk-create shipments from a CSV or JSON file
+ */
+
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { importShipments } from '../services/shipments';
+import { ImportFormat, ImportSummary } from '../types';
+
+const SAMPLE_CSV = `origin,destination,cargo_type,weight_kg,estimated_arrival,temp_min_c,temp_max_c
+JFK,LHR,general,250,2026-03-01T12:00:00Z,,
+"Frankfurt, FRA",NBO,perishable,1200,,2,8`;
+
+export default function ShipmentImport() {
+  const navigate = useNavigate();
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [content, setContent] = useState('');
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setSummary(null);
+    setError('');
+    if (!file) return;
+
+    setFileName(file.name);
+    setFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+    setContent(await file.text());
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await importShipments(format, content, dryRun);
+      setSummary(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const statusStyles: Record<string, string> = {
+    valid: 'bg-blue-500/20 text-blue-400',
+    created: 'bg-green-500/20 text-green-400',
+    duplicate: 'bg-slate-500/20 text-slate-300',
+    invalid: 'bg-red-500/20 text-red-400',
+  };
+
+  const canCommit = summary?.dryRun && summary.valid > 0;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-white mb-2">Import Shipments</h1>
+        <p className="text-slate-400">
+          Upload a CSV or JSON file to create many shipments at once.
+          Rows that were already imported are skipped.
+        </p>
+      </div>
+
+      {/* Upload */}
+      <div className="card mb-6 space-y-4">
+        <div>
+          <label className="label">File</label>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-slate-300 file:mr-4 file:py-2 file:px-4
+                       file:rounded-lg file:border-0 file:bg-slate-700 file:text-white
+                       hover:file:bg-slate-600"
+          />
+          {fileName && (
+            <p className="text-xs text-slate-500 mt-2">
+              {fileName} · {format.toUpperCase()}
+            </p>
+          )}
+        </div>
+
+        <details>
+          <summary className="cursor-pointer text-sm text-slate-400 hover:text-slate-300 transition-colors">
+            File format
+          </summary>
+          <div className="mt-3 text-sm text-slate-400 space-y-2">
+            <p>
+              CSV files need a header row with <code>origin</code> and <code>destination</code>.
+              Optional columns: <code>cargo_type</code>, <code>weight_kg</code>, <code>estimated_arrival</code>,
+              <code> origin_lat</code>, <code>origin_lon</code>, <code>dest_lat</code>, <code>dest_lon</code>.
+              Perishable rows need <code>temp_min_c</code> and <code>temp_max_c</code>.
+            </p>
+            <pre className="bg-slate-900 rounded-lg p-3 text-xs text-slate-300 overflow-x-auto">{SAMPLE_CSV}</pre>
+            <p>JSON files contain an array of objects with the same fields (and optional <code>legs</code>).</p>
+          </div>
+        </details>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-slate-700">
+          <Link to="/shipments" className="btn-secondary">
+            Cancel
+          </Link>
+          <button
+            onClick={() => runImport(true)}
+            disabled={!content || loading}
+            className="btn-secondary"
+          >
+            {loading ? 'Checking...' : 'Validate'}
+          </button>
+          <button
+            onClick={() => runImport(false)}
+            disabled={!canCommit || loading}
+            className="btn-primary"
+          >
+            {summary?.dryRun ? `Import ${summary.valid} Shipments` : 'Import'}
+          </button>
+        </div>
+      </div>
+
+      {/* Results */}
+      {summary && (
+        <div className="card">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h3 className="text-lg font-semibold text-white">
+              {summary.dryRun ? 'Validation Results' : 'Import Results'}
+            </h3>
+            <div className="flex gap-4 text-sm">
+              <span className="text-slate-400">{summary.total} rows</span>
+              {summary.dryRun
+                ? <span className="text-blue-400">{summary.valid} ready</span>
+                : <span className="text-green-400">{summary.created} created</span>}
+              <span className="text-slate-300">{summary.duplicates} duplicates</span>
+              <span className="text-red-400">{summary.invalid} invalid</span>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-400 border-b border-slate-700">
+                  <th className="py-2 pr-4">Row</th>
+                  <th className="py-2 pr-4">Route</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.rows.map((row) => (
+                  <tr key={row.row} className="border-b border-slate-700/50 align-top">
+                    <td className="py-2 pr-4 text-slate-400">{row.row}</td>
+                    <td className="py-2 pr-4 text-white">
+                      {row.origin || '?'} → {row.destination || '?'}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${statusStyles[row.status]}`}>
+                        {row.status}
+                      </span>
+                    </td>
+                    <td className="py-2 text-slate-300">
+                      {row.errors.length > 0 ? (
+                        <ul className="list-disc list-inside text-red-300 space-y-0.5">
+                          {row.errors.map((message, i) => (
+                            <li key={i}>{message}</li>
+                          ))}
+                        </ul>
+                      ) : row.shipment_id ? (
+                        <Link to={`/shipments/${row.shipment_id}`} className="text-blue-400 hover:text-blue-300">
+                          {row.tracking_number}
+                        </Link>
+                      ) : row.status === 'duplicate' ? (
+                        'Already imported'
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {!summary.dryRun && summary.created > 0 && (
+            <div className="flex justify-end mt-4">
+              <button
+                onClick={() => navigate('/shipments', {
+                  state: { message: `${summary.created} shipments have been imported.` },
+                })}
+                className="btn-primary"
+              >
+                View Shipments
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,18 +5,26 @@
 
 import { useEffect, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { getShipments, deleteShipment } from '../services/shipments';
+import { getShipments, deleteShipment, bulkShipmentAction } from '../services/shipments';
+import { getWorkflow } from '../services/workflows';
 import ShipmentList from '../components/shipments/ShipmentList';
 import ShipmentSearch from '../components/shipments/ShipmentSearch';
-import { Shipment, SearchResult } from '../types';
+import { hasPermission } from '../services/auth';
+import { Shipment, SearchResult, StatusWorkflow, BulkActionRequest, BulkActionResult, User } from '../types';
 
-export default function Shipments() {
+interface ShipmentsProps {
+  user: User | null;
+}
+
+export default function Shipments({ user }: ShipmentsProps) {
   const location = useLocation();
   const [shipments, setShipments] = useState<Shipment[]>([]);
   const [searchResults, setSearchResults] = useState<SearchResult | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchLoading, setSearchLoading] = useState(false);
   const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [workflow, setWorkflow] = useState<StatusWorkflow | null>(null);
+  const canWrite = hasPermission(user, 'shipments:write');
 
   // Show feedback message from navigation state
   useEffect(() => {
@@ -32,6 +40,9 @@ export default function Shipments() {
 
   useEffect(() => {
     loadShipments();
+    getWorkflow()
+      .then(setWorkflow)
+      .catch((error) => console.error('Error loading status workflow:', error));
   }, []);
 
   const loadShipments = async () => {
@@ -69,6 +80,50 @@ export default function Shipments() {
     }
   };
 
+  const handleBulkAction = async (request: BulkActionRequest): Promise<BulkActionResult> => {
+    try {
+      const result = await bulkShipmentAction(request);
+      const succeeded = new Set(result.results.filter((r) => r.success).map((r) => r.id));
+
+      // Apply successful changes locally instead of reloading the list
+      const applyChanges = (list: Shipment[]): Shipment[] => {
+        if (request.action === 'delete') {
+          return list.filter((s) => !succeeded.has(s.id));
+        }
+        return list.map((s) => {
+          if (!succeeded.has(s.id)) return s;
+          return request.action === 'status'
+            ? { ...s, status: request.status! }
+            : { ...s, ...request.updates };
+        });
+      };
+
+      setShipments(applyChanges(shipments));
+      if (searchResults) {
+        const data = applyChanges(searchResults.data);
+        setSearchResults({
+          ...searchResults,
+          data,
+          total: searchResults.total - (searchResults.data.length - data.length),
+        });
+      }
+
+      setFeedback({
+        type: result.failed === 0 ? 'success' : 'error',
+        message: result.failed === 0
+          ? `Updated ${result.succeeded} shipments.`
+          : `${result.succeeded} succeeded, ${result.failed} failed.`,
+      });
+      setTimeout(() => setFeedback(null), 4000);
+      return result;
+    } catch (error) {
+      console.error('Error applying bulk action:', error);
+      setFeedback({ type: 'error', message: 'Failed to apply bulk action. Please try again.' });
+      setTimeout(() => setFeedback(null), 4000);
+      throw error;
+    }
+  };
+
   const handleSearchResults = (results: SearchResult) => {
     setSearchResults(results);
   };
@@ -112,9 +167,28 @@ export default function Shipments() {
               : `${shipments.length} total shipments`}
           </p>
         </div>
-        <Link to="/shipments/new" className="btn-primary">
-          + New Shipment
-        </Link>
+        <div className="flex gap-3">
+          {hasPermission(user, 'settings:manage') && (
+            <>
+              <Link to="/shipments/sla-targets" className="btn-secondary">
+                SLA Targets
+              </Link>
+              <Link to="/shipments/awb-stock" className="btn-secondary">
+                AWB Stock
+              </Link>
+            </>
+          )}
+          {canWrite && (
+            <>
+              <Link to="/shipments/import" className="btn-secondary">
+                Import
+              </Link>
+              <Link to="/shipments/new" className="btn-primary">
+                + New Shipment
+              </Link>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Search */}
@@ -129,7 +203,13 @@ export default function Shipments() {
       <ShipmentList
         shipments={displayedShipments}
         loading={loading || searchLoading}
-        onDelete={handleDelete}
+        onDelete={hasPermission(user, 'shipments:delete') ? handleDelete : undefined}
+        statusOptions={(workflow?.statuses || [])
+          // Arrival needs a proof of delivery per shipment
+          .filter((s) => s.name !== 'arrived')
+          .map((s) => ({ value: s.name, label: s.label, requiresReason: s.requiresReason }))}
+        workflow={workflow}
+        onBulkAction={canWrite ? handleBulkAction : undefined}
       />
 
       {/* Pagination (if search results) */}
@@ -0,0 +1,186 @@
+/**
+ * SLA Targets Page
+ * Manage the promised transit times per lane and service level
+ */
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getSlaTargets, createSlaTarget, deleteSlaTarget } from '../services/sla';
+import { SlaTarget, SlaTargetFormData } from '../types';
+
+const serviceLevels = ['standard', 'express', 'priority'];
+
+const emptyForm = { origin: '*', destination: '*', service_level: '*', transit_hours: '', at_risk_hours: '' };
+
+export default function SlaTargets() {
+  const [targets, setTargets] = useState<SlaTarget[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getSlaTargets()
+      .then(setTargets)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load SLA targets'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      const created = await createSlaTarget({
+        origin: form.origin.trim(),
+        destination: form.destination.trim(),
+        service_level: form.service_level as SlaTargetFormData['service_level'],
+        transit_hours: parseInt(form.transit_hours, 10),
+        at_risk_hours: form.at_risk_hours ? parseInt(form.at_risk_hours, 10) : undefined,
+      });
+      setTargets([...targets, created]);
+      setForm(emptyForm);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add SLA target');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Delete this SLA target? Open shipments it covered are re-evaluated.')) return;
+
+    try {
+      await deleteSlaTarget(id);
+      setTargets(targets.filter((target) => target.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete SLA target');
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <Link to="/shipments" className="text-sm text-slate-400 hover:text-white mb-2 inline-block">
+          ← Back to Shipments
+        </Link>
+        <h1 className="text-3xl font-bold text-white mb-2">SLA Targets</h1>
+        <p className="text-slate-400">
+          Promised delivery times, counted from booking. A shipment uses the most specific target for its
+          service level and lane; use * to match any origin, destination or service level.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {/* Add Target */}
+      <form onSubmit={handleAdd} className="card mb-6 grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+        <div>
+          <label className="label">Origin</label>
+          <input
+            type="text"
+            className="input"
+            placeholder="JFK or *"
+            value={form.origin}
+            onChange={(e) => setForm({ ...form, origin: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <label className="label">Destination</label>
+          <input
+            type="text"
+            className="input"
+            placeholder="LHR or *"
+            value={form.destination}
+            onChange={(e) => setForm({ ...form, destination: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <label className="label">Service Level</label>
+          <select
+            className="input"
+            value={form.service_level}
+            onChange={(e) => setForm({ ...form, service_level: e.target.value })}
+          >
+            <option value="*">Any</option>
+            {serviceLevels.map((level) => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="label">Transit (hours)</label>
+          <input
+            type="number"
+            className="input"
+            min="1"
+            max="2160"
+            value={form.transit_hours}
+            onChange={(e) => setForm({ ...form, transit_hours: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <label className="label">At Risk (hours)</label>
+          <input
+            type="number"
+            className="input"
+            min="0"
+            placeholder="12"
+            value={form.at_risk_hours}
+            onChange={(e) => setForm({ ...form, at_risk_hours: e.target.value })}
+          />
+        </div>
+        <button type="submit" disabled={saving} className="btn-primary">
+          {saving ? 'Adding...' : 'Add Target'}
+        </button>
+      </form>
+
+      {/* Targets */}
+      <div className="card overflow-x-auto">
+        {loading ? (
+          <div className="animate-pulse h-24 bg-slate-700 rounded"></div>
+        ) : targets.length === 0 ? (
+          <p className="text-slate-400 text-center py-6">No SLA targets yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-700">
+                <th className="py-2 pr-4">Lane</th>
+                <th className="py-2 pr-4">Service Level</th>
+                <th className="py-2 pr-4">Transit</th>
+                <th className="py-2 pr-4">At Risk Below</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {targets.map((target) => (
+                <tr key={target.id} className="text-slate-300">
+                  <td className="py-2 pr-4 text-white">{target.origin} → {target.destination}</td>
+                  <td className="py-2 pr-4">{target.service_level === '*' ? 'Any' : target.service_level}</td>
+                  <td className="py-2 pr-4">{target.transit_hours} h</td>
+                  <td className="py-2 pr-4">{target.at_risk_hours} h slack</td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => handleDelete(target.id)}
+                      className="text-red-400 hover:text-red-300"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
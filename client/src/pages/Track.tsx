@@ -0,0 +1,233 @@
+/**
+ * Track Page
+ * Public shipment tracking by tracking number, no account required
+ */
+
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
+import L from 'leaflet';
+import { trackShipment } from '../services/publicTracking';
+import { PublicTracking } from '../types';
+import { formatAwb } from '../utils/validators';
+import { getStatusColorClasses } from '../components/shipments/StatusBadge';
+
+const airplaneIcon = new L.DivIcon({
+  className: 'airplane-marker',
+  html: `<div style="font-size: 24px; transform: rotate(45deg);">✈️</div>`,
+  iconSize: [30, 30],
+  iconAnchor: [15, 15],
+});
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function Track() {
+  const { trackingNumber: trackingNumberParam } = useParams<{ trackingNumber: string }>();
+  const navigate = useNavigate();
+
+  const [trackingNumber, setTrackingNumber] = useState(trackingNumberParam || '');
+  const [pin, setPin] = useState('');
+  const [tracking, setTracking] = useState<PublicTracking | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const lookup = async (number: string, pinValue?: string) => {
+    setLoading(true);
+    setError('');
+    try {
+      setTracking(await trackShipment(number, pinValue));
+    } catch (err) {
+      setTracking(null);
+      setError(err instanceof Error ? err.message : 'Failed to track shipment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shared links (/track/:trackingNumber) look the shipment up straight away
+  useEffect(() => {
+    if (trackingNumberParam) {
+      lookup(trackingNumberParam);
+    }
+  }, [trackingNumberParam]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const number = trackingNumber.trim().toUpperCase();
+    if (!number) return;
+
+    if (number !== trackingNumberParam) {
+      navigate(`/track/${number}`, { replace: true });
+    }
+    lookup(number, pin.trim());
+  };
+
+  const flight = tracking?.flight;
+
+  return (
+    <div className="min-h-screen max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <Link to="/" className="flex items-center gap-2 mb-8 w-fit">
+        <span className="text-2xl">✈️</span>
+        <span className="text-xl font-bold gradient-text">SkyTrack</span>
+      </Link>
+
+      <h1 className="text-3xl font-bold text-white mb-2">Track a Shipment</h1>
+      <p className="text-slate-400 mb-6">Enter the tracking number you received from the shipper.</p>
+
+      {/* Lookup */}
+      <form onSubmit={handleSubmit} className="card mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="md:col-span-2">
+            <label className="label">Tracking Number</label>
+            <input
+              className="input font-mono"
+              placeholder="e.g., AFLX2K9P3QAB1"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <label className="label">PIN or Postcode</label>
+            <input
+              className="input"
+              placeholder="If provided"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end mt-4">
+          <button type="submit" disabled={loading} className="btn-primary">
+            {loading ? 'Searching...' : 'Track'}
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-400 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {tracking && (
+        <div className="space-y-6">
+          {/* Status */}
+          <div className="card">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="text-sm text-slate-400 font-mono">
+                  {tracking.tracking_number}
+                  {tracking.awb_number && ` • AWB ${formatAwb(tracking.awb_number)}`}
+                </div>
+                <h2 className="text-2xl font-bold text-white mt-1">
+                  {tracking.origin} → {tracking.destination}
+                </h2>
+                {tracking.total_pieces != null && tracking.total_pieces > 0 && (
+                  <div className="text-sm text-slate-400 mt-1">{tracking.total_pieces} pieces</div>
+                )}
+              </div>
+              <div className="text-right">
+                <div
+                  className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium border
+                              ${getStatusColorClasses(tracking.status.color)}`}
+                >
+                  <span>{tracking.status.icon}</span>
+                  {tracking.status.label || tracking.status.name.replace(/_/g, ' ')}
+                </div>
+                <div className="text-sm text-slate-400 mt-2">{tracking.status.description}</div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6 pt-4 border-t border-slate-700 text-sm">
+              <div>
+                <div className="text-slate-400">Estimated arrival</div>
+                <div className="text-white">
+                  {tracking.estimated_arrival ? formatDateTime(tracking.estimated_arrival) : 'Not yet scheduled'}
+                </div>
+              </div>
+              {flight?.eta && (
+                <div>
+                  <div className="text-slate-400">Live ETA at {flight.heading_to}</div>
+                  <div className="text-white">{formatDateTime(flight.eta)}</div>
+                </div>
+              )}
+            </div>
+
+            {tracking.route.length > 1 && (
+              <div className="flex flex-wrap items-center gap-2 mt-4 text-sm">
+                {tracking.route.map((leg) => (
+                  <span key={leg.sequence} className="px-2 py-1 rounded bg-slate-700/50 text-slate-300">
+                    {leg.origin} → {leg.destination}
+                    <span className="text-slate-500"> ({leg.status.replace(/_/g, ' ')})</span>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Flight position */}
+          {flight && (
+            <div className="card p-0 overflow-hidden">
+              <div className="px-6 py-4 flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-white">
+                  Flight {flight.callsign || ''}
+                </h3>
+                <span className="text-xs text-slate-500">Updated {formatDateTime(flight.last_updated)}</span>
+              </div>
+              <div className="h-[320px]">
+                <MapContainer
+                  center={[flight.latitude, flight.longitude]}
+                  zoom={5}
+                  style={{ height: '100%', width: '100%' }}
+                >
+                  <TileLayer
+                    url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+                    attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+                  />
+                  <Marker position={[flight.latitude, flight.longitude]} icon={airplaneIcon}>
+                    <Popup>
+                      <div className="text-slate-900">
+                        {flight.on_ground ? 'On ground' : (
+                          <>
+                            Alt: {Math.round(flight.altitude * 3.28084).toLocaleString()} ft
+                            <br />
+                            Speed: {Math.round(flight.speed * 1.94384)} kts
+                          </>
+                        )}
+                      </div>
+                    </Popup>
+                  </Marker>
+                </MapContainer>
+              </div>
+            </div>
+          )}
+
+          {/* Milestones */}
+          <div className="card">
+            <h3 className="text-lg font-semibold text-white mb-4">Milestones</h3>
+            {tracking.milestones.length === 0 ? (
+              <p className="text-slate-400 text-sm">No milestones yet</p>
+            ) : (
+              <ol className="relative border-l border-slate-700 ml-2 space-y-5">
+                {[...tracking.milestones].reverse().map((milestone, index) => (
+                  <li key={`${milestone.timestamp}-${index}`} className="ml-5">
+                    <span
+                      className={`absolute -left-1.5 w-3 h-3 rounded-full ${index === 0 ? 'bg-blue-500' : 'bg-slate-600'}`}
+                    />
+                    <div className="text-white font-medium">{milestone.label}</div>
+                    <div className="text-sm text-slate-400">
+                      {formatDateTime(milestone.timestamp)}
+                      {milestone.location && ` • ${milestone.location}`}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,8 +6,9 @@
 import { useEffect, useState, useCallback } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
 import L from 'leaflet';
-import { getFlights } from '../services/tracking';
-import { FlightData } from '../types';
+import { getFlights, getFlightTrack } from '../services/tracking';
+import { FlightData, FlightTrack } from '../types';
+import { FlightTrackLayer, TrackSlider, useTrackReplay } from '../components/tracking/FlightTrackReplay';
 
 // Custom airplane icon
 const airplaneIcon = new L.DivIcon({
@@ -85,6 +86,8 @@ export default function Tracking() {
   const [loading, setLoading] = useState(true);
   const [selectedFlight, setSelectedFlight] = useState<FlightData | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(false);
+  const [track, setTrack] = useState<FlightTrack | null>(null);
+  const replay = useTrackReplay(track);
 
   const loadFlights = useCallback(async () => {
     try {
@@ -101,6 +104,23 @@ export default function Tracking() {
     loadFlights();
   }, [loadFlights]);
 
+  // Recorded positions of the selected flight (only flights assigned to shipments have any)
+  const selectedIcao24 = selectedFlight?.icao24;
+  useEffect(() => {
+    setTrack(null);
+    if (!selectedIcao24) return;
+
+    let cancelled = false;
+    getFlightTrack(selectedIcao24)
+      .then((data) => {
+        if (!cancelled) setTrack(data);
+      })
+      .catch((error) => console.error('Error loading flight track:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIcao24]);
+
   useEffect(() => {
     if (autoRefresh) {
       const interval = setInterval(loadFlights, 30000); // Refresh every 30 seconds
@@ -152,6 +172,7 @@ export default function Tracking() {
                 attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
               />
               <MapBounds flights={flights} />
+              {track && <FlightTrackLayer track={track} replay={replay} />}
               {flights.map((flight) => (
                 <Marker
                   key={flight.icao24}
@@ -264,6 +285,14 @@ export default function Tracking() {
               </div>
             </div>
 
+            {/* Track Replay */}
+            {track && (
+              <div className="bg-slate-800/50 rounded-lg p-4 mb-4">
+                <div className="text-sm text-slate-400 mb-2">Flight Track</div>
+                <TrackSlider track={track} replay={replay} />
+              </div>
+            )}
+
             {/* Flight Data Grid */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
               <div className="bg-slate-800/50 rounded-lg p-3">
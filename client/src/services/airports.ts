@@ -0,0 +1,36 @@
+/**
+ * Airports Service
+ * Airport reference lookups and the airport backfill of existing shipments
+ */
+
+import api, { getErrorMessage } from './api';
+import { Airport, AirportBackfillResult } from '../types';
+
+/**
+ * Search airports by IATA/ICAO code, name or city
+ */
+export async function searchAirports(query: string): Promise<Airport[]> {
+  try {
+    const { data } = await api.get<{ airports: Airport[] }>('/airports', {
+      params: { q: query },
+    });
+    return data.airports;
+  } catch (error) {
+    console.error('Error searching airports:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Link shipments entered as free text to airports
+ * @param dryRun - Only report what would change
+ */
+export async function backfillAirports(dryRun: boolean): Promise<AirportBackfillResult> {
+  try {
+    const { data } = await api.post<AirportBackfillResult>('/airports/backfill', { dryRun });
+    return data;
+  } catch (error) {
+    console.error('Error backfilling airports:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
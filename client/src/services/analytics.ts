@@ -4,7 +4,7 @@
  */
 
 import api, { getErrorMessage } from './api';
-import { DashboardStats, ChartDataPoint, RouteData, StatusBreakdown } from '../types';
+import { DashboardStats, ChartDataPoint, RouteData, StatusBreakdown, DelayReasonData } from '../types';
 
 /**
  * Get dashboard statistics
@@ -62,6 +62,21 @@ export async function getTopRoutes(limit: number = 10): Promise<RouteData[]> {
   }
 }
 
+/**
+ * Get delays and cancellations of the last days by reason
+ */
+export async function getDelayReasons(days: number = 30): Promise<DelayReasonData[]> {
+  try {
+    const { data } = await api.get<{ reasons: DelayReasonData[] }>('/analytics/delay-reasons', {
+      params: { days },
+    });
+    return data.reasons;
+  } catch (error) {
+    console.error('Error fetching delay reasons:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
 /**
  * Get recent activity
  */
@@ -77,7 +77,12 @@ export default api;
  */
 export function getErrorMessage(error: unknown): string {
   if (axios.isAxiosError(error)) {
-    return error.response?.data?.error || error.message || 'An error occurred';
+    const { error: message, details } = error.response?.data || {};
+    // Validation failures list what is wrong in details
+    if (message && Array.isArray(details) && details.length > 0) {
+      return `${message}: ${details.join('; ')}`;
+    }
+    return message || error.message || 'An error occurred';
   }
   if (error instanceof Error) {
     return error.message;
@@ -0,0 +1,39 @@
+/**
+ * Audit Service
+ * Field-level change history of shipments
+ */
+
+import api, { getErrorMessage } from './api';
+import { AuditAction, AuditLogEntry } from '../types';
+
+/**
+ * Get the change history of a shipment, newest first
+ */
+export async function getShipmentHistory(id: string): Promise<AuditLogEntry[]> {
+  try {
+    const { data } = await api.get<{ history: AuditLogEntry[] }>(`/shipments/${id}/history`);
+    return data.history;
+  } catch (error) {
+    console.error('Error fetching shipment history:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Query the audit log across all shipments
+ */
+export async function getAuditLog(filters: {
+  shipmentId?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+  limit?: number;
+} = {}): Promise<AuditLogEntry[]> {
+  try {
+    const { data } = await api.get<{ entries: AuditLogEntry[] }>('/audit', { params: filters });
+    return data.entries;
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import api, { getErrorMessage } from './api';
-import { User, AuthSession } from '../types';
+import { User, AuthSession, Permission } from '../types';
 
 interface LoginResponse {
   message: string;
@@ -97,3 +97,10 @@ export function isAuthenticated(): boolean {
   return !!localStorage.getItem('access_token');
 }
 
+
+/**
+ * Check whether the user's role grants a permission
+ */
+export function hasPermission(user: User | null, permission: Permission): boolean {
+  return !!user?.permissions?.includes(permission);
+}
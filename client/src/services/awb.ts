@@ -0,0 +1,49 @@
+/**
+ * AWB Service
+ * Air waybill stock ranges
+ */
+
+import api, { getErrorMessage } from './api';
+import { AwbStock } from '../types';
+
+/**
+ * Get the account's AWB stock ranges
+ */
+export async function getAwbStock(): Promise<AwbStock[]> {
+  try {
+    const { data } = await api.get<{ stock: AwbStock[] }>('/awb/stock');
+    return data.stock;
+  } catch (error) {
+    console.error('Error fetching AWB stock:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Add a stock range (serials are 7 digits, without check digit)
+ */
+export async function addAwbStock(range: {
+  airline_prefix: string;
+  airline_name?: string;
+  range_start: number;
+  range_end: number;
+}): Promise<void> {
+  try {
+    await api.post('/awb/stock', range);
+  } catch (error) {
+    console.error('Error adding AWB stock:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Remove a stock range
+ */
+export async function deleteAwbStock(id: number): Promise<void> {
+  try {
+    await api.delete(`/awb/stock/${id}`);
+  } catch (error) {
+    console.error('Error deleting AWB stock:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
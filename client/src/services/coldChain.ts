@@ -0,0 +1,52 @@
+/**
+ * Cold Chain Service
+ * Temperature range, readings and excursions of perishable shipments
+ */
+
+import api, { getErrorMessage } from './api';
+import { ColdChain, Shipment, TemperatureExcursion, TemperatureReading, TemperatureReadingFormData } from '../types';
+
+/**
+ * Get the range, exception, logged readings and excursions of a shipment
+ */
+export async function getColdChain(shipmentId: string): Promise<ColdChain> {
+  try {
+    const { data } = await api.get<ColdChain>(`/shipments/${shipmentId}/cold-chain`);
+    return data;
+  } catch (error) {
+    console.error('Error fetching cold chain:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Log a temperature reading; the excursion is returned when it is outside the range
+ */
+export async function logTemperatureReading(
+  shipmentId: string,
+  reading: TemperatureReadingFormData
+): Promise<{ reading: TemperatureReading; excursion: TemperatureExcursion | null }> {
+  try {
+    const { data } = await api.post<{ reading: TemperatureReading; excursion: TemperatureExcursion | null }>(
+      `/shipments/${shipmentId}/cold-chain/readings`,
+      reading
+    );
+    return data;
+  } catch (error) {
+    console.error('Error logging temperature reading:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Clear the cold chain exception of a shipment
+ */
+export async function resolveColdChainException(shipmentId: string, notes?: string): Promise<Shipment> {
+  try {
+    const { data } = await api.post<{ shipment: Shipment }>(`/shipments/${shipmentId}/cold-chain/resolve`, { notes });
+    return data.shipment;
+  } catch (error) {
+    console.error('Error resolving cold chain exception:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
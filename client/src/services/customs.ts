@@ -0,0 +1,26 @@
+/**
+ * Customs Service
+ * Customs clearance steps of international shipments
+ */
+
+import api, { getErrorMessage } from './api';
+import { CustomsClearance, CustomsStepFormData } from '../types';
+
+/**
+ * Record the next customs step; shipmentStatus is set when a hold moved the shipment
+ */
+export async function recordCustomsStep(
+  shipmentId: string,
+  step: CustomsStepFormData
+): Promise<{ customs: CustomsClearance; shipmentStatus: string | null }> {
+  try {
+    const { data } = await api.post<{ customs: CustomsClearance; shipmentStatus: string | null }>(
+      `/shipments/${shipmentId}/customs`,
+      step
+    );
+    return data;
+  } catch (error) {
+    console.error('Error recording customs step:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
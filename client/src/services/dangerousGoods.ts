@@ -0,0 +1,39 @@
+/**
+ * Dangerous Goods Service
+ * Reference lookups and dangerous goods declarations of hazardous shipments
+ */
+
+import api, { getErrorMessage } from './api';
+import { DangerousGoodsDeclaration, DangerousGoodsFormData, DangerousGoodsReference } from '../types';
+
+/**
+ * Search the dangerous goods reference table by UN number or name
+ */
+export async function searchDangerousGoods(query: string): Promise<DangerousGoodsReference[]> {
+  try {
+    const { data } = await api.get<{ entries: DangerousGoodsReference[] }>('/shipments/dangerous-goods/reference', {
+      params: { q: query },
+    });
+    return data.entries;
+  } catch (error) {
+    console.error('Error searching dangerous goods:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Replace the dangerous goods declaration of a shipment
+ * Declarations that fail the acceptance checks are saved with their issues
+ */
+export async function saveDangerousGoods(
+  shipmentId: string,
+  items: DangerousGoodsFormData[]
+): Promise<DangerousGoodsDeclaration> {
+  try {
+    const { data } = await api.put<DangerousGoodsDeclaration>(`/shipments/${shipmentId}/dangerous-goods`, { items });
+    return data;
+  } catch (error) {
+    console.error('Error saving dangerous goods:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
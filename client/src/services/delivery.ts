@@ -0,0 +1,57 @@
+/**
+ * Delivery Service
+ * Proof of delivery and delivery receipts
+ */
+
+import axios from 'axios';
+import api, { getErrorMessage } from './api';
+import { DeliveryProof, DeliveryProofFormData } from '../types';
+
+/**
+ * Get the proof of delivery of a shipment
+ * @returns null when no proof has been recorded
+ */
+export async function getDeliveryProof(shipmentId: string): Promise<DeliveryProof | null> {
+  try {
+    const { data } = await api.get<{ delivery: DeliveryProof }>(`/shipments/${shipmentId}/delivery`);
+    return data.delivery;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    console.error('Error fetching proof of delivery:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Record proof of delivery; the shipment moves to arrived if it has not yet
+ */
+export async function recordDelivery(shipmentId: string, proof: DeliveryProofFormData): Promise<DeliveryProof> {
+  try {
+    const { data } = await api.post<{ delivery: DeliveryProof }>(`/shipments/${shipmentId}/delivery`, proof);
+    return data.delivery;
+  } catch (error) {
+    console.error('Error recording delivery:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Download the printable delivery receipt
+ */
+export async function downloadDeliveryReceipt(shipmentId: string, trackingNumber: string): Promise<void> {
+  try {
+    const { data } = await api.get<Blob>(`/shipments/${shipmentId}/delivery/receipt`, { responseType: 'blob' });
+
+    const url = URL.createObjectURL(data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `delivery-receipt-${trackingNumber}.html`;
+    link.click();
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error downloading delivery receipt:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
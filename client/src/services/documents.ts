@@ -0,0 +1,81 @@
+/**
+ * Document Service
+ * Files attached to shipments (AWB, commercial invoice, packing list)
+ */
+
+import api, { getErrorMessage } from './api';
+import { DocumentType, ShipmentDocument } from '../types';
+
+/**
+ * Get the documents attached to a shipment
+ */
+export async function getShipmentDocuments(shipmentId: string): Promise<ShipmentDocument[]> {
+  try {
+    const { data } = await api.get<{ documents: ShipmentDocument[] }>(`/shipments/${shipmentId}/documents`);
+    return data.documents;
+  } catch (error) {
+    console.error('Error fetching documents:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Upload a file as the raw request body
+ */
+export async function uploadShipmentDocument(
+  shipmentId: string,
+  file: File,
+  documentType: DocumentType
+): Promise<ShipmentDocument> {
+  try {
+    const { data } = await api.post<{ document: ShipmentDocument }>(
+      `/shipments/${shipmentId}/documents`,
+      file,
+      {
+        params: { type: documentType },
+        headers: {
+          'Content-Type': file.type || 'application/octet-stream',
+          'X-File-Name': encodeURIComponent(file.name),
+        },
+      }
+    );
+    return data.document;
+  } catch (error) {
+    console.error('Error uploading document:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Download a document and save it under its original name
+ */
+export async function downloadShipmentDocument(document: ShipmentDocument): Promise<void> {
+  try {
+    const { data } = await api.get<Blob>(
+      `/shipments/${document.shipment_id}/documents/${document.id}`,
+      { responseType: 'blob' }
+    );
+
+    const url = URL.createObjectURL(data);
+    const link = window.document.createElement('a');
+    link.href = url;
+    link.download = document.file_name;
+    link.click();
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error downloading document:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Delete a document
+ */
+export async function deleteShipmentDocument(shipmentId: string, documentId: string): Promise<void> {
+  try {
+    await api.delete(`/shipments/${shipmentId}/documents/${documentId}`);
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
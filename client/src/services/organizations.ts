@@ -0,0 +1,117 @@
+/**
+ * Organization Service
+ * Team members, roles and invitations
+ */
+
+import api, { getErrorMessage } from './api';
+import { AutoStatusMode, OrganizationDetails, OrganizationInvite, Role } from '../types';
+
+/**
+ * Get the current organization with its members and open invitations
+ */
+export async function getOrganization(): Promise<OrganizationDetails> {
+  try {
+    const { data } = await api.get<OrganizationDetails>('/organizations/current');
+    return data;
+  } catch (error) {
+    console.error('Error fetching organization:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Rename the current organization
+ */
+export async function renameOrganization(name: string): Promise<void> {
+  try {
+    await api.put('/organizations/current', { name });
+  } catch (error) {
+    console.error('Error renaming organization:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Choose how live flight data changes shipment statuses
+ */
+export async function setAutoStatusMode(mode: AutoStatusMode): Promise<void> {
+  try {
+    await api.put('/organizations/current', { auto_status: mode });
+  } catch (error) {
+    console.error('Error saving automatic status setting:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Invite someone to the organization by email
+ */
+export async function inviteMember(email: string, role: Role): Promise<void> {
+  try {
+    await api.post('/organizations/current/invites', { email, role });
+  } catch (error) {
+    console.error('Error inviting member:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Cancel an open invitation
+ */
+export async function cancelInvite(id: number): Promise<void> {
+  try {
+    await api.delete(`/organizations/current/invites/${id}`);
+  } catch (error) {
+    console.error('Error cancelling invitation:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Change a member's role
+ */
+export async function updateMemberRole(userId: string, role: Role): Promise<void> {
+  try {
+    await api.put(`/organizations/current/members/${userId}`, { role });
+  } catch (error) {
+    console.error('Error updating member:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Remove a member from the organization
+ */
+export async function removeMember(userId: string): Promise<void> {
+  try {
+    await api.delete(`/organizations/current/members/${userId}`);
+  } catch (error) {
+    console.error('Error removing member:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Get the invitations addressed to the current user
+ */
+export async function getMyInvites(): Promise<OrganizationInvite[]> {
+  try {
+    const { data } = await api.get<{ invites: OrganizationInvite[] }>('/organizations/invites');
+    return data.invites;
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Accept an invitation, leaving the current organization
+ */
+export async function acceptInvite(id: number): Promise<void> {
+  try {
+    await api.post(`/organizations/invites/${id}/accept`);
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Public Tracking Service
+ * Shipment lookup for customers without an account
+ */
+
+import api, { getErrorMessage } from './api';
+import { PublicTracking } from '../types';
+
+/**
+ * Track a shipment by tracking number
+ * @param pin - PIN or postcode, when the shipper protected the shipment with one
+ */
+export async function trackShipment(trackingNumber: string, pin?: string): Promise<PublicTracking> {
+  try {
+    const { data } = await api.post<{ tracking: PublicTracking }>('/public/tracking', {
+      trackingNumber,
+      pin: pin || undefined,
+    });
+    return data.tracking;
+  } catch (error) {
+    console.error('Error tracking shipment:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
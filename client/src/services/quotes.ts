@@ -0,0 +1,112 @@
+/**
+ * Quotes Service
+ * Rate cards and freight price quotes
+ */
+
+import api, { getErrorMessage } from './api';
+import { DangerousGoodsFormData, Quote, QuoteRequest, RateCard, RateCardFormData, Shipment } from '../types';
+
+/**
+ * Get the account's rate cards
+ */
+export async function getRateCards(): Promise<RateCard[]> {
+  try {
+    const { data } = await api.get<{ rateCards: RateCard[] }>('/quotes/rate-cards');
+    return data.rateCards;
+  } catch (error) {
+    console.error('Error fetching rate cards:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Create a rate card for a lane
+ */
+export async function createRateCard(rateCard: RateCardFormData): Promise<RateCard> {
+  try {
+    const { data } = await api.post<{ rateCard: RateCard }>('/quotes/rate-cards', rateCard);
+    return data.rateCard;
+  } catch (error) {
+    console.error('Error creating rate card:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Delete a rate card
+ */
+export async function deleteRateCard(id: number): Promise<void> {
+  try {
+    await api.delete(`/quotes/rate-cards/${id}`);
+  } catch (error) {
+    console.error('Error deleting rate card:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Get recent quotes
+ */
+export async function getQuotes(): Promise<Quote[]> {
+  try {
+    const { data } = await api.get<{ quotes: Quote[] }>('/quotes');
+    return data.quotes;
+  } catch (error) {
+    console.error('Error fetching quotes:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Request a price quote
+ */
+export async function requestQuote(request: QuoteRequest): Promise<Quote> {
+  try {
+    const { data } = await api.post<{ quote: Quote }>('/quotes', request);
+    return data.quote;
+  } catch (error) {
+    console.error('Error requesting quote:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Accept a quote
+ */
+export async function acceptQuote(id: string): Promise<Quote> {
+  try {
+    const { data } = await api.post<{ quote: Quote }>(`/quotes/${id}/accept`);
+    return data.quote;
+  } catch (error) {
+    console.error('Error accepting quote:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Shipment details that cannot be taken from the quote
+ */
+export interface ConvertDetails {
+  estimated_arrival?: string;
+  dangerous_goods?: DangerousGoodsFormData[];
+  temp_min_c?: number;
+  temp_max_c?: number;
+}
+
+/**
+ * Create a shipment from an accepted quote
+ * Hazardous quotes need the dangerous goods declaration of the shipment,
+ * perishable quotes its temperature range
+ */
+export async function convertQuote(
+  id: string,
+  details: ConvertDetails = {}
+): Promise<{ shipment: Shipment; quote: Quote }> {
+  try {
+    const { data } = await api.post<{ shipment: Shipment; quote: Quote }>(`/quotes/${id}/convert`, details);
+    return data;
+  } catch (error) {
+    console.error('Error converting quote:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
@@ -28,6 +28,13 @@ export async function searchShipments(
     if (criteria.dateFrom) params.append('dateFrom', criteria.dateFrom);
     if (criteria.dateTo) params.append('dateTo', criteria.dateTo);
     if (criteria.cargoType) params.append('cargoType', criteria.cargoType);
+    if (criteria.awbNumber) params.append('awbNumber', criteria.awbNumber);
+    if (criteria.minChargeableWeight !== undefined) {
+      params.append('minChargeableWeight', criteria.minChargeableWeight.toString());
+    }
+    if (criteria.maxChargeableWeight !== undefined) {
+      params.append('maxChargeableWeight', criteria.maxChargeableWeight.toString());
+    }
 
     params.append('page', page.toString());
     params.append('pageSize', pageSize.toString());
@@ -4,7 +4,24 @@
  */
 
 import api, { getErrorMessage } from './api';
-import { Shipment, ShipmentFormData, TrackingEvent } from '../types';
+import {
+  Shipment,
+  ShipmentFormData,
+  ShipmentLeg,
+  ShipmentLegFormData,
+  ShipmentPiece,
+  ShipmentPieceFormData,
+  DangerousGoodsDeclaration,
+  ColdChain,
+  CustomsClearance,
+  SlaEscalation,
+  TrackingEvent,
+  ImportFormat,
+  ImportSummary,
+  BulkActionRequest,
+  BulkActionResult,
+  StatusReasonData,
+} from '../types';
 
 interface ShipmentsResponse {
   shipments: Shipment[];
@@ -12,6 +29,12 @@ interface ShipmentsResponse {
 
 interface ShipmentResponse {
   shipment: Shipment;
+  legs?: ShipmentLeg[];
+  pieces?: ShipmentPiece[];
+  dangerousGoods?: DangerousGoodsDeclaration;
+  coldChain?: ColdChain | null;
+  customs?: CustomsClearance;
+  slaEscalations?: SlaEscalation[];
   trackingEvents?: TrackingEvent[];
   statusInfo?: Record<string, unknown>;
 }
@@ -60,7 +83,7 @@ export async function createShipment(shipmentData: ShipmentFormData): Promise<Sh
  */
 export async function updateShipment(
   id: string,
-  updates: Partial<ShipmentFormData & { status: string }>
+  updates: Partial<ShipmentFormData & StatusReasonData & { status: string }>
 ): Promise<Shipment> {
   try {
     const { data } = await api.put<ShipmentResponse>(`/shipments/${id}`, updates);
@@ -71,6 +94,31 @@ export async function updateShipment(
   }
 }
 
+/**
+ * Apply the status proposed from the assigned flight's data
+ */
+export async function applyStatusProposal(id: string): Promise<Shipment> {
+  try {
+    const { data } = await api.post<ShipmentResponse>(`/shipments/${id}/status-proposal`);
+    return data.shipment;
+  } catch (error) {
+    console.error('Error applying status proposal:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Dismiss the status proposed from the assigned flight's data
+ */
+export async function dismissStatusProposal(id: string): Promise<void> {
+  try {
+    await api.delete(`/shipments/${id}/status-proposal`);
+  } catch (error) {
+    console.error('Error dismissing status proposal:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
 /**
  * Delete a shipment
  */
@@ -98,3 +146,89 @@ export async function quickSearch(query: string): Promise<Shipment[]> {
   }
 }
 
+
+/**
+ * Replace the legs of a shipment
+ */
+export async function saveShipmentLegs(
+  id: string,
+  legs: ShipmentLegFormData[]
+): Promise<ShipmentLeg[]> {
+  try {
+    const { data } = await api.put<{ legs: ShipmentLeg[] }>(`/shipments/${id}/legs`, { legs });
+    return data.legs;
+  } catch (error) {
+    console.error('Error saving shipment legs:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Replace the pieces of a shipment
+ * Returns the saved pieces and the shipment with recalculated weights
+ */
+export async function saveShipmentPieces(
+  id: string,
+  pieces: ShipmentPieceFormData[]
+): Promise<{ pieces: ShipmentPiece[]; shipment: Shipment }> {
+  try {
+    const { data } = await api.put<{ pieces: ShipmentPiece[]; shipment: Shipment }>(
+      `/shipments/${id}/pieces`,
+      { pieces }
+    );
+    return data;
+  } catch (error) {
+    console.error('Error saving shipment pieces:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Update the status of a single leg; delaying or cancelling a leg needs a reason
+ */
+export async function updateLegStatus(
+  id: string,
+  legId: number,
+  status: string,
+  reason?: StatusReasonData
+): Promise<{ leg: ShipmentLeg; shipmentStatus: string | null }> {
+  try {
+    const { data } = await api.patch(`/shipments/${id}/legs/${legId}`, { status, ...reason });
+    return data;
+  } catch (error) {
+    console.error('Error updating leg status:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Import shipments from CSV or JSON file content
+ * With dryRun the rows are only validated and nothing is created
+ */
+export async function importShipments(
+  format: ImportFormat,
+  content: string,
+  dryRun: boolean
+): Promise<ImportSummary> {
+  try {
+    const { data } = await api.post<ImportSummary>('/shipments/import', { format, content, dryRun });
+    return data;
+  } catch (error) {
+    console.error('Error importing shipments:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Apply a status change, field update or delete to many shipments
+ * The result reports success or failure for each shipment
+ */
+export async function bulkShipmentAction(request: BulkActionRequest): Promise<BulkActionResult> {
+  try {
+    const { data } = await api.post<BulkActionResult>('/shipments/bulk', request);
+    return data;
+  } catch (error) {
+    console.error('Error applying bulk action:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
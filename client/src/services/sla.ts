@@ -0,0 +1,71 @@
+/**
+ * SLA Service
+ * Service level targets, the SLA summary and escalations of predicted breaches
+ */
+
+import api, { getErrorMessage } from './api';
+import { SlaEscalation, SlaSummary, SlaTarget, SlaTargetFormData } from '../types';
+
+/**
+ * Get the account's SLA targets
+ */
+export async function getSlaTargets(): Promise<SlaTarget[]> {
+  try {
+    const { data } = await api.get<{ targets: SlaTarget[] }>('/sla/targets');
+    return data.targets;
+  } catch (error) {
+    console.error('Error fetching SLA targets:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Create an SLA target for a lane and service level
+ */
+export async function createSlaTarget(target: SlaTargetFormData): Promise<SlaTarget> {
+  try {
+    const { data } = await api.post<{ target: SlaTarget }>('/sla/targets', target);
+    return data.target;
+  } catch (error) {
+    console.error('Error creating SLA target:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Delete an SLA target
+ */
+export async function deleteSlaTarget(id: number): Promise<void> {
+  try {
+    await api.delete(`/sla/targets/${id}`);
+  } catch (error) {
+    console.error('Error deleting SLA target:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Get open shipments by SLA status, compliance, at-risk shipments and open escalations
+ */
+export async function getSlaSummary(): Promise<SlaSummary> {
+  try {
+    const { data } = await api.get<SlaSummary>('/sla/summary');
+    return data;
+  } catch (error) {
+    console.error('Error fetching SLA summary:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Acknowledge an escalation
+ */
+export async function acknowledgeEscalation(id: number): Promise<SlaEscalation> {
+  try {
+    const { data } = await api.post<{ escalation: SlaEscalation }>(`/sla/escalations/${id}/acknowledge`);
+    return data.escalation;
+  } catch (error) {
+    console.error('Error acknowledging escalation:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
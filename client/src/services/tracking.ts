@@ -3,8 +3,9 @@
  * Flight tracking and shipment assignment
  */
 
+import axios from 'axios';
 import api, { getErrorMessage } from './api';
-import { FlightData } from '../types';
+import { FlightData, FlightTrack } from '../types';
 
 interface FlightsResponse {
   flights: FlightData[];
@@ -67,6 +68,26 @@ export async function getFlightByIcao(icao24: string): Promise<FlightData | null
   }
 }
 
+/**
+ * Get the recorded position history of a flight
+ * @param hours - How far back to go
+ * @returns null when the flight has never been tracked
+ */
+export async function getFlightTrack(icao24: string, hours: number = 24): Promise<FlightTrack | null> {
+  try {
+    const { data } = await api.get<{ track: FlightTrack }>(`/tracking/flights/${icao24}/track`, {
+      params: { hours },
+    });
+    return data.track;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    console.error('Error fetching flight track:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
 /**
  * Get available flights for assignment
  */
@@ -81,16 +102,18 @@ export async function getAvailableFlights(): Promise<FlightData[]> {
 }
 
 /**
- * Assign a shipment to a flight
+ * Assign a shipment (or one of its legs) to a flight
  */
 export async function assignShipmentToFlight(
   shipmentId: string,
-  flightIcao24: string
+  flightIcao24: string,
+  legId?: number
 ): Promise<FlightData> {
   try {
     const { data } = await api.post<{ message: string; flight: FlightData }>('/tracking/assign', {
       shipmentId,
       flightIcao24,
+      legId,
     });
     return data.flight;
   } catch (error) {
@@ -112,3 +135,22 @@ export async function getShipmentTracking(shipmentId: string): Promise<unknown>
   }
 }
 
+/**
+ * Get the track of the flight assigned to a shipment since the assignment
+ * @param legId - The flight of one leg (default: the latest assignment)
+ * @returns null when the shipment has no assigned flight
+ */
+export async function getShipmentFlightTrack(shipmentId: string, legId?: number): Promise<FlightTrack | null> {
+  try {
+    const { data } = await api.get<{ track: FlightTrack }>(`/tracking/shipment/${shipmentId}/track`, {
+      params: { legId },
+    });
+    return data.track;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    console.error('Error fetching shipment flight track:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import api, { getErrorMessage } from './api';
-import { WeatherData, WeatherAlert } from '../types';
+import { ExpectedWeather, ImpactLevel, WeatherData, WeatherAlert, TemperatureExcursion } from '../types';
 
 interface WeatherResponse {
   weather: WeatherData;
@@ -13,17 +13,40 @@ interface WeatherResponse {
   timestamp: string;
 }
 
+interface RouteWeatherSample {
+  index: number;
+  lat: number;
+  lon: number;
+  fraction: number;
+  distanceKm: number;
+  expectedAt: string | null;
+  weather: WeatherData | null;
+}
+
+interface RouteWeatherSegment {
+  fromIndex: number;
+  toIndex: number;
+  distanceKm: number;
+  impact: string | null;
+  delayFactor: number;
+}
+
 interface RouteWeatherResponse {
   shipmentId: string;
   route: {
-    origin: { lat: number | null; lon: number | null };
-    destination: { lat: number | null; lon: number | null };
+    origin: { lat: number; lon: number };
+    destination: { lat: number; lon: number };
+    distanceKm: number;
+    departure: string | null;
+    arrival: string | null;
   };
   impact: {
     maxImpact: string;
     averageDelayFactor: number;
     estimatedDelayMinutes: number;
   };
+  samples: RouteWeatherSample[];
+  segments: RouteWeatherSegment[];
   conditions: WeatherData[];
   timestamp: string;
 }
@@ -78,6 +101,12 @@ export async function getRouteWeather(shipmentId: string): Promise<RouteWeatherR
  */
 export async function getWeatherImpact(shipmentId: string): Promise<{
   currentWeather: { origin: WeatherData | null; destination: WeatherData | null };
+  expectedWeather: { origin: ExpectedWeather | null; destination: ExpectedWeather | null };
+  impact: {
+    current: { origin: ImpactLevel | null; destination: ImpactLevel | null };
+    expected: { origin: ImpactLevel | null; destination: ImpactLevel | null };
+  };
+  temperatureExcursions: TemperatureExcursion[];
   historicalImpacts: Array<{
     id: number;
     impact_type: string;
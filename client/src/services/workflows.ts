@@ -0,0 +1,45 @@
+/**
+ * Workflows Service
+ * Shipment status workflow for the current account
+ */
+
+import api, { getErrorMessage } from './api';
+import { StatusReasonCategory, StatusWorkflow } from '../types';
+
+interface WorkflowResponse {
+  workflow: StatusWorkflow;
+}
+
+/**
+ * Get the status workflow in effect for the current user
+ */
+export async function getWorkflow(): Promise<StatusWorkflow> {
+  try {
+    const { data } = await api.get<WorkflowResponse>('/workflows');
+    return data.workflow;
+  } catch (error) {
+    console.error('Error fetching status workflow:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Get the reason categories for delays and cancellations
+ */
+export async function getStatusReasons(): Promise<StatusReasonCategory[]> {
+  try {
+    const { data } = await api.get<{ reasons: StatusReasonCategory[] }>('/workflows/reasons');
+    return data.reasons;
+  } catch (error) {
+    console.error('Error fetching status reasons:', error);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Look up a status definition, falling back to a readable label
+ */
+export function getStatusLabel(workflow: StatusWorkflow | null, status: string): string {
+  const definition = workflow?.statuses.find((s) => s.name === status);
+  return definition?.label || status.replace(/_/g, ' ');
+}
@@ -7,6 +7,57 @@ export interface User {
   id: string;
   email: string;
   fullName?: string;
+  organizationId?: string;
+  role?: Role;
+  permissions?: Permission[];
+}
+
+// Organization types
+export type Role = 'admin' | 'dispatcher' | 'viewer';
+
+export type Permission =
+  | 'shipments:read'
+  | 'shipments:write'
+  | 'shipments:delete'
+  | 'reports:read'
+  | 'analytics:read'
+  | 'settings:manage'
+  | 'organization:manage';
+
+// How flight data changes shipment statuses: never, as a proposal to apply, or automatically
+export type AutoStatusMode = 'off' | 'propose' | 'apply';
+
+export interface Organization {
+  id: string;
+  name: string;
+  auto_status: AutoStatusMode;
+  created_at: string;
+}
+
+export interface OrganizationMember {
+  organization_id: string;
+  user_id: string;
+  email: string;
+  role: Role;
+  created_at: string;
+}
+
+export interface OrganizationInvite {
+  id: number;
+  organization_id: string;
+  email: string;
+  role: Role;
+  invited_by: string | null;
+  created_at: string;
+  organizations?: { name: string } | null;
+}
+
+export interface OrganizationDetails {
+  organization: Organization;
+  members: OrganizationMember[];
+  invites: OrganizationInvite[];
+  role: Role;
+  permissions: Permission[];
 }
 
 export interface AuthSession {
@@ -26,21 +77,104 @@ export interface Shipment {
   destination: string;
   dest_lat: number | null;
   dest_lon: number | null;
+  origin_iata?: string | null;
+  dest_iata?: string | null;
   status: ShipmentStatusType;
   estimated_arrival: string | null;
   cargo_type: string | null;
   weight_kg: number | null;
+  total_pieces?: number | null;
+  volume_m3?: number | null;
+  volumetric_weight_kg?: number | null;
+  chargeable_weight_kg?: number | null;
+  awb_number?: string | null;
+  tracking_pin?: string | null;
+  temp_min_c?: number | null;
+  temp_max_c?: number | null;
+  cold_chain_exception_at?: string | null;
+  customs_status?: CustomsStatus | null;
+  service_level?: ServiceLevel;
+  sla_due_at?: string | null;
+  sla_status?: SlaStatus | null;
+  sla_slack_hours?: number | null;
+  sla_evaluated_at?: string | null;
+  proposed_status?: string | null;
+  proposed_status_notes?: string | null;
+  proposed_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
-export type ShipmentStatusType = 
-  | 'pending' 
-  | 'departed' 
-  | 'in_transit' 
-  | 'arrived' 
-  | 'delayed' 
-  | 'cancelled';
+/**
+ * Status names come from the account's status workflow, so custom
+ * statuses such as 'customs_hold' are allowed alongside the built-in ones
+ */
+export type ShipmentStatusType = string;
+
+export interface StatusDefinition {
+  name: string;
+  label: string;
+  description: string;
+  color: string;
+  icon: string;
+  priority: number;
+  transitions: string[];
+  active?: boolean;
+  requiresReason?: boolean;
+}
+
+export interface StatusWorkflow {
+  name: string;
+  initialStatus: string;
+  statuses: StatusDefinition[];
+}
+
+/**
+ * Reason categories for delays and cancellations, grouped like the IATA delay codes
+ */
+export type StatusReasonCode =
+  | 'weather'
+  | 'mechanical'
+  | 'customs'
+  | 'capacity'
+  | 'documentation'
+  | 'late_acceptance'
+  | 'ground_handling'
+  | 'air_traffic'
+  | 'airport'
+  | 'security'
+  | 'customer_request'
+  | 'other';
+
+export interface StatusReasonCategory {
+  code: StatusReasonCode;
+  label: string;
+  iata_codes: string | null;
+}
+
+export interface StatusReasonData {
+  reason_code: StatusReasonCode;
+  reason_text?: string;
+}
+
+export interface ShipmentLeg {
+  id: number;
+  shipment_id: string;
+  sequence: number;
+  origin: string;
+  origin_lat: number | null;
+  origin_lon: number | null;
+  destination: string;
+  dest_lat: number | null;
+  dest_lon: number | null;
+  planned_departure: string | null;
+  planned_arrival: string | null;
+  actual_departure: string | null;
+  actual_arrival: string | null;
+  flight_id: number | null;
+  status: string;
+  tracked_flights?: { icao24: string; callsign: string | null } | null;
+}
 
 export interface TrackingEvent {
   id: number;
@@ -51,6 +185,9 @@ export interface TrackingEvent {
   longitude: number | null;
   timestamp: string;
   notes: string | null;
+  reason_code: StatusReasonCode | null;
+  reason_text: string | null;
+  automatic?: boolean;
 }
 
 // Flight types
@@ -71,13 +208,38 @@ export interface FlightData {
   displayName: string;
 }
 
+// Recorded position of a tracked flight (meters, meters per second)
+export interface FlightTrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  velocity: number;
+  heading: number;
+  vertical_rate: number;
+  on_ground: boolean;
+  recorded_at: string;
+}
+
+// Position history of a flight; long tracks are thinned out, distance and duration cover all points
+export interface FlightTrack {
+  icao24: string;
+  callsign: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+  durationMinutes: number;
+  distanceKm: number;
+  pointCount: number;
+  points: FlightTrackPoint[];
+}
+
 // Weather types
 export interface WeatherData {
   type: string;
-  temperature: number;
+  /** Null when the report gave none (airport reports, TAF forecasts) */
+  temperature: number | null;
   description: string;
   windSpeed: number;
-  humidity: number;
+  humidity: number | null;
   impact: ImpactLevel;
   delayFactor: number;
   shouldGround: boolean;
@@ -87,6 +249,15 @@ export interface WeatherData {
 
 export type ImpactLevel = 'none' | 'low' | 'medium' | 'high' | 'critical';
 
+/**
+ * Forecast for the time a shipment is expected at its origin or destination;
+ * weather is null beyond the 5-day forecast
+ */
+export interface ExpectedWeather {
+  expectedAt: string;
+  weather: WeatherData | null;
+}
+
 export interface WeatherAlert {
   shipmentId: string;
   trackingNumber: string;
@@ -104,6 +275,9 @@ export interface SearchCriteria {
   dateFrom?: string;
   dateTo?: string;
   cargoType?: string;
+  awbNumber?: string;
+  minChargeableWeight?: number;
+  maxChargeableWeight?: number;
 }
 
 export interface SearchResult {
@@ -137,6 +311,13 @@ export type ReportFormat = 'csv' | 'json' | 'html';
 export type ReportType = 'shipments' | 'weather-impact' | 'performance';
 
 // Form types
+export interface ShipmentLegFormData {
+  origin: string;
+  destination: string;
+  planned_departure?: string;
+  planned_arrival?: string;
+}
+
 export interface ShipmentFormData {
   origin: string;
   origin_lat?: number;
@@ -144,9 +325,442 @@ export interface ShipmentFormData {
   destination: string;
   dest_lat?: number;
   dest_lon?: number;
+  origin_iata?: string;
+  dest_iata?: string;
   cargo_type?: string;
   weight_kg?: number;
   estimated_arrival?: string;
+  awb_number?: string;
+  awb_prefix?: string;
+  tracking_pin?: string;
+  legs?: ShipmentLegFormData[];
+  pieces?: ShipmentPieceFormData[];
+  dangerous_goods?: DangerousGoodsFormData[];
+  temp_min_c?: number;
+  temp_max_c?: number;
+  service_level?: ServiceLevel;
+}
+
+// Piece types
+export type PackagingType = 'box' | 'crate' | 'pallet' | 'drum' | 'envelope' | 'bag' | 'other';
+
+export interface ShipmentPieceFormData {
+  quantity: number;
+  length_cm: number;
+  width_cm: number;
+  height_cm: number;
+  weight_kg: number;
+  packaging_type: PackagingType;
+}
+
+export interface ShipmentPiece extends ShipmentPieceFormData {
+  id: number;
+  shipment_id: string;
+  created_at: string;
+}
+
+// Dangerous goods types
+export type PackingGroup = 'I' | 'II' | 'III';
+
+export interface DangerousGoodsFormData {
+  un_number: string;
+  proper_shipping_name: string;
+  class_division: string;
+  packing_group: PackingGroup | null;
+  quantity: number;
+  cargo_aircraft_only: boolean;
+}
+
+export interface DangerousGoodsItem extends DangerousGoodsFormData {
+  id: number;
+  shipment_id: string;
+  unit: string | null;
+  created_at: string;
+}
+
+export interface DangerousGoodsCheck {
+  accepted: boolean;
+  issues: string[];
+}
+
+export interface DangerousGoodsDeclaration {
+  items: DangerousGoodsItem[];
+  check: DangerousGoodsCheck;
+}
+
+export interface DangerousGoodsReference {
+  un_number: string;
+  proper_shipping_name: string;
+  class_division: string;
+  subsidiary_risks: string[];
+  unit: 'kg' | 'L';
+  limits: Partial<Record<PackingGroup | 'none', { passenger: number | null; cargo: number | null }>>;
+}
+
+// Airport types
+export interface Airport {
+  iata: string;
+  icao: string;
+  name: string;
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  elevation_ft: number;
+  timezone: string;
+  label: string;
+}
+
+export interface AirportBackfillResult {
+  checked: number;
+  resolved: { id: string; tracking_number: string; origin_iata: string | null; dest_iata: string | null }[];
+  unresolved: { id: string; tracking_number: string; field: 'origin' | 'destination'; value: string }[];
+  dryRun: boolean;
+}
+
+// Cold chain types
+export interface TemperatureReadingFormData {
+  temperature_c: number;
+  recorded_at?: string;
+  location?: string;
+  notes?: string;
+}
+
+export interface TemperatureReading {
+  id: number;
+  shipment_id: string;
+  recorded_by: string;
+  temperature_c: number;
+  recorded_at: string;
+  location: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface TemperatureExcursion {
+  source: 'origin_weather' | 'destination_weather' | 'reading';
+  location: string;
+  temperature_c: number;
+  temp_min_c: number;
+  temp_max_c: number;
+  deviation_c: number;
+  severity: ImpactLevel;
+}
+
+export interface WeatherImpactRecord {
+  id: number;
+  shipment_id: string;
+  impact_type: string;
+  description: string | null;
+  severity: ImpactLevel | null;
+  weather_condition: string | null;
+  recorded_at: string;
+}
+
+export interface ColdChain {
+  range: { temp_min_c: number; temp_max_c: number } | null;
+  exception_at: string | null;
+  readings: TemperatureReading[];
+  excursions: WeatherImpactRecord[];
+}
+
+// Customs types
+export type CustomsStatus = 'documents_submitted' | 'under_review' | 'held' | 'released' | 'duties_paid';
+
+export interface CustomsStepFormData {
+  status: CustomsStatus;
+  broker_reference?: string;
+  occurred_at?: string;
+  notes?: string;
+  hold_shipment?: boolean;
+}
+
+export interface CustomsStep {
+  id: number;
+  shipment_id: string;
+  recorded_by: string;
+  status: CustomsStatus;
+  broker_reference: string | null;
+  occurred_at: string;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface CustomsClearance {
+  status: CustomsStatus | null;
+  broker_reference: string | null;
+  next_statuses: CustomsStatus[];
+  dwell_hours: number | null;
+  steps: CustomsStep[];
+}
+
+// Service level agreement types
+export type ServiceLevel = 'standard' | 'express' | 'priority';
+
+export type SlaStatus = 'on_track' | 'at_risk' | 'breach_predicted' | 'breached' | 'met';
+
+export interface SlaTargetFormData {
+  origin: string;
+  destination: string;
+  /** A service level, or '*' for any */
+  service_level: ServiceLevel | '*';
+  transit_hours: number;
+  at_risk_hours?: number;
+}
+
+export interface SlaTarget extends SlaTargetFormData {
+  id: number;
+  at_risk_hours: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SlaEscalation {
+  id: number;
+  shipment_id: string;
+  level: number;
+  sla_status: SlaStatus;
+  notify_role: Role;
+  action: string;
+  slack_hours: number | null;
+  due_at: string;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+}
+
+export interface SlaSummary {
+  counts: Record<SlaStatus, number>;
+  compliance: { met: number; breached: number; percentage: number | null };
+  atRisk: Pick<Shipment,
+    'id' | 'tracking_number' | 'origin' | 'destination' | 'status' | 'service_level' |
+    'estimated_arrival' | 'sla_due_at' | 'sla_status' | 'sla_slack_hours'>[];
+  escalations: (SlaEscalation & { tracking_number: string })[];
+}
+
+// Quote types
+export type WeightBreak = 'minimum' | '-45' | '+45' | '+100' | '+300';
+
+export type QuoteStatus = 'quoted' | 'accepted' | 'converted';
+
+export interface RateCardFormData {
+  origin: string;
+  destination: string;
+  currency: string;
+  minimum_charge: number;
+  rate_minus_45: number;
+  rate_plus_45: number;
+  rate_plus_100: number;
+  rate_plus_300: number;
+  surcharges: Record<string, number>;
+}
+
+export interface RateCard extends RateCardFormData {
+  id: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QuoteRequest {
+  origin: string;
+  destination: string;
+  cargo_type?: string;
+  weight_kg?: number;
+  pieces?: ShipmentPieceFormData[];
+}
+
+export interface Quote {
+  id: string;
+  rate_card_id: number | null;
+  origin: string;
+  destination: string;
+  cargo_type: string | null;
+  pieces: ShipmentPieceFormData[];
+  weight_kg: number;
+  volumetric_weight_kg: number | null;
+  chargeable_weight_kg: number;
+  weight_break: WeightBreak;
+  rate_per_kg: number;
+  freight_charge: number;
+  surcharge_percent: number;
+  surcharge: number;
+  total: number;
+  currency: string;
+  status: QuoteStatus;
+  valid_until: string;
+  shipment_id: string | null;
+  created_at: string;
+}
+
+// Public tracking types (customer view without an account)
+export interface PublicMilestone {
+  status: string;
+  label: string;
+  location: string | null;
+  timestamp: string;
+}
+
+export interface PublicFlightPosition {
+  callsign: string | null;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  speed: number;
+  heading: number;
+  on_ground: boolean;
+  last_updated: string;
+  heading_to: string;
+  eta: string | null;
+}
+
+export interface PublicTracking {
+  tracking_number: string;
+  awb_number: string | null;
+  origin: string;
+  destination: string;
+  total_pieces: number | null;
+  status: {
+    name: string;
+    label?: string;
+    description: string;
+    color: string;
+    icon: string;
+  };
+  estimated_arrival: string | null;
+  route: { sequence: number; origin: string; destination: string; status: string }[];
+  milestones: PublicMilestone[];
+  flight: PublicFlightPosition | null;
+  updated_at: string;
+}
+
+// Shipment document types
+export type DocumentType = 'awb' | 'commercial_invoice' | 'packing_list' | 'certificate_of_origin' | 'other';
+
+export interface ShipmentDocument {
+  id: string;
+  shipment_id: string;
+  uploaded_by: string;
+  uploaded_by_email: string | null;
+  document_type: DocumentType;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+// Proof of delivery types
+export type DeliveryCondition = 'good' | 'damaged' | 'shortage' | 'damaged_and_shortage';
+
+export interface DeliveryProofFormData {
+  recipient_name: string;
+  signature: string;
+  delivered_at?: string;
+  location?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  photos?: string[];
+  condition: DeliveryCondition;
+  condition_notes?: string;
+}
+
+export interface DeliveryProof {
+  id: string;
+  shipment_id: string;
+  tracking_event_id: number;
+  recorded_by: string;
+  recorded_by_email: string | null;
+  recipient_name: string;
+  delivered_at: string;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  condition: DeliveryCondition;
+  condition_notes: string | null;
+  signature: string | null;
+  photos: string[];
+  created_at: string;
+}
+
+// Air waybill types
+export interface AwbStock {
+  id: number;
+  airline_prefix: string;
+  airline_name: string | null;
+  range_start: number;
+  range_end: number;
+  next_serial: number;
+  remaining: number;
+  next_awb: string | null;
+  created_at: string;
+}
+
+// Audit log types
+export type AuditAction = 'create' | 'update' | 'assign' | 'delete';
+
+export interface AuditLogEntry {
+  id: number;
+  shipment_id: string;
+  /** null for changes made by background jobs (user_email is 'system') */
+  user_id: string | null;
+  user_email: string | null;
+  action: AuditAction;
+  field: string | null;
+  old_value: unknown;
+  new_value: unknown;
+  created_at: string;
+}
+
+// Bulk action types
+export type BulkActionType = 'status' | 'update' | 'delete';
+
+export interface BulkActionRequest {
+  ids: string[];
+  action: BulkActionType;
+  status?: string;
+  notes?: string;
+  reason_code?: StatusReasonCode;
+  reason_text?: string;
+  updates?: {
+    cargo_type?: string;
+    weight_kg?: number;
+    estimated_arrival?: string;
+  };
+}
+
+export interface BulkActionResult {
+  action: BulkActionType;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: {
+    id: string;
+    success: boolean;
+    error?: string;
+    status?: string;
+  }[];
+}
+
+// Bulk import types
+export type ImportFormat = 'csv' | 'json';
+
+export interface ImportRowResult {
+  row: number;
+  status: 'valid' | 'invalid' | 'duplicate' | 'created';
+  errors: string[];
+  origin?: string;
+  destination?: string;
+  shipment_id?: string;
+  tracking_number?: string;
+}
+
+export interface ImportSummary {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  created: number;
+  rows: ImportRowResult[];
 }
 
 // API Response types
@@ -167,12 +781,12 @@ export interface RouteData {
   count: number;
 }
 
-export interface StatusBreakdown {
-  pending: number;
-  departed: number;
-  in_transit: number;
-  arrived: number;
-  delayed: number;
-  cancelled: number;
+export type StatusBreakdown = Record<ShipmentStatusType, number>;
+
+export interface DelayReasonData {
+  code: StatusReasonCode;
+  label: string;
+  count: number;
+  byStatus: Record<ShipmentStatusType, number>;
 }
 
@@ -147,3 +147,28 @@ export function validateDateRange(dateFrom?: string, dateTo?: string): Validatio
   };
 }
 
+/**
+ * Validate an IATA air waybill number (3-digit prefix, 7-digit serial, mod-7 check digit)
+ */
+export function validateAwbNumber(value: string): ValidationResult {
+  const digits = value.replace(/[\s-]/g, '');
+
+  if (!/^\d{11}$/.test(digits)) {
+    return { isValid: false, errors: ['AWB number must be 11 digits (e.g. 176-12345675)'] };
+  }
+
+  const expected = parseInt(digits.substring(3, 10), 10) % 7;
+  if (parseInt(digits.substring(10), 10) !== expected) {
+    return { isValid: false, errors: [`AWB check digit is invalid (expected ${expected})`] };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+/**
+ * Format a stored AWB number for display, e.g. "17612345675" -> "176-12345675"
+ */
+export function formatAwb(value: string | null | undefined): string {
+  if (!value) return '';
+  return value.length === 11 ? `${value.substring(0, 3)}-${value.substring(3)}` : value;
+}
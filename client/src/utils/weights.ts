@@ -0,0 +1,44 @@
+/**
+ * Weight utilities
+ * Preview of the volumetric and chargeable weight the server calculates
+ */
+
+import { ShipmentPieceFormData } from '../types';
+
+/** IATA volumetric divisor: 6000 cm³ per kg */
+export const VOLUMETRIC_DIVISOR = 6000;
+
+export interface PieceTotals {
+  totalPieces: number;
+  volumeM3: number;
+  actualWeightKg: number;
+  volumetricWeightKg: number;
+  chargeableWeightKg: number;
+}
+
+/**
+ * Total the piece lines; chargeable weight is the greater of actual and
+ * volumetric weight, rounded up to the next 0.5 kg
+ */
+export function calculatePieceTotals(pieces: ShipmentPieceFormData[]): PieceTotals {
+  let totalPieces = 0;
+  let volumeCm3 = 0;
+  let actualWeightKg = 0;
+
+  for (const piece of pieces) {
+    const quantity = piece.quantity || 0;
+    totalPieces += quantity;
+    volumeCm3 += (piece.length_cm || 0) * (piece.width_cm || 0) * (piece.height_cm || 0) * quantity;
+    actualWeightKg += (piece.weight_kg || 0) * quantity;
+  }
+
+  const volumetricWeightKg = volumeCm3 / VOLUMETRIC_DIVISOR;
+
+  return {
+    totalPieces,
+    volumeM3: Math.round(volumeCm3 / 1000) / 1000,
+    actualWeightKg: Math.round(actualWeightKg * 100) / 100,
+    volumetricWeightKg: Math.round(volumetricWeightKg * 100) / 100,
+    chargeableWeightKg: Math.ceil(Math.max(actualWeightKg, volumetricWeightKg) * 2) / 2,
+  };
+}
@@ -8,10 +8,41 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 -- TABLES
 -- =====================================================
 
+-- Organizations (teams sharing shipments and settings)
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL,
+  -- Status changes from live flight data (see FlightProgress): off, propose or apply
+  auto_status VARCHAR(10) NOT NULL DEFAULT 'propose' CHECK (auto_status IN ('off', 'propose', 'apply')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Organization members (each user belongs to exactly one organization)
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) UNIQUE NOT NULL,
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'dispatcher', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+-- Organization invitations (accepted when the invited email signs in)
+CREATE TABLE IF NOT EXISTS organization_invites (
+  id SERIAL PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'dispatcher', 'viewer')),
+  invited_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (organization_id, email)
+);
+
 -- Shipments table
 CREATE TABLE IF NOT EXISTS shipments (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID REFERENCES auth.users(id) NOT NULL,
+  organization_id UUID REFERENCES organizations(id),
   tracking_number VARCHAR(50) UNIQUE NOT NULL,
   origin VARCHAR(255) NOT NULL,
   origin_lat DECIMAL(10, 6),
@@ -19,10 +50,33 @@ CREATE TABLE IF NOT EXISTS shipments (
   destination VARCHAR(255) NOT NULL,
   dest_lat DECIMAL(10, 6),
   dest_lon DECIMAL(10, 6),
+  -- IATA codes of the origin and destination airports (bundled airport reference table)
+  origin_iata VARCHAR(3),
+  dest_iata VARCHAR(3),
   status VARCHAR(50) DEFAULT 'pending',
   estimated_arrival TIMESTAMP WITH TIME ZONE,
   cargo_type VARCHAR(100),
   weight_kg DECIMAL(10, 2),
+  total_pieces INTEGER,
+  volume_m3 DECIMAL(10, 3),
+  volumetric_weight_kg DECIMAL(10, 2),
+  chargeable_weight_kg DECIMAL(10, 2),
+  awb_number VARCHAR(11),
+  tracking_pin VARCHAR(10),
+  import_key VARCHAR(64),
+  temp_min_c DECIMAL(5, 1),
+  temp_max_c DECIMAL(5, 1),
+  cold_chain_exception_at TIMESTAMP WITH TIME ZONE,
+  customs_status VARCHAR(30),
+  service_level VARCHAR(20) NOT NULL DEFAULT 'standard',
+  sla_due_at TIMESTAMP WITH TIME ZONE,
+  sla_status VARCHAR(20),
+  sla_slack_hours DECIMAL(8, 1),
+  sla_evaluated_at TIMESTAMP WITH TIME ZONE,
+  -- Status the assigned flight's data calls for, waiting for a user to apply it
+  proposed_status VARCHAR(50),
+  proposed_status_notes TEXT,
+  proposed_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -43,6 +97,20 @@ CREATE TABLE IF NOT EXISTS tracked_flights (
   last_updated TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Position history of tracked flights, one row per refresh (replays the flight's track)
+CREATE TABLE IF NOT EXISTS flight_positions (
+  id BIGSERIAL PRIMARY KEY,
+  flight_id INTEGER REFERENCES tracked_flights(id) ON DELETE CASCADE NOT NULL,
+  latitude DECIMAL(10, 6) NOT NULL,
+  longitude DECIMAL(10, 6) NOT NULL,
+  altitude DECIMAL(10, 2),
+  velocity DECIMAL(10, 2),
+  heading DECIMAL(5, 2),
+  vertical_rate DECIMAL(10, 2),
+  on_ground BOOLEAN DEFAULT false,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
 -- Weather data (cached from OpenWeatherMap API)
 CREATE TABLE IF NOT EXISTS weather_data (
   id SERIAL PRIMARY KEY,
@@ -96,55 +164,367 @@ CREATE TABLE IF NOT EXISTS tracking_events (
   latitude DECIMAL(10, 6),
   longitude DECIMAL(10, 6),
   timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  notes TEXT
+  notes TEXT,
+  -- Reason category of a delay or cancellation (see StatusReason) and optional free text
+  reason_code VARCHAR(30),
+  reason_text TEXT,
+  -- Derived from live flight data rather than entered by a user
+  automatic BOOLEAN NOT NULL DEFAULT false
+);
+
+-- Shipment legs (ordered hops of a multi-leg shipment, e.g. JFK -> FRA -> NBO)
+CREATE TABLE IF NOT EXISTS shipment_legs (
+  id SERIAL PRIMARY KEY,
+  shipment_id UUID REFERENCES shipments(id) ON DELETE CASCADE NOT NULL,
+  sequence INTEGER NOT NULL,
+  origin VARCHAR(255) NOT NULL,
+  origin_lat DECIMAL(10, 6),
+  origin_lon DECIMAL(10, 6),
+  destination VARCHAR(255) NOT NULL,
+  dest_lat DECIMAL(10, 6),
+  dest_lon DECIMAL(10, 6),
+  planned_departure TIMESTAMP WITH TIME ZONE,
+  planned_arrival TIMESTAMP WITH TIME ZONE,
+  actual_departure TIMESTAMP WITH TIME ZONE,
+  actual_arrival TIMESTAMP WITH TIME ZONE,
+  flight_id INTEGER REFERENCES tracked_flights(id),
+  status VARCHAR(50) DEFAULT 'pending',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (shipment_id, sequence)
+);
+
+-- Shipment pieces (lines of identical pieces; drive volumetric and chargeable weight)
+CREATE TABLE IF NOT EXISTS shipment_pieces (
+  id SERIAL PRIMARY KEY,
+  shipment_id UUID REFERENCES shipments(id) ON DELETE CASCADE NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  length_cm DECIMAL(8, 2) NOT NULL CHECK (length_cm > 0),
+  width_cm DECIMAL(8, 2) NOT NULL CHECK (width_cm > 0),
+  height_cm DECIMAL(8, 2) NOT NULL CHECK (height_cm > 0),
+  weight_kg DECIMAL(10, 2) NOT NULL CHECK (weight_kg > 0),
+  packaging_type VARCHAR(20) NOT NULL DEFAULT 'box'
+    CHECK (packaging_type IN ('box', 'crate', 'pallet', 'drum', 'envelope', 'bag', 'other')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Dangerous goods lines of hazardous shipments (checked against the bundled reference table)
+CREATE TABLE IF NOT EXISTS shipment_dangerous_goods (
+  id SERIAL PRIMARY KEY,
+  shipment_id UUID REFERENCES shipments(id) ON DELETE CASCADE NOT NULL,
+  un_number VARCHAR(6) NOT NULL,
+  proper_shipping_name VARCHAR(255) NOT NULL,
+  class_division VARCHAR(5) NOT NULL,
+  packing_group VARCHAR(3) CHECK (packing_group IN ('I', 'II', 'III')),
+  quantity DECIMAL(10, 3) NOT NULL CHECK (quantity > 0),
+  unit VARCHAR(2),
+  cargo_aircraft_only BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Temperature readings logged for perishable shipments (checked against the shipment's range)
+CREATE TABLE IF NOT EXISTS temperature_readings (
+  id SERIAL PRIMARY KEY,
+  shipment_id UUID REFERENCES shipments(id) ON DELETE CASCADE NOT NULL,
+  recorded_by UUID REFERENCES auth.users(id) NOT NULL,
+  temperature_c DECIMAL(5, 1) NOT NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  location VARCHAR(255),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Customs clearance steps (documents submitted, under review, held, released, duties paid)
+CREATE TABLE IF NOT EXISTS customs_events (
+  id SERIAL PRIMARY KEY,
+  shipment_id UUID REFERENCES shipments(id) ON DELETE CASCADE NOT NULL,
+  recorded_by UUID REFERENCES auth.users(id) NOT NULL,
+  status VARCHAR(30) NOT NULL
+    CHECK (status IN ('documents_submitted', 'under_review', 'held', 'released', 'duties_paid')),
+  broker_reference VARCHAR(50),
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Shipment assignments (link shipments to real flights)
 CREATE TABLE IF NOT EXISTS shipment_assignments (
   id SERIAL PRIMARY KEY,
   shipment_id UUID REFERENCES shipments(id) ON DELETE CASCADE,
+  leg_id INTEGER REFERENCES shipment_legs(id) ON DELETE CASCADE,
   flight_id INTEGER REFERENCES tracked_flights(id),
   assigned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Per-organization shipment status workflows (custom statuses and transitions)
+CREATE TABLE IF NOT EXISTS status_workflows (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  organization_id UUID REFERENCES organizations(id) UNIQUE,
+  name VARCHAR(100) NOT NULL DEFAULT 'custom',
+  initial_status VARCHAR(50) NOT NULL DEFAULT 'pending',
+  statuses JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Air waybill stock (blocks of AWB serials issued by an airline)
+-- Serials are 7-digit bases; the mod-7 check digit is appended on allocation
+CREATE TABLE IF NOT EXISTS awb_stock (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  organization_id UUID REFERENCES organizations(id),
+  airline_prefix CHAR(3) NOT NULL,
+  airline_name VARCHAR(100),
+  range_start INTEGER NOT NULL CHECK (range_start BETWEEN 0 AND 9999999),
+  range_end INTEGER NOT NULL CHECK (range_end BETWEEN 0 AND 9999999),
+  next_serial INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (range_start <= range_end)
+);
+
+-- Rate cards (per-lane freight rates by weight break; '*' matches any location)
+CREATE TABLE IF NOT EXISTS rate_cards (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  organization_id UUID REFERENCES organizations(id),
+  origin VARCHAR(255) NOT NULL,
+  destination VARCHAR(255) NOT NULL,
+  currency CHAR(3) NOT NULL DEFAULT 'USD',
+  minimum_charge DECIMAL(10, 2) NOT NULL CHECK (minimum_charge >= 0),
+  rate_minus_45 DECIMAL(10, 2) NOT NULL CHECK (rate_minus_45 > 0),
+  rate_plus_45 DECIMAL(10, 2) NOT NULL CHECK (rate_plus_45 > 0),
+  rate_plus_100 DECIMAL(10, 2) NOT NULL CHECK (rate_plus_100 > 0),
+  rate_plus_300 DECIMAL(10, 2) NOT NULL CHECK (rate_plus_300 > 0),
+  surcharges JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (organization_id, origin, destination)
+);
+
+-- Service level targets (promised transit hours per lane and service level; '*' matches any)
+CREATE TABLE IF NOT EXISTS sla_targets (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  organization_id UUID REFERENCES organizations(id),
+  origin VARCHAR(255) NOT NULL,
+  destination VARCHAR(255) NOT NULL,
+  service_level VARCHAR(20) NOT NULL DEFAULT '*',
+  transit_hours INTEGER NOT NULL CHECK (transit_hours > 0),
+  at_risk_hours INTEGER NOT NULL DEFAULT 12 CHECK (at_risk_hours >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (organization_id, origin, destination, service_level)
+);
+
+-- SLA escalations (one row per level reached by a shipment, acknowledged by the notified role)
+CREATE TABLE IF NOT EXISTS sla_escalations (
+  id SERIAL PRIMARY KEY,
+  shipment_id UUID REFERENCES shipments(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES organizations(id),
+  level INTEGER NOT NULL CHECK (level BETWEEN 1 AND 3),
+  sla_status VARCHAR(20) NOT NULL,
+  notify_role VARCHAR(20) NOT NULL,
+  action TEXT NOT NULL,
+  slack_hours DECIMAL(8, 1),
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  acknowledged_by UUID REFERENCES auth.users(id),
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (shipment_id, level)
+);
+
+-- Freight quotes (priced from a rate card; accepted quotes convert into shipments)
+CREATE TABLE IF NOT EXISTS quotes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  organization_id UUID REFERENCES organizations(id),
+  rate_card_id INTEGER REFERENCES rate_cards(id) ON DELETE SET NULL,
+  origin VARCHAR(255) NOT NULL,
+  destination VARCHAR(255) NOT NULL,
+  cargo_type VARCHAR(100),
+  pieces JSONB NOT NULL DEFAULT '[]',
+  weight_kg DECIMAL(10, 2) NOT NULL,
+  volumetric_weight_kg DECIMAL(10, 2),
+  chargeable_weight_kg DECIMAL(10, 2) NOT NULL,
+  weight_break VARCHAR(10) NOT NULL CHECK (weight_break IN ('minimum', '-45', '+45', '+100', '+300')),
+  rate_per_kg DECIMAL(10, 2) NOT NULL,
+  freight_charge DECIMAL(12, 2) NOT NULL,
+  surcharge_percent DECIMAL(6, 2) NOT NULL DEFAULT 0,
+  surcharge DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(12, 2) NOT NULL,
+  currency CHAR(3) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'quoted' CHECK (status IN ('quoted', 'accepted', 'converted')),
+  valid_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  shipment_id UUID REFERENCES shipments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Shipment audit log (field-level change history)
+-- shipment_id has no foreign key so history survives deletion
+CREATE TABLE IF NOT EXISTS shipment_audit_log (
+  id SERIAL PRIMARY KEY,
+  shipment_id UUID NOT NULL,
+  -- NULL for changes made by background jobs (user_email is 'system')
+  user_id UUID REFERENCES auth.users(id),
+  organization_id UUID REFERENCES organizations(id),
+  user_email VARCHAR(255),
+  action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'assign', 'delete')),
+  field VARCHAR(100),
+  old_value JSONB,
+  new_value JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Shipment documents (AWB, invoices, packing lists); file contents live in document storage
+CREATE TABLE IF NOT EXISTS shipment_documents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shipment_id UUID REFERENCES shipments(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES organizations(id) NOT NULL,
+  uploaded_by UUID REFERENCES auth.users(id) NOT NULL,
+  uploaded_by_email VARCHAR(255),
+  document_type VARCHAR(30) NOT NULL
+    CHECK (document_type IN ('awb', 'commercial_invoice', 'packing_list', 'certificate_of_origin', 'other')),
+  file_name VARCHAR(255) NOT NULL,
+  content_type VARCHAR(100) NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  storage_key VARCHAR(255) UNIQUE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Proof of delivery (stored with the arrival tracking event; images live in document storage)
+CREATE TABLE IF NOT EXISTS delivery_proofs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shipment_id UUID REFERENCES shipments(id) ON DELETE CASCADE UNIQUE NOT NULL,
+  organization_id UUID REFERENCES organizations(id) NOT NULL,
+  tracking_event_id INTEGER REFERENCES tracking_events(id) ON DELETE CASCADE UNIQUE NOT NULL,
+  recorded_by UUID REFERENCES auth.users(id) NOT NULL,
+  recorded_by_email VARCHAR(255),
+  recipient_name VARCHAR(100) NOT NULL,
+  delivered_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  location VARCHAR(255),
+  latitude DECIMAL(10, 6),
+  longitude DECIMAL(10, 6),
+  condition VARCHAR(30) NOT NULL DEFAULT 'good'
+    CHECK (condition IN ('good', 'damaged', 'shortage', 'damaged_and_shortage')),
+  condition_notes TEXT,
+  signature_key VARCHAR(255) NOT NULL,
+  photo_keys JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Background jobs run by the server's scheduler
+-- A run holds the job until locked_until so only one server instance runs it at a time
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  name VARCHAR(50) PRIMARY KEY,
+  schedule VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  locked_by VARCHAR(255),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_status VARCHAR(20) CHECK (last_status IN ('running', 'succeeded', 'failed')),
+  last_error TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Run history of background jobs
+CREATE TABLE IF NOT EXISTS job_runs (
+  id SERIAL PRIMARY KEY,
+  job_name VARCHAR(50) REFERENCES scheduled_jobs(name) ON DELETE CASCADE NOT NULL,
+  instance_id VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  items_processed INTEGER,
+  error TEXT
+);
+
 -- =====================================================
 -- INDEXES for Performance
 -- =====================================================
 
 CREATE INDEX IF NOT EXISTS idx_shipments_user_id ON shipments(user_id);
+CREATE INDEX IF NOT EXISTS idx_shipments_organization_id ON shipments(organization_id);
 CREATE INDEX IF NOT EXISTS idx_shipments_status ON shipments(status);
 CREATE INDEX IF NOT EXISTS idx_shipments_tracking_number ON shipments(tracking_number);
 CREATE INDEX IF NOT EXISTS idx_shipments_created_at ON shipments(created_at);
+-- Bulk imports skip rows whose key already exists in the organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipments_import_key ON shipments(organization_id, import_key);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipments_awb_number ON shipments(organization_id, awb_number);
+CREATE INDEX IF NOT EXISTS idx_awb_stock_organization_prefix ON awb_stock(organization_id, airline_prefix);
+CREATE INDEX IF NOT EXISTS idx_quotes_organization_created ON quotes(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_shipments_sla_status ON shipments(organization_id, sla_status);
+CREATE INDEX IF NOT EXISTS idx_sla_escalations_organization_created ON sla_escalations(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_organization_members_organization_id ON organization_members(organization_id);
+CREATE INDEX IF NOT EXISTS idx_organization_invites_email ON organization_invites(email);
 CREATE INDEX IF NOT EXISTS idx_tracking_events_shipment_id ON tracking_events(shipment_id);
 CREATE INDEX IF NOT EXISTS idx_tracking_events_timestamp ON tracking_events(timestamp);
+CREATE INDEX IF NOT EXISTS idx_tracking_events_reason_code ON tracking_events(reason_code);
 CREATE INDEX IF NOT EXISTS idx_tracked_flights_last_updated ON tracked_flights(last_updated);
 CREATE INDEX IF NOT EXISTS idx_tracked_flights_icao24 ON tracked_flights(icao24);
+CREATE INDEX IF NOT EXISTS idx_flight_positions_flight_recorded ON flight_positions(flight_id, recorded_at);
 CREATE INDEX IF NOT EXISTS idx_weather_data_fetched_at ON weather_data(fetched_at);
 CREATE INDEX IF NOT EXISTS idx_weather_alerts_location ON weather_alerts(location_name);
 CREATE INDEX IF NOT EXISTS idx_weather_impacts_shipment_id ON weather_impacts(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_legs_shipment_id ON shipment_legs(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_pieces_shipment_id ON shipment_pieces(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_dangerous_goods_shipment_id ON shipment_dangerous_goods(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_temperature_readings_shipment_recorded ON temperature_readings(shipment_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_weather_impacts_type ON weather_impacts(impact_type);
+CREATE INDEX IF NOT EXISTS idx_customs_events_shipment_occurred ON customs_events(shipment_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_shipments_chargeable_weight ON shipments(organization_id, chargeable_weight_kg);
+CREATE INDEX IF NOT EXISTS idx_shipment_documents_shipment_id ON shipment_documents(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_audit_log_shipment_id ON shipment_audit_log(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_audit_log_organization_created ON shipment_audit_log(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_started ON job_runs(job_name, started_at);
 
 -- =====================================================
 -- ROW LEVEL SECURITY (RLS) Policies
 -- =====================================================
 
+-- Organizations the current user belongs to
+-- SECURITY DEFINER so policies on organization_members do not recurse
+CREATE OR REPLACE FUNCTION user_organization_ids()
+RETURNS SETOF UUID AS $$
+  SELECT organization_id FROM organization_members WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Enable RLS on organizations
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their organization
+CREATE POLICY "Members can view own organization" ON organizations
+  FOR SELECT USING (id IN (SELECT user_organization_ids()));
+
+-- Enable RLS on organization_members
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+-- Members can view the members of their organization (changes are made by the server only)
+CREATE POLICY "Members can view organization members" ON organization_members
+  FOR SELECT USING (organization_id IN (SELECT user_organization_ids()));
+
+-- Enable RLS on organization_invites (managed by the server only)
+ALTER TABLE organization_invites ENABLE ROW LEVEL SECURITY;
+
 -- Enable RLS on shipments
 ALTER TABLE shipments ENABLE ROW LEVEL SECURITY;
 
--- Users can only see their own shipments
-CREATE POLICY "Users can view own shipments" ON shipments
-  FOR SELECT USING (auth.uid() = user_id);
+-- Members can only see their organization's shipments
+CREATE POLICY "Members can view organization shipments" ON shipments
+  FOR SELECT USING (organization_id IN (SELECT user_organization_ids()));
 
--- Users can insert their own shipments
-CREATE POLICY "Users can create own shipments" ON shipments
-  FOR INSERT WITH CHECK (auth.uid() = user_id);
+-- Members can insert shipments into their organization
+CREATE POLICY "Members can create organization shipments" ON shipments
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND organization_id IN (SELECT user_organization_ids()));
 
--- Users can update their own shipments
-CREATE POLICY "Users can update own shipments" ON shipments
-  FOR UPDATE USING (auth.uid() = user_id);
+-- Members can update their organization's shipments
+CREATE POLICY "Members can update organization shipments" ON shipments
+  FOR UPDATE USING (organization_id IN (SELECT user_organization_ids()));
 
--- Users can delete their own shipments
-CREATE POLICY "Users can delete own shipments" ON shipments
-  FOR DELETE USING (auth.uid() = user_id);
+-- Members can delete their organization's shipments
+CREATE POLICY "Members can delete organization shipments" ON shipments
+  FOR DELETE USING (organization_id IN (SELECT user_organization_ids()));
 
 -- Enable RLS on tracking_events
 ALTER TABLE tracking_events ENABLE ROW LEVEL SECURITY;
@@ -153,7 +533,7 @@ ALTER TABLE tracking_events ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Users can view own tracking events" ON tracking_events
   FOR SELECT USING (
     EXISTS (
-      SELECT 1 FROM shipments WHERE shipments.id = tracking_events.shipment_id AND shipments.user_id = auth.uid()
+      SELECT 1 FROM shipments WHERE shipments.id = tracking_events.shipment_id AND shipments.organization_id IN (SELECT user_organization_ids())
     )
   );
 
@@ -161,7 +541,7 @@ CREATE POLICY "Users can view own tracking events" ON tracking_events
 CREATE POLICY "Users can create tracking events" ON tracking_events
   FOR INSERT WITH CHECK (
     EXISTS (
-      SELECT 1 FROM shipments WHERE shipments.id = tracking_events.shipment_id AND shipments.user_id = auth.uid()
+      SELECT 1 FROM shipments WHERE shipments.id = tracking_events.shipment_id AND shipments.organization_id IN (SELECT user_organization_ids())
     )
   );
 
@@ -172,7 +552,7 @@ ALTER TABLE weather_impacts ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Users can view own weather impacts" ON weather_impacts
   FOR SELECT USING (
     EXISTS (
-      SELECT 1 FROM shipments WHERE shipments.id = weather_impacts.shipment_id AND shipments.user_id = auth.uid()
+      SELECT 1 FROM shipments WHERE shipments.id = weather_impacts.shipment_id AND shipments.organization_id IN (SELECT user_organization_ids())
     )
   );
 
@@ -180,7 +560,7 @@ CREATE POLICY "Users can view own weather impacts" ON weather_impacts
 CREATE POLICY "Users can create weather impacts" ON weather_impacts
   FOR INSERT WITH CHECK (
     EXISTS (
-      SELECT 1 FROM shipments WHERE shipments.id = weather_impacts.shipment_id AND shipments.user_id = auth.uid()
+      SELECT 1 FROM shipments WHERE shipments.id = weather_impacts.shipment_id AND shipments.organization_id IN (SELECT user_organization_ids())
     )
   );
 
@@ -191,20 +571,145 @@ ALTER TABLE shipment_assignments ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Users can view own assignments" ON shipment_assignments
   FOR SELECT USING (
     EXISTS (
-      SELECT 1 FROM shipments WHERE shipments.id = shipment_assignments.shipment_id AND shipments.user_id = auth.uid()
+      SELECT 1 FROM shipments WHERE shipments.id = shipment_assignments.shipment_id AND shipments.organization_id IN (SELECT user_organization_ids())
+    )
+  );
+
+-- Enable RLS on shipment_legs
+ALTER TABLE shipment_legs ENABLE ROW LEVEL SECURITY;
+
+-- Users can view legs of their shipments
+CREATE POLICY "Users can view own shipment legs" ON shipment_legs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM shipments WHERE shipments.id = shipment_legs.shipment_id AND shipments.organization_id IN (SELECT user_organization_ids())
     )
   );
 
+-- Enable RLS on shipment_pieces
+ALTER TABLE shipment_pieces ENABLE ROW LEVEL SECURITY;
+
+-- Users can view pieces of their shipments
+CREATE POLICY "Users can view own shipment pieces" ON shipment_pieces
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM shipments WHERE shipments.id = shipment_pieces.shipment_id AND shipments.organization_id IN (SELECT user_organization_ids())
+    )
+  );
+
+-- Enable RLS on shipment_dangerous_goods
+ALTER TABLE shipment_dangerous_goods ENABLE ROW LEVEL SECURITY;
+
+-- Users can view dangerous goods of their shipments
+CREATE POLICY "Users can view own shipment dangerous goods" ON shipment_dangerous_goods
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM shipments WHERE shipments.id = shipment_dangerous_goods.shipment_id AND shipments.organization_id IN (SELECT user_organization_ids())
+    )
+  );
+
+-- Enable RLS on temperature_readings
+ALTER TABLE temperature_readings ENABLE ROW LEVEL SECURITY;
+
+-- Users can view temperature readings of their shipments
+CREATE POLICY "Users can view own temperature readings" ON temperature_readings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM shipments WHERE shipments.id = temperature_readings.shipment_id AND shipments.organization_id IN (SELECT user_organization_ids())
+    )
+  );
+
+-- Enable RLS on customs_events
+ALTER TABLE customs_events ENABLE ROW LEVEL SECURITY;
+
+-- Users can view customs steps of their shipments
+CREATE POLICY "Users can view own customs events" ON customs_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM shipments WHERE shipments.id = customs_events.shipment_id AND shipments.organization_id IN (SELECT user_organization_ids())
+    )
+  );
+
+-- Enable RLS on status_workflows
+ALTER TABLE status_workflows ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their organization's workflow (changes are made by the server only)
+CREATE POLICY "Members can view organization workflow" ON status_workflows
+  FOR SELECT USING (organization_id IN (SELECT user_organization_ids()));
+
+-- Enable RLS on awb_stock
+ALTER TABLE awb_stock ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their organization's AWB stock (changes are made by the server only)
+CREATE POLICY "Members can view organization AWB stock" ON awb_stock
+  FOR SELECT USING (organization_id IN (SELECT user_organization_ids()));
+
+-- Enable RLS on rate_cards
+ALTER TABLE rate_cards ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their organization's rate cards (changes are made by the server only)
+CREATE POLICY "Members can view organization rate cards" ON rate_cards
+  FOR SELECT USING (organization_id IN (SELECT user_organization_ids()));
+
+-- Enable RLS on sla_targets
+ALTER TABLE sla_targets ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their organization's SLA targets (changes are made by the server only)
+CREATE POLICY "Members can view organization SLA targets" ON sla_targets
+  FOR SELECT USING (organization_id IN (SELECT user_organization_ids()));
+
+-- Enable RLS on sla_escalations
+ALTER TABLE sla_escalations ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their organization's escalations (raised by the server only)
+CREATE POLICY "Members can view organization SLA escalations" ON sla_escalations
+  FOR SELECT USING (organization_id IN (SELECT user_organization_ids()));
+
+-- Enable RLS on quotes
+ALTER TABLE quotes ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their organization's quotes (quotes are priced by the server only)
+CREATE POLICY "Members can view organization quotes" ON quotes
+  FOR SELECT USING (organization_id IN (SELECT user_organization_ids()));
+
+-- Enable RLS on shipment_audit_log
+ALTER TABLE shipment_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their organization's audit history (entries are written by the server only)
+CREATE POLICY "Members can view organization audit log" ON shipment_audit_log
+  FOR SELECT USING (organization_id IN (SELECT user_organization_ids()));
+
+-- Enable RLS on shipment_documents
+ALTER TABLE shipment_documents ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their organization's document metadata (uploads go through the server)
+CREATE POLICY "Members can view organization documents" ON shipment_documents
+  FOR SELECT USING (organization_id IN (SELECT user_organization_ids()));
+
+-- Enable RLS on delivery_proofs
+ALTER TABLE delivery_proofs ENABLE ROW LEVEL SECURITY;
+
+-- Members can view their organization's proofs of delivery (recorded by the server only)
+CREATE POLICY "Members can view organization delivery proofs" ON delivery_proofs
+  FOR SELECT USING (organization_id IN (SELECT user_organization_ids()));
+
 -- Public read access for tracked_flights and weather_data (cached data)
 ALTER TABLE tracked_flights ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Public read access to flights" ON tracked_flights FOR SELECT USING (true);
 
+ALTER TABLE flight_positions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read access to flight positions" ON flight_positions FOR SELECT USING (true);
+
 ALTER TABLE weather_data ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Public read access to weather" ON weather_data FOR SELECT USING (true);
 
 ALTER TABLE weather_alerts ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Public read access to alerts" ON weather_alerts FOR SELECT USING (true);
 
+-- Background jobs are only read and written by the server (no policies)
+ALTER TABLE scheduled_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
+
 -- =====================================================
 -- FUNCTIONS
 -- =====================================================
@@ -224,3 +729,9 @@ CREATE TRIGGER update_shipments_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- Trigger to auto-update updated_at on shipment legs
+CREATE TRIGGER update_shipment_legs_updated_at
+  BEFORE UPDATE ON shipment_legs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
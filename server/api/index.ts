@@ -7,6 +7,7 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { errorHandler } from '../src/middleware/errorHandler';
+import { registerBackgroundJobs } from '../src/services/backgroundJobs';
 
 // Import routes
 import authRoutes from '../src/routes/auth';
@@ -15,18 +16,36 @@ import trackingRoutes from '../src/routes/tracking';
 import weatherRoutes from '../src/routes/weather';
 import reportRoutes from '../src/routes/reports';
 import analyticsRoutes from '../src/routes/analytics';
+import workflowRoutes from '../src/routes/workflows';
+import auditRoutes from '../src/routes/audit';
+import awbRoutes from '../src/routes/awb';
+import quoteRoutes from '../src/routes/quotes';
+import slaRoutes from '../src/routes/sla';
+import jobRoutes from '../src/routes/jobs';
+import airportRoutes from '../src/routes/airports';
+import organizationRoutes from '../src/routes/organizations';
+import publicTrackingRoutes from '../src/routes/publicTracking';
 
 // Load environment variables
 dotenv.config();
 
 const app = express();
 
+// Functions do not keep running, so jobs are only registered here and run by
+// Vercel Cron through GET /api/jobs/:name/trigger
+registerBackgroundJobs();
+
+// Requests arrive through Vercel's proxy; use the client address (e.g. for rate limits)
+app.set('trust proxy', 1);
+
 // Middleware
 app.use(cors({
   origin: process.env.CORS_ORIGIN || '*',
   credentials: true,
 }));
-app.use(express.json());
+// Proof of delivery carries a signature and photos as data URLs
+app.use('/api/shipments/:id/delivery', express.json({ limit: '5mb' }));
+app.use(express.json({ limit: '1mb' }));
 
 // Health check
 app.get('/health', (_req, res) => {
@@ -45,6 +64,15 @@ app.use('/api/tracking', trackingRoutes);
 app.use('/api/weather', weatherRoutes);
 app.use('/api/reports', reportRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/workflows', workflowRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/awb', awbRoutes);
+app.use('/api/quotes', quoteRoutes);
+app.use('/api/sla', slaRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/airports', airportRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/public/tracking', publicTrackingRoutes);
 
 // 404 handler
 app.use((_req, res) => {
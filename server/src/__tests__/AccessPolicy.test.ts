@@ -0,0 +1,79 @@
+/**
+ * Unit Tests for AccessPolicy
+ *
+ * Tests verify:
+ * - Role validation
+ * - Permissions granted to admins, dispatchers and viewers
+ * - Protection against removing the last admin
+ */
+
+import { AccessPolicy, MemberRole } from '../classes/AccessPolicy';
+
+describe('AccessPolicy', () => {
+  // ============================================
+  // TEST SUITE 1: Roles
+  // ============================================
+  describe('Roles', () => {
+    test('should accept known roles', () => {
+      expect(AccessPolicy.isRole('admin')).toBe(true);
+      expect(AccessPolicy.isRole('dispatcher')).toBe(true);
+      expect(AccessPolicy.isRole('viewer')).toBe(true);
+    });
+
+    test('should reject unknown roles', () => {
+      expect(AccessPolicy.isRole('authenticated')).toBe(false);
+      expect(AccessPolicy.isRole(undefined)).toBe(false);
+      expect(() => new AccessPolicy('owner')).toThrow('Role must be one of: admin, dispatcher, viewer');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Permissions
+  // ============================================
+  describe('Permissions', () => {
+    test('viewers can only read', () => {
+      const viewer = new AccessPolicy('viewer');
+      expect(viewer.can('shipments:read')).toBe(true);
+      expect(viewer.can('reports:read')).toBe(true);
+      expect(viewer.can('analytics:read')).toBe(true);
+      expect(viewer.can('shipments:write')).toBe(false);
+      expect(viewer.can('shipments:delete')).toBe(false);
+    });
+
+    test('dispatchers can change shipments but not settings', () => {
+      const dispatcher = new AccessPolicy('dispatcher');
+      expect(dispatcher.can('shipments:write')).toBe(true);
+      expect(dispatcher.can('shipments:delete')).toBe(true);
+      expect(dispatcher.can('settings:manage')).toBe(false);
+      expect(dispatcher.can('organization:manage')).toBe(false);
+    });
+
+    test('admins can do everything', () => {
+      const admin = new AccessPolicy('admin');
+      expect(admin.can('settings:manage')).toBe(true);
+      expect(admin.can('organization:manage')).toBe(true);
+      expect(admin.toJSON().permissions).toHaveLength(7);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Last Admin
+  // ============================================
+  describe('Last admin', () => {
+    const members: MemberRole[] = [
+      { user_id: 'a', role: 'admin' },
+      { user_id: 'b', role: 'dispatcher' },
+    ];
+
+    test('should detect demoting or removing the only admin', () => {
+      expect(AccessPolicy.removesLastAdmin(members, 'a', 'viewer')).toBe(true);
+      expect(AccessPolicy.removesLastAdmin(members, 'a', null)).toBe(true);
+    });
+
+    test('should allow changes that keep an admin', () => {
+      expect(AccessPolicy.removesLastAdmin(members, 'a', 'admin')).toBe(false);
+      expect(AccessPolicy.removesLastAdmin(members, 'b', null)).toBe(false);
+      expect(AccessPolicy.removesLastAdmin([...members, { user_id: 'c', role: 'admin' }], 'a', null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit Tests for AirWaybill
+ *
+ * Tests verify:
+ * - Mod-7 check digit calculation
+ * - Parsing of common AWB notations
+ * - Building AWBs from stock serials
+ * - Stock range validation
+ */
+
+import { AirWaybill } from '../classes/AirWaybill';
+
+describe('AirWaybill', () => {
+  // ============================================
+  // TEST SUITE 1: Check Digit
+  // ============================================
+  describe('Check digit', () => {
+    test('should be the serial base modulo 7', () => {
+      expect(AirWaybill.calculateCheckDigit(1234567)).toBe(5);
+      expect(AirWaybill.calculateCheckDigit(7)).toBe(0);
+      expect(AirWaybill.calculateCheckDigit(0)).toBe(0);
+    });
+
+    test('should accept a valid AWB', () => {
+      expect(AirWaybill.isValid('176-12345675')).toBe(true);
+    });
+
+    test('should reject a wrong check digit', () => {
+      expect(AirWaybill.validate('176-12345676')).toEqual(['AWB check digit is invalid (expected 5)']);
+    });
+
+    test('should reject the wrong number of digits', () => {
+      expect(AirWaybill.isValid('176-1234567')).toBe(false);
+      expect(AirWaybill.isValid('AF1234567890')).toBe(false);
+      expect(AirWaybill.isValid('')).toBe(false);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Parsing
+  // ============================================
+  describe('Parsing', () => {
+    test('should accept hyphens and spaces', () => {
+      expect(new AirWaybill('176 1234 5675').toString()).toBe('17612345675');
+      expect(new AirWaybill('17612345675').format()).toBe('176-12345675');
+    });
+
+    test('should expose its parts', () => {
+      const awb = new AirWaybill('020-00000070');
+      expect(awb.getPrefix()).toBe('020');
+      expect(awb.getSerial()).toBe('00000070');
+      expect(awb.getSerialBase()).toBe(7);
+      expect(awb.getCheckDigit()).toBe(0);
+    });
+
+    test('should throw for invalid numbers', () => {
+      expect(() => new AirWaybill('176-12345670')).toThrow('AWB check digit is invalid');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Allocation from Stock
+  // ============================================
+  describe('Allocation from stock', () => {
+    test('should append the check digit to a serial', () => {
+      expect(AirWaybill.fromSerial('176', 1234567).format()).toBe('176-12345675');
+    });
+
+    test('should zero-pad short serials', () => {
+      expect(AirWaybill.fromSerial('057', 42).toString()).toBe('05700000420');
+    });
+
+    test('should reject invalid prefixes and serials', () => {
+      expect(() => AirWaybill.fromSerial('17', 1)).toThrow('Airline prefix must be 3 digits');
+      expect(() => AirWaybill.fromSerial('176', 10000000)).toThrow('Serial must be between 0 and 9999999');
+    });
+
+    test('should count remaining serials in a range', () => {
+      const range = { airline_prefix: '176', range_start: 100, range_end: 199, next_serial: 150 };
+      expect(AirWaybill.remainingInRange(range)).toBe(50);
+      expect(AirWaybill.remainingInRange({ ...range, next_serial: 200 })).toBe(0);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 4: Stock Range Validation
+  // ============================================
+  describe('Stock range validation', () => {
+    test('should accept a valid range', () => {
+      expect(AirWaybill.validateStockRange({
+        airline_prefix: '176', range_start: 1000000, range_end: 1000999,
+      })).toEqual([]);
+    });
+
+    test('should reject a reversed range', () => {
+      expect(AirWaybill.validateStockRange({
+        airline_prefix: '176', range_start: 500, range_end: 100,
+      })).toContain('Range start must not be after range end');
+    });
+
+    test('should reject bad prefixes and out-of-range serials', () => {
+      const errors = AirWaybill.validateStockRange({
+        airline_prefix: 'EK', range_start: -1, range_end: 12345678,
+      });
+      expect(errors).toContain('Airline prefix must be 3 digits');
+      expect(errors).toContain('Range start must be a serial between 0 and 9999999');
+      expect(errors).toContain('Range end must be a serial between 0 and 9999999');
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Airport
+ *
+ * Tests verify:
+ * - The bundled reference table is valid and its codes are unique
+ * - Lookup by IATA and ICAO code
+ * - Search ranking by code, city and name
+ * - Nearest airport to a position
+ * - Resolution of free-text origins and destinations
+ */
+
+import { Airport, AIRPORTS, AirportData, MAX_AIRPORT_RESULTS } from '../classes/Airport';
+
+describe('Airport', () => {
+  // ============================================
+  // TEST SUITE 1: Reference table
+  // ============================================
+  describe('Reference table', () => {
+    test('should contain only valid airports', () => {
+      const invalid = AIRPORTS.filter(data => Airport.validate(data).length > 0);
+      expect(invalid).toEqual([]);
+    });
+
+    test('should not repeat codes', () => {
+      const codes = AIRPORTS.flatMap(data => [data.iata, data.icao]);
+      expect(new Set(codes).size).toBe(codes.length);
+    });
+
+    test('should reject invalid data', () => {
+      const valid: AirportData = { ...AIRPORTS[0] };
+
+      expect(Airport.validate({ ...valid, iata: 'jf' })).toHaveLength(1);
+      expect(Airport.validate({ ...valid, icao: 'KJF' })).toHaveLength(1);
+      expect(Airport.validate({ ...valid, latitude: 91 })).toHaveLength(1);
+      expect(Airport.validate({ ...valid, country: 'USA' })).toHaveLength(1);
+      expect(Airport.validate({ ...valid, timezone: 'EST' })).toHaveLength(1);
+      expect(() => new Airport({ ...valid, name: ' ' })).toThrow('must have a name and a city');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Lookup and search
+  // ============================================
+  describe('Lookup and search', () => {
+    test('should find airports by IATA or ICAO code in any case', () => {
+      expect(Airport.findByCode('lhr')?.getIcao()).toBe('EGLL');
+      expect(Airport.findByCode('KJFK')?.getIata()).toBe('JFK');
+      expect(Airport.findByCode('XXX')).toBeNull();
+      expect(Airport.findByCode(null)).toBeNull();
+    });
+
+    test('should rank an exact code first', () => {
+      expect(Airport.search('fra')[0].getIata()).toBe('FRA');
+      expect(Airport.search('EDDM')[0].getIata()).toBe('MUC');
+    });
+
+    test('should find all airports of a city', () => {
+      const london = Airport.search('London').map(entry => entry.getIata());
+      expect(london.slice(0, 3).sort()).toEqual(['LGW', 'LHR', 'STN']);
+    });
+
+    test('should match names without accents', () => {
+      expect(Airport.search('sao paulo').map(entry => entry.getIata())).toContain('GRU');
+      expect(Airport.search('Heathrow').map(entry => entry.getIata())).toEqual(['LHR']);
+    });
+
+    test('should cap the number of results', () => {
+      expect(Airport.search('a', 100)).toHaveLength(MAX_AIRPORT_RESULTS);
+      expect(Airport.search('a', 3)).toHaveLength(3);
+      expect(Airport.search('  ')).toEqual([]);
+      expect(Airport.search('international')).toEqual([]);
+    });
+
+    test('should find the nearest airport within range', () => {
+      expect(Airport.nearest(51.5, -0.4)?.getIata()).toBe('LHR');
+      expect(Airport.nearest(40.65, -73.78)?.getIcao()).toBe('KJFK');
+      expect(Airport.nearest(0, -140)).toBeNull();
+      expect(Airport.nearest(51.5, -0.4, 1)).toBeNull();
+    });
+
+    test('should describe the airport', () => {
+      const airport = Airport.findByCode('SIN')!;
+
+      expect(airport.getLabel()).toBe('Singapore (SIN)');
+      expect(airport.getPosition()).toEqual({ lat: 1.3644, lon: 103.9915 });
+      expect(airport.toJSON()).toMatchObject({ iata: 'SIN', timezone: 'Asia/Singapore', label: 'Singapore (SIN)' });
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Resolving free text
+  // ============================================
+  describe('Resolving free text', () => {
+    test.each([
+      ['JFK', 'JFK'],
+      ['klax', 'LAX'],
+      ['New York, JFK Airport', 'JFK'],
+      ['Frankfurt (FRA)', 'FRA'],
+      ['Chicago, ORD', 'ORD'],
+      ['Chicago, IL', 'ORD'],
+      ['Singapore', 'SIN'],
+      ['London Heathrow Airport', 'LHR'],
+      ['São Paulo', 'GRU'],
+      ['LOS ANGELES', 'LAX'],
+      ['PARIS CDG', 'CDG'],
+    ])('should resolve "%s" to %s', (text, iata) => {
+      expect(Airport.resolve(text)?.getIata()).toBe(iata);
+    });
+
+    test.each([
+      ['London'],
+      ['New York'],
+      ['Springfield'],
+      ['JFK or LGA'],
+      [''],
+    ])('should not resolve "%s"', (text) => {
+      expect(Airport.resolve(text)).toBeNull();
+    });
+  });
+});
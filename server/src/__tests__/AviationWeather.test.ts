@@ -0,0 +1,187 @@
+/**
+ * Unit Tests for METAR and TAF decoding
+ *
+ * Tests verify:
+ * - Wind, visibility, clouds, present weather, temperature and pressure are decoded
+ * - Reports map to the WeatherCondition subclass with the greatest impact
+ * - TAF change groups give the forecast conditions at a time
+ * - Invalid reports are rejected
+ */
+
+import { Metar, Taf, KNOTS_TO_MS } from '../classes/AviationWeather';
+import { FogWeather, StormWeather, RainWeather, SnowWeather, CloudyWeather } from '../classes/WeatherCondition';
+
+describe('AviationWeather', () => {
+  const reference = new Date('2026-03-19T12:00:00Z');
+
+  // ============================================
+  // TEST SUITE 1: METAR decoding
+  // ============================================
+  describe('METAR decoding', () => {
+    test('should decode a routine observation', () => {
+      const metar = Metar.parse('METAR EGLL 191050Z 24015G28KT 210V280 9999 -RA FEW012 BKN025 11/08 Q1004 NOSIG', reference);
+
+      expect(metar.getStation()).toBe('EGLL');
+      expect(metar.getObservedAt().toISOString()).toBe('2026-03-19T10:50:00.000Z');
+      expect(metar.getWind()).toEqual({ directionDeg: 240, speedKt: 15, gustKt: 28 });
+      expect(metar.getVisibilityM()).toBe(10000);
+      expect(metar.getPresentWeather().map(group => group.code)).toEqual(['-RA']);
+      expect(metar.getCeilingFt()).toBe(2500);
+      expect(metar.getCloudCoverPercent()).toBe(75);
+      expect(metar.getTemperatureC()).toBe(11);
+      expect(metar.getDewpointC()).toBe(8);
+      expect(metar.getHumidity()).toBe(82);
+      expect(metar.getPressureHpa()).toBe(1004);
+    });
+
+    test('should decode US units and negative temperatures', () => {
+      const metar = Metar.parse('KORD 190951Z VRB05KT 1 1/2SM -SN BR OVC008 M05/M07 A2992 RMK AO2', reference);
+
+      expect(metar.getWind()).toEqual({ directionDeg: null, speedKt: 5, gustKt: null });
+      expect(metar.getVisibilityM()).toBe(2414);
+      expect(metar.getCeilingFt()).toBe(800);
+      expect(metar.getTemperatureC()).toBe(-5);
+      expect(metar.getPressureHpa()).toBe(1013);
+      expect(Metar.parse('KJFK 190951Z 18010KT P6SM CLR 20/10 A3001', reference).getVisibilityM()).toBe(10000);
+    });
+
+    test('should treat CAVOK as unlimited visibility and no cloud', () => {
+      const metar = Metar.parse('LEMD 191000Z 05008MPS CAVOK 18/02 Q1022', reference);
+
+      expect(metar.getWind()?.speedKt).toBe(16);
+      expect(metar.getVisibilityM()).toBe(10000);
+      expect(metar.getClouds()).toEqual([]);
+      expect(metar.toCondition().getConditionType()).toBe('clear');
+    });
+
+    test('should resolve days at the turn of a month', () => {
+      const metar = Metar.parse('EGLL 312350Z 24010KT 9999 SCT030 08/04 Q1010', new Date('2026-04-01T00:10:00Z'));
+
+      expect(metar.getObservedAt().toISOString()).toBe('2026-03-31T23:50:00.000Z');
+    });
+
+    test('should reject reports without station or time', () => {
+      expect(() => Metar.parse('24010KT 9999', reference)).toThrow('METAR must start with a station and an observation time');
+      expect(() => Metar.parse('EGLL 24010KT 9999', reference)).toThrow();
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Mapping to conditions
+  // ============================================
+  describe('Mapping to conditions', () => {
+    const condition = (body: string) => Metar.parse(`EGLL 191050Z ${body}`, reference).toCondition();
+
+    test('should rate thunderstorms by intensity and lightning', () => {
+      const storm = condition('27020G35KT 3000 +TSRA BKN010CB 18/16 Q1002');
+
+      expect(storm).toBeInstanceOf(StormWeather);
+      expect((storm as StormWeather).getSeverity()).toBe('severe');
+      expect((storm as StormWeather).hasLightningRisk()).toBe(true);
+      expect(storm.getWindSpeed()).toBeCloseTo(35 * KNOTS_TO_MS, 2);
+      expect(condition('27010KT 9999 VCTS SCT040CB 18/12 Q1010').assessImpact()).toBe('medium');
+    });
+
+    test('should map precipitation to rain and snow with their intensity', () => {
+      const rain = condition('24010KT 6000 +RA OVC020 12/10 Q1005');
+      const snow = condition('36010KT 3000 SN BKN015 M02/M04 Q1012');
+
+      expect(rain).toBeInstanceOf(RainWeather);
+      expect((rain as RainWeather).getIntensity()).toBe('heavy');
+      expect(snow).toBeInstanceOf(SnowWeather);
+      expect((snow as SnowWeather).getIntensity()).toBe('moderate');
+    });
+
+    test('should rate low visibility and low ceilings as fog', () => {
+      const fog = condition('00000KT 0150 FG VV001 04/04 Q1020');
+      const lowCloud = condition('20005KT 8000 OVC002 09/08 Q1015');
+
+      expect(fog).toBeInstanceOf(FogWeather);
+      expect((fog as FogWeather).getVisibility()).toBe(150);
+      expect(fog.shouldGroundFlights()).toBe(true);
+      expect(lowCloud).toBeInstanceOf(FogWeather);
+      expect((lowCloud as FogWeather).getVisibility()).toBe(400);
+    });
+
+    test('should pick the greatest impact when groups disagree', () => {
+      expect(condition('20005KT 0400 -DZ FG OVC001 08/08 Q1018')).toBeInstanceOf(FogWeather);
+      expect(condition('20005KT 4000 -RA BR OVC015 08/07 Q1018')).toBeInstanceOf(RainWeather);
+    });
+
+    test('should fall back to cloud cover and keep the temperature', () => {
+      const cloudy = condition('24008KT 9999 OVC040 14/06 Q1016');
+
+      expect(cloudy).toBeInstanceOf(CloudyWeather);
+      expect((cloudy as CloudyWeather).getCloudCoverage()).toBe(100);
+      expect(cloudy.getTemperature()).toBe(14);
+      expect(cloudy.getTimestamp().toISOString()).toBe('2026-03-19T10:50:00.000Z');
+    });
+
+    test('should leave the temperature unknown when the report has none', () => {
+      const missing = condition('24008KT 9999 OVC040 /////// Q1016');
+
+      expect(missing.getTemperature()).toBeNull();
+      expect(missing.getHumidity()).toBeNull();
+      expect(missing.getConditionSummary()).not.toContain('°C');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: TAF forecasts
+  // ============================================
+  describe('TAF forecasts', () => {
+    const taf = Taf.parse(
+      'TAF EGLL 191058Z 1912/2018 24012KT 9999 SCT030 ' +
+      'TEMPO 1915/1918 4000 SHRA ' +
+      'BECMG 1921/1924 0800 FG BKN002 ' +
+      'FM200900 27015G30KT 9999 -TSRA BKN020CB ' +
+      'PROB30 TEMPO 2012/2015 +TSRA',
+      reference
+    );
+    const at = (iso: string) => taf.conditionAt(new Date(iso));
+
+    test('should decode the validity and change groups', () => {
+      expect(taf.getStation()).toBe('EGLL');
+      expect(taf.getIssuedAt().toISOString()).toBe('2026-03-19T10:58:00.000Z');
+      expect(taf.getValidFrom().toISOString()).toBe('2026-03-19T12:00:00.000Z');
+      expect(taf.getValidTo().toISOString()).toBe('2026-03-20T18:00:00.000Z');
+      expect(taf.getPeriods().map(period => period.type)).toEqual(['BASE', 'TEMPO', 'BECMG', 'FM', 'PROB']);
+      expect(taf.getPeriods()[4].probability).toBe(30);
+    });
+
+    test('should give the prevailing and temporary conditions at a time', () => {
+      expect(at('2026-03-19T13:00:00Z')?.getConditionType()).toBe('cloudy');
+      expect(at('2026-03-19T16:00:00Z')?.getConditionType()).toBe('rain');
+      expect(at('2026-03-20T03:00:00Z')?.getConditionType()).toBe('fog');
+      expect(at('2026-03-20T10:00:00Z')?.getConditionType()).toBe('storm');
+      expect(at('2026-03-20T13:00:00Z')?.assessImpact()).toBe('critical');
+    });
+
+    test('should have no conditions outside the validity', () => {
+      expect(at('2026-03-19T11:00:00Z')).toBeNull();
+      expect(at('2026-03-20T18:00:00Z')).toBeNull();
+    });
+
+    test('should build forecast slots without temperatures, moved to a new start when asked', () => {
+      const slots = taf.toForecast().getSlots();
+      const moved = taf.toForecast(new Date('2026-10-01T00:00:00Z'));
+
+      expect(slots).toHaveLength(10);
+      expect(slots[0].getTemperature()).toBeNull();
+      expect(slots[0].getHumidity()).toBeNull();
+      expect(moved.getSlots()[0].getTimestamp().toISOString()).toBe('2026-10-01T00:00:00.000Z');
+      expect(moved.nearest(new Date('2026-10-01T15:00:00Z'))?.getConditionType()).toBe('fog');
+    });
+
+    test('should end the validity after its start at the turn of a month', () => {
+      const early = Taf.parse('TAF LFPG 1912/2018 24010KT 9999 SCT030', new Date('2026-04-05T00:00:00Z'));
+
+      expect(early.getValidFrom().toISOString()).toBe('2026-04-19T12:00:00.000Z');
+      expect(early.getValidTo().toISOString()).toBe('2026-04-20T18:00:00.000Z');
+    });
+
+    test('should reject reports without a validity period', () => {
+      expect(() => Taf.parse('TAF EGLL 191058Z 24012KT 9999', reference)).toThrow('TAF must start with a station and a validity period');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for CargoPiece
+ *
+ * Tests verify:
+ * - Piece validation
+ * - Volume and volumetric weight per piece line
+ * - Chargeable weight (greater of actual and volumetric, rounded up to 0.5 kg)
+ * - Shipment totals
+ */
+
+import { CargoPiece, VOLUMETRIC_DIVISOR } from '../classes/CargoPiece';
+
+describe('CargoPiece', () => {
+  const pallet = { quantity: 2, length_cm: 120, width_cm: 80, height_cm: 100, weight_kg: 150 };
+
+  // ============================================
+  // TEST SUITE 1: Validation
+  // ============================================
+  describe('Validation', () => {
+    test('should accept a valid piece', () => {
+      expect(CargoPiece.validate(pallet)).toEqual([]);
+    });
+
+    test('should default quantity and packaging', () => {
+      const piece = new CargoPiece({ length_cm: 10, width_cm: 10, height_cm: 10, weight_kg: 1 });
+      expect(piece.getQuantity()).toBe(1);
+      expect(piece.getPackagingType()).toBe('box');
+    });
+
+    test('should reject missing or non-positive dimensions', () => {
+      const errors = CargoPiece.validate({ length_cm: 0, width_cm: -5, weight_kg: 1 });
+      expect(errors).toContain('Length must be between 0 and 1000 cm');
+      expect(errors).toContain('Width must be between 0 and 1000 cm');
+      expect(errors).toContain('Height must be between 0 and 1000 cm');
+    });
+
+    test('should reject invalid quantity, weight and packaging', () => {
+      const errors = CargoPiece.validate({
+        ...pallet,
+        quantity: 1.5,
+        weight_kg: 0,
+        packaging_type: 'barrel' as never,
+      });
+      expect(errors).toContain('Quantity must be a whole number between 1 and 9999');
+      expect(errors).toContain('Piece weight must be a positive number');
+      expect(errors.some(e => e.startsWith('Packaging type must be one of'))).toBe(true);
+    });
+
+    test('should throw when constructed with invalid data', () => {
+      expect(() => new CargoPiece({ ...pallet, height_cm: 2000 })).toThrow('Height must be between');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Piece Measurements
+  // ============================================
+  describe('Measurements', () => {
+    test('should multiply volume and weight by quantity', () => {
+      const piece = new CargoPiece(pallet);
+      expect(piece.getVolumeCm3()).toBe(120 * 80 * 100 * 2);
+      expect(piece.getActualWeight()).toBe(300);
+    });
+
+    test('should use the IATA divisor for volumetric weight', () => {
+      const piece = new CargoPiece({ length_cm: 60, width_cm: 50, height_cm: 40, weight_kg: 5 });
+      expect(VOLUMETRIC_DIVISOR).toBe(6000);
+      expect(piece.getVolumetricWeight()).toBe(20);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Chargeable Weight
+  // ============================================
+  describe('Chargeable weight', () => {
+    test('should use the greater of actual and volumetric weight', () => {
+      expect(CargoPiece.chargeableWeight(100, 320)).toBe(320);
+      expect(CargoPiece.chargeableWeight(450, 320)).toBe(450);
+    });
+
+    test('should round up to the next half kilogram', () => {
+      expect(CargoPiece.chargeableWeight(10.1)).toBe(10.5);
+      expect(CargoPiece.chargeableWeight(10.6)).toBe(11);
+      expect(CargoPiece.chargeableWeight(10.5)).toBe(10.5);
+    });
+
+    test('should be null when no weight is known', () => {
+      expect(CargoPiece.chargeableWeight(null, null)).toBeNull();
+      expect(CargoPiece.chargeableWeight()).toBeNull();
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 4: Shipment Totals
+  // ============================================
+  describe('Summarize', () => {
+    test('should total all piece lines', () => {
+      const summary = CargoPiece.summarize([
+        new CargoPiece(pallet),
+        new CargoPiece({ length_cm: 60, width_cm: 50, height_cm: 40, weight_kg: 5, packaging_type: 'crate' }),
+      ]);
+
+      expect(summary.total_pieces).toBe(3);
+      expect(summary.volume_m3).toBe(2.04);
+      expect(summary.weight_kg).toBe(305);
+      expect(summary.volumetric_weight_kg).toBe(340);
+      expect(summary.chargeable_weight_kg).toBe(340);
+    });
+
+    test('should ignore the declared weight when pieces are given', () => {
+      const summary = CargoPiece.summarize([new CargoPiece(pallet)], 999);
+      expect(summary.weight_kg).toBe(300);
+      expect(summary.chargeable_weight_kg).toBe(320);
+    });
+
+    test('should fall back to the declared weight without pieces', () => {
+      expect(CargoPiece.summarize([], 42.2)).toEqual({
+        total_pieces: null,
+        volume_m3: null,
+        volumetric_weight_kg: null,
+        weight_kg: 42.2,
+        chargeable_weight_kg: 42.5,
+      });
+    });
+  });
+});
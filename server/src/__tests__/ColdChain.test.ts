@@ -0,0 +1,116 @@
+/**
+ * Unit Tests for ColdChain
+ *
+ * Tests verify:
+ * - Validation of temperature ranges and logged readings
+ * - Excursion detection and severity
+ * - Excursion descriptions used by the weather impact report
+ */
+
+import { TemperatureRange, TemperatureReading } from '../classes/ColdChain';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+describe('ColdChain', () => {
+  const pharma = new TemperatureRange({ temp_min_c: 2, temp_max_c: 8 });
+
+  // ============================================
+  // TEST SUITE 1: Range Validation
+  // ============================================
+  describe('Range Validation', () => {
+    test('should accept a valid range', () => {
+      expect(TemperatureRange.validate({ temp_min_c: 2, temp_max_c: 8 })).toEqual([]);
+      expect(TemperatureRange.validate({ temp_min_c: -78, temp_max_c: -60 })).toEqual([]);
+    });
+
+    test('should reject missing, out of bounds and inverted limits', () => {
+      expect(TemperatureRange.validate({ temp_max_c: 8 }))
+        .toEqual(['Minimum temperature must be a number between -80 and 40°C']);
+      expect(TemperatureRange.validate({ temp_min_c: 2, temp_max_c: 45 }))
+        .toEqual(['Maximum temperature must be a number between -80 and 40°C']);
+      expect(TemperatureRange.validate({ temp_min_c: 8, temp_max_c: 2 }))
+        .toEqual(['Minimum temperature must be below the maximum temperature']);
+      expect(() => new TemperatureRange({ temp_min_c: 5, temp_max_c: 5 })).toThrow();
+    });
+
+    test('should read the range stored on a shipment', () => {
+      expect(TemperatureRange.fromShipment({ temp_min_c: '2.0', temp_max_c: '8.0' })?.toJSON())
+        .toEqual({ temp_min_c: 2, temp_max_c: 8 });
+      expect(TemperatureRange.fromShipment({ temp_min_c: null, temp_max_c: null })).toBeNull();
+      expect(pharma.toString()).toBe('2 to 8°C');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Excursion Detection
+  // ============================================
+  describe('Excursion Detection', () => {
+    test('should accept temperatures within the range, limits included', () => {
+      expect(pharma.contains(2)).toBe(true);
+      expect(pharma.contains(8)).toBe(true);
+      expect(pharma.check(5, 'origin_weather', 'JFK')).toBeNull();
+    });
+
+    test('should report temperatures above and below the range', () => {
+      expect(pharma.check(12.04, 'destination_weather', 'NBO')).toEqual({
+        source: 'destination_weather',
+        location: 'NBO',
+        temperature_c: 12,
+        temp_min_c: 2,
+        temp_max_c: 8,
+        deviation_c: 4,
+        severity: 'high',
+      });
+      expect(pharma.deviation(-1.5)).toBe(3.5);
+    });
+
+    test('should grade severity by the distance to the range', () => {
+      expect(TemperatureRange.severityOf(0)).toBe('none');
+      expect(TemperatureRange.severityOf(1.5)).toBe('medium');
+      expect(TemperatureRange.severityOf(5)).toBe('high');
+      expect(TemperatureRange.severityOf(5.1)).toBe('critical');
+    });
+
+    test('should describe excursions with the temperature first', () => {
+      const excursion = pharma.check(-1.5, 'origin_weather', 'Frankfurt, FRA')!;
+      expect(TemperatureRange.describeExcursion(excursion))
+        .toBe('Temperature excursion at Frankfurt, FRA: -1.5°C, 3.5°C below the 2 to 8°C range');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Logged Readings
+  // ============================================
+  describe('Logged Readings', () => {
+    test('should validate readings', () => {
+      expect(TemperatureReading.validate({ temperature_c: 4 }, now)).toEqual([]);
+      expect(TemperatureReading.validate({ temperature_c: 'warm' as never }, now))
+        .toEqual(['Temperature must be a number between -100 and 100°C']);
+      expect(TemperatureReading.validate({ temperature_c: 4, recorded_at: '2026-03-01T13:00:00Z' }, now))
+        .toEqual(['Recorded time cannot be in the future']);
+      expect(TemperatureReading.validate({ temperature_c: 4, recorded_at: 'yesterday' }, now))
+        .toEqual(['Recorded time must be a valid date']);
+    });
+
+    test('should default the time to now and trim text', () => {
+      const reading = new TemperatureReading({ temperature_c: 4.26, location: '  LHR ', notes: ' ' }, now);
+      expect(reading.toJSON()).toEqual({
+        temperature_c: 4.3,
+        recorded_at: now.toISOString(),
+        location: 'LHR',
+        notes: null,
+      });
+    });
+
+    test('should check readings against a range at their own location', () => {
+      const inside = new TemperatureReading({ temperature_c: 6 }, now);
+      expect(inside.checkAgainst(pharma, 'JFK')).toBeNull();
+
+      const warm = new TemperatureReading({ temperature_c: 9, location: 'LHR' }, now);
+      expect(warm.checkAgainst(pharma, 'JFK')).toMatchObject({ source: 'reading', location: 'LHR', severity: 'medium' });
+
+      const unplaced = new TemperatureReading({ temperature_c: 20 }, now);
+      expect(unplaced.checkAgainst(pharma, 'JFK')).toMatchObject({ location: 'JFK', severity: 'critical' });
+    });
+  });
+});
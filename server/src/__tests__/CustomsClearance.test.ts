@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for CustomsClearance
+ *
+ * Tests verify:
+ * - Validation of customs steps
+ * - Allowed order of steps and holds
+ * - Dwell time and hold counts used by the route performance report
+ */
+
+import { CustomsClearance, CustomsStep, CustomsStepRecord } from '../classes/CustomsClearance';
+
+const now = new Date('2026-03-02T12:00:00Z');
+
+const record = (status: CustomsStepRecord['status'], occurred_at: string, broker_reference: string | null = null): CustomsStepRecord => ({
+  status,
+  occurred_at,
+  broker_reference,
+  notes: null,
+});
+
+const step = (status: string, occurred_at = '2026-03-02T10:00:00Z', notes?: string) =>
+  new CustomsStep({ status, occurred_at, notes }, now);
+
+describe('CustomsClearance', () => {
+  // ============================================
+  // TEST SUITE 1: Step Validation
+  // ============================================
+  describe('Step Validation', () => {
+    test('should accept a valid step', () => {
+      expect(CustomsStep.validate({ status: 'documents_submitted', broker_reference: 'BRK-1042' }, now)).toEqual([]);
+    });
+
+    test('should reject unknown statuses, long references and future times', () => {
+      expect(CustomsStep.validate({ status: 'cleared' }, now))
+        .toEqual(['Customs status must be one of: documents_submitted, under_review, held, released, duties_paid']);
+      expect(CustomsStep.validate({ status: 'released', broker_reference: 'x'.repeat(51) }, now))
+        .toEqual(['Broker reference must be at most 50 characters']);
+      expect(CustomsStep.validate({ status: 'released', occurred_at: '2026-03-03T00:00:00Z' }, now))
+        .toEqual(['Step time cannot be in the future']);
+    });
+
+    test('should require notes for a hold', () => {
+      expect(CustomsStep.validate({ status: 'held', notes: '  ' }, now))
+        .toEqual(['A customs hold needs notes explaining the reason']);
+      expect(step('held', undefined, 'Invoice value query').isHold()).toBe(true);
+    });
+
+    test('should default the time to now and trim text', () => {
+      const submitted = new CustomsStep({ status: 'documents_submitted', broker_reference: ' BRK-7 ', notes: '' }, now);
+      expect(submitted.toJSON()).toEqual({
+        status: 'documents_submitted',
+        broker_reference: 'BRK-7',
+        occurred_at: now.toISOString(),
+        notes: null,
+      });
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Step Order
+  // ============================================
+  describe('Step Order', () => {
+    test('should start with submitted documents', () => {
+      const clearance = new CustomsClearance([]);
+      expect(clearance.getStatus()).toBeNull();
+      expect(clearance.getNextStatuses()).toEqual(['documents_submitted']);
+      expect(clearance.checkNext(step('under_review'))).toBe('Customs clearance must start with documents_submitted');
+    });
+
+    test('should allow holds to return to review', () => {
+      const clearance = new CustomsClearance([
+        record('documents_submitted', '2026-03-01T08:00:00Z'),
+        record('held', '2026-03-01T12:00:00Z'),
+      ]);
+      expect(clearance.isHeld()).toBe(true);
+      expect(clearance.getNextStatuses()).toEqual(['under_review', 'released', 'duties_paid']);
+      expect(clearance.checkNext(step('held', undefined, 'Again'))).toBe("Customs cannot move from 'held' to 'held'");
+    });
+
+    test('should release and collect duties once each, in either order', () => {
+      const paid = new CustomsClearance([
+        record('documents_submitted', '2026-03-01T08:00:00Z'),
+        record('under_review', '2026-03-01T09:00:00Z'),
+        record('duties_paid', '2026-03-01T10:00:00Z'),
+      ]);
+      expect(paid.getNextStatuses()).toEqual(['released']);
+
+      const done = new CustomsClearance([
+        ...paid.getSteps(),
+        record('released', '2026-03-01T11:00:00Z'),
+      ]);
+      expect(done.getNextStatuses()).toEqual([]);
+    });
+
+    test('should reject steps recorded before the latest step', () => {
+      const clearance = new CustomsClearance([record('documents_submitted', '2026-03-02T11:00:00Z')]);
+      expect(clearance.checkNext(step('under_review', '2026-03-02T10:00:00Z')))
+        .toBe('Customs steps must be recorded in the order they happened');
+    });
+
+    test('should keep the latest broker reference', () => {
+      const clearance = new CustomsClearance([
+        record('under_review', '2026-03-01T09:00:00Z'),
+        record('documents_submitted', '2026-03-01T08:00:00Z', 'BRK-1'),
+      ]);
+      expect(clearance.getStatus()).toBe('under_review');
+      expect(clearance.getBrokerReference()).toBe('BRK-1');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Dwell Time
+  // ============================================
+  describe('Dwell Time', () => {
+    test('should measure from submitted documents to release', () => {
+      const clearance = new CustomsClearance([
+        record('documents_submitted', '2026-03-01T08:00:00Z'),
+        record('held', '2026-03-01T10:00:00Z'),
+        record('released', '2026-03-02T02:30:00Z'),
+        record('duties_paid', '2026-03-02T09:00:00Z'),
+      ]);
+      expect(clearance.getDwellHours(now)).toBe(18.5);
+      expect(clearance.getHoldCount()).toBe(1);
+    });
+
+    test('should count up to now while still in customs', () => {
+      const clearance = new CustomsClearance([record('documents_submitted', '2026-03-02T06:00:00Z')]);
+      expect(clearance.getDwellHours(now)).toBe(6);
+      expect(new CustomsClearance([]).getDwellHours(now)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Unit Tests for DangerousGoods
+ *
+ * Tests verify:
+ * - Format validation of declared lines
+ * - Reference lookups and forbidden items
+ * - Quantity limits on passenger and cargo aircraft
+ * - Segregation between hazard classes
+ */
+
+import {
+  DangerousGoodsItem,
+  DangerousGoodsDeclaration,
+  DangerousGoodsItemData,
+} from '../classes/DangerousGoods';
+
+const gasoline: DangerousGoodsItemData = {
+  un_number: 'UN1203',
+  proper_shipping_name: 'Gasoline',
+  class_division: '3',
+  packing_group: 'II',
+  quantity: 5,
+};
+
+const dryIce: DangerousGoodsItemData = {
+  un_number: 'UN1845',
+  proper_shipping_name: 'Carbon dioxide, solid',
+  class_division: '9',
+  quantity: 20,
+};
+
+const check = (...items: DangerousGoodsItemData[]) =>
+  new DangerousGoodsDeclaration(items.map(item => new DangerousGoodsItem(item))).check();
+
+describe('DangerousGoods', () => {
+  // ============================================
+  // TEST SUITE 1: Item Validation
+  // ============================================
+  describe('Item Validation', () => {
+    test('should accept a valid line', () => {
+      expect(DangerousGoodsItem.validate(gasoline)).toEqual([]);
+    });
+
+    test('should reject malformed UN numbers, classes and quantities', () => {
+      const errors = DangerousGoodsItem.validate({
+        un_number: '12034',
+        proper_shipping_name: '',
+        class_division: '10',
+        packing_group: 'IV' as never,
+        quantity: 0,
+      });
+
+      expect(errors).toContain('UN number must be 4 digits, e.g. UN1203');
+      expect(errors).toContain('Proper shipping name is required and must be at most 255 characters');
+      expect(errors).toContain('Class/division must be a hazard class such as 3, 2.1 or 1.4S');
+      expect(errors).toContain('Packing group must be one of: I, II, III');
+      expect(errors).toContain('Quantity must be a positive number up to 100,000');
+    });
+
+    test('should normalize UN numbers and classes', () => {
+      const item = new DangerousGoodsItem({ ...gasoline, un_number: '1203' });
+      expect(item.getUnNumber()).toBe('UN1203');
+      expect(new DangerousGoodsItem({ ...gasoline, un_number: 'un 1203' }).getUnNumber()).toBe('UN1203');
+      expect(new DangerousGoodsItem({ ...gasoline, class_division: '1.4s' }).getClassDivision()).toBe('1.4S');
+    });
+
+    test('should store the unit of the reference entry', () => {
+      expect(new DangerousGoodsItem(gasoline).toJSON()).toMatchObject({ unit: 'L', cargo_aircraft_only: false });
+      expect(new DangerousGoodsItem({ ...gasoline, un_number: 'UN9999' }).toJSON().unit).toBeNull();
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Reference Table
+  // ============================================
+  describe('Reference Table', () => {
+    test('should accept declarations that match the reference table', () => {
+      expect(check(gasoline, dryIce)).toEqual({ accepted: true, issues: [] });
+    });
+
+    test('should require at least one line', () => {
+      expect(check().issues).toEqual(['Declare at least one dangerous goods item']);
+    });
+
+    test('should reject unknown and forbidden UN numbers', () => {
+      expect(check({ ...gasoline, un_number: 'UN9999' }).issues)
+        .toEqual(['Line 1: UN9999 is not in the dangerous goods reference table']);
+      expect(check({
+        un_number: 'UN1005',
+        proper_shipping_name: 'Ammonia, anhydrous',
+        class_division: '2.3',
+        quantity: 1,
+        cargo_aircraft_only: true,
+      }).issues).toEqual(['Line 1: UN1005 Ammonia, anhydrous is forbidden for air transport']);
+    });
+
+    test('should check the class and packing group', () => {
+      expect(check({ ...gasoline, class_division: '2.1' }).issues)
+        .toEqual(['Line 1: UN1203 is class 3, not 2.1']);
+      expect(check({ ...gasoline, packing_group: 'III' }).issues)
+        .toEqual(['Line 1: UN1203 must be declared with packing group II']);
+      expect(check({ ...dryIce, packing_group: 'III' }).issues)
+        .toEqual(['Line 1: UN1845 has no packing group']);
+    });
+
+    test('should search by UN number and name', () => {
+      expect(DangerousGoodsDeclaration.search('UN348').map(entry => entry.un_number))
+        .toEqual(['UN3480', 'UN3481']);
+      expect(DangerousGoodsDeclaration.search('dry ice')[0].un_number).toBe('UN1845');
+      expect(DangerousGoodsDeclaration.lookup('1203')?.class_division).toBe('3');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Quantity Limits
+  // ============================================
+  describe('Quantity Limits', () => {
+    test('should apply the passenger aircraft limit', () => {
+      expect(check({ ...gasoline, quantity: 10 }).issues).toEqual([
+        'Line 1: 10 L exceeds the passenger aircraft limit of 5 L for UN1203; mark it cargo aircraft only to ship this quantity',
+      ]);
+    });
+
+    test('should apply the cargo aircraft limit to cargo aircraft only lines', () => {
+      expect(check({ ...gasoline, quantity: 10, cargo_aircraft_only: true }).accepted).toBe(true);
+      expect(check({ ...gasoline, quantity: 61, cargo_aircraft_only: true }).issues)
+        .toEqual(['Line 1: 61 L exceeds the cargo aircraft limit of 60 L for UN1203']);
+    });
+
+    test('should require cargo aircraft for items forbidden on passenger aircraft', () => {
+      const batteries = {
+        un_number: 'UN3480',
+        proper_shipping_name: 'Lithium ion batteries',
+        class_division: '9',
+        quantity: 10,
+      };
+
+      expect(check(batteries).issues)
+        .toEqual(['Line 1: UN3480 is forbidden on passenger aircraft; mark it cargo aircraft only']);
+
+      const declaration = new DangerousGoodsDeclaration([
+        new DangerousGoodsItem({ ...batteries, cargo_aircraft_only: true }),
+      ]);
+      expect(declaration.check().accepted).toBe(true);
+      expect(declaration.requiresCargoAircraft()).toBe(true);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 4: Segregation
+  // ============================================
+  describe('Segregation', () => {
+    const oxidizer: DangerousGoodsItemData = {
+      un_number: 'UN1942',
+      proper_shipping_name: 'Ammonium nitrate',
+      class_division: '5.1',
+      packing_group: 'III',
+      quantity: 10,
+    };
+
+    test('should reject flammable liquids with oxidizers', () => {
+      expect(check(gasoline, dryIce, oxidizer).issues).toEqual([
+        'Line 1 (UN1203, class 3) and line 3 (UN1942, class 5.1) must be segregated and cannot travel in the same shipment',
+      ]);
+    });
+
+    test('should segregate on subsidiary risks', () => {
+      const oxygen = {
+        un_number: 'UN1072',
+        proper_shipping_name: 'Oxygen, compressed',
+        class_division: '2.2',
+        quantity: 10,
+      };
+      expect(check(oxygen, gasoline).accepted).toBe(false);
+      expect(check(oxygen, dryIce).accepted).toBe(true);
+    });
+
+    test('should exempt division 1.4S from explosive segregation', () => {
+      const cartridges = {
+        un_number: 'UN0012',
+        proper_shipping_name: 'Cartridges for weapons, inert projectile',
+        class_division: '1.4S',
+        quantity: 10,
+      };
+      expect(check(cartridges, gasoline).accepted).toBe(true);
+
+      const fireworks = {
+        un_number: 'UN0336',
+        proper_shipping_name: 'Fireworks',
+        class_division: '1.4G',
+        quantity: 10,
+        cargo_aircraft_only: true,
+      };
+      expect(check(fireworks, gasoline).issues[0]).toMatch(/must be segregated/);
+    });
+  });
+});
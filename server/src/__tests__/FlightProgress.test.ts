@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for FlightProgress
+ *
+ * Tests verify:
+ * - Flight phases from ground state, altitude and vertical rate
+ * - Landing detection within the arrival radius
+ * - Planned status transitions, validated against the workflow
+ * - Paths used when a proposal is applied
+ */
+
+import { FlightProgress } from '../classes/FlightProgress';
+import { Flight } from '../classes/Flight';
+import { StatusWorkflow, DEFAULT_STATUS_DEFINITIONS } from '../classes/StatusWorkflow';
+
+describe('FlightProgress', () => {
+  // London Heathrow
+  const destination = { lat: 51.47, lon: -0.4543 };
+
+  const flight = (overrides: { lat?: number; lon?: number; altitude?: number; verticalRate?: number; onGround?: boolean } = {}) =>
+    new Flight(
+      'abc123',
+      'BAW178',
+      overrides.lat ?? 45.0,
+      overrides.lon ?? -30.0,
+      overrides.altitude ?? 11000,
+      250,
+      70,
+      'United Kingdom',
+      overrides.verticalRate ?? 0,
+      overrides.onGround ?? false
+    );
+
+  // ============================================
+  // TEST SUITE 1: Phases
+  // ============================================
+  describe('Phases', () => {
+    test('should be on the ground away from the destination', () => {
+      expect(new FlightProgress(flight({ onGround: true, altitude: 0 }), destination).getPhase()).toBe('on_ground');
+    });
+
+    test('should be climbing or descending below cruise', () => {
+      expect(new FlightProgress(flight({ altitude: 3000, verticalRate: 12 }), destination).getPhase()).toBe('climbing');
+      expect(new FlightProgress(flight({ altitude: 3000, verticalRate: -8 }), destination).getPhase()).toBe('descending');
+    });
+
+    test('should be at cruise when high and level', () => {
+      expect(new FlightProgress(flight({ altitude: 11000, verticalRate: 1 }), destination).getPhase()).toBe('cruise');
+      expect(new FlightProgress(flight({ altitude: 11000, verticalRate: 10 }), destination).getPhase()).toBe('climbing');
+    });
+
+    test('should have landed on the ground within the arrival radius', () => {
+      const landed = new FlightProgress(flight({ lat: 51.5, lon: -0.3, onGround: true, altitude: 0 }), destination);
+      expect(landed.getPhase()).toBe('landed');
+      expect(landed.getDistanceToDestinationKm()).toBeLessThan(30);
+    });
+
+    test('should never detect a landing without destination coordinates', () => {
+      const progress = new FlightProgress(flight({ lat: 51.5, lon: -0.3, onGround: true }), null);
+      expect(progress.getPhase()).toBe('on_ground');
+      expect(progress.getDistanceToDestinationKm()).toBeNull();
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Planned transitions
+  // ============================================
+  describe('Planned transitions', () => {
+    const statuses = (steps: { to: string }[]) => steps.map(step => step.to);
+
+    test('should depart when the aircraft leaves the ground', () => {
+      const progress = new FlightProgress(flight({ altitude: 1500, verticalRate: 10 }), destination);
+      expect(statuses(progress.planTransitions('pending'))).toEqual(['departed']);
+      expect(progress.describe(progress.planTransitions('pending')[0])).toBe('BAW178 left the ground');
+    });
+
+    test('should catch up through departed to in transit at cruise', () => {
+      const progress = new FlightProgress(flight(), destination);
+      expect(statuses(progress.planTransitions('pending'))).toEqual(['departed', 'in_transit']);
+      expect(statuses(progress.planTransitions('in_transit'))).toEqual([]);
+    });
+
+    test('should arrive on landing at the destination', () => {
+      const progress = new FlightProgress(flight({ lat: 51.48, lon: -0.45, onGround: true, altitude: 0 }), destination);
+      expect(statuses(progress.planTransitions('in_transit'))).toEqual(['arrived']);
+      expect(statuses(progress.planTransitions('departed'))).toEqual(['in_transit', 'arrived']);
+      expect(progress.describe(progress.planTransitions('in_transit')[0])).toBe('BAW178 landed 1 km from the destination');
+    });
+
+    test('should not depart a pending shipment from a landing', () => {
+      const progress = new FlightProgress(flight({ lat: 51.48, lon: -0.45, onGround: true }), destination);
+      expect(progress.planTransitions('pending')).toEqual([]);
+    });
+
+    test('should leave delayed and terminal statuses alone', () => {
+      const progress = new FlightProgress(flight(), destination);
+      expect(progress.planTransitions('delayed')).toEqual([]);
+      expect(progress.planTransitions('arrived')).toEqual([]);
+    });
+
+    test('should stop at a transition the workflow does not allow', () => {
+      const workflow = new StatusWorkflow('direct', DEFAULT_STATUS_DEFINITIONS.map(def =>
+        def.name === 'departed' ? { ...def, transitions: ['delayed', 'cancelled'] } : def
+      ));
+      const progress = new FlightProgress(flight(), destination);
+      expect(statuses(progress.planTransitions('pending', workflow))).toEqual(['departed']);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Paths to a proposed status
+  // ============================================
+  describe('Paths', () => {
+    test('should walk the steps to the proposed status', () => {
+      expect(FlightProgress.pathTo('pending', 'in_transit')?.map(step => step.to)).toEqual(['departed', 'in_transit']);
+      expect(FlightProgress.pathTo('in_transit', 'arrived')?.map(step => step.to)).toEqual(['arrived']);
+    });
+
+    test('should reject a proposal that no longer follows the status', () => {
+      expect(FlightProgress.pathTo('arrived', 'in_transit')).toBeNull();
+      expect(FlightProgress.pathTo('in_transit', 'in_transit')).toBeNull();
+      expect(FlightProgress.pathTo('delayed', 'arrived')).toBeNull();
+    });
+
+    test('should recognize the auto status modes', () => {
+      expect(FlightProgress.isMode('apply')).toBe(true);
+      expect(FlightProgress.isMode('always')).toBe(false);
+    });
+  });
+});
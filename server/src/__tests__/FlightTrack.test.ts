@@ -0,0 +1,123 @@
+/**
+ * Unit Tests for FlightTrack
+ *
+ * Tests verify:
+ * - Invalid and duplicate positions are dropped and the rest ordered by time
+ * - Decimal columns returned as strings are read as numbers
+ * - Distance and duration of the track
+ * - Thinning out long tracks for the map
+ */
+
+import { FlightTrack, TrackPointData } from '../classes/FlightTrack';
+
+describe('FlightTrack', () => {
+  const point = (minutes: number, lat: number | string | null, lon: number | string | null, overrides: Partial<TrackPointData> = {}): TrackPointData => ({
+    latitude: lat,
+    longitude: lon,
+    altitude: 10000,
+    velocity: 240,
+    heading: 90,
+    vertical_rate: 0,
+    on_ground: false,
+    recorded_at: new Date(Date.UTC(2026, 0, 1, 12, minutes)).toISOString(),
+    ...overrides,
+  });
+
+  // ============================================
+  // TEST SUITE 1: Cleaning
+  // ============================================
+  describe('Cleaning', () => {
+    test('should order positions by time', () => {
+      const track = new FlightTrack('abc123', 'BAW178', [point(20, 51, 1), point(0, 51, -1), point(10, 51, 0)]);
+
+      expect(track.getPoints().map(p => p.longitude)).toEqual([-1, 0, 1]);
+      expect(track.getStartedAt()).toBe('2026-01-01T12:00:00.000Z');
+      expect(track.getEndedAt()).toBe('2026-01-01T12:20:00.000Z');
+    });
+
+    test('should drop positions without valid coordinates or time', () => {
+      const track = new FlightTrack('abc123', null, [
+        point(0, null, 1),
+        point(1, 95, 1),
+        point(2, 51, 181),
+        point(3, '', 1),
+        point(4, 51, 1, { recorded_at: 'not a date' }),
+        point(5, 51, 1),
+      ]);
+
+      expect(track.getPoints()).toHaveLength(1);
+    });
+
+    test('should keep one position per time', () => {
+      const track = new FlightTrack('abc123', null, [point(0, 51, 1), point(0, 51, 1), point(5, 51, 2)]);
+      expect(track.getPoints()).toHaveLength(2);
+    });
+
+    test('should read decimal strings as numbers', () => {
+      const [first] = new FlightTrack('abc123', null, [
+        point(0, '51.470000', '-0.454300', { altitude: '10668.00', velocity: null, heading: undefined }),
+      ]).getPoints();
+
+      expect(first.latitude).toBe(51.47);
+      expect(first.longitude).toBe(-0.4543);
+      expect(first.altitude).toBe(10668);
+      expect(first.velocity).toBe(0);
+      expect(first.heading).toBe(0);
+    });
+
+    test('should be empty without positions', () => {
+      const track = new FlightTrack('abc123', null, []);
+
+      expect(track.isEmpty()).toBe(true);
+      expect(track.getStartedAt()).toBeNull();
+      expect(track.getDistanceKm()).toBe(0);
+      expect(track.getDurationMinutes()).toBe(0);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Distance and duration
+  // ============================================
+  describe('Distance and duration', () => {
+    test('should sum the distance point to point', () => {
+      // One degree of longitude on the equator is about 111.2 km
+      const track = new FlightTrack('abc123', null, [point(0, 0, 0), point(10, 0, 1), point(20, 0, 2)]);
+      expect(track.getDistanceKm()).toBeCloseTo(222.4, 0);
+    });
+
+    test('should measure the duration from the first to the last position', () => {
+      const track = new FlightTrack('abc123', null, [point(0, 0, 0), point(95, 0, 1)]);
+      expect(track.getDurationMinutes()).toBe(95);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Sampling
+  // ============================================
+  describe('Sampling', () => {
+    const long = new FlightTrack('abc123', 'BAW178', Array.from({ length: 101 }, (_, i) => point(i, 50, i / 10)));
+
+    test('should return short tracks whole', () => {
+      expect(long.sample(200)).toHaveLength(101);
+    });
+
+    test('should thin out long tracks keeping both ends', () => {
+      const sampled = long.sample(11);
+
+      expect(sampled).toHaveLength(11);
+      expect(sampled[0].longitude).toBe(0);
+      expect(sampled[10].longitude).toBe(10);
+      expect(sampled[5].longitude).toBe(5);
+    });
+
+    test('should summarize the whole track in JSON', () => {
+      const json = long.toJSON(11);
+
+      expect(json.icao24).toBe('abc123');
+      expect(json.callsign).toBe('BAW178');
+      expect(json.pointCount).toBe(101);
+      expect(json.durationMinutes).toBe(100);
+      expect(json.points).toHaveLength(11);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit Tests for GreatCircleRoute
+ *
+ * Tests verify:
+ * - Distance and points along the great circle, also across the antimeridian
+ * - Number of samples derived from the distance and its limits
+ * - Timing of samples from departure and arrival
+ * - Segment impact from the weather at both ends
+ */
+
+import {
+  GreatCircleRoute,
+  RouteSample,
+  MAX_ROUTE_SAMPLES,
+  CRUISE_SPEED_KMH,
+} from '../classes/GreatCircleRoute';
+import { ClearWeather, StormWeather, RainWeather } from '../classes/WeatherCondition';
+
+describe('GreatCircleRoute', () => {
+  const LHR = { lat: 51.47, lon: -0.4543 };
+  const NRT = { lat: 35.7647, lon: 140.3864 };
+  const HND = { lat: 35.5494, lon: 139.7798 };
+  const LAX = { lat: 33.9425, lon: -118.4081 };
+
+  // ============================================
+  // TEST SUITE 1: Geometry
+  // ============================================
+  describe('Geometry', () => {
+    test('should measure the great-circle distance', () => {
+      expect(new GreatCircleRoute(LHR, NRT).getDistanceKm()).toBeCloseTo(9590, -2);
+    });
+
+    test('should pass far north of the straight line on the map', () => {
+      // The arithmetic midpoint of London and Tokyo is at about 43.6°N; the flight passes over Siberia
+      const middle = new GreatCircleRoute(LHR, NRT).pointAt(0.5);
+      expect(middle.lat).toBeGreaterThan(60);
+      expect(middle.lon).toBeGreaterThan(60);
+      expect(middle.lon).toBeLessThan(100);
+    });
+
+    test('should cross the antimeridian instead of going round the world', () => {
+      const route = new GreatCircleRoute(HND, LAX);
+      const middle = route.pointAt(0.5);
+
+      expect(route.getDistanceKm()).toBeLessThan(9000);
+      expect(Math.abs(middle.lon)).toBeGreaterThan(150);
+      route.sample(8).forEach(point => expect(Math.abs(point.lon)).toBeLessThanOrEqual(180));
+    });
+
+    test('should reject invalid and antipodal ends', () => {
+      expect(() => new GreatCircleRoute({ lat: 95, lon: 0 }, LAX)).toThrow('Origin coordinates are out of range');
+      expect(GreatCircleRoute.validate({ lat: 0, lon: 0 }, { lat: 0, lon: 180 })).toHaveLength(1);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Sampling
+  // ============================================
+  describe('Sampling', () => {
+    test('should derive the number of samples from the distance', () => {
+      expect(new GreatCircleRoute(NRT, HND).getDefaultSampleCount()).toBe(2);
+      expect(new GreatCircleRoute(LHR, NRT).getDefaultSampleCount()).toBe(MAX_ROUTE_SAMPLES);
+      expect(new GreatCircleRoute(LHR, { lat: 40.6413, lon: -73.7781 }).sample()).toHaveLength(8);
+    });
+
+    test('should start at the origin and end at the destination', () => {
+      const samples = new GreatCircleRoute(LHR, NRT).sample(5);
+
+      expect(samples).toHaveLength(5);
+      expect(samples[0]).toMatchObject({ lat: LHR.lat, lon: LHR.lon, fraction: 0, distanceKm: 0 });
+      expect(samples[4]).toMatchObject({ lat: NRT.lat, lon: NRT.lon, fraction: 1 });
+      expect(samples[2].fraction).toBe(0.5);
+    });
+
+    test('should keep the sample count within limits', () => {
+      const route = new GreatCircleRoute(LHR, NRT);
+      expect(route.sample(1)).toHaveLength(2);
+      expect(route.sample(100)).toHaveLength(MAX_ROUTE_SAMPLES);
+    });
+
+    test('should time samples between departure and arrival', () => {
+      const samples = new GreatCircleRoute(LHR, NRT).sample(
+        3,
+        new Date('2026-03-01T10:00:00Z'),
+        new Date('2026-03-02T00:00:00Z')
+      );
+
+      expect(samples.map(s => s.expectedAt)).toEqual([
+        '2026-03-01T10:00:00.000Z',
+        '2026-03-01T17:00:00.000Z',
+        '2026-03-02T00:00:00.000Z',
+      ]);
+    });
+
+    test('should derive the missing end from the cruise speed', () => {
+      const route = new GreatCircleRoute(LHR, NRT);
+      const arrival = new Date('2026-03-02T00:00:00Z');
+      const samples = route.sample(2, null, arrival);
+      const flightMs = (route.getDistanceKm() / CRUISE_SPEED_KMH) * 3600000;
+
+      expect(new Date(samples[0].expectedAt!).getTime()).toBeCloseTo(arrival.getTime() - flightMs, -3);
+      expect(route.sample(2)[0].expectedAt).toBeNull();
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Segment impact
+  // ============================================
+  describe('Segment impact', () => {
+    const samples: RouteSample[] = new GreatCircleRoute(LHR, NRT).sample(4);
+    const clear = new ClearWeather(15, 3, 50);
+    const storm = new StormWeather(20, 25, 90, 'severe', true);
+
+    test('should rate each segment by the worse of its ends', () => {
+      const segments = GreatCircleRoute.rateSegments(samples, [clear, clear, storm, clear]);
+
+      expect(segments).toHaveLength(3);
+      expect(segments.map(s => s.impact)).toEqual(['none', storm.assessImpact(), storm.assessImpact()]);
+      expect(segments[1].delayFactor).toBe(storm.getDelayFactor());
+      expect(segments[0].from.index).toBe(0);
+      expect(segments[0].to.index).toBe(1);
+    });
+
+    test('should leave segments without weather unrated', () => {
+      const segments = GreatCircleRoute.rateSegments(samples, [clear, null, null, clear]);
+      expect(segments.map(s => s.impact)).toEqual(['none', null, 'none']);
+    });
+
+    test('should weight the delay factor by segment length', () => {
+      const rain = new RainWeather(10, 8, 90, 'heavy');
+      const summary = GreatCircleRoute.summarize(GreatCircleRoute.rateSegments(samples, [rain, rain, null, null]));
+
+      // The last segment has no weather; the other two only see rain
+      expect(summary.averageDelayFactor).toBeCloseTo(rain.getDelayFactor());
+      expect(summary.maxImpact).toBe(rain.assessImpact());
+      expect(GreatCircleRoute.summarize([]).maxImpact).toBe('none');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit Tests for ProofOfDelivery
+ *
+ * Tests verify:
+ * - Recipient, signature, time and condition validation
+ * - Decoding and checking of image data URLs
+ * - Receipt rendering with escaped values
+ */
+
+import { ProofOfDelivery, MAX_DELIVERY_PHOTOS, MAX_SIGNATURE_BYTES } from '../classes/ProofOfDelivery';
+
+const PNG_HEADER = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG_HEADER = [0xff, 0xd8, 0xff, 0xe0];
+
+const dataUrl = (contentType: string, bytes: number[]) =>
+  `data:${contentType};base64,${Buffer.from(bytes).toString('base64')}`;
+
+describe('ProofOfDelivery', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+  const signature = dataUrl('image/png', PNG_HEADER);
+  const photo = dataUrl('image/jpeg', JPEG_HEADER);
+  const delivery = {
+    recipient_name: 'Amara Okafor',
+    signature,
+    delivered_at: '2026-03-10T11:30:00Z',
+    location: 'NBO Cargo Terminal',
+  };
+
+  // ============================================
+  // TEST SUITE 1: Validation
+  // ============================================
+  describe('Validation', () => {
+    test('should accept a valid delivery', () => {
+      expect(ProofOfDelivery.validate(delivery, now)).toEqual([]);
+    });
+
+    test('should require a recipient and a PNG signature', () => {
+      const errors = ProofOfDelivery.validate({ recipient_name: ' ', signature: photo }, now);
+      expect(errors).toContain('Recipient name is required and must be at most 100 characters');
+      expect(errors).toContain('Signature must be a PNG image');
+    });
+
+    test('should reject an oversized signature', () => {
+      const large = dataUrl('image/png', [...PNG_HEADER, ...new Array(MAX_SIGNATURE_BYTES).fill(0)]);
+      expect(ProofOfDelivery.validate({ ...delivery, signature: large }, now))
+        .toContain('Signature must be at most 200 KB');
+    });
+
+    test('should reject delivery times in the future', () => {
+      expect(ProofOfDelivery.validate({ ...delivery, delivered_at: '2026-03-10T13:00:00Z' }, now))
+        .toContain('Delivery time cannot be in the future');
+      expect(ProofOfDelivery.validate({ ...delivery, delivered_at: 'yesterday' }, now))
+        .toContain('Delivery time must be a valid date');
+    });
+
+    test('should require notes when goods are damaged or short', () => {
+      expect(ProofOfDelivery.validate({ ...delivery, condition: 'damaged' }, now))
+        .toContain('Describe the damage or shortage in the condition notes');
+      expect(ProofOfDelivery.validate({ ...delivery, condition: 'shortage', condition_notes: '2 of 5 cartons' }, now))
+        .toEqual([]);
+      expect(ProofOfDelivery.validate({ ...delivery, condition: 'lost' }, now)[0])
+        .toMatch(/Condition must be one of/);
+    });
+
+    test('should limit the number and type of photos', () => {
+      const tooMany = new Array(MAX_DELIVERY_PHOTOS + 1).fill(photo);
+      expect(ProofOfDelivery.validate({ ...delivery, photos: tooMany }, now))
+        .toContain('At most 3 photos can be attached');
+      expect(ProofOfDelivery.validate({ ...delivery, photos: [photo, 'not an image'] }, now))
+        .toContain('Photo 2 must be a PNG or JPEG image');
+    });
+
+    test('should default the delivery time and condition', () => {
+      const proof = new ProofOfDelivery({ recipient_name: 'A. Okafor', signature }, now);
+      expect(proof.getDeliveredAt()).toEqual(now);
+      expect(proof.getCondition()).toBe('good');
+      expect(proof.hasException()).toBe(false);
+    });
+
+    test('should throw on construction with invalid data', () => {
+      expect(() => new ProofOfDelivery({ ...delivery, signature: '' }, now)).toThrow('Signature must be a PNG image');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Images
+  // ============================================
+  describe('Images', () => {
+    test('should decode PNG and JPEG data URLs', () => {
+      expect(ProofOfDelivery.parseImage(signature)).toMatchObject({ contentType: 'image/png', extension: 'png' });
+      expect(ProofOfDelivery.parseImage(photo)).toMatchObject({ contentType: 'image/jpeg', extension: 'jpg' });
+    });
+
+    test('should reject content that does not match the declared format', () => {
+      expect(ProofOfDelivery.parseImage(dataUrl('image/png', JPEG_HEADER))).toBeNull();
+      expect(ProofOfDelivery.parseImage(dataUrl('image/gif', [0x47, 0x49, 0x46, 0x38]))).toBeNull();
+      expect(ProofOfDelivery.parseImage('data:image/png,not-base64')).toBeNull();
+    });
+
+    test('should round-trip stored images as data URLs', () => {
+      const image = ProofOfDelivery.parseImage(photo)!;
+      expect(ProofOfDelivery.toDataUrl(image.content, image.contentType)).toBe(photo);
+      expect(ProofOfDelivery.contentTypeOf('org/ship/delivery/id/signature.png')).toBe('image/png');
+    });
+
+    test('should keep decoded photos on the proof', () => {
+      const proof = new ProofOfDelivery({ ...delivery, photos: [photo, signature] }, now);
+      expect(proof.getPhotos().map(p => p.extension)).toEqual(['jpg', 'png']);
+      expect(proof.getSignature().content.length).toBe(PNG_HEADER.length);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Receipt
+  // ============================================
+  describe('Receipt', () => {
+    const receipt = {
+      tracking_number: 'SKY-1001',
+      awb_number: '176-12345675',
+      origin: 'JFK',
+      destination: 'NBO',
+      recipient_name: '<script>alert(1)</script>',
+      delivered_at: '2026-03-10T11:30:00Z',
+      location: null,
+      condition: 'damaged' as const,
+      condition_notes: 'Crushed corner',
+      recorded_by_email: 'ops@example.com',
+      signature,
+      photos: [photo],
+    };
+
+    test('should include the delivery details', () => {
+      const html = ProofOfDelivery.renderReceipt(receipt);
+      expect(html).toContain('SKY-1001');
+      expect(html).toContain('JFK → NBO');
+      expect(html).toContain('Crushed corner');
+      expect(html).toContain('class="exception">Damaged');
+      expect(html).toContain(`src="${photo}"`);
+    });
+
+    test('should escape user-entered values', () => {
+      const html = ProofOfDelivery.renderReceipt(receipt);
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    });
+  });
+});
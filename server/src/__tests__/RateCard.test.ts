@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for RateCard
+ *
+ * Tests verify:
+ * - Rate card validation
+ * - Lane matching and wildcard precedence
+ * - Weight break selection, break-point pricing and minimum charge
+ * - Cargo-type surcharges
+ */
+
+import { RateCard, RateCardData } from '../classes/RateCard';
+
+describe('RateCard', () => {
+  const data: RateCardData = {
+    origin: 'JFK',
+    destination: 'LHR',
+    currency: 'usd',
+    minimum_charge: 75,
+    rate_minus_45: 4.0,
+    rate_plus_45: 3.0,
+    rate_plus_100: 2.5,
+    rate_plus_300: 2.0,
+    surcharges: { hazardous: 50, perishable: 20 },
+  };
+
+  // ============================================
+  // TEST SUITE 1: Validation
+  // ============================================
+  describe('Validation', () => {
+    test('should accept a valid rate card', () => {
+      expect(RateCard.validate(data)).toEqual([]);
+    });
+
+    test('should reject missing rates and bad currency', () => {
+      const errors = RateCard.validate({ ...data, currency: 'US', rate_plus_100: 0 });
+      expect(errors).toContain('Currency must be a 3-letter ISO code');
+      expect(errors).toContain('Rate for the +100 kg break must be a positive number');
+    });
+
+    test('should only allow surcharges for known cargo types', () => {
+      const errors = RateCard.validate({ ...data, surcharges: { oversized: 10 } }, ['general', 'hazardous']);
+      expect(errors).toContain('Surcharge cargo type must be one of: general, hazardous');
+    });
+
+    test('should normalize lane and currency', () => {
+      const card = new RateCard({ ...data, origin: ' jfk ' });
+      expect(card.getOrigin()).toBe('JFK');
+      expect(card.getCurrency()).toBe('USD');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Lane Matching
+  // ============================================
+  describe('Lane matching', () => {
+    const exact = new RateCard({ ...data, id: 1 });
+    const anyOrigin = new RateCard({ ...data, id: 2, origin: '*' });
+    const anyDestination = new RateCard({ ...data, id: 3, destination: '*' });
+    const anyLane = new RateCard({ ...data, id: 4, origin: '*', destination: '*' });
+    const cards = [anyLane, anyDestination, anyOrigin, exact];
+
+    test('should match case-insensitively', () => {
+      expect(exact.matches('jfk', 'lhr')).toBe(true);
+      expect(exact.matches('JFK', 'CDG')).toBe(false);
+    });
+
+    test('should prefer the most specific card', () => {
+      expect(RateCard.findBestMatch(cards, 'JFK', 'LHR')?.getId()).toBe(1);
+      expect(RateCard.findBestMatch(cards, 'EWR', 'LHR')?.getId()).toBe(2);
+      expect(RateCard.findBestMatch(cards, 'JFK', 'CDG')?.getId()).toBe(3);
+      expect(RateCard.findBestMatch(cards, 'EWR', 'CDG')?.getId()).toBe(4);
+    });
+
+    test('should return null when no card matches', () => {
+      expect(RateCard.findBestMatch([exact], 'EWR', 'CDG')).toBeNull();
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Weight Breaks
+  // ============================================
+  describe('Weight breaks', () => {
+    const card = new RateCard(data);
+
+    test('should apply the minimum charge to small shipments', () => {
+      const quote = card.quote(10);
+      expect(quote.weight_break).toBe('minimum');
+      expect(quote.freight_charge).toBe(75);
+    });
+
+    test('should use the break the weight falls into', () => {
+      expect(card.quote(30).weight_break).toBe('-45');
+      expect(card.quote(30).freight_charge).toBe(120);
+      expect(card.quote(150).weight_break).toBe('+100');
+      expect(card.quote(150).freight_charge).toBe(375);
+      expect(card.quote(500).freight_charge).toBe(1000);
+    });
+
+    test('should charge at the next break when that is cheaper', () => {
+      // 40 kg × 4.00 = 160, but 45 kg × 3.00 = 135
+      const quote = card.quote(40);
+      expect(quote.weight_break).toBe('+45');
+      expect(quote.rate_per_kg).toBe(3);
+      expect(quote.freight_charge).toBe(135);
+    });
+
+    test('should reject non-positive weights', () => {
+      expect(() => card.quote(0)).toThrow('Chargeable weight must be a positive number');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 4: Surcharges
+  // ============================================
+  describe('Surcharges', () => {
+    const card = new RateCard(data);
+
+    test('should add the cargo-type surcharge', () => {
+      const quote = card.quote(150, 'hazardous');
+      expect(quote.surcharge_percent).toBe(50);
+      expect(quote.surcharge).toBe(187.5);
+      expect(quote.total).toBe(562.5);
+      expect(quote.currency).toBe('USD');
+    });
+
+    test('should not surcharge other cargo types', () => {
+      const quote = card.quote(150, 'general');
+      expect(quote.surcharge).toBe(0);
+      expect(quote.total).toBe(375);
+    });
+  });
+});
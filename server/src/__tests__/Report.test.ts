@@ -337,19 +337,42 @@ describe('Report Classes', () => {
       expect(config.columns.map(c => c.key)).toContain('on_time_percentage');
     });
 
-    test('should have at least 8 columns in shipment activity report', () => {
+    test('should have 12 columns in shipment activity report', () => {
       const config = ReportTemplates.shipmentActivity();
-      expect(config.columns.length).toBe(8);
+      expect(config.columns.length).toBe(12);
     });
 
-    test('should have at least 8 columns in weather impact report', () => {
+    test('should include weight breakdown columns in shipment activity report', () => {
+      const keys = ReportTemplates.shipmentActivity().columns.map(c => c.key);
+      expect(keys).toContain('total_pieces');
+      expect(keys).toContain('volumetric_weight_kg');
+      expect(keys).toContain('chargeable_weight_kg');
+    });
+
+    test('should have 9 columns in weather impact report', () => {
       const config = ReportTemplates.weatherImpact();
-      expect(config.columns.length).toBe(8);
+      expect(config.columns.length).toBe(9);
+    });
+
+    test('should separate weather impacts from temperature excursions', () => {
+      const keys = ReportTemplates.weatherImpact().columns.map(c => c.key);
+      expect(keys).toContain('impact_type');
     });
 
-    test('should have at least 8 columns in route performance report', () => {
+    test('should have 11 columns in route performance report', () => {
       const config = ReportTemplates.routePerformance();
-      expect(config.columns.length).toBe(8);
+      expect(config.columns.length).toBe(11);
+    });
+
+    test('should break down delay reasons in route performance report', () => {
+      const keys = ReportTemplates.routePerformance().columns.map(c => c.key);
+      expect(keys).toContain('delay_reasons');
+    });
+
+    test('should include customs dwell time in route performance report', () => {
+      const keys = ReportTemplates.routePerformance().columns.map(c => c.key);
+      expect(keys).toContain('avg_customs_dwell_hours');
+      expect(keys).toContain('customs_holds');
     });
   });
 
@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for RequestCache
+ *
+ * Tests verify:
+ * - Responses are reused until their TTL ends
+ * - Concurrent identical requests share one fetch
+ * - Failed fetches are not cached
+ * - Coordinate keys round nearby points together
+ * - Bounded concurrency keeps result order
+ */
+
+import { RequestCache, mapWithConcurrency } from '../classes/RequestCache';
+
+describe('RequestCache', () => {
+  let time: number;
+  const clock = () => time;
+
+  beforeEach(() => {
+    time = 0;
+  });
+
+  // ============================================
+  // TEST SUITE 1: Caching
+  // ============================================
+  describe('Caching', () => {
+    test('should reuse a response until the TTL ends', async () => {
+      const cache = new RequestCache<number>(1000, 10, clock);
+      const fetch = jest.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+      expect(await cache.get('a', fetch)).toBe(1);
+      time = 999;
+      expect(await cache.get('a', fetch)).toBe(1);
+      time = 1000;
+      expect(await cache.get('a', fetch)).toBe(2);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should share one fetch between concurrent requests', async () => {
+      const cache = new RequestCache<string>(1000, 10, clock);
+      let resolve: (value: string) => void = () => undefined;
+      const fetch = jest.fn(() => new Promise<string>(r => { resolve = r; }));
+
+      const first = cache.get('a', fetch);
+      const second = cache.get('a', fetch);
+      resolve('weather');
+
+      expect(await Promise.all([first, second])).toEqual(['weather', 'weather']);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not cache failed fetches', async () => {
+      const cache = new RequestCache<string | null>(1000, 10, clock);
+
+      await expect(cache.get('a', () => Promise.reject(new Error('down')))).rejects.toThrow('down');
+      expect(await cache.get('a', async () => null)).toBeNull();
+      expect(cache.size()).toBe(0);
+      expect(await cache.get('a', async () => 'ok')).toBe('ok');
+    });
+
+    test('should drop the oldest entry when full', async () => {
+      const cache = new RequestCache<number>(1000, 2, clock);
+      await cache.get('a', async () => 1);
+      await cache.get('b', async () => 2);
+      await cache.get('c', async () => 3);
+
+      expect(cache.size()).toBe(2);
+      expect(await cache.get('a', async () => 10)).toBe(10);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Keys and concurrency
+  // ============================================
+  describe('Keys and concurrency', () => {
+    test('should round coordinates into one key', () => {
+      expect(RequestCache.coordinateKey(51.4700, -0.4543)).toBe('51.47,-0.45');
+      expect(RequestCache.coordinateKey(51.4712, -0.4511)).toBe(RequestCache.coordinateKey(51.4700, -0.4543));
+      expect(RequestCache.coordinateKey(-0.001, 0.001)).toBe('0.00,0.00');
+    });
+
+    test('should run at most the limit at a time and keep order', async () => {
+      let running = 0;
+      let peak = 0;
+
+      const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(r => setTimeout(r, ms));
+        running--;
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2, 3, 4]);
+      expect(peak).toBe(2);
+      expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for ScheduledJob
+ *
+ * Tests verify:
+ * - Job definition validation
+ * - Lease acquisition and expiry
+ * - Run outcomes and history columns
+ */
+
+import { ScheduledJob, ScheduledJobData, JobRun } from '../classes/ScheduledJob';
+
+describe('ScheduledJob', () => {
+  const data: ScheduledJobData = {
+    name: 'refresh-flights',
+    schedule: '*/10 * * * *',
+    description: 'Refresh assigned flights',
+    lease_minutes: 5,
+  };
+
+  // ============================================
+  // TEST SUITE 1: Validation
+  // ============================================
+  describe('Validation', () => {
+    test('should accept a valid job', () => {
+      expect(ScheduledJob.validate(data)).toEqual([]);
+      expect(ScheduledJob.validate({ ...data, lease_minutes: undefined })).toEqual([]);
+    });
+
+    test('should reject bad names and cron expressions', () => {
+      const errors = ScheduledJob.validate({ ...data, name: 'Refresh Flights', schedule: 'every minute' });
+      expect(errors).toContain('Job name must be 2-50 lowercase letters, digits or hyphens');
+      expect(errors).toContain("Schedule of job 'Refresh Flights' must be a valid cron expression");
+    });
+
+    test('should require a description and a bounded lease', () => {
+      const errors = ScheduledJob.validate({ ...data, description: ' ', lease_minutes: 0 });
+      expect(errors).toContain('Job description is required');
+      expect(errors).toContain('Lease must be between 1 and 1440 minutes');
+    });
+
+    test('should throw the first error from the constructor', () => {
+      expect(() => new ScheduledJob({ ...data, schedule: '61 * * * *' }))
+        .toThrow("Schedule of job 'refresh-flights' must be a valid cron expression");
+    });
+
+    test('should default the lease to 10 minutes', () => {
+      expect(new ScheduledJob({ ...data, lease_minutes: undefined }).toJSON().lease_minutes).toBe(10);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Leases
+  // ============================================
+  describe('Leases', () => {
+    const job = new ScheduledJob(data);
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    test('should be acquirable when nobody holds it', () => {
+      expect(job.canAcquire({ locked_by: null, locked_until: null }, now)).toBe(true);
+    });
+
+    test('should not be acquirable while another run holds an unexpired lease', () => {
+      expect(job.canAcquire({ locked_by: 'host-a:1', locked_until: '2026-03-01T12:03:00Z' }, now)).toBe(false);
+    });
+
+    test('should be taken over once the lease expires', () => {
+      expect(job.canAcquire({ locked_by: 'host-a:1', locked_until: '2026-03-01T11:59:59Z' }, now)).toBe(true);
+    });
+
+    test('should lease the job for its lease time', () => {
+      expect(job.leaseUntil(now).toISOString()).toBe('2026-03-01T12:05:00.000Z');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Runs
+  // ============================================
+  describe('Runs', () => {
+    const startedAt = new Date('2026-03-01T12:00:00Z');
+    const finishedAt = new Date('2026-03-01T12:00:02.500Z');
+
+    test('should start running', () => {
+      const run = new JobRun('refresh-flights', 'host-a:1', startedAt);
+      expect(run.getStatus()).toBe('running');
+      expect(run.getDurationMs()).toBeNull();
+      expect(run.toJSON()).toMatchObject({ status: 'running', finished_at: null, items_processed: null });
+    });
+
+    test('should record a success with the items processed', () => {
+      const run = new JobRun('refresh-flights', 'host-a:1', startedAt);
+      run.succeed(12, finishedAt);
+      expect(run.getDurationMs()).toBe(2500);
+      expect(run.toJSON()).toEqual({
+        job_name: 'refresh-flights',
+        instance_id: 'host-a:1',
+        status: 'succeeded',
+        started_at: '2026-03-01T12:00:00.000Z',
+        finished_at: '2026-03-01T12:00:02.500Z',
+        items_processed: 12,
+        error: null,
+      });
+    });
+
+    test('should record a failure with a truncated message', () => {
+      const run = new JobRun('record-weather', 'host-a:1', startedAt);
+      run.fail(new Error('x'.repeat(2000)), finishedAt);
+      expect(run.getStatus()).toBe('failed');
+      expect(run.getError()).toHaveLength(1000);
+    });
+
+    test('should not finish twice', () => {
+      const run = new JobRun('refresh-flights', 'host-a:1', startedAt);
+      run.succeed(1, finishedAt);
+      expect(() => run.fail('late error')).toThrow("Run of job 'refresh-flights' has already succeeded");
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit Tests for ServiceLevel
+ *
+ * Tests verify:
+ * - SLA target validation
+ * - Target matching by lane and service level
+ * - Slack evaluation and breach prediction
+ * - Escalation steps
+ */
+
+import { SlaTarget, SlaTargetData, SlaEvaluation, ESCALATION_STEPS } from '../classes/ServiceLevel';
+
+describe('ServiceLevel', () => {
+  const data: SlaTargetData = {
+    origin: 'JFK',
+    destination: 'LHR',
+    service_level: 'express',
+    transit_hours: 48,
+    at_risk_hours: 6,
+  };
+
+  // ============================================
+  // TEST SUITE 1: Validation
+  // ============================================
+  describe('Validation', () => {
+    test('should accept a valid target', () => {
+      expect(SlaTarget.validate(data)).toEqual([]);
+      expect(SlaTarget.validate({ ...data, service_level: '*', at_risk_hours: undefined })).toEqual([]);
+    });
+
+    test('should reject unknown service levels and bad transit times', () => {
+      const errors = SlaTarget.validate({ ...data, service_level: 'overnight', transit_hours: 0 });
+      expect(errors).toContain("Service level must be '*' or one of: standard, express, priority");
+      expect(errors).toContain('Transit time must be between 1 and 2160 hours');
+    });
+
+    test('should require the at-risk threshold to be shorter than the transit time', () => {
+      expect(SlaTarget.validate({ ...data, at_risk_hours: 48 }))
+        .toContain('At-risk threshold must be shorter than the transit time');
+    });
+
+    test('should normalize the lane and default the at-risk threshold', () => {
+      const target = new SlaTarget({ ...data, origin: ' jfk ', service_level: 'Express', at_risk_hours: undefined });
+      expect(target.toJSON()).toMatchObject({ origin: 'JFK', service_level: 'express', at_risk_hours: 12 });
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Matching
+  // ============================================
+  describe('Matching', () => {
+    const exact = new SlaTarget({ ...data, id: 1 });
+    const anyLevel = new SlaTarget({ ...data, id: 2, service_level: '*', transit_hours: 72 });
+    const expressAnywhere = new SlaTarget({ ...data, id: 3, origin: '*', destination: '*', transit_hours: 36 });
+    const fallback = new SlaTarget({ ...data, id: 4, origin: '*', destination: '*', service_level: '*', transit_hours: 120 });
+    const targets = [fallback, expressAnywhere, anyLevel, exact];
+
+    test('should prefer the most specific target', () => {
+      expect(SlaTarget.findBestMatch(targets, 'jfk', 'lhr', 'express')?.getId()).toBe(1);
+    });
+
+    test('should rank a fixed service level above a fixed lane', () => {
+      expect(SlaTarget.findBestMatch(targets, 'JFK', 'CDG', 'express')?.getId()).toBe(3);
+      expect(SlaTarget.findBestMatch(targets, 'JFK', 'LHR', 'priority')?.getId()).toBe(2);
+    });
+
+    test('should treat a missing service level as standard', () => {
+      expect(SlaTarget.findBestMatch([exact, anyLevel], 'JFK', 'LHR', null)?.getId()).toBe(2);
+      expect(SlaTarget.findBestMatch([exact], 'JFK', 'LHR', undefined)).toBeNull();
+    });
+
+    test('should promise delivery transit hours after booking', () => {
+      expect(exact.dueFrom('2026-03-01T00:00:00Z').toISOString()).toBe('2026-03-03T00:00:00.000Z');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Evaluation
+  // ============================================
+  describe('Evaluation', () => {
+    const now = new Date('2026-03-02T12:00:00Z');
+    const due = '2026-03-03T00:00:00Z';
+
+    test('should be on track with enough slack', () => {
+      const evaluation = new SlaEvaluation({ due_at: due, estimated_arrival: '2026-03-02T14:00:00Z', at_risk_hours: 6 }, now);
+      expect(evaluation.getStatus()).toBe('on_track');
+      expect(evaluation.getSlackHours()).toBe(10);
+      expect(evaluation.getEscalationStep()).toBeNull();
+    });
+
+    test('should flag little slack as at risk', () => {
+      const evaluation = new SlaEvaluation({ due_at: due, estimated_arrival: '2026-03-02T20:30:00Z', at_risk_hours: 6 }, now);
+      expect(evaluation.getStatus()).toBe('at_risk');
+      expect(evaluation.getSlackHours()).toBe(3.5);
+      expect(evaluation.isAtRisk()).toBe(true);
+    });
+
+    test('should predict a breach when the ETA is after the promised delivery', () => {
+      const evaluation = new SlaEvaluation({ due_at: due, estimated_arrival: '2026-03-03T05:00:00Z' }, now);
+      expect(evaluation.getStatus()).toBe('breach_predicted');
+      expect(evaluation.getSlackHours()).toBe(-5);
+      expect(evaluation.isBreached()).toBe(false);
+    });
+
+    test('should treat a passed ETA as arriving now', () => {
+      const evaluation = new SlaEvaluation({ due_at: due, estimated_arrival: '2026-03-01T00:00:00Z', at_risk_hours: 6 }, now);
+      expect(evaluation.getSlackHours()).toBe(12);
+      expect(evaluation.getStatus()).toBe('on_track');
+    });
+
+    test('should be breached once overdue without arrival', () => {
+      const evaluation = new SlaEvaluation({ due_at: due }, new Date('2026-03-03T01:00:00Z'));
+      expect(evaluation.isBreached()).toBe(true);
+      expect(evaluation.getEscalationStep()?.level).toBe(3);
+    });
+
+    test('should judge arrived shipments by the actual arrival', () => {
+      const later = new Date('2026-03-05T00:00:00Z');
+      expect(new SlaEvaluation({ due_at: due, arrived_at: '2026-03-02T23:00:00Z' }, later).getStatus()).toBe('met');
+      expect(new SlaEvaluation({ due_at: due, arrived_at: '2026-03-03T02:00:00Z' }, later).getStatus()).toBe('breached');
+    });
+
+    test('should reject an invalid promised delivery', () => {
+      expect(() => new SlaEvaluation({ due_at: 'soon' })).toThrow('Promised delivery must be a valid date');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 4: Escalation
+  // ============================================
+  describe('Escalation', () => {
+    test('should escalate to a higher level as the position worsens', () => {
+      expect(ESCALATION_STEPS.map(step => [step.sla_status, step.level, step.notify_role])).toEqual([
+        ['at_risk', 1, 'dispatcher'],
+        ['breach_predicted', 2, 'admin'],
+        ['breached', 3, 'admin'],
+      ]);
+    });
+  });
+});
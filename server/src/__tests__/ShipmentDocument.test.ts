@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for ShipmentDocument
+ *
+ * Tests verify:
+ * - Document type, file type and size limits
+ * - File signatures must match the declared type
+ * - File name sanitizing and storage keys
+ */
+
+import { ShipmentDocument, MAX_DOCUMENT_BYTES } from '../classes/ShipmentDocument';
+
+describe('ShipmentDocument', () => {
+  const pdfBytes = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37]);
+  const invoice = {
+    file_name: 'invoice.pdf',
+    content_type: 'application/pdf',
+    document_type: 'commercial_invoice',
+    content: pdfBytes,
+  };
+
+  // ============================================
+  // TEST SUITE 1: Validation
+  // ============================================
+  describe('Validation', () => {
+    test('should accept a valid PDF', () => {
+      expect(ShipmentDocument.validate(invoice)).toEqual([]);
+    });
+
+    test('should reject unknown document types', () => {
+      expect(ShipmentDocument.validate({ ...invoice, document_type: 'receipt' })[0])
+        .toMatch(/Document type must be one of/);
+    });
+
+    test('should reject file types that are not allowed', () => {
+      const errors = ShipmentDocument.validate({
+        ...invoice,
+        file_name: 'setup.exe',
+        content_type: 'application/x-msdownload',
+      });
+      expect(errors[0]).toMatch(/File type not allowed/);
+    });
+
+    test('should reject an extension that does not match the type', () => {
+      expect(ShipmentDocument.validate({ ...invoice, file_name: 'invoice.png' }))
+        .toContain('File extension does not match application/pdf');
+    });
+
+    test('should reject empty and oversized files', () => {
+      expect(ShipmentDocument.validate({ ...invoice, content: new Uint8Array(0) }))
+        .toContain('File is empty');
+
+      const large = new Uint8Array(MAX_DOCUMENT_BYTES + 1);
+      large.set(pdfBytes);
+      expect(ShipmentDocument.validate({ ...invoice, content: large }))
+        .toContain('File must be at most 10 MB');
+    });
+
+    test('should throw on construction with invalid data', () => {
+      expect(() => new ShipmentDocument({ ...invoice, file_name: '' })).toThrow('File name is required');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: File signatures
+  // ============================================
+  describe('File signatures', () => {
+    test('should reject content that is not of the declared type', () => {
+      const errors = ShipmentDocument.validate({ ...invoice, content: new Uint8Array([0x4d, 0x5a, 0x90, 0x00]) });
+      expect(errors).toContain('File content is not a valid application/pdf file');
+    });
+
+    test('should accept both TIFF byte orders', () => {
+      const tiff = { ...invoice, file_name: 'scan.tif', content_type: 'image/tiff' };
+      expect(ShipmentDocument.validate({ ...tiff, content: new Uint8Array([0x49, 0x49, 0x2a, 0x00]) })).toEqual([]);
+      expect(ShipmentDocument.validate({ ...tiff, content: new Uint8Array([0x4d, 0x4d, 0x00, 0x2a]) })).toEqual([]);
+    });
+
+    test('should accept CSV without a signature', () => {
+      const csv = {
+        ...invoice,
+        document_type: 'packing_list',
+        file_name: 'packing.csv',
+        content_type: 'text/csv; charset=utf-8',
+        content: new TextEncoder().encode('piece,weight\n1,20\n'),
+      };
+      const document = new ShipmentDocument(csv);
+      expect(document.getContentType()).toBe('text/csv');
+      expect(document.getSize()).toBe(csv.content.length);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: File names and storage keys
+  // ============================================
+  describe('File names and storage keys', () => {
+    test('should strip directories and control characters', () => {
+      expect(ShipmentDocument.sanitizeFileName('../../etc/passwd')).toBe('passwd');
+      expect(ShipmentDocument.sanitizeFileName('C:\\scans\\awb "1".pdf')).toBe('awb 1.pdf');
+      expect(ShipmentDocument.sanitizeFileName('inv\u0000oice.pdf')).toBe('invoice.pdf');
+    });
+
+    test('should keep the sanitized name on the document', () => {
+      const document = new ShipmentDocument({ ...invoice, file_name: 'docs/invoice.pdf' });
+      expect(document.getFileName()).toBe('invoice.pdf');
+      expect(document.getDocumentType()).toBe('commercial_invoice');
+    });
+
+    test('should build storage keys from ids only', () => {
+      expect(ShipmentDocument.storageKey('org', 'ship', 'doc')).toBe('org/ship/doc');
+    });
+  });
+});
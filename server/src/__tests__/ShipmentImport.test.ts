@@ -0,0 +1,152 @@
+/**
+ * Unit Tests for ShipmentImportParser
+ *
+ * Tests verify:
+ * - CSV and JSON uploads produce the same rows
+ * - Values are coerced to the right types
+ * - Import keys are stable across re-uploads
+ * - Malformed files are rejected
+ */
+
+import { ShipmentImportParser, MAX_IMPORT_ROWS } from '../classes/ShipmentImport';
+
+describe('ShipmentImportParser', () => {
+  const csv = [
+    'Origin,Destination,Cargo Type,Weight KG,Estimated Arrival',
+    'JFK,LHR,General,250,2026-03-01T12:00:00Z',
+    '"Frankfurt, FRA",NBO,perishable,,',
+  ].join('\r\n');
+
+  // ============================================
+  // TEST SUITE 1: CSV Parsing
+  // ============================================
+  describe('CSV parsing', () => {
+    test('should parse rows using normalized headers', () => {
+      const rows = ShipmentImportParser.parse(csv, 'csv');
+      expect(rows.length).toBe(2);
+      expect(rows[0].data).toEqual({
+        origin: 'JFK',
+        destination: 'LHR',
+        cargo_type: 'general',
+        weight_kg: 250,
+        estimated_arrival: '2026-03-01T12:00:00.000Z',
+      });
+    });
+
+    test('should handle quoted fields containing commas', () => {
+      const rows = ShipmentImportParser.parse(csv, 'csv');
+      expect(rows[1].data.origin).toBe('Frankfurt, FRA');
+      expect(rows[1].data.weight_kg).toBeUndefined();
+    });
+
+    test('should handle escaped quotes', () => {
+      const records = ShipmentImportParser.parseCsv('origin,destination\n"Say ""Hi""",LHR\n');
+      expect(records[0].origin).toBe('Say "Hi"');
+    });
+
+    test('should strip separators from AWB numbers', () => {
+      const rows = ShipmentImportParser.parse('origin,destination,awb_number\nJFK,LHR,176-1234 5675', 'csv');
+      expect(rows[0].data.awb_number).toBe('17612345675');
+    });
+
+    test('should skip blank lines', () => {
+      const rows = ShipmentImportParser.parse('origin,destination\n\nJFK,LHR\n\n', 'csv');
+      expect(rows.length).toBe(1);
+    });
+
+    test('should require origin and destination columns', () => {
+      expect(() => ShipmentImportParser.parse('from,to\nJFK,LHR', 'csv'))
+        .toThrow('CSV header must include origin and destination columns');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: JSON Parsing
+  // ============================================
+  describe('JSON parsing', () => {
+    test('should accept an array of shipments', () => {
+      const rows = ShipmentImportParser.parse(
+        JSON.stringify([{ origin: 'JFK', destination: 'LHR', weight_kg: 250 }]),
+        'json'
+      );
+      expect(rows[0].data).toEqual({ origin: 'JFK', destination: 'LHR', weight_kg: 250 });
+    });
+
+    test('should accept a { shipments } wrapper', () => {
+      const rows = ShipmentImportParser.parse(
+        JSON.stringify({ shipments: [{ origin: 'JFK', destination: 'LHR' }] }),
+        'json'
+      );
+      expect(rows.length).toBe(1);
+    });
+
+    test('should keep legs from JSON rows', () => {
+      const legs = [
+        { origin: 'JFK', destination: 'FRA' },
+        { origin: 'FRA', destination: 'NBO' },
+      ];
+      const rows = ShipmentImportParser.parse(
+        JSON.stringify([{ origin: 'JFK', destination: 'NBO', legs }]),
+        'json'
+      );
+      expect(rows[0].data.legs).toEqual(legs);
+    });
+
+    test('should reject malformed JSON', () => {
+      expect(() => ShipmentImportParser.parse('{ nope', 'json')).toThrow('File is not valid JSON');
+      expect(() => ShipmentImportParser.parse('{"origin":"JFK"}', 'json'))
+        .toThrow('JSON must be an array of shipments');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Row Errors
+  // ============================================
+  describe('Row errors', () => {
+    test('should report non-numeric values', () => {
+      const rows = ShipmentImportParser.parse('origin,destination,weight_kg\nJFK,LHR,heavy', 'csv');
+      expect(rows[0].errors).toContain('weight_kg must be a number');
+    });
+
+    test('should report invalid dates', () => {
+      const rows = ShipmentImportParser.parse('origin,destination,estimated_arrival\nJFK,LHR,soon', 'csv');
+      expect(rows[0].errors).toContain("Estimated arrival 'soon' is not a valid date");
+    });
+
+    test('should reject empty files', () => {
+      expect(() => ShipmentImportParser.parse('origin,destination\n', 'csv'))
+        .toThrow('File contains no shipment rows');
+    });
+
+    test('should reject files over the row limit', () => {
+      const body = Array(MAX_IMPORT_ROWS + 1).fill('JFK,LHR').join('\n');
+      expect(() => ShipmentImportParser.parse(`origin,destination\n${body}`, 'csv'))
+        .toThrow(`maximum is ${MAX_IMPORT_ROWS}`);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 4: Import Keys
+  // ============================================
+  describe('Import keys', () => {
+    test('should produce the same keys when the file is uploaded again', () => {
+      const first = ShipmentImportParser.parse(csv, 'csv').map(row => row.importKey);
+      const second = ShipmentImportParser.parse(csv, 'csv').map(row => row.importKey);
+      expect(second).toEqual(first);
+    });
+
+    test('should match equivalent CSV and JSON rows', () => {
+      const fromCsv = ShipmentImportParser.parse('origin,destination,weight_kg\nJFK,LHR,250', 'csv');
+      const fromJson = ShipmentImportParser.parse(
+        JSON.stringify([{ origin: 'jfk', destination: 'lhr', weight_kg: '250' }]),
+        'json'
+      );
+      expect(fromJson[0].importKey).toBe(fromCsv[0].importKey);
+    });
+
+    test('should give identical rows in one file distinct keys', () => {
+      const rows = ShipmentImportParser.parse('origin,destination\nJFK,LHR\nJFK,LHR', 'csv');
+      expect(rows[0].importKey).not.toBe(rows[1].importKey);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for ShipmentRoute
+ *
+ * Tests verify:
+ * - Legs are ordered by sequence
+ * - Shipment status is derived from leg statuses
+ * - ETA is taken from the final leg, departure from the first
+ * - Leg connectivity validation
+ */
+
+import { ShipmentRoute, RouteLeg } from '../classes/ShipmentRoute';
+
+describe('ShipmentRoute', () => {
+  const buildLegs = (firstStatus: string, secondStatus: string): RouteLeg[] => [
+    {
+      sequence: 2,
+      origin: 'FRA',
+      destination: 'NBO',
+      status: secondStatus,
+      planned_departure: '2026-03-02T08:00:00Z',
+      planned_arrival: '2026-03-02T16:00:00Z',
+    },
+    {
+      sequence: 1,
+      origin: 'JFK',
+      destination: 'FRA',
+      status: firstStatus,
+      planned_departure: '2026-03-01T20:00:00Z',
+      planned_arrival: '2026-03-02T06:00:00Z',
+    },
+  ];
+
+  // ============================================
+  // TEST SUITE 1: Leg Ordering
+  // ============================================
+  describe('Leg ordering', () => {
+    test('should sort legs by sequence', () => {
+      const route = new ShipmentRoute(buildLegs('pending', 'pending'));
+      expect(route.getLegs().map(leg => leg.origin)).toEqual(['JFK', 'FRA']);
+    });
+
+    test('should report origin and destination of the whole route', () => {
+      const route = new ShipmentRoute(buildLegs('pending', 'pending'));
+      expect(route.getOrigin()).toBe('JFK');
+      expect(route.getDestination()).toBe('NBO');
+      expect(route.isMultiLeg()).toBe(true);
+    });
+
+    test('should handle an empty route', () => {
+      const route = new ShipmentRoute([]);
+      expect(route.getOrigin()).toBeNull();
+      expect(route.getCurrentLeg()).toBeNull();
+      expect(route.deriveStatus()).toBeNull();
+      expect(route.getEstimatedArrival()).toBeNull();
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Status Derivation
+  // ============================================
+  describe('Status derivation', () => {
+    test('should be pending before the first leg departs', () => {
+      expect(new ShipmentRoute(buildLegs('pending', 'pending')).deriveStatus()).toBe('pending');
+    });
+
+    test('should be departed when the first leg departs', () => {
+      expect(new ShipmentRoute(buildLegs('departed', 'pending')).deriveStatus()).toBe('departed');
+    });
+
+    test('should be in transit while waiting at the hub', () => {
+      expect(new ShipmentRoute(buildLegs('arrived', 'pending')).deriveStatus()).toBe('in_transit');
+    });
+
+    test('should be in transit on a later leg', () => {
+      expect(new ShipmentRoute(buildLegs('arrived', 'departed')).deriveStatus()).toBe('in_transit');
+    });
+
+    test('should be delayed when any leg is delayed', () => {
+      expect(new ShipmentRoute(buildLegs('arrived', 'delayed')).deriveStatus()).toBe('delayed');
+    });
+
+    test('should be arrived when every leg has arrived', () => {
+      expect(new ShipmentRoute(buildLegs('arrived', 'arrived')).deriveStatus()).toBe('arrived');
+    });
+
+    test('should be cancelled when every leg is cancelled', () => {
+      expect(new ShipmentRoute(buildLegs('cancelled', 'cancelled')).deriveStatus()).toBe('cancelled');
+    });
+
+    test('should return the first unfinished leg as current', () => {
+      const route = new ShipmentRoute(buildLegs('arrived', 'pending'));
+      expect(route.getCurrentLeg()?.origin).toBe('FRA');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: ETA
+  // ============================================
+  describe('Estimated arrival', () => {
+    test('should use the planned arrival of the final leg', () => {
+      const route = new ShipmentRoute(buildLegs('pending', 'pending'));
+      expect(route.getEstimatedArrival()?.toISOString()).toBe('2026-03-02T16:00:00.000Z');
+    });
+
+    test('should prefer the actual arrival once landed', () => {
+      const legs = buildLegs('arrived', 'arrived');
+      legs[0].actual_arrival = '2026-03-02T17:30:00Z';
+      const route = new ShipmentRoute(legs);
+      expect(route.getEstimatedArrival()?.toISOString()).toBe('2026-03-02T17:30:00.000Z');
+    });
+
+    test('should depart with the first leg, preferring the actual departure', () => {
+      const legs = buildLegs('departed', 'pending');
+      expect(new ShipmentRoute(legs).getDeparture()?.toISOString()).toBe('2026-03-01T20:00:00.000Z');
+
+      legs[1].actual_departure = '2026-03-01T20:45:00Z';
+      expect(new ShipmentRoute(legs).getDeparture()?.toISOString()).toBe('2026-03-01T20:45:00.000Z');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 4: Validation
+  // ============================================
+  describe('Validation', () => {
+    test('should accept connected legs', () => {
+      expect(new ShipmentRoute(buildLegs('pending', 'pending')).validate()).toEqual([]);
+    });
+
+    test('should reject disconnected legs', () => {
+      const legs = buildLegs('pending', 'pending');
+      legs[0].origin = 'CDG';
+      const errors = new ShipmentRoute(legs).validate();
+      expect(errors).toContain('Leg 1 ends at FRA but Leg 2 starts at CDG');
+    });
+
+    test('should reject overlapping schedules', () => {
+      const legs = buildLegs('pending', 'pending');
+      legs[0].planned_departure = '2026-03-02T05:00:00Z';
+      const errors = new ShipmentRoute(legs).validate();
+      expect(errors).toContain('Leg 2 departs before Leg 1 arrives');
+    });
+
+    test('should reject a leg with the same origin and destination', () => {
+      const errors = new ShipmentRoute([
+        { sequence: 1, origin: 'JFK', destination: 'jfk', status: 'pending' },
+      ]).validate();
+      expect(errors).toContain('Leg 1: origin and destination cannot be the same');
+    });
+  });
+});
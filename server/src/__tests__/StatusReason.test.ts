@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for StatusReason
+ *
+ * Tests verify:
+ * - Validation of reason codes and free text
+ * - Reasons required by the workflow for delayed and cancelled shipments
+ * - Summaries used by the route performance report
+ */
+
+import { StatusReason, STATUS_REASON_CODES } from '../classes/StatusReason';
+import { StatusFactory, DelayedStatus, CancelledStatus } from '../classes/ShipmentStatus';
+import { StatusWorkflow } from '../classes/StatusWorkflow';
+
+describe('StatusReason', () => {
+  // ============================================
+  // TEST SUITE 1: Validation
+  // ============================================
+  describe('Validation', () => {
+    test('should accept every category of the taxonomy', () => {
+      STATUS_REASON_CODES.filter(code => code !== 'other').forEach(code => {
+        expect(StatusReason.validate({ reason_code: code })).toEqual([]);
+      });
+      expect(StatusReason.validate({ reason_code: 'other', reason_text: 'Strike at hub' })).toEqual([]);
+    });
+
+    test('should reject unknown codes and long text', () => {
+      expect(StatusReason.validate({ reason_code: 'aliens' })[0]).toMatch(/^Reason code must be one of: weather, mechanical/);
+      expect(StatusReason.validate({ reason_code: 'weather', reason_text: 'x'.repeat(501) }))
+        .toEqual(['Reason text must be at most 500 characters']);
+    });
+
+    test('should require text for other reasons', () => {
+      expect(StatusReason.validate({ reason_code: 'other', reason_text: ' ' }))
+        .toEqual(["Reason text is required when the reason code is 'other'"]);
+    });
+
+    test('should only require a code when asked to', () => {
+      expect(StatusReason.validate({})).toHaveLength(1);
+      expect(StatusReason.validate({}, false)).toEqual([]);
+      expect(StatusReason.fromData({})).toBeNull();
+      expect(() => new StatusReason({ reason_code: 'late' })).toThrow();
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Status Changes
+  // ============================================
+  describe('Status Changes', () => {
+    test('should require a reason when delaying or cancelling', () => {
+      const workflow = StatusWorkflow.getDefault();
+      expect(StatusReason.validate({}, workflow.requiresReason('delayed'))).toHaveLength(1);
+      expect(StatusReason.validate({ reason_code: 'customer_request' }, workflow.requiresReason('cancelled'))).toEqual([]);
+      expect(StatusReason.validate({}, workflow.requiresReason('departed'))).toEqual([]);
+      expect(StatusReason.validate({ reason_code: 'bogus' }, workflow.requiresReason('departed'))).toHaveLength(1);
+    });
+
+    test('should describe the reason on the status', () => {
+      const reason = new StatusReason({ reason_code: 'weather', reason_text: ' Fog at LHR ' });
+      expect(reason.toJSON()).toEqual({ reason_code: 'weather', reason_text: 'Fog at LHR' });
+
+      const delayed = StatusFactory.createStatus('delayed', reason.toString()) as DelayedStatus;
+      expect(delayed.getDescription()).toBe('Shipment delayed: Weather (Fog at LHR)');
+
+      const cancelled = StatusFactory.createStatus('cancelled', new StatusReason({ reason_code: 'capacity' }).toString());
+      expect((cancelled as CancelledStatus).getCancelReason()).toBe('Capacity / offload');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Reporting
+  // ============================================
+  describe('Reporting', () => {
+    test('should summarize reason codes by frequency', () => {
+      expect(StatusReason.summarize(['customs', 'weather', 'weather', 'mechanical']))
+        .toBe('Weather 2, Customs / border control 1, Mechanical / technical 1');
+      expect(StatusReason.summarize([])).toBe('');
+    });
+
+    test('should list categories with their IATA delay codes', () => {
+      const categories = StatusReason.getCategories();
+      expect(categories).toHaveLength(STATUS_REASON_CODES.length);
+      expect(categories[0]).toEqual({ code: 'weather', label: 'Weather', iata_codes: '71-77' });
+      expect(StatusReason.labelOf('retired_code')).toBe('retired_code');
+    });
+  });
+});
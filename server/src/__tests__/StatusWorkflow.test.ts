@@ -0,0 +1,212 @@
+/**
+ * Unit Tests for StatusWorkflow
+ *
+ * Tests verify:
+ * - Default workflow matches the built-in statuses
+ * - Custom workflows drive StatusFactory and transitions
+ * - Invalid definitions are rejected
+ */
+
+import { StatusWorkflow, StatusDefinition, DEFAULT_STATUS_DEFINITIONS } from '../classes/StatusWorkflow';
+import {
+  StatusFactory,
+  PendingStatus,
+  DelayedStatus,
+  WorkflowStatus,
+} from '../classes/ShipmentStatus';
+
+describe('StatusWorkflow', () => {
+  const hubWorkflowDefinitions: StatusDefinition[] = [
+    ...DEFAULT_STATUS_DEFINITIONS.map(def =>
+      def.name === 'in_transit'
+        ? { ...def, transitions: ['received_at_hub', 'customs_hold', 'delayed'] }
+        : def
+    ),
+    {
+      name: 'received_at_hub',
+      label: 'Received at Hub',
+      description: 'Shipment received at transfer hub',
+      color: 'teal',
+      icon: '🏢',
+      priority: 4,
+      transitions: ['customs_hold', 'out_for_delivery'],
+      active: true,
+    },
+    {
+      name: 'customs_hold',
+      label: 'Customs Hold',
+      description: 'Shipment held by customs',
+      color: 'orange',
+      icon: '🛃',
+      priority: 1,
+      transitions: ['received_at_hub', 'out_for_delivery'],
+      active: true,
+      requiresReason: true,
+    },
+    {
+      name: 'out_for_delivery',
+      label: 'Out for Delivery',
+      description: 'Shipment is out for final delivery',
+      color: 'purple',
+      icon: '🚚',
+      priority: 4,
+      transitions: ['arrived'],
+      active: true,
+    },
+  ];
+
+  // ============================================
+  // TEST SUITE 1: Default Workflow
+  // ============================================
+  describe('Default workflow', () => {
+    const workflow = StatusWorkflow.getDefault();
+
+    test('should contain the six built-in statuses', () => {
+      expect(workflow.getStatusNames()).toEqual([
+        'pending', 'departed', 'in_transit', 'arrived', 'delayed', 'cancelled',
+      ]);
+    });
+
+    test('should return the same shared instance', () => {
+      expect(StatusWorkflow.getDefault()).toBe(workflow);
+    });
+
+    test('should start shipments as pending', () => {
+      expect(workflow.getInitialStatus()).toBe('pending');
+    });
+
+    test('should report active statuses', () => {
+      expect(workflow.getActiveStatusNames()).toEqual(['pending', 'departed', 'in_transit']);
+    });
+
+    test('should require a reason for delayed and cancelled', () => {
+      expect(workflow.requiresReason('delayed')).toBe(true);
+      expect(workflow.requiresReason('cancelled')).toBe(true);
+      expect(workflow.requiresReason('departed')).toBe(false);
+      expect(workflow.requiresReason('unknown')).toBe(false);
+    });
+
+    test('should treat arrived and cancelled as terminal', () => {
+      expect(workflow.isTerminal('arrived')).toBe(true);
+      expect(workflow.isTerminal('cancelled')).toBe(true);
+      expect(workflow.isTerminal('pending')).toBe(false);
+    });
+
+    test('should match built-in status transitions', () => {
+      expect(workflow.canTransition('pending', 'departed')).toBe(true);
+      expect(workflow.canTransition('pending', 'arrived')).toBe(false);
+      expect(new PendingStatus().canTransitionTo('departed')).toBe(true);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Custom Workflow
+  // ============================================
+  describe('Custom workflow', () => {
+    const workflow = new StatusWorkflow('hub', hubWorkflowDefinitions);
+
+    test('should include custom statuses', () => {
+      expect(StatusFactory.getValidStatuses(workflow)).toContain('customs_hold');
+      expect(StatusFactory.getValidStatuses(workflow).length).toBe(9);
+    });
+
+    test('should create WorkflowStatus for custom statuses', () => {
+      const status = StatusFactory.createStatus('customs_hold', 'Missing invoice', workflow);
+      expect(status).toBeInstanceOf(WorkflowStatus);
+      expect(status.getStatusColor()).toBe('orange');
+      expect(status.getStatusIcon()).toBe('🛃');
+      expect(status.getPriority()).toBe(1);
+      expect(status.toJSON().reason).toBe('Missing invoice');
+    });
+
+    test('should keep built-in subclasses for built-in statuses', () => {
+      const status = StatusFactory.createStatus('delayed', 'Weather', workflow);
+      expect(status).toBeInstanceOf(DelayedStatus);
+    });
+
+    test('should use the workflow color, icon and priority for built-in statuses', () => {
+      const restyled = new StatusWorkflow('restyled', DEFAULT_STATUS_DEFINITIONS.map(def =>
+        def.name === 'pending' ? { ...def, color: 'amber', icon: '📥', priority: 7 } : def
+      ));
+      const status = StatusFactory.createStatus('pending', undefined, restyled);
+
+      expect(status).toBeInstanceOf(PendingStatus);
+      expect(status.toJSON()).toMatchObject({ color: 'amber', icon: '📥', priority: 7 });
+      // Default workflow is unaffected
+      expect(StatusFactory.createStatus('pending').getStatusColor()).toBe('yellow');
+    });
+
+    test('should use workflow transitions for built-in statuses', () => {
+      expect(StatusFactory.isValidTransition('in_transit', 'received_at_hub', workflow)).toBe(true);
+      expect(StatusFactory.isValidTransition('in_transit', 'arrived', workflow)).toBe(false);
+      // Default workflow is unaffected
+      expect(StatusFactory.isValidTransition('in_transit', 'arrived')).toBe(true);
+    });
+
+    test('should reject unknown statuses in transitions', () => {
+      expect(StatusFactory.isValidTransition('pending', 'customs_hold')).toBe(false);
+      expect(StatusFactory.isValidTransition('customs_hold', 'arrived')).toBe(false);
+    });
+
+    test('should throw for unknown status types', () => {
+      expect(() => StatusFactory.createStatus('lost', undefined, workflow))
+        .toThrow('Unknown status type: lost');
+    });
+
+    test('should serialize allowed transitions', () => {
+      const json = StatusFactory.createStatus('received_at_hub', undefined, workflow).toJSON();
+      expect(json.transitions).toEqual(['customs_hold', 'out_for_delivery']);
+      expect(json.label).toBe('Received at Hub');
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 3: Validation
+  // ============================================
+  describe('Validation', () => {
+    test('should accept the default definitions', () => {
+      expect(StatusWorkflow.validateDefinitions(DEFAULT_STATUS_DEFINITIONS)).toEqual([]);
+    });
+
+    test('should reject an empty workflow', () => {
+      expect(StatusWorkflow.validateDefinitions([])).toContain('Workflow must define at least one status');
+    });
+
+    test('should reject transitions to unknown statuses', () => {
+      const errors = StatusWorkflow.validateDefinitions([
+        { ...DEFAULT_STATUS_DEFINITIONS[0], transitions: ['lost'] },
+      ]);
+      expect(errors).toContain("Status 'pending' transitions to unknown status 'lost'");
+    });
+
+    test('should reject duplicate statuses', () => {
+      const errors = StatusWorkflow.validateDefinitions([
+        { ...DEFAULT_STATUS_DEFINITIONS[0], transitions: [] },
+        { ...DEFAULT_STATUS_DEFINITIONS[0], transitions: [] },
+      ]);
+      expect(errors).toContain("Duplicate status 'pending'");
+    });
+
+    test('should reject a missing initial status', () => {
+      const errors = StatusWorkflow.validateDefinitions(DEFAULT_STATUS_DEFINITIONS, 'draft');
+      expect(errors).toContain("Initial status 'draft' is not defined");
+    });
+
+    test('should reject an initial status, label, color or icon that is not text', () => {
+      const errors = StatusWorkflow.validateDefinitions(
+        [{ ...DEFAULT_STATUS_DEFINITIONS[0], label: 5, color: null, icon: '', transitions: [] } as unknown as StatusDefinition],
+        42 as unknown as string
+      );
+      expect(errors).toEqual([
+        "Status 'pending' label must be text",
+        "Status 'pending' color must be text",
+        "Status 'pending' icon must be text",
+        'Initial status must be a status name',
+      ]);
+    });
+
+    test('should throw when constructing an invalid workflow', () => {
+      expect(() => new StatusWorkflow('broken', [])).toThrow('Invalid status workflow');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for WeatherForecast
+ *
+ * Tests verify:
+ * - Forecast slots are built from API data with their slot times
+ * - The slot nearest a time is found
+ * - Times outside the forecast have no slot and are not fetched
+ */
+
+import { WeatherForecast, ForecastSlotData, FORECAST_SLOT_HOURS } from '../classes/WeatherForecast';
+
+describe('WeatherForecast', () => {
+  const start = Date.UTC(2026, 2, 1, 0, 0) / 1000;
+  const slot = (index: number, weatherId: number = 800, temp: number = 15): ForecastSlotData => ({
+    dt: start + index * FORECAST_SLOT_HOURS * 3600,
+    main: { temp, humidity: 60 },
+    weather: [{ id: weatherId, main: 'Weather', description: 'forecast' }],
+    wind: { speed: 4 },
+    clouds: { all: 20 },
+  });
+
+  // Clear, then rain at 06:00, then a thunderstorm at 09:00
+  const forecast = WeatherForecast.fromApiData([slot(3, 211), slot(0), slot(1), slot(2, 501)]);
+
+  // ============================================
+  // TEST SUITE 1: Building
+  // ============================================
+  describe('Building', () => {
+    test('should order slots by time and keep the slot time', () => {
+      const times = forecast.getSlots().map(condition => condition.getTimestamp().toISOString());
+
+      expect(times).toEqual([
+        '2026-03-01T00:00:00.000Z',
+        '2026-03-01T03:00:00.000Z',
+        '2026-03-01T06:00:00.000Z',
+        '2026-03-01T09:00:00.000Z',
+      ]);
+    });
+
+    test('should create the condition type of each slot', () => {
+      expect(forecast.getSlots().map(condition => condition.getConditionType())).toEqual(['clear', 'clear', 'rain', 'storm']);
+    });
+  });
+
+  // ============================================
+  // TEST SUITE 2: Nearest slot
+  // ============================================
+  describe('Nearest slot', () => {
+    test('should pick the closest slot', () => {
+      expect(forecast.nearest(new Date('2026-03-01T05:00:00Z'))?.getConditionType()).toBe('rain');
+      expect(forecast.nearest(new Date('2026-03-01T07:29:00Z'))?.getConditionType()).toBe('rain');
+      expect(forecast.nearest(new Date('2026-03-01T07:31:00Z'))?.getConditionType()).toBe('storm');
+    });
+
+    test('should accept times up to half a slot outside the forecast', () => {
+      expect(forecast.nearest(new Date('2026-03-01T10:30:00Z'))?.getConditionType()).toBe('storm');
+      expect(forecast.nearest(new Date('2026-02-28T22:30:00Z'))?.getConditionType()).toBe('clear');
+    });
+
+    test('should have no slot for times beyond the forecast', () => {
+      expect(forecast.nearest(new Date('2026-03-01T11:00:00Z'))).toBeNull();
+      expect(forecast.nearest(new Date('2026-02-28T20:00:00Z'))).toBeNull();
+      expect(forecast.nearest(new Date('invalid'))).toBeNull();
+      expect(new WeatherForecast([]).nearest(new Date())).toBeNull();
+    });
+
+    test('should only fetch forecasts for the next five days', () => {
+      const now = new Date('2026-03-01T12:00:00Z');
+
+      expect(WeatherForecast.covers(new Date('2026-03-02T18:00:00Z'), now)).toBe(true);
+      expect(WeatherForecast.covers(new Date('2026-03-01T11:00:00Z'), now)).toBe(true);
+      expect(WeatherForecast.covers(new Date('2026-03-01T09:00:00Z'), now)).toBe(false);
+      expect(WeatherForecast.covers(new Date('2026-03-07T12:00:00Z'), now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * AccessPolicy.ts - Organization roles and the permissions they grant
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: The role-to-permission mapping is private to this module
+ * - ABSTRACTION: Routes ask can(permission) instead of checking role names
+ *
+ * Every user belongs to one organization with one role:
+ * - viewer: read shipments, reports and analytics
+ * - dispatcher: viewer + create, update and delete shipments and quotes
+ * - admin: dispatcher + account settings (workflow, AWB stock, rate cards) and members
+ */
+
+export const ROLES = ['admin', 'dispatcher', 'viewer'] as const;
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = [
+  'shipments:read',
+  'shipments:write',
+  'shipments:delete',
+  'reports:read',
+  'analytics:read',
+  'settings:manage',
+  'organization:manage',
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+const VIEWER_PERMISSIONS: Permission[] = ['shipments:read', 'reports:read', 'analytics:read'];
+const DISPATCHER_PERMISSIONS: Permission[] = [...VIEWER_PERMISSIONS, 'shipments:write', 'shipments:delete'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: VIEWER_PERMISSIONS,
+  dispatcher: DISPATCHER_PERMISSIONS,
+  admin: [...PERMISSIONS],
+};
+
+/**
+ * A member's role as seen by a membership change
+ */
+export interface MemberRole {
+  user_id: string;
+  role: Role;
+}
+
+/**
+ * ENCAPSULATION: What a member with a given role may do
+ */
+export class AccessPolicy {
+  private readonly role: Role;
+
+  /**
+   * @throws Error when the role is unknown
+   */
+  constructor(role: string) {
+    if (!AccessPolicy.isRole(role)) {
+      throw new Error(`Role must be one of: ${ROLES.join(', ')}`);
+    }
+    this.role = role;
+  }
+
+  static isRole(value: unknown): value is Role {
+    return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+  }
+
+  /**
+   * Permissions granted by a role
+   */
+  static permissionsFor(role: Role): Permission[] {
+    return [...ROLE_PERMISSIONS[role]];
+  }
+
+  /**
+   * Whether changing (or, with a null role, removing) a member would leave
+   * the organization without an admin
+   */
+  static removesLastAdmin(members: MemberRole[], userId: string, newRole: Role | null): boolean {
+    if (newRole === 'admin') return false;
+
+    const target = members.find(member => member.user_id === userId);
+    if (!target || target.role !== 'admin') return false;
+
+    return !members.some(member => member.user_id !== userId && member.role === 'admin');
+  }
+
+  public getRole(): Role {
+    return this.role;
+  }
+
+  public can(permission: Permission): boolean {
+    return ROLE_PERMISSIONS[this.role].includes(permission);
+  }
+
+  public toJSON(): { role: Role; permissions: Permission[] } {
+    return {
+      role: this.role,
+      permissions: AccessPolicy.permissionsFor(this.role),
+    };
+  }
+}
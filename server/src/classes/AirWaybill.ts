@@ -0,0 +1,172 @@
+/**
+ * AirWaybill.ts - IATA air waybill (AWB) numbers
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Prefix, serial and check digit are private and immutable
+ * - VALIDATION: Check digits are verified on construction
+ *
+ * An AWB number has 11 digits: a 3-digit airline prefix followed by an
+ * 8-digit serial. The last digit of the serial is a check digit equal to
+ * the first seven serial digits modulo 7, e.g. 176-12345675.
+ */
+
+/**
+ * A block of AWB serials issued to the account by one airline
+ * Ranges are expressed as 7-digit serial bases (without check digit)
+ */
+export interface AwbStockRange {
+  airline_prefix: string;
+  range_start: number;
+  range_end: number;
+  next_serial: number;
+}
+
+/**
+ * ENCAPSULATION: An immutable, validated AWB number
+ */
+export class AirWaybill {
+  private readonly prefix: string;
+  private readonly serial: string;
+
+  /**
+   * @param value - AWB number in any common notation ("176-12345675", "176 1234 5675", "17612345675")
+   * @throws Error when the number is malformed or the check digit is wrong
+   */
+  constructor(value: string) {
+    const errors = AirWaybill.validate(value);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    const digits = AirWaybill.normalize(value);
+    this.prefix = digits.substring(0, 3);
+    this.serial = digits.substring(3);
+  }
+
+  /**
+   * Strip separators from an AWB number
+   */
+  static normalize(value: string): string {
+    return (value || '').replace(/[\s-]/g, '');
+  }
+
+  /**
+   * Calculate the check digit for a 7-digit serial base
+   */
+  static calculateCheckDigit(serialBase: number): number {
+    return serialBase % 7;
+  }
+
+  /**
+   * Validate an AWB number
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(value: string): string[] {
+    const digits = AirWaybill.normalize(value);
+
+    if (!/^\d{11}$/.test(digits)) {
+      return ['AWB number must be 11 digits (3-digit airline prefix and 8-digit serial)'];
+    }
+
+    const serialBase = parseInt(digits.substring(3, 10), 10);
+    const checkDigit = parseInt(digits.substring(10), 10);
+    const expected = AirWaybill.calculateCheckDigit(serialBase);
+
+    if (checkDigit !== expected) {
+      return [`AWB check digit is invalid (expected ${expected})`];
+    }
+
+    return [];
+  }
+
+  static isValid(value: string): boolean {
+    return AirWaybill.validate(value).length === 0;
+  }
+
+  /**
+   * Build an AWB number from an airline prefix and a 7-digit serial base
+   * The check digit is appended automatically
+   */
+  static fromSerial(prefix: string, serialBase: number): AirWaybill {
+    if (!/^\d{3}$/.test(prefix)) {
+      throw new Error('Airline prefix must be 3 digits');
+    }
+    if (!Number.isInteger(serialBase) || serialBase < 0 || serialBase > 9999999) {
+      throw new Error('Serial must be between 0 and 9999999');
+    }
+
+    const base = serialBase.toString().padStart(7, '0');
+    return new AirWaybill(`${prefix}${base}${AirWaybill.calculateCheckDigit(serialBase)}`);
+  }
+
+  /**
+   * Validate a stock range definition
+   */
+  static validateStockRange(range: Partial<AwbStockRange>): string[] {
+    const errors: string[] = [];
+
+    if (!range.airline_prefix || !/^\d{3}$/.test(range.airline_prefix)) {
+      errors.push('Airline prefix must be 3 digits');
+    }
+
+    const { range_start: start, range_end: end } = range;
+    if (!Number.isInteger(start) || start! < 0 || start! > 9999999) {
+      errors.push('Range start must be a serial between 0 and 9999999');
+    }
+    if (!Number.isInteger(end) || end! < 0 || end! > 9999999) {
+      errors.push('Range end must be a serial between 0 and 9999999');
+    }
+    if (errors.length === 0 && start! > end!) {
+      errors.push('Range start must not be after range end');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Number of serials left in a stock range
+   */
+  static remainingInRange(range: AwbStockRange): number {
+    return Math.max(0, range.range_end - range.next_serial + 1);
+  }
+
+  public getPrefix(): string {
+    return this.prefix;
+  }
+
+  public getSerial(): string {
+    return this.serial;
+  }
+
+  public getSerialBase(): number {
+    return parseInt(this.serial.substring(0, 7), 10);
+  }
+
+  public getCheckDigit(): number {
+    return parseInt(this.serial.substring(7), 10);
+  }
+
+  /**
+   * Digits only, as stored in the database
+   */
+  public toString(): string {
+    return `${this.prefix}${this.serial}`;
+  }
+
+  /**
+   * Conventional display format, e.g. "176-12345675"
+   */
+  public format(): string {
+    return `${this.prefix}-${this.serial}`;
+  }
+
+  public toJSON(): Record<string, unknown> {
+    return {
+      number: this.toString(),
+      formatted: this.format(),
+      prefix: this.prefix,
+      serial: this.serial,
+      checkDigit: this.getCheckDigit(),
+    };
+  }
+}
@@ -0,0 +1,401 @@
+/**
+ * Airport.ts - Bundled airport reference data with code lookup, search and name resolution
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Reference data is validated once and exposed through getters
+ * - ABSTRACTION: Callers look airports up by IATA/ICAO code or free text without knowing the table
+ *
+ * The table covers the major passenger and cargo airports. Free-text origins and
+ * destinations such as "New York, JFK Airport" are resolved to an airport by the
+ * codes they mention, or by an airport name or a city with a single airport.
+ */
+
+import { GreatCircleRoute } from './GreatCircleRoute';
+
+/**
+ * An airport of the bundled reference table
+ */
+export interface AirportData {
+  /** IATA location code (3 letters) */
+  iata: string;
+  /** ICAO location indicator (4 letters) */
+  icao: string;
+  name: string;
+  city: string;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  latitude: number;
+  longitude: number;
+  elevation_ft: number;
+  /** IANA time zone */
+  timezone: string;
+}
+
+/** Most airports returned by a search */
+export const MAX_AIRPORT_RESULTS = 20;
+/** Airport reports describe the weather within about this distance */
+export const NEAREST_AIRPORT_MAX_KM = 50;
+
+const airport = (
+  iata: string,
+  icao: string,
+  name: string,
+  city: string,
+  country: string,
+  latitude: number,
+  longitude: number,
+  elevation_ft: number,
+  timezone: string
+): AirportData => ({ iata, icao, name, city, country, latitude, longitude, elevation_ft, timezone });
+
+export const AIRPORTS: AirportData[] = [
+  // North America
+  airport('ANC', 'PANC', 'Ted Stevens Anchorage International Airport', 'Anchorage', 'US', 61.1744, -149.9964, 152, 'America/Anchorage'),
+  airport('ATL', 'KATL', 'Hartsfield-Jackson Atlanta International Airport', 'Atlanta', 'US', 33.6367, -84.4281, 1026, 'America/New_York'),
+  airport('BOS', 'KBOS', 'Logan International Airport', 'Boston', 'US', 42.3643, -71.0052, 20, 'America/New_York'),
+  airport('CLT', 'KCLT', 'Charlotte Douglas International Airport', 'Charlotte', 'US', 35.2140, -80.9431, 748, 'America/New_York'),
+  airport('CVG', 'KCVG', 'Cincinnati/Northern Kentucky International Airport', 'Cincinnati', 'US', 39.0488, -84.6678, 896, 'America/New_York'),
+  airport('DEN', 'KDEN', 'Denver International Airport', 'Denver', 'US', 39.8617, -104.6731, 5431, 'America/Denver'),
+  airport('DFW', 'KDFW', 'Dallas/Fort Worth International Airport', 'Dallas', 'US', 32.8968, -97.0380, 607, 'America/Chicago'),
+  airport('DTW', 'KDTW', 'Detroit Metropolitan Wayne County Airport', 'Detroit', 'US', 42.2124, -83.3534, 645, 'America/Detroit'),
+  airport('EWR', 'KEWR', 'Newark Liberty International Airport', 'Newark', 'US', 40.6925, -74.1687, 18, 'America/New_York'),
+  airport('HNL', 'PHNL', 'Daniel K. Inouye International Airport', 'Honolulu', 'US', 21.3187, -157.9225, 13, 'Pacific/Honolulu'),
+  airport('IAD', 'KIAD', 'Washington Dulles International Airport', 'Washington', 'US', 38.9445, -77.4558, 313, 'America/New_York'),
+  airport('IAH', 'KIAH', 'George Bush Intercontinental Airport', 'Houston', 'US', 29.9844, -95.3414, 97, 'America/Chicago'),
+  airport('JFK', 'KJFK', 'John F. Kennedy International Airport', 'New York', 'US', 40.6398, -73.7789, 13, 'America/New_York'),
+  airport('LAS', 'KLAS', 'Harry Reid International Airport', 'Las Vegas', 'US', 36.0840, -115.1537, 2181, 'America/Los_Angeles'),
+  airport('LAX', 'KLAX', 'Los Angeles International Airport', 'Los Angeles', 'US', 33.9425, -118.4081, 125, 'America/Los_Angeles'),
+  airport('LGA', 'KLGA', 'LaGuardia Airport', 'New York', 'US', 40.7772, -73.8726, 21, 'America/New_York'),
+  airport('MCO', 'KMCO', 'Orlando International Airport', 'Orlando', 'US', 28.4294, -81.3090, 96, 'America/New_York'),
+  airport('MEM', 'KMEM', 'Memphis International Airport', 'Memphis', 'US', 35.0424, -89.9767, 341, 'America/Chicago'),
+  airport('MIA', 'KMIA', 'Miami International Airport', 'Miami', 'US', 25.7932, -80.2906, 8, 'America/New_York'),
+  airport('MSP', 'KMSP', 'Minneapolis-Saint Paul International Airport', 'Minneapolis', 'US', 44.8820, -93.2218, 841, 'America/Chicago'),
+  airport('ORD', 'KORD', "O'Hare International Airport", 'Chicago', 'US', 41.9786, -87.9048, 672, 'America/Chicago'),
+  airport('PHL', 'KPHL', 'Philadelphia International Airport', 'Philadelphia', 'US', 39.8719, -75.2411, 36, 'America/New_York'),
+  airport('PHX', 'KPHX', 'Phoenix Sky Harbor International Airport', 'Phoenix', 'US', 33.4343, -112.0116, 1135, 'America/Phoenix'),
+  airport('SAN', 'KSAN', 'San Diego International Airport', 'San Diego', 'US', 32.7336, -117.1897, 17, 'America/Los_Angeles'),
+  airport('SDF', 'KSDF', 'Louisville Muhammad Ali International Airport', 'Louisville', 'US', 38.1741, -85.7365, 501, 'America/Kentucky/Louisville'),
+  airport('SEA', 'KSEA', 'Seattle-Tacoma International Airport', 'Seattle', 'US', 47.4490, -122.3093, 433, 'America/Los_Angeles'),
+  airport('SFO', 'KSFO', 'San Francisco International Airport', 'San Francisco', 'US', 37.6190, -122.3749, 13, 'America/Los_Angeles'),
+  airport('YUL', 'CYUL', 'Montréal-Trudeau International Airport', 'Montreal', 'CA', 45.4706, -73.7408, 118, 'America/Toronto'),
+  airport('YVR', 'CYVR', 'Vancouver International Airport', 'Vancouver', 'CA', 49.1939, -123.1844, 14, 'America/Vancouver'),
+  airport('YYC', 'CYYC', 'Calgary International Airport', 'Calgary', 'CA', 51.1225, -114.0133, 3557, 'America/Edmonton'),
+  airport('YYZ', 'CYYZ', 'Toronto Pearson International Airport', 'Toronto', 'CA', 43.6777, -79.6248, 569, 'America/Toronto'),
+  airport('CUN', 'MMUN', 'Cancún International Airport', 'Cancún', 'MX', 21.0365, -86.8771, 22, 'America/Cancun'),
+  airport('MEX', 'MMMX', 'Mexico City International Airport', 'Mexico City', 'MX', 19.4363, -99.0721, 7316, 'America/Mexico_City'),
+  airport('PTY', 'MPTO', 'Tocumen International Airport', 'Panama City', 'PA', 9.0714, -79.3835, 135, 'America/Panama'),
+
+  // South America
+  airport('BOG', 'SKBO', 'El Dorado International Airport', 'Bogotá', 'CO', 4.7016, -74.1469, 8361, 'America/Bogota'),
+  airport('EZE', 'SAEZ', 'Ministro Pistarini International Airport', 'Buenos Aires', 'AR', -34.8222, -58.5358, 67, 'America/Argentina/Buenos_Aires'),
+  airport('GIG', 'SBGL', 'Rio de Janeiro/Galeão International Airport', 'Rio de Janeiro', 'BR', -22.8100, -43.2506, 28, 'America/Sao_Paulo'),
+  airport('GRU', 'SBGR', 'São Paulo/Guarulhos International Airport', 'São Paulo', 'BR', -23.4356, -46.4731, 2459, 'America/Sao_Paulo'),
+  airport('LIM', 'SPJC', 'Jorge Chávez International Airport', 'Lima', 'PE', -12.0219, -77.1143, 113, 'America/Lima'),
+  airport('SCL', 'SCEL', 'Arturo Merino Benítez International Airport', 'Santiago', 'CL', -33.3930, -70.7858, 1555, 'America/Santiago'),
+  airport('UIO', 'SEQM', 'Mariscal Sucre International Airport', 'Quito', 'EC', -0.1292, -78.3575, 7841, 'America/Guayaquil'),
+  airport('VCP', 'SBKP', 'Viracopos International Airport', 'Campinas', 'BR', -23.0074, -47.1345, 2170, 'America/Sao_Paulo'),
+
+  // Europe
+  airport('AMS', 'EHAM', 'Amsterdam Airport Schiphol', 'Amsterdam', 'NL', 52.3105, 4.7683, -11, 'Europe/Amsterdam'),
+  airport('ARN', 'ESSA', 'Stockholm Arlanda Airport', 'Stockholm', 'SE', 59.6519, 17.9186, 137, 'Europe/Stockholm'),
+  airport('ATH', 'LGAV', 'Athens International Airport', 'Athens', 'GR', 37.9364, 23.9445, 308, 'Europe/Athens'),
+  airport('BCN', 'LEBL', 'Josep Tarradellas Barcelona-El Prat Airport', 'Barcelona', 'ES', 41.2971, 2.0785, 12, 'Europe/Madrid'),
+  airport('BER', 'EDDB', 'Berlin Brandenburg Airport', 'Berlin', 'DE', 52.3667, 13.5033, 157, 'Europe/Berlin'),
+  airport('BRU', 'EBBR', 'Brussels Airport', 'Brussels', 'BE', 50.9014, 4.4844, 184, 'Europe/Brussels'),
+  airport('BUD', 'LHBP', 'Budapest Ferenc Liszt International Airport', 'Budapest', 'HU', 47.4298, 19.2611, 495, 'Europe/Budapest'),
+  airport('CDG', 'LFPG', 'Paris Charles de Gaulle Airport', 'Paris', 'FR', 49.0097, 2.5479, 392, 'Europe/Paris'),
+  airport('CGN', 'EDDK', 'Cologne Bonn Airport', 'Cologne', 'DE', 50.8659, 7.1427, 302, 'Europe/Berlin'),
+  airport('CPH', 'EKCH', 'Copenhagen Airport', 'Copenhagen', 'DK', 55.6180, 12.6561, 17, 'Europe/Copenhagen'),
+  airport('DUB', 'EIDW', 'Dublin Airport', 'Dublin', 'IE', 53.4213, -6.2701, 242, 'Europe/Dublin'),
+  airport('EMA', 'EGNX', 'East Midlands Airport', 'Nottingham', 'GB', 52.8311, -1.3281, 306, 'Europe/London'),
+  airport('FCO', 'LIRF', 'Rome Fiumicino Airport', 'Rome', 'IT', 41.8003, 12.2389, 13, 'Europe/Rome'),
+  airport('FRA', 'EDDF', 'Frankfurt Airport', 'Frankfurt', 'DE', 50.0379, 8.5622, 364, 'Europe/Berlin'),
+  airport('GVA', 'LSGG', 'Geneva Airport', 'Geneva', 'CH', 46.2381, 6.1090, 1411, 'Europe/Zurich'),
+  airport('HEL', 'EFHK', 'Helsinki Airport', 'Helsinki', 'FI', 60.3172, 24.9633, 179, 'Europe/Helsinki'),
+  airport('IST', 'LTFM', 'Istanbul Airport', 'Istanbul', 'TR', 41.2753, 28.7519, 325, 'Europe/Istanbul'),
+  airport('LEJ', 'EDDP', 'Leipzig/Halle Airport', 'Leipzig', 'DE', 51.4239, 12.2364, 465, 'Europe/Berlin'),
+  airport('LGG', 'EBLG', 'Liège Airport', 'Liège', 'BE', 50.6374, 5.4432, 659, 'Europe/Brussels'),
+  airport('LGW', 'EGKK', 'London Gatwick Airport', 'London', 'GB', 51.1481, -0.1903, 202, 'Europe/London'),
+  airport('LHR', 'EGLL', 'London Heathrow Airport', 'London', 'GB', 51.4700, -0.4543, 83, 'Europe/London'),
+  airport('LIS', 'LPPT', 'Humberto Delgado Airport', 'Lisbon', 'PT', 38.7813, -9.1359, 374, 'Europe/Lisbon'),
+  airport('LUX', 'ELLX', 'Luxembourg Airport', 'Luxembourg', 'LU', 49.6233, 6.2044, 1234, 'Europe/Luxembourg'),
+  airport('MAD', 'LEMD', 'Adolfo Suárez Madrid-Barajas Airport', 'Madrid', 'ES', 40.4719, -3.5626, 2000, 'Europe/Madrid'),
+  airport('MAN', 'EGCC', 'Manchester Airport', 'Manchester', 'GB', 53.3537, -2.2750, 257, 'Europe/London'),
+  airport('MUC', 'EDDM', 'Munich Airport', 'Munich', 'DE', 48.3538, 11.7861, 1487, 'Europe/Berlin'),
+  airport('MXP', 'LIMC', 'Milan Malpensa Airport', 'Milan', 'IT', 45.6306, 8.7281, 768, 'Europe/Rome'),
+  airport('ORY', 'LFPO', 'Paris Orly Airport', 'Paris', 'FR', 48.7233, 2.3794, 291, 'Europe/Paris'),
+  airport('OSL', 'ENGM', 'Oslo Gardermoen Airport', 'Oslo', 'NO', 60.1939, 11.1004, 681, 'Europe/Oslo'),
+  airport('PRG', 'LKPR', 'Václav Havel Airport Prague', 'Prague', 'CZ', 50.1008, 14.2600, 1247, 'Europe/Prague'),
+  airport('SAW', 'LTFJ', 'Istanbul Sabiha Gökçen International Airport', 'Istanbul', 'TR', 40.8986, 29.3092, 312, 'Europe/Istanbul'),
+  airport('STN', 'EGSS', 'London Stansted Airport', 'London', 'GB', 51.8850, 0.2350, 348, 'Europe/London'),
+  airport('SVO', 'UUEE', 'Sheremetyevo International Airport', 'Moscow', 'RU', 55.9726, 37.4146, 622, 'Europe/Moscow'),
+  airport('VIE', 'LOWW', 'Vienna International Airport', 'Vienna', 'AT', 48.1103, 16.5697, 600, 'Europe/Vienna'),
+  airport('WAW', 'EPWA', 'Warsaw Chopin Airport', 'Warsaw', 'PL', 52.1657, 20.9671, 362, 'Europe/Warsaw'),
+  airport('ZRH', 'LSZH', 'Zurich Airport', 'Zurich', 'CH', 47.4647, 8.5492, 1416, 'Europe/Zurich'),
+
+  // Middle East and Africa
+  airport('ACC', 'DGAA', 'Kotoka International Airport', 'Accra', 'GH', 5.6052, -0.1668, 205, 'Africa/Accra'),
+  airport('ADD', 'HAAB', 'Addis Ababa Bole International Airport', 'Addis Ababa', 'ET', 8.9779, 38.7993, 7625, 'Africa/Addis_Ababa'),
+  airport('AUH', 'OMAA', 'Zayed International Airport', 'Abu Dhabi', 'AE', 24.4330, 54.6511, 88, 'Asia/Dubai'),
+  airport('BAH', 'OBBI', 'Bahrain International Airport', 'Manama', 'BH', 26.2708, 50.6336, 6, 'Asia/Bahrain'),
+  airport('CAI', 'HECA', 'Cairo International Airport', 'Cairo', 'EG', 30.1219, 31.4056, 382, 'Africa/Cairo'),
+  airport('CMN', 'GMMN', 'Mohammed V International Airport', 'Casablanca', 'MA', 33.3675, -7.5900, 656, 'Africa/Casablanca'),
+  airport('CPT', 'FACT', 'Cape Town International Airport', 'Cape Town', 'ZA', -33.9715, 18.6021, 151, 'Africa/Johannesburg'),
+  airport('DOH', 'OTHH', 'Hamad International Airport', 'Doha', 'QA', 25.2731, 51.6081, 13, 'Asia/Qatar'),
+  airport('DWC', 'OMDW', 'Al Maktoum International Airport', 'Dubai', 'AE', 24.8960, 55.1614, 114, 'Asia/Dubai'),
+  airport('DXB', 'OMDB', 'Dubai International Airport', 'Dubai', 'AE', 25.2532, 55.3657, 62, 'Asia/Dubai'),
+  airport('JED', 'OEJN', 'King Abdulaziz International Airport', 'Jeddah', 'SA', 21.6796, 39.1565, 48, 'Asia/Riyadh'),
+  airport('JNB', 'FAOR', 'O. R. Tambo International Airport', 'Johannesburg', 'ZA', -26.1392, 28.2460, 5558, 'Africa/Johannesburg'),
+  airport('LOS', 'DNMM', 'Murtala Muhammed International Airport', 'Lagos', 'NG', 6.5774, 3.3212, 135, 'Africa/Lagos'),
+  airport('NBO', 'HKJK', 'Jomo Kenyatta International Airport', 'Nairobi', 'KE', -1.3192, 36.9278, 5330, 'Africa/Nairobi'),
+  airport('RUH', 'OERK', 'King Khalid International Airport', 'Riyadh', 'SA', 24.9576, 46.6988, 2049, 'Asia/Riyadh'),
+  airport('TLV', 'LLBG', 'Ben Gurion Airport', 'Tel Aviv', 'IL', 32.0114, 34.8867, 135, 'Asia/Jerusalem'),
+
+  // Asia
+  airport('ALA', 'UAAA', 'Almaty International Airport', 'Almaty', 'KZ', 43.3521, 77.0405, 2234, 'Asia/Almaty'),
+  airport('BKK', 'VTBS', 'Suvarnabhumi Airport', 'Bangkok', 'TH', 13.6900, 100.7501, 5, 'Asia/Bangkok'),
+  airport('BLR', 'VOBL', 'Kempegowda International Airport', 'Bengaluru', 'IN', 13.1986, 77.7066, 3000, 'Asia/Kolkata'),
+  airport('BOM', 'VABB', 'Chhatrapati Shivaji Maharaj International Airport', 'Mumbai', 'IN', 19.0887, 72.8679, 39, 'Asia/Kolkata'),
+  airport('CAN', 'ZGGG', 'Guangzhou Baiyun International Airport', 'Guangzhou', 'CN', 23.3924, 113.2988, 50, 'Asia/Shanghai'),
+  airport('CGK', 'WIII', 'Soekarno-Hatta International Airport', 'Jakarta', 'ID', -6.1256, 106.6559, 34, 'Asia/Jakarta'),
+  airport('CGO', 'ZHCC', 'Zhengzhou Xinzheng International Airport', 'Zhengzhou', 'CN', 34.5197, 113.8408, 495, 'Asia/Shanghai'),
+  airport('CMB', 'VCBI', 'Bandaranaike International Airport', 'Colombo', 'LK', 7.1808, 79.8841, 30, 'Asia/Colombo'),
+  airport('CTU', 'ZUUU', 'Chengdu Shuangliu International Airport', 'Chengdu', 'CN', 30.5785, 103.9471, 1625, 'Asia/Shanghai'),
+  airport('DAC', 'VGHS', 'Hazrat Shahjalal International Airport', 'Dhaka', 'BD', 23.8433, 90.3978, 30, 'Asia/Dhaka'),
+  airport('DEL', 'VIDP', 'Indira Gandhi International Airport', 'Delhi', 'IN', 28.5562, 77.1000, 777, 'Asia/Kolkata'),
+  airport('GMP', 'RKSS', 'Gimpo International Airport', 'Seoul', 'KR', 37.5583, 126.7906, 59, 'Asia/Seoul'),
+  airport('HAN', 'VVNB', 'Noi Bai International Airport', 'Hanoi', 'VN', 21.2212, 105.8072, 39, 'Asia/Ho_Chi_Minh'),
+  airport('HKG', 'VHHH', 'Hong Kong International Airport', 'Hong Kong', 'HK', 22.3080, 113.9185, 28, 'Asia/Hong_Kong'),
+  airport('HND', 'RJTT', 'Tokyo Haneda Airport', 'Tokyo', 'JP', 35.5523, 139.7798, 35, 'Asia/Tokyo'),
+  airport('HYD', 'VOHS', 'Rajiv Gandhi International Airport', 'Hyderabad', 'IN', 17.2403, 78.4294, 2024, 'Asia/Kolkata'),
+  airport('ICN', 'RKSI', 'Incheon International Airport', 'Seoul', 'KR', 37.4602, 126.4407, 23, 'Asia/Seoul'),
+  airport('KHI', 'OPKC', 'Jinnah International Airport', 'Karachi', 'PK', 24.9065, 67.1608, 100, 'Asia/Karachi'),
+  airport('KIX', 'RJBB', 'Kansai International Airport', 'Osaka', 'JP', 34.4273, 135.2440, 26, 'Asia/Tokyo'),
+  airport('KUL', 'WMKK', 'Kuala Lumpur International Airport', 'Kuala Lumpur', 'MY', 2.7456, 101.7099, 69, 'Asia/Kuala_Lumpur'),
+  airport('MAA', 'VOMM', 'Chennai International Airport', 'Chennai', 'IN', 12.9941, 80.1709, 52, 'Asia/Kolkata'),
+  airport('MNL', 'RPLL', 'Ninoy Aquino International Airport', 'Manila', 'PH', 14.5086, 121.0194, 75, 'Asia/Manila'),
+  airport('NGO', 'RJGG', 'Chubu Centrair International Airport', 'Nagoya', 'JP', 34.8584, 136.8054, 15, 'Asia/Tokyo'),
+  airport('NRT', 'RJAA', 'Narita International Airport', 'Tokyo', 'JP', 35.7647, 140.3864, 141, 'Asia/Tokyo'),
+  airport('PEK', 'ZBAA', 'Beijing Capital International Airport', 'Beijing', 'CN', 40.0801, 116.5846, 116, 'Asia/Shanghai'),
+  airport('PKX', 'ZBAD', 'Beijing Daxing International Airport', 'Beijing', 'CN', 39.5098, 116.4105, 98, 'Asia/Shanghai'),
+  airport('PVG', 'ZSPD', 'Shanghai Pudong International Airport', 'Shanghai', 'CN', 31.1434, 121.8052, 13, 'Asia/Shanghai'),
+  airport('SGN', 'VVTS', 'Tan Son Nhat International Airport', 'Ho Chi Minh City', 'VN', 10.8188, 106.6520, 33, 'Asia/Ho_Chi_Minh'),
+  airport('SHA', 'ZSSS', 'Shanghai Hongqiao International Airport', 'Shanghai', 'CN', 31.1979, 121.3363, 10, 'Asia/Shanghai'),
+  airport('SIN', 'WSSS', 'Singapore Changi Airport', 'Singapore', 'SG', 1.3644, 103.9915, 22, 'Asia/Singapore'),
+  airport('SZX', 'ZGSZ', "Shenzhen Bao'an International Airport", 'Shenzhen', 'CN', 22.6393, 113.8107, 13, 'Asia/Shanghai'),
+  airport('TPE', 'RCTP', 'Taiwan Taoyuan International Airport', 'Taipei', 'TW', 25.0777, 121.2328, 106, 'Asia/Taipei'),
+
+  // Oceania
+  airport('AKL', 'NZAA', 'Auckland Airport', 'Auckland', 'NZ', -37.0082, 174.7850, 23, 'Pacific/Auckland'),
+  airport('BNE', 'YBBN', 'Brisbane Airport', 'Brisbane', 'AU', -27.3842, 153.1175, 13, 'Australia/Brisbane'),
+  airport('MEL', 'YMML', 'Melbourne Airport', 'Melbourne', 'AU', -37.6690, 144.8410, 434, 'Australia/Melbourne'),
+  airport('PER', 'YPPH', 'Perth Airport', 'Perth', 'AU', -31.9403, 115.9669, 67, 'Australia/Perth'),
+  airport('SYD', 'YSSY', 'Sydney Kingsford Smith Airport', 'Sydney', 'AU', -33.9461, 151.1772, 21, 'Australia/Sydney'),
+];
+
+// Words left out when comparing free text with airport names
+const GENERIC_WORDS = new Set(['airport', 'international', 'intl', 'int', 'apt']);
+
+/**
+ * Lower case without accents, punctuation or generic words
+ */
+const normalizeText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !GENERIC_WORDS.has(word))
+    .join(' ');
+
+/**
+ * ENCAPSULATION: An airport of the reference table
+ */
+export class Airport {
+  private readonly data: AirportData;
+  private readonly searchText: string;
+
+  /**
+   * @throws Error when the data is invalid
+   */
+  constructor(data: AirportData) {
+    const errors = Airport.validate(data);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.data = { ...data };
+    this.searchText = normalizeText(`${data.name} ${data.city}`);
+  }
+
+  /**
+   * Validate airport data
+   * @returns Array of error messages (empty if valid)
+   */
+  static validate(data: AirportData): string[] {
+    const errors: string[] = [];
+
+    if (!/^[A-Z]{3}$/.test(data.iata)) {
+      errors.push(`IATA code '${data.iata}' must be 3 capital letters`);
+    }
+    if (!/^[A-Z]{4}$/.test(data.icao)) {
+      errors.push(`ICAO code '${data.icao}' must be 4 capital letters`);
+    }
+    if (!data.name?.trim() || !data.city?.trim()) {
+      errors.push(`Airport ${data.iata} must have a name and a city`);
+    }
+    if (!/^[A-Z]{2}$/.test(data.country)) {
+      errors.push(`Country of ${data.iata} must be an ISO 3166 alpha-2 code`);
+    }
+    if (!(data.latitude >= -90 && data.latitude <= 90) || !(data.longitude >= -180 && data.longitude <= 180)) {
+      errors.push(`Coordinates of ${data.iata} are out of range`);
+    }
+    if (!/^[A-Za-z]+\/[A-Za-z_/]+$/.test(data.timezone)) {
+      errors.push(`Time zone of ${data.iata} must be an IANA zone`);
+    }
+
+    return errors;
+  }
+
+  public getIata(): string {
+    return this.data.iata;
+  }
+
+  public getIcao(): string {
+    return this.data.icao;
+  }
+
+  public getName(): string {
+    return this.data.name;
+  }
+
+  public getCity(): string {
+    return this.data.city;
+  }
+
+  public getCountry(): string {
+    return this.data.country;
+  }
+
+  public getPosition(): { lat: number; lon: number } {
+    return { lat: this.data.latitude, lon: this.data.longitude };
+  }
+
+  public getElevationFt(): number {
+    return this.data.elevation_ft;
+  }
+
+  public getTimezone(): string {
+    return this.data.timezone;
+  }
+
+  /**
+   * Text stored as a shipment's origin or destination, e.g. "London (LHR)"
+   */
+  public getLabel(): string {
+    return `${this.data.city} (${this.data.iata})`;
+  }
+
+  /**
+   * How well the airport matches a search (0 when it does not)
+   */
+  private score(query: string, normalized: string): number {
+    const code = query.toUpperCase();
+    if (code === this.data.iata) return 100;
+    if (code === this.data.icao) return 90;
+    if (normalizeText(this.data.city) === normalized) return 80;
+    if (this.data.iata.startsWith(code) || this.data.icao.startsWith(code)) return 60;
+    if (this.searchText.split(' ').some(word => word.startsWith(normalized))) return 40;
+    if (normalized && this.searchText.includes(normalized)) return 20;
+    return 0;
+  }
+
+  /**
+   * Find an airport by IATA or ICAO code
+   */
+  static findByCode(code: string | null | undefined): Airport | null {
+    if (!code) return null;
+    const key = code.trim().toUpperCase();
+    return BY_CODE.get(key) ?? null;
+  }
+
+  /**
+   * Search airports by code, name or city, best matches first
+   */
+  static search(query: string, limit: number = 10): Airport[] {
+    const trimmed = query.trim();
+    const normalized = normalizeText(trimmed);
+    if (!normalized) return [];
+
+    return DIRECTORY
+      .map(entry => ({ entry, score: entry.score(trimmed, normalized) }))
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score || a.entry.getIata().localeCompare(b.entry.getIata()))
+      .slice(0, Math.min(Math.max(limit, 1), MAX_AIRPORT_RESULTS))
+      .map(match => match.entry);
+  }
+
+  /**
+   * Closest airport to a position
+   * @returns Null when no airport lies within maxKm
+   */
+  static nearest(lat: number, lon: number, maxKm: number = NEAREST_AIRPORT_MAX_KM): Airport | null {
+    let best: Airport | null = null;
+    let bestKm = maxKm;
+
+    for (const entry of DIRECTORY) {
+      const km = GreatCircleRoute.distanceKm({ lat, lon }, entry.getPosition());
+      if (km <= bestKm) {
+        best = entry;
+        bestKm = km;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Resolve a free-text origin or destination to an airport
+   * A code written in capitals ("New York, JFK Airport") is used first. Otherwise the
+   * text, or its part before the first comma ("Chicago, IL"), must name an airport or
+   * a city that has only one airport. In text written all in capitals, words such as
+   * LOS in "LOS ANGELES" look like codes, so codes are only tried after names there.
+   * @returns The airport, or null when the text is unknown or ambiguous
+   */
+  static resolve(text: string | null | undefined): Airport | null {
+    if (!text?.trim()) return null;
+
+    const byCode = Airport.findByCode(text);
+    if (byCode) return byCode;
+
+    const codes = new Set(
+      (text.match(/\b[A-Z]{3,4}\b/g) || [])
+        .map(code => BY_CODE.get(code))
+        .filter((entry): entry is Airport => entry !== undefined)
+    );
+    const byMentionedCode = codes.size === 1 ? [...codes][0] : null;
+    const mixedCase = /[a-z]/.test(text);
+    if (mixedCase && byMentionedCode) return byMentionedCode;
+
+    const names = [...new Set([normalizeText(text), normalizeText(text.split(',')[0])])].filter(Boolean);
+
+    const byName = DIRECTORY.filter(entry => names.includes(normalizeText(entry.getName())));
+    if (byName.length === 1) return byName[0];
+
+    const byCity = DIRECTORY.filter(entry => names.includes(normalizeText(entry.getCity())));
+    if (byCity.length === 1) return byCity[0];
+
+    return mixedCase ? null : byMentionedCode;
+  }
+
+  public toJSON(): AirportData & { label: string } {
+    return { ...this.data, label: this.getLabel() };
+  }
+}
+
+const DIRECTORY = AIRPORTS.map(data => new Airport(data));
+
+const BY_CODE = new Map<string, Airport>(
+  DIRECTORY.flatMap(entry => [[entry.getIata(), entry], [entry.getIcao(), entry]] as [string, Airport][])
+);
@@ -0,0 +1,605 @@
+/**
+ * AviationWeather.ts - METAR and TAF reports decoded into weather conditions
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Decoded report groups are exposed through getters
+ * - ABSTRACTION: Coded aviation reports become the same WeatherCondition objects as API data
+ * - FACTORY PATTERN: parse() builds reports from their raw text
+ *
+ * METAR (observations) and TAF (forecasts) are the reports airlines plan with.
+ * Wind, visibility, ceiling, present weather (TS, RA, SN, FG, ...) and temperature
+ * are decoded and mapped to the WeatherCondition subclass with the greatest impact,
+ * so "-RA BR" with 400 m visibility is rated as fog rather than light rain.
+ */
+
+import {
+  WeatherCondition,
+  ClearWeather,
+  CloudyWeather,
+  RainWeather,
+  StormWeather,
+  FogWeather,
+  SnowWeather,
+  ImpactLevel,
+} from './WeatherCondition';
+import { WeatherForecast, FORECAST_SLOT_HOURS } from './WeatherForecast';
+
+export const KNOTS_TO_MS = 0.514444;
+/** Ceilings below this are instrument conditions and are rated like fog */
+export const IFR_CEILING_FT = 1000;
+
+/** 9999, CAVOK and P6SM all mean 10 km or more */
+const UNLIMITED_VISIBILITY_M = 10000;
+const STATUTE_MILE_M = 1609.34;
+/** Below this visibility (mist) an obscuration affects flights */
+const OBSCURED_VISIBILITY_M = 5000;
+/** Each foot of ceiling rates like this many metres of visibility: 200 ft (CAT I minimum) like 400 m */
+const CEILING_TO_VISIBILITY_M = 2;
+
+export type Intensity = 'light' | 'moderate' | 'heavy';
+export type CloudCover = 'FEW' | 'SCT' | 'BKN' | 'OVC' | 'VV';
+
+const CLOUD_COVER_PERCENT: Record<CloudCover, number> = { FEW: 25, SCT: 50, BKN: 75, OVC: 100, VV: 100 };
+const IMPACT_ORDER: ImpactLevel[] = ['none', 'low', 'medium', 'high', 'critical'];
+
+export interface Wind {
+  /** Null for variable wind (VRB) */
+  directionDeg: number | null;
+  speedKt: number;
+  gustKt: number | null;
+}
+
+export interface CloudLayer {
+  cover: CloudCover;
+  /** Null when the base is not reported (///) */
+  baseFt: number | null;
+  convective: 'CB' | 'TCU' | null;
+}
+
+/**
+ * A present or forecast weather group such as "+TSRA" or "VCSH"
+ */
+export interface PresentWeather {
+  code: string;
+  intensity: Intensity;
+  /** Within 8 km of the airport but not at it */
+  vicinity: boolean;
+  descriptor: string | null;
+  phenomena: string[];
+}
+
+/**
+ * Groups shared by METAR and TAF; null where the report does not give them
+ */
+export interface ReportedConditions {
+  wind: Wind | null;
+  visibilityM: number | null;
+  weather: PresentWeather[] | null;
+  clouds: CloudLayer[] | null;
+}
+
+/**
+ * A TAF period: the base forecast, a lasting change (FM, BECMG)
+ * or a temporary one (TEMPO, PROB30/40)
+ */
+export interface TafPeriod {
+  type: 'BASE' | 'FM' | 'BECMG' | 'TEMPO' | 'PROB';
+  from: Date;
+  to: Date;
+  probability: number | null;
+  conditions: ReportedConditions;
+}
+
+const STATION = /^[A-Z][A-Z0-9]{3}$/;
+const DAY_TIME = /^(\d{2})(\d{2})(\d{2})Z$/;
+const PERIOD = /^(\d{2})(\d{2})\/(\d{2})(\d{2})$/;
+const FROM = /^FM(\d{2})(\d{2})(\d{2})$/;
+const PROBABILITY = /^PROB(\d{2})$/;
+const WIND = /^(\d{3}|VRB)(\d{2,3})(?:G(\d{2,3}))?(KT|MPS)$/;
+const METRIC_VISIBILITY = /^(\d{4})(?:NDV)?$/;
+const MILES_VISIBILITY = /^([PM])?(?:(\d+)|(\d)\/(\d{1,2}))SM$/;
+const CLOUD = /^(FEW|SCT|BKN|OVC)(\d{3}|\/\/\/)(CB|TCU)?$/;
+const VERTICAL_VISIBILITY = /^VV(\d{3}|\/\/\/)$/;
+const NO_CLOUD = /^(SKC|CLR|NSC|NCD)$/;
+const WEATHER = /^([+-]|VC)?(MI|PR|BC|DR|BL|SH|TS|FZ)?((?:DZ|RA|SN|SG|IC|PL|GR|GS|UP|BR|FG|FU|VA|DU|SA|HZ|PY|PO|SQ|FC|SS|DS)*)$/;
+const TEMPERATURE = /^(M?\d{2})\/(M?\d{2})?$/;
+const ALTIMETER = /^([QA])(\d{4})$/;
+
+const OBSCURATIONS = ['FG', 'BR', 'HZ', 'FU', 'DU', 'SA', 'VA', 'PY', 'SS', 'DS'];
+const FROZEN = ['SN', 'SG', 'PL', 'IC', 'GS'];
+
+const emptyConditions = (): ReportedConditions => ({ wind: null, visibilityM: null, weather: null, clouds: null });
+
+/**
+ * Day and time of the report in the month of the reference date, or the month
+ * before or after when that is closer (reports near the turn of a month)
+ */
+function resolveTime(reference: Date, day: number, hour: number, minute: number): Date {
+  const candidates = [-1, 0, 1].map(offset =>
+    new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth() + offset, day, hour, minute))
+  );
+  return candidates.reduce((best, candidate) =>
+    Math.abs(candidate.getTime() - reference.getTime()) < Math.abs(best.getTime() - reference.getTime()) ? candidate : best
+  );
+}
+
+const parseTemperature = (value: string) => (value.startsWith('M') ? -1 : 1) * parseInt(value.replace('M', ''), 10);
+
+/**
+ * Decode the group at tokens[index] into the conditions
+ * @returns Number of tokens used; 0 when the token is not a condition group
+ */
+function parseConditionGroup(tokens: string[], index: number, into: ReportedConditions): number {
+  const token = tokens[index];
+  let match: RegExpMatchArray | null;
+
+  if ((match = token.match(WIND))) {
+    const factor = match[4] === 'MPS' ? 1 / KNOTS_TO_MS : 1;
+    into.wind = {
+      directionDeg: match[1] === 'VRB' ? null : parseInt(match[1], 10),
+      speedKt: Math.round(parseInt(match[2], 10) * factor),
+      gustKt: match[3] ? Math.round(parseInt(match[3], 10) * factor) : null,
+    };
+    return 1;
+  }
+
+  if (token === 'CAVOK') {
+    into.visibilityM = UNLIMITED_VISIBILITY_M;
+    into.weather = [];
+    into.clouds = [];
+    return 1;
+  }
+
+  if ((match = token.match(METRIC_VISIBILITY))) {
+    const metres = parseInt(match[1], 10);
+    into.visibilityM = metres >= 9999 ? UNLIMITED_VISIBILITY_M : metres;
+    return 1;
+  }
+
+  // "1 1/2SM" is split in two tokens
+  const next = tokens[index + 1];
+  if (/^\d$/.test(token) && next && (match = next.match(MILES_VISIBILITY)) && match[3]) {
+    into.visibilityM = Math.round((parseInt(token, 10) + parseInt(match[3], 10) / parseInt(match[4], 10)) * STATUTE_MILE_M);
+    return 2;
+  }
+
+  if ((match = token.match(MILES_VISIBILITY))) {
+    const miles = match[2] ? parseInt(match[2], 10) : parseInt(match[3], 10) / parseInt(match[4], 10);
+    const metres = Math.round(miles * STATUTE_MILE_M);
+    into.visibilityM = match[1] === 'P' ? Math.max(metres, UNLIMITED_VISIBILITY_M) : metres;
+    return 1;
+  }
+
+  if ((match = token.match(CLOUD))) {
+    into.clouds = [...(into.clouds || []), {
+      cover: match[1] as CloudCover,
+      baseFt: match[2] === '///' ? null : parseInt(match[2], 10) * 100,
+      convective: (match[3] as 'CB' | 'TCU' | undefined) ?? null,
+    }];
+    return 1;
+  }
+
+  if ((match = token.match(VERTICAL_VISIBILITY))) {
+    into.clouds = [...(into.clouds || []), {
+      cover: 'VV',
+      baseFt: match[1] === '///' ? null : parseInt(match[1], 10) * 100,
+      convective: null,
+    }];
+    return 1;
+  }
+
+  if (NO_CLOUD.test(token)) {
+    into.clouds = [];
+    return 1;
+  }
+
+  if (token === 'NSW') {
+    into.weather = [];
+    return 1;
+  }
+
+  if ((match = token.match(WEATHER)) && (match[2] || match[3])) {
+    into.weather = [...(into.weather || []), {
+      code: token,
+      intensity: match[1] === '+' ? 'heavy' : match[1] === '-' ? 'light' : 'moderate',
+      vicinity: match[1] === 'VC',
+      descriptor: match[2] ?? null,
+      phenomena: match[3].match(/.{2}/g) || [],
+    }];
+    return 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Lowest broken or overcast layer, or vertical visibility into an obscured sky
+ */
+function ceilingOf(clouds: CloudLayer[] | null): number | null {
+  const bases = (clouds || [])
+    .filter(layer => (layer.cover === 'BKN' || layer.cover === 'OVC' || layer.cover === 'VV') && layer.baseFt !== null)
+    .map(layer => layer.baseFt as number);
+  return bases.length > 0 ? Math.min(...bases) : null;
+}
+
+const isWorse = (a: WeatherCondition, b: WeatherCondition) => {
+  const rank = IMPACT_ORDER.indexOf(a.assessImpact()) - IMPACT_ORDER.indexOf(b.assessImpact());
+  return rank > 0 || (rank === 0 && a.getDelayFactor() > b.getDelayFactor());
+};
+
+/**
+ * POLYMORPHISM: The WeatherCondition subclass with the greatest impact among
+ * what the groups describe; precipitation wins ties over fog, fog over cloud
+ */
+function toCondition(conditions: ReportedConditions, temperatureC: number | null, humidity: number | null): WeatherCondition {
+  const wind = conditions.wind
+    ? Math.max(conditions.wind.speedKt, conditions.wind.gustKt ?? 0) * KNOTS_TO_MS
+    : 0;
+  const candidates: WeatherCondition[] = [];
+
+  for (const group of conditions.weather || []) {
+    const has = (codes: string[]) => group.phenomena.some(code => codes.includes(code));
+
+    if (group.descriptor === 'TS') {
+      // Thunder in the vicinity is no storm at the airport yet
+      const severity = group.vicinity ? 'light' : group.intensity === 'heavy' ? 'severe' : group.intensity === 'light' ? 'light' : 'moderate';
+      candidates.push(new StormWeather(temperatureC, wind, humidity, severity, !group.vicinity));
+    } else if (group.vicinity) {
+      continue;
+    } else if (has(['SQ', 'FC'])) {
+      candidates.push(new StormWeather(temperatureC, wind, humidity, 'severe'));
+    } else if (has(['GR'])) {
+      candidates.push(new StormWeather(temperatureC, wind, humidity, 'moderate'));
+    } else if (has(FROZEN)) {
+      candidates.push(new SnowWeather(temperatureC, wind, humidity, group.intensity));
+    } else if (has(['RA', 'DZ', 'UP'])) {
+      candidates.push(new RainWeather(temperatureC, wind, humidity, group.intensity));
+    }
+  }
+
+  const obscured = (conditions.weather || []).some(group =>
+    !group.vicinity && group.phenomena.some(code => OBSCURATIONS.includes(code))
+  );
+  const ceiling = ceilingOf(conditions.clouds);
+  const visibilities = [
+    conditions.visibilityM !== null && (obscured || conditions.visibilityM < OBSCURED_VISIBILITY_M) ? conditions.visibilityM : null,
+    ceiling !== null && ceiling < IFR_CEILING_FT ? ceiling * CEILING_TO_VISIBILITY_M : null,
+  ].filter((value): value is number => value !== null);
+  if (visibilities.length > 0) {
+    candidates.push(new FogWeather(temperatureC, wind, humidity, Math.min(...visibilities)));
+  }
+
+  if ((conditions.clouds || []).some(layer => layer.convective === 'CB')) {
+    candidates.push(new StormWeather(temperatureC, wind, humidity, 'light'));
+  }
+
+  const coverage = Math.max(0, ...(conditions.clouds || []).map(layer => CLOUD_COVER_PERCENT[layer.cover]));
+  candidates.push(coverage >= CLOUD_COVER_PERCENT.FEW
+    ? new CloudyWeather(temperatureC, wind, humidity, coverage)
+    : new ClearWeather(temperatureC, wind, humidity));
+
+  return candidates.reduce((worst, candidate) => (isWorse(candidate, worst) ? candidate : worst));
+}
+
+/**
+ * Relative humidity from temperature and dew point (Magnus formula)
+ */
+function relativeHumidity(temperatureC: number, dewpointC: number): number {
+  const magnus = (t: number) => Math.exp((17.625 * t) / (243.04 + t));
+  return Math.min(100, Math.round((100 * magnus(dewpointC)) / magnus(temperatureC)));
+}
+
+/**
+ * ENCAPSULATION: A decoded METAR observation
+ */
+export class Metar {
+  private readonly station: string;
+  private readonly observedAt: Date;
+  private readonly conditions: ReportedConditions;
+  private readonly temperatureC: number | null;
+  private readonly dewpointC: number | null;
+  private readonly pressureHpa: number | null;
+  private readonly raw: string;
+
+  private constructor(
+    station: string,
+    observedAt: Date,
+    conditions: ReportedConditions,
+    temperatureC: number | null,
+    dewpointC: number | null,
+    pressureHpa: number | null,
+    raw: string
+  ) {
+    this.station = station;
+    this.observedAt = observedAt;
+    this.conditions = conditions;
+    this.temperatureC = temperatureC;
+    this.dewpointC = dewpointC;
+    this.pressureHpa = pressureHpa;
+    this.raw = raw;
+  }
+
+  /**
+   * FACTORY: Decode a METAR or SPECI; remarks and trend forecasts are ignored
+   * @param reference - Time near the observation, to resolve its day of month
+   * @throws Error when the station or observation time is missing
+   */
+  static parse(text: string, reference: Date = new Date()): Metar {
+    const tokens = text.trim().toUpperCase().replace(/=$/, '').split(/\s+/);
+    let index = 0;
+    while (['METAR', 'SPECI', 'COR'].includes(tokens[index])) index++;
+
+    const station = tokens[index];
+    const time = tokens[index + 1]?.match(DAY_TIME);
+    if (!station || !STATION.test(station) || !time) {
+      throw new Error('METAR must start with a station and an observation time');
+    }
+
+    const observedAt = resolveTime(reference, parseInt(time[1], 10), parseInt(time[2], 10), parseInt(time[3], 10));
+    const conditions = emptyConditions();
+    let temperatureC: number | null = null;
+    let dewpointC: number | null = null;
+    let pressureHpa: number | null = null;
+
+    index += 2;
+    while (index < tokens.length && !['RMK', 'BECMG', 'TEMPO', 'NOSIG'].includes(tokens[index])) {
+      const token = tokens[index];
+      const used = parseConditionGroup(tokens, index, conditions);
+      if (used > 0) {
+        index += used;
+        continue;
+      }
+
+      let match: RegExpMatchArray | null;
+      if ((match = token.match(TEMPERATURE))) {
+        temperatureC = parseTemperature(match[1]);
+        dewpointC = match[2] ? parseTemperature(match[2]) : null;
+      } else if ((match = token.match(ALTIMETER))) {
+        // A2992 is inches of mercury (29.92), Q1013 hectopascals
+        pressureHpa = match[1] === 'Q' ? parseInt(match[2], 10) : Math.round(parseInt(match[2], 10) * 0.338639);
+      }
+      // Other groups (AUTO, runway visual range, recent weather, wind shear) are skipped
+      index++;
+    }
+
+    return new Metar(station, observedAt, conditions, temperatureC, dewpointC, pressureHpa, text.trim());
+  }
+
+  public getStation(): string {
+    return this.station;
+  }
+
+  public getObservedAt(): Date {
+    return this.observedAt;
+  }
+
+  public getWind(): Wind | null {
+    return this.conditions.wind;
+  }
+
+  public getVisibilityM(): number | null {
+    return this.conditions.visibilityM;
+  }
+
+  public getPresentWeather(): PresentWeather[] {
+    return this.conditions.weather || [];
+  }
+
+  public getClouds(): CloudLayer[] {
+    return this.conditions.clouds || [];
+  }
+
+  /**
+   * Lowest broken or overcast layer in feet; null when there is none
+   */
+  public getCeilingFt(): number | null {
+    return ceilingOf(this.conditions.clouds);
+  }
+
+  public getCloudCoverPercent(): number {
+    return Math.max(0, ...this.getClouds().map(layer => CLOUD_COVER_PERCENT[layer.cover]));
+  }
+
+  public getTemperatureC(): number | null {
+    return this.temperatureC;
+  }
+
+  public getDewpointC(): number | null {
+    return this.dewpointC;
+  }
+
+  public getHumidity(): number | null {
+    return this.temperatureC !== null && this.dewpointC !== null
+      ? relativeHumidity(this.temperatureC, this.dewpointC)
+      : null;
+  }
+
+  public getPressureHpa(): number | null {
+    return this.pressureHpa;
+  }
+
+  public getRaw(): string {
+    return this.raw;
+  }
+
+  /**
+   * Observed conditions as a WeatherCondition at the observation time
+   * (temperature and humidity are null when the report has none)
+   */
+  public toCondition(): WeatherCondition {
+    const condition = toCondition(this.conditions, this.temperatureC, this.getHumidity());
+    condition.setTimestamp(this.observedAt);
+    return condition;
+  }
+}
+
+/**
+ * ENCAPSULATION: A decoded TAF with its change periods
+ */
+export class Taf {
+  private readonly station: string;
+  private readonly issuedAt: Date;
+  private readonly validFrom: Date;
+  private readonly validTo: Date;
+  private readonly periods: TafPeriod[];
+
+  private constructor(station: string, issuedAt: Date, validFrom: Date, validTo: Date, periods: TafPeriod[]) {
+    this.station = station;
+    this.issuedAt = issuedAt;
+    this.validFrom = validFrom;
+    this.validTo = validTo;
+    this.periods = periods;
+  }
+
+  /**
+   * FACTORY: Decode a TAF into its base forecast and change groups
+   * @param reference - Time near the issue time, to resolve days of month
+   * @throws Error when the station or validity period is missing
+   */
+  static parse(text: string, reference: Date = new Date()): Taf {
+    const tokens = text.trim().toUpperCase().replace(/=$/, '').split(/\s+/);
+    let index = 0;
+    while (['TAF', 'AMD', 'COR'].includes(tokens[index])) index++;
+
+    const station = tokens[index++];
+    const issue = tokens[index]?.match(DAY_TIME);
+    if (issue) index++;
+    const validity = tokens[index]?.match(PERIOD);
+    if (!station || !STATION.test(station) || !validity) {
+      throw new Error('TAF must start with a station and a validity period');
+    }
+    index++;
+
+    const issuedAt = issue
+      ? resolveTime(reference, parseInt(issue[1], 10), parseInt(issue[2], 10), parseInt(issue[3], 10))
+      : null;
+    const validFrom = resolveTime(issuedAt ?? reference, parseInt(validity[1], 10), parseInt(validity[2], 10), 0);
+    // Later times are resolved from the start of validity, so a period never ends before it starts
+    const day = (dd: string, hh: string, mm: string = '00') =>
+      resolveTime(validFrom, parseInt(dd, 10), parseInt(hh, 10), parseInt(mm, 10));
+    const validTo = day(validity[3], validity[4]);
+
+    const periods: TafPeriod[] = [];
+    let current: TafPeriod = { type: 'BASE', from: validFrom, to: validTo, probability: null, conditions: emptyConditions() };
+
+    while (index < tokens.length && tokens[index] !== 'RMK') {
+      const token = tokens[index];
+      let match: RegExpMatchArray | null;
+      let next: TafPeriod | null = null;
+
+      if ((match = token.match(FROM))) {
+        next = { type: 'FM', from: day(match[1], match[2], match[3]), to: validTo, probability: null, conditions: emptyConditions() };
+        index++;
+      } else if (token === 'BECMG' || token === 'TEMPO' || PROBABILITY.test(token)) {
+        const probability = token.match(PROBABILITY);
+        index++;
+        if (probability && tokens[index] === 'TEMPO') index++;
+        const period = tokens[index]?.match(PERIOD);
+        if (period) {
+          next = {
+            type: probability ? 'PROB' : (token as 'BECMG' | 'TEMPO'),
+            from: day(period[1], period[2]),
+            to: day(period[3], period[4]),
+            probability: probability ? parseInt(probability[1], 10) : null,
+            conditions: emptyConditions(),
+          };
+          index++;
+        }
+      }
+
+      if (next) {
+        periods.push(current);
+        current = next;
+        continue;
+      }
+
+      // Groups such as TX/TN temperatures are skipped
+      index += Math.max(parseConditionGroup(tokens, index, current.conditions), 1);
+    }
+    periods.push(current);
+
+    // A lasting change ends where the next FM group starts
+    const changes = periods.filter(period => period.type === 'FM');
+    changes.forEach((period, i) => {
+      if (changes[i + 1]) period.to = changes[i + 1].from;
+    });
+
+    return new Taf(station, issuedAt ?? validFrom, validFrom, validTo, periods);
+  }
+
+  public getStation(): string {
+    return this.station;
+  }
+
+  public getIssuedAt(): Date {
+    return this.issuedAt;
+  }
+
+  public getValidFrom(): Date {
+    return this.validFrom;
+  }
+
+  public getValidTo(): Date {
+    return this.validTo;
+  }
+
+  public getPeriods(): TafPeriod[] {
+    return [...this.periods];
+  }
+
+  /**
+   * Forecast conditions at a time: the base forecast with the FM and BECMG changes
+   * started by then, or a TEMPO/PROB period covering the time when that is worse
+   * TAFs give no hourly temperatures, so the condition has no temperature or humidity.
+   * @returns Null outside the validity period
+   */
+  public conditionAt(time: Date): WeatherCondition | null {
+    const t = time.getTime();
+    if (t < this.validFrom.getTime() || t >= this.validTo.getTime()) return null;
+
+    const merge = (base: ReportedConditions, change: ReportedConditions): ReportedConditions => ({
+      wind: change.wind ?? base.wind,
+      visibilityM: change.visibilityM ?? base.visibilityM,
+      weather: change.weather ?? base.weather,
+      clouds: change.clouds ?? base.clouds,
+    });
+
+    let prevailing = emptyConditions();
+    for (const period of this.periods) {
+      if (period.type === 'BASE') prevailing = merge(prevailing, period.conditions);
+      // FM replaces the whole forecast; BECMG changes the groups it gives
+      if (period.type === 'FM' && period.from.getTime() <= t) prevailing = { ...period.conditions, weather: period.conditions.weather ?? [] };
+      if (period.type === 'BECMG' && period.from.getTime() <= t) prevailing = merge(prevailing, period.conditions);
+    }
+
+    let condition = toCondition(prevailing, null, null);
+    for (const period of this.periods) {
+      if ((period.type === 'TEMPO' || period.type === 'PROB') && period.from.getTime() <= t && t < period.to.getTime()) {
+        const temporary = toCondition(merge(prevailing, period.conditions), null, null);
+        if (isWorse(temporary, condition)) condition = temporary;
+      }
+    }
+
+    condition.setTimestamp(time);
+    return condition;
+  }
+
+  /**
+   * Forecast slots every FORECAST_SLOT_HOURS over the validity period
+   * @param startAt - Move the forecast to start at this time (fixtures recorded in the past)
+   */
+  public toForecast(startAt?: Date): WeatherForecast {
+    const shift = startAt ? startAt.getTime() - this.validFrom.getTime() : 0;
+    const slots: WeatherCondition[] = [];
+
+    for (let t = this.validFrom.getTime(); t < this.validTo.getTime(); t += FORECAST_SLOT_HOURS * 3600000) {
+      const condition = this.conditionAt(new Date(t));
+      if (condition) {
+        condition.setTimestamp(new Date(t + shift));
+        slots.push(condition);
+      }
+    }
+
+    return new WeatherForecast(slots);
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * CargoPiece.ts - Piece-level dimensions and chargeable weight
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Dimensions and weight are private and validated on construction
+ * - ABSTRACTION: Volume, volumetric weight and chargeable weight are derived values
+ *
+ * Air freight is billed on chargeable weight: the greater of the actual weight
+ * and the volumetric weight (L×W×H in cm / 6000), rounded up to the next 0.5 kg.
+ */
+
+/** IATA volumetric divisor: 6000 cm³ per kg */
+export const VOLUMETRIC_DIVISOR = 6000;
+
+/** Maximum number of piece lines on one shipment */
+export const MAX_PIECE_LINES = 50;
+
+/** Maximum length of any side in cm */
+export const MAX_DIMENSION_CM = 1000;
+
+export const PACKAGING_TYPES = ['box', 'crate', 'pallet', 'drum', 'envelope', 'bag', 'other'] as const;
+export type PackagingType = typeof PACKAGING_TYPES[number];
+
+/**
+ * A line of identical pieces, e.g. 3 pallets of 120×80×100 cm at 250 kg each
+ */
+export interface PieceData {
+  quantity?: number;
+  length_cm: number;
+  width_cm: number;
+  height_cm: number;
+  weight_kg: number;
+  packaging_type?: PackagingType;
+}
+
+/**
+ * Weight and volume totals of a shipment, named after the shipment columns
+ */
+export interface WeightSummary {
+  total_pieces: number | null;
+  volume_m3: number | null;
+  volumetric_weight_kg: number | null;
+  weight_kg: number | null;
+  chargeable_weight_kg: number | null;
+}
+
+/**
+ * ENCAPSULATION: One validated line of identical pieces
+ */
+export class CargoPiece {
+  private readonly quantity: number;
+  private readonly lengthCm: number;
+  private readonly widthCm: number;
+  private readonly heightCm: number;
+  private readonly weightKg: number;
+  private readonly packagingType: PackagingType;
+
+  /**
+   * @throws Error when the piece data is invalid
+   */
+  constructor(data: PieceData) {
+    const errors = CargoPiece.validate(data);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.quantity = data.quantity ?? 1;
+    this.lengthCm = data.length_cm;
+    this.widthCm = data.width_cm;
+    this.heightCm = data.height_cm;
+    this.weightKg = data.weight_kg;
+    this.packagingType = data.packaging_type ?? 'box';
+  }
+
+  /**
+   * Validate piece data
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(data: Partial<PieceData>): string[] {
+    const errors: string[] = [];
+
+    if (data.quantity !== undefined &&
+        (!Number.isInteger(data.quantity) || data.quantity < 1 || data.quantity > 9999)) {
+      errors.push('Quantity must be a whole number between 1 and 9999');
+    }
+
+    const dimensions: [keyof PieceData, string][] = [
+      ['length_cm', 'Length'],
+      ['width_cm', 'Width'],
+      ['height_cm', 'Height'],
+    ];
+    for (const [key, label] of dimensions) {
+      const value = data[key];
+      if (typeof value !== 'number' || !(value > 0) || value > MAX_DIMENSION_CM) {
+        errors.push(`${label} must be between 0 and ${MAX_DIMENSION_CM} cm`);
+      }
+    }
+
+    if (typeof data.weight_kg !== 'number' || !(data.weight_kg > 0)) {
+      errors.push('Piece weight must be a positive number');
+    }
+
+    if (data.packaging_type !== undefined && !PACKAGING_TYPES.includes(data.packaging_type)) {
+      errors.push(`Packaging type must be one of: ${PACKAGING_TYPES.join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Chargeable weight from actual and volumetric weight, rounded up to the next 0.5 kg
+   * @returns null when neither weight is known
+   */
+  static chargeableWeight(actualKg?: number | null, volumetricKg?: number | null): number | null {
+    const weight = Math.max(actualKg || 0, volumetricKg || 0);
+    if (weight <= 0) return null;
+    return Math.ceil(weight * 2) / 2;
+  }
+
+  /**
+   * Totals for a shipment
+   * Without pieces only the declared weight is known; with pieces the
+   * actual weight is the sum of the piece weights
+   */
+  static summarize(pieces: CargoPiece[], declaredWeightKg?: number | null): WeightSummary {
+    if (pieces.length === 0) {
+      return {
+        total_pieces: null,
+        volume_m3: null,
+        volumetric_weight_kg: null,
+        weight_kg: declaredWeightKg ?? null,
+        chargeable_weight_kg: CargoPiece.chargeableWeight(declaredWeightKg),
+      };
+    }
+
+    const totalPieces = pieces.reduce((sum, piece) => sum + piece.getQuantity(), 0);
+    const volumeCm3 = pieces.reduce((sum, piece) => sum + piece.getVolumeCm3(), 0);
+    const actualKg = pieces.reduce((sum, piece) => sum + piece.getActualWeight(), 0);
+    const volumetricKg = volumeCm3 / VOLUMETRIC_DIVISOR;
+
+    return {
+      total_pieces: totalPieces,
+      volume_m3: Math.round(volumeCm3 / 1000) / 1000,
+      volumetric_weight_kg: Math.round(volumetricKg * 100) / 100,
+      weight_kg: Math.round(actualKg * 100) / 100,
+      chargeable_weight_kg: CargoPiece.chargeableWeight(actualKg, volumetricKg),
+    };
+  }
+
+  public getQuantity(): number {
+    return this.quantity;
+  }
+
+  public getPackagingType(): PackagingType {
+    return this.packagingType;
+  }
+
+  /**
+   * Volume of all pieces on this line in cm³
+   */
+  public getVolumeCm3(): number {
+    return this.lengthCm * this.widthCm * this.heightCm * this.quantity;
+  }
+
+  /**
+   * Volumetric weight of all pieces on this line in kg
+   */
+  public getVolumetricWeight(): number {
+    return this.getVolumeCm3() / VOLUMETRIC_DIVISOR;
+  }
+
+  /**
+   * Actual weight of all pieces on this line in kg
+   */
+  public getActualWeight(): number {
+    return this.weightKg * this.quantity;
+  }
+
+  /**
+   * Row data as stored in shipment_pieces
+   */
+  public toJSON(): Required<PieceData> {
+    return {
+      quantity: this.quantity,
+      length_cm: this.lengthCm,
+      width_cm: this.widthCm,
+      height_cm: this.heightCm,
+      weight_kg: this.weightKg,
+      packaging_type: this.packagingType,
+    };
+  }
+}
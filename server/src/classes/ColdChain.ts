@@ -0,0 +1,280 @@
+/**
+ * ColdChain.ts - Allowed temperature range of perishable cargo and excursion detection
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Range limits and reading details are private and validated on construction
+ * - ABSTRACTION: Callers pass temperatures from any source; the range decides what is an excursion
+ *
+ * Temperatures come from the weather at the origin and destination airports
+ * (WeatherCondition.getTemperature()) and from readings logged by handlers or data loggers.
+ */
+
+import { ImpactLevel } from './WeatherCondition';
+
+/** impact_type of weather_impacts rows recorded for temperature excursions */
+export const TEMPERATURE_EXCURSION_IMPACT = 'temperature_excursion';
+
+/** Range limits accepted for a shipment, from deep frozen (dry ice) to ambient */
+export const MIN_RANGE_C = -80;
+export const MAX_RANGE_C = 40;
+
+/** Plausible readings from a logger or probe */
+const MIN_READING_C = -100;
+const MAX_READING_C = 100;
+
+/** Tolerated clock difference between a logger and the server */
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export type TemperatureSource = 'origin_weather' | 'destination_weather' | 'reading';
+
+/**
+ * Allowed range as stored on the shipment
+ */
+export interface TemperatureRangeData {
+  temp_min_c: number;
+  temp_max_c: number;
+}
+
+/**
+ * A logged reading as submitted by the client
+ */
+export interface TemperatureReadingData {
+  temperature_c: number;
+  recorded_at?: string;
+  location?: string;
+  notes?: string;
+}
+
+/**
+ * A temperature outside the allowed range
+ */
+export interface TemperatureExcursion {
+  source: TemperatureSource;
+  location: string;
+  temperature_c: number;
+  temp_min_c: number;
+  temp_max_c: number;
+  /** Degrees outside the range, always positive */
+  deviation_c: number;
+  severity: ImpactLevel;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && !isNaN(value);
+
+/**
+ * ENCAPSULATION: The allowed temperature range of a perishable shipment
+ */
+export class TemperatureRange {
+  private readonly min: number;
+  private readonly max: number;
+
+  /**
+   * @throws Error when the range is invalid
+   */
+  constructor(data: TemperatureRangeData) {
+    const errors = TemperatureRange.validate(data);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.min = data.temp_min_c;
+    this.max = data.temp_max_c;
+  }
+
+  /**
+   * Validate a temperature range
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(data: Partial<TemperatureRangeData>): string[] {
+    const errors: string[] = [];
+    const { temp_min_c: min, temp_max_c: max } = data;
+
+    if (!isNumber(min) || min < MIN_RANGE_C || min > MAX_RANGE_C) {
+      errors.push(`Minimum temperature must be a number between ${MIN_RANGE_C} and ${MAX_RANGE_C}°C`);
+    }
+    if (!isNumber(max) || max < MIN_RANGE_C || max > MAX_RANGE_C) {
+      errors.push(`Maximum temperature must be a number between ${MIN_RANGE_C} and ${MAX_RANGE_C}°C`);
+    }
+    if (isNumber(min) && isNumber(max) && min >= max) {
+      errors.push('Minimum temperature must be below the maximum temperature');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Range stored on a shipment, or null when none was recorded
+   */
+  static fromShipment(shipment: { temp_min_c?: number | string | null; temp_max_c?: number | string | null }): TemperatureRange | null {
+    if (shipment.temp_min_c == null || shipment.temp_max_c == null) {
+      return null;
+    }
+
+    // DECIMAL columns may come back as strings
+    return new TemperatureRange({
+      temp_min_c: Number(shipment.temp_min_c),
+      temp_max_c: Number(shipment.temp_max_c),
+    });
+  }
+
+  getMin(): number {
+    return this.min;
+  }
+
+  getMax(): number {
+    return this.max;
+  }
+
+  contains(temperature: number): boolean {
+    return temperature >= this.min && temperature <= this.max;
+  }
+
+  /**
+   * Degrees a temperature lies outside the range (0 when inside)
+   */
+  deviation(temperature: number): number {
+    if (temperature < this.min) return round(this.min - temperature);
+    if (temperature > this.max) return round(temperature - this.max);
+    return 0;
+  }
+
+  /**
+   * Severity of an excursion, from its distance to the range
+   */
+  static severityOf(deviation: number): ImpactLevel {
+    if (deviation <= 0) return 'none';
+    if (deviation <= 2) return 'medium';
+    if (deviation <= 5) return 'high';
+    return 'critical';
+  }
+
+  /**
+   * Check one temperature against the range
+   * @returns The excursion, or null when the temperature is within range
+   */
+  check(temperature: number, source: TemperatureSource, location: string): TemperatureExcursion | null {
+    const deviation = this.deviation(temperature);
+    if (deviation === 0) {
+      return null;
+    }
+
+    return {
+      source,
+      location,
+      temperature_c: round(temperature),
+      temp_min_c: this.min,
+      temp_max_c: this.max,
+      deviation_c: deviation,
+      severity: TemperatureRange.severityOf(deviation),
+    };
+  }
+
+  /**
+   * Describe an excursion for the weather impact log, e.g.
+   * "Temperature excursion at JFK: 12°C, 4°C above the 2 to 8°C range"
+   */
+  static describeExcursion(excursion: TemperatureExcursion): string {
+    const direction = excursion.temperature_c > excursion.temp_max_c ? 'above' : 'below';
+    return `Temperature excursion at ${excursion.location}: ${excursion.temperature_c}°C, ` +
+      `${excursion.deviation_c}°C ${direction} the ${excursion.temp_min_c} to ${excursion.temp_max_c}°C range`;
+  }
+
+  /**
+   * Human readable range, e.g. "2 to 8°C"
+   */
+  toString(): string {
+    return `${this.min} to ${this.max}°C`;
+  }
+
+  toJSON(): TemperatureRangeData {
+    return { temp_min_c: this.min, temp_max_c: this.max };
+  }
+}
+
+/**
+ * ENCAPSULATION: A temperature reading logged for a shipment
+ */
+export class TemperatureReading {
+  private readonly temperature: number;
+  private readonly recordedAt: Date;
+  private readonly location: string | null;
+  private readonly notes: string | null;
+
+  /**
+   * @throws Error when the reading is invalid
+   */
+  constructor(data: TemperatureReadingData, now: Date = new Date()) {
+    const errors = TemperatureReading.validate(data, now);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.temperature = round(data.temperature_c);
+    this.recordedAt = data.recorded_at ? new Date(data.recorded_at) : now;
+    this.location = data.location?.trim() || null;
+    this.notes = data.notes?.trim() || null;
+  }
+
+  /**
+   * Validate a logged reading
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(data: Partial<TemperatureReadingData>, now: Date = new Date()): string[] {
+    const errors: string[] = [];
+
+    if (!isNumber(data.temperature_c) || data.temperature_c < MIN_READING_C || data.temperature_c > MAX_READING_C) {
+      errors.push(`Temperature must be a number between ${MIN_READING_C} and ${MAX_READING_C}°C`);
+    }
+
+    if (data.recorded_at !== undefined) {
+      const recordedAt = new Date(data.recorded_at);
+      if (isNaN(recordedAt.getTime())) {
+        errors.push('Recorded time must be a valid date');
+      } else if (recordedAt.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+        errors.push('Recorded time cannot be in the future');
+      }
+    }
+
+    if (data.location !== undefined && (typeof data.location !== 'string' || data.location.length > 255)) {
+      errors.push('Location must be at most 255 characters');
+    }
+
+    if (data.notes !== undefined && (typeof data.notes !== 'string' || data.notes.length > 1000)) {
+      errors.push('Notes must be at most 1000 characters');
+    }
+
+    return errors;
+  }
+
+  getTemperature(): number {
+    return this.temperature;
+  }
+
+  getRecordedAt(): Date {
+    return this.recordedAt;
+  }
+
+  getLocation(): string | null {
+    return this.location;
+  }
+
+  /**
+   * Check the reading against a shipment's range
+   * @param fallbackLocation - Used when the reading has no location of its own
+   */
+  checkAgainst(range: TemperatureRange, fallbackLocation: string): TemperatureExcursion | null {
+    return range.check(this.temperature, 'reading', this.location || fallbackLocation);
+  }
+
+  toJSON() {
+    return {
+      temperature_c: this.temperature,
+      recorded_at: this.recordedAt.toISOString(),
+      location: this.location,
+      notes: this.notes,
+    };
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * CustomsClearance.ts - Customs sub-workflow of an international shipment
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Steps are private; the clearance decides which step may come next
+ * - ABSTRACTION: Callers record steps; dwell time and hold state are derived from them
+ *
+ * Customs runs alongside the shipment status: documents are submitted, customs
+ * reviews them and may hold the goods, and the goods are released once cleared.
+ * Duties may be paid before or after release.
+ */
+
+export const CUSTOMS_STATUSES = ['documents_submitted', 'under_review', 'held', 'released', 'duties_paid'] as const;
+export type CustomsStatus = typeof CUSTOMS_STATUSES[number];
+
+export const CUSTOMS_STATUS_LABELS: Record<CustomsStatus, string> = {
+  documents_submitted: 'Documents submitted',
+  under_review: 'Under review',
+  held: 'Held',
+  released: 'Released',
+  duties_paid: 'Duties paid',
+};
+
+/** Steps that may follow each step; the first step is always documents_submitted */
+const CUSTOMS_TRANSITIONS: Record<CustomsStatus, CustomsStatus[]> = {
+  documents_submitted: ['under_review', 'held', 'released'],
+  under_review: ['held', 'released', 'duties_paid'],
+  held: ['under_review', 'released', 'duties_paid'],
+  released: ['duties_paid'],
+  duties_paid: ['released'],
+};
+
+/** Tolerated clock difference between a broker's system and the server */
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * A customs step as submitted by the client
+ */
+export interface CustomsStepData {
+  status: string;
+  broker_reference?: string;
+  occurred_at?: string;
+  notes?: string;
+}
+
+/**
+ * A recorded customs step
+ */
+export interface CustomsStepRecord {
+  status: CustomsStatus;
+  broker_reference: string | null;
+  occurred_at: string;
+  notes: string | null;
+}
+
+const HOURS_MS = 60 * 60 * 1000;
+
+/**
+ * ENCAPSULATION: A validated customs step
+ */
+export class CustomsStep {
+  private readonly status: CustomsStatus;
+  private readonly brokerReference: string | null;
+  private readonly occurredAt: Date;
+  private readonly notes: string | null;
+
+  /**
+   * @throws Error when the step is invalid
+   */
+  constructor(data: CustomsStepData, now: Date = new Date()) {
+    const errors = CustomsStep.validate(data, now);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.status = data.status as CustomsStatus;
+    this.brokerReference = data.broker_reference?.trim() || null;
+    this.occurredAt = data.occurred_at ? new Date(data.occurred_at) : now;
+    this.notes = data.notes?.trim() || null;
+  }
+
+  /**
+   * Validate a customs step
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(data: Partial<CustomsStepData>, now: Date = new Date()): string[] {
+    const errors: string[] = [];
+
+    if (!CUSTOMS_STATUSES.includes(data.status as CustomsStatus)) {
+      errors.push(`Customs status must be one of: ${CUSTOMS_STATUSES.join(', ')}`);
+    }
+
+    if (data.broker_reference !== undefined &&
+        (typeof data.broker_reference !== 'string' || data.broker_reference.trim().length > 50)) {
+      errors.push('Broker reference must be at most 50 characters');
+    }
+
+    if (data.occurred_at !== undefined) {
+      const occurredAt = new Date(data.occurred_at);
+      if (isNaN(occurredAt.getTime())) {
+        errors.push('Step time must be a valid date');
+      } else if (occurredAt.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+        errors.push('Step time cannot be in the future');
+      }
+    }
+
+    if (data.notes !== undefined && (typeof data.notes !== 'string' || data.notes.length > 1000)) {
+      errors.push('Notes must be at most 1000 characters');
+    }
+
+    if (data.status === 'held' && !(typeof data.notes === 'string' && data.notes.trim())) {
+      errors.push('A customs hold needs notes explaining the reason');
+    }
+
+    return errors;
+  }
+
+  getStatus(): CustomsStatus {
+    return this.status;
+  }
+
+  getOccurredAt(): Date {
+    return this.occurredAt;
+  }
+
+  getNotes(): string | null {
+    return this.notes;
+  }
+
+  isHold(): boolean {
+    return this.status === 'held';
+  }
+
+  toJSON(): CustomsStepRecord {
+    return {
+      status: this.status,
+      broker_reference: this.brokerReference,
+      occurred_at: this.occurredAt.toISOString(),
+      notes: this.notes,
+    };
+  }
+}
+
+/**
+ * ENCAPSULATION: The customs steps of one shipment in the order they happened
+ */
+export class CustomsClearance {
+  private readonly steps: CustomsStepRecord[];
+
+  constructor(steps: CustomsStepRecord[]) {
+    this.steps = [...steps].sort(
+      (a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime()
+    );
+  }
+
+  getSteps(): CustomsStepRecord[] {
+    return [...this.steps];
+  }
+
+  /**
+   * Current customs status (null before documents are submitted)
+   */
+  getStatus(): CustomsStatus | null {
+    return this.steps.length > 0 ? this.steps[this.steps.length - 1].status : null;
+  }
+
+  /**
+   * Latest broker reference given on any step
+   */
+  getBrokerReference(): string | null {
+    const step = [...this.steps].reverse().find(s => s.broker_reference);
+    return step?.broker_reference || null;
+  }
+
+  isHeld(): boolean {
+    return this.getStatus() === 'held';
+  }
+
+  isReleased(): boolean {
+    return this.steps.some(step => step.status === 'released');
+  }
+
+  /**
+   * Steps that may be recorded next
+   */
+  getNextStatuses(): CustomsStatus[] {
+    const status = this.getStatus();
+    if (!status) {
+      return ['documents_submitted'];
+    }
+
+    // Release and payment of duties each happen once
+    return CUSTOMS_TRANSITIONS[status].filter(next =>
+      !(next === 'released' && this.isReleased()) &&
+      !(next === 'duties_paid' && this.steps.some(step => step.status === 'duties_paid'))
+    );
+  }
+
+  /**
+   * Check whether a step may be recorded next
+   * @returns Error message, or null when the step is allowed
+   */
+  checkNext(step: CustomsStep): string | null {
+    const status = this.getStatus();
+    if (!this.getNextStatuses().includes(step.getStatus())) {
+      return status
+        ? `Customs cannot move from '${status}' to '${step.getStatus()}'`
+        : 'Customs clearance must start with documents_submitted';
+    }
+
+    const last = this.steps[this.steps.length - 1];
+    if (last && step.getOccurredAt().getTime() < new Date(last.occurred_at).getTime()) {
+      return 'Customs steps must be recorded in the order they happened';
+    }
+
+    return null;
+  }
+
+  /**
+   * Hours between submitting the documents and the release,
+   * up to now while the goods are still in customs
+   * @returns null when customs has not started
+   */
+  getDwellHours(now: Date = new Date()): number | null {
+    if (this.steps.length === 0) {
+      return null;
+    }
+
+    const start = new Date(this.steps[0].occurred_at).getTime();
+    const release = this.steps.find(step => step.status === 'released');
+    const end = release ? new Date(release.occurred_at).getTime() : now.getTime();
+    return Math.round(((end - start) / HOURS_MS) * 10) / 10;
+  }
+
+  /**
+   * Number of times the goods were held
+   */
+  getHoldCount(): number {
+    return this.steps.filter(step => step.status === 'held').length;
+  }
+
+  toJSON() {
+    return {
+      status: this.getStatus(),
+      broker_reference: this.getBrokerReference(),
+      next_statuses: this.getNextStatuses(),
+      dwell_hours: this.getDwellHours(),
+      steps: this.getSteps(),
+    };
+  }
+}
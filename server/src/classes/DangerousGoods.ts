@@ -0,0 +1,409 @@
+/**
+ * DangerousGoods.ts - Dangerous goods declarations and acceptance checks
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Declared items are private and validated on construction
+ * - ABSTRACTION: Callers ask a declaration whether it passes; the reference data,
+ *   quantity limits and segregation rules stay inside this module
+ *
+ * The reference table is a representative subset of the IATA Dangerous Goods
+ * Regulations list. Limits are the maximum net quantity per line on passenger
+ * and cargo aircraft; null means the item is forbidden on that aircraft type.
+ */
+
+export const PACKING_GROUPS = ['I', 'II', 'III'] as const;
+export type PackingGroup = typeof PACKING_GROUPS[number];
+
+/** Maximum number of dangerous goods lines on one shipment */
+export const MAX_DANGEROUS_GOODS_LINES = 20;
+
+const CLASS_PATTERN = /^(1\.[1-6][A-S]|2\.[1-3]|3|4\.[1-3]|5\.[12]|6\.[12]|7|8|9)$/;
+const UN_NUMBER_PATTERN = /^(UN)?\s?(\d{4})$/i;
+
+/**
+ * Quantity limits for one packing group (or for entries without packing groups)
+ */
+interface QuantityLimits {
+  passenger: number | null;
+  cargo: number | null;
+}
+
+/**
+ * An entry of the bundled dangerous goods list
+ */
+export interface DangerousGoodsReference {
+  un_number: string;
+  proper_shipping_name: string;
+  class_division: string;
+  subsidiary_risks: string[];
+  unit: 'kg' | 'L';
+  /** Limits by packing group; entries without packing groups use 'none' */
+  limits: Partial<Record<PackingGroup | 'none', QuantityLimits>>;
+}
+
+const reference = (
+  un_number: string,
+  proper_shipping_name: string,
+  class_division: string,
+  unit: 'kg' | 'L',
+  limits: DangerousGoodsReference['limits'],
+  subsidiary_risks: string[] = []
+): DangerousGoodsReference => ({ un_number, proper_shipping_name, class_division, subsidiary_risks, unit, limits });
+
+const FLAMMABLE_LIQUID_LIMITS = {
+  I: { passenger: 1, cargo: 30 },
+  II: { passenger: 5, cargo: 60 },
+  III: { passenger: 60, cargo: 220 },
+};
+const FORBIDDEN = { none: { passenger: null, cargo: null } };
+
+export const DANGEROUS_GOODS_TABLE: DangerousGoodsReference[] = [
+  reference('UN0012', 'Cartridges for weapons, inert projectile', '1.4S', 'kg', { none: { passenger: 25, cargo: 100 } }),
+  reference('UN0081', 'Explosive, blasting, type A', '1.1D', 'kg', FORBIDDEN),
+  reference('UN0335', 'Fireworks', '1.3G', 'kg', FORBIDDEN),
+  reference('UN0336', 'Fireworks', '1.4G', 'kg', { none: { passenger: null, cargo: 75 } }),
+  reference('UN1005', 'Ammonia, anhydrous', '2.3', 'kg', FORBIDDEN, ['8']),
+  reference('UN1017', 'Chlorine', '2.3', 'kg', FORBIDDEN, ['5.1', '8']),
+  reference('UN1049', 'Hydrogen, compressed', '2.1', 'kg', { none: { passenger: null, cargo: 150 } }),
+  reference('UN1066', 'Nitrogen, compressed', '2.2', 'kg', { none: { passenger: 75, cargo: 150 } }),
+  reference('UN1072', 'Oxygen, compressed', '2.2', 'kg', { none: { passenger: 75, cargo: 150 } }, ['5.1']),
+  reference('UN1075', 'Petroleum gases, liquefied', '2.1', 'kg', { none: { passenger: null, cargo: 150 } }),
+  reference('UN1090', 'Acetone', '3', 'L', { II: FLAMMABLE_LIQUID_LIMITS.II }),
+  reference('UN1170', 'Ethanol', '3', 'L', { II: FLAMMABLE_LIQUID_LIMITS.II, III: FLAMMABLE_LIQUID_LIMITS.III }),
+  reference('UN1203', 'Gasoline', '3', 'L', { II: FLAMMABLE_LIQUID_LIMITS.II }),
+  reference('UN1263', 'Paint', '3', 'L', FLAMMABLE_LIQUID_LIMITS),
+  reference('UN1325', 'Flammable solid, organic, n.o.s.', '4.1', 'kg', {
+    II: { passenger: 15, cargo: 50 },
+    III: { passenger: 25, cargo: 100 },
+  }),
+  reference('UN1361', 'Carbon, animal or vegetable origin', '4.2', 'kg', {
+    II: { passenger: null, cargo: 15 },
+    III: { passenger: null, cargo: 25 },
+  }),
+  reference('UN1428', 'Sodium', '4.3', 'kg', { I: { passenger: null, cargo: 15 } }),
+  reference('UN1479', 'Oxidizing solid, n.o.s.', '5.1', 'kg', {
+    I: { passenger: 1, cargo: 15 },
+    II: { passenger: 5, cargo: 25 },
+    III: { passenger: 25, cargo: 100 },
+  }),
+  reference('UN1791', 'Hypochlorite solution', '8', 'L', {
+    II: { passenger: 1, cargo: 30 },
+    III: { passenger: 5, cargo: 60 },
+  }),
+  reference('UN1823', 'Sodium hydroxide, solid', '8', 'kg', {
+    II: { passenger: 15, cargo: 50 },
+    III: { passenger: 25, cargo: 100 },
+  }),
+  reference('UN1830', 'Sulphuric acid', '8', 'L', { II: { passenger: 1, cargo: 30 } }),
+  reference('UN1845', 'Carbon dioxide, solid (dry ice)', '9', 'kg', { none: { passenger: 200, cargo: 200 } }),
+  reference('UN1888', 'Chloroform', '6.1', 'L', { III: { passenger: 60, cargo: 220 } }),
+  reference('UN1942', 'Ammonium nitrate', '5.1', 'kg', { III: { passenger: 25, cargo: 100 } }),
+  reference('UN1950', 'Aerosols, flammable', '2.1', 'kg', { none: { passenger: 75, cargo: 150 } }),
+  reference('UN1993', 'Flammable liquid, n.o.s.', '3', 'L', FLAMMABLE_LIQUID_LIMITS),
+  reference('UN2810', 'Toxic liquid, organic, n.o.s.', '6.1', 'L', FLAMMABLE_LIQUID_LIMITS),
+  reference('UN2814', 'Infectious substance, affecting humans', '6.2', 'L', { none: { passenger: 0.05, cargo: 4 } }),
+  reference('UN3077', 'Environmentally hazardous substance, solid, n.o.s.', '9', 'kg', { III: { passenger: 400, cargo: 400 } }),
+  reference('UN3082', 'Environmentally hazardous substance, liquid, n.o.s.', '9', 'L', { III: { passenger: 450, cargo: 450 } }),
+  reference('UN3090', 'Lithium metal batteries', '9', 'kg', { none: { passenger: null, cargo: 35 } }),
+  reference('UN3091', 'Lithium metal batteries contained in equipment', '9', 'kg', { none: { passenger: 5, cargo: 35 } }),
+  reference('UN3105', 'Organic peroxide type D, liquid', '5.2', 'L', { none: { passenger: 5, cargo: 10 } }),
+  reference('UN3480', 'Lithium ion batteries', '9', 'kg', { none: { passenger: null, cargo: 35 } }),
+  reference('UN3481', 'Lithium ion batteries contained in equipment', '9', 'kg', { none: { passenger: 5, cargo: 35 } }),
+];
+
+const REFERENCE_BY_UN = new Map(DANGEROUS_GOODS_TABLE.map(entry => [entry.un_number, entry]));
+
+/**
+ * Hazard labels that must not travel together (IATA segregation table 9.3.A)
+ * Class 1 means all explosives except division 1.4S; class 2 covers all gases.
+ */
+const SEGREGATION_CONFLICTS: [string, string][] = [
+  ['1', '2'], ['1', '3'], ['1', '4.2'], ['1', '4.3'], ['1', '5.1'], ['1', '8'],
+  ['3', '5.1'],
+  ['4.2', '5.1'],
+  ['4.3', '8'],
+];
+
+/**
+ * A dangerous goods line as submitted by the client
+ */
+export interface DangerousGoodsItemData {
+  un_number: string;
+  proper_shipping_name: string;
+  class_division: string;
+  packing_group?: PackingGroup | null;
+  quantity: number;
+  cargo_aircraft_only?: boolean;
+}
+
+/**
+ * Outcome of the acceptance checks
+ */
+export interface DangerousGoodsCheck {
+  accepted: boolean;
+  issues: string[];
+}
+
+/**
+ * ENCAPSULATION: One validated dangerous goods line
+ */
+export class DangerousGoodsItem {
+  private readonly unNumber: string;
+  private readonly properShippingName: string;
+  private readonly classDivision: string;
+  private readonly packingGroup: PackingGroup | null;
+  private readonly quantity: number;
+  private readonly cargoAircraftOnly: boolean;
+
+  /**
+   * @throws Error when the item data is invalid
+   */
+  constructor(data: DangerousGoodsItemData) {
+    const errors = DangerousGoodsItem.validate(data);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.unNumber = DangerousGoodsItem.normalizeUnNumber(data.un_number);
+    this.properShippingName = data.proper_shipping_name.trim();
+    this.classDivision = data.class_division.trim().toUpperCase();
+    this.packingGroup = data.packing_group ?? null;
+    this.quantity = data.quantity;
+    this.cargoAircraftOnly = data.cargo_aircraft_only ?? false;
+  }
+
+  /**
+   * Validate the format of a dangerous goods line
+   * Whether the goods may be carried is decided by DangerousGoodsDeclaration.check()
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(data: Partial<DangerousGoodsItemData>): string[] {
+    const errors: string[] = [];
+
+    if (typeof data.un_number !== 'string' || !UN_NUMBER_PATTERN.test(data.un_number.trim())) {
+      errors.push('UN number must be 4 digits, e.g. UN1203');
+    }
+
+    const name = typeof data.proper_shipping_name === 'string' ? data.proper_shipping_name.trim() : '';
+    if (!name || name.length > 255) {
+      errors.push('Proper shipping name is required and must be at most 255 characters');
+    }
+
+    if (typeof data.class_division !== 'string' || !CLASS_PATTERN.test(data.class_division.trim().toUpperCase())) {
+      errors.push('Class/division must be a hazard class such as 3, 2.1 or 1.4S');
+    }
+
+    if (data.packing_group != null && !PACKING_GROUPS.includes(data.packing_group)) {
+      errors.push(`Packing group must be one of: ${PACKING_GROUPS.join(', ')}`);
+    }
+
+    if (typeof data.quantity !== 'number' || !(data.quantity > 0) || data.quantity > 100000) {
+      errors.push('Quantity must be a positive number up to 100,000');
+    }
+
+    if (data.cargo_aircraft_only !== undefined && typeof data.cargo_aircraft_only !== 'boolean') {
+      errors.push('Cargo aircraft only must be true or false');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Normalize a UN number to the form UN1203
+   */
+  static normalizeUnNumber(unNumber: string): string {
+    const match = UN_NUMBER_PATTERN.exec(unNumber.trim());
+    return match ? `UN${match[2]}` : unNumber.trim().toUpperCase();
+  }
+
+  getUnNumber(): string {
+    return this.unNumber;
+  }
+
+  getClassDivision(): string {
+    return this.classDivision;
+  }
+
+  getPackingGroup(): PackingGroup | null {
+    return this.packingGroup;
+  }
+
+  getQuantity(): number {
+    return this.quantity;
+  }
+
+  isCargoAircraftOnly(): boolean {
+    return this.cargoAircraftOnly;
+  }
+
+  /**
+   * Entry of the reference table for this UN number
+   */
+  getReference(): DangerousGoodsReference | undefined {
+    return REFERENCE_BY_UN.get(this.unNumber);
+  }
+
+  /**
+   * Row data as stored in shipment_dangerous_goods
+   */
+  toJSON(): Required<DangerousGoodsItemData> & { unit: string | null } {
+    return {
+      un_number: this.unNumber,
+      proper_shipping_name: this.properShippingName,
+      class_division: this.classDivision,
+      packing_group: this.packingGroup,
+      quantity: this.quantity,
+      cargo_aircraft_only: this.cargoAircraftOnly,
+      unit: this.getReference()?.unit ?? null,
+    };
+  }
+}
+
+/**
+ * ABSTRACTION: The dangerous goods of one shipment and their acceptance checks
+ */
+export class DangerousGoodsDeclaration {
+  private readonly items: DangerousGoodsItem[];
+
+  constructor(items: DangerousGoodsItem[]) {
+    this.items = [...items];
+  }
+
+  /**
+   * Look up a UN number in the reference table
+   */
+  static lookup(unNumber: string): DangerousGoodsReference | undefined {
+    return REFERENCE_BY_UN.get(DangerousGoodsItem.normalizeUnNumber(unNumber));
+  }
+
+  /**
+   * Search the reference table by UN number or proper shipping name
+   */
+  static search(query: string, limit: number = 20): DangerousGoodsReference[] {
+    const term = query.trim().toLowerCase().replace(/^un\s?/, '');
+    if (!term) {
+      return DANGEROUS_GOODS_TABLE.slice(0, limit);
+    }
+
+    return DANGEROUS_GOODS_TABLE
+      .filter(entry =>
+        entry.un_number.slice(2).startsWith(term) ||
+        entry.proper_shipping_name.toLowerCase().includes(term)
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Run the acceptance checks: known and permitted UN numbers, matching class and
+   * packing group, quantity limits for the aircraft type and segregation between lines
+   */
+  check(): DangerousGoodsCheck {
+    const issues: string[] = [];
+
+    if (this.items.length === 0) {
+      issues.push('Declare at least one dangerous goods item');
+    }
+
+    this.items.forEach((item, index) => {
+      issues.push(...DangerousGoodsDeclaration.checkItem(item).map(issue => `Line ${index + 1}: ${issue}`));
+    });
+
+    for (let i = 0; i < this.items.length; i++) {
+      for (let j = i + 1; j < this.items.length; j++) {
+        if (DangerousGoodsDeclaration.mustSegregate(this.items[i], this.items[j])) {
+          issues.push(
+            `Line ${i + 1} (${this.items[i].getUnNumber()}, class ${this.items[i].getClassDivision()}) and ` +
+            `line ${j + 1} (${this.items[j].getUnNumber()}, class ${this.items[j].getClassDivision()}) ` +
+            'must be segregated and cannot travel in the same shipment'
+          );
+        }
+      }
+    }
+
+    return { accepted: issues.length === 0, issues };
+  }
+
+  /**
+   * Whether any line may only be carried on a cargo aircraft
+   */
+  requiresCargoAircraft(): boolean {
+    return this.items.some(item => item.isCargoAircraftOnly());
+  }
+
+  getItems(): DangerousGoodsItem[] {
+    return [...this.items];
+  }
+
+  private static checkItem(item: DangerousGoodsItem): string[] {
+    const entry = item.getReference();
+    const un = item.getUnNumber();
+
+    if (!entry) {
+      return [`${un} is not in the dangerous goods reference table`];
+    }
+
+    const limitsByGroup = Object.values(entry.limits);
+    if (limitsByGroup.every(limits => limits.passenger === null && limits.cargo === null)) {
+      return [`${un} ${entry.proper_shipping_name} is forbidden for air transport`];
+    }
+
+    if (item.getClassDivision() !== entry.class_division) {
+      return [`${un} is class ${entry.class_division}, not ${item.getClassDivision()}`];
+    }
+
+    const groups = Object.keys(entry.limits).filter(group => group !== 'none') as PackingGroup[];
+    const packingGroup = item.getPackingGroup();
+    if (groups.length === 0 && packingGroup) {
+      return [`${un} has no packing group`];
+    }
+    if (groups.length > 0 && (!packingGroup || !groups.includes(packingGroup))) {
+      return [`${un} must be declared with packing group ${groups.join(' or ')}`];
+    }
+
+    const limits = entry.limits[packingGroup ?? 'none']!;
+    const quantity = `${item.getQuantity()} ${entry.unit}`;
+
+    if (item.isCargoAircraftOnly()) {
+      if (limits.cargo === null) {
+        return [`${un} packing group ${packingGroup} is forbidden for air transport`];
+      }
+      if (item.getQuantity() > limits.cargo) {
+        return [`${quantity} exceeds the cargo aircraft limit of ${limits.cargo} ${entry.unit} for ${un}`];
+      }
+      return [];
+    }
+
+    if (limits.passenger === null) {
+      return [`${un} is forbidden on passenger aircraft; mark it cargo aircraft only`];
+    }
+    if (item.getQuantity() > limits.passenger) {
+      const hint = limits.cargo !== null && item.getQuantity() <= limits.cargo
+        ? '; mark it cargo aircraft only to ship this quantity'
+        : '';
+      return [`${quantity} exceeds the passenger aircraft limit of ${limits.passenger} ${entry.unit} for ${un}${hint}`];
+    }
+
+    return [];
+  }
+
+  /**
+   * Segregation labels of an item: primary class and subsidiary risks,
+   * with explosives collapsed to class 1 (except 1.4S) and gases to class 2
+   */
+  private static labelsOf(item: DangerousGoodsItem): string[] {
+    const classes = [item.getClassDivision(), ...(item.getReference()?.subsidiary_risks || [])];
+
+    return classes
+      .filter(hazard => hazard !== '1.4S')
+      .map(hazard => hazard.startsWith('1.') ? '1' : hazard.startsWith('2.') ? '2' : hazard);
+  }
+
+  private static mustSegregate(a: DangerousGoodsItem, b: DangerousGoodsItem): boolean {
+    const labelsA = DangerousGoodsDeclaration.labelsOf(a);
+    const labelsB = DangerousGoodsDeclaration.labelsOf(b);
+
+    return SEGREGATION_CONFLICTS.some(([x, y]) =>
+      (labelsA.includes(x) && labelsB.includes(y)) || (labelsA.includes(y) && labelsB.includes(x))
+    );
+  }
+}
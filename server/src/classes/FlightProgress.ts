@@ -0,0 +1,160 @@
+/**
+ * FlightProgress.ts - Shipment status progression from live flight data
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ABSTRACTION: A flight's raw state is reduced to a phase of the trip
+ * - ENCAPSULATION: Thresholds for cruise and landing are kept in one place
+ * - COMPOSITION: Uses Flight for the aircraft state and StatusFactory for transition rules
+ *
+ * The assigned flight moves a shipment through pending → departed → in_transit → arrived.
+ * Every step must be allowed by the organization's workflow; progression stops at the
+ * first step the workflow does not allow.
+ */
+
+import { Flight } from './Flight';
+import { StatusFactory } from './ShipmentStatus';
+import { StatusWorkflow } from './StatusWorkflow';
+
+/**
+ * How an organization uses flight data for status changes
+ * - off: never
+ * - propose: suggest the change on the shipment for a user to apply
+ * - apply: change the status automatically
+ */
+export const AUTO_STATUS_MODES = ['off', 'propose', 'apply'] as const;
+export type AutoStatusMode = typeof AUTO_STATUS_MODES[number];
+export const DEFAULT_AUTO_STATUS_MODE: AutoStatusMode = 'propose';
+
+export const FLIGHT_PHASES = ['on_ground', 'climbing', 'cruise', 'descending', 'landed'] as const;
+export type FlightPhase = typeof FLIGHT_PHASES[number];
+
+/** Lowest altitude counted as cruise (about FL200) */
+export const CRUISE_MIN_ALTITUDE_M = 6000;
+/** Largest climb or descent rate counted as level flight (about 500 ft/min) */
+export const CRUISE_MAX_VERTICAL_RATE_MS = 2.5;
+/** A flight on the ground within this distance of the destination has landed there */
+export const ARRIVAL_RADIUS_KM = 30;
+
+/**
+ * One automatic status change and the flight phases that trigger it
+ */
+export interface ProgressionStep {
+  from: string;
+  to: string;
+  phases: FlightPhase[];
+}
+
+/**
+ * Steps in order; a flight seen descending or landed at the destination has
+ * passed cruise, so it moves a departed shipment to in transit as well
+ */
+export const PROGRESSION_STEPS: ProgressionStep[] = [
+  { from: 'pending', to: 'departed', phases: ['climbing', 'cruise', 'descending'] },
+  { from: 'departed', to: 'in_transit', phases: ['cruise', 'descending', 'landed'] },
+  { from: 'in_transit', to: 'arrived', phases: ['landed'] },
+];
+
+/**
+ * Phase of a flight relative to a shipment's destination
+ */
+export class FlightProgress {
+  private readonly flight: Flight;
+  private readonly destination: { lat: number; lon: number } | null;
+
+  /**
+   * @param destination - Coordinates of the shipment's destination; without them a landing is never detected
+   */
+  constructor(flight: Flight, destination: { lat: number; lon: number } | null) {
+    this.flight = flight;
+    this.destination = destination;
+  }
+
+  /**
+   * Check whether an auto status mode is known
+   */
+  static isMode(value: unknown): value is AutoStatusMode {
+    return typeof value === 'string' && (AUTO_STATUS_MODES as readonly string[]).includes(value);
+  }
+
+  /**
+   * Distance from the aircraft to the destination in km (null without destination coordinates)
+   */
+  public getDistanceToDestinationKm(): number | null {
+    return this.destination ? this.flight.distanceTo(this.destination.lat, this.destination.lon) : null;
+  }
+
+  public getPhase(): FlightPhase {
+    if (this.flight.isOnGround()) {
+      const distance = this.getDistanceToDestinationKm();
+      return distance !== null && distance <= ARRIVAL_RADIUS_KM ? 'landed' : 'on_ground';
+    }
+
+    const verticalRate = this.flight.getVerticalRate();
+    if (this.flight.getAltitude() >= CRUISE_MIN_ALTITUDE_M && Math.abs(verticalRate) <= CRUISE_MAX_VERTICAL_RATE_MS) {
+      return 'cruise';
+    }
+    return verticalRate < 0 ? 'descending' : 'climbing';
+  }
+
+  /**
+   * Status changes the flight's phase calls for, starting from the current status
+   * @returns Steps in order (empty when the status should stay)
+   */
+  public planTransitions(currentStatus: string, workflow: StatusWorkflow = StatusWorkflow.getDefault()): ProgressionStep[] {
+    const phase = this.getPhase();
+    const steps: ProgressionStep[] = [];
+    let status = currentStatus;
+
+    for (const step of PROGRESSION_STEPS) {
+      if (step.from !== status) continue;
+      if (!step.phases.includes(phase) || !StatusFactory.isValidTransition(step.from, step.to, workflow)) break;
+      steps.push(step);
+      status = step.to;
+    }
+
+    return steps;
+  }
+
+  /**
+   * Describe the flight's state for the tracking event of a step
+   */
+  public describe(step: ProgressionStep): string {
+    const name = this.flight.getDisplayName();
+    switch (step.to) {
+      case 'departed':
+        return `${name} left the ground`;
+      case 'in_transit':
+        return this.getPhase() === 'cruise'
+          ? `${name} reached cruise at ${this.flight.getAltitudeInFeet().toLocaleString('en-US')} ft`
+          : `${name} passed cruise`;
+      case 'arrived':
+        return `${name} landed ${Math.round(this.getDistanceToDestinationKm()!)} km from the destination`;
+      default:
+        return `${name} moved the shipment to ${step.to}`;
+    }
+  }
+
+  /**
+   * Steps from the current status to a target status, ignoring the flight phase
+   * Used when a user applies a proposed change
+   * @returns Steps in order, or null when the target cannot be reached
+   */
+  static pathTo(
+    currentStatus: string,
+    targetStatus: string,
+    workflow: StatusWorkflow = StatusWorkflow.getDefault()
+  ): ProgressionStep[] | null {
+    const steps: ProgressionStep[] = [];
+    let status = currentStatus;
+
+    for (const step of PROGRESSION_STEPS) {
+      if (status === targetStatus) break;
+      if (step.from !== status) continue;
+      if (!StatusFactory.isValidTransition(step.from, step.to, workflow)) return null;
+      steps.push(step);
+      status = step.to;
+    }
+
+    return status === targetStatus && steps.length > 0 ? steps : null;
+  }
+}
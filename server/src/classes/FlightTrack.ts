@@ -0,0 +1,186 @@
+/**
+ * FlightTrack.ts - Recorded positions of a flight, replayed as a breadcrumb trail
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Points are cleaned and ordered once, on construction
+ * - ABSTRACTION: Callers get a trail, its distance and duration without handling raw rows
+ * - COMPOSITION: Each point becomes a Flight to reuse its distance calculation
+ *
+ * Positions are recorded in flight_positions every time a tracked flight is refreshed.
+ * An ICAO24 address identifies the aircraft, not the trip, so callers pass only the
+ * positions recorded since the shipment was assigned.
+ */
+
+import { Flight } from './Flight';
+
+/** Most points returned to a map; longer tracks are thinned out evenly */
+export const MAX_TRACK_POINTS = 500;
+
+/**
+ * A recorded position as stored in flight_positions (DECIMAL columns may arrive as strings)
+ */
+export interface TrackPointData {
+  latitude: number | string | null;
+  longitude: number | string | null;
+  altitude?: number | string | null;
+  velocity?: number | string | null;
+  heading?: number | string | null;
+  vertical_rate?: number | string | null;
+  on_ground?: boolean | null;
+  recorded_at: string;
+}
+
+/**
+ * A cleaned position of the track
+ */
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  /** Meters */
+  altitude: number;
+  /** Meters per second */
+  velocity: number;
+  heading: number;
+  vertical_rate: number;
+  on_ground: boolean;
+  recorded_at: string;
+}
+
+const toNumber = (value: number | string | null | undefined): number => {
+  const parsed = Number(value);
+  return value === null || value === undefined || isNaN(parsed) ? 0 : parsed;
+};
+
+/**
+ * ENCAPSULATION: The ordered positions of one aircraft
+ */
+export class FlightTrack {
+  private readonly icao24: string;
+  private readonly callsign: string;
+  private readonly points: TrackPoint[];
+
+  /**
+   * Points without valid coordinates or time are dropped; points recorded at
+   * the same time as the previous one are kept once
+   */
+  constructor(icao24: string, callsign: string | null, points: TrackPointData[]) {
+    this.icao24 = icao24;
+    this.callsign = callsign || '';
+
+    const valid = points
+      .filter(point => FlightTrack.isValidPoint(point))
+      .map(point => ({
+        latitude: Number(point.latitude),
+        longitude: Number(point.longitude),
+        altitude: toNumber(point.altitude),
+        velocity: toNumber(point.velocity),
+        heading: toNumber(point.heading),
+        vertical_rate: toNumber(point.vertical_rate),
+        on_ground: point.on_ground === true,
+        recorded_at: new Date(point.recorded_at).toISOString(),
+      }))
+      .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+
+    this.points = valid.filter((point, index) => index === 0 || point.recorded_at !== valid[index - 1].recorded_at);
+  }
+
+  /**
+   * Check whether a recorded position can be drawn on a map
+   */
+  static isValidPoint(point: TrackPointData): boolean {
+    if (point.latitude === null || point.latitude === '' || point.longitude === null || point.longitude === '') {
+      return false;
+    }
+    const lat = Number(point.latitude);
+    const lon = Number(point.longitude);
+    return !isNaN(lat) && !isNaN(lon)
+      && lat >= -90 && lat <= 90
+      && lon >= -180 && lon <= 180
+      && !isNaN(new Date(point.recorded_at).getTime());
+  }
+
+  public getIcao24(): string {
+    return this.icao24;
+  }
+
+  public getPoints(): TrackPoint[] {
+    return [...this.points];
+  }
+
+  public isEmpty(): boolean {
+    return this.points.length === 0;
+  }
+
+  public getStartedAt(): string | null {
+    return this.points[0]?.recorded_at ?? null;
+  }
+
+  public getEndedAt(): string | null {
+    return this.points[this.points.length - 1]?.recorded_at ?? null;
+  }
+
+  /**
+   * Time between the first and last point in minutes
+   */
+  public getDurationMinutes(): number {
+    if (this.points.length < 2) return 0;
+    return Math.round((new Date(this.getEndedAt()!).getTime() - new Date(this.getStartedAt()!).getTime()) / 60000);
+  }
+
+  /**
+   * Length of the trail in km, summed point to point
+   */
+  public getDistanceKm(): number {
+    let distance = 0;
+    for (let i = 1; i < this.points.length; i++) {
+      distance += this.toFlight(this.points[i - 1]).distanceTo(this.points[i].latitude, this.points[i].longitude);
+    }
+    return Math.round(distance * 10) / 10;
+  }
+
+  /**
+   * The track thinned out to at most maxPoints, evenly spaced,
+   * always keeping the first and last point
+   */
+  public sample(maxPoints: number = MAX_TRACK_POINTS): TrackPoint[] {
+    if (this.points.length <= maxPoints) return this.getPoints();
+    if (maxPoints < 2) return this.points.slice(-1);
+
+    const step = (this.points.length - 1) / (maxPoints - 1);
+    return Array.from({ length: maxPoints }, (_, i) => this.points[Math.round(i * step)]);
+  }
+
+  /**
+   * The aircraft at a point of the track
+   */
+  private toFlight(point: TrackPoint): Flight {
+    return new Flight(
+      this.icao24,
+      this.callsign,
+      point.latitude,
+      point.longitude,
+      point.altitude,
+      point.velocity,
+      point.heading,
+      '',
+      point.vertical_rate,
+      point.on_ground
+    );
+  }
+
+  /**
+   * Summary and points for the map; distance and duration cover the whole track
+   */
+  public toJSON(maxPoints: number = MAX_TRACK_POINTS): Record<string, unknown> {
+    return {
+      icao24: this.icao24,
+      callsign: this.callsign || null,
+      startedAt: this.getStartedAt(),
+      endedAt: this.getEndedAt(),
+      durationMinutes: this.getDurationMinutes(),
+      distanceKm: this.getDistanceKm(),
+      pointCount: this.points.length,
+      points: this.sample(maxPoints),
+    };
+  }
+}
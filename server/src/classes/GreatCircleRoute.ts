@@ -0,0 +1,241 @@
+/**
+ * GreatCircleRoute.ts - Points along the shortest path between two airports
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: The spherical geometry is hidden behind sampling methods
+ * - ABSTRACTION: A route is reduced to timed sample points and rated segments
+ * - COMPOSITION: Segments are rated with the WeatherCondition found at their ends
+ *
+ * Aircraft fly (roughly) great circles, so weather is sampled along the great
+ * circle rather than a straight line on the map. A London → Tokyo route passes
+ * over Scandinavia and Siberia, and a Tokyo → Los Angeles route crosses the
+ * antimeridian instead of going round the world the other way.
+ */
+
+import { ImpactLevel, WeatherCondition } from './WeatherCondition';
+
+/** Mean Earth radius in km */
+export const EARTH_RADIUS_KM = 6371;
+/** Distance between two weather samples when the count is derived from the distance */
+export const ROUTE_SAMPLE_SPACING_KM = 800;
+export const MIN_ROUTE_SAMPLES = 2;
+/** Most samples per route; every sample is one weather lookup */
+export const MAX_ROUTE_SAMPLES = 12;
+/** Average block speed used to time a flight when only one end is scheduled */
+export const CRUISE_SPEED_KMH = 800;
+
+const IMPACT_ORDER: ImpactLevel[] = ['none', 'low', 'medium', 'high', 'critical'];
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * A point of the route with the time the aircraft is expected there
+ */
+export interface RouteSample extends GeoPoint {
+  index: number;
+  /** Share of the route flown at this point (0 at the origin, 1 at the destination) */
+  fraction: number;
+  /** Distance from the origin */
+  distanceKm: number;
+  /** Null when neither departure nor arrival is known */
+  expectedAt: string | null;
+}
+
+/**
+ * The stretch between two consecutive samples, rated by the worse weather at its ends
+ */
+export interface SegmentImpact {
+  from: RouteSample;
+  to: RouteSample;
+  distanceKm: number;
+  /** Null when there is no weather for either end */
+  impact: ImpactLevel | null;
+  delayFactor: number;
+}
+
+export interface RouteImpactSummary {
+  maxImpact: ImpactLevel;
+  /** Delay factor of the segments weighted by their length */
+  averageDelayFactor: number;
+  segments: SegmentImpact[];
+}
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * ENCAPSULATION: Great circle between an origin and a destination
+ */
+export class GreatCircleRoute {
+  private readonly origin: GeoPoint;
+  private readonly destination: GeoPoint;
+  /** Central angle between the ends in radians */
+  private readonly angle: number;
+
+  /**
+   * @throws Error when a coordinate is out of range or the ends are antipodal
+   */
+  constructor(origin: GeoPoint, destination: GeoPoint) {
+    const errors = GreatCircleRoute.validate(origin, destination);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.origin = origin;
+    this.destination = destination;
+    this.angle = GreatCircleRoute.centralAngle(origin, destination);
+  }
+
+  static validate(origin: GeoPoint, destination: GeoPoint): string[] {
+    const errors: string[] = [];
+    const valid = (point: GeoPoint) =>
+      Number.isFinite(point.lat) && Number.isFinite(point.lon) &&
+      Math.abs(point.lat) <= 90 && Math.abs(point.lon) <= 180;
+
+    if (!valid(origin)) errors.push('Origin coordinates are out of range');
+    if (!valid(destination)) errors.push('Destination coordinates are out of range');
+    if (errors.length === 0 && Math.abs(GreatCircleRoute.centralAngle(origin, destination) - Math.PI) < 1e-9) {
+      errors.push('Origin and destination are antipodal; the great circle between them is not unique');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Haversine formula, which stays accurate for short distances
+   */
+  private static centralAngle(a: GeoPoint, b: GeoPoint): number {
+    const dLat = toRad(b.lat - a.lat);
+    const dLon = toRad(b.lon - a.lon);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+    return 2 * Math.atan2(Math.sqrt(h), Math.sqrt(Math.max(1 - h, 0)));
+  }
+
+  public getDistanceKm(): number {
+    return this.angle * EARTH_RADIUS_KM;
+  }
+
+  /**
+   * Great-circle distance between two points, without building a route
+   */
+  static distanceKm(a: GeoPoint, b: GeoPoint): number {
+    return GreatCircleRoute.centralAngle(a, b) * EARTH_RADIUS_KM;
+  }
+
+  /**
+   * Number of samples for a route of this length: one every ROUTE_SAMPLE_SPACING_KM
+   * plus both ends, within MIN_ROUTE_SAMPLES..MAX_ROUTE_SAMPLES
+   */
+  public getDefaultSampleCount(): number {
+    const count = Math.ceil(this.getDistanceKm() / ROUTE_SAMPLE_SPACING_KM) + 1;
+    return Math.min(Math.max(count, MIN_ROUTE_SAMPLES), MAX_ROUTE_SAMPLES);
+  }
+
+  /**
+   * Point reached after flying a share of the route (spherical interpolation)
+   * @param fraction - 0 at the origin, 1 at the destination
+   */
+  public pointAt(fraction: number): GeoPoint {
+    if (this.angle === 0 || fraction <= 0) return { ...this.origin };
+    if (fraction >= 1) return { ...this.destination };
+
+    const lat1 = toRad(this.origin.lat);
+    const lon1 = toRad(this.origin.lon);
+    const lat2 = toRad(this.destination.lat);
+    const lon2 = toRad(this.destination.lon);
+
+    const a = Math.sin((1 - fraction) * this.angle) / Math.sin(this.angle);
+    const b = Math.sin(fraction * this.angle) / Math.sin(this.angle);
+    const x = a * Math.cos(lat1) * Math.cos(lon1) + b * Math.cos(lat2) * Math.cos(lon2);
+    const y = a * Math.cos(lat1) * Math.sin(lon1) + b * Math.cos(lat2) * Math.sin(lon2);
+    const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+
+    // atan2 keeps the longitude within -180..180, also across the antimeridian
+    return {
+      lat: toDeg(Math.atan2(z, Math.sqrt(x * x + y * y))),
+      lon: toDeg(Math.atan2(y, x)),
+    };
+  }
+
+  /**
+   * Evenly spaced points from origin to destination, timed between departure and arrival.
+   * When only one end is scheduled, the other is derived at CRUISE_SPEED_KMH.
+   * @param count - Number of points including both ends; derived from the distance when omitted
+   */
+  public sample(count?: number, departure?: Date | null, arrival?: Date | null): RouteSample[] {
+    const total = Math.min(Math.max(Math.round(count ?? this.getDefaultSampleCount()), MIN_ROUTE_SAMPLES), MAX_ROUTE_SAMPLES);
+    const flightMs = (this.getDistanceKm() / CRUISE_SPEED_KMH) * 3600000;
+
+    let start = departure?.getTime() ?? null;
+    let end = arrival?.getTime() ?? null;
+    if (start !== null && end === null) end = start + flightMs;
+    if (start === null && end !== null) start = end - flightMs;
+
+    return Array.from({ length: total }, (_, index) => {
+      const fraction = index / (total - 1);
+      const point = this.pointAt(fraction);
+
+      return {
+        index,
+        lat: round(point.lat, 4),
+        lon: round(point.lon, 4),
+        fraction: round(fraction, 4),
+        distanceKm: round(this.getDistanceKm() * fraction, 1),
+        expectedAt: start !== null && end !== null
+          ? new Date(start + (end - start) * fraction).toISOString()
+          : null,
+      };
+    });
+  }
+
+  /**
+   * Rate the segments between consecutive samples
+   * @param conditions - Weather at each sample, in sample order; null where unavailable
+   */
+  static rateSegments(samples: RouteSample[], conditions: (WeatherCondition | null)[]): SegmentImpact[] {
+    return samples.slice(1).map((to, i) => {
+      const from = samples[i];
+      const ends = [conditions[i], conditions[i + 1]].filter((c): c is WeatherCondition => c != null);
+
+      return {
+        from,
+        to,
+        distanceKm: round(to.distanceKm - from.distanceKm, 1),
+        impact: ends.length > 0 ? GreatCircleRoute.worstImpact(ends.map(c => c.assessImpact())) : null,
+        delayFactor: ends.length > 0 ? Math.max(...ends.map(c => c.getDelayFactor())) : 0,
+      };
+    });
+  }
+
+  /**
+   * Worst segment and the length-weighted delay factor of the segments with weather
+   */
+  static summarize(segments: SegmentImpact[]): RouteImpactSummary {
+    const rated = segments.filter(segment => segment.impact !== null);
+    const ratedKm = rated.reduce((sum, segment) => sum + segment.distanceKm, 0);
+
+    // Zero-length routes (same airport) still count each segment once
+    const averageDelayFactor = rated.length === 0
+      ? 0
+      : ratedKm > 0
+        ? rated.reduce((sum, segment) => sum + segment.delayFactor * segment.distanceKm, 0) / ratedKm
+        : rated.reduce((sum, segment) => sum + segment.delayFactor, 0) / rated.length;
+
+    return {
+      maxImpact: GreatCircleRoute.worstImpact(rated.map(segment => segment.impact as ImpactLevel)),
+      averageDelayFactor,
+      segments,
+    };
+  }
+
+  private static worstImpact(impacts: ImpactLevel[]): ImpactLevel {
+    return impacts.reduce<ImpactLevel>(
+      (max, current) => (IMPACT_ORDER.indexOf(current) > IMPACT_ORDER.indexOf(max) ? current : max),
+      'none'
+    );
+  }
+}
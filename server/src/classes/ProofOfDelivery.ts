@@ -0,0 +1,304 @@
+/**
+ * ProofOfDelivery.ts - Who received a shipment, when, where and in what condition
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Delivery details and decoded images are private and validated on construction
+ * - ABSTRACTION: Callers pass the client's data URLs; the class decodes and checks the images
+ *
+ * The signature is a PNG drawn on a canvas; photos are PNG or JPEG. Images arrive
+ * as base64 data URLs and must start with the signature bytes of their format.
+ */
+
+export const DELIVERY_CONDITIONS = ['good', 'damaged', 'shortage', 'damaged_and_shortage'] as const;
+export type DeliveryCondition = typeof DELIVERY_CONDITIONS[number];
+
+/** Largest accepted signature image */
+export const MAX_SIGNATURE_BYTES = 200 * 1024;
+
+/** Photos per delivery and largest accepted photo */
+export const MAX_DELIVERY_PHOTOS = 3;
+export const MAX_PHOTO_BYTES = 1024 * 1024;
+
+/** Tolerated clock difference between the courier's device and the server */
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const IMAGE_FORMATS: Record<string, { extension: string; signature: number[] }> = {
+  'image/png': { extension: 'png', signature: [0x89, 0x50, 0x4e, 0x47] },
+  'image/jpeg': { extension: 'jpg', signature: [0xff, 0xd8, 0xff] },
+};
+
+const DATA_URL_PATTERN = /^data:(image\/[a-z]+);base64,([A-Za-z0-9+/]+={0,2})$/;
+
+/**
+ * Delivery details as submitted by the client
+ */
+export interface DeliveryData {
+  recipient_name: string;
+  signature: string;
+  delivered_at?: string;
+  location?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  photos?: string[];
+  condition?: string;
+  condition_notes?: string;
+}
+
+/**
+ * A decoded image ready to be stored
+ */
+export interface DeliveryImage {
+  contentType: string;
+  extension: string;
+  content: Buffer;
+}
+
+/**
+ * Everything shown on a delivery receipt
+ */
+export interface DeliveryReceipt {
+  tracking_number: string;
+  awb_number: string | null;
+  origin: string;
+  destination: string;
+  recipient_name: string;
+  delivered_at: string;
+  location: string | null;
+  condition: DeliveryCondition;
+  condition_notes: string | null;
+  recorded_by_email: string | null;
+  signature: string;
+  photos: string[];
+}
+
+const CONDITION_LABELS: Record<DeliveryCondition, string> = {
+  good: 'Good',
+  damaged: 'Damaged',
+  shortage: 'Shortage',
+  damaged_and_shortage: 'Damaged and shortage',
+};
+
+/**
+ * ENCAPSULATION: A validated proof of delivery
+ */
+export class ProofOfDelivery {
+  private readonly recipientName: string;
+  private readonly deliveredAt: Date;
+  private readonly location: string | null;
+  private readonly latitude: number | null;
+  private readonly longitude: number | null;
+  private readonly condition: DeliveryCondition;
+  private readonly conditionNotes: string | null;
+  private readonly signature: DeliveryImage;
+  private readonly photos: DeliveryImage[];
+
+  /**
+   * @throws Error when the delivery data is invalid
+   */
+  constructor(data: DeliveryData, now: Date = new Date()) {
+    const errors = ProofOfDelivery.validate(data, now);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.recipientName = data.recipient_name.trim();
+    this.deliveredAt = data.delivered_at ? new Date(data.delivered_at) : now;
+    this.location = data.location?.trim() || null;
+    this.latitude = data.latitude ?? null;
+    this.longitude = data.longitude ?? null;
+    this.condition = (data.condition || 'good') as DeliveryCondition;
+    this.conditionNotes = data.condition_notes?.trim() || null;
+    this.signature = ProofOfDelivery.parseImage(data.signature)!;
+    this.photos = (data.photos || []).map(photo => ProofOfDelivery.parseImage(photo)!);
+  }
+
+  /**
+   * Validate delivery data
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(data: Partial<DeliveryData>, now: Date = new Date()): string[] {
+    const errors: string[] = [];
+
+    const recipient = typeof data.recipient_name === 'string' ? data.recipient_name.trim() : '';
+    if (!recipient || recipient.length > 100) {
+      errors.push('Recipient name is required and must be at most 100 characters');
+    }
+
+    const signature = typeof data.signature === 'string' ? ProofOfDelivery.parseImage(data.signature) : null;
+    if (!signature || signature.contentType !== 'image/png') {
+      errors.push('Signature must be a PNG image');
+    } else if (signature.content.length > MAX_SIGNATURE_BYTES) {
+      errors.push(`Signature must be at most ${MAX_SIGNATURE_BYTES / 1024} KB`);
+    }
+
+    if (data.delivered_at !== undefined) {
+      const deliveredAt = new Date(data.delivered_at);
+      if (isNaN(deliveredAt.getTime())) {
+        errors.push('Delivery time must be a valid date');
+      } else if (deliveredAt.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+        errors.push('Delivery time cannot be in the future');
+      }
+    }
+
+    if (data.location !== undefined && (typeof data.location !== 'string' || data.location.length > 255)) {
+      errors.push('Location must be at most 255 characters');
+    }
+    if (data.latitude != null && (typeof data.latitude !== 'number' || data.latitude < -90 || data.latitude > 90)) {
+      errors.push('Latitude must be between -90 and 90');
+    }
+    if (data.longitude != null && (typeof data.longitude !== 'number' || data.longitude < -180 || data.longitude > 180)) {
+      errors.push('Longitude must be between -180 and 180');
+    }
+
+    const condition = data.condition ?? 'good';
+    if (!DELIVERY_CONDITIONS.includes(condition as DeliveryCondition)) {
+      errors.push(`Condition must be one of: ${DELIVERY_CONDITIONS.join(', ')}`);
+    } else if (condition !== 'good' && !(typeof data.condition_notes === 'string' && data.condition_notes.trim())) {
+      errors.push('Describe the damage or shortage in the condition notes');
+    }
+    if (typeof data.condition_notes === 'string' && data.condition_notes.length > 1000) {
+      errors.push('Condition notes must be at most 1000 characters');
+    }
+
+    if (data.photos !== undefined) {
+      if (!Array.isArray(data.photos) || data.photos.length > MAX_DELIVERY_PHOTOS) {
+        errors.push(`At most ${MAX_DELIVERY_PHOTOS} photos can be attached`);
+      } else {
+        data.photos.forEach((photo, index) => {
+          const image = typeof photo === 'string' ? ProofOfDelivery.parseImage(photo) : null;
+          if (!image) {
+            errors.push(`Photo ${index + 1} must be a PNG or JPEG image`);
+          } else if (image.content.length > MAX_PHOTO_BYTES) {
+            errors.push(`Photo ${index + 1} must be at most ${MAX_PHOTO_BYTES / (1024 * 1024)} MB`);
+          }
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Decode a base64 PNG or JPEG data URL
+   * @returns null when the data URL is malformed or the bytes are not of the declared format
+   */
+  static parseImage(dataUrl: string): DeliveryImage | null {
+    const match = DATA_URL_PATTERN.exec(dataUrl);
+    const format = match ? IMAGE_FORMATS[match[1]] : undefined;
+    if (!match || !format) {
+      return null;
+    }
+
+    const content = Buffer.from(match[2], 'base64');
+    if (!format.signature.every((byte, index) => content[index] === byte)) {
+      return null;
+    }
+
+    return { contentType: match[1], extension: format.extension, content };
+  }
+
+  /**
+   * Encode stored image bytes as a data URL
+   */
+  static toDataUrl(content: Buffer, contentType: string): string {
+    return `data:${contentType};base64,${content.toString('base64')}`;
+  }
+
+  static contentTypeOf(storageKey: string): string {
+    return storageKey.endsWith('.png') ? 'image/png' : 'image/jpeg';
+  }
+
+  /**
+   * Render a printable HTML delivery receipt
+   */
+  static renderReceipt(receipt: DeliveryReceipt): string {
+    const escape = ProofOfDelivery.escapeHtml;
+    const row = (label: string, value: string | null) =>
+      `<tr><th>${label}</th><td>${value ? escape(value) : '—'}</td></tr>`;
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Delivery Receipt ${escape(receipt.tracking_number)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 20px; max-width: 720px; }
+    h1 { color: #1e40af; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 20px; }
+    th, td { border: 1px solid #ddd; padding: 8px; text-align: left; vertical-align: top; }
+    th { background-color: #f2f2f2; width: 35%; }
+    .exception { color: #b91c1c; font-weight: bold; }
+    .signature { border: 1px solid #ddd; max-width: 360px; }
+    .photos img { max-width: 220px; margin: 0 8px 8px 0; border: 1px solid #ddd; }
+  </style>
+</head>
+<body>
+  <h1>Delivery Receipt</h1>
+  <table>
+    ${row('Tracking number', receipt.tracking_number)}
+    ${row('Air waybill', receipt.awb_number)}
+    ${row('Route', `${receipt.origin} → ${receipt.destination}`)}
+    ${row('Delivered', new Date(receipt.delivered_at).toUTCString())}
+    ${row('Location', receipt.location)}
+    ${row('Received by', receipt.recipient_name)}
+    <tr><th>Condition</th><td class="${receipt.condition === 'good' ? '' : 'exception'}">${CONDITION_LABELS[receipt.condition]}</td></tr>
+    ${row('Condition notes', receipt.condition_notes)}
+    ${row('Recorded by', receipt.recorded_by_email)}
+  </table>
+  <h2>Signature</h2>
+  <img class="signature" src="${receipt.signature}" alt="Recipient signature">
+  ${receipt.photos.length > 0 ? `
+  <h2>Photos</h2>
+  <div class="photos">${receipt.photos.map((photo, index) => `<img src="${photo}" alt="Delivery photo ${index + 1}">`).join('')}</div>` : ''}
+</body>
+</html>`;
+  }
+
+  private static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  getRecipientName(): string {
+    return this.recipientName;
+  }
+
+  getDeliveredAt(): Date {
+    return this.deliveredAt;
+  }
+
+  getLocation(): string | null {
+    return this.location;
+  }
+
+  getCoordinates(): { latitude: number | null; longitude: number | null } {
+    return { latitude: this.latitude, longitude: this.longitude };
+  }
+
+  getCondition(): DeliveryCondition {
+    return this.condition;
+  }
+
+  getConditionNotes(): string | null {
+    return this.conditionNotes;
+  }
+
+  /**
+   * Whether the shipment was delivered with damage or a shortage
+   */
+  hasException(): boolean {
+    return this.condition !== 'good';
+  }
+
+  getSignature(): DeliveryImage {
+    return this.signature;
+  }
+
+  getPhotos(): DeliveryImage[] {
+    return [...this.photos];
+  }
+}
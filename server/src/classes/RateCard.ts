@@ -0,0 +1,236 @@
+/**
+ * RateCard.ts - Air freight rate cards and price quoting
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Rates are private and validated on construction
+ * - ABSTRACTION: Weight breaks and surcharges are hidden behind quote()
+ *
+ * A rate card prices one lane (origin → destination) per kg of chargeable
+ * weight, with lower rates from the +45, +100 and +300 kg weight breaks and
+ * a minimum charge. Either side of a lane may be '*' to match any airport.
+ */
+
+/** Weight breaks, from the minimum charge up to the +300 kg rate */
+export const WEIGHT_BREAKS = ['minimum', '-45', '+45', '+100', '+300'] as const;
+export type WeightBreak = typeof WEIGHT_BREAKS[number];
+
+/** Lower bound in kg of each per-kg weight break */
+const BREAK_THRESHOLDS: { name: Exclude<WeightBreak, 'minimum'>; fromKg: number; key: keyof RateCardRates }[] = [
+  { name: '-45', fromKg: 0, key: 'rate_minus_45' },
+  { name: '+45', fromKg: 45, key: 'rate_plus_45' },
+  { name: '+100', fromKg: 100, key: 'rate_plus_100' },
+  { name: '+300', fromKg: 300, key: 'rate_plus_300' },
+];
+
+/** Matches any origin or destination */
+export const ANY_LOCATION = '*';
+
+/**
+ * Per-kg rates of each weight break
+ */
+export interface RateCardRates {
+  rate_minus_45: number;
+  rate_plus_45: number;
+  rate_plus_100: number;
+  rate_plus_300: number;
+}
+
+/**
+ * Rate card definition as stored in the rate_cards table
+ */
+export interface RateCardData extends RateCardRates {
+  id?: number;
+  origin: string;
+  destination: string;
+  currency: string;
+  minimum_charge: number;
+  /** Surcharge in percent of the freight charge, keyed by cargo type */
+  surcharges?: Record<string, number>;
+}
+
+/**
+ * Price breakdown of a quote
+ */
+export interface QuoteBreakdown {
+  chargeable_weight_kg: number;
+  weight_break: WeightBreak;
+  rate_per_kg: number;
+  freight_charge: number;
+  surcharge_percent: number;
+  surcharge: number;
+  total: number;
+  currency: string;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * ENCAPSULATION: A validated rate card for one lane
+ */
+export class RateCard {
+  private readonly data: RateCardData;
+
+  /**
+   * @throws Error when the rate card is invalid
+   */
+  constructor(data: RateCardData) {
+    const errors = RateCard.validate(data);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.data = {
+      ...data,
+      origin: RateCard.normalizeLocation(data.origin),
+      destination: RateCard.normalizeLocation(data.destination),
+      currency: data.currency.toUpperCase(),
+      surcharges: { ...(data.surcharges || {}) },
+    };
+  }
+
+  static normalizeLocation(value: string): string {
+    return (value || '').trim().toUpperCase();
+  }
+
+  /**
+   * Validate a rate card definition
+   * @param cargoTypes - Cargo types surcharges may be defined for
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(data: Partial<RateCardData>, cargoTypes?: string[]): string[] {
+    const errors: string[] = [];
+
+    if (!data.origin || data.origin.trim().length < 1) {
+      errors.push(`Origin is required (use '${ANY_LOCATION}' for any)`);
+    }
+    if (!data.destination || data.destination.trim().length < 1) {
+      errors.push(`Destination is required (use '${ANY_LOCATION}' for any)`);
+    }
+    if (!data.currency || !/^[A-Za-z]{3}$/.test(data.currency)) {
+      errors.push('Currency must be a 3-letter ISO code');
+    }
+
+    if (typeof data.minimum_charge !== 'number' || !(data.minimum_charge >= 0)) {
+      errors.push('Minimum charge must be zero or more');
+    }
+
+    for (const { name, key } of BREAK_THRESHOLDS) {
+      const rate = data[key];
+      if (typeof rate !== 'number' || !(rate > 0)) {
+        errors.push(`Rate for the ${name} kg break must be a positive number`);
+      }
+    }
+
+    for (const [cargoType, percent] of Object.entries(data.surcharges || {})) {
+      if (cargoTypes && !cargoTypes.includes(cargoType)) {
+        errors.push(`Surcharge cargo type must be one of: ${cargoTypes.join(', ')}`);
+      }
+      if (typeof percent !== 'number' || percent < 0 || percent > 500) {
+        errors.push(`Surcharge for ${cargoType} must be between 0 and 500 percent`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * The most specific rate card for a lane
+   * An exact lane wins over a wildcard origin, which wins over a wildcard destination
+   */
+  static findBestMatch(cards: RateCard[], origin: string, destination: string): RateCard | null {
+    return cards
+      .filter(card => card.matches(origin, destination))
+      .sort((a, b) => b.getSpecificity() - a.getSpecificity())[0] ?? null;
+  }
+
+  public getId(): number | undefined {
+    return this.data.id;
+  }
+
+  public getOrigin(): string {
+    return this.data.origin;
+  }
+
+  public getDestination(): string {
+    return this.data.destination;
+  }
+
+  public getCurrency(): string {
+    return this.data.currency;
+  }
+
+  /**
+   * Whether this card applies to a lane (case-insensitive, '*' matches anything)
+   */
+  public matches(origin: string, destination: string): boolean {
+    const matchesSide = (cardValue: string, value: string) =>
+      cardValue === ANY_LOCATION || cardValue === RateCard.normalizeLocation(value);
+    return matchesSide(this.data.origin, origin) && matchesSide(this.data.destination, destination);
+  }
+
+  /**
+   * 3 for an exact lane, 2 for a fixed destination, 1 for a fixed origin, 0 for any lane
+   */
+  public getSpecificity(): number {
+    return (this.data.destination !== ANY_LOCATION ? 2 : 0) + (this.data.origin !== ANY_LOCATION ? 1 : 0);
+  }
+
+  /**
+   * Surcharge percentage for a cargo type (0 when none is configured)
+   */
+  public getSurchargePercent(cargoType?: string | null): number {
+    if (!cargoType) return 0;
+    return this.data.surcharges?.[cargoType.toLowerCase()] ?? 0;
+  }
+
+  /**
+   * Price a shipment
+   * The cheaper of the applicable break and any higher break charged at
+   * its threshold weight is used, but never less than the minimum charge
+   */
+  public quote(chargeableWeightKg: number, cargoType?: string | null): QuoteBreakdown {
+    if (!(chargeableWeightKg > 0)) {
+      throw new Error('Chargeable weight must be a positive number');
+    }
+
+    const applicable = BREAK_THRESHOLDS.filter(({ fromKg }) => fromKg <= chargeableWeightKg).length - 1;
+
+    let weightBreak: WeightBreak = '-45';
+    let ratePerKg = this.data.rate_minus_45;
+    let freight = Infinity;
+
+    for (const { name, fromKg, key } of BREAK_THRESHOLDS.slice(applicable)) {
+      const rate = this.data[key];
+      const charge = rate * Math.max(chargeableWeightKg, fromKg);
+      if (charge < freight) {
+        freight = charge;
+        weightBreak = name;
+        ratePerKg = rate;
+      }
+    }
+
+    if (freight < this.data.minimum_charge) {
+      freight = this.data.minimum_charge;
+      weightBreak = 'minimum';
+    }
+
+    const freightCharge = round2(freight);
+    const surchargePercent = this.getSurchargePercent(cargoType);
+    const surcharge = round2(freightCharge * surchargePercent / 100);
+
+    return {
+      chargeable_weight_kg: chargeableWeightKg,
+      weight_break: weightBreak,
+      rate_per_kg: ratePerKg,
+      freight_charge: freightCharge,
+      surcharge_percent: surchargePercent,
+      surcharge,
+      total: round2(freightCharge + surcharge),
+      currency: this.data.currency,
+    };
+  }
+
+  public toJSON(): RateCardData {
+    return { ...this.data, surcharges: { ...this.data.surcharges } };
+  }
+}
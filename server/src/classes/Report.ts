@@ -336,6 +336,10 @@ export class ReportTemplates {
         { key: 'status', header: 'Status', width: 12 },
         { key: 'cargo_type', header: 'Cargo Type', width: 15 },
         { key: 'weight_kg', header: 'Weight (kg)', width: 12, align: 'right' },
+        { key: 'total_pieces', header: 'Pieces', width: 8, align: 'right' },
+        { key: 'volume_m3', header: 'Volume (m³)', width: 12, align: 'right' },
+        { key: 'volumetric_weight_kg', header: 'Vol. Weight (kg)', width: 14, align: 'right' },
+        { key: 'chargeable_weight_kg', header: 'Chargeable (kg)', width: 14, align: 'right' },
         { key: 'created_at', header: 'Created Date', width: 18 },
         { key: 'estimated_arrival', header: 'Est. Arrival', width: 18 },
       ],
@@ -348,10 +352,11 @@ export class ReportTemplates {
   static weatherImpact(): ReportConfig {
     return {
       title: 'Weather Impact Analysis Report',
-      subtitle: 'Weather conditions affecting shipments',
+      subtitle: 'Weather conditions and temperature excursions affecting shipments',
       columns: [
         { key: 'tracking_number', header: 'Tracking #', width: 15 },
         { key: 'location', header: 'Location', width: 20 },
+        { key: 'impact_type', header: 'Impact', width: 20 },
         { key: 'weather_condition', header: 'Weather', width: 15 },
         { key: 'impact_level', header: 'Impact Level', width: 12 },
         { key: 'delay_risk', header: 'Delay Risk %', width: 12, align: 'right' },
@@ -375,6 +380,9 @@ export class ReportTemplates {
         { key: 'on_time_percentage', header: 'On-Time %', width: 12, align: 'right' },
         { key: 'avg_delay_hours', header: 'Avg Delay (hrs)', width: 15, align: 'right' },
         { key: 'weather_delays', header: 'Weather Delays', width: 15, align: 'right' },
+        { key: 'delay_reasons', header: 'Delay Reasons', width: 30 },
+        { key: 'avg_customs_dwell_hours', header: 'Avg Customs Dwell (hrs)', width: 15, align: 'right' },
+        { key: 'customs_holds', header: 'Customs Holds', width: 12, align: 'right' },
         { key: 'total_weight_kg', header: 'Total Weight (kg)', width: 15, align: 'right' },
         { key: 'period_start', header: 'Period Start', width: 15 },
         { key: 'period_end', header: 'Period End', width: 15 },
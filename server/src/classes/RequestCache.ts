@@ -0,0 +1,124 @@
+/**
+ * RequestCache.ts - Time-limited cache for external API responses
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Entries and in-flight requests are private to the cache
+ * - GENERICS: One cache class serves any response type
+ *
+ * Weather for a location is asked for many times within minutes: twice per
+ * point when a shipment is opened, once per shipment for alerts, and by the
+ * hourly background check. Responses are kept for a TTL, and identical
+ * requests made while one is on its way share that request.
+ */
+
+/** Decimal places of cache keys built from coordinates; 2 is about 1 km */
+export const COORDINATE_KEY_DECIMALS = 2;
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * ENCAPSULATION: Responses by key with a time to live
+ */
+export class RequestCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly inFlight = new Map<string, Promise<T>>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  /**
+   * @param ttlMs - How long a response is reused
+   * @param maxEntries - Oldest entries are dropped beyond this size
+   * @param now - Clock, replaceable in tests
+   */
+  constructor(ttlMs: number, maxEntries: number = 1000, now: () => number = Date.now) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+    this.now = now;
+  }
+
+  /**
+   * Key for a location, so nearby points share an entry
+   */
+  static coordinateKey(lat: number, lon: number, decimals: number = COORDINATE_KEY_DECIMALS): string {
+    const factor = 10 ** decimals;
+    // Adding 0 turns -0 into 0, so points just south of the equator share the key of those just north
+    const round = (value: number) => (Math.round(value * factor) / factor + 0).toFixed(decimals);
+    return `${round(lat)},${round(lon)}`;
+  }
+
+  /**
+   * Cached value of a key, or the result of fetching it
+   * Failed fetches (rejected or resolving to null) are not cached
+   */
+  async get(key: string, fetch: () => Promise<T>): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > this.now()) {
+      return entry.value;
+    }
+    if (entry) {
+      this.entries.delete(key);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = fetch()
+      .then(value => {
+        if (value !== null && value !== undefined) {
+          this.set(key, value);
+        }
+        return value;
+      })
+      .finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private set(key: string, value: T): void {
+    // Maps keep insertion order, so the first key is the oldest
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: this.now() + this.ttlMs });
+  }
+
+  public size(): number {
+    return this.entries.size;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Map items through an async function, running at most `limit` calls at a time
+ * Results keep the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,207 @@
+/**
+ * ScheduledJob.ts - Background jobs, their leases and run history
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: A job's schedule and lease are validated once; a run only changes state through succeed/fail
+ * - ABSTRACTION: The scheduler asks whether a job can be taken instead of comparing timestamps
+ *
+ * Every server instance runs the scheduler. A run first takes a lease on the
+ * job; other instances skip the job until the lease is released or expires,
+ * so a crashed instance never blocks a job for longer than its lease.
+ */
+
+import { validate as isValidCronExpression } from 'node-cron';
+
+export const JOB_RUN_STATUSES = ['running', 'succeeded', 'failed'] as const;
+export type JobRunStatus = typeof JOB_RUN_STATUSES[number];
+
+const DEFAULT_LEASE_MINUTES = 10;
+const MAX_LEASE_MINUTES = 24 * 60;
+
+/** Longest error message kept in the run history */
+const MAX_ERROR_LENGTH = 1000;
+
+/**
+ * Definition of a background job
+ */
+export interface ScheduledJobData {
+  /** Unique name, e.g. "refresh-flights" */
+  name: string;
+  /** Cron expression, e.g. "*\/10 * * * *" */
+  schedule: string;
+  description: string;
+  /** How long a run may hold the job before another instance may take it over */
+  lease_minutes?: number;
+}
+
+/**
+ * Lease columns of a stored job
+ */
+export interface JobLease {
+  locked_by: string | null;
+  locked_until: string | null;
+}
+
+/**
+ * ENCAPSULATION: A validated job definition
+ */
+export class ScheduledJob {
+  private readonly data: Required<ScheduledJobData>;
+
+  /**
+   * @throws Error when the definition is invalid
+   */
+  constructor(data: ScheduledJobData) {
+    const errors = ScheduledJob.validate(data);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.data = {
+      name: data.name,
+      schedule: data.schedule.trim(),
+      description: data.description.trim(),
+      lease_minutes: data.lease_minutes ?? DEFAULT_LEASE_MINUTES,
+    };
+  }
+
+  /**
+   * Validate a job definition
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(data: Partial<ScheduledJobData>): string[] {
+    const errors: string[] = [];
+
+    if (!data.name || !/^[a-z][a-z0-9-]{1,49}$/.test(data.name)) {
+      errors.push('Job name must be 2-50 lowercase letters, digits or hyphens');
+    }
+
+    if (!data.schedule || !isValidCronExpression(data.schedule.trim())) {
+      errors.push(`Schedule of job '${data.name}' must be a valid cron expression`);
+    }
+
+    if (!data.description || !data.description.trim()) {
+      errors.push('Job description is required');
+    }
+
+    if (data.lease_minutes !== undefined &&
+        (!Number.isInteger(data.lease_minutes) || data.lease_minutes < 1 || data.lease_minutes > MAX_LEASE_MINUTES)) {
+      errors.push(`Lease must be between 1 and ${MAX_LEASE_MINUTES} minutes`);
+    }
+
+    return errors;
+  }
+
+  public getName(): string {
+    return this.data.name;
+  }
+
+  public getSchedule(): string {
+    return this.data.schedule;
+  }
+
+  public getDescription(): string {
+    return this.data.description;
+  }
+
+  /**
+   * Whether a run may take the job; only when nobody holds an unexpired lease
+   */
+  public canAcquire(lease: JobLease, now: Date = new Date()): boolean {
+    return !lease.locked_by || !lease.locked_until || new Date(lease.locked_until).getTime() <= now.getTime();
+  }
+
+  /**
+   * End of the lease taken by a run starting now
+   */
+  public leaseUntil(now: Date = new Date()): Date {
+    return new Date(now.getTime() + this.data.lease_minutes * 60 * 1000);
+  }
+
+  public toJSON(): Required<ScheduledJobData> {
+    return { ...this.data };
+  }
+}
+
+/**
+ * ENCAPSULATION: One run of a job, from start to success or failure
+ */
+export class JobRun {
+  private readonly jobName: string;
+  private readonly instanceId: string;
+  private readonly startedAt: Date;
+  private status: JobRunStatus = 'running';
+  private finishedAt: Date | null = null;
+  private itemsProcessed: number | null = null;
+  private error: string | null = null;
+
+  constructor(jobName: string, instanceId: string, startedAt: Date = new Date()) {
+    this.jobName = jobName;
+    this.instanceId = instanceId;
+    this.startedAt = startedAt;
+  }
+
+  /**
+   * @param itemsProcessed - Flights, shipments or rows the job handled
+   * @throws Error when the run has already finished
+   */
+  public succeed(itemsProcessed: number, at: Date = new Date()): void {
+    this.finish('succeeded', at);
+    this.itemsProcessed = itemsProcessed;
+  }
+
+  /**
+   * @throws Error when the run has already finished
+   */
+  public fail(error: unknown, at: Date = new Date()): void {
+    this.finish('failed', at);
+    const message = error instanceof Error ? error.message : String(error);
+    this.error = message.slice(0, MAX_ERROR_LENGTH);
+  }
+
+  private finish(status: JobRunStatus, at: Date): void {
+    if (this.status !== 'running') {
+      throw new Error(`Run of job '${this.jobName}' has already ${this.status}`);
+    }
+    this.status = status;
+    this.finishedAt = at;
+  }
+
+  public getStatus(): JobRunStatus {
+    return this.status;
+  }
+
+  public getError(): string | null {
+    return this.error;
+  }
+
+  /**
+   * Milliseconds from start to finish (null while running)
+   */
+  public getDurationMs(): number | null {
+    return this.finishedAt ? this.finishedAt.getTime() - this.startedAt.getTime() : null;
+  }
+
+  /**
+   * Columns stored in the job_runs table
+   */
+  public toJSON(): {
+    job_name: string;
+    instance_id: string;
+    status: JobRunStatus;
+    started_at: string;
+    finished_at: string | null;
+    items_processed: number | null;
+    error: string | null;
+  } {
+    return {
+      job_name: this.jobName,
+      instance_id: this.instanceId,
+      status: this.status,
+      started_at: this.startedAt.toISOString(),
+      finished_at: this.finishedAt?.toISOString() ?? null,
+      items_processed: this.itemsProcessed,
+      error: this.error,
+    };
+  }
+}
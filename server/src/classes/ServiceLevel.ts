@@ -0,0 +1,292 @@
+/**
+ * ServiceLevel.ts - Service level targets and SLA evaluation of shipments
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Targets and evaluations are validated once and read through getters
+ * - ABSTRACTION: Callers get a status and an escalation step; slack arithmetic stays inside
+ *
+ * A target promises delivery within a number of hours of booking for a lane
+ * and/or service level ('*' matches any). The promised delivery is compared
+ * with the current ETA, so a breach is predicted before it happens.
+ */
+
+import { ANY_LOCATION } from './RateCard';
+import { Role } from './AccessPolicy';
+
+export const SERVICE_LEVELS = ['standard', 'express', 'priority'] as const;
+export type ServiceLevel = typeof SERVICE_LEVELS[number];
+export const DEFAULT_SERVICE_LEVEL: ServiceLevel = 'standard';
+
+export const SLA_STATUSES = ['on_track', 'at_risk', 'breach_predicted', 'breached', 'met'] as const;
+export type SlaStatus = typeof SLA_STATUSES[number];
+
+/** Slack below which a shipment is at risk, unless the target sets its own */
+export const DEFAULT_AT_RISK_HOURS = 12;
+
+/** Longest transit time a target may promise (90 days) */
+const MAX_TRANSIT_HOURS = 2160;
+
+const HOURS_MS = 60 * 60 * 1000;
+
+/**
+ * Service level target as stored in the sla_targets table
+ */
+export interface SlaTargetData {
+  id?: number;
+  origin: string;
+  destination: string;
+  service_level: string;
+  /** Promised hours from booking to delivery */
+  transit_hours: number;
+  /** Slack in hours below which the shipment is at risk */
+  at_risk_hours?: number;
+}
+
+/**
+ * Who is notified, and what they should do, at each escalation level
+ */
+export interface EscalationStep {
+  level: number;
+  sla_status: SlaStatus;
+  notify_role: Role;
+  action: string;
+}
+
+export const ESCALATION_STEPS: EscalationStep[] = [
+  {
+    level: 1,
+    sla_status: 'at_risk',
+    notify_role: 'dispatcher',
+    action: 'Check the routing and confirm the ETA with the carrier',
+  },
+  {
+    level: 2,
+    sla_status: 'breach_predicted',
+    notify_role: 'admin',
+    action: 'Rebook on an earlier flight or warn the customer before the promised delivery',
+  },
+  {
+    level: 3,
+    sla_status: 'breached',
+    notify_role: 'admin',
+    action: 'Inform the customer and record the root cause',
+  },
+];
+
+/**
+ * ENCAPSULATION: A validated service level target
+ */
+export class SlaTarget {
+  private readonly data: Required<Omit<SlaTargetData, 'id'>> & { id?: number };
+
+  /**
+   * @throws Error when the target is invalid
+   */
+  constructor(data: SlaTargetData) {
+    const errors = SlaTarget.validate(data);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.data = {
+      id: data.id,
+      origin: SlaTarget.normalize(data.origin),
+      destination: SlaTarget.normalize(data.destination),
+      service_level: data.service_level.trim().toLowerCase(),
+      transit_hours: Number(data.transit_hours),
+      at_risk_hours: data.at_risk_hours != null ? Number(data.at_risk_hours) : DEFAULT_AT_RISK_HOURS,
+    };
+  }
+
+  static normalize(value: string): string {
+    return (value || '').trim().toUpperCase();
+  }
+
+  /**
+   * Validate a target definition
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(data: Partial<SlaTargetData>): string[] {
+    const errors: string[] = [];
+
+    if (!data.origin || data.origin.trim().length < 1) {
+      errors.push(`Origin is required (use '${ANY_LOCATION}' for any)`);
+    }
+    if (!data.destination || data.destination.trim().length < 1) {
+      errors.push(`Destination is required (use '${ANY_LOCATION}' for any)`);
+    }
+
+    const level = typeof data.service_level === 'string' ? data.service_level.trim().toLowerCase() : '';
+    if (level !== ANY_LOCATION && !SERVICE_LEVELS.includes(level as ServiceLevel)) {
+      errors.push(`Service level must be '${ANY_LOCATION}' or one of: ${SERVICE_LEVELS.join(', ')}`);
+    }
+
+    const transit = Number(data.transit_hours);
+    if (data.transit_hours == null || !(transit > 0) || transit > MAX_TRANSIT_HOURS) {
+      errors.push(`Transit time must be between 1 and ${MAX_TRANSIT_HOURS} hours`);
+    }
+
+    if (data.at_risk_hours != null) {
+      const atRisk = Number(data.at_risk_hours);
+      if (!(atRisk >= 0)) {
+        errors.push('At-risk threshold must be zero or more hours');
+      } else if (transit > 0 && atRisk >= transit) {
+        errors.push('At-risk threshold must be shorter than the transit time');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * The most specific target for a shipment
+   * A fixed service level wins over a fixed lane; lanes rank like rate cards
+   */
+  static findBestMatch(
+    targets: SlaTarget[],
+    origin: string,
+    destination: string,
+    serviceLevel: string | null | undefined
+  ): SlaTarget | null {
+    return targets
+      .filter(target => target.matches(origin, destination, serviceLevel))
+      .sort((a, b) => b.getSpecificity() - a.getSpecificity())[0] ?? null;
+  }
+
+  public getId(): number | undefined {
+    return this.data.id;
+  }
+
+  public getTransitHours(): number {
+    return this.data.transit_hours;
+  }
+
+  public getAtRiskHours(): number {
+    return this.data.at_risk_hours;
+  }
+
+  /**
+   * Whether this target applies to a shipment (case-insensitive, '*' matches anything)
+   */
+  public matches(origin: string, destination: string, serviceLevel: string | null | undefined): boolean {
+    const matchesSide = (targetValue: string, value: string) =>
+      targetValue === ANY_LOCATION || targetValue === SlaTarget.normalize(value);
+    const level = (serviceLevel || DEFAULT_SERVICE_LEVEL).toLowerCase();
+
+    return matchesSide(this.data.origin, origin) &&
+      matchesSide(this.data.destination, destination) &&
+      (this.data.service_level === ANY_LOCATION || this.data.service_level === level);
+  }
+
+  /**
+   * 4 for a fixed service level, plus 2 for a fixed destination and 1 for a fixed origin
+   */
+  public getSpecificity(): number {
+    return (this.data.service_level !== ANY_LOCATION ? 4 : 0) +
+      (this.data.destination !== ANY_LOCATION ? 2 : 0) +
+      (this.data.origin !== ANY_LOCATION ? 1 : 0);
+  }
+
+  /**
+   * Promised delivery of a shipment booked at the given time
+   */
+  public dueFrom(bookedAt: Date | string): Date {
+    return new Date(new Date(bookedAt).getTime() + this.data.transit_hours * HOURS_MS);
+  }
+
+  public toJSON(): SlaTargetData {
+    return { ...this.data };
+  }
+}
+
+/**
+ * What an evaluation needs to know about a shipment
+ */
+export interface SlaEvaluationInput {
+  due_at: Date | string;
+  estimated_arrival?: Date | string | null;
+  /** Set once the shipment has arrived */
+  arrived_at?: Date | string | null;
+  at_risk_hours?: number;
+}
+
+/**
+ * ENCAPSULATION: The SLA position of one shipment at one moment
+ */
+export class SlaEvaluation {
+  private readonly dueAt: Date;
+  private readonly slackHours: number;
+  private readonly status: SlaStatus;
+
+  constructor(input: SlaEvaluationInput, now: Date = new Date()) {
+    this.dueAt = new Date(input.due_at);
+    if (isNaN(this.dueAt.getTime())) {
+      throw new Error('Promised delivery must be a valid date');
+    }
+
+    const arrivedAt = input.arrived_at ? new Date(input.arrived_at) : null;
+    const eta = input.estimated_arrival ? new Date(input.estimated_arrival) : null;
+
+    // An ETA that has passed without arrival is stale: the shipment arrives now at the earliest
+    const expected = arrivedAt ?? new Date(Math.max(eta && !isNaN(eta.getTime()) ? eta.getTime() : 0, now.getTime()));
+
+    this.slackHours = Math.round(((this.dueAt.getTime() - expected.getTime()) / HOURS_MS) * 10) / 10;
+    this.status = SlaEvaluation.statusOf(
+      this.slackHours,
+      !!arrivedAt,
+      now.getTime() > this.dueAt.getTime(),
+      input.at_risk_hours ?? DEFAULT_AT_RISK_HOURS
+    );
+  }
+
+  private static statusOf(slackHours: number, arrived: boolean, overdue: boolean, atRiskHours: number): SlaStatus {
+    if (arrived) {
+      return slackHours >= 0 ? 'met' : 'breached';
+    }
+    if (overdue) return 'breached';
+    if (slackHours < 0) return 'breach_predicted';
+    if (slackHours < atRiskHours) return 'at_risk';
+    return 'on_track';
+  }
+
+  public getStatus(): SlaStatus {
+    return this.status;
+  }
+
+  public getDueAt(): Date {
+    return this.dueAt;
+  }
+
+  /**
+   * Hours between the expected (or actual) arrival and the promised delivery; negative when late
+   */
+  public getSlackHours(): number {
+    return this.slackHours;
+  }
+
+  public isAtRisk(): boolean {
+    return this.status === 'at_risk' || this.status === 'breach_predicted';
+  }
+
+  public isBreached(): boolean {
+    return this.status === 'breached';
+  }
+
+  /**
+   * Escalation step that applies to the current status (null when on track or met)
+   */
+  public getEscalationStep(): EscalationStep | null {
+    return ESCALATION_STEPS.find(step => step.sla_status === this.status) ?? null;
+  }
+
+  /**
+   * Columns stored on the shipment
+   */
+  public toJSON(): { sla_due_at: string; sla_status: SlaStatus; sla_slack_hours: number } {
+    return {
+      sla_due_at: this.dueAt.toISOString(),
+      sla_status: this.status,
+      sla_slack_hours: this.slackHours,
+    };
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * ShipmentDocument.ts - Paperwork attached to a shipment
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: File metadata is private and validated on construction
+ * - ABSTRACTION: Callers upload bytes; the class decides whether the file is acceptable
+ *
+ * Accepted files are PDFs, scans (PNG, JPEG, TIFF), spreadsheets and Word documents
+ * up to 10 MB. Binary formats must start with the signature of their declared type,
+ * so a renamed executable is not accepted as a PDF.
+ */
+
+/** Largest accepted file */
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+/** Maximum number of documents on one shipment */
+export const MAX_DOCUMENTS_PER_SHIPMENT = 50;
+
+export const DOCUMENT_TYPES = [
+  'awb',
+  'commercial_invoice',
+  'packing_list',
+  'certificate_of_origin',
+  'other',
+] as const;
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+/**
+ * Accepted content types with their file extensions and leading bytes
+ * Office documents are ZIP containers; CSV has no signature
+ */
+const CONTENT_TYPES: Record<string, { extensions: string[]; signatures: number[][] }> = {
+  'application/pdf': { extensions: ['.pdf'], signatures: [[0x25, 0x50, 0x44, 0x46]] },
+  'image/png': { extensions: ['.png'], signatures: [[0x89, 0x50, 0x4e, 0x47]] },
+  'image/jpeg': { extensions: ['.jpg', '.jpeg'], signatures: [[0xff, 0xd8, 0xff]] },
+  'image/tiff': { extensions: ['.tif', '.tiff'], signatures: [[0x49, 0x49, 0x2a, 0x00], [0x4d, 0x4d, 0x00, 0x2a]] },
+  'text/csv': { extensions: ['.csv'], signatures: [] },
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+    extensions: ['.xlsx'],
+    signatures: [[0x50, 0x4b, 0x03, 0x04]],
+  },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+    extensions: ['.docx'],
+    signatures: [[0x50, 0x4b, 0x03, 0x04]],
+  },
+};
+
+export const ALLOWED_CONTENT_TYPES = Object.keys(CONTENT_TYPES);
+
+/**
+ * An uploaded file before it is stored
+ */
+export interface DocumentUpload {
+  file_name: string;
+  content_type: string;
+  document_type: string;
+  content: Uint8Array;
+}
+
+/**
+ * ENCAPSULATION: A validated document upload
+ */
+export class ShipmentDocument {
+  private readonly fileName: string;
+  private readonly contentType: string;
+  private readonly documentType: DocumentType;
+  private readonly content: Uint8Array;
+
+  /**
+   * @throws Error when the upload is not acceptable
+   */
+  constructor(upload: DocumentUpload) {
+    const errors = ShipmentDocument.validate(upload);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.fileName = ShipmentDocument.sanitizeFileName(upload.file_name);
+    this.contentType = ShipmentDocument.normalizeContentType(upload.content_type);
+    this.documentType = upload.document_type as DocumentType;
+    this.content = upload.content;
+  }
+
+  /**
+   * Validate an upload
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(upload: Partial<DocumentUpload>): string[] {
+    const errors: string[] = [];
+
+    if (!upload.document_type || !DOCUMENT_TYPES.includes(upload.document_type as DocumentType)) {
+      errors.push(`Document type must be one of: ${DOCUMENT_TYPES.join(', ')}`);
+    }
+
+    const fileName = ShipmentDocument.sanitizeFileName(upload.file_name || '');
+    if (!fileName) {
+      errors.push('File name is required');
+    }
+
+    const contentType = ShipmentDocument.normalizeContentType(upload.content_type || '');
+    const accepted = CONTENT_TYPES[contentType];
+    if (!accepted) {
+      errors.push('File type not allowed. Upload a PDF, PNG, JPEG, TIFF, CSV, XLSX or DOCX file');
+    } else if (fileName && !accepted.extensions.includes(ShipmentDocument.extensionOf(fileName))) {
+      errors.push(`File extension does not match ${contentType}`);
+    }
+
+    const size = upload.content?.length ?? 0;
+    if (size === 0) {
+      errors.push('File is empty');
+    } else if (size > MAX_DOCUMENT_BYTES) {
+      errors.push(`File must be at most ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`);
+    } else if (accepted && upload.content && !ShipmentDocument.matchesSignature(upload.content, accepted.signatures)) {
+      errors.push(`File content is not a valid ${contentType} file`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Strip directories and control characters from a client-supplied file name
+   */
+  static sanitizeFileName(fileName: string): string {
+    const base = fileName.split(/[\\/]/).pop() || '';
+    return base
+      .replace(/[\u0000-\u001f\u007f"]/g, '')
+      .trim()
+      .slice(0, 255);
+  }
+
+  /**
+   * Lower-case content type without parameters such as charset
+   */
+  static normalizeContentType(contentType: string): string {
+    return contentType.split(';')[0].trim().toLowerCase();
+  }
+
+  private static extensionOf(fileName: string): string {
+    const dot = fileName.lastIndexOf('.');
+    return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+  }
+
+  private static matchesSignature(content: Uint8Array, signatures: number[][]): boolean {
+    if (signatures.length === 0) return true;
+    return signatures.some(signature =>
+      signature.every((byte, index) => content[index] === byte)
+    );
+  }
+
+  getFileName(): string {
+    return this.fileName;
+  }
+
+  getContentType(): string {
+    return this.contentType;
+  }
+
+  getDocumentType(): DocumentType {
+    return this.documentType;
+  }
+
+  getContent(): Uint8Array {
+    return this.content;
+  }
+
+  getSize(): number {
+    return this.content.length;
+  }
+
+  /**
+   * Storage location of the document; never derived from the client's file name
+   */
+  static storageKey(organizationId: string, shipmentId: string, documentId: string): string {
+    return `${organizationId}/${shipmentId}/${documentId}`;
+  }
+}
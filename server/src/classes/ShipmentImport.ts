@@ -0,0 +1,241 @@
+/**
+ * ShipmentImport.ts - Parsing of bulk shipment uploads
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: CSV/JSON parsing and type coercion are hidden behind static methods
+ * - ABSTRACTION: Both file formats produce the same ImportRow structure
+ *
+ * Each row gets a deterministic import key so that re-uploading the same
+ * file can be detected and skipped instead of creating duplicates.
+ */
+
+import { createHash } from 'crypto';
+import { CreateShipmentRequest } from '../types';
+
+export type ImportFormat = 'csv' | 'json';
+
+/**
+ * A single parsed upload row, before business validation
+ */
+export interface ImportRow {
+  row: number;
+  data: Partial<CreateShipmentRequest>;
+  errors: string[];
+  importKey: string;
+}
+
+const NUMERIC_FIELDS = ['origin_lat', 'origin_lon', 'dest_lat', 'dest_lon', 'weight_kg', 'temp_min_c', 'temp_max_c'] as const;
+const TEXT_FIELDS = ['origin', 'destination', 'cargo_type', 'estimated_arrival', 'awb_number'] as const;
+
+export const MAX_IMPORT_ROWS = 500;
+
+/**
+ * ShipmentImportParser - turns uploaded file content into shipment requests
+ */
+export class ShipmentImportParser {
+  /**
+   * Parse file content into import rows
+   * @throws Error when the file itself cannot be read (malformed JSON, missing header, too many rows)
+   */
+  static parse(content: string, format: ImportFormat): ImportRow[] {
+    const records = format === 'json'
+      ? ShipmentImportParser.parseJson(content)
+      : ShipmentImportParser.parseCsv(content);
+
+    if (records.length === 0) {
+      throw new Error('File contains no shipment rows');
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new Error(`File contains ${records.length} rows; the maximum is ${MAX_IMPORT_ROWS}`);
+    }
+
+    // Identical rows within one file are distinct shipments, so the occurrence
+    // count is part of the key
+    const occurrences = new Map<string, number>();
+
+    return records.map((record, index) => {
+      const { data, errors } = ShipmentImportParser.toShipmentRequest(record);
+      const fingerprint = ShipmentImportParser.fingerprint(data);
+      const occurrence = (occurrences.get(fingerprint) || 0) + 1;
+      occurrences.set(fingerprint, occurrence);
+
+      return {
+        row: index + 1,
+        data,
+        errors,
+        importKey: createHash('sha256').update(`${fingerprint}#${occurrence}`).digest('hex'),
+      };
+    });
+  }
+
+  /**
+   * Parse a JSON array (or { shipments: [...] }) of shipment objects
+   */
+  static parseJson(content: string): Record<string, unknown>[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { shipments?: unknown })?.shipments;
+
+    if (!Array.isArray(list)) {
+      throw new Error('JSON must be an array of shipments');
+    }
+
+    return list.map(item => (item && typeof item === 'object' ? item as Record<string, unknown> : {}));
+  }
+
+  /**
+   * Parse CSV with a header row
+   * Supports quoted fields, escaped quotes ("") and CRLF line endings
+   */
+  static parseCsv(content: string): Record<string, unknown>[] {
+    const lines = ShipmentImportParser.splitCsv(content.replace(/^\uFEFF/, ''))
+      .filter(fields => fields.some(field => field.trim() !== ''));
+
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const headers = lines[0].map(header => header.trim().toLowerCase().replace(/\s+/g, '_'));
+
+    if (!headers.includes('origin') || !headers.includes('destination')) {
+      throw new Error('CSV header must include origin and destination columns');
+    }
+
+    return lines.slice(1).map(fields => {
+      const record: Record<string, unknown> = {};
+      headers.forEach((header, i) => {
+        record[header] = fields[i] ?? '';
+      });
+      return record;
+    });
+  }
+
+  /**
+   * Split CSV text into rows of fields
+   */
+  private static splitCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Coerce a raw record into a shipment request
+   * Type errors are reported here; business rules are left to ShipmentValidator
+   */
+  static toShipmentRequest(record: Record<string, unknown>): {
+    data: Partial<CreateShipmentRequest>;
+    errors: string[];
+  } {
+    const data: Partial<CreateShipmentRequest> = {};
+    const errors: string[] = [];
+
+    for (const field of TEXT_FIELDS) {
+      const value = record[field];
+      if (value !== undefined && value !== null && String(value).trim() !== '') {
+        data[field] = String(value).trim();
+      }
+    }
+
+    if (data.cargo_type) {
+      data.cargo_type = data.cargo_type.toLowerCase();
+    }
+
+    if (data.awb_number) {
+      data.awb_number = data.awb_number.replace(/[\s-]/g, '');
+    }
+
+    if (data.estimated_arrival) {
+      const date = new Date(data.estimated_arrival);
+      if (isNaN(date.getTime())) {
+        errors.push(`Estimated arrival '${data.estimated_arrival}' is not a valid date`);
+      } else {
+        data.estimated_arrival = date.toISOString();
+      }
+    }
+
+    for (const field of NUMERIC_FIELDS) {
+      const value = record[field];
+      if (value === undefined || value === null || String(value).trim() === '') continue;
+
+      const num = typeof value === 'number' ? value : Number(String(value).trim());
+      if (isNaN(num)) {
+        errors.push(`${field} must be a number`);
+      } else {
+        data[field] = num;
+      }
+    }
+
+    if (Array.isArray(record.legs)) {
+      data.legs = record.legs as CreateShipmentRequest['legs'];
+    }
+
+    return { data, errors };
+  }
+
+  /**
+   * Normalized representation of a row used for duplicate detection
+   */
+  private static fingerprint(data: Partial<CreateShipmentRequest>): string {
+    return JSON.stringify({
+      origin: data.origin?.toLowerCase() || null,
+      destination: data.destination?.toLowerCase() || null,
+      cargo_type: data.cargo_type || null,
+      weight_kg: data.weight_kg ?? null,
+      estimated_arrival: data.estimated_arrival || null,
+      origin_lat: data.origin_lat ?? null,
+      origin_lon: data.origin_lon ?? null,
+      dest_lat: data.dest_lat ?? null,
+      dest_lon: data.dest_lon ?? null,
+      awb_number: data.awb_number || null,
+      legs: data.legs ?? null,
+      // Only present when set, so keys of earlier imports stay the same
+      ...(data.temp_min_c !== undefined || data.temp_max_c !== undefined
+        ? { temp_min_c: data.temp_min_c ?? null, temp_max_c: data.temp_max_c ?? null }
+        : {}),
+    });
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * ShipmentRoute.ts - Multi-leg shipment routing
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Legs are kept private and ordered by sequence
+ * - ABSTRACTION: Shipment-level status and ETA are derived from the legs
+ *
+ * A shipment moving through a hub (e.g. JFK → FRA → NBO) is modelled as an
+ * ordered list of legs, each flown by its own flight.
+ */
+
+/**
+ * Minimal leg data needed for routing calculations
+ */
+export interface RouteLeg {
+  sequence: number;
+  origin: string;
+  destination: string;
+  status: string;
+  planned_departure?: string | null;
+  planned_arrival?: string | null;
+  actual_departure?: string | null;
+  actual_arrival?: string | null;
+}
+
+/**
+ * ENCAPSULATION: Ordered collection of legs for one shipment
+ */
+export class ShipmentRoute<T extends RouteLeg = RouteLeg> {
+  private legs: T[];
+
+  constructor(legs: T[]) {
+    this.legs = [...legs].sort((a, b) => a.sequence - b.sequence);
+  }
+
+  public getLegs(): T[] {
+    return [...this.legs];
+  }
+
+  public getLegCount(): number {
+    return this.legs.length;
+  }
+
+  public isMultiLeg(): boolean {
+    return this.legs.length > 1;
+  }
+
+  /**
+   * Origin of the first leg
+   */
+  public getOrigin(): string | null {
+    return this.legs[0]?.origin ?? null;
+  }
+
+  /**
+   * Destination of the last leg
+   */
+  public getDestination(): string | null {
+    return this.legs[this.legs.length - 1]?.destination ?? null;
+  }
+
+  /**
+   * Get the leg currently being worked on:
+   * the first leg that has not arrived (ignoring cancelled legs)
+   */
+  public getCurrentLeg(): T | null {
+    return this.legs.find(leg => leg.status !== 'arrived' && leg.status !== 'cancelled') ?? null;
+  }
+
+  /**
+   * Derive the shipment-level status from leg statuses
+   * @returns Derived status, or null when there are no legs
+   */
+  public deriveStatus(): string | null {
+    if (this.legs.length === 0) return null;
+
+    const live = this.legs.filter(leg => leg.status !== 'cancelled');
+
+    if (live.length === 0) return 'cancelled';
+    if (live.some(leg => leg.status === 'delayed')) return 'delayed';
+    if (live.every(leg => leg.status === 'arrived')) return 'arrived';
+
+    const current = this.getCurrentLeg();
+    const isFirstLeg = current === live[0];
+
+    if (current && current.status === 'pending') {
+      // Nothing has moved yet, or the shipment is waiting at a hub
+      return isFirstLeg ? 'pending' : 'in_transit';
+    }
+
+    if (current && current.status === 'departed' && isFirstLeg) {
+      return 'departed';
+    }
+
+    return 'in_transit';
+  }
+
+  /**
+   * Derive the shipment ETA from the final leg
+   * Uses the actual arrival when the final leg has landed
+   */
+  public getEstimatedArrival(): Date | null {
+    const finalLeg = [...this.legs].reverse().find(leg => leg.status !== 'cancelled');
+    if (!finalLeg) return null;
+
+    const value = finalLeg.actual_arrival || finalLeg.planned_arrival;
+    return value ? new Date(value) : null;
+  }
+
+  /**
+   * Departure of the first leg
+   * Uses the actual departure when the first leg has left
+   */
+  public getDeparture(): Date | null {
+    const firstLeg = this.legs.find(leg => leg.status !== 'cancelled');
+    if (!firstLeg) return null;
+
+    const value = firstLeg.actual_departure || firstLeg.planned_departure;
+    return value ? new Date(value) : null;
+  }
+
+  /**
+   * Validate leg ordering and connectivity
+   * @returns List of validation errors (empty when valid)
+   */
+  public validate(): string[] {
+    const errors: string[] = [];
+
+    this.legs.forEach((leg, index) => {
+      const label = `Leg ${index + 1}`;
+
+      if (!leg.origin || leg.origin.trim().length < 2) {
+        errors.push(`${label}: origin is required and must be at least 2 characters`);
+      }
+      if (!leg.destination || leg.destination.trim().length < 2) {
+        errors.push(`${label}: destination is required and must be at least 2 characters`);
+      }
+      if (leg.origin && leg.destination &&
+          leg.origin.trim().toLowerCase() === leg.destination.trim().toLowerCase()) {
+        errors.push(`${label}: origin and destination cannot be the same`);
+      }
+
+      if (leg.planned_departure && leg.planned_arrival &&
+          new Date(leg.planned_departure) > new Date(leg.planned_arrival)) {
+        errors.push(`${label}: planned departure must be before planned arrival`);
+      }
+
+      const next = this.legs[index + 1];
+      if (next) {
+        if (leg.destination && next.origin &&
+            leg.destination.trim().toLowerCase() !== next.origin.trim().toLowerCase()) {
+          errors.push(`${label} ends at ${leg.destination} but Leg ${index + 2} starts at ${next.origin}`);
+        }
+        if (leg.planned_arrival && next.planned_departure &&
+            new Date(leg.planned_arrival) > new Date(next.planned_departure)) {
+          errors.push(`Leg ${index + 2} departs before Leg ${index + 1} arrives`);
+        }
+      }
+    });
+
+    return errors;
+  }
+}
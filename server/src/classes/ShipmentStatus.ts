@@ -6,8 +6,13 @@
  * - POLYMORPHISM: Each status implements abstract methods differently
  * - ENCAPSULATION: Protected/private fields with public getters
  * - FACTORY PATTERN: StatusFactory creates appropriate status instances
+ *
+ * Allowed transitions come from a StatusWorkflow so accounts can configure
+ * their own statuses without new subclasses.
  */
 
+import { StatusWorkflow, StatusDefinition } from './StatusWorkflow';
+
 /**
  * ABSTRACTION & ENCAPSULATION: Abstract base class for shipment statuses
  * Each concrete status class provides its own implementation of abstract methods
@@ -17,11 +22,13 @@ export abstract class ShipmentStatus {
   protected statusName: string;
   protected timestamp: Date;
   protected description: string;
+  protected workflow: StatusWorkflow;
 
-  constructor(name: string, description: string) {
+  constructor(name: string, description: string, workflow: StatusWorkflow = StatusWorkflow.getDefault()) {
     this.statusName = name;
     this.timestamp = new Date();
     this.description = description;
+    this.workflow = workflow;
   }
 
   // ENCAPSULATION: Public getters for protected fields
@@ -49,31 +56,78 @@ export abstract class ShipmentStatus {
     };
   }
 
-  // ABSTRACTION: Abstract methods for polymorphic behavior
-  
+  /**
+   * Definition of this status in its workflow
+   */
+  protected getDefinition(): StatusDefinition | undefined {
+    return this.workflow.getDefinition(this.statusName);
+  }
+
   /**
    * Get the color associated with this status
+   * The workflow definition decides; the subclass default is used when it has none
+   */
+  public getStatusColor(): string {
+    return this.getDefinition()?.color || this.getDefaultColor();
+  }
+
+  /**
+   * Get the icon for this status, from the workflow definition or the subclass default
+   */
+  public getStatusIcon(): string {
+    return this.getDefinition()?.icon || this.getDefaultIcon();
+  }
+
+  /**
+   * Get the priority level for sorting (lower = higher priority), from the workflow
+   * definition or the subclass default
+   */
+  public getPriority(): number {
+    return this.getDefinition()?.priority ?? this.getDefaultPriority();
+  }
+
+  // ABSTRACTION: Abstract methods for polymorphic behavior
+
+  /**
+   * Color of this status when its workflow does not define one
    * POLYMORPHISM: Each status returns a different color
    */
-  abstract getStatusColor(): string;
+  protected abstract getDefaultColor(): string;
 
   /**
-   * Get the icon for this status
+   * Icon of this status when its workflow does not define one
    * POLYMORPHISM: Each status has a unique icon
    */
-  abstract getStatusIcon(): string;
+  protected abstract getDefaultIcon(): string;
+
+  /**
+   * Priority of this status when its workflow does not define one
+   * POLYMORPHISM: Different statuses have different priorities
+   */
+  protected abstract getDefaultPriority(): number;
 
   /**
    * Check if transition to next status is valid
-   * POLYMORPHISM: Each status has different valid transitions
+   * Transitions are looked up in the workflow this status belongs to
    */
-  abstract canTransitionTo(nextStatus: string): boolean;
+  public canTransitionTo(nextStatus: string): boolean {
+    return this.workflow.canTransition(this.statusName, nextStatus);
+  }
 
   /**
-   * Get the priority level for sorting (lower = higher priority)
-   * POLYMORPHISM: Different statuses have different priorities
+   * Get the statuses this status can move to
    */
-  abstract getPriority(): number;
+  public getAllowedTransitions(): string[] {
+    return this.workflow.getTransitions(this.statusName);
+  }
+
+  /**
+   * Attach this status to a specific workflow
+   */
+  public useWorkflow(workflow: StatusWorkflow): this {
+    this.workflow = workflow;
+    return this;
+  }
 
   /**
    * Serialize status for API responses
@@ -86,6 +140,7 @@ export abstract class ShipmentStatus {
       color: this.getStatusColor(),
       icon: this.getStatusIcon(),
       priority: this.getPriority(),
+      transitions: this.getAllowedTransitions(),
     };
   }
 }
@@ -99,19 +154,15 @@ export class PendingStatus extends ShipmentStatus {
   }
 
   // POLYMORPHISM: Unique implementation for pending status
-  getStatusColor(): string {
+  protected getDefaultColor(): string {
     return 'yellow';
   }
 
-  getStatusIcon(): string {
+  protected getDefaultIcon(): string {
     return '⏳';
   }
 
-  canTransitionTo(nextStatus: string): boolean {
-    return ['departed', 'cancelled'].includes(nextStatus);
-  }
-
-  getPriority(): number {
+  protected getDefaultPriority(): number {
     return 2;
   }
 }
@@ -124,19 +175,15 @@ export class DepartedStatus extends ShipmentStatus {
     super('departed', 'Shipment has departed from origin');
   }
 
-  getStatusColor(): string {
+  protected getDefaultColor(): string {
     return 'blue';
   }
 
-  getStatusIcon(): string {
+  protected getDefaultIcon(): string {
     return '✈️';
   }
 
-  canTransitionTo(nextStatus: string): boolean {
-    return ['in_transit', 'delayed', 'cancelled'].includes(nextStatus);
-  }
-
-  getPriority(): number {
+  protected getDefaultPriority(): number {
     return 3;
   }
 }
@@ -149,19 +196,15 @@ export class InTransitStatus extends ShipmentStatus {
     super('in_transit', 'Shipment is currently in transit');
   }
 
-  getStatusColor(): string {
+  protected getDefaultColor(): string {
     return 'indigo';
   }
 
-  getStatusIcon(): string {
+  protected getDefaultIcon(): string {
     return '🚀';
   }
 
-  canTransitionTo(nextStatus: string): boolean {
-    return ['arrived', 'delayed'].includes(nextStatus);
-  }
-
-  getPriority(): number {
+  protected getDefaultPriority(): number {
     return 4;
   }
 }
@@ -174,20 +217,15 @@ export class ArrivedStatus extends ShipmentStatus {
     super('arrived', 'Shipment has arrived at destination');
   }
 
-  getStatusColor(): string {
+  protected getDefaultColor(): string {
     return 'green';
   }
 
-  getStatusIcon(): string {
+  protected getDefaultIcon(): string {
     return '✅';
   }
 
-  canTransitionTo(_nextStatus: string): boolean {
-    // Terminal status - no further transitions allowed
-    return false;
-  }
-
-  getPriority(): number {
+  protected getDefaultPriority(): number {
     return 5;
   }
 }
@@ -205,19 +243,15 @@ export class DelayedStatus extends ShipmentStatus {
     this.reason = reason;
   }
 
-  getStatusColor(): string {
+  protected getDefaultColor(): string {
     return 'red';
   }
 
-  getStatusIcon(): string {
+  protected getDefaultIcon(): string {
     return '⚠️';
   }
 
-  canTransitionTo(nextStatus: string): boolean {
-    return ['departed', 'in_transit', 'arrived', 'cancelled'].includes(nextStatus);
-  }
-
-  getPriority(): number {
+  protected getDefaultPriority(): number {
     return 1; // Highest priority - delays need attention
   }
 
@@ -246,20 +280,15 @@ export class CancelledStatus extends ShipmentStatus {
     this.cancelReason = reason;
   }
 
-  getStatusColor(): string {
+  protected getDefaultColor(): string {
     return 'gray';
   }
 
-  getStatusIcon(): string {
+  protected getDefaultIcon(): string {
     return '❌';
   }
 
-  canTransitionTo(_nextStatus: string): boolean {
-    // Terminal status - no further transitions
-    return false;
-  }
-
-  getPriority(): number {
+  protected getDefaultPriority(): number {
     return 6;
   }
 
@@ -275,6 +304,53 @@ export class CancelledStatus extends ShipmentStatus {
   }
 }
 
+/**
+ * INHERITANCE & POLYMORPHISM: Status defined by an account workflow
+ * Used for statuses such as customs_hold that have no dedicated subclass
+ */
+export class WorkflowStatus extends ShipmentStatus {
+  private definition: StatusDefinition;
+  private reason?: string;
+
+  constructor(definition: StatusDefinition, workflow: StatusWorkflow, reason?: string) {
+    super(
+      definition.name,
+      reason ? `${definition.description}: ${reason}` : definition.description,
+      workflow
+    );
+    this.definition = definition;
+    this.reason = reason;
+  }
+
+  protected getDefaultColor(): string {
+    return this.definition.color;
+  }
+
+  protected getDefaultIcon(): string {
+    return this.definition.icon;
+  }
+
+  protected getDefaultPriority(): number {
+    return this.definition.priority;
+  }
+
+  public getLabel(): string {
+    return this.definition.label;
+  }
+
+  public getReason(): string | undefined {
+    return this.reason;
+  }
+
+  public toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      label: this.definition.label,
+      ...(this.reason ? { reason: this.reason } : {}),
+    };
+  }
+}
+
 /**
  * FACTORY PATTERN: Creates appropriate ShipmentStatus instances
  * This pattern encapsulates the object creation logic
@@ -284,40 +360,58 @@ export class StatusFactory {
    * Create a ShipmentStatus instance based on status type
    * @param statusType - The type of status to create
    * @param reason - Optional reason for delayed/cancelled statuses
+   * @param workflow - Workflow the status belongs to (defaults to the built-in workflow)
    * @returns Appropriate ShipmentStatus subclass instance
    */
-  static createStatus(statusType: string, reason?: string): ShipmentStatus {
-    switch (statusType.toLowerCase()) {
+  static createStatus(
+    statusType: string,
+    reason?: string,
+    workflow: StatusWorkflow = StatusWorkflow.getDefault()
+  ): ShipmentStatus {
+    const definition = workflow.getDefinition(statusType);
+    if (!definition) {
+      throw new Error(`Unknown status type: ${statusType}`);
+    }
+
+    // Workflows that override a built-in status keep its subclass but use their own
+    // transitions, color, icon and priority
+    switch (definition.name) {
       case 'pending':
-        return new PendingStatus();
+        return new PendingStatus().useWorkflow(workflow);
       case 'departed':
-        return new DepartedStatus();
+        return new DepartedStatus().useWorkflow(workflow);
       case 'in_transit':
-        return new InTransitStatus();
+        return new InTransitStatus().useWorkflow(workflow);
       case 'arrived':
-        return new ArrivedStatus();
+        return new ArrivedStatus().useWorkflow(workflow);
       case 'delayed':
-        return new DelayedStatus(reason);
+        return new DelayedStatus(reason).useWorkflow(workflow);
       case 'cancelled':
-        return new CancelledStatus(reason);
+        return new CancelledStatus(reason).useWorkflow(workflow);
       default:
-        throw new Error(`Unknown status type: ${statusType}`);
+        return new WorkflowStatus(definition, workflow, reason);
     }
   }
 
   /**
    * Get all valid status types
    */
-  static getValidStatuses(): string[] {
-    return ['pending', 'departed', 'in_transit', 'arrived', 'delayed', 'cancelled'];
+  static getValidStatuses(workflow: StatusWorkflow = StatusWorkflow.getDefault()): string[] {
+    return workflow.getStatusNames();
   }
 
   /**
    * Check if a status transition is valid
    */
-  static isValidTransition(currentStatus: string, newStatus: string): boolean {
-    const status = StatusFactory.createStatus(currentStatus);
+  static isValidTransition(
+    currentStatus: string,
+    newStatus: string,
+    workflow: StatusWorkflow = StatusWorkflow.getDefault()
+  ): boolean {
+    if (!workflow.hasStatus(currentStatus) || !workflow.hasStatus(newStatus)) {
+      return false;
+    }
+    const status = StatusFactory.createStatus(currentStatus, undefined, workflow);
     return status.canTransitionTo(newStatus);
   }
 }
-
@@ -0,0 +1,173 @@
+/**
+ * StatusReason.ts - Reason taxonomy for delayed and cancelled shipments
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Code and free text are private and only set after validation
+ * - ABSTRACTION: Callers pick a category; labels and IATA delay codes come from the taxonomy
+ *
+ * Categories follow the groups of the IATA standard delay codes (AHM 730) that
+ * matter for cargo, so reasons can be compared with airline delay reports.
+ */
+
+export const STATUS_REASON_CODES = [
+  'weather',
+  'mechanical',
+  'customs',
+  'capacity',
+  'documentation',
+  'late_acceptance',
+  'ground_handling',
+  'air_traffic',
+  'airport',
+  'security',
+  'customer_request',
+  'other',
+] as const;
+export type StatusReasonCode = typeof STATUS_REASON_CODES[number];
+
+/**
+ * A reason category with the IATA delay codes it covers (null when there is no IATA equivalent)
+ */
+export interface StatusReasonCategory {
+  code: StatusReasonCode;
+  label: string;
+  iata_codes: string | null;
+}
+
+export const STATUS_REASONS: Record<StatusReasonCode, StatusReasonCategory> = {
+  weather: { code: 'weather', label: 'Weather', iata_codes: '71-77' },
+  mechanical: { code: 'mechanical', label: 'Mechanical / technical', iata_codes: '41-48' },
+  customs: { code: 'customs', label: 'Customs / border control', iata_codes: '86' },
+  capacity: { code: 'capacity', label: 'Capacity / offload', iata_codes: '25' },
+  documentation: { code: 'documentation', label: 'Documentation', iata_codes: '21' },
+  late_acceptance: { code: 'late_acceptance', label: 'Late cargo acceptance', iata_codes: '23, 26' },
+  ground_handling: { code: 'ground_handling', label: 'Ground handling', iata_codes: '31-39' },
+  air_traffic: { code: 'air_traffic', label: 'Air traffic control', iata_codes: '81-84' },
+  airport: { code: 'airport', label: 'Airport restrictions', iata_codes: '87-89' },
+  security: { code: 'security', label: 'Security', iata_codes: '85' },
+  customer_request: { code: 'customer_request', label: 'Customer request', iata_codes: null },
+  other: { code: 'other', label: 'Other', iata_codes: null },
+};
+
+const MAX_REASON_TEXT = 500;
+
+/**
+ * A reason as submitted with a status change
+ */
+export interface StatusReasonData {
+  reason_code?: string;
+  reason_text?: string;
+}
+
+/**
+ * ENCAPSULATION: A validated reason for a status change
+ */
+export class StatusReason {
+  private readonly code: StatusReasonCode;
+  private readonly text: string | null;
+
+  /**
+   * @throws Error when the reason is invalid
+   */
+  constructor(data: StatusReasonData) {
+    const errors = StatusReason.validate(data);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    this.code = data.reason_code as StatusReasonCode;
+    this.text = data.reason_text?.trim() || null;
+  }
+
+  /**
+   * Validate a reason
+   * @param required - Whether a reason code must be given (false allows an empty reason)
+   * @returns List of validation errors (empty when valid)
+   */
+  static validate(data: Partial<StatusReasonData>, required: boolean = true): string[] {
+    const errors: string[] = [];
+
+    if (data.reason_code === undefined || data.reason_code === null || data.reason_code === '') {
+      if (required) {
+        errors.push(`Reason code is required; must be one of: ${STATUS_REASON_CODES.join(', ')}`);
+      }
+    } else if (!STATUS_REASON_CODES.includes(data.reason_code as StatusReasonCode)) {
+      errors.push(`Reason code must be one of: ${STATUS_REASON_CODES.join(', ')}`);
+    }
+
+    if (data.reason_text !== undefined && data.reason_text !== null &&
+        (typeof data.reason_text !== 'string' || data.reason_text.trim().length > MAX_REASON_TEXT)) {
+      errors.push(`Reason text must be at most ${MAX_REASON_TEXT} characters`);
+    }
+
+    if (data.reason_code === 'other' && !(typeof data.reason_text === 'string' && data.reason_text.trim())) {
+      errors.push("Reason text is required when the reason code is 'other'");
+    }
+
+    return errors;
+  }
+
+  /**
+   * Build a reason from submitted data, or null when no reason code was given
+   * @throws Error when the reason is invalid
+   */
+  static fromData(data: Partial<StatusReasonData>): StatusReason | null {
+    return data.reason_code ? new StatusReason(data) : null;
+  }
+
+  /**
+   * All reason categories in display order
+   */
+  static getCategories(): StatusReasonCategory[] {
+    return STATUS_REASON_CODES.map(code => STATUS_REASONS[code]);
+  }
+
+  /**
+   * Label of a stored reason code (the code itself when it is no longer in the taxonomy)
+   */
+  static labelOf(code: string): string {
+    return STATUS_REASONS[code as StatusReasonCode]?.label || code;
+  }
+
+  /**
+   * Summarize reason codes as "Weather 3, Customs / border control 1", most frequent first
+   */
+  static summarize(codes: string[]): string {
+    const counts = new Map<string, number>();
+    codes.forEach(code => counts.set(code, (counts.get(code) || 0) + 1));
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([code, count]) => `${StatusReason.labelOf(code)} ${count}`)
+      .join(', ');
+  }
+
+  getCode(): StatusReasonCode {
+    return this.code;
+  }
+
+  getLabel(): string {
+    return STATUS_REASONS[this.code].label;
+  }
+
+  getText(): string | null {
+    return this.text;
+  }
+
+  /**
+   * Readable reason, e.g. "Weather (fog at LHR)"
+   */
+  toString(): string {
+    return this.text ? `${this.getLabel()} (${this.text})` : this.getLabel();
+  }
+
+  /**
+   * Columns stored on the tracking event of the status change
+   */
+  toJSON(): { reason_code: StatusReasonCode; reason_text: string | null } {
+    return {
+      reason_code: this.code,
+      reason_text: this.text,
+    };
+  }
+}
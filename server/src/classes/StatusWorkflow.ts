@@ -0,0 +1,254 @@
+/**
+ * StatusWorkflow.ts - Configurable shipment status workflow
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - ENCAPSULATION: Status definitions are private and exposed through getters
+ * - FACTORY PATTERN: Workflows are built from the default set or from stored definitions
+ *
+ * A workflow is the single source of truth for which statuses exist, how they
+ * are displayed and which transitions between them are allowed. StatusFactory,
+ * request validation and the client status picker are all driven from it.
+ */
+
+/**
+ * Definition of a single status within a workflow
+ */
+export interface StatusDefinition {
+  name: string;
+  label: string;
+  description: string;
+  color: string;
+  icon: string;
+  priority: number;
+  transitions: string[];
+  /** Whether shipments in this status count as active (not finished) */
+  active?: boolean;
+  /** Whether a reason must be supplied when entering this status */
+  requiresReason?: boolean;
+}
+
+/**
+ * Built-in statuses used when an account has not configured its own workflow
+ */
+export const DEFAULT_STATUS_DEFINITIONS: StatusDefinition[] = [
+  {
+    name: 'pending',
+    label: 'Pending',
+    description: 'Shipment awaiting assignment to flight',
+    color: 'yellow',
+    icon: '⏳',
+    priority: 2,
+    transitions: ['departed', 'cancelled'],
+    active: true,
+  },
+  {
+    name: 'departed',
+    label: 'Departed',
+    description: 'Shipment has departed from origin',
+    color: 'blue',
+    icon: '✈️',
+    priority: 3,
+    transitions: ['in_transit', 'delayed', 'cancelled'],
+    active: true,
+  },
+  {
+    name: 'in_transit',
+    label: 'In Transit',
+    description: 'Shipment is currently in transit',
+    color: 'indigo',
+    icon: '🚀',
+    priority: 4,
+    transitions: ['arrived', 'delayed'],
+    active: true,
+  },
+  {
+    name: 'arrived',
+    label: 'Arrived',
+    description: 'Shipment has arrived at destination',
+    color: 'green',
+    icon: '✅',
+    priority: 5,
+    transitions: [],
+  },
+  {
+    name: 'delayed',
+    label: 'Delayed',
+    description: 'Shipment delayed',
+    color: 'red',
+    icon: '⚠️',
+    priority: 1,
+    transitions: ['departed', 'in_transit', 'arrived', 'cancelled'],
+    requiresReason: true,
+  },
+  {
+    name: 'cancelled',
+    label: 'Cancelled',
+    description: 'Shipment cancelled',
+    color: 'gray',
+    icon: '❌',
+    priority: 6,
+    transitions: [],
+    requiresReason: true,
+  },
+];
+
+/**
+ * ENCAPSULATION: Immutable set of status definitions keyed by name
+ */
+export class StatusWorkflow {
+  private static defaultWorkflow: StatusWorkflow | null = null;
+
+  private name: string;
+  private definitions: Map<string, StatusDefinition>;
+  private initialStatus: string;
+
+  constructor(name: string, definitions: StatusDefinition[], initialStatus: string = 'pending') {
+    const errors = StatusWorkflow.validateDefinitions(definitions, initialStatus);
+    if (errors.length > 0) {
+      throw new Error(`Invalid status workflow: ${errors.join('; ')}`);
+    }
+
+    this.name = name;
+    this.initialStatus = initialStatus;
+    this.definitions = new Map(
+      definitions.map(def => [def.name.toLowerCase(), { ...def, name: def.name.toLowerCase() }])
+    );
+  }
+
+  /**
+   * Get the shared default workflow
+   */
+  static getDefault(): StatusWorkflow {
+    if (!StatusWorkflow.defaultWorkflow) {
+      StatusWorkflow.defaultWorkflow = new StatusWorkflow('default', DEFAULT_STATUS_DEFINITIONS);
+    }
+    return StatusWorkflow.defaultWorkflow;
+  }
+
+  /**
+   * Validate a list of status definitions before building a workflow
+   * @returns List of validation errors (empty when valid)
+   */
+  static validateDefinitions(definitions: StatusDefinition[], initialStatus: string = 'pending'): string[] {
+    const errors: string[] = [];
+
+    if (!Array.isArray(definitions) || definitions.length === 0) {
+      return ['Workflow must define at least one status'];
+    }
+
+    const names = new Set<string>();
+    for (const def of definitions) {
+      if (!def || typeof def.name !== 'string' || !/^[a-z][a-z0-9_]*$/i.test(def.name)) {
+        errors.push('Each status must have a name of letters, digits and underscores');
+        continue;
+      }
+      const key = def.name.toLowerCase();
+      if (names.has(key)) {
+        errors.push(`Duplicate status '${key}'`);
+      }
+      names.add(key);
+
+      for (const field of ['label', 'color', 'icon'] as const) {
+        if (typeof def[field] !== 'string' || def[field].trim() === '') {
+          errors.push(`Status '${key}' ${field} must be text`);
+        }
+      }
+      if (typeof def.priority !== 'number' || isNaN(def.priority)) {
+        errors.push(`Status '${key}' must have a numeric priority`);
+      }
+      if (!Array.isArray(def.transitions)) {
+        errors.push(`Status '${key}' must list its transitions`);
+      }
+    }
+
+    for (const def of definitions) {
+      if (!def || !Array.isArray(def.transitions)) continue;
+      for (const target of def.transitions) {
+        if (!names.has(String(target).toLowerCase())) {
+          errors.push(`Status '${def.name}' transitions to unknown status '${target}'`);
+        }
+      }
+    }
+
+    if (typeof initialStatus !== 'string') {
+      errors.push('Initial status must be a status name');
+    } else if (!names.has(initialStatus.toLowerCase())) {
+      errors.push(`Initial status '${initialStatus}' is not defined`);
+    }
+
+    return errors;
+  }
+
+  public getName(): string {
+    return this.name;
+  }
+
+  public getInitialStatus(): string {
+    return this.initialStatus;
+  }
+
+  /**
+   * Get all status names in definition order
+   */
+  public getStatusNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Get statuses that count as active (shipment still moving)
+   */
+  public getActiveStatusNames(): string[] {
+    return this.getDefinitions().filter(def => def.active).map(def => def.name);
+  }
+
+  public getDefinitions(): StatusDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  public getDefinition(status: string): StatusDefinition | undefined {
+    return this.definitions.get(status.toLowerCase());
+  }
+
+  public hasStatus(status: string): boolean {
+    return this.definitions.has(status.toLowerCase());
+  }
+
+  /**
+   * Get the statuses reachable from the given status
+   */
+  public getTransitions(status: string): string[] {
+    return this.getDefinition(status)?.transitions.map(t => t.toLowerCase()) || [];
+  }
+
+  /**
+   * Check whether moving from one status to another is allowed
+   */
+  public canTransition(from: string, to: string): boolean {
+    return this.getTransitions(from).includes(to.toLowerCase());
+  }
+
+  /**
+   * Check whether a reason must be given when a shipment enters the status
+   */
+  public requiresReason(status: string): boolean {
+    return this.getDefinition(status)?.requiresReason === true;
+  }
+
+  /**
+   * Check whether a status has no outgoing transitions
+   */
+  public isTerminal(status: string): boolean {
+    return this.getTransitions(status).length === 0;
+  }
+
+  /**
+   * Serialize for API responses and storage
+   */
+  public toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      initialStatus: this.initialStatus,
+      statuses: this.getDefinitions(),
+    };
+  }
+}
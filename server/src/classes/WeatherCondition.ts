@@ -18,13 +18,13 @@ export type ImpactLevel = 'none' | 'low' | 'medium' | 'high' | 'critical';
  */
 export abstract class WeatherCondition {
   // ENCAPSULATION: Protected fields for weather data
-  protected temperature: number;
+  protected temperature: number | null;
   protected description: string;
   protected windSpeed: number;
-  protected humidity: number;
+  protected humidity: number | null;
   protected timestamp: Date;
 
-  constructor(temp: number, desc: string, wind: number, humidity: number = 50) {
+  constructor(temp: number | null, desc: string, wind: number, humidity: number | null = 50) {
     this.temperature = temp;
     this.description = desc;
     this.windSpeed = wind;
@@ -34,7 +34,10 @@ export abstract class WeatherCondition {
 
   // ENCAPSULATION: Public getters
 
-  public getTemperature(): number {
+  /**
+   * Temperature in °C, null when the report gave none
+   */
+  public getTemperature(): number | null {
     return this.temperature;
   }
 
@@ -46,15 +49,27 @@ export abstract class WeatherCondition {
     return this.windSpeed;
   }
 
-  public getHumidity(): number {
+  public getHumidity(): number | null {
     return this.humidity;
   }
 
+  /**
+   * Time the conditions apply to: when they were fetched, or the slot of a forecast
+   */
+  public getTimestamp(): Date {
+    return this.timestamp;
+  }
+
+  public setTimestamp(time: Date): void {
+    this.timestamp = time;
+  }
+
   /**
    * Get a summary of weather conditions
    */
   public getConditionSummary(): string {
-    return `${this.description}, ${this.temperature}°C, Wind: ${this.windSpeed} m/s`;
+    const temperature = this.temperature === null ? '' : `, ${this.temperature}°C`;
+    return `${this.description}${temperature}, Wind: ${this.windSpeed} m/s`;
   }
 
   // ABSTRACTION: Abstract methods for polymorphic behavior
@@ -104,7 +119,7 @@ export abstract class WeatherCondition {
  * INHERITANCE & POLYMORPHISM: Clear weather - minimal flight impact
  */
 export class ClearWeather extends WeatherCondition {
-  constructor(temp: number, wind: number, humidity: number = 50) {
+  constructor(temp: number | null, wind: number, humidity: number | null = 50) {
     super(temp, 'Clear skies', wind, humidity);
   }
 
@@ -134,7 +149,7 @@ export class ClearWeather extends WeatherCondition {
 export class CloudyWeather extends WeatherCondition {
   private cloudCoverage: number; // percentage
 
-  constructor(temp: number, wind: number, humidity: number, cloudCoverage: number) {
+  constructor(temp: number | null, wind: number, humidity: number | null, cloudCoverage: number) {
     super(temp, 'Cloudy conditions', wind, humidity);
     this.cloudCoverage = cloudCoverage;
   }
@@ -168,7 +183,7 @@ export class CloudyWeather extends WeatherCondition {
 export class RainWeather extends WeatherCondition {
   private intensity: 'light' | 'moderate' | 'heavy';
 
-  constructor(temp: number, wind: number, humidity: number, intensity: 'light' | 'moderate' | 'heavy') {
+  constructor(temp: number | null, wind: number, humidity: number | null, intensity: 'light' | 'moderate' | 'heavy') {
     super(temp, `${intensity.charAt(0).toUpperCase() + intensity.slice(1)} rain`, wind, humidity);
     this.intensity = intensity;
   }
@@ -206,9 +221,9 @@ export class StormWeather extends WeatherCondition {
   private hasLightning: boolean;
 
   constructor(
-    temp: number,
+    temp: number | null,
     wind: number,
-    humidity: number,
+    humidity: number | null,
     severity: 'light' | 'moderate' | 'severe',
     hasLightning: boolean = false
   ) {
@@ -252,7 +267,7 @@ export class StormWeather extends WeatherCondition {
 export class FogWeather extends WeatherCondition {
   private visibility: number; // in meters
 
-  constructor(temp: number, wind: number, humidity: number, visibility: number) {
+  constructor(temp: number | null, wind: number, humidity: number | null, visibility: number) {
     super(temp, 'Foggy conditions', wind, humidity);
     this.visibility = visibility;
   }
@@ -294,9 +309,9 @@ export class SnowWeather extends WeatherCondition {
   private accumulation: number; // cm per hour
 
   constructor(
-    temp: number,
+    temp: number | null,
     wind: number,
-    humidity: number,
+    humidity: number | null,
     intensity: 'light' | 'moderate' | 'heavy',
     accumulation: number = 0
   ) {
@@ -0,0 +1,95 @@
+/**
+ * WeatherForecast.ts - Forecast slots of a location and the slot nearest a given time
+ *
+ * ACADEMIC REQUIREMENTS DEMONSTRATED:
+ * - COMPOSITION: A forecast is an ordered list of WeatherCondition objects
+ * - ENCAPSULATION: Slots are kept private and looked up by time
+ *
+ * The OpenWeatherMap forecast has a slot every 3 hours for 5 days. A shipment
+ * arriving in 30 hours is rated by the slot closest to its ETA instead of the
+ * weather right now; times outside the forecast have no slot.
+ */
+
+import { WeatherCondition, WeatherFactory } from './WeatherCondition';
+
+/** Hours between two forecast slots */
+export const FORECAST_SLOT_HOURS = 3;
+/** Days ahead covered by the forecast */
+export const FORECAST_DAYS = 5;
+
+/**
+ * One slot of the forecast API response
+ */
+export interface ForecastSlotData {
+  /** Start of the slot (Unix time, seconds) */
+  dt: number;
+  main: { temp: number; humidity: number };
+  weather: Array<{ id: number; main: string; description: string }>;
+  wind: { speed: number };
+  clouds?: { all: number };
+  visibility?: number;
+}
+
+/**
+ * ENCAPSULATION: Forecast conditions ordered by time
+ */
+export class WeatherForecast {
+  private readonly slots: WeatherCondition[];
+
+  constructor(slots: WeatherCondition[]) {
+    this.slots = [...slots].sort((a, b) => a.getTimestamp().getTime() - b.getTimestamp().getTime());
+  }
+
+  /**
+   * FACTORY: Build the forecast from the API's list of slots
+   */
+  static fromApiData(list: ForecastSlotData[]): WeatherForecast {
+    return new WeatherForecast(list.map(slot => {
+      const condition = WeatherFactory.createFromApiData({
+        temp: slot.main.temp,
+        wind_speed: slot.wind.speed,
+        humidity: slot.main.humidity,
+        visibility: slot.visibility,
+        clouds: slot.clouds?.all,
+        weather: slot.weather,
+      });
+      condition.setTimestamp(new Date(slot.dt * 1000));
+      return condition;
+    }));
+  }
+
+  /**
+   * Whether a forecast fetched now can cover a time, so it is not fetched in vain
+   */
+  static covers(time: Date, now: Date = new Date()): boolean {
+    const margin = (FORECAST_SLOT_HOURS / 2) * 3600000;
+    const offset = time.getTime() - now.getTime();
+    return offset >= -margin && offset <= FORECAST_DAYS * 24 * 3600000 + margin;
+  }
+
+  public getSlots(): WeatherCondition[] {
+    return [...this.slots];
+  }
+
+  public isEmpty(): boolean {
+    return this.slots.length === 0;
+  }
+
+  /**
+   * Slot closest to a time
+   * @returns Null when the time is more than half a slot before the first or after the last slot
+   */
+  public nearest(time: Date): WeatherCondition | null {
+    if (this.slots.length === 0 || isNaN(time.getTime())) return null;
+
+    const target = time.getTime();
+    const margin = (FORECAST_SLOT_HOURS / 2) * 3600000;
+    const first = this.slots[0].getTimestamp().getTime();
+    const last = this.slots[this.slots.length - 1].getTimestamp().getTime();
+    if (target < first - margin || target > last + margin) return null;
+
+    return this.slots.reduce((best, slot) =>
+      Math.abs(slot.getTimestamp().getTime() - target) < Math.abs(best.getTimestamp().getTime() - target) ? slot : best
+    );
+  }
+}
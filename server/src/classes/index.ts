@@ -21,8 +21,15 @@ export {
   ArrivedStatus,
   DelayedStatus,
   CancelledStatus,
+  WorkflowStatus,
   StatusFactory,
 } from './ShipmentStatus';
+export { StatusWorkflow, DEFAULT_STATUS_DEFINITIONS } from './StatusWorkflow';
+export type { StatusDefinition } from './StatusWorkflow';
+
+// Multi-leg routing
+export { ShipmentRoute } from './ShipmentRoute';
+export type { RouteLeg } from './ShipmentRoute';
 
 // Weather condition hierarchy
 export {
@@ -48,3 +55,162 @@ export {
 } from './Report';
 export type { ReportColumn, ReportConfig } from './Report';
 
+
+// Bulk import parsing
+export { ShipmentImportParser, MAX_IMPORT_ROWS } from './ShipmentImport';
+export type { ImportFormat, ImportRow } from './ShipmentImport';
+
+// Air waybill numbers
+export { AirWaybill } from './AirWaybill';
+export type { AwbStockRange } from './AirWaybill';
+
+// Piece dimensions and chargeable weight
+export {
+  CargoPiece,
+  VOLUMETRIC_DIVISOR,
+  MAX_PIECE_LINES,
+  MAX_DIMENSION_CM,
+  PACKAGING_TYPES,
+} from './CargoPiece';
+export type { PackagingType, PieceData, WeightSummary } from './CargoPiece';
+
+// Rate cards and quoting
+export { RateCard, WEIGHT_BREAKS, ANY_LOCATION } from './RateCard';
+export type { WeightBreak, RateCardRates, RateCardData, QuoteBreakdown } from './RateCard';
+
+// Organization roles and permissions
+export { AccessPolicy, ROLES, PERMISSIONS } from './AccessPolicy';
+export type { Role, Permission, MemberRole } from './AccessPolicy';
+
+// Shipment document uploads
+export {
+  ShipmentDocument,
+  DOCUMENT_TYPES,
+  ALLOWED_CONTENT_TYPES,
+  MAX_DOCUMENT_BYTES,
+  MAX_DOCUMENTS_PER_SHIPMENT,
+} from './ShipmentDocument';
+export type { DocumentType, DocumentUpload } from './ShipmentDocument';
+
+// Proof of delivery
+export {
+  ProofOfDelivery,
+  DELIVERY_CONDITIONS,
+  MAX_SIGNATURE_BYTES,
+  MAX_DELIVERY_PHOTOS,
+  MAX_PHOTO_BYTES,
+} from './ProofOfDelivery';
+export type { DeliveryCondition, DeliveryData, DeliveryImage, DeliveryReceipt } from './ProofOfDelivery';
+
+// Dangerous goods declarations
+export {
+  DangerousGoodsItem,
+  DangerousGoodsDeclaration,
+  DANGEROUS_GOODS_TABLE,
+  PACKING_GROUPS,
+  MAX_DANGEROUS_GOODS_LINES,
+} from './DangerousGoods';
+export type {
+  PackingGroup,
+  DangerousGoodsReference,
+  DangerousGoodsItemData,
+  DangerousGoodsCheck,
+} from './DangerousGoods';
+
+// Cold chain
+export {
+  TemperatureRange,
+  TemperatureReading,
+  TEMPERATURE_EXCURSION_IMPACT,
+  MIN_RANGE_C,
+  MAX_RANGE_C,
+} from './ColdChain';
+export type {
+  TemperatureSource,
+  TemperatureRangeData,
+  TemperatureReadingData,
+  TemperatureExcursion,
+} from './ColdChain';
+
+// Customs clearance
+export {
+  CustomsStep,
+  CustomsClearance,
+  CUSTOMS_STATUSES,
+  CUSTOMS_STATUS_LABELS,
+} from './CustomsClearance';
+export type { CustomsStatus, CustomsStepData, CustomsStepRecord } from './CustomsClearance';
+
+// Delay and cancellation reasons
+export { StatusReason, STATUS_REASON_CODES, STATUS_REASONS } from './StatusReason';
+export type { StatusReasonCode, StatusReasonCategory, StatusReasonData } from './StatusReason';
+
+// Service level agreements
+export {
+  SlaTarget,
+  SlaEvaluation,
+  SERVICE_LEVELS,
+  DEFAULT_SERVICE_LEVEL,
+  SLA_STATUSES,
+  DEFAULT_AT_RISK_HOURS,
+  ESCALATION_STEPS,
+} from './ServiceLevel';
+export type {
+  ServiceLevel,
+  SlaStatus,
+  SlaTargetData,
+  SlaEvaluationInput,
+  EscalationStep,
+} from './ServiceLevel';
+
+// Background jobs
+export { ScheduledJob, JobRun, JOB_RUN_STATUSES } from './ScheduledJob';
+export type { JobRunStatus, ScheduledJobData, JobLease } from './ScheduledJob';
+
+// Status progression from flight data
+export {
+  FlightProgress,
+  AUTO_STATUS_MODES,
+  DEFAULT_AUTO_STATUS_MODE,
+  FLIGHT_PHASES,
+  PROGRESSION_STEPS,
+  CRUISE_MIN_ALTITUDE_M,
+  CRUISE_MAX_VERTICAL_RATE_MS,
+  ARRIVAL_RADIUS_KM,
+} from './FlightProgress';
+export type { AutoStatusMode, FlightPhase, ProgressionStep } from './FlightProgress';
+
+// Flight position history
+export { FlightTrack, MAX_TRACK_POINTS } from './FlightTrack';
+export type { TrackPoint, TrackPointData } from './FlightTrack';
+
+// Airport reference data
+export { Airport, AIRPORTS, MAX_AIRPORT_RESULTS, NEAREST_AIRPORT_MAX_KM } from './Airport';
+export type { AirportData } from './Airport';
+
+// Great-circle route sampling
+export {
+  GreatCircleRoute,
+  EARTH_RADIUS_KM,
+  ROUTE_SAMPLE_SPACING_KM,
+  MIN_ROUTE_SAMPLES,
+  MAX_ROUTE_SAMPLES,
+  CRUISE_SPEED_KMH,
+} from './GreatCircleRoute';
+export type { GeoPoint, RouteSample, SegmentImpact, RouteImpactSummary } from './GreatCircleRoute';
+
+// Weather forecasts
+export { WeatherForecast, FORECAST_SLOT_HOURS, FORECAST_DAYS } from './WeatherForecast';
+export type { ForecastSlotData } from './WeatherForecast';
+
+// API response caching
+export { RequestCache, mapWithConcurrency, COORDINATE_KEY_DECIMALS } from './RequestCache';
+
+// METAR/TAF decoding
+export {
+  Metar,
+  Taf,
+  KNOTS_TO_MS,
+  IFR_CEILING_FT,
+} from './AviationWeather';
+export type { Wind, CloudLayer, CloudCover, PresentWeather, ReportedConditions, TafPeriod, Intensity } from './AviationWeather';
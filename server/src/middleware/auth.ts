@@ -3,8 +3,11 @@
  * Verifies JWT tokens and attaches user info to requests
  */
 
+import { timingSafeEqual } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { createAuthenticatedClient, supabase } from '../config/supabase';
+import { AccessPolicy, Permission, Role } from '../classes/AccessPolicy';
+import { organizationService } from '../services/organizationService';
 
 /**
  * Extended Request interface with user information
@@ -13,7 +16,9 @@ export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     email: string;
-    role?: string;
+    /** Role within the organization */
+    role: Role;
+    organizationId: string;
   };
   supabase?: ReturnType<typeof createAuthenticatedClient>;
 }
@@ -45,11 +50,14 @@ export async function requireAuth(
       return;
     }
 
-    // Attach user info to request
+    // Attach user info, with the organization the user works in, to request
+    const email = user.email || '';
+    const membership = await organizationService.getMembership({ id: user.id, email });
     req.user = {
       id: user.id,
-      email: user.email || '',
-      role: user.role,
+      email,
+      role: membership.role,
+      organizationId: membership.organization_id,
     };
 
     // Create authenticated Supabase client for this request
@@ -78,10 +86,13 @@ export async function optionalAuth(
       const { data: { user } } = await supabase.auth.getUser(token);
 
       if (user) {
+        const email = user.email || '';
+        const membership = await organizationService.getMembership({ id: user.id, email });
         req.user = {
           id: user.id,
-          email: user.email || '',
-          role: user.role,
+          email,
+          role: membership.role,
+          organizationId: membership.organization_id,
         };
         req.supabase = createAuthenticatedClient(token);
       }
@@ -94,3 +105,50 @@ export async function optionalAuth(
   }
 }
 
+/**
+ * Middleware allowing only members whose role grants a permission
+ * Must run after requireAuth
+ */
+export function requirePermission(permission: Permission) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!req.user || !new AccessPolicy(req.user.role).can(permission)) {
+      res.status(403).json({ error: `Your role does not allow this action (${permission})` });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Middleware allowing only platform operators, the users whose email is listed in
+ * OPERATOR_EMAILS (comma-separated); for system-wide data such as background jobs,
+ * which no organization role may see. Must run after requireAuth
+ */
+export function requireOperator(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+  const operators = (process.env.OPERATOR_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!req.user?.email || !operators.includes(req.user.email.toLowerCase())) {
+    res.status(403).json({ error: 'Only platform operators can access this' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Middleware allowing only the host's scheduler (e.g. Vercel Cron), which sends
+ * CRON_SECRET as a bearer token; refuses every request while CRON_SECRET is unset
+ */
+export function requireCronSecret(req: Request, res: Response, next: NextFunction): void {
+  const secret = process.env.CRON_SECRET || '';
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(req.headers.authorization || '');
+
+  if (!secret || received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    res.status(401).json({ error: 'Invalid cron secret' });
+    return;
+  }
+  next();
+}
@@ -57,6 +57,15 @@ export class BadRequestError extends ApiError {
   }
 }
 
+/**
+ * Too Many Requests error
+ */
+export class TooManyRequestsError extends ApiError {
+  constructor(message: string = 'Too many requests, please try again later') {
+    super(message, 429);
+  }
+}
+
 /**
  * Global error handler middleware
  */
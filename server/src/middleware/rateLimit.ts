@@ -0,0 +1,99 @@
+/**
+ * Rate Limit Middleware
+ * Fixed-window request limits per client address for public endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { TooManyRequestsError } from './errorHandler';
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Counts hits per key within a fixed time window
+ * Counters are kept in memory, so limits apply per server instance
+ */
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+  private nextPruneAt = 0;
+
+  constructor(private windowMs: number, private max: number) {}
+
+  /**
+   * Count a hit for a key
+   * @returns Seconds until the key may retry when the limit is exceeded, otherwise 0
+   */
+  hit(key: string): number {
+    const now = Date.now();
+    this.prune(now);
+
+    const window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      this.windows.set(key, { count: 1, resetAt: now + this.windowMs });
+      return 0;
+    }
+
+    window.count++;
+    return window.count > this.max ? Math.ceil((window.resetAt - now) / 1000) : 0;
+  }
+
+  /**
+   * Seconds until a key may retry, without counting a hit (0 when not limited)
+   */
+  retryAfter(key: string): number {
+    const window = this.windows.get(key);
+    const now = Date.now();
+    if (!window || window.resetAt <= now || window.count < this.max) {
+      return 0;
+    }
+    return Math.ceil((window.resetAt - now) / 1000);
+  }
+
+  /**
+   * Drop expired windows at most once per window length
+   */
+  private prune(now: number): void {
+    if (now < this.nextPruneAt) return;
+    this.nextPruneAt = now + this.windowMs;
+
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Client address used as the rate limit key
+ */
+export function clientKey(req: Request): string {
+  return req.ip || req.socket.remoteAddress || 'unknown';
+}
+
+/**
+ * Reject a request with 429 and a Retry-After header
+ */
+export function rejectTooManyRequests(res: Response, retryAfterSeconds: number, message?: string): never {
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  throw new TooManyRequestsError(message);
+}
+
+/**
+ * Express middleware allowing at most `max` requests per client within `windowMs`
+ */
+export function rateLimit(windowMs: number, max: number) {
+  const limiter = new RateLimiter(windowMs, max);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const retryAfter = limiter.hit(clientKey(req));
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      next(new TooManyRequestsError());
+      return;
+    }
+    next();
+  };
+}
@@ -4,7 +4,42 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { ValidationResult, CreateShipmentRequest, SearchCriteria } from '../types';
+import {
+  ValidationResult,
+  CreateShipmentRequest,
+  CreateShipmentLegRequest,
+  UpdateShipmentRequest,
+  SearchCriteria,
+  BulkActionRequest,
+  CreateQuoteRequest,
+} from '../types';
+import { StatusFactory } from '../classes/ShipmentStatus';
+import { ShipmentRoute } from '../classes/ShipmentRoute';
+import { AirWaybill } from '../classes/AirWaybill';
+import { CargoPiece, PieceData, MAX_PIECE_LINES } from '../classes/CargoPiece';
+import { RateCard, RateCardData } from '../classes/RateCard';
+import {
+  DangerousGoodsItem,
+  DangerousGoodsItemData,
+  DangerousGoodsDeclaration,
+  MAX_DANGEROUS_GOODS_LINES,
+} from '../classes/DangerousGoods';
+import { TemperatureRange } from '../classes/ColdChain';
+import { StatusReason, StatusReasonData } from '../classes/StatusReason';
+import { StatusWorkflow } from '../classes/StatusWorkflow';
+import { SERVICE_LEVELS, ServiceLevel, SlaTarget, SlaTargetData } from '../classes/ServiceLevel';
+import { Airport } from '../classes/Airport';
+import { AuthenticatedRequest } from './auth';
+import { workflowService } from '../services/workflowService';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const VALID_CARGO_TYPES = ['general', 'fragile', 'hazardous', 'perishable', 'valuable', 'documents'];
+
+/** Fields that may be changed through a bulk field update */
+export const BULK_UPDATABLE_FIELDS = ['cargo_type', 'weight_kg', 'estimated_arrival'];
+
+export const MAX_BULK_IDS = 200;
 
 /**
  * ShipmentValidator - validates shipment data
@@ -67,10 +102,438 @@ export class ShipmentValidator {
       }
     }
 
+    errors.push(...ShipmentValidator.validateAirportCode(data.origin_iata, 'Origin'));
+    errors.push(...ShipmentValidator.validateAirportCode(data.dest_iata, 'Destination'));
+    if (data.origin_iata && data.dest_iata &&
+        Airport.findByCode(data.origin_iata) === Airport.findByCode(data.dest_iata)) {
+      errors.push('Origin and destination airports cannot be the same');
+    }
+
     // Cargo type validation
-    const validCargoTypes = ['general', 'fragile', 'hazardous', 'perishable', 'valuable', 'documents'];
-    if (data.cargo_type && !validCargoTypes.includes(data.cargo_type.toLowerCase())) {
-      errors.push(`Cargo type must be one of: ${validCargoTypes.join(', ')}`);
+    if (data.cargo_type && !VALID_CARGO_TYPES.includes(data.cargo_type.toLowerCase())) {
+      errors.push(`Cargo type must be one of: ${VALID_CARGO_TYPES.join(', ')}`);
+    }
+
+    // AWB validation - either a known number or an airline to allocate from
+    if (data.awb_number) {
+      errors.push(...AirWaybill.validate(data.awb_number));
+      if (data.awb_prefix) {
+        errors.push('Provide either an AWB number or an airline prefix to allocate from, not both');
+      }
+    } else if (data.awb_prefix && !/^\d{3}$/.test(data.awb_prefix)) {
+      errors.push('Airline prefix must be 3 digits');
+    }
+
+    if (data.tracking_pin) {
+      errors.push(...ShipmentValidator.validateTrackingPin(data.tracking_pin));
+    }
+
+    if (data.service_level !== undefined) {
+      errors.push(...ShipmentValidator.validateServiceLevel(data.service_level));
+    }
+
+    // Piece validation - the piece weights replace the declared weight
+    if (data.pieces !== undefined) {
+      errors.push(...ShipmentValidator.validatePieces(data.pieces).errors);
+    }
+
+    // Dangerous goods - hazardous cargo needs a declaration that passes the acceptance checks
+    const hazardous = data.cargo_type?.toLowerCase() === 'hazardous';
+    const declared = Array.isArray(data.dangerous_goods) ? data.dangerous_goods.length > 0 : data.dangerous_goods !== undefined;
+    if (declared && !hazardous) {
+      errors.push('Dangerous goods can only be declared for hazardous cargo');
+    } else if (hazardous && !declared) {
+      errors.push('Hazardous cargo requires a dangerous goods declaration');
+    } else if (hazardous) {
+      const result = ShipmentValidator.validateDangerousGoods(data.dangerous_goods!);
+      errors.push(...result.errors);
+      if (result.isValid) {
+        const declaration = new DangerousGoodsDeclaration(
+          data.dangerous_goods!.map(item => new DangerousGoodsItem(item))
+        );
+        errors.push(...declaration.check().issues.map(issue => `Dangerous goods ${issue.charAt(0).toLowerCase()}${issue.slice(1)}`));
+      }
+    }
+
+    // Cold chain - perishable cargo needs the temperature range it must be kept in
+    errors.push(...ShipmentValidator.validateColdChain(data).errors);
+
+    // Leg validation - legs must run from the shipment origin to its destination
+    if (data.legs !== undefined) {
+      const legResult = ShipmentValidator.validateLegs(data.legs);
+      errors.push(...legResult.errors);
+
+      if (legResult.isValid && data.legs.length > 0 && data.origin && data.destination) {
+        const first = data.legs[0];
+        const last = data.legs[data.legs.length - 1];
+        if (first.origin.trim().toLowerCase() !== data.origin.trim().toLowerCase()) {
+          errors.push('First leg must start at the shipment origin');
+        }
+        if (last.destination.trim().toLowerCase() !== data.destination.trim().toLowerCase()) {
+          errors.push('Last leg must end at the shipment destination');
+        }
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate field changes applied to existing shipments
+   */
+  static validateUpdate(data: Partial<UpdateShipmentRequest>): ValidationResult {
+    const errors: string[] = [];
+
+    if (data.origin !== undefined && (typeof data.origin !== 'string' || data.origin.trim().length < 2)) {
+      errors.push('Origin must be at least 2 characters');
+    }
+
+    if (data.destination !== undefined &&
+        (typeof data.destination !== 'string' || data.destination.trim().length < 2)) {
+      errors.push('Destination must be at least 2 characters');
+    }
+
+    if (data.weight_kg !== undefined && data.weight_kg !== null) {
+      if (typeof data.weight_kg !== 'number' || data.weight_kg <= 0) {
+        errors.push('Weight must be a positive number');
+      } else if (data.weight_kg > 100000) {
+        errors.push('Weight exceeds maximum allowed (100,000 kg)');
+      }
+    }
+
+    // Values arrive as any JSON type, so text fields are type-checked before use
+    if (data.cargo_type && (typeof data.cargo_type !== 'string' ||
+        !VALID_CARGO_TYPES.includes(data.cargo_type.toLowerCase()))) {
+      errors.push(`Cargo type must be one of: ${VALID_CARGO_TYPES.join(', ')}`);
+    }
+
+    if (data.status !== undefined && (typeof data.status !== 'string' || data.status === '')) {
+      errors.push('Status must be a status name');
+    }
+
+    if (data.estimated_arrival && (typeof data.estimated_arrival !== 'string' ||
+        isNaN(new Date(data.estimated_arrival).getTime()))) {
+      errors.push('Estimated arrival must be a valid date');
+    }
+
+    errors.push(...ShipmentValidator.validateAirportCode(data.origin_iata, 'Origin'));
+    errors.push(...ShipmentValidator.validateAirportCode(data.dest_iata, 'Destination'));
+
+    if (data.awb_number) {
+      errors.push(...(typeof data.awb_number === 'string'
+        ? AirWaybill.validate(data.awb_number)
+        : ['AWB number must be 11 digits (3-digit airline prefix and 8-digit serial)']));
+    }
+
+    if (data.tracking_pin) {
+      errors.push(...ShipmentValidator.validateTrackingPin(data.tracking_pin));
+    }
+
+    if (data.service_level !== undefined) {
+      errors.push(...ShipmentValidator.validateServiceLevel(data.service_level));
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate an airport code; empty values are allowed (no airport)
+   * @param label - Origin or Destination
+   */
+  static validateAirportCode(code: unknown, label: string): string[] {
+    if (code === undefined || code === null || code === '') return [];
+    if (typeof code !== 'string' || !Airport.findByCode(code)) {
+      return [`${label} airport must be an IATA or ICAO code from the airport reference table`];
+    }
+    return [];
+  }
+
+  /**
+   * Normalize a public tracking PIN or postcode for comparison ("sw1a 1aa" → "SW1A1AA")
+   */
+  static normalizeTrackingPin(pin: string): string {
+    return String(pin || '').replace(/[\s-]/g, '').toUpperCase();
+  }
+
+  /**
+   * Validate the PIN or postcode customers must give to track a shipment publicly
+   */
+  static validateTrackingPin(pin: unknown): string[] {
+    if (typeof pin !== 'string' || !/^[A-Z0-9]{4,10}$/.test(ShipmentValidator.normalizeTrackingPin(pin))) {
+      return ['Tracking PIN must be 4-10 letters or digits'];
+    }
+    return [];
+  }
+
+  /**
+   * Validate the service level a shipment is booked at
+   */
+  static validateServiceLevel(level: unknown): string[] {
+    if (typeof level !== 'string' || !SERVICE_LEVELS.includes(level.toLowerCase() as ServiceLevel)) {
+      return [`Service level must be one of: ${SERVICE_LEVELS.join(', ')}`];
+    }
+    return [];
+  }
+
+  /**
+   * Validate a bulk action request
+   */
+  static validateBulkAction(data: Partial<BulkActionRequest>): ValidationResult {
+    const errors: string[] = [];
+
+    if (!Array.isArray(data.ids) || data.ids.length === 0) {
+      errors.push('At least one shipment ID is required');
+    } else {
+      if (data.ids.length > MAX_BULK_IDS) {
+        errors.push(`A bulk action cannot include more than ${MAX_BULK_IDS} shipments`);
+      }
+      if (data.ids.some(id => typeof id !== 'string' || !UUID_REGEX.test(id))) {
+        errors.push('All shipment IDs must be valid UUIDs');
+      }
+    }
+
+    switch (data.action) {
+      case 'status':
+        if (!data.status) {
+          errors.push('Status is required for a status change');
+        } else if (typeof data.status !== 'string') {
+          errors.push('Status must be a status name');
+        }
+        // Whether a reason is required depends on the workflow and is checked by the route
+        errors.push(...StatusReason.validate(data, false));
+        break;
+      case 'update': {
+        const fields = Object.keys(data.updates || {});
+        if (fields.length === 0) {
+          errors.push('At least one field is required for an update');
+        }
+        const invalid = fields.filter(field => !BULK_UPDATABLE_FIELDS.includes(field));
+        if (invalid.length > 0) {
+          errors.push(`Fields cannot be bulk updated: ${invalid.join(', ')}`);
+        }
+        errors.push(...ShipmentValidator.validateUpdate(data.updates || {}).errors);
+        break;
+      }
+      case 'delete':
+        break;
+      default:
+        errors.push("Action must be one of: status, update, delete");
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate the ordered legs of a multi-leg shipment
+   */
+  static validateLegs(legs: Partial<CreateShipmentLegRequest>[]): ValidationResult {
+    if (!Array.isArray(legs)) {
+      return { isValid: false, errors: ['Legs must be an array'] };
+    }
+
+    if (legs.length > 10) {
+      return { isValid: false, errors: ['A shipment cannot have more than 10 legs'] };
+    }
+
+    const invalid = legs.findIndex(leg => typeof leg !== 'object' || leg === null || Array.isArray(leg));
+    if (invalid !== -1) {
+      return { isValid: false, errors: [`Leg ${invalid + 1}: must be an object`] };
+    }
+
+    const route = new ShipmentRoute(legs.map((leg, index) => ({
+      sequence: index + 1,
+      origin: leg.origin || '',
+      destination: leg.destination || '',
+      status: 'pending',
+      planned_departure: leg.planned_departure,
+      planned_arrival: leg.planned_arrival,
+    })));
+    const errors = route.validate();
+
+    legs.forEach((leg, index) => {
+      for (const date of [leg.planned_departure, leg.planned_arrival]) {
+        if (date && isNaN(new Date(date).getTime())) {
+          errors.push(`Leg ${index + 1}: invalid date '${date}'`);
+        }
+      }
+    });
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate the piece lines of a shipment
+   */
+  static validatePieces(pieces: Partial<PieceData>[]): ValidationResult {
+    if (!Array.isArray(pieces)) {
+      return { isValid: false, errors: ['Pieces must be an array'] };
+    }
+
+    if (pieces.length > MAX_PIECE_LINES) {
+      return { isValid: false, errors: [`A shipment cannot have more than ${MAX_PIECE_LINES} piece lines`] };
+    }
+
+    const errors: string[] = [];
+    pieces.forEach((piece, index) => {
+      CargoPiece.validate(piece || {}).forEach(error => errors.push(`Piece ${index + 1}: ${error}`));
+    });
+
+    if (errors.length === 0) {
+      const summary = CargoPiece.summarize(pieces.map(piece => new CargoPiece(piece as PieceData)));
+      if ((summary.weight_kg || 0) > 100000) {
+        errors.push('Total piece weight exceeds maximum allowed (100,000 kg)');
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate the format of dangerous goods lines
+   * Acceptance (reference table, limits, segregation) is checked by DangerousGoodsDeclaration
+   */
+  static validateDangerousGoods(items: Partial<DangerousGoodsItemData>[]): ValidationResult {
+    if (!Array.isArray(items)) {
+      return { isValid: false, errors: ['Dangerous goods must be an array'] };
+    }
+
+    if (items.length > MAX_DANGEROUS_GOODS_LINES) {
+      return {
+        isValid: false,
+        errors: [`A shipment cannot have more than ${MAX_DANGEROUS_GOODS_LINES} dangerous goods lines`],
+      };
+    }
+
+    const errors: string[] = [];
+    items.forEach((item, index) => {
+      DangerousGoodsItem.validate(item || {}).forEach(error => errors.push(`Dangerous goods line ${index + 1}: ${error}`));
+    });
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate the temperature range of a shipment against its cargo type
+   * Only perishable cargo has a range, and perishable cargo must have one
+   */
+  static validateColdChain(data: {
+    cargo_type?: string | null;
+    temp_min_c?: number | null;
+    temp_max_c?: number | null;
+  }): ValidationResult {
+    const errors: string[] = [];
+    const perishable = data.cargo_type?.toLowerCase() === 'perishable';
+    const hasRange = data.temp_min_c != null || data.temp_max_c != null;
+
+    if (hasRange && !perishable) {
+      errors.push('A temperature range can only be set for perishable cargo');
+    } else if (perishable && !hasRange) {
+      errors.push('Perishable cargo requires a temperature range');
+    } else if (perishable) {
+      errors.push(...TemperatureRange.validate({
+        temp_min_c: data.temp_min_c ?? undefined,
+        temp_max_c: data.temp_max_c ?? undefined,
+      }));
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate the reason given with a status change
+   * The reason is required when the workflow marks the new status with requiresReason
+   */
+  static validateStatusReason(
+    status: string,
+    data: Partial<StatusReasonData>,
+    workflow: StatusWorkflow = StatusWorkflow.getDefault()
+  ): ValidationResult {
+    const errors = workflow.requiresReason(status) && !data.reason_code
+      ? [`A reason is required when changing the status to '${status}'`]
+      : StatusReason.validate(data, false);
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate a rate card; surcharges may only be set for known cargo types
+   */
+  static validateRateCard(data: Partial<RateCardData>): ValidationResult {
+    const errors = RateCard.validate(data, VALID_CARGO_TYPES);
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate an SLA target
+   */
+  static validateSlaTarget(data: Partial<SlaTargetData>): ValidationResult {
+    const errors = SlaTarget.validate(data);
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate a quote request; the weight comes from the pieces or the declared weight
+   */
+  static validateQuote(data: Partial<CreateQuoteRequest>): ValidationResult {
+    const errors: string[] = [];
+
+    if (!data.origin || data.origin.trim().length < 2) {
+      errors.push('Origin is required and must be at least 2 characters');
+    }
+
+    if (!data.destination || data.destination.trim().length < 2) {
+      errors.push('Destination is required and must be at least 2 characters');
+    }
+
+    if (data.origin && data.destination &&
+        data.origin.trim().toLowerCase() === data.destination.trim().toLowerCase()) {
+      errors.push('Origin and destination cannot be the same');
+    }
+
+    if (data.cargo_type && !VALID_CARGO_TYPES.includes(data.cargo_type.toLowerCase())) {
+      errors.push(`Cargo type must be one of: ${VALID_CARGO_TYPES.join(', ')}`);
+    }
+
+    if (Array.isArray(data.pieces) && data.pieces.length > 0) {
+      errors.push(...ShipmentValidator.validatePieces(data.pieces).errors);
+    } else if (data.pieces !== undefined && !Array.isArray(data.pieces)) {
+      errors.push('Pieces must be an array');
+    } else if (typeof data.weight_kg !== 'number' || !(data.weight_kg > 0)) {
+      errors.push('Pieces or a positive weight are required for a quote');
+    } else if (data.weight_kg > 100000) {
+      errors.push('Weight exceeds maximum allowed (100,000 kg)');
     }
 
     return {
@@ -81,8 +544,12 @@ export class ShipmentValidator {
 
   /**
    * Validate search criteria
+   * @param validStatuses - Statuses of the caller's workflow (defaults to the built-in workflow)
    */
-  static validateSearch(criteria: SearchCriteria): ValidationResult {
+  static validateSearch(
+    criteria: SearchCriteria,
+    validStatuses: string[] = StatusFactory.getValidStatuses()
+  ): ValidationResult {
     const errors: string[] = [];
 
     // Date validation
@@ -108,8 +575,27 @@ export class ShipmentValidator {
       }
     }
 
+    // Chargeable weight range
+    const weightBounds: [number | undefined, string][] = [
+      [criteria.minChargeableWeight, 'minChargeableWeight'],
+      [criteria.maxChargeableWeight, 'maxChargeableWeight'],
+    ];
+    for (const [value, name] of weightBounds) {
+      if (value !== undefined && (isNaN(value) || value < 0)) {
+        errors.push(`${name} must be a non-negative number`);
+      }
+    }
+    if (criteria.minChargeableWeight !== undefined && criteria.maxChargeableWeight !== undefined &&
+        criteria.minChargeableWeight > criteria.maxChargeableWeight) {
+      errors.push('minChargeableWeight cannot be greater than maxChargeableWeight');
+    }
+
+    // AWB search accepts partial numbers with or without separators
+    if (criteria.awbNumber && !/^[\d\s-]+$/.test(criteria.awbNumber)) {
+      errors.push('AWB number may only contain digits');
+    }
+
     // Status validation
-    const validStatuses = ['pending', 'departed', 'in_transit', 'arrived', 'delayed', 'cancelled'];
     if (criteria.status && !validStatuses.includes(criteria.status.toLowerCase())) {
       errors.push(`Status must be one of: ${validStatuses.join(', ')}`);
     }
@@ -158,31 +644,62 @@ export function validateShipmentCreate(
     req.body.destination = ShipmentValidator.sanitizeString(req.body.destination);
   }
   if (req.body.cargo_type) {
-    req.body.cargo_type = ShipmentValidator.sanitizeString(req.body.cargo_type);
+    req.body.cargo_type = ShipmentValidator.sanitizeString(req.body.cargo_type).toLowerCase();
+  }
+  if (req.body.awb_number) {
+    req.body.awb_number = AirWaybill.normalize(req.body.awb_number);
+  }
+  if (req.body.tracking_pin) {
+    req.body.tracking_pin = ShipmentValidator.normalizeTrackingPin(req.body.tracking_pin);
+  }
+  if (Array.isArray(req.body.legs)) {
+    req.body.legs = req.body.legs.map((leg: CreateShipmentLegRequest) => ({
+      ...leg,
+      origin: ShipmentValidator.sanitizeString(leg.origin),
+      destination: ShipmentValidator.sanitizeString(leg.destination),
+    }));
   }
   
   next();
 }
 
+/**
+ * Parse an optional numeric query parameter (NaN when not a number)
+ */
+export function parseOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  return Number(value);
+}
+
 /**
  * Express middleware for search validation
+ * Statuses are checked against the organization's workflow
  */
-export function validateSearch(
-  req: Request,
+export async function validateSearch(
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   const criteria: SearchCriteria = {
     trackingNumber: req.query.trackingNumber as string,
+    awbNumber: req.query.awbNumber as string,
     status: req.query.status as string,
     origin: req.query.origin as string,
     destination: req.query.destination as string,
     dateFrom: req.query.dateFrom as string,
     dateTo: req.query.dateTo as string,
     cargoType: req.query.cargoType as string,
+    minChargeableWeight: parseOptionalNumber(req.query.minChargeableWeight),
+    maxChargeableWeight: parseOptionalNumber(req.query.maxChargeableWeight),
   };
 
-  const result = ShipmentValidator.validateSearch(criteria);
+  let validStatuses: string[] | undefined;
+  if (req.user) {
+    const workflow = await workflowService.getWorkflowForOrganization(req.user.organizationId);
+    validStatuses = workflow.getStatusNames();
+  }
+
+  const result = ShipmentValidator.validateSearch(criteria, validStatuses);
   
   if (!result.isValid) {
     res.status(400).json({ 
@@ -204,9 +721,8 @@ export function validateUUID(
   next: NextFunction
 ): void {
   const { id } = req.params;
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
   
-  if (!id || !uuidRegex.test(id)) {
+  if (!id || !UUID_REGEX.test(id)) {
     res.status(400).json({ error: 'Invalid ID format' });
     return;
   }
@@ -214,3 +730,28 @@ export function validateUUID(
   next();
 }
 
+
+/**
+ * Express middleware for bulk action validation
+ */
+export function validateBulkAction(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const result = ShipmentValidator.validateBulkAction(req.body);
+
+  if (!result.isValid) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: result.errors
+    });
+    return;
+  }
+
+  if (req.body.updates?.cargo_type) {
+    req.body.updates.cargo_type = ShipmentValidator.sanitizeString(req.body.updates.cargo_type).toLowerCase();
+  }
+
+  next();
+}
@@ -0,0 +1,52 @@
+/**
+ * Airport Routes
+ * Airport reference data lookup and the airport backfill of existing shipments
+ */
+
+import { Router, Response } from 'express';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+import { Airport } from '../classes/Airport';
+import { airportService } from '../services/airportService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * GET /api/airports
+ * Search airports by IATA/ICAO code, name or city, best matches first
+ * Query params: q, limit
+ */
+router.get('/', (req: AuthenticatedRequest, res: Response) => {
+  const query = typeof req.query.q === 'string' ? req.query.q : '';
+  const limit = req.query.limit ? parseInt(req.query.limit as string) || undefined : undefined;
+
+  res.json({ airports: Airport.search(query, limit).map(airport => airport.toJSON()) });
+});
+
+/**
+ * POST /api/airports/backfill
+ * Resolve the free-text origin and destination of shipments without airports
+ * Body: { dryRun?: boolean } - report the changes without saving them
+ */
+router.post('/backfill', requirePermission('settings:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const result = await airportService.backfillShipments(req.user!, req.body?.dryRun === true);
+  res.json(result);
+}));
+
+/**
+ * GET /api/airports/:code
+ * Get an airport by IATA or ICAO code
+ */
+router.get('/:code', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const airport = Airport.findByCode(req.params.code);
+  if (!airport) {
+    throw new NotFoundError('Airport');
+  }
+
+  res.json({ airport: airport.toJSON() });
+}));
+
+export default router;
@@ -4,35 +4,39 @@
  */
 
 import { Router, Response } from 'express';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
 import { supabaseAdmin } from '../config/supabase';
 import { DashboardStats } from '../types';
+import { workflowService } from '../services/workflowService';
+import { StatusReason } from '../classes/StatusReason';
 
 const router = Router();
 
 // All routes require authentication
 router.use(requireAuth);
+router.use(requirePermission('analytics:read'));
 
 /**
  * GET /api/analytics/dashboard
  * Get dashboard statistics
  */
 router.get('/dashboard', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const userId = req.user!.id;
+  const organizationId = req.user!.organizationId;
+  const workflow = await workflowService.getWorkflowForOrganization(organizationId);
 
   // Get total shipments
   const { count: totalShipments } = await supabaseAdmin
     .from('shipments')
     .select('*', { count: 'exact', head: true })
-    .eq('user_id', userId);
+    .eq('organization_id', organizationId);
 
   // Get active shipments (not arrived or cancelled)
   const { count: activeShipments } = await supabaseAdmin
     .from('shipments')
     .select('*', { count: 'exact', head: true })
-    .eq('user_id', userId)
-    .in('status', ['pending', 'departed', 'in_transit']);
+    .eq('organization_id', organizationId)
+    .in('status', workflow.getActiveStatusNames());
 
   // Get deliveries today
   const today = new Date();
@@ -40,7 +44,7 @@ router.get('/dashboard', asyncHandler(async (req: AuthenticatedRequest, res: Res
   const { count: deliveredToday } = await supabaseAdmin
     .from('shipments')
     .select('*', { count: 'exact', head: true })
-    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
     .eq('status', 'arrived')
     .gte('updated_at', today.toISOString());
 
@@ -48,14 +52,14 @@ router.get('/dashboard', asyncHandler(async (req: AuthenticatedRequest, res: Res
   const { count: delayedShipments } = await supabaseAdmin
     .from('shipments')
     .select('*', { count: 'exact', head: true })
-    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
     .eq('status', 'delayed');
 
   // Get weather alerts count (medium, high, or critical severity)
   const { count: weatherAlerts } = await supabaseAdmin
     .from('weather_impacts')
-    .select('*, shipments!inner(user_id)', { count: 'exact', head: true })
-    .eq('shipments.user_id', userId)
+    .select('*, shipments!inner(organization_id)', { count: 'exact', head: true })
+    .eq('shipments.organization_id', organizationId)
     .in('severity', ['medium', 'high', 'critical']);
 
   const stats: DashboardStats = {
@@ -74,22 +78,19 @@ router.get('/dashboard', asyncHandler(async (req: AuthenticatedRequest, res: Res
  * Get shipment status breakdown
  */
 router.get('/status-breakdown', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const userId = req.user!.id;
+  const organizationId = req.user!.organizationId;
 
   const { data } = await supabaseAdmin
     .from('shipments')
     .select('status')
-    .eq('user_id', userId);
-
-  // Count by status
-  const breakdown: Record<string, number> = {
-    pending: 0,
-    departed: 0,
-    in_transit: 0,
-    arrived: 0,
-    delayed: 0,
-    cancelled: 0,
-  };
+    .eq('organization_id', organizationId);
+
+  // Count by status, including every status in the organization's workflow
+  const workflow = await workflowService.getWorkflowForOrganization(organizationId);
+  const breakdown: Record<string, number> = {};
+  workflow.getStatusNames().forEach(status => {
+    breakdown[status] = 0;
+  });
 
   (data || []).forEach(item => {
     if (breakdown[item.status] !== undefined) {
@@ -105,7 +106,7 @@ router.get('/status-breakdown', asyncHandler(async (req: AuthenticatedRequest, r
  * Get shipments created over time
  */
 router.get('/shipments-over-time', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const userId = req.user!.id;
+  const organizationId = req.user!.organizationId;
   const days = parseInt(req.query.days as string) || 30;
 
   const startDate = new Date();
@@ -114,7 +115,7 @@ router.get('/shipments-over-time', asyncHandler(async (req: AuthenticatedRequest
   const { data } = await supabaseAdmin
     .from('shipments')
     .select('created_at')
-    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
     .gte('created_at', startDate.toISOString())
     .order('created_at', { ascending: true });
 
@@ -143,13 +144,13 @@ router.get('/shipments-over-time', asyncHandler(async (req: AuthenticatedRequest
  * Get top routes by shipment volume
  */
 router.get('/top-routes', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const userId = req.user!.id;
+  const organizationId = req.user!.organizationId;
   const limit = parseInt(req.query.limit as string) || 10;
 
   const { data } = await supabaseAdmin
     .from('shipments')
     .select('origin, destination')
-    .eq('user_id', userId);
+    .eq('organization_id', organizationId);
 
   // Count routes
   const routeCounts: Record<string, number> = {};
@@ -168,21 +169,60 @@ router.get('/top-routes', asyncHandler(async (req: AuthenticatedRequest, res: Re
   res.json({ routes: topRoutes });
 }));
 
+/**
+ * GET /api/analytics/delay-reasons
+ * Get delays and cancellations of the last `days` days by reason category
+ */
+router.get('/delay-reasons', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const organizationId = req.user!.organizationId;
+  const days = parseInt(req.query.days as string) || 30;
+
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+
+  const { data } = await supabaseAdmin
+    .from('tracking_events')
+    .select('status, reason_code, shipments!inner(organization_id)')
+    .eq('shipments.organization_id', organizationId)
+    .not('reason_code', 'is', null)
+    .gte('timestamp', startDate.toISOString());
+
+  // Count by reason, split by the status the shipment moved to
+  type ReasonCount = { code: string; label: string; count: number; byStatus: Record<string, number> };
+  const byReason = new Map<string, ReasonCount>();
+
+  (data || []).forEach(event => {
+    const current: ReasonCount = byReason.get(event.reason_code) || {
+      code: event.reason_code,
+      label: StatusReason.labelOf(event.reason_code),
+      count: 0,
+      byStatus: {},
+    };
+    current.count += 1;
+    current.byStatus[event.status] = (current.byStatus[event.status] || 0) + 1;
+    byReason.set(event.reason_code, current);
+  });
+
+  const reasons = Array.from(byReason.values()).sort((a, b) => b.count - a.count);
+
+  res.json({ reasons, total: (data || []).length });
+}));
+
 /**
  * GET /api/analytics/recent-activity
  * Get recent tracking events
  */
 router.get('/recent-activity', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const userId = req.user!.id;
+  const organizationId = req.user!.organizationId;
   const limit = parseInt(req.query.limit as string) || 10;
 
   const { data } = await supabaseAdmin
     .from('tracking_events')
     .select(`
       *,
-      shipments!inner(tracking_number, user_id)
+      shipments!inner(tracking_number, organization_id)
     `)
-    .eq('shipments.user_id', userId)
+    .eq('shipments.organization_id', organizationId)
     .order('timestamp', { ascending: false })
     .limit(limit);
 
@@ -203,12 +243,12 @@ router.get('/recent-activity', asyncHandler(async (req: AuthenticatedRequest, re
  * Get cargo type distribution
  */
 router.get('/cargo-types', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const userId = req.user!.id;
+  const organizationId = req.user!.organizationId;
 
   const { data } = await supabaseAdmin
     .from('shipments')
     .select('cargo_type')
-    .eq('user_id', userId);
+    .eq('organization_id', organizationId);
 
   // Count cargo types
   const typeCounts: Record<string, number> = {};
@@ -0,0 +1,52 @@
+/**
+ * Audit Routes
+ * Query the field-level change history of shipments
+ */
+
+import { Router, Response } from 'express';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { auditService } from '../services/auditService';
+import { AuditAction } from '../types';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'assign', 'delete'];
+
+/**
+ * GET /api/audit
+ * Query the audit log
+ * Query params: shipmentId, action, from, to, limit
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { shipmentId, action, from, to, limit } = req.query;
+
+  if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+    res.status(400).json({ error: `Action must be one of: ${AUDIT_ACTIONS.join(', ')}` });
+    return;
+  }
+
+  const invalidDates = Object.entries({ from, to })
+    .filter(([, value]) => value !== undefined && value !== '' && (typeof value !== 'string' || isNaN(Date.parse(value))))
+    .map(([name]) => `'${name}' must be a valid date`);
+  if (invalidDates.length > 0) {
+    res.status(400).json({ error: 'Validation failed', details: invalidDates });
+    return;
+  }
+
+  const entries = await auditService.getLog(req.user!.organizationId, {
+    shipmentId: shipmentId as string | undefined,
+    action: action as AuditAction | undefined,
+    from: from ? new Date(from as string).toISOString() : undefined,
+    to: to ? new Date(to as string).toISOString() : undefined,
+    // At least one and at most 500 entries
+    limit: limit ? Math.min(Math.max(parseInt(limit as string, 10) || 100, 1), 500) : undefined,
+  });
+
+  res.json({ entries });
+}));
+
+export default router;
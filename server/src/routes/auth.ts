@@ -7,6 +7,8 @@ import { Router, Request, Response } from 'express';
 import { supabase } from '../config/supabase';
 import { asyncHandler } from '../middleware/errorHandler';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { AccessPolicy } from '../classes/AccessPolicy';
+import { organizationService } from '../services/organizationService';
 
 const router = Router();
 
@@ -75,12 +77,19 @@ router.post('/login', asyncHandler(async (req: Request, res: Response) => {
     return;
   }
 
+  const membership = await organizationService.getMembership({
+    id: data.user.id,
+    email: data.user.email || '',
+  });
+
   res.json({
     message: 'Login successful',
     user: {
       id: data.user.id,
       email: data.user.email,
       fullName: data.user.user_metadata?.full_name,
+      organizationId: membership.organization_id,
+      ...new AccessPolicy(membership.role).toJSON(),
     },
     session: {
       access_token: data.session.access_token,
@@ -114,6 +123,8 @@ router.get('/user', requireAuth, asyncHandler(async (req: AuthenticatedRequest,
     user: {
       id: req.user?.id,
       email: req.user?.email,
+      organizationId: req.user?.organizationId,
+      ...new AccessPolicy(req.user!.role).toJSON(),
     },
   });
 }));
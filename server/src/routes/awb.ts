@@ -0,0 +1,96 @@
+/**
+ * AWB Routes
+ * Air waybill stock ranges and AWB number validation
+ */
+
+import { Router, Response } from 'express';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+import { AirWaybill } from '../classes/AirWaybill';
+import { awbService } from '../services/awbService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * GET /api/awb/stock
+ * List AWB stock ranges with remaining capacity
+ */
+router.get('/stock', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const stock = await awbService.getStock(req.user!.organizationId);
+
+  res.json({
+    stock: stock.map(range => {
+      const remaining = AirWaybill.remainingInRange(range);
+      return {
+        ...range,
+        remaining,
+        next_awb: remaining > 0
+          ? AirWaybill.fromSerial(range.airline_prefix, range.next_serial).format()
+          : null,
+      };
+    }),
+  });
+}));
+
+/**
+ * POST /api/awb/stock
+ * Add a stock range for an airline
+ * Body: { airline_prefix, airline_name?, range_start, range_end } (7-digit serials without check digit)
+ */
+router.post('/stock', requirePermission('settings:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { airline_prefix, airline_name, range_start, range_end } = req.body;
+
+  const range = {
+    airline_prefix: String(airline_prefix || '').trim(),
+    airline_name,
+    range_start: Number(range_start),
+    range_end: Number(range_end),
+  };
+
+  const errors = AirWaybill.validateStockRange(range);
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Validation failed', details: errors });
+    return;
+  }
+
+  const result = await awbService.addStock(req.user!, range);
+  if (result.error) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  res.status(201).json({ stock: result.stock });
+}));
+
+/**
+ * DELETE /api/awb/stock/:id
+ * Remove a stock range
+ */
+router.delete('/stock/:id', requirePermission('settings:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id) || !(await awbService.deleteStock(req.user!.organizationId, id))) {
+    throw new NotFoundError('AWB stock');
+  }
+
+  res.json({ message: 'AWB stock deleted successfully' });
+}));
+
+/**
+ * GET /api/awb/validate/:number
+ * Check an AWB number's format and check digit
+ */
+router.get('/validate/:number', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = AirWaybill.validate(req.params.number);
+
+  res.json({
+    valid: errors.length === 0,
+    errors,
+    awb: errors.length === 0 ? new AirWaybill(req.params.number).toJSON() : null,
+  });
+}));
+
+export default router;
@@ -0,0 +1,61 @@
+/**
+ * Job Routes
+ * State and run history of the background jobs, and runs triggered by the host's cron
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth, requireCronSecret, requireOperator, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+import { schedulerService } from '../services/schedulerService';
+
+const router = Router();
+
+/**
+ * GET /api/jobs/:name/trigger
+ * Run a job now, for serverless hosts where the scheduler does not keep running
+ * Called by Vercel Cron (see vercel.json) with CRON_SECRET instead of a user token
+ */
+router.get('/:name/trigger', requireCronSecret, asyncHandler(async (req: Request, res: Response) => {
+  const { name } = req.params;
+  if (!schedulerService.isRegistered(name)) {
+    throw new NotFoundError('Job');
+  }
+
+  await schedulerService.store();
+  const run = await schedulerService.run(name);
+
+  // No run when the job is disabled or another run holds its lease
+  res.json({ run: run ? run.toJSON() : null });
+}));
+
+// Jobs and their runs are system-wide, so the other routes are for platform operators only
+router.use(requireAuth, requireOperator);
+
+/**
+ * GET /api/jobs
+ * List the background jobs with their schedule, lease and last run
+ */
+router.get('/', asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+  const jobs = await schedulerService.getJobs();
+  res.json({ jobs });
+}));
+
+/**
+ * GET /api/jobs/:name/runs
+ * Run history of a job, newest first
+ * Query params: limit
+ */
+router.get('/:name/runs', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { name } = req.params;
+
+  const jobs = await schedulerService.getJobs();
+  if (!jobs.some(job => job.name === name)) {
+    throw new NotFoundError('Job');
+  }
+
+  const limit = req.query.limit ? parseInt(req.query.limit as string) || undefined : undefined;
+  const runs = await schedulerService.getRuns(name, limit);
+  res.json({ runs });
+}));
+
+export default router;
@@ -0,0 +1,194 @@
+/**
+ * Organization Routes
+ * Team membership, roles and invitations
+ */
+
+import { Router, Response } from 'express';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+import { AccessPolicy, ROLES } from '../classes/AccessPolicy';
+import { organizationService } from '../services/organizationService';
+import { FlightProgress, AUTO_STATUS_MODES } from '../classes/FlightProgress';
+import { Organization } from '../types';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * GET /api/organizations/current
+ * Get the organization of the current user with its members, open invitations
+ * and the user's own role and permissions
+ */
+router.get('/current', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const organizationId = req.user!.organizationId;
+  const organization = await organizationService.getOrganization(organizationId);
+
+  if (!organization) {
+    throw new NotFoundError('Organization');
+  }
+
+  const members = await organizationService.getMembers(organizationId);
+  const policy = new AccessPolicy(req.user!.role);
+
+  res.json({
+    organization,
+    members,
+    invites: policy.can('organization:manage') ? await organizationService.getInvites(organizationId) : [],
+    ...policy.toJSON(),
+  });
+}));
+
+/**
+ * PUT /api/organizations/current
+ * Rename the organization or change its settings (admins only)
+ * Body: { name?, auto_status? } where auto_status is 'off', 'propose' or 'apply'
+ */
+router.put('/current', requirePermission('organization:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { name, auto_status } = req.body;
+  const updates: Partial<Pick<Organization, 'name' | 'auto_status'>> = {};
+  const errors: string[] = [];
+
+  if (name !== undefined) {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > 100) {
+      errors.push('Name is required and must be at most 100 characters');
+    }
+    updates.name = trimmed;
+  }
+  if (auto_status !== undefined) {
+    if (!FlightProgress.isMode(auto_status)) {
+      errors.push(`Automatic status updates must be one of: ${AUTO_STATUS_MODES.join(', ')}`);
+    }
+    updates.auto_status = auto_status;
+  }
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Validation failed', details: errors });
+    return;
+  }
+  if (Object.keys(updates).length === 0) {
+    res.status(400).json({ error: 'Nothing to update' });
+    return;
+  }
+
+  const organization = await organizationService.updateOrganization(req.user!.organizationId, updates);
+  res.json({ organization });
+}));
+
+/**
+ * POST /api/organizations/current/invites
+ * Invite someone by email with a role (admins only)
+ * Body: { email, role }
+ */
+router.post('/current/invites', requirePermission('organization:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { email, role } = req.body;
+  const errors: string[] = [];
+
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+    errors.push('A valid email is required');
+  }
+  if (!AccessPolicy.isRole(role)) {
+    errors.push(`Role must be one of: ${ROLES.join(', ')}`);
+  }
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Validation failed', details: errors });
+    return;
+  }
+
+  const result = await organizationService.invite(req.user!.organizationId, email, role, req.user!.id);
+  if (result.error) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  res.status(201).json({ invite: result.invite });
+}));
+
+/**
+ * DELETE /api/organizations/current/invites/:id
+ * Cancel an open invitation (admins only)
+ */
+router.delete('/current/invites/:id', requirePermission('organization:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id) || !(await organizationService.cancelInvite(req.user!.organizationId, id))) {
+    throw new NotFoundError('Invitation');
+  }
+
+  res.json({ message: 'Invitation cancelled' });
+}));
+
+/**
+ * PUT /api/organizations/current/members/:userId
+ * Change a member's role (admins only)
+ * Body: { role }
+ */
+router.put('/current/members/:userId', requirePermission('organization:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { role } = req.body;
+
+  if (!AccessPolicy.isRole(role)) {
+    res.status(400).json({ error: `Role must be one of: ${ROLES.join(', ')}` });
+    return;
+  }
+
+  const result = await organizationService.updateMemberRole(req.user!.organizationId, req.params.userId, role);
+  if (result.error) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+  if (!result.member) {
+    throw new NotFoundError('Member');
+  }
+
+  res.json({ member: result.member });
+}));
+
+/**
+ * DELETE /api/organizations/current/members/:userId
+ * Remove a member from the organization (admins only)
+ */
+router.delete('/current/members/:userId', requirePermission('organization:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const result = await organizationService.removeMember(req.user!.organizationId, req.params.userId);
+
+  if (result.error) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+  if (!result.removed) {
+    throw new NotFoundError('Member');
+  }
+
+  res.json({ message: 'Member removed' });
+}));
+
+/**
+ * GET /api/organizations/invites
+ * Get the invitations addressed to the current user
+ */
+router.get('/invites', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const invites = await organizationService.getInvitesForEmail(req.user!.email);
+  res.json({ invites });
+}));
+
+/**
+ * POST /api/organizations/invites/:id/accept
+ * Leave the current organization and join the one of the invitation
+ */
+router.post('/invites/:id/accept', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id);
+  const result = isNaN(id)
+    ? { error: 'Invitation not found' }
+    : await organizationService.acceptInvite(req.user!, id);
+
+  if (result.error) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  res.json({ member: result.member });
+}));
+
+export default router;
@@ -0,0 +1,58 @@
+/**
+ * Public Tracking Routes
+ * Unauthenticated shipment lookup by tracking number, rate-limited against enumeration
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { rateLimit, RateLimiter, clientKey, rejectTooManyRequests } from '../middleware/rateLimit';
+import { publicTrackingService } from '../services/publicTrackingService';
+
+const router = Router();
+
+// At most 30 lookups per minute from one client
+router.use(rateLimit(60 * 1000, 30));
+
+// Lookups that match no shipment; too many of them look like guessing tracking numbers
+const failedLookups = new RateLimiter(15 * 60 * 1000, 10);
+
+const TRACKING_NUMBER_PATTERN = /^[A-Z0-9-]{6,50}$/;
+
+/**
+ * POST /api/public/tracking
+ * Track a shipment without an account
+ * Body: { trackingNumber, pin? } - pin is the PIN or postcode set on the shipment, if any
+ */
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const key = clientKey(req);
+  const blockedFor = failedLookups.retryAfter(key);
+  if (blockedFor > 0) {
+    rejectTooManyRequests(res, blockedFor, 'Too many unsuccessful lookups, please try again later');
+  }
+
+  const trackingNumber = typeof req.body.trackingNumber === 'string'
+    ? req.body.trackingNumber.trim().toUpperCase()
+    : '';
+  const pin = typeof req.body.pin === 'string' ? req.body.pin : undefined;
+
+  if (!TRACKING_NUMBER_PATTERN.test(trackingNumber)) {
+    res.status(400).json({ error: 'Please enter a valid tracking number' });
+    return;
+  }
+
+  const tracking = await publicTrackingService.lookup(trackingNumber, pin);
+
+  // Unknown numbers and wrong PINs get the same answer
+  if (!tracking) {
+    failedLookups.hit(key);
+    res.status(404).json({
+      error: 'No shipment found. If the shipper gave you a PIN or postcode, please enter it as well.',
+    });
+    return;
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({ tracking });
+}));
+
+export default router;
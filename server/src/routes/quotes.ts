@@ -0,0 +1,272 @@
+/**
+ * Quote Routes
+ * Rate cards, freight price quotes and conversion of quotes into shipments
+ */
+
+import { Router, Response } from 'express';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+import { ShipmentValidator, validateUUID } from '../middleware/validation';
+import { AirWaybill } from '../classes/AirWaybill';
+import { quoteService } from '../services/quoteService';
+import { shipmentService } from '../services/shipmentService';
+import { CreateShipmentRequest, CreateQuoteRequest } from '../types';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * Read rate card fields from a request body
+ */
+function rateCardFromBody(body: Record<string, unknown>) {
+  return {
+    origin: String(body.origin || ''),
+    destination: String(body.destination || ''),
+    currency: String(body.currency || 'USD'),
+    minimum_charge: Number(body.minimum_charge),
+    rate_minus_45: Number(body.rate_minus_45),
+    rate_plus_45: Number(body.rate_plus_45),
+    rate_plus_100: Number(body.rate_plus_100),
+    rate_plus_300: Number(body.rate_plus_300),
+    surcharges: (body.surcharges as Record<string, number>) || {},
+  };
+}
+
+/**
+ * GET /api/quotes/rate-cards
+ * List the account's rate cards
+ */
+router.get('/rate-cards', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const rateCards = await quoteService.getRateCards(req.user!.organizationId);
+  res.json({ rateCards });
+}));
+
+/**
+ * POST /api/quotes/rate-cards
+ * Create a rate card for a lane ('*' matches any origin or destination)
+ * Body: { origin, destination, currency, minimum_charge, rate_minus_45, rate_plus_45,
+ *         rate_plus_100, rate_plus_300, surcharges?: { [cargoType]: percent } }
+ */
+router.post('/rate-cards', requirePermission('settings:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const data = rateCardFromBody(req.body);
+
+  const validation = ShipmentValidator.validateRateCard(data);
+  if (!validation.isValid) {
+    res.status(400).json({ error: 'Validation failed', details: validation.errors });
+    return;
+  }
+
+  const { rateCard, error } = await quoteService.createRateCard(req.user!, data);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  res.status(201).json({ rateCard });
+}));
+
+/**
+ * PUT /api/quotes/rate-cards/:id
+ * Replace the rates of a rate card
+ */
+router.put('/rate-cards/:id', requirePermission('settings:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id);
+  const data = rateCardFromBody(req.body);
+
+  const validation = ShipmentValidator.validateRateCard(data);
+  if (!validation.isValid) {
+    res.status(400).json({ error: 'Validation failed', details: validation.errors });
+    return;
+  }
+
+  const rateCard = isNaN(id) ? null : await quoteService.updateRateCard(req.user!.organizationId, id, data);
+  if (!rateCard) {
+    throw new NotFoundError('Rate card');
+  }
+
+  res.json({ rateCard });
+}));
+
+/**
+ * DELETE /api/quotes/rate-cards/:id
+ * Delete a rate card
+ */
+router.delete('/rate-cards/:id', requirePermission('settings:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id) || !(await quoteService.deleteRateCard(req.user!.organizationId, id))) {
+    throw new NotFoundError('Rate card');
+  }
+
+  res.json({ message: 'Rate card deleted successfully' });
+}));
+
+/**
+ * GET /api/quotes
+ * List recent quotes
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const quotes = await quoteService.getQuotes(req.user!.organizationId);
+  res.json({ quotes });
+}));
+
+/**
+ * POST /api/quotes
+ * Price a shipment
+ * Body: { origin, destination, cargo_type?, pieces?, weight_kg? }
+ */
+router.post('/', requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const request = req.body as CreateQuoteRequest;
+
+  const validation = ShipmentValidator.validateQuote(request);
+  if (!validation.isValid) {
+    res.status(400).json({ error: 'Validation failed', details: validation.errors });
+    return;
+  }
+
+  const { quote, error } = await quoteService.createQuote(req.user!, {
+    origin: ShipmentValidator.sanitizeString(request.origin),
+    destination: ShipmentValidator.sanitizeString(request.destination),
+    cargo_type: request.cargo_type?.toLowerCase(),
+    weight_kg: request.weight_kg,
+    pieces: request.pieces,
+  });
+
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  res.status(201).json({ quote });
+}));
+
+/**
+ * GET /api/quotes/:id
+ * Get a quote
+ */
+router.get('/:id', validateUUID, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const quote = await quoteService.getQuote(req.user!.organizationId, req.params.id);
+
+  if (!quote) {
+    throw new NotFoundError('Quote');
+  }
+
+  res.json({ quote, expired: quote.status === 'quoted' && quoteService.isExpired(quote) });
+}));
+
+/**
+ * POST /api/quotes/:id/accept
+ * Accept a quote that has not expired
+ */
+router.post('/:id/accept', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const quote = await quoteService.getQuote(req.user!.organizationId, req.params.id);
+
+  if (!quote) {
+    throw new NotFoundError('Quote');
+  }
+  if (quote.status !== 'quoted') {
+    res.status(400).json({ error: `Quote is already ${quote.status}` });
+    return;
+  }
+  if (quoteService.isExpired(quote)) {
+    res.status(400).json({ error: 'Quote has expired, please request a new quote' });
+    return;
+  }
+
+  const accepted = await quoteService.transition(quote.id, 'quoted', 'accepted');
+  if (!accepted) {
+    res.status(400).json({ error: 'Quote could not be accepted' });
+    return;
+  }
+
+  res.json({ quote: accepted });
+}));
+
+/**
+ * POST /api/quotes/:id/convert
+ * Create a shipment from an accepted quote
+ * Body (optional): { estimated_arrival?, awb_number?, awb_prefix?, origin/destination coordinates, dangerous_goods?,
+ *                   temp_min_c?, temp_max_c? }
+ * Hazardous quotes need the dangerous goods declaration of the shipment, perishable quotes its temperature range
+ */
+router.post('/:id/convert', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const quote = await quoteService.getQuote(req.user!.organizationId, req.params.id);
+
+  if (!quote) {
+    throw new NotFoundError('Quote');
+  }
+  if (quote.status !== 'accepted') {
+    res.status(400).json({
+      error: quote.status === 'converted'
+        ? 'Quote has already been converted to a shipment'
+        : 'Only accepted quotes can be converted to a shipment',
+    });
+    return;
+  }
+
+  const {
+    estimated_arrival,
+    awb_number,
+    awb_prefix,
+    origin_lat,
+    origin_lon,
+    dest_lat,
+    dest_lon,
+    dangerous_goods,
+    temp_min_c,
+    temp_max_c,
+  } = req.body;
+  const request: CreateShipmentRequest = {
+    origin: quote.origin,
+    destination: quote.destination,
+    cargo_type: quote.cargo_type || undefined,
+    weight_kg: quote.pieces.length > 0 ? undefined : quote.weight_kg,
+    pieces: quote.pieces.length > 0 ? quote.pieces : undefined,
+    dangerous_goods,
+    temp_min_c,
+    temp_max_c,
+    estimated_arrival,
+    awb_number: awb_number ? AirWaybill.normalize(awb_number) : undefined,
+    awb_prefix,
+    origin_lat,
+    origin_lon,
+    dest_lat,
+    dest_lon,
+  };
+
+  const validation = ShipmentValidator.validateCreate(request);
+  if (!validation.isValid) {
+    res.status(400).json({ error: 'Validation failed', details: validation.errors });
+    return;
+  }
+
+  // Claim the quote first so it can only be converted once
+  if (!(await quoteService.transition(quote.id, 'accepted', 'converted'))) {
+    res.status(400).json({ error: 'Quote has already been converted to a shipment' });
+    return;
+  }
+
+  let result;
+  try {
+    result = await shipmentService.create(req.user!, request, `Shipment created from quote (${quote.total} ${quote.currency})`);
+  } catch (error) {
+    await quoteService.transition(quote.id, 'converted', 'accepted');
+    throw error;
+  }
+
+  if (result.error || !result.created) {
+    await quoteService.transition(quote.id, 'converted', 'accepted');
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  const converted = await quoteService.transition(quote.id, 'converted', 'converted', {
+    shipment_id: result.created.shipment.id,
+  });
+
+  res.status(201).json({ ...result.created, quote: converted || quote });
+}));
+
+export default router;
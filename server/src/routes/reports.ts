@@ -6,7 +6,7 @@
  */
 
 import { Router, Response } from 'express';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
 import { reportService } from '../services/reportService';
 import { ReportFilters } from '../types';
@@ -15,6 +15,7 @@ const router = Router();
 
 // All routes require authentication
 router.use(requireAuth);
+router.use(requirePermission('reports:read'));
 
 /**
  * GET /api/reports/shipments
@@ -33,7 +34,7 @@ router.get('/shipments', asyncHandler(async (req: AuthenticatedRequest, res: Res
   const format = (req.query.format as 'csv' | 'json' | 'html') || 'csv';
 
   const report = await reportService.generateShipmentActivityReport(
-    req.user!.id,
+    req.user!.organizationId,
     filters,
     format
   );
@@ -66,7 +67,7 @@ router.get('/weather-impact', asyncHandler(async (req: AuthenticatedRequest, res
   const format = (req.query.format as 'csv' | 'json' | 'html') || 'csv';
 
   const report = await reportService.generateWeatherImpactReport(
-    req.user!.id,
+    req.user!.organizationId,
     filters,
     format
   );
@@ -98,7 +99,7 @@ router.get('/performance', asyncHandler(async (req: AuthenticatedRequest, res: R
   const format = (req.query.format as 'csv' | 'json' | 'html') || 'csv';
 
   const report = await reportService.generateRoutePerformanceReport(
-    req.user!.id,
+    req.user!.organizationId,
     filters,
     format
   );
@@ -130,7 +131,7 @@ router.post('/custom', asyncHandler(async (req: AuthenticatedRequest, res: Respo
   }
 
   const report = await reportService.generateCustomReport(
-    req.user!.id,
+    req.user!.organizationId,
     title,
     columns,
     filters || {},
@@ -169,13 +170,13 @@ router.get('/preview/:type', asyncHandler(async (req: AuthenticatedRequest, res:
 
   switch (type) {
     case 'shipments':
-      report = await reportService.generateShipmentActivityReport(req.user!.id, filters, 'json');
+      report = await reportService.generateShipmentActivityReport(req.user!.organizationId, filters, 'json');
       break;
     case 'weather-impact':
-      report = await reportService.generateWeatherImpactReport(req.user!.id, filters, 'json');
+      report = await reportService.generateWeatherImpactReport(req.user!.organizationId, filters, 'json');
       break;
     case 'performance':
-      report = await reportService.generateRoutePerformanceReport(req.user!.id, filters, 'json');
+      report = await reportService.generateRoutePerformanceReport(req.user!.organizationId, filters, 'json');
       break;
     default:
       res.status(400).json({ error: 'Invalid report type' });
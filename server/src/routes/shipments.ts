@@ -3,14 +3,55 @@
  * CRUD operations for shipments with search functionality
  */
 
-import { Router, Response } from 'express';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
-import { validateShipmentCreate, validateSearch, validateUUID } from '../middleware/validation';
+import express, { Router, Response } from 'express';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import {
+  validateShipmentCreate,
+  validateSearch,
+  validateUUID,
+  validateBulkAction,
+  parseOptionalNumber,
+} from '../middleware/validation';
 import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
 import { supabaseAdmin } from '../config/supabase';
 import { searchService } from '../services/searchService';
 import { StatusFactory } from '../classes/ShipmentStatus';
-import { SearchCriteria } from '../types';
+import { AccessPolicy } from '../classes/AccessPolicy';
+import { workflowService } from '../services/workflowService';
+import { legService } from '../services/legService';
+import { importService, ImportEntry } from '../services/importService';
+import { auditService, AUDITED_FIELDS } from '../services/auditService';
+import { awbService } from '../services/awbService';
+import { AirWaybill } from '../classes/AirWaybill';
+import { CargoPiece, PieceData, WeightSummary } from '../classes/CargoPiece';
+import { pieceService } from '../services/pieceService';
+import { shipmentService } from '../services/shipmentService';
+import { ShipmentValidator } from '../middleware/validation';
+import { ShipmentImportParser, ImportRow } from '../classes/ShipmentImport';
+import { ShipmentDocument, MAX_DOCUMENT_BYTES } from '../classes/ShipmentDocument';
+import { documentService } from '../services/documentService';
+import { ProofOfDelivery } from '../classes/ProofOfDelivery';
+import { deliveryService, DELIVERED_STATUS } from '../services/deliveryService';
+import { DangerousGoodsDeclaration, DangerousGoodsItem, DangerousGoodsItemData } from '../classes/DangerousGoods';
+import { dangerousGoodsService, HAZARDOUS_CARGO_TYPE } from '../services/dangerousGoodsService';
+import { TemperatureReading } from '../classes/ColdChain';
+import { coldChainService, PERISHABLE_CARGO_TYPE } from '../services/coldChainService';
+import { CustomsStep } from '../classes/CustomsClearance';
+import { customsService } from '../services/customsService';
+import { slaService } from '../services/slaService';
+import { statusProgressionService, CLEARED_PROPOSAL } from '../services/statusProgressionService';
+import { StatusReason } from '../classes/StatusReason';
+import { StatusWorkflow } from '../classes/StatusWorkflow';
+import { Airport } from '../classes/Airport';
+import {
+  SearchCriteria,
+  ImportRowResult,
+  ImportSummary,
+  BulkActionRequest,
+  BulkActionItemResult,
+  BulkActionResult,
+  Shipment,
+} from '../types';
 
 const router = Router();
 
@@ -18,13 +59,90 @@ const router = Router();
 router.use(requireAuth);
 
 /**
- * Generate a unique tracking number
+ * Shipment columns that can be changed through PUT /api/shipments/:id
+ * These are the audited columns, so no change goes unrecorded
  */
-function generateTrackingNumber(): string {
-  const prefix = 'AF';
-  const timestamp = Date.now().toString(36).toUpperCase();
-  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-  return `${prefix}${timestamp}${random}`;
+const UPDATABLE_FIELDS = AUDITED_FIELDS;
+
+/**
+ * Describe legs as a route for the audit log, e.g. "JFK → FRA → NBO"
+ */
+function describeLegs(legs: { origin: string; destination: string }[]): string | null {
+  if (legs.length === 0) return null;
+  return [...legs.map(leg => leg.origin), legs[legs.length - 1].destination].join(' → ');
+}
+
+/**
+ * Describe dangerous goods for the audit log, e.g. "UN1203 5 L, UN1845 20 kg"
+ */
+function describeDangerousGoods(items: { un_number: string; quantity: number; unit: string | null }[]): string | null {
+  if (items.length === 0) return null;
+  return items.map(item => `${item.un_number} ${item.quantity}${item.unit ? ` ${item.unit}` : ''}`).join(', ');
+}
+
+/**
+ * Describe piece totals for the audit log, e.g. "3 pcs, 1.44 m³, 240 kg chargeable"
+ */
+function describePieces(summary: Pick<WeightSummary, 'total_pieces' | 'volume_m3' | 'chargeable_weight_kg'>): string | null {
+  if (!summary.total_pieces) return null;
+  return `${summary.total_pieces} pcs, ${summary.volume_m3} m³, ${summary.chargeable_weight_kg} kg chargeable`;
+}
+
+/**
+ * Apply the cold chain rules to a change of cargo type or temperature range
+ * Only perishable cargo has a range; it is dropped (set to null on updates) when the
+ * cargo type changes to another and no new range is given
+ * @returns The validation errors of the resulting cargo type and range
+ */
+function applyColdChainRules(existing: Shipment, updates: Record<string, unknown>): string[] {
+  if (updates.cargo_type === undefined && updates.temp_min_c === undefined && updates.temp_max_c === undefined) {
+    return [];
+  }
+
+  const cargoType = (updates.cargo_type ?? existing.cargo_type) as string | null;
+  if (cargoType?.toLowerCase() !== PERISHABLE_CARGO_TYPE &&
+      updates.temp_min_c === undefined && updates.temp_max_c === undefined &&
+      (existing.temp_min_c != null || existing.temp_max_c != null)) {
+    updates.temp_min_c = null;
+    updates.temp_max_c = null;
+  }
+
+  const toNumber = (value: unknown) => (value == null ? null : Number(value));
+  return ShipmentValidator.validateColdChain({
+    cargo_type: cargoType,
+    temp_min_c: toNumber(updates.temp_min_c !== undefined ? updates.temp_min_c : existing.temp_min_c),
+    temp_max_c: toNumber(updates.temp_max_c !== undefined ? updates.temp_max_c : existing.temp_max_c),
+  }).errors;
+}
+
+/**
+ * Check a status change of one shipment, for PUT /:id and bulk status changes alike
+ * Arrivals are recorded with their proof of delivery, and hazardous or perishable cargo
+ * only leaves its initial status with an accepted declaration or a valid temperature range
+ * @returns Why the change is refused, or null when it may be applied
+ */
+async function checkStatusChange(shipment: Shipment, status: string, workflow: StatusWorkflow): Promise<string | null> {
+  if (!StatusFactory.isValidTransition(shipment.status, status, workflow)) {
+    return `Invalid status transition from '${shipment.status}' to '${status}'`;
+  }
+
+  if (status === DELIVERED_STATUS) {
+    return 'Record the proof of delivery to mark the shipment as arrived';
+  }
+
+  if (shipment.status !== workflow.getInitialStatus() || workflow.isTerminal(status)) {
+    return null;
+  }
+
+  if (shipment.cargo_type?.toLowerCase() === HAZARDOUS_CARGO_TYPE) {
+    const { check } = await dangerousGoodsService.getDeclaration(shipment.id);
+    if (!check.accepted) {
+      return 'The dangerous goods declaration must pass the acceptance checks before the shipment departs';
+    }
+  }
+
+  const coldChain = ShipmentValidator.validateColdChain(shipment);
+  return coldChain.isValid ? null : coldChain.errors.join('; ');
 }
 
 /**
@@ -35,7 +153,7 @@ router.get('/', asyncHandler(async (req: AuthenticatedRequest, res: Response) =>
   const { data, error } = await supabaseAdmin
     .from('shipments')
     .select('*')
-    .eq('user_id', req.user!.id)
+    .eq('organization_id', req.user!.organizationId)
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -53,19 +171,22 @@ router.get('/', asyncHandler(async (req: AuthenticatedRequest, res: Response) =>
 router.get('/search', validateSearch, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const criteria: SearchCriteria = {
     trackingNumber: req.query.trackingNumber as string,
+    awbNumber: req.query.awbNumber as string,
     status: req.query.status as string,
     origin: req.query.origin as string,
     destination: req.query.destination as string,
     dateFrom: req.query.dateFrom as string,
     dateTo: req.query.dateTo as string,
     cargoType: req.query.cargoType as string,
+    minChargeableWeight: parseOptionalNumber(req.query.minChargeableWeight),
+    maxChargeableWeight: parseOptionalNumber(req.query.maxChargeableWeight),
   };
 
   const page = parseInt(req.query.page as string) || 1;
   const pageSize = parseInt(req.query.pageSize as string) || 10;
 
   const result = await searchService.searchShipmentsPaginated(
-    req.user!.id,
+    req.user!.organizationId,
     criteria,
     page,
     pageSize
@@ -86,10 +207,19 @@ router.get('/quick-search', asyncHandler(async (req: AuthenticatedRequest, res:
     return;
   }
 
-  const results = await searchService.quickSearch(req.user!.id, term);
+  const results = await searchService.quickSearch(req.user!.organizationId, term);
   res.json({ shipments: results });
 }));
 
+/**
+ * GET /api/shipments/dangerous-goods/reference
+ * Search the dangerous goods reference table by UN number or proper shipping name
+ */
+router.get('/dangerous-goods/reference', (req: AuthenticatedRequest, res: Response) => {
+  const query = typeof req.query.q === 'string' ? req.query.q : '';
+  res.json({ entries: DangerousGoodsDeclaration.search(query) });
+});
+
 /**
  * GET /api/shipments/:id
  * Get a specific shipment with tracking history
@@ -102,7 +232,7 @@ router.get('/:id', validateUUID, asyncHandler(async (req: AuthenticatedRequest,
     .from('shipments')
     .select('*')
     .eq('id', id)
-    .eq('user_id', req.user!.id)
+    .eq('organization_id', req.user!.organizationId)
     .single();
 
   if (error || !shipment) {
@@ -116,11 +246,36 @@ router.get('/:id', validateUUID, asyncHandler(async (req: AuthenticatedRequest,
     .eq('shipment_id', id)
     .order('timestamp', { ascending: false });
 
-  // Get status object using OOP
-  const status = StatusFactory.createStatus(shipment.status);
+  // Fetch legs for multi-leg shipments
+  const legs = await legService.getLegs(id);
+  const pieces = await pieceService.getPieces(id);
+  const dangerousGoods = await dangerousGoodsService.getDeclaration(id);
+  const coldChain = shipment.cargo_type?.toLowerCase() === PERISHABLE_CARGO_TYPE
+    ? await coldChainService.getColdChain(shipment)
+    : null;
+  const customs = await customsService.getClearance(id);
+  const slaEscalations = await slaService.getEscalations(id);
+
+  // Get status object using OOP, driven by the organization's workflow,
+  // with the reason recorded when the shipment entered its current status
+  const workflow = await workflowService.getWorkflowForOrganization(req.user!.organizationId);
+  const reasonEvent = (events || []).find(event => event.status === shipment.status && event.reason_code);
+  const status = StatusFactory.createStatus(
+    shipment.status,
+    reasonEvent
+      ? new StatusReason({ reason_code: reasonEvent.reason_code, reason_text: reasonEvent.reason_text ?? undefined }).toString()
+      : undefined,
+    workflow
+  );
 
   res.json({
     shipment,
+    legs,
+    pieces,
+    dangerousGoods,
+    coldChain,
+    customs: customs.toJSON(),
+    slaEscalations,
     trackingEvents: events || [],
     statusInfo: status.toJSON(),
   });
@@ -130,88 +285,386 @@ router.get('/:id', validateUUID, asyncHandler(async (req: AuthenticatedRequest,
  * POST /api/shipments
  * Create a new shipment
  */
-router.post('/', validateShipmentCreate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const {
-    origin,
-    origin_lat,
-    origin_lon,
-    destination,
-    dest_lat,
-    dest_lon,
-    cargo_type,
-    weight_kg,
-    estimated_arrival,
-  } = req.body;
-
-  const trackingNumber = generateTrackingNumber();
-
-  // Create shipment
-  const { data: shipment, error } = await supabaseAdmin
-    .from('shipments')
-    .insert({
-      user_id: req.user!.id,
-      tracking_number: trackingNumber,
-      origin,
-      origin_lat: origin_lat || null,
-      origin_lon: origin_lon || null,
-      destination,
-      dest_lat: dest_lat || null,
-      dest_lon: dest_lon || null,
-      status: 'pending',
-      cargo_type: cargo_type || null,
-      weight_kg: weight_kg || null,
-      estimated_arrival: estimated_arrival || null,
-    })
-    .select()
-    .single();
+router.post('/', requirePermission('shipments:write'), validateShipmentCreate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { created, error } = await shipmentService.create(req.user!, req.body);
 
-  if (error) {
-    console.error('Create shipment error:', error);
-    throw new Error('Failed to create shipment');
+  if (error || !created) {
+    res.status(400).json({ error });
+    return;
   }
 
-  // Create initial tracking event
-  await supabaseAdmin
-    .from('tracking_events')
-    .insert({
-      shipment_id: shipment.id,
-      status: 'pending',
-      location: origin,
-      latitude: origin_lat || null,
-      longitude: origin_lon || null,
-      notes: 'Shipment created',
+  res.status(201).json(created);
+}));
+
+/**
+ * POST /api/shipments/import
+ * Bulk-create shipments from CSV or JSON file content
+ * Body: { format: 'csv' | 'json', content: string, dryRun?: boolean }
+ * Rows already imported by this user (same content) are skipped as duplicates
+ */
+router.post('/import', requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { format, content, dryRun = false } = req.body;
+
+  if (format !== 'csv' && format !== 'json') {
+    res.status(400).json({ error: "Format must be 'csv' or 'json'" });
+    return;
+  }
+  if (typeof content !== 'string' || content.trim() === '') {
+    res.status(400).json({ error: 'File content is required' });
+    return;
+  }
+
+  let rows: ImportRow[];
+  try {
+    rows = ShipmentImportParser.parse(content, format);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to parse file' });
+    return;
+  }
+
+  const existingKeys = await importService.findExistingKeys(
+    req.user!.organizationId,
+    rows.map(row => row.importKey)
+  );
+
+  const usedAwbNumbers = await importService.findUsedAwbNumbers(
+    req.user!.organizationId,
+    rows.map(row => row.data.awb_number).filter((awb): awb is string => Boolean(awb))
+  );
+
+  const results: ImportRowResult[] = [];
+  const entries: ImportEntry[] = [];
+  // Tracking numbers are generated in one go, so they are kept unique within the file
+  const trackingNumbers = new Set<string>();
+
+  for (const row of rows) {
+    const result: ImportRowResult = {
+      row: row.row,
+      status: 'valid',
+      errors: [...row.errors],
+      origin: row.data.origin,
+      destination: row.data.destination,
+    };
+
+    result.errors.push(...ShipmentValidator.validateCreate(row.data).errors);
+
+    if (result.errors.length > 0) {
+      result.status = 'invalid';
+    } else if (existingKeys.has(row.importKey)) {
+      result.status = 'duplicate';
+    } else if (row.data.awb_number && usedAwbNumbers.has(row.data.awb_number)) {
+      result.status = 'invalid';
+      result.errors.push('AWB number is already assigned to another shipment');
+    } else {
+      if (row.data.awb_number) {
+        usedAwbNumbers.add(row.data.awb_number);
+      }
+      entries.push({
+        importKey: row.importKey,
+        trackingNumber: shipmentService.generateTrackingNumber(trackingNumbers),
+        data: {
+          ...row.data,
+          origin: ShipmentValidator.sanitizeString(row.data.origin!),
+          destination: ShipmentValidator.sanitizeString(row.data.destination!),
+        },
+      });
+    }
+
+    results.push(result);
+  }
+
+  let created = 0;
+
+  if (!dryRun && entries.length > 0) {
+    const workflow = await workflowService.getWorkflowForOrganization(req.user!.organizationId);
+    const shipments = await importService.commit(req.user!, entries, workflow);
+    await auditService.logCreate(req.user!, shipments);
+    const byKey = new Map(shipments.map(shipment => [shipment.import_key, shipment]));
+
+    entries.forEach(entry => {
+      const shipment = byKey.get(entry.importKey);
+      const result = results.find(r => rows[r.row - 1].importKey === entry.importKey);
+      if (shipment && result) {
+        result.status = 'created';
+        result.shipment_id = shipment.id;
+        result.tracking_number = shipment.tracking_number;
+      }
     });
+    created = shipments.length;
+  }
+
+  const summary: ImportSummary = {
+    dryRun: Boolean(dryRun),
+    total: rows.length,
+    valid: entries.length,
+    invalid: results.filter(r => r.status === 'invalid').length,
+    duplicates: results.filter(r => r.status === 'duplicate').length,
+    created,
+    rows: results,
+  };
+
+  res.status(dryRun ? 200 : 201).json(summary);
+}));
+
+/**
+ * POST /api/shipments/bulk
+ * Apply a status change, field update or delete to many shipments
+ * Body: { ids, action: 'status' | 'update' | 'delete', status?, notes?, reason_code?, reason_text?, updates? }
+ * Each shipment succeeds or fails independently, with the status checks of PUT /:id;
+ * cargo cannot be made hazardous in bulk
+ */
+router.post('/bulk', requirePermission('shipments:write'), validateBulkAction, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { ids, action, status, notes, reason_code, reason_text, updates } = req.body as BulkActionRequest;
+  const uniqueIds = [...new Set(ids)];
+
+  if (action === 'delete' && !new AccessPolicy(req.user!.role).can('shipments:delete')) {
+    res.status(403).json({ error: 'Your role does not allow this action (shipments:delete)' });
+    return;
+  }
+
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('shipments')
+    .select('*')
+    .in('id', uniqueIds)
+    .eq('organization_id', req.user!.organizationId);
+
+  if (fetchError) {
+    throw new Error('Failed to fetch shipments');
+  }
+
+  const byId = new Map((existing || []).map(shipment => [shipment.id, shipment]));
+  const results = new Map<string, BulkActionItemResult>();
+  const eligible: string[] = [];
 
-  res.status(201).json({ shipment });
+  // Field updates follow the cold chain rules of PUT /:id; a cargo type other than
+  // perishable drops the temperature range of every shipment updated
+  const fieldUpdates: Record<string, unknown> = { ...updates };
+  if (action === 'update' && updates?.cargo_type !== undefined &&
+      updates.cargo_type?.toLowerCase() !== PERISHABLE_CARGO_TYPE) {
+    fieldUpdates.temp_min_c = null;
+    fieldUpdates.temp_max_c = null;
+  }
+
+  const workflow = action === 'status'
+    ? await workflowService.getWorkflowForOrganization(req.user!.organizationId)
+    : null;
+
+  const reasonValidation = workflow
+    ? ShipmentValidator.validateStatusReason(status!, { reason_code, reason_text }, workflow)
+    : null;
+  if (reasonValidation && !reasonValidation.isValid) {
+    res.status(400).json({ error: 'Validation failed', details: reasonValidation.errors });
+    return;
+  }
+  const reason = workflow ? StatusReason.fromData({ reason_code, reason_text }) : null;
+
+  for (const id of uniqueIds) {
+    const shipment = byId.get(id);
+    const coldChainErrors = shipment && action === 'update' ? applyColdChainRules(shipment, { ...updates }) : [];
+    const statusError = shipment && workflow && shipment.status !== status
+      ? await checkStatusChange(shipment, status!, workflow)
+      : null;
+
+    if (!shipment) {
+      results.set(id, { id, success: false, error: 'Shipment not found' });
+    } else if (action === 'update' && updates?.weight_kg !== undefined && shipment.total_pieces) {
+      results.set(id, { id, success: false, error: 'Weight is calculated from the shipment pieces' });
+    } else if (action === 'update' && updates?.cargo_type?.toLowerCase() === HAZARDOUS_CARGO_TYPE &&
+               shipment.cargo_type?.toLowerCase() !== HAZARDOUS_CARGO_TYPE) {
+      // A bulk update cannot carry the declaration that hazardous cargo needs
+      results.set(id, {
+        id,
+        success: false,
+        error: 'Hazardous cargo needs a dangerous goods declaration; change the cargo type on the shipment',
+      });
+    } else if (coldChainErrors.length > 0) {
+      results.set(id, { id, success: false, error: coldChainErrors.join('; ') });
+    } else if (workflow && shipment.status === status) {
+      results.set(id, { id, success: false, error: `Shipment is already '${status}'`, status: shipment.status });
+    } else if (statusError) {
+      results.set(id, { id, success: false, error: statusError, status: shipment.status });
+    } else {
+      eligible.push(id);
+    }
+  }
+
+  if (eligible.length > 0) {
+    let error: unknown = null;
+
+    if (action === 'delete') {
+      await documentService.removeFilesForShipments(req.user!.organizationId, eligible);
+      await deliveryService.removeFilesForShipments(req.user!.organizationId, eligible);
+      ({ error } = await supabaseAdmin
+        .from('shipments')
+        .delete()
+        .in('id', eligible)
+        .eq('organization_id', req.user!.organizationId));
+    } else {
+      ({ error } = await supabaseAdmin
+        .from('shipments')
+        .update({
+          ...(action === 'status' ? { status, ...CLEARED_PROPOSAL } : fieldUpdates),
+          ...(action === 'update' && updates?.weight_kg !== undefined
+            ? { chargeable_weight_kg: CargoPiece.chargeableWeight(updates.weight_kg) }
+            : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .in('id', eligible)
+        .eq('organization_id', req.user!.organizationId));
+    }
+
+    if (error) {
+      console.error('Bulk action error:', error);
+      eligible.forEach(id => results.set(id, { id, success: false, error: `Failed to ${action} shipment` }));
+    } else {
+      if (action === 'status') {
+        await supabaseAdmin
+          .from('tracking_events')
+          .insert(eligible.map(id => ({
+            shipment_id: id,
+            status,
+            location: byId.get(id)!.origin,
+            notes: notes || `Status changed to ${status} (bulk update)`,
+            ...(reason ? reason.toJSON() : {}),
+          })));
+      }
+
+      eligible.forEach(id => results.set(id, {
+        id,
+        success: true,
+        ...(action === 'status' ? { status } : {}),
+      }));
+
+      if (action === 'delete') {
+        await auditService.logDelete(req.user!, eligible.map(id => byId.get(id)!));
+      } else {
+        for (const id of eligible) {
+          await auditService.logUpdate(req.user!, id, byId.get(id)!, action === 'status' ? { status } : fieldUpdates);
+          await slaService.refreshShipment(req.user!.organizationId, id);
+        }
+      }
+    }
+  }
+
+  const ordered = uniqueIds.map(id => results.get(id)!);
+  const succeeded = ordered.filter(result => result.success).length;
+
+  const response: BulkActionResult = {
+    action,
+    total: ordered.length,
+    succeeded,
+    failed: ordered.length - succeeded,
+    results: ordered,
+  };
+
+  res.json(response);
 }));
 
 /**
  * PUT /api/shipments/:id
  * Update a shipment
+ * A status change may carry { location, notes, reason_code, reason_text }; the reason is
+ * required for statuses such as delayed and cancelled and stored on the tracking event;
+ * arrival goes through POST /:id/delivery
  */
-router.put('/:id', validateUUID, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.put('/:id', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
-  const updates = req.body;
+  const { location, notes, reason_code, reason_text } = req.body;
+
+  // Only known shipment columns can be changed
+  const updates: Record<string, unknown> = {};
+  for (const field of UPDATABLE_FIELDS) {
+    if (req.body[field] !== undefined) {
+      updates[field] = req.body[field];
+    }
+  }
+
+  const validation = ShipmentValidator.validateUpdate(updates);
+  if (!validation.isValid) {
+    res.status(400).json({ error: 'Validation failed', details: validation.errors });
+    return;
+  }
+
+  if (updates.awb_number) {
+    updates.awb_number = AirWaybill.normalize(updates.awb_number as string);
+    if (await awbService.isInUse(req.user!.organizationId, updates.awb_number as string, id)) {
+      res.status(400).json({ error: 'AWB number is already assigned to another shipment' });
+      return;
+    }
+  } else if (updates.awb_number === '') {
+    updates.awb_number = null;
+  }
+
+  if (updates.tracking_pin !== undefined) {
+    updates.tracking_pin = updates.tracking_pin
+      ? ShipmentValidator.normalizeTrackingPin(updates.tracking_pin as string)
+      : null;
+  }
+
+  if (updates.service_level !== undefined) {
+    updates.service_level = (updates.service_level as string).toLowerCase();
+  }
+
+  // Cargo types are stored in lower case, as they are compared
+  if (updates.cargo_type) {
+    updates.cargo_type = (updates.cargo_type as string).toLowerCase();
+  }
+
+  // Airports are stored by IATA code, also when given by ICAO code
+  for (const field of ['origin_iata', 'dest_iata']) {
+    if (updates[field] !== undefined) {
+      updates[field] = Airport.findByCode(updates[field] as string | null)?.getIata() ?? null;
+    }
+  }
 
   // Verify ownership
   const { data: existing, error: fetchError } = await supabaseAdmin
     .from('shipments')
-    .select('status')
+    .select('*')
     .eq('id', id)
-    .eq('user_id', req.user!.id)
+    .eq('organization_id', req.user!.organizationId)
     .single();
 
   if (fetchError || !existing) {
     throw new NotFoundError('Shipment');
   }
 
-  // Validate status transition if status is being updated
+  // Shipments with pieces take their weight from the pieces
+  if (updates.weight_kg !== undefined) {
+    if (existing.total_pieces) {
+      res.status(400).json({ error: 'Weight is calculated from the shipment pieces' });
+      return;
+    }
+    updates.chargeable_weight_kg = CargoPiece.chargeableWeight(updates.weight_kg as number | null);
+  }
+
+  const coldChainErrors = applyColdChainRules(existing, updates);
+  if (coldChainErrors.length > 0) {
+    res.status(400).json({ error: 'Validation failed', details: coldChainErrors });
+    return;
+  }
+
+  // Validate status transition against the organization's workflow if status is being updated
+  let workflow: StatusWorkflow | null = null;
   if (updates.status && updates.status !== existing.status) {
-    const currentStatus = StatusFactory.createStatus(existing.status);
-    if (!currentStatus.canTransitionTo(updates.status)) {
-      res.status(400).json({ 
-        error: `Invalid status transition from '${existing.status}' to '${updates.status}'` 
-      });
+    workflow = await workflowService.getWorkflowForOrganization(req.user!.organizationId);
+    const statusError = await checkStatusChange(
+      { ...existing, ...updates, status: existing.status },
+      updates.status as string,
+      workflow
+    );
+    if (statusError) {
+      res.status(400).json({ error: statusError });
+      return;
+    }
+
+    const reasonValidation = ShipmentValidator.validateStatusReason(
+      updates.status as string,
+      { reason_code, reason_text },
+      workflow
+    );
+    if (!reasonValidation.isValid) {
+      res.status(400).json({ error: 'Validation failed', details: reasonValidation.errors });
       return;
     }
   }
@@ -221,10 +674,11 @@ router.put('/:id', validateUUID, asyncHandler(async (req: AuthenticatedRequest,
     .from('shipments')
     .update({
       ...updates,
+      ...(updates.status ? CLEARED_PROPOSAL : {}),
       updated_at: new Date().toISOString(),
     })
     .eq('id', id)
-    .eq('user_id', req.user!.id)
+    .eq('organization_id', req.user!.organizationId)
     .select()
     .single();
 
@@ -232,39 +686,706 @@ router.put('/:id', validateUUID, asyncHandler(async (req: AuthenticatedRequest,
     throw new Error('Failed to update shipment');
   }
 
-  // Create tracking event for status change
+  await auditService.logUpdate(req.user!, id, existing, updates);
+
+  // Create tracking event for status change, with the reason for delays and cancellations
   if (updates.status) {
+    const reason = workflow ? StatusReason.fromData({ reason_code, reason_text }) : null;
+    const status = reason
+      ? StatusFactory.createStatus(updates.status as string, reason.toString(), workflow!)
+      : null;
+
     await supabaseAdmin
       .from('tracking_events')
       .insert({
         shipment_id: id,
         status: updates.status,
-        location: updates.location || shipment.origin,
-        notes: updates.notes || `Status changed to ${updates.status}`,
+        location: location || shipment.origin,
+        notes: notes || status?.getDescription() || `Status changed to ${updates.status}`,
+        ...(reason ? reason.toJSON() : {}),
+      });
+  }
+
+  // A new ETA, lane, service level or status changes the SLA position
+  const sla = await slaService.refreshShipment(req.user!.organizationId, id);
+
+  res.json({ shipment: { ...shipment, ...sla } });
+}));
+
+/**
+ * GET /api/shipments/:id/history
+ * Get the field-level audit history of a shipment (also after deletion)
+ */
+router.get('/:id/history', validateUUID, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const history = await auditService.getShipmentHistory(req.user!.organizationId, req.params.id);
+  res.json({ history });
+}));
+
+/**
+ * GET /api/shipments/:id/legs
+ * Get the ordered legs of a shipment
+ */
+router.get('/:id/legs', validateUUID, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('id')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  const legs = await legService.getLegs(id);
+  res.json({ legs });
+}));
+
+/**
+ * PUT /api/shipments/:id/legs
+ * Replace the legs of a shipment that has not departed yet
+ */
+router.put('/:id/legs', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const { legs } = req.body;
+
+  // Checked before anything is changed; without legs the existing ones would be removed
+  if (!Array.isArray(legs)) {
+    res.status(400).json({ error: 'Validation failed', details: ['Legs must be an array'] });
+    return;
+  }
+
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('id, status, origin, destination')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  const workflow = await workflowService.getWorkflowForOrganization(req.user!.organizationId);
+  if (shipment.status !== workflow.getInitialStatus()) {
+    res.status(400).json({ error: 'Legs can only be changed before the shipment departs' });
+    return;
+  }
+
+  const result = ShipmentValidator.validateCreate({
+    origin: shipment.origin,
+    destination: shipment.destination,
+    legs,
+  });
+
+  if (!result.isValid) {
+    res.status(400).json({ error: 'Validation failed', details: result.errors });
+    return;
+  }
+
+  const previousLegs = await legService.getLegs(id);
+  const updatedLegs = await legService.replaceLegs(id, legs);
+  await legService.syncShipmentFromLegs(id, workflow);
+  await slaService.refreshShipment(req.user!.organizationId, id);
+
+  await auditService.logChange(
+    req.user!, id, 'update', 'legs', describeLegs(previousLegs), describeLegs(updatedLegs)
+  );
+
+  res.json({ legs: updatedLegs });
+}));
+
+/**
+ * PUT /api/shipments/:id/pieces
+ * Replace the piece lines of a shipment and recalculate its weight totals
+ * Body: { pieces: [{ quantity?, length_cm, width_cm, height_cm, weight_kg, packaging_type? }] }
+ */
+router.put('/:id/pieces', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const { pieces } = req.body;
+
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('*')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  const result = ShipmentValidator.validatePieces(pieces);
+  if (!result.isValid) {
+    res.status(400).json({ error: 'Validation failed', details: result.errors });
+    return;
+  }
+
+  const { pieces: savedPieces, summary } = await pieceService.replacePieces(
+    id,
+    (pieces as PieceData[]).map(piece => new CargoPiece(piece)),
+    shipment.weight_kg
+  );
+
+  await auditService.logChange(
+    req.user!, id, 'update', 'pieces', describePieces(shipment), describePieces(summary)
+  );
+  await auditService.logUpdate(req.user!, id, shipment, { weight_kg: summary.weight_kg });
+
+  res.json({ pieces: savedPieces, shipment: { ...shipment, ...summary } });
+}));
+
+/**
+ * PUT /api/shipments/:id/dangerous-goods
+ * Replace the dangerous goods declaration of a hazardous shipment
+ * Body: { items: [{ un_number, proper_shipping_name, class_division, packing_group?, quantity, cargo_aircraft_only? }] }
+ * A declaration that fails the acceptance checks is saved, but the shipment cannot
+ * be assigned to a flight until it passes
+ */
+router.put('/:id/dangerous-goods', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const { items } = req.body;
+
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('id, cargo_type')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  if (shipment.cargo_type !== HAZARDOUS_CARGO_TYPE) {
+    res.status(400).json({ error: 'Dangerous goods can only be declared for hazardous cargo' });
+    return;
+  }
+
+  const result = ShipmentValidator.validateDangerousGoods(items);
+  if (!result.isValid) {
+    res.status(400).json({ error: 'Validation failed', details: result.errors });
+    return;
+  }
+
+  const previous = await dangerousGoodsService.getItems(id);
+  const declaration = await dangerousGoodsService.replaceItems(
+    id,
+    (items as DangerousGoodsItemData[]).map(item => new DangerousGoodsItem(item))
+  );
+
+  await auditService.logChange(
+    req.user!, id, 'update', 'dangerous goods', describeDangerousGoods(previous), describeDangerousGoods(declaration.items)
+  );
+
+  res.json(declaration);
+}));
+
+/**
+ * Fetch a perishable shipment of the user's organization
+ * Sends the error response and returns null when it does not exist or is not perishable
+ */
+async function getPerishableShipment(req: AuthenticatedRequest, res: Response): Promise<Shipment | null> {
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('*')
+    .eq('id', req.params.id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  if (shipment.cargo_type?.toLowerCase() !== PERISHABLE_CARGO_TYPE) {
+    res.status(400).json({ error: 'Cold chain monitoring is only available for perishable cargo' });
+    return null;
+  }
+
+  return shipment;
+}
+
+/**
+ * GET /api/shipments/:id/cold-chain
+ * Get the temperature range, exception, logged readings and excursions of a perishable shipment
+ */
+router.get('/:id/cold-chain', validateUUID, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const shipment = await getPerishableShipment(req, res);
+  if (!shipment) return;
+
+  res.json(await coldChainService.getColdChain(shipment));
+}));
+
+/**
+ * POST /api/shipments/:id/cold-chain/readings
+ * Log a temperature reading; a reading outside the range records an excursion
+ * and raises the cold chain exception
+ * Body: { temperature_c, recorded_at?, location?, notes? }
+ */
+router.post('/:id/cold-chain/readings', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const shipment = await getPerishableShipment(req, res);
+  if (!shipment) return;
+
+  const errors = TemperatureReading.validate(req.body);
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Validation failed', details: errors });
+    return;
+  }
+
+  const result = await coldChainService.logReading(req.user!, shipment, new TemperatureReading(req.body));
+  if (result.error) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  res.status(201).json({ reading: result.reading, excursion: result.excursion });
+}));
+
+/**
+ * POST /api/shipments/:id/cold-chain/resolve
+ * Clear the cold chain exception of a shipment
+ * Body: { notes? }
+ */
+router.post('/:id/cold-chain/resolve', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const shipment = await getPerishableShipment(req, res);
+  if (!shipment) return;
+
+  const notes = typeof req.body.notes === 'string' ? req.body.notes.slice(0, 1000) : undefined;
+  const result = await coldChainService.resolveException(req.user!, shipment, notes);
+  if (result.error) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  res.json({ shipment: result.shipment });
+}));
+
+/**
+ * GET /api/shipments/:id/customs
+ * Get the customs clearance steps of a shipment with its dwell time
+ */
+router.get('/:id/customs', validateUUID, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('id')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  const clearance = await customsService.getClearance(id);
+  res.json({ customs: clearance.toJSON() });
+}));
+
+/**
+ * POST /api/shipments/:id/customs
+ * Record the next customs step
+ * Body: { status, broker_reference?, occurred_at?, notes?, hold_shipment? }
+ * A hold (notes required) moves the shipment to a held or delayed status unless hold_shipment is false
+ */
+router.post('/:id/customs', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const { hold_shipment = true, ...stepData } = req.body;
+
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('*')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  const errors = CustomsStep.validate(stepData);
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Validation failed', details: errors });
+    return;
+  }
+
+  const result = await customsService.recordStep(req.user!, shipment, new CustomsStep(stepData), hold_shipment !== false);
+  if (result.error) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  res.status(201).json({ customs: result.clearance!.toJSON(), shipmentStatus: result.shipmentStatus });
+}));
+
+/**
+ * POST /api/shipments/:id/status-proposal
+ * Apply the status the assigned flight's data proposes
+ * Each step is recorded as an automatic tracking event
+ */
+router.post('/:id/status-proposal', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('*')
+    .eq('id', req.params.id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  const result = await statusProgressionService.applyProposal(req.user!, shipment);
+  if (result.error) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  res.json({ shipment: result.shipment });
+}));
+
+/**
+ * DELETE /api/shipments/:id/status-proposal
+ * Dismiss the proposed status; it is proposed again if the flight data still calls for it
+ */
+router.delete('/:id/status-proposal', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!(await statusProgressionService.dismissProposal(req.user!.organizationId, req.params.id))) {
+    throw new NotFoundError('Shipment');
+  }
+
+  res.json({ message: 'Status proposal dismissed' });
+}));
+
+/**
+ * GET /api/shipments/:id/documents
+ * Get the documents attached to a shipment
+ */
+router.get('/:id/documents', validateUUID, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('id')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  const documents = await documentService.getDocuments(req.user!.organizationId, id);
+  res.json({ documents });
+}));
+
+/**
+ * POST /api/shipments/:id/documents?type=commercial_invoice
+ * Attach a document; the request body is the raw file
+ * Headers: Content-Type (file type), X-File-Name (URI-encoded file name)
+ */
+router.post(
+  '/:id/documents',
+  validateUUID,
+  requirePermission('shipments:write'),
+  express.raw({ type: () => true, limit: MAX_DOCUMENT_BYTES }),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    const { data: shipment, error } = await supabaseAdmin
+      .from('shipments')
+      .select('id')
+      .eq('id', id)
+      .eq('organization_id', req.user!.organizationId)
+      .single();
+
+    if (error || !shipment) {
+      throw new NotFoundError('Shipment');
+    }
+
+    let fileName = '';
+    try {
+      fileName = decodeURIComponent(req.get('X-File-Name') || '');
+    } catch {
+      // Reported as a missing file name below
+    }
+
+    const upload = {
+      file_name: fileName,
+      content_type: req.get('Content-Type') || '',
+      document_type: String(req.query.type || ''),
+      content: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+    };
+
+    const errors = ShipmentDocument.validate(upload);
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Validation failed', details: errors });
+      return;
+    }
+
+    const result = await documentService.upload(req.user!, id, new ShipmentDocument(upload));
+    if (result.error) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    await auditService.logChange(req.user!, id, 'update', 'documents', null, result.document!.file_name);
+    res.status(201).json({ document: result.document });
+  })
+);
+
+/**
+ * GET /api/shipments/:id/documents/:documentId
+ * Download a document
+ */
+router.get('/:id/documents/:documentId', validateUUID, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id, documentId } = req.params;
+
+  const document = await documentService.getDocument(req.user!.organizationId, id, documentId);
+  const content = document ? await documentService.readContent(document) : null;
+
+  if (!document || !content) {
+    throw new NotFoundError('Document');
+  }
+
+  res.setHeader('Content-Type', document.content_type);
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename*=UTF-8''${encodeURIComponent(document.file_name)}`
+  );
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.send(content);
+}));
+
+/**
+ * DELETE /api/shipments/:id/documents/:documentId
+ * Delete a document and its stored file
+ */
+router.delete('/:id/documents/:documentId', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id, documentId } = req.params;
+
+  const document = await documentService.getDocument(req.user!.organizationId, id, documentId);
+  if (!document || !(await documentService.deleteDocument(req.user!.organizationId, id, documentId))) {
+    throw new NotFoundError('Document');
+  }
+
+  await auditService.logChange(req.user!, id, 'update', 'documents', document.file_name, null);
+  res.json({ message: 'Document deleted successfully' });
+}));
+
+/**
+ * POST /api/shipments/:id/delivery
+ * Record proof of delivery, moving the shipment to arrived if it has not arrived yet
+ * Body: { recipient_name, signature (PNG data URL), delivered_at?, location?, latitude?, longitude?,
+ *         photos? (PNG/JPEG data URLs), condition?, condition_notes? }
+ */
+router.post('/:id/delivery', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('*')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  const errors = ProofOfDelivery.validate(req.body);
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Validation failed', details: errors });
+    return;
+  }
+
+  if (shipment.status !== DELIVERED_STATUS) {
+    const workflow = await workflowService.getWorkflowForOrganization(req.user!.organizationId);
+    if (!StatusFactory.isValidTransition(shipment.status, DELIVERED_STATUS, workflow)) {
+      res.status(400).json({
+        error: `Invalid status transition from '${shipment.status}' to '${DELIVERED_STATUS}'`
       });
+      return;
+    }
+  }
+
+  const result = await deliveryService.recordDelivery(req.user!, shipment, new ProofOfDelivery(req.body));
+  if (result.error) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  await slaService.refreshShipment(req.user!.organizationId, id);
+
+  res.status(201).json({ delivery: result.delivery });
+}));
+
+/**
+ * GET /api/shipments/:id/delivery
+ * Get the proof of delivery with its signature and photos
+ */
+router.get('/:id/delivery', validateUUID, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const delivery = await deliveryService.getDelivery(req.user!.organizationId, req.params.id);
+
+  if (!delivery) {
+    throw new NotFoundError('Proof of delivery');
   }
 
-  res.json({ shipment });
+  res.json({ delivery });
+}));
+
+/**
+ * GET /api/shipments/:id/delivery/receipt
+ * Download a printable HTML delivery receipt
+ */
+router.get('/:id/delivery/receipt', validateUUID, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  const { data: shipment } = await supabaseAdmin
+    .from('shipments')
+    .select('*')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  const delivery = shipment ? await deliveryService.getDelivery(req.user!.organizationId, id) : null;
+  if (!shipment || !delivery) {
+    throw new NotFoundError('Proof of delivery');
+  }
+
+  const html = ProofOfDelivery.renderReceipt({
+    tracking_number: shipment.tracking_number,
+    awb_number: shipment.awb_number ? new AirWaybill(shipment.awb_number).format() : null,
+    origin: shipment.origin,
+    destination: shipment.destination,
+    recipient_name: delivery.recipient_name,
+    delivered_at: delivery.delivered_at,
+    location: delivery.location,
+    condition: delivery.condition,
+    condition_notes: delivery.condition_notes,
+    recorded_by_email: delivery.recorded_by_email,
+    signature: delivery.signature || '',
+    photos: delivery.photos,
+  });
+
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="delivery-receipt-${shipment.tracking_number}.html"`);
+  res.send(html);
+}));
+
+/**
+ * PATCH /api/shipments/:id/legs/:legId
+ * Update a single leg (status or planned times)
+ * Delaying or cancelling a leg requires { reason_code, reason_text? }
+ * The shipment status and ETA are re-derived from all legs
+ */
+router.patch('/:id/legs/:legId', validateUUID, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const legId = parseInt(req.params.legId);
+  const { status, planned_departure, planned_arrival, reason_code, reason_text } = req.body;
+
+  if (isNaN(legId)) {
+    res.status(400).json({ error: 'Invalid leg ID' });
+    return;
+  }
+
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('id, status')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  const leg = await legService.getLeg(id, legId);
+  if (!leg) {
+    throw new NotFoundError('Leg');
+  }
+
+  // Legs always follow the built-in flight lifecycle
+  if (status && status !== leg.status && !StatusFactory.isValidTransition(leg.status, status)) {
+    res.status(400).json({
+      error: `Invalid leg status transition from '${leg.status}' to '${status}'`,
+    });
+    return;
+  }
+
+  const statusChanged = !!status && status !== leg.status;
+  if (statusChanged) {
+    const reasonValidation = ShipmentValidator.validateStatusReason(status, { reason_code, reason_text });
+    if (!reasonValidation.isValid) {
+      res.status(400).json({ error: 'Validation failed', details: reasonValidation.errors });
+      return;
+    }
+  }
+
+  const updatedLeg = await legService.updateLeg(legId, {
+    ...(status ? { status } : {}),
+    ...(planned_departure !== undefined ? { planned_departure } : {}),
+    ...(planned_arrival !== undefined ? { planned_arrival } : {}),
+  });
+
+  const workflow = await workflowService.getWorkflowForOrganization(req.user!.organizationId);
+  const reason = statusChanged ? StatusReason.fromData({ reason_code, reason_text }) : null;
+  const shipmentStatus = await legService.syncShipmentFromLegs(
+    id,
+    workflow,
+    status
+      ? `Leg ${leg.sequence} (${leg.origin} → ${leg.destination}) ${status.replace('_', ' ')}${reason ? `: ${reason}` : ''}`
+      : undefined,
+    reason
+  );
+
+  for (const field of ['status', 'planned_departure', 'planned_arrival'] as const) {
+    if (updatedLeg[field] !== leg[field]) {
+      await auditService.logChange(req.user!, id, 'update', `leg ${leg.sequence} ${field}`, leg[field], updatedLeg[field]);
+    }
+  }
+  if (shipmentStatus) {
+    await auditService.logUpdate(req.user!, id, shipment, { status: shipmentStatus });
+  }
+  await slaService.refreshShipment(req.user!.organizationId, id);
+
+  res.json({ leg: updatedLeg, shipmentStatus });
 }));
 
 /**
  * DELETE /api/shipments/:id
  * Purpose to delete a shipment
  */
-router.delete('/:id', validateUUID, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.delete('/:id', validateUUID, requirePermission('shipments:delete'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
 
-  // Verify ownership and delete
+  // Verify ownership; the last known values are kept in the audit log
+  const { data: existing } = await supabaseAdmin
+    .from('shipments')
+    .select('*')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (!existing) {
+    throw new NotFoundError('Shipment');
+  }
+
+  await documentService.removeFilesForShipments(req.user!.organizationId, [id]);
+  await deliveryService.removeFilesForShipments(req.user!.organizationId, [id]);
+
   const { error } = await supabaseAdmin
     .from('shipments')
     .delete()
     .eq('id', id)
-    .eq('user_id', req.user!.id);
+    .eq('organization_id', req.user!.organizationId);
 
   if (error) {
     throw new NotFoundError('Shipment');
   }
 
+  await auditService.logDelete(req.user!, [existing]);
   res.json({ message: 'Shipment deleted successfully' });
 }));
 
@@ -0,0 +1,134 @@
+/**
+ * SLA Routes
+ * Service level targets, the SLA dashboard summary and escalations of predicted breaches
+ */
+
+import { Router, Response } from 'express';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+import { ShipmentValidator } from '../middleware/validation';
+import { slaService } from '../services/slaService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * Read SLA target fields from a request body
+ */
+function slaTargetFromBody(body: Record<string, unknown>) {
+  return {
+    origin: String(body.origin || ''),
+    destination: String(body.destination || ''),
+    service_level: String(body.service_level || '*'),
+    transit_hours: Number(body.transit_hours),
+    at_risk_hours: body.at_risk_hours != null && body.at_risk_hours !== '' ? Number(body.at_risk_hours) : undefined,
+  };
+}
+
+/**
+ * GET /api/sla/targets
+ * List the organization's SLA targets
+ */
+router.get('/targets', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const targets = await slaService.getTargets(req.user!.organizationId);
+  res.json({ targets });
+}));
+
+/**
+ * POST /api/sla/targets
+ * Create an SLA target ('*' matches any origin, destination or service level)
+ * Body: { origin, destination, service_level, transit_hours, at_risk_hours? }
+ */
+router.post('/targets', requirePermission('settings:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const data = slaTargetFromBody(req.body);
+
+  const validation = ShipmentValidator.validateSlaTarget(data);
+  if (!validation.isValid) {
+    res.status(400).json({ error: 'Validation failed', details: validation.errors });
+    return;
+  }
+
+  const { target, error } = await slaService.createTarget(req.user!, data);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  await slaService.evaluateOpen(req.user!.organizationId);
+  res.status(201).json({ target });
+}));
+
+/**
+ * PUT /api/sla/targets/:id
+ * Replace an SLA target; open shipments are re-evaluated
+ */
+router.put('/targets/:id', requirePermission('settings:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id);
+  const data = slaTargetFromBody(req.body);
+
+  const validation = ShipmentValidator.validateSlaTarget(data);
+  if (!validation.isValid) {
+    res.status(400).json({ error: 'Validation failed', details: validation.errors });
+    return;
+  }
+
+  const target = isNaN(id) ? null : await slaService.updateTarget(req.user!.organizationId, id, data);
+  if (!target) {
+    throw new NotFoundError('SLA target');
+  }
+
+  await slaService.evaluateOpen(req.user!.organizationId);
+  res.json({ target });
+}));
+
+/**
+ * DELETE /api/sla/targets/:id
+ * Delete an SLA target; open shipments are re-evaluated
+ */
+router.delete('/targets/:id', requirePermission('settings:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id) || !(await slaService.deleteTarget(req.user!.organizationId, id))) {
+    throw new NotFoundError('SLA target');
+  }
+
+  await slaService.evaluateOpen(req.user!.organizationId);
+  res.json({ message: 'SLA target deleted successfully' });
+}));
+
+/**
+ * GET /api/sla/summary
+ * Open shipments by SLA status, 30-day compliance, at-risk shipments and open escalations
+ */
+router.get('/summary', requirePermission('analytics:read'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const summary = await slaService.getSummary(req.user!.organizationId);
+  res.json(summary);
+}));
+
+/**
+ * POST /api/sla/evaluate
+ * Evaluate all open shipments now
+ */
+router.post('/evaluate', requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const evaluated = await slaService.evaluateOpen(req.user!.organizationId);
+  res.json({ evaluated });
+}));
+
+/**
+ * POST /api/sla/escalations/:id/acknowledge
+ * Acknowledge an escalation so it leaves the dashboard
+ */
+router.post('/escalations/:id/acknowledge', requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const id = parseInt(req.params.id);
+
+  const escalation = isNaN(id) ? null : await slaService.acknowledgeEscalation(req.user!, id);
+  if (!escalation) {
+    throw new NotFoundError('Open escalation');
+  }
+
+  res.json({ escalation });
+}));
+
+export default router;
@@ -4,10 +4,16 @@
  */
 
 import { Router, Response } from 'express';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
 import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
 import { openskyService } from '../services/openskyService';
+import { trackedFlightService } from '../services/trackedFlightService';
 import { supabaseAdmin } from '../config/supabase';
+import { legService } from '../services/legService';
+import { ShipmentRoute } from '../classes/ShipmentRoute';
+import { workflowService } from '../services/workflowService';
+import { auditService } from '../services/auditService';
+import { dangerousGoodsService, HAZARDOUS_CARGO_TYPE } from '../services/dangerousGoodsService';
 
 const router = Router();
 
@@ -59,6 +65,26 @@ router.get('/flights/:icao24', asyncHandler(async (req, res) => {
   res.json({ flight: flight.toJSON() });
 }));
 
+/**
+ * GET /api/tracking/flights/:icao24/track
+ * Get the recorded position history of a cached flight
+ * Query: hours - how far back to go (default 24, at most 168)
+ */
+router.get('/flights/:icao24/track', requireAuth, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const hours = Math.min(Math.max(parseInt(req.query.hours as string, 10) || 24, 1), 168);
+
+  const track = await trackedFlightService.getTrackByIcao24(
+    req.params.icao24,
+    new Date(Date.now() - hours * 60 * 60 * 1000)
+  );
+
+  if (!track) {
+    throw new NotFoundError('Flight');
+  }
+
+  res.json({ track: track.toJSON() });
+}));
+
 /**
  * GET /api/tracking/flights/search/:callsign
  * Search flights by callsign prefix
@@ -97,10 +123,12 @@ router.get('/available-flights', requireAuth, asyncHandler(async (_req: Authenti
 
 /**
  * POST /api/tracking/assign
- * Assign a shipment to a flight
+ * Assign a shipment (or one leg of a multi-leg shipment) to a flight
+ * When no legId is given for a multi-leg shipment, the current leg is used
+ * Hazardous shipments can only be assigned once their dangerous goods declaration passes
  */
-router.post('/assign', requireAuth, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const { shipmentId, flightIcao24 } = req.body;
+router.post('/assign', requireAuth, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { shipmentId, flightIcao24, legId } = req.body;
 
   if (!shipmentId || !flightIcao24) {
     res.status(400).json({ error: 'shipmentId and flightIcao24 are required' });
@@ -110,15 +138,36 @@ router.post('/assign', requireAuth, asyncHandler(async (req: AuthenticatedReques
   // Verify shipment ownership
   const { data: shipment, error: shipmentError } = await supabaseAdmin
     .from('shipments')
-    .select('id, status')
+    .select('id, status, cargo_type')
     .eq('id', shipmentId)
-    .eq('user_id', req.user!.id)
+    .eq('organization_id', req.user!.organizationId)
     .single();
 
   if (shipmentError || !shipment) {
     throw new NotFoundError('Shipment');
   }
 
+  if (shipment.cargo_type === HAZARDOUS_CARGO_TYPE) {
+    const { check } = await dangerousGoodsService.getDeclaration(shipmentId);
+    if (!check.accepted) {
+      res.status(400).json({
+        error: 'The dangerous goods declaration must pass the acceptance checks before the shipment is assigned',
+        details: check.issues,
+      });
+      return;
+    }
+  }
+
+  // Resolve the leg being assigned, if the shipment has legs
+  const legs = await legService.getLegs(shipmentId);
+  const leg = legId !== undefined
+    ? legs.find(l => l.id === Number(legId))
+    : new ShipmentRoute(legs).getCurrentLeg();
+
+  if (legId !== undefined && !leg) {
+    throw new NotFoundError('Leg');
+  }
+
   // Get flight info
   const flight = await openskyService.getFlightByIcao(flightIcao24);
 
@@ -128,29 +177,14 @@ router.post('/assign', requireAuth, asyncHandler(async (req: AuthenticatedReques
 
   // Cache flight in database
   const flightData = flight.toJSON();
-  const { data: trackedFlight } = await supabaseAdmin
-    .from('tracked_flights')
-    .upsert({
-      icao24: flight.getIcao24(),
-      callsign: flight.getCallsign(),
-      origin_country: flight.getOriginCountry(),
-      latitude: flightData.latitude as number,
-      longitude: flightData.longitude as number,
-      altitude: flightData.altitude as number,
-      velocity: flightData.speed as number,
-      heading: flightData.heading as number,
-      vertical_rate: flightData.verticalRate as number,
-      on_ground: flight.isOnGround(),
-      last_updated: new Date().toISOString(),
-    }, { onConflict: 'icao24' })
-    .select()
-    .single();
+  const trackedFlight = await trackedFlightService.upsert(flight);
 
   // Create assignment
   const { error: assignError } = await supabaseAdmin
     .from('shipment_assignments')
     .insert({
       shipment_id: shipmentId,
+      leg_id: leg?.id ?? null,
       flight_id: trackedFlight?.id,
     });
 
@@ -159,6 +193,43 @@ router.post('/assign', requireAuth, asyncHandler(async (req: AuthenticatedReques
     throw new Error('Failed to assign shipment to flight');
   }
 
+  const previousFlight = leg?.tracked_flights
+    ? leg.tracked_flights.callsign || leg.tracked_flights.icao24
+    : null;
+  await auditService.logChange(
+    req.user!,
+    shipmentId,
+    'assign',
+    leg ? `leg ${leg.sequence} flight` : 'flight',
+    previousFlight,
+    flight.getDisplayName()
+  );
+
+  // Multi-leg shipment: the leg departs and the shipment status is derived from its legs
+  if (leg) {
+    await legService.updateLeg(leg.id, {
+      flight_id: trackedFlight?.id ?? null,
+      ...(leg.status === 'pending' ? { status: 'departed' } : {}),
+    });
+
+    const workflow = await workflowService.getWorkflowForOrganization(req.user!.organizationId);
+    const shipmentStatus = await legService.syncShipmentFromLegs(
+      shipmentId,
+      workflow,
+      `Leg ${leg.sequence} (${leg.origin} → ${leg.destination}) assigned to flight ${flight.getDisplayName()}`
+    );
+    if (shipmentStatus) {
+      await auditService.logUpdate(req.user!, shipmentId, shipment, { status: shipmentStatus }, 'assign');
+    }
+
+    res.json({
+      message: `Leg ${leg.sequence} assigned to flight successfully`,
+      flight: flightData,
+      legId: leg.id,
+    });
+    return;
+  }
+
   // Update shipment status to departed if pending
   if (shipment.status === 'pending') {
     await supabaseAdmin
@@ -169,6 +240,8 @@ router.post('/assign', requireAuth, asyncHandler(async (req: AuthenticatedReques
       })
       .eq('id', shipmentId);
 
+    await auditService.logUpdate(req.user!, shipmentId, shipment, { status: 'departed' }, 'assign');
+
     // Add tracking event
     await supabaseAdmin
       .from('tracking_events')
@@ -201,13 +274,15 @@ router.get('/shipment/:id', requireAuth, asyncHandler(async (req: AuthenticatedR
     .select(`
       *,
       shipment_assignments(
+        leg_id,
         flight_id,
         tracked_flights(*)
       ),
+      shipment_legs(*),
       tracking_events(*)
     `)
     .eq('id', id)
-    .eq('user_id', req.user!.id)
+    .eq('organization_id', req.user!.organizationId)
     .single();
 
   if (error || !shipment) {
@@ -217,5 +292,50 @@ router.get('/shipment/:id', requireAuth, asyncHandler(async (req: AuthenticatedR
   res.json({ shipment });
 }));
 
+/**
+ * GET /api/tracking/shipment/:id/track
+ * Get the track of the flight assigned to a shipment, recorded since the assignment
+ * Query: legId - the flight of one leg (default: the latest assignment)
+ */
+router.get('/shipment/:id/track', requireAuth, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const legId = req.query.legId !== undefined ? Number(req.query.legId) : undefined;
+
+  const { data: shipment, error } = await supabaseAdmin
+    .from('shipments')
+    .select('id, shipment_assignments(leg_id, assigned_at, tracked_flights(id, icao24, callsign))')
+    .eq('id', id)
+    .eq('organization_id', req.user!.organizationId)
+    .single();
+
+  if (error || !shipment) {
+    throw new NotFoundError('Shipment');
+  }
+
+  const assignments = (shipment.shipment_assignments || []) as unknown as {
+    leg_id: number | null;
+    assigned_at: string;
+    tracked_flights: { id: number; icao24: string; callsign: string | null } | null;
+  }[];
+
+  const assignment = assignments
+    .filter(a => a.tracked_flights && (legId === undefined || a.leg_id === legId))
+    .sort((a, b) => b.assigned_at.localeCompare(a.assigned_at))[0];
+
+  if (!assignment) {
+    throw new NotFoundError('Flight');
+  }
+
+  // The position cached while assigning is recorded just before the assignment row
+  const since = new Date(new Date(assignment.assigned_at).getTime() - 60 * 1000);
+  const track = await trackedFlightService.getTrack(assignment.tracked_flights!, since);
+
+  res.json({
+    track: track.toJSON(),
+    legId: assignment.leg_id,
+    assignedAt: assignment.assigned_at,
+  });
+}));
+
 export default router;
 
@@ -4,10 +4,17 @@
  */
 
 import { Router, Response } from 'express';
-import { requireAuth, AuthenticatedRequest, optionalAuth } from '../middleware/auth';
+import { requireAuth, requirePermission, AuthenticatedRequest, optionalAuth } from '../middleware/auth';
 import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
-import { openweatherService } from '../services/openweatherService';
+import { weatherService } from '../services/weatherService';
+import { workflowService } from '../services/workflowService';
 import { supabaseAdmin } from '../config/supabase';
+import { weatherImpactService, ExpectedWeather } from '../services/weatherImpactService';
+import { GreatCircleRoute } from '../classes/GreatCircleRoute';
+import { ShipmentRoute } from '../classes/ShipmentRoute';
+import { WeatherCondition } from '../classes/WeatherCondition';
+import { mapWithConcurrency } from '../classes/RequestCache';
+import { ShipmentLeg } from '../types';
 
 const router = Router();
 
@@ -24,7 +31,7 @@ router.get('/location/:lat/:lon', optionalAuth, asyncHandler(async (req, res) =>
     return;
   }
 
-  const weather = await openweatherService.getWeatherByCoords(lat, lon);
+  const weather = await weatherService.getWeatherByCoords(lat, lon);
 
   if (!weather) {
     res.status(503).json({ error: 'Weather service unavailable' });
@@ -45,7 +52,7 @@ router.get('/location/:lat/:lon', optionalAuth, asyncHandler(async (req, res) =>
 router.get('/city/:name', optionalAuth, asyncHandler(async (req, res) => {
   const { name } = req.params;
 
-  const weather = await openweatherService.getWeatherByCity(name);
+  const weather = await weatherService.getWeatherByCity(name);
 
   if (!weather) {
     res.status(503).json({ error: 'Weather service unavailable or city not found' });
@@ -61,71 +68,84 @@ router.get('/city/:name', optionalAuth, asyncHandler(async (req, res) => {
 
 /**
  * GET /api/weather/route/:shipmentId
- * Get weather along a shipment's route
+ * Get weather along a shipment's great-circle route, rated per segment
+ * Samples are timed from the legs' departure and arrival, or the shipment's estimated arrival
+ * Query params: samples - number of points including both ends (derived from the distance by default)
  */
 router.get('/route/:shipmentId', requireAuth, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { shipmentId } = req.params;
+  const sampleCount = req.query.samples ? parseInt(req.query.samples as string) || undefined : undefined;
 
-  // Get shipment
+  // Get shipment with its legs for the schedule
   const { data: shipment, error } = await supabaseAdmin
     .from('shipments')
-    .select('*')
+    .select('*, shipment_legs(*)')
     .eq('id', shipmentId)
-    .eq('user_id', req.user!.id)
+    .eq('organization_id', req.user!.organizationId)
     .single();
 
   if (error || !shipment) {
     throw new NotFoundError('Shipment');
   }
 
-  // If we have coordinates, get weather along route
-  const routePoints: Array<{ lat: number; lon: number }> = [];
-
-  if (shipment.origin_lat && shipment.origin_lon) {
-    routePoints.push({ lat: shipment.origin_lat, lon: shipment.origin_lon });
-  }
-
-  if (shipment.dest_lat && shipment.dest_lon) {
-    // Add midpoint for longer routes
-    if (shipment.origin_lat && shipment.origin_lon) {
-      const midLat = (shipment.origin_lat + shipment.dest_lat) / 2;
-      const midLon = (shipment.origin_lon + shipment.dest_lon) / 2;
-      routePoints.push({ lat: midLat, lon: midLon });
-    }
-    routePoints.push({ lat: shipment.dest_lat, lon: shipment.dest_lon });
-  }
-
-  if (routePoints.length === 0) {
+  if (shipment.origin_lat == null || shipment.origin_lon == null || shipment.dest_lat == null || shipment.dest_lon == null) {
     res.json({
-      message: 'No coordinates available for route weather',
+      message: 'Origin and destination coordinates are needed for route weather',
       shipmentId,
       weather: [],
     });
     return;
   }
 
-  const routeImpact = await openweatherService.getRouteImpact(routePoints);
+  const origin = { lat: Number(shipment.origin_lat), lon: Number(shipment.origin_lon) };
+  const destination = { lat: Number(shipment.dest_lat), lon: Number(shipment.dest_lon) };
+  const errors = GreatCircleRoute.validate(origin, destination);
+  if (errors.length > 0) {
+    res.status(400).json({ error: errors[0] });
+    return;
+  }
+
+  const legs = new ShipmentRoute<ShipmentLeg>(shipment.shipment_legs || []);
+  const departure = legs.getDeparture();
+  const arrival = legs.getEstimatedArrival() ?? (shipment.estimated_arrival ? new Date(shipment.estimated_arrival) : null);
+
+  const route = new GreatCircleRoute(origin, destination);
+  const samples = route.sample(sampleCount, departure, arrival);
+  const routeImpact = await weatherService.getRouteImpact(samples);
 
   res.json({
     shipmentId,
     route: {
-      origin: { lat: shipment.origin_lat, lon: shipment.origin_lon },
-      destination: { lat: shipment.dest_lat, lon: shipment.dest_lon },
+      origin,
+      destination,
+      distanceKm: Math.round(route.getDistanceKm()),
+      departure: samples[0].expectedAt,
+      arrival: samples[samples.length - 1].expectedAt,
     },
     impact: {
       maxImpact: routeImpact.maxImpact,
       averageDelayFactor: routeImpact.averageDelayFactor,
       estimatedDelayMinutes: Math.round(routeImpact.averageDelayFactor * 60),
     },
-    conditions: routeImpact.conditions.map(c => c.toJSON()),
+    samples: samples.map((sample, i) => ({ ...sample, weather: routeImpact.conditions[i]?.toJSON() ?? null })),
+    segments: routeImpact.segments.map(segment => ({
+      fromIndex: segment.from.index,
+      toIndex: segment.to.index,
+      distanceKm: segment.distanceKm,
+      impact: segment.impact,
+      delayFactor: segment.delayFactor,
+    })),
+    conditions: routeImpact.conditions.filter((c): c is WeatherCondition => c !== null).map(c => c.toJSON()),
     timestamp: new Date().toISOString(),
   });
 }));
 
 /**
  * GET /api/weather/impact/:shipmentId
- * Get weather impact analysis for a shipment
+ * Get weather impact analysis for a shipment: current weather, and the forecast
+ * at the origin at departure and at the destination at the ETA
  * Automatically records weather impacts when fetched (max once per hour per shipment)
+ * For perishable shipments the temperatures are checked against the allowed range
  */
 router.get('/impact/:shipmentId', requireAuth, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { shipmentId } = req.params;
@@ -135,101 +155,22 @@ router.get('/impact/:shipmentId', requireAuth, asyncHandler(async (req: Authenti
     .from('shipments')
     .select(`
       *,
-      weather_impacts(*)
+      weather_impacts(*),
+      shipment_legs(*)
     `)
     .eq('id', shipmentId)
-    .eq('user_id', req.user!.id)
+    .eq('organization_id', req.user!.organizationId)
     .single();
 
   if (error || !shipment) {
     throw new NotFoundError('Shipment');
   }
 
-  // Check if we've recorded weather recently (within last hour) to avoid duplicates
-  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-  const recentImpacts = (shipment.weather_impacts || []).filter(
-    (impact: { recorded_at: string }) => impact.recorded_at > oneHourAgo
-  );
-  const shouldRecordWeather = recentImpacts.length === 0;
-
-  // Get current weather at origin and destination
-  let originWeather = null;
-  let destWeather = null;
-
-  if (shipment.origin_lat && shipment.origin_lon) {
-    originWeather = await openweatherService.getWeatherByCoords(
-      shipment.origin_lat,
-      shipment.origin_lon
-    );
-  }
-
-  if (shipment.dest_lat && shipment.dest_lon) {
-    destWeather = await openweatherService.getWeatherByCoords(
-      shipment.dest_lat,
-      shipment.dest_lon
-    );
-  }
-
-  // Only record if no recent records exist
-  if (shouldRecordWeather) {
-    // Cache raw weather data in weather_data table
-    const weatherDataToCache = [];
-    if (shipment.origin_lat && shipment.origin_lon) {
-      const originData = await openweatherService.getWeatherData(shipment.origin_lat, shipment.origin_lon);
-      if (originData) weatherDataToCache.push(originData);
-    }
-    if (shipment.dest_lat && shipment.dest_lon) {
-      const destData = await openweatherService.getWeatherData(shipment.dest_lat, shipment.dest_lon);
-      if (destData) weatherDataToCache.push(destData);
-    }
-
-    if (weatherDataToCache.length > 0) {
-      await supabaseAdmin
-        .from('weather_data')
-        .insert(weatherDataToCache)
-        .then(() => console.log(`Cached ${weatherDataToCache.length} weather records`))
-        .catch(err => console.error('Failed to cache weather data:', err));
-    }
-
-    // Auto-record weather impacts for report generation
-    const impactsToRecord: Array<{
-      shipment_id: string;
-      impact_type: string;
-      description: string;
-      severity: string;
-      weather_condition: string;
-    }> = [];
-
-    if (originWeather) {
-      const impact = originWeather.assessImpact();
-      impactsToRecord.push({
-        shipment_id: shipmentId,
-        impact_type: 'origin_weather',
-        description: `Origin: ${originWeather.getConditionSummary()}. Delay factor: ${Math.round(originWeather.getDelayFactor() * 100)}%`,
-        severity: impact,
-        weather_condition: originWeather.getConditionType(),
-      });
-    }
-
-    if (destWeather) {
-      const impact = destWeather.assessImpact();
-      impactsToRecord.push({
-        shipment_id: shipmentId,
-        impact_type: 'destination_weather',
-        description: `Destination: ${destWeather.getConditionSummary()}. Delay factor: ${Math.round(destWeather.getDelayFactor() * 100)}%`,
-        severity: impact,
-        weather_condition: destWeather.getConditionType(),
-      });
-    }
-
-    if (impactsToRecord.length > 0) {
-      await supabaseAdmin
-        .from('weather_impacts')
-        .insert(impactsToRecord)
-        .then(() => console.log(`Recorded ${impactsToRecord.length} weather impacts for shipment ${shipmentId}`))
-        .catch(err => console.error('Failed to record weather impacts:', err));
-    }
-  }
+  const { origin: originWeather, destination: destWeather, temperatureExcursions } =
+    await weatherImpactService.checkShipment(req.user!, shipment);
+  const forecast = await weatherImpactService.getForecast(shipment);
+  const expected = (entry: ExpectedWeather | null) =>
+    entry ? { expectedAt: entry.expectedAt, weather: entry.weather?.toJSON() || null } : null;
 
   // Fetch updated impacts after recording
   const { data: updatedShipment } = await supabaseAdmin
@@ -244,6 +185,21 @@ router.get('/impact/:shipmentId', requireAuth, asyncHandler(async (req: Authenti
       origin: originWeather?.toJSON() || null,
       destination: destWeather?.toJSON() || null,
     },
+    expectedWeather: {
+      origin: expected(forecast.origin),
+      destination: expected(forecast.destination),
+    },
+    impact: {
+      current: {
+        origin: originWeather?.assessImpact() ?? null,
+        destination: destWeather?.assessImpact() ?? null,
+      },
+      expected: {
+        origin: forecast.origin?.weather?.assessImpact() ?? null,
+        destination: forecast.destination?.weather?.assessImpact() ?? null,
+      },
+    },
+    temperatureExcursions,
     historicalImpacts: updatedShipment?.weather_impacts || shipment.weather_impacts || [],
     timestamp: new Date().toISOString(),
   });
@@ -254,45 +210,39 @@ router.get('/impact/:shipmentId', requireAuth, asyncHandler(async (req: Authenti
  * Get weather alerts for tracked shipments
  */
 router.get('/alerts', requireAuth, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  // Get active shipments
+  // Get the shipments that have not reached a terminal status of the organization's workflow
+  const workflow = await workflowService.getWorkflowForOrganization(req.user!.organizationId);
   const { data: shipments } = await supabaseAdmin
     .from('shipments')
     .select('*')
-    .eq('user_id', req.user!.id)
-    .in('status', ['pending', 'departed', 'in_transit']);
+    .eq('organization_id', req.user!.organizationId)
+    .in('status', workflow.getStatusNames().filter(status => !workflow.isTerminal(status)));
 
   if (!shipments || shipments.length === 0) {
     res.json({ alerts: [], message: 'No active shipments' });
     return;
   }
 
-  // Check weather for each shipment's route
-  const alerts: Array<{
-    shipmentId: string;
-    trackingNumber: string;
-    location: string;
-    weather: ReturnType<typeof import('../classes/WeatherCondition.js').WeatherCondition.prototype.toJSON>;
-    impact: string;
-  }> = [];
-
-  for (const shipment of shipments) {
-    if (shipment.dest_lat && shipment.dest_lon) {
-      const weather = await openweatherService.getWeatherByCoords(
-        shipment.dest_lat,
-        shipment.dest_lon
-      );
-
-      if (weather && (weather.assessImpact() === 'high' || weather.assessImpact() === 'critical')) {
-        alerts.push({
-          shipmentId: shipment.id,
-          trackingNumber: shipment.tracking_number,
-          location: shipment.destination,
-          weather: weather.toJSON(),
-          impact: weather.assessImpact(),
-        });
-      }
+  // Check the destination weather of the shipments a few at a time
+  const destinations = shipments.filter(shipment => shipment.dest_lat != null && shipment.dest_lon != null);
+  const conditions = await mapWithConcurrency(destinations, weatherService.concurrency, shipment =>
+    weatherService.getWeatherByCoords(shipment.dest_lat, shipment.dest_lon)
+  );
+
+  const alerts = destinations.flatMap((shipment, i) => {
+    const weather = conditions[i];
+    if (!weather || (weather.assessImpact() !== 'high' && weather.assessImpact() !== 'critical')) {
+      return [];
     }
-  }
+
+    return [{
+      shipmentId: shipment.id,
+      trackingNumber: shipment.tracking_number,
+      location: shipment.destination,
+      weather: weather.toJSON(),
+      impact: weather.assessImpact(),
+    }];
+  });
 
   res.json({
     alerts,
@@ -305,7 +255,7 @@ router.get('/alerts', requireAuth, asyncHandler(async (req: AuthenticatedRequest
  * POST /api/weather/record-impact
  * Record a weather impact for a shipment
  */
-router.post('/record-impact', requireAuth, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/record-impact', requireAuth, requirePermission('shipments:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { shipmentId, impactType, description, severity, weatherCondition } = req.body;
 
   // Verify shipment ownership
@@ -313,7 +263,7 @@ router.post('/record-impact', requireAuth, asyncHandler(async (req: Authenticate
     .from('shipments')
     .select('id')
     .eq('id', shipmentId)
-    .eq('user_id', req.user!.id)
+    .eq('organization_id', req.user!.organizationId)
     .single();
 
   if (shipmentError || !shipment) {
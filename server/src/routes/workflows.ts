@@ -0,0 +1,115 @@
+/**
+ * Workflow Routes
+ * View and configure the shipment status workflow of the organization
+ */
+
+import { Router, Response } from 'express';
+import { requireAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { StatusWorkflow } from '../classes/StatusWorkflow';
+import { StatusReason } from '../classes/StatusReason';
+import { workflowService } from '../services/workflowService';
+
+const router = Router();
+
+/**
+ * Statuses of the organization's current workflow that the next one lacks but shipments are still in
+ */
+async function findRemovedStatusesInUse(organizationId: string, nextStatuses: string[]): Promise<string[]> {
+  const current = await workflowService.getWorkflowForOrganization(organizationId);
+  const kept = new Set(nextStatuses);
+  return workflowService.getStatusesInUse(
+    organizationId,
+    current.getStatusNames().filter(status => !kept.has(status))
+  );
+}
+
+/**
+ * Error response for statuses that cannot be removed yet
+ */
+function statusesInUseError(statuses: string[]) {
+  return {
+    error: 'Shipments are still in statuses this workflow removes; move them to another status first',
+    details: statuses.map(status => `Status '${status}' is in use`),
+  };
+}
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * GET /api/workflows
+ * Get the status workflow in effect for the organization
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const workflow = await workflowService.getWorkflowForOrganization(req.user!.organizationId);
+  res.json({ workflow: workflow.toJSON() });
+}));
+
+/**
+ * GET /api/workflows/default
+ * Get the built-in workflow as a starting point for customization
+ */
+router.get('/default', asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+  res.json({ workflow: StatusWorkflow.getDefault().toJSON() });
+}));
+
+/**
+ * GET /api/workflows/reasons
+ * Get the reason categories for delays and cancellations with their IATA delay codes
+ */
+router.get('/reasons', (_req: AuthenticatedRequest, res: Response) => {
+  res.json({ reasons: StatusReason.getCategories() });
+});
+
+/**
+ * PUT /api/workflows
+ * Replace the organization's workflow (admins only)
+ * Statuses that shipments are still in cannot be removed
+ */
+router.put('/', requirePermission('settings:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { name = 'custom', initialStatus = 'pending', statuses } = req.body;
+
+  const errors = StatusWorkflow.validateDefinitions(statuses, initialStatus);
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Validation failed', details: errors });
+    return;
+  }
+
+  const inUse = await findRemovedStatusesInUse(
+    req.user!.organizationId,
+    (statuses as Array<{ name: string }>).map(definition => definition.name)
+  );
+  if (inUse.length > 0) {
+    res.status(400).json(statusesInUseError(inUse));
+    return;
+  }
+
+  const workflow = await workflowService.saveWorkflowForOrganization(
+    req.user!.organizationId,
+    req.user!.id,
+    name,
+    statuses,
+    initialStatus
+  );
+
+  res.json({ workflow: workflow.toJSON() });
+}));
+
+/**
+ * DELETE /api/workflows
+ * Reset the organization's workflow to the default (admins only)
+ * Refused while shipments are in custom statuses the default lacks
+ */
+router.delete('/', requirePermission('settings:manage'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const inUse = await findRemovedStatusesInUse(req.user!.organizationId, StatusWorkflow.getDefault().getStatusNames());
+  if (inUse.length > 0) {
+    res.status(400).json(statusesInUseError(inUse));
+    return;
+  }
+
+  await workflowService.resetWorkflowForOrganization(req.user!.organizationId);
+  res.json({ workflow: StatusWorkflow.getDefault().toJSON() });
+}));
+
+export default router;
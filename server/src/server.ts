@@ -7,6 +7,8 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { errorHandler } from './middleware/errorHandler';
+import { schedulerService } from './services/schedulerService';
+import { registerBackgroundJobs } from './services/backgroundJobs';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -15,6 +17,15 @@ import trackingRoutes from './routes/tracking';
 import weatherRoutes from './routes/weather';
 import reportRoutes from './routes/reports';
 import analyticsRoutes from './routes/analytics';
+import workflowRoutes from './routes/workflows';
+import auditRoutes from './routes/audit';
+import awbRoutes from './routes/awb';
+import quoteRoutes from './routes/quotes';
+import slaRoutes from './routes/sla';
+import jobRoutes from './routes/jobs';
+import airportRoutes from './routes/airports';
+import organizationRoutes from './routes/organizations';
+import publicTrackingRoutes from './routes/publicTracking';
 
 // Load environment variables
 dotenv.config();
@@ -27,7 +38,9 @@ app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:5173',
   credentials: true,
 }));
-app.use(express.json());
+// Proof of delivery carries a signature and photos as data URLs
+app.use('/api/shipments/:id/delivery', express.json({ limit: '5mb' }));
+app.use(express.json({ limit: '1mb' }));
 
 // Health check
 app.get('/health', (_req, res) => {
@@ -45,6 +58,15 @@ app.use('/api/tracking', trackingRoutes);
 app.use('/api/weather', weatherRoutes);
 app.use('/api/reports', reportRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/workflows', workflowRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/awb', awbRoutes);
+app.use('/api/quotes', quoteRoutes);
+app.use('/api/sla', slaRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/airports', airportRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/public/tracking', publicTrackingRoutes);
 
 // 404 handler
 app.use((_req, res) => {
@@ -59,6 +81,12 @@ app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
   console.log(`📡 API endpoints available at http://localhost:${PORT}/api`);
   console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+
+  // Background jobs; every instance schedules them and a lease decides which one runs
+  if (process.env.SCHEDULER_ENABLED !== 'false') {
+    registerBackgroundJobs();
+    schedulerService.start().catch(err => console.error('Failed to start scheduler:', err));
+  }
 });
 
 export default app;
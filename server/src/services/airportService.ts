@@ -0,0 +1,128 @@
+/**
+ * Airport Service
+ * Links shipments entered as free text to airports of the bundled reference table
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { Airport } from '../classes/Airport';
+import { Shipment } from '../types';
+import { AuditActor, auditService } from './auditService';
+
+type AirportFields = Pick<
+  Shipment,
+  'origin_iata' | 'origin_lat' | 'origin_lon' | 'dest_iata' | 'dest_lat' | 'dest_lon'
+>;
+
+type BackfillCandidate = Pick<Shipment, 'id' | 'tracking_number' | 'origin' | 'destination'> & AirportFields;
+
+/**
+ * A shipment given airports by the backfill
+ */
+export interface ResolvedShipment {
+  id: string;
+  tracking_number: string;
+  origin_iata: string | null;
+  dest_iata: string | null;
+}
+
+/**
+ * An origin or destination the backfill could not resolve
+ */
+export interface UnresolvedLocation {
+  id: string;
+  tracking_number: string;
+  field: 'origin' | 'destination';
+  value: string;
+}
+
+export interface BackfillResult {
+  checked: number;
+  resolved: ResolvedShipment[];
+  unresolved: UnresolvedLocation[];
+  dryRun: boolean;
+}
+
+/**
+ * Airport Service - airport backfill for existing shipments
+ */
+export class AirportService {
+  /**
+   * Resolve the origin and destination text of an organization's shipments that have
+   * no airport yet; coordinates are only filled in where they are missing
+   * @param dryRun - Report what would change without saving
+   */
+  async backfillShipments(actor: AuditActor, dryRun: boolean = false): Promise<BackfillResult> {
+    const { data, error } = await supabaseAdmin
+      .from('shipments')
+      .select('id, tracking_number, origin, destination, origin_iata, origin_lat, origin_lon, dest_iata, dest_lat, dest_lon')
+      .eq('organization_id', actor.organizationId)
+      .or('origin_iata.is.null,dest_iata.is.null');
+
+    if (error) {
+      console.error('Fetch shipments for airport backfill error:', error);
+      throw new Error('Failed to fetch shipments');
+    }
+
+    const shipments = (data || []) as BackfillCandidate[];
+    const result: BackfillResult = { checked: shipments.length, resolved: [], unresolved: [], dryRun };
+
+    for (const shipment of shipments) {
+      const updates: Partial<AirportFields> = {};
+
+      if (!shipment.origin_iata) {
+        const airport = Airport.resolve(shipment.origin);
+        if (airport) {
+          updates.origin_iata = airport.getIata();
+          if (shipment.origin_lat == null || shipment.origin_lon == null) {
+            updates.origin_lat = airport.getPosition().lat;
+            updates.origin_lon = airport.getPosition().lon;
+          }
+        } else {
+          result.unresolved.push({ id: shipment.id, tracking_number: shipment.tracking_number, field: 'origin', value: shipment.origin });
+        }
+      }
+
+      if (!shipment.dest_iata) {
+        const airport = Airport.resolve(shipment.destination);
+        if (airport) {
+          updates.dest_iata = airport.getIata();
+          if (shipment.dest_lat == null || shipment.dest_lon == null) {
+            updates.dest_lat = airport.getPosition().lat;
+            updates.dest_lon = airport.getPosition().lon;
+          }
+        } else {
+          result.unresolved.push({ id: shipment.id, tracking_number: shipment.tracking_number, field: 'destination', value: shipment.destination });
+        }
+      }
+
+      if (Object.keys(updates).length === 0) continue;
+
+      if (!dryRun) {
+        const { error: updateError } = await supabaseAdmin
+          .from('shipments')
+          .update(updates)
+          .eq('id', shipment.id)
+          .eq('organization_id', actor.organizationId);
+
+        if (updateError) {
+          console.error('Airport backfill error:', updateError);
+          throw new Error('Failed to update shipment airports');
+        }
+
+        await auditService.logUpdate(actor, shipment.id, shipment, updates);
+      }
+
+      result.resolved.push({
+        id: shipment.id,
+        tracking_number: shipment.tracking_number,
+        origin_iata: updates.origin_iata ?? shipment.origin_iata ?? null,
+        dest_iata: updates.dest_iata ?? shipment.dest_iata ?? null,
+      });
+    }
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const airportService = new AirportService();
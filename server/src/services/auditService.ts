@@ -0,0 +1,258 @@
+/**
+ * Audit Service
+ * Field-level history of changes made to shipments
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { AuditAction, AuditLogEntry, AuditLogFilters, Shipment } from '../types';
+
+/**
+ * The user making a change, and the organization they work in
+ */
+export interface AuditActor {
+  id: string;
+  email?: string;
+  organizationId: string;
+}
+
+/**
+ * Recorded as the user_email of changes made by background jobs
+ */
+export const SYSTEM_USER = 'system';
+
+/**
+ * The actor of changes made by background jobs in an organization
+ */
+export function systemActor(organizationId: string): AuditActor {
+  return { id: SYSTEM_USER, email: SYSTEM_USER, organizationId };
+}
+
+type NewAuditEntry = Omit<AuditLogEntry, 'id' | 'created_at'>;
+
+/**
+ * Shipment columns that are tracked field-by-field on update
+ * PUT /api/shipments/:id changes exactly these columns, so every change it makes is audited
+ */
+export const AUDITED_FIELDS = [
+  'awb_number',
+  'tracking_pin',
+  'origin',
+  'origin_lat',
+  'origin_lon',
+  'origin_iata',
+  'destination',
+  'dest_lat',
+  'dest_lon',
+  'dest_iata',
+  'status',
+  'estimated_arrival',
+  'cargo_type',
+  'weight_kg',
+  'temp_min_c',
+  'temp_max_c',
+  'service_level',
+];
+
+// Columns stored as DECIMAL, which the database may return as strings
+const NUMERIC_FIELDS = ['origin_lat', 'origin_lon', 'dest_lat', 'dest_lon', 'weight_kg', 'temp_min_c', 'temp_max_c'];
+
+/**
+ * Normalize values so that e.g. '250.00' and 250, or equivalent timestamps, compare equal
+ */
+function normalize(field: string, value: unknown): unknown {
+  if (value === undefined || value === '') return null;
+  if (NUMERIC_FIELDS.includes(field) && typeof value === 'string' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value))) {
+    return new Date(value).toISOString();
+  }
+  return value;
+}
+
+/**
+ * User columns of an entry; background jobs have no user id
+ */
+function recordedBy(actor: AuditActor): Pick<AuditLogEntry, 'user_id' | 'user_email'> {
+  return {
+    user_id: actor.id === SYSTEM_USER ? null : actor.id,
+    user_email: actor.email || null,
+  };
+}
+
+/**
+ * Pick the audited fields of a shipment row
+ */
+function snapshot(shipment: Partial<Shipment>): Record<string, unknown> {
+  const result: Record<string, unknown> = {
+    tracking_number: shipment.tracking_number,
+  };
+  for (const field of AUDITED_FIELDS) {
+    result[field] = (shipment as Record<string, unknown>)[field] ?? null;
+  }
+  return result;
+}
+
+/**
+ * Audit Service - records who changed which field, from what, to what
+ */
+export class AuditService {
+  /**
+   * Compare two versions of a shipment
+   * Only fields present in `after` are considered
+   */
+  diff(
+    before: Partial<Shipment>,
+    after: Partial<Shipment>
+  ): { field: string; old_value: unknown; new_value: unknown }[] {
+    const changes: { field: string; old_value: unknown; new_value: unknown }[] = [];
+    const previous = before as Record<string, unknown>;
+    const next = after as Record<string, unknown>;
+
+    for (const field of AUDITED_FIELDS) {
+      if (!(field in next)) continue;
+
+      const oldValue = normalize(field, previous[field]);
+      const newValue = normalize(field, next[field]);
+
+      if (oldValue !== newValue) {
+        changes.push({ field, old_value: oldValue, new_value: newValue });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Record shipment creation with the initial values
+   */
+  async logCreate(actor: AuditActor, shipments: Shipment[]): Promise<void> {
+    await this.record(shipments.map(shipment => ({
+      shipment_id: shipment.id,
+      organization_id: actor.organizationId,
+      ...recordedBy(actor),
+      action: 'create',
+      field: null,
+      old_value: null,
+      new_value: snapshot(shipment),
+    })));
+  }
+
+  /**
+   * Record one entry per changed field
+   */
+  async logUpdate(
+    actor: AuditActor,
+    shipmentId: string,
+    before: Partial<Shipment>,
+    after: Partial<Shipment>,
+    action: AuditAction = 'update'
+  ): Promise<void> {
+    await this.record(this.diff(before, after).map(change => ({
+      shipment_id: shipmentId,
+      organization_id: actor.organizationId,
+      ...recordedBy(actor),
+      action,
+      ...change,
+    })));
+  }
+
+  /**
+   * Record a change that is not a shipment column (e.g. a flight assignment or leg status)
+   */
+  async logChange(
+    actor: AuditActor,
+    shipmentId: string,
+    action: AuditAction,
+    field: string,
+    oldValue: unknown,
+    newValue: unknown
+  ): Promise<void> {
+    await this.record([{
+      shipment_id: shipmentId,
+      organization_id: actor.organizationId,
+      ...recordedBy(actor),
+      action,
+      field,
+      old_value: oldValue ?? null,
+      new_value: newValue ?? null,
+    }]);
+  }
+
+  /**
+   * Record shipment deletion with the last known values
+   */
+  async logDelete(actor: AuditActor, shipments: Partial<Shipment>[]): Promise<void> {
+    await this.record(shipments.map(shipment => ({
+      shipment_id: shipment.id!,
+      organization_id: actor.organizationId,
+      ...recordedBy(actor),
+      action: 'delete',
+      field: null,
+      old_value: snapshot(shipment),
+      new_value: null,
+    })));
+  }
+
+  /**
+   * Get the history of one shipment, newest first
+   * History is kept after the shipment is deleted
+   */
+  async getShipmentHistory(organizationId: string, shipmentId: string): Promise<AuditLogEntry[]> {
+    return this.getLog(organizationId, { shipmentId, limit: 500 });
+  }
+
+  /**
+   * Query the audit log of an organization's shipments
+   */
+  async getLog(organizationId: string, filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> {
+    let query = supabaseAdmin
+      .from('shipment_audit_log')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(Math.min(Math.max(filters.limit || 100, 1), 500));
+
+    if (filters.shipmentId) {
+      query = query.eq('shipment_id', filters.shipmentId);
+    }
+    if (filters.action) {
+      query = query.eq('action', filters.action);
+    }
+    if (filters.from) {
+      query = query.gte('created_at', filters.from);
+    }
+    if (filters.to) {
+      query = query.lte('created_at', filters.to);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Fetch audit log error:', error);
+      throw new Error('Failed to fetch audit log');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Insert audit entries
+   * A failure is logged but never blocks the change being audited
+   */
+  private async record(entries: NewAuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const { error } = await supabaseAdmin
+      .from('shipment_audit_log')
+      .insert(entries);
+
+    if (error) {
+      console.error('Audit log error:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
@@ -0,0 +1,173 @@
+/**
+ * AWB Service
+ * Air waybill stock ranges and allocation of AWB numbers
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { AirWaybill } from '../classes/AirWaybill';
+import { AwbStock } from '../types';
+import { AuditActor } from './auditService';
+
+// Allocation retries when another request takes the same serial
+const MAX_ALLOCATION_ATTEMPTS = 5;
+
+/**
+ * AWB Service - manages per-airline AWB stock
+ */
+export class AwbService {
+  /**
+   * Get all stock ranges of an organization
+   */
+  async getStock(organizationId: string): Promise<AwbStock[]> {
+    const { data, error } = await supabaseAdmin
+      .from('awb_stock')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('airline_prefix', { ascending: true })
+      .order('range_start', { ascending: true });
+
+    if (error) {
+      console.error('Fetch AWB stock error:', error);
+      throw new Error('Failed to fetch AWB stock');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Add a stock range
+   * @returns Error message when the range overlaps an existing range of the same airline
+   */
+  async addStock(
+    actor: AuditActor,
+    range: { airline_prefix: string; airline_name?: string; range_start: number; range_end: number }
+  ): Promise<{ stock?: AwbStock; error?: string }> {
+    const existing = await this.getStock(actor.organizationId);
+    const overlapping = existing.find(stock =>
+      stock.airline_prefix === range.airline_prefix &&
+      stock.range_start <= range.range_end &&
+      range.range_start <= stock.range_end
+    );
+
+    if (overlapping) {
+      return {
+        error: `Range overlaps existing stock ${overlapping.airline_prefix} ` +
+          `${overlapping.range_start}-${overlapping.range_end}`,
+      };
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('awb_stock')
+      .insert({
+        user_id: actor.id,
+        organization_id: actor.organizationId,
+        airline_prefix: range.airline_prefix,
+        airline_name: range.airline_name || null,
+        range_start: range.range_start,
+        range_end: range.range_end,
+        next_serial: range.range_start,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Insert AWB stock error:', error);
+      throw new Error('Failed to save AWB stock');
+    }
+
+    return { stock: data };
+  }
+
+  /**
+   * Remove a stock range (allocated AWBs stay on their shipments)
+   */
+  async deleteStock(organizationId: string, id: number): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('awb_stock')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select();
+
+    if (error) {
+      throw new Error('Failed to delete AWB stock');
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Allocate the next free AWB number for an airline
+   * Uses compare-and-set on next_serial so concurrent requests never get the same number;
+   * serials already used by AWB numbers entered by hand are skipped
+   * @returns The AWB, or null when the airline has no stock left
+   */
+  async allocate(organizationId: string, airlinePrefix: string): Promise<AirWaybill | null> {
+    let attempts = 0;
+
+    while (attempts < MAX_ALLOCATION_ATTEMPTS) {
+      const stock = (await this.getStock(organizationId)).find(range =>
+        range.airline_prefix === airlinePrefix && AirWaybill.remainingInRange(range) > 0
+      );
+
+      if (!stock) return null;
+
+      const { data } = await supabaseAdmin
+        .from('awb_stock')
+        .update({ next_serial: stock.next_serial + 1 })
+        .eq('id', stock.id)
+        .eq('next_serial', stock.next_serial)
+        .select();
+
+      if (!data || data.length === 0) {
+        attempts++;
+        continue;
+      }
+
+      const awb = AirWaybill.fromSerial(stock.airline_prefix, stock.next_serial);
+      if (!(await this.isInUse(organizationId, awb.toString()))) {
+        return awb;
+      }
+    }
+
+    throw new Error('Failed to allocate AWB number');
+  }
+
+  /**
+   * Return an allocated AWB number to its stock when the shipment could not be saved
+   * Only done while no later serial has been allocated; otherwise the serial stays unused
+   */
+  async release(organizationId: string, awb: AirWaybill): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('awb_stock')
+      .update({ next_serial: awb.getSerialBase() })
+      .eq('organization_id', organizationId)
+      .eq('airline_prefix', awb.getPrefix())
+      .eq('next_serial', awb.getSerialBase() + 1);
+
+    if (error) {
+      console.error('Release AWB number error:', error);
+    }
+  }
+
+  /**
+   * Check whether an AWB number is already used by another of the organization's shipments
+   */
+  async isInUse(organizationId: string, awbNumber: string, excludeShipmentId?: string): Promise<boolean> {
+    let query = supabaseAdmin
+      .from('shipments')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .eq('awb_number', awbNumber);
+
+    if (excludeShipmentId) {
+      query = query.neq('id', excludeShipmentId);
+    }
+
+    const { data } = await query.limit(1);
+    return (data || []).length > 0;
+  }
+}
+
+// Export singleton instance
+export const awbService = new AwbService();
@@ -0,0 +1,164 @@
+/**
+ * Background Jobs
+ * The jobs run by the scheduler: refreshing assigned flights and the statuses
+ * they drive, recording the weather of shipments in transit, re-evaluating SLAs
+ * and expiring stale data
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { schedulerService } from './schedulerService';
+import { trackedFlightService } from './trackedFlightService';
+import { statusProgressionService } from './statusProgressionService';
+import { weatherImpactService } from './weatherImpactService';
+import { slaService } from './slaService';
+import { workflowService } from './workflowService';
+import { systemActor } from './auditService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Job runs are kept this many days */
+const JOB_RUN_RETENTION_DAYS = 30;
+
+/** Flight positions are kept this many days unless FLIGHT_POSITION_RETENTION_DAYS is set */
+const DEFAULT_FLIGHT_POSITION_RETENTION_DAYS = 30;
+
+/**
+ * Get the ids of all organizations
+ */
+async function getOrganizationIds(): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('organizations')
+    .select('id');
+
+  if (error) {
+    console.error('Fetch organizations error:', error);
+    throw new Error('Failed to fetch organizations');
+  }
+
+  return (data || []).map(organization => organization.id as string);
+}
+
+/**
+ * Statuses of an organization's shipments that are still in transit
+ */
+async function getOpenStatuses(organizationId: string): Promise<string[]> {
+  const workflow = await workflowService.getWorkflowForOrganization(organizationId);
+  return workflow.getStatusNames().filter(status => !workflow.isTerminal(status));
+}
+
+/**
+ * Refresh the flights assigned to open shipments of every organization,
+ * then apply or propose the status changes the new positions call for
+ * A flight shared by several organizations is fetched from OpenSky once
+ */
+async function refreshFlights(): Promise<number> {
+  const organizationIds = await getOrganizationIds();
+
+  const icao24s = new Set<string>();
+  for (const organizationId of organizationIds) {
+    const assigned = await trackedFlightService.getAssignedIcao24s(organizationId, await getOpenStatuses(organizationId));
+    assigned.forEach(icao24 => icao24s.add(icao24));
+  }
+
+  const refreshed = await trackedFlightService.refresh([...icao24s]);
+
+  for (const organizationId of organizationIds) {
+    await statusProgressionService.progressOrganization(organizationId);
+  }
+
+  return refreshed;
+}
+
+/**
+ * Record the weather of open shipments of every organization
+ */
+async function recordWeather(): Promise<number> {
+  let recorded = 0;
+  for (const organizationId of await getOrganizationIds()) {
+    recorded += await weatherImpactService.checkOpenShipments(
+      systemActor(organizationId),
+      await getOpenStatuses(organizationId)
+    );
+  }
+  return recorded;
+}
+
+/**
+ * Re-evaluate the SLAs of open shipments of every organization
+ */
+async function evaluateSlas(): Promise<number> {
+  let evaluated = 0;
+  for (const organizationId of await getOrganizationIds()) {
+    evaluated += await slaService.evaluateOpen(organizationId);
+  }
+  return evaluated;
+}
+
+/**
+ * Delete cached weather, ended alerts and unreferenced flights older than
+ * STALE_DATA_DAYS, and flight positions and job runs older than their retention period
+ */
+async function expireStaleData(): Promise<number> {
+  const staleDays = parseInt(process.env.STALE_DATA_DAYS || '7', 10);
+  const before = new Date(Date.now() - staleDays * DAY_MS);
+
+  const [weatherData, weatherAlerts] = await Promise.all([
+    supabaseAdmin
+      .from('weather_data')
+      .delete({ count: 'exact' })
+      .lt('fetched_at', before.toISOString()),
+    supabaseAdmin
+      .from('weather_alerts')
+      .delete({ count: 'exact' })
+      .lt('end_time', before.toISOString()),
+  ]);
+
+  if (weatherData.error || weatherAlerts.error) {
+    console.error('Delete stale weather error:', weatherData.error || weatherAlerts.error);
+    throw new Error('Failed to delete stale weather data');
+  }
+
+  const positionDays = parseInt(
+    process.env.FLIGHT_POSITION_RETENTION_DAYS || String(DEFAULT_FLIGHT_POSITION_RETENTION_DAYS),
+    10
+  );
+  const positions = await trackedFlightService.deletePositionsBefore(new Date(Date.now() - positionDays * DAY_MS));
+  const flights = await trackedFlightService.deleteStale(before);
+  const runs = await schedulerService.deleteRunsBefore(new Date(Date.now() - JOB_RUN_RETENTION_DAYS * DAY_MS));
+
+  return (weatherData.count || 0) + (weatherAlerts.count || 0) + positions + flights + runs;
+}
+
+/**
+ * Register the background jobs with the scheduler
+ * Schedules can be changed with the *_CRON environment variables
+ */
+export function registerBackgroundJobs(): void {
+  schedulerService.register({
+    name: 'refresh-flights',
+    schedule: process.env.FLIGHT_REFRESH_CRON || '*/10 * * * *',
+    description: 'Refresh flights assigned to shipments in transit from OpenSky and progress their status',
+    lease_minutes: 10,
+  }, refreshFlights);
+
+  schedulerService.register({
+    name: 'record-weather',
+    schedule: process.env.WEATHER_REFRESH_CRON || '0 * * * *',
+    description: 'Record origin and destination weather impacts of shipments in transit',
+    lease_minutes: 30,
+  }, recordWeather);
+
+  schedulerService.register({
+    name: 'evaluate-slas',
+    schedule: process.env.SLA_EVALUATION_CRON || '*/15 * * * *',
+    description: 'Re-evaluate the SLA status of open shipments and raise escalations',
+    lease_minutes: 15,
+  }, evaluateSlas);
+
+  schedulerService.register({
+    name: 'expire-stale-data',
+    schedule: process.env.DATA_EXPIRY_CRON || '30 3 * * *',
+    description: 'Delete stale cached weather, alerts, unreferenced flights, old flight positions and job runs',
+    lease_minutes: 30,
+  }, expireStaleData);
+}
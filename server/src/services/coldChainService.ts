@@ -0,0 +1,242 @@
+/**
+ * Cold Chain Service
+ * Temperature readings of perishable shipments and the excursions found in them
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import {
+  TemperatureRange,
+  TemperatureReading,
+  TemperatureExcursion,
+  TemperatureSource,
+  TEMPERATURE_EXCURSION_IMPACT,
+} from '../classes/ColdChain';
+import { WeatherCondition } from '../classes/WeatherCondition';
+import { ColdChainView, Shipment, TemperatureReadingRow, WeatherImpactRow } from '../types';
+import { AuditActor, auditService } from './auditService';
+
+/** Cargo type that is kept within a temperature range */
+export const PERISHABLE_CARGO_TYPE = 'perishable';
+
+/** weather_condition of excursions found in logged readings */
+export const TEMPERATURE_READING_CONDITION = 'temperature_reading';
+
+/**
+ * Cold Chain Service - readings in temperature_readings, excursions in weather_impacts
+ */
+export class ColdChainService {
+  /**
+   * Get the logged readings of a shipment, newest first
+   */
+  async getReadings(shipmentId: string): Promise<TemperatureReadingRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('temperature_readings')
+      .select('*')
+      .eq('shipment_id', shipmentId)
+      .order('recorded_at', { ascending: false });
+
+    if (error) {
+      console.error('Fetch temperature readings error:', error);
+      throw new Error('Failed to fetch temperature readings');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the excursions recorded for a shipment, newest first
+   */
+  async getExcursions(shipmentId: string): Promise<WeatherImpactRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('weather_impacts')
+      .select('*')
+      .eq('shipment_id', shipmentId)
+      .eq('impact_type', TEMPERATURE_EXCURSION_IMPACT)
+      .order('recorded_at', { ascending: false });
+
+    if (error) {
+      console.error('Fetch temperature excursions error:', error);
+      throw new Error('Failed to fetch temperature excursions');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the range, exception, readings and excursions of a shipment
+   */
+  async getColdChain(shipment: Shipment): Promise<ColdChainView> {
+    const range = TemperatureRange.fromShipment(shipment);
+
+    return {
+      range: range ? range.toJSON() : null,
+      exception_at: shipment.cold_chain_exception_at || null,
+      readings: await this.getReadings(shipment.id),
+      excursions: await this.getExcursions(shipment.id),
+    };
+  }
+
+  /**
+   * Log a reading and check it against the shipment's range
+   * @returns Error message when the shipment has no temperature range
+   */
+  async logReading(
+    actor: AuditActor,
+    shipment: Shipment,
+    reading: TemperatureReading
+  ): Promise<{ reading?: TemperatureReadingRow; excursion?: TemperatureExcursion | null; error?: string }> {
+    const range = TemperatureRange.fromShipment(shipment);
+    if (!range) {
+      return { error: 'Set the temperature range of the shipment before logging readings' };
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('temperature_readings')
+      .insert({
+        shipment_id: shipment.id,
+        recorded_by: actor.id,
+        ...reading.toJSON(),
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('Log temperature reading error:', error);
+      throw new Error('Failed to log temperature reading');
+    }
+
+    const excursion = reading.checkAgainst(range, shipment.origin);
+    if (excursion) {
+      await this.recordExcursions(actor, shipment, [{ excursion, condition: TEMPERATURE_READING_CONDITION }]);
+    }
+
+    return { reading: data, excursion };
+  }
+
+  /**
+   * Check the temperature at the origin and destination against the shipment's range
+   * Conditions without a temperature (TAF forecasts, reports with none) are not checked.
+   * @returns The excursions found (empty for shipments without a range)
+   */
+  findWeatherExcursions(
+    shipment: Shipment,
+    origin: WeatherCondition | null,
+    destination: WeatherCondition | null
+  ): TemperatureExcursion[] {
+    const range = TemperatureRange.fromShipment(shipment);
+    if (!range) {
+      return [];
+    }
+
+    const check = (condition: WeatherCondition | null, source: TemperatureSource, location: string) => {
+      const temperature = condition?.getTemperature() ?? null;
+      return temperature === null ? null : range.check(temperature, source, location);
+    };
+
+    return [
+      check(origin, 'origin_weather', shipment.origin),
+      check(destination, 'destination_weather', shipment.destination),
+    ].filter((excursion): excursion is TemperatureExcursion => !!excursion);
+  }
+
+  /**
+   * Check the weather at the origin and destination and record any excursion
+   * @returns The excursions found
+   */
+  async checkWeather(
+    actor: AuditActor,
+    shipment: Shipment,
+    origin: WeatherCondition | null,
+    destination: WeatherCondition | null
+  ): Promise<TemperatureExcursion[]> {
+    const excursions = this.findWeatherExcursions(shipment, origin, destination);
+
+    await this.recordExcursions(actor, shipment, excursions.map(excursion => ({
+      excursion,
+      condition: (excursion.source === 'origin_weather' ? origin : destination)!.getConditionType(),
+    })));
+    return excursions;
+  }
+
+  /**
+   * Record excursions as weather impacts and raise the cold chain exception
+   * on the shipment if it is not raised already
+   * @param excursions - Each with the weather_condition stored on its impact
+   */
+  private async recordExcursions(
+    actor: AuditActor,
+    shipment: Shipment,
+    excursions: { excursion: TemperatureExcursion; condition: string }[]
+  ): Promise<void> {
+    if (excursions.length === 0) return;
+
+    const { error } = await supabaseAdmin
+      .from('weather_impacts')
+      .insert(excursions.map(({ excursion, condition }) => ({
+        shipment_id: shipment.id,
+        impact_type: TEMPERATURE_EXCURSION_IMPACT,
+        description: TemperatureRange.describeExcursion(excursion),
+        severity: excursion.severity,
+        weather_condition: condition,
+      })));
+
+    if (error) {
+      console.error('Record temperature excursion error:', error);
+      throw new Error('Failed to record temperature excursion');
+    }
+
+    if (shipment.cold_chain_exception_at) return;
+
+    const raisedAt = new Date().toISOString();
+    const { error: updateError } = await supabaseAdmin
+      .from('shipments')
+      .update({ cold_chain_exception_at: raisedAt, updated_at: raisedAt })
+      .eq('id', shipment.id)
+      .is('cold_chain_exception_at', null);
+
+    if (updateError) {
+      console.error('Raise cold chain exception error:', updateError);
+      throw new Error('Failed to raise cold chain exception');
+    }
+
+    shipment.cold_chain_exception_at = raisedAt;
+    await auditService.logChange(
+      actor, shipment.id, 'update', 'cold chain exception', null, TemperatureRange.describeExcursion(excursions[0].excursion)
+    );
+  }
+
+  /**
+   * Clear the cold chain exception once the excursion has been dealt with
+   * @returns Error message when no exception is raised
+   */
+  async resolveException(
+    actor: AuditActor,
+    shipment: Shipment,
+    notes?: string
+  ): Promise<{ shipment?: Shipment; error?: string }> {
+    if (!shipment.cold_chain_exception_at) {
+      return { error: 'The shipment has no cold chain exception' };
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('shipments')
+      .update({ cold_chain_exception_at: null, updated_at: new Date().toISOString() })
+      .eq('id', shipment.id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('Resolve cold chain exception error:', error);
+      throw new Error('Failed to resolve cold chain exception');
+    }
+
+    await auditService.logChange(
+      actor, shipment.id, 'update', 'cold chain exception', shipment.cold_chain_exception_at, notes?.trim() || 'Resolved'
+    );
+
+    return { shipment: data };
+  }
+}
+
+// Export singleton instance
+export const coldChainService = new ColdChainService();
@@ -0,0 +1,142 @@
+/**
+ * Customs Service
+ * Customs clearance steps of shipments and holds that stop the shipment
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { CustomsClearance, CustomsStep, CUSTOMS_STATUS_LABELS } from '../classes/CustomsClearance';
+import { StatusFactory } from '../classes/ShipmentStatus';
+import { CustomsEventRow, Shipment } from '../types';
+import { AuditActor, auditService } from './auditService';
+import { workflowService } from './workflowService';
+
+/**
+ * Shipment statuses a customs hold moves the shipment to, in order of preference;
+ * the first one the organization's workflow allows from the current status is used
+ */
+export const CUSTOMS_HOLD_STATUSES = ['customs_hold', 'held', 'delayed'];
+
+/**
+ * Customs Service - steps in customs_events, current step on shipments.customs_status
+ */
+export class CustomsService {
+  /**
+   * Get the recorded customs steps of a shipment in the order they happened
+   */
+  async getSteps(shipmentId: string): Promise<CustomsEventRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('customs_events')
+      .select('*')
+      .eq('shipment_id', shipmentId)
+      .order('occurred_at', { ascending: true });
+
+    if (error) {
+      console.error('Fetch customs events error:', error);
+      throw new Error('Failed to fetch customs events');
+    }
+
+    return data || [];
+  }
+
+  async getClearance(shipmentId: string): Promise<CustomsClearance> {
+    return new CustomsClearance(await this.getSteps(shipmentId));
+  }
+
+  /**
+   * Record the next customs step of a shipment
+   * A hold moves the shipment to a held or delayed status when holdShipment is set
+   * and the workflow allows it
+   * @returns Error message when the step cannot follow the current step
+   */
+  async recordStep(
+    actor: AuditActor,
+    shipment: Shipment,
+    step: CustomsStep,
+    holdShipment: boolean
+  ): Promise<{ clearance?: CustomsClearance; shipmentStatus?: string | null; error?: string }> {
+    const clearance = await this.getClearance(shipment.id);
+    const error = clearance.checkNext(step);
+    if (error) {
+      return { error };
+    }
+
+    const { error: insertError } = await supabaseAdmin
+      .from('customs_events')
+      .insert({
+        shipment_id: shipment.id,
+        recorded_by: actor.id,
+        ...step.toJSON(),
+      });
+
+    if (insertError) {
+      console.error('Record customs event error:', insertError);
+      throw new Error('Failed to record customs step');
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('shipments')
+      .update({ customs_status: step.getStatus(), updated_at: new Date().toISOString() })
+      .eq('id', shipment.id);
+
+    if (updateError) {
+      throw new Error('Failed to update shipment');
+    }
+
+    await auditService.logChange(actor, shipment.id, 'update', 'customs', clearance.getStatus(), step.getStatus());
+
+    const shipmentStatus = step.isHold() && holdShipment
+      ? await this.holdShipment(actor, shipment, step)
+      : null;
+
+    return { clearance: await this.getClearance(shipment.id), shipmentStatus };
+  }
+
+  /**
+   * Move the shipment to the first hold status its workflow allows
+   * @returns The new status, or null when the shipment is already held or cannot be
+   */
+  private async holdShipment(actor: AuditActor, shipment: Shipment, step: CustomsStep): Promise<string | null> {
+    if (CUSTOMS_HOLD_STATUSES.includes(shipment.status)) {
+      return null;
+    }
+
+    const workflow = await workflowService.getWorkflowForOrganization(actor.organizationId);
+    const status = CUSTOMS_HOLD_STATUSES.find(name =>
+      StatusFactory.isValidTransition(shipment.status, name, workflow)
+    );
+    if (!status) {
+      return null;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('shipments')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', shipment.id)
+      .eq('organization_id', actor.organizationId);
+
+    if (error) {
+      throw new Error('Failed to update shipment');
+    }
+
+    await auditService.logUpdate(actor, shipment.id, shipment, { status });
+
+    await supabaseAdmin
+      .from('tracking_events')
+      .insert({
+        shipment_id: shipment.id,
+        status,
+        location: shipment.destination,
+        latitude: shipment.dest_lat,
+        longitude: shipment.dest_lon,
+        timestamp: step.getOccurredAt().toISOString(),
+        notes: `${CUSTOMS_STATUS_LABELS.held} by customs: ${step.getNotes()}`,
+        reason_code: 'customs',
+        reason_text: step.getNotes(),
+      });
+
+    return status;
+  }
+}
+
+// Export singleton instance
+export const customsService = new CustomsService();
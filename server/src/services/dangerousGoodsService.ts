@@ -0,0 +1,83 @@
+/**
+ * Dangerous Goods Service
+ * Persistence for the dangerous goods lines of hazardous shipments
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { DangerousGoodsDeclaration, DangerousGoodsItem } from '../classes/DangerousGoods';
+import { DangerousGoodsDeclarationView, ShipmentDangerousGood } from '../types';
+
+/** Cargo type that requires a dangerous goods declaration */
+export const HAZARDOUS_CARGO_TYPE = 'hazardous';
+
+/**
+ * Dangerous Goods Service - manages the declaration of a shipment
+ */
+export class DangerousGoodsService {
+  /**
+   * Get the declared lines of a shipment in entry order
+   */
+  async getItems(shipmentId: string): Promise<ShipmentDangerousGood[]> {
+    const { data, error } = await supabaseAdmin
+      .from('shipment_dangerous_goods')
+      .select('*')
+      .eq('shipment_id', shipmentId)
+      .order('id', { ascending: true });
+
+    if (error) {
+      console.error('Fetch dangerous goods error:', error);
+      throw new Error('Failed to fetch dangerous goods');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the declaration of a shipment with the result of its acceptance checks
+   */
+  async getDeclaration(shipmentId: string): Promise<DangerousGoodsDeclarationView> {
+    const items = await this.getItems(shipmentId);
+    return { items, check: this.toDeclaration(items).check() };
+  }
+
+  /**
+   * Replace all dangerous goods lines of a shipment
+   */
+  async replaceItems(shipmentId: string, items: DangerousGoodsItem[]): Promise<DangerousGoodsDeclarationView> {
+    const { error: deleteError } = await supabaseAdmin
+      .from('shipment_dangerous_goods')
+      .delete()
+      .eq('shipment_id', shipmentId);
+
+    if (deleteError) {
+      throw new Error('Failed to replace dangerous goods');
+    }
+
+    let saved: ShipmentDangerousGood[] = [];
+    if (items.length > 0) {
+      const { data, error } = await supabaseAdmin
+        .from('shipment_dangerous_goods')
+        .insert(items.map(item => ({ shipment_id: shipmentId, ...item.toJSON() })))
+        .select();
+
+      if (error) {
+        console.error('Insert dangerous goods error:', error);
+        throw new Error('Failed to save dangerous goods');
+      }
+
+      saved = (data || []).sort((a, b) => a.id - b.id);
+    }
+
+    return { items: saved, check: new DangerousGoodsDeclaration(items).check() };
+  }
+
+  private toDeclaration(items: ShipmentDangerousGood[]): DangerousGoodsDeclaration {
+    return new DangerousGoodsDeclaration(items.map(item => new DangerousGoodsItem({
+      ...item,
+      quantity: Number(item.quantity),
+    })));
+  }
+}
+
+// Export singleton instance
+export const dangerousGoodsService = new DangerousGoodsService();
@@ -0,0 +1,266 @@
+/**
+ * Delivery Service
+ * Proof of delivery recorded with a shipment's arrival tracking event
+ */
+
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { ProofOfDelivery, DeliveryImage } from '../classes/ProofOfDelivery';
+import { DeliveryProofRow, DeliveryProofView, Shipment } from '../types';
+import { AuditActor, auditService } from './auditService';
+import { documentStorage, DocumentStorage } from './documentStorage';
+
+/** Status a shipment is in once delivered */
+export const DELIVERED_STATUS = 'arrived';
+
+/**
+ * Arrival recorded for a proof of delivery, kept so it can be undone
+ */
+interface ArrivalChange {
+  eventId: number | null;
+  eventCreated: boolean;
+  statusChanged: boolean;
+}
+
+/**
+ * Delivery Service - rows in delivery_proofs, signature and photos in document storage
+ */
+export class DeliveryService {
+  private readonly storage: DocumentStorage;
+
+  constructor(storage: DocumentStorage) {
+    this.storage = storage;
+  }
+
+  async getDeliveryRow(organizationId: string, shipmentId: string): Promise<DeliveryProofRow | null> {
+    const { data } = await supabaseAdmin
+      .from('delivery_proofs')
+      .select('*')
+      .eq('shipment_id', shipmentId)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    return data;
+  }
+
+  /**
+   * Get the proof of delivery of a shipment with its images
+   */
+  async getDelivery(organizationId: string, shipmentId: string): Promise<DeliveryProofView | null> {
+    const row = await this.getDeliveryRow(organizationId, shipmentId);
+    if (!row) {
+      return null;
+    }
+
+    const readImage = async (key: string) => {
+      const content = await this.storage.read(key);
+      return content ? ProofOfDelivery.toDataUrl(content, ProofOfDelivery.contentTypeOf(key)) : null;
+    };
+
+    const { signature_key, photo_keys, ...details } = row;
+    const photos = await Promise.all((photo_keys || []).map(readImage));
+
+    return {
+      ...details,
+      signature: await readImage(signature_key),
+      photos: photos.filter((photo): photo is string => photo !== null),
+    };
+  }
+
+  /**
+   * Record the delivery of a shipment
+   * Shipments that have not arrived yet are moved to arrived with a tracking event;
+   * for shipments that already arrived the proof is attached to the latest arrival event.
+   * The caller checks that the workflow allows the transition.
+   * @returns Error message when a proof of delivery already exists
+   */
+  async recordDelivery(
+    actor: AuditActor,
+    shipment: Shipment,
+    proof: ProofOfDelivery
+  ): Promise<{ delivery?: DeliveryProofView; error?: string }> {
+    if (await this.getDeliveryRow(actor.organizationId, shipment.id)) {
+      return { error: 'Proof of delivery has already been recorded for this shipment' };
+    }
+
+    const id = randomUUID();
+    const keyFor = (name: string, image: DeliveryImage) =>
+      `${actor.organizationId}/${shipment.id}/delivery/${id}/${name}.${image.extension}`;
+
+    const signatureKey = keyFor('signature', proof.getSignature());
+    const photoKeys = proof.getPhotos().map((photo, index) => keyFor(`photo-${index + 1}`, photo));
+    const images = [proof.getSignature(), ...proof.getPhotos()];
+    const keys = [signatureKey, ...photoKeys];
+    let arrival: ArrivalChange | null = null;
+
+    // Whatever fails, the images are removed and the arrival recorded for this proof is undone
+    try {
+      // Images are stored first so a storage failure leaves the shipment untouched;
+      // all uploads are settled before any failure is reported, so none is left behind
+      const uploads = await Promise.allSettled(images.map((image, index) =>
+        this.storage.save(keys[index], image.content, image.contentType)
+      ));
+      const failedUpload = uploads.find((upload): upload is PromiseRejectedResult => upload.status === 'rejected');
+      if (failedUpload) {
+        throw failedUpload.reason;
+      }
+
+      arrival = await this.findOrCreateArrivalEvent(actor, shipment, proof);
+
+      const { data, error } = await supabaseAdmin
+        .from('delivery_proofs')
+        .insert({
+          id,
+          shipment_id: shipment.id,
+          organization_id: actor.organizationId,
+          tracking_event_id: arrival.eventId,
+          recorded_by: actor.id,
+          recorded_by_email: actor.email || null,
+          recipient_name: proof.getRecipientName(),
+          delivered_at: proof.getDeliveredAt().toISOString(),
+          location: proof.getLocation(),
+          ...proof.getCoordinates(),
+          condition: proof.getCondition(),
+          condition_notes: proof.getConditionNotes(),
+          signature_key: signatureKey,
+          photo_keys: photoKeys,
+        })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Insert delivery proof error:', error);
+        throw new Error('Failed to save proof of delivery');
+      }
+    } catch (error) {
+      if (arrival) {
+        await this.revertArrival(actor, shipment, arrival);
+      }
+      await this.storage.remove(keys);
+      throw error;
+    }
+
+    return { delivery: (await this.getDelivery(actor.organizationId, shipment.id))! };
+  }
+
+  /**
+   * Remove the stored images of shipments that are being deleted
+   * (their rows go with the shipments)
+   */
+  async removeFilesForShipments(organizationId: string, shipmentIds: string[]): Promise<void> {
+    if (shipmentIds.length === 0) return;
+
+    const { data } = await supabaseAdmin
+      .from('delivery_proofs')
+      .select('signature_key, photo_keys')
+      .eq('organization_id', organizationId)
+      .in('shipment_id', shipmentIds);
+
+    const keys = (data || []).flatMap(row => [row.signature_key as string, ...((row.photo_keys as string[]) || [])]);
+    try {
+      await this.storage.remove(keys);
+    } catch (error) {
+      console.error('Remove delivery images error:', error);
+    }
+  }
+
+  /**
+   * Move the shipment to arrived, or find the event of its earlier arrival
+   * A status change is reverted again when its tracking event cannot be written
+   */
+  private async findOrCreateArrivalEvent(
+    actor: AuditActor,
+    shipment: Shipment,
+    proof: ProofOfDelivery
+  ): Promise<ArrivalChange> {
+    const statusChanged = shipment.status !== DELIVERED_STATUS;
+
+    if (!statusChanged) {
+      const { data: event } = await supabaseAdmin
+        .from('tracking_events')
+        .select('id')
+        .eq('shipment_id', shipment.id)
+        .eq('status', DELIVERED_STATUS)
+        .order('timestamp', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (event) {
+        return { eventId: event.id, eventCreated: false, statusChanged };
+      }
+    } else {
+      const { error } = await supabaseAdmin
+        .from('shipments')
+        .update({ status: DELIVERED_STATUS, updated_at: new Date().toISOString() })
+        .eq('id', shipment.id)
+        .eq('organization_id', actor.organizationId);
+
+      if (error) {
+        throw new Error('Failed to update shipment');
+      }
+
+      await auditService.logUpdate(actor, shipment.id, shipment, { status: DELIVERED_STATUS });
+    }
+
+    const { latitude, longitude } = proof.getCoordinates();
+    const condition = proof.hasException() ? ` (${proof.getCondition().replace(/_/g, ' ')})` : '';
+
+    const { data: event, error } = await supabaseAdmin
+      .from('tracking_events')
+      .insert({
+        shipment_id: shipment.id,
+        status: DELIVERED_STATUS,
+        location: proof.getLocation() || shipment.destination,
+        latitude: latitude ?? shipment.dest_lat,
+        longitude: longitude ?? shipment.dest_lon,
+        timestamp: proof.getDeliveredAt().toISOString(),
+        notes: `Delivered to ${proof.getRecipientName()}${condition}`,
+      })
+      .select('id')
+      .single();
+
+    if (error || !event) {
+      console.error('Insert arrival event error:', error);
+      if (statusChanged) {
+        await this.revertArrival(actor, shipment, { eventId: null, eventCreated: false, statusChanged });
+      }
+      throw new Error('Failed to record arrival');
+    }
+
+    return { eventId: event.id, eventCreated: true, statusChanged };
+  }
+
+  /**
+   * Undo an arrival recorded for a proof of delivery that could not be saved:
+   * remove its tracking event and move the shipment back to its previous status
+   */
+  private async revertArrival(actor: AuditActor, shipment: Shipment, arrival: ArrivalChange): Promise<void> {
+    if (arrival.eventCreated && arrival.eventId !== null) {
+      const { error } = await supabaseAdmin
+        .from('tracking_events')
+        .delete()
+        .eq('id', arrival.eventId);
+
+      if (error) {
+        console.error('Remove arrival event error:', error);
+      }
+    }
+
+    if (arrival.statusChanged) {
+      const { error } = await supabaseAdmin
+        .from('shipments')
+        .update({ status: shipment.status, updated_at: new Date().toISOString() })
+        .eq('id', shipment.id)
+        .eq('organization_id', actor.organizationId);
+
+      if (error) {
+        console.error('Revert shipment status error:', error);
+      } else {
+        await auditService.logUpdate(actor, shipment.id, { status: DELIVERED_STATUS }, { status: shipment.status });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const deliveryService = new DeliveryService(documentStorage);
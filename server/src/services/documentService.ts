@@ -0,0 +1,157 @@
+/**
+ * Document Service
+ * Metadata and contents of documents attached to shipments
+ */
+
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { ShipmentDocument, MAX_DOCUMENTS_PER_SHIPMENT } from '../classes/ShipmentDocument';
+import { ShipmentDocumentRow } from '../types';
+import { AuditActor } from './auditService';
+import { documentStorage, DocumentStorage } from './documentStorage';
+
+/**
+ * Document Service - rows in shipment_documents, contents in document storage
+ */
+export class DocumentService {
+  private readonly storage: DocumentStorage;
+
+  constructor(storage: DocumentStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Get the documents of a shipment, newest first
+   */
+  async getDocuments(organizationId: string, shipmentId: string): Promise<ShipmentDocumentRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('shipment_documents')
+      .select('*')
+      .eq('shipment_id', shipmentId)
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Fetch documents error:', error);
+      throw new Error('Failed to fetch documents');
+    }
+
+    return data || [];
+  }
+
+  async getDocument(organizationId: string, shipmentId: string, documentId: string): Promise<ShipmentDocumentRow | null> {
+    const { data } = await supabaseAdmin
+      .from('shipment_documents')
+      .select('*')
+      .eq('id', documentId)
+      .eq('shipment_id', shipmentId)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    return data;
+  }
+
+  /**
+   * Store a document and record it on the shipment
+   * The stored file is removed again if the row cannot be written
+   * @returns Error message when the shipment already has the maximum number of documents
+   */
+  async upload(
+    actor: AuditActor,
+    shipmentId: string,
+    document: ShipmentDocument
+  ): Promise<{ document?: ShipmentDocumentRow; error?: string }> {
+    const { count } = await supabaseAdmin
+      .from('shipment_documents')
+      .select('id', { count: 'exact', head: true })
+      .eq('shipment_id', shipmentId);
+
+    if ((count ?? 0) >= MAX_DOCUMENTS_PER_SHIPMENT) {
+      return { error: `A shipment can have at most ${MAX_DOCUMENTS_PER_SHIPMENT} documents` };
+    }
+
+    const id = randomUUID();
+    const storageKey = ShipmentDocument.storageKey(actor.organizationId, shipmentId, id);
+    await this.storage.save(storageKey, document.getContent(), document.getContentType());
+
+    const { data, error } = await supabaseAdmin
+      .from('shipment_documents')
+      .insert({
+        id,
+        shipment_id: shipmentId,
+        organization_id: actor.organizationId,
+        uploaded_by: actor.id,
+        uploaded_by_email: actor.email || null,
+        document_type: document.getDocumentType(),
+        file_name: document.getFileName(),
+        content_type: document.getContentType(),
+        size_bytes: document.getSize(),
+        storage_key: storageKey,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Insert document error:', error);
+      await this.storage.remove([storageKey]);
+      throw new Error('Failed to save document');
+    }
+
+    return { document: data };
+  }
+
+  /**
+   * Read the contents of a document
+   */
+  async readContent(document: ShipmentDocumentRow): Promise<Buffer | null> {
+    return this.storage.read(document.storage_key);
+  }
+
+  /**
+   * Delete a document and its stored file
+   */
+  async deleteDocument(organizationId: string, shipmentId: string, documentId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('shipment_documents')
+      .delete()
+      .eq('id', documentId)
+      .eq('shipment_id', shipmentId)
+      .eq('organization_id', organizationId)
+      .select('storage_key');
+
+    if (error) {
+      throw new Error('Failed to delete document');
+    }
+    if (!data || data.length === 0) {
+      return false;
+    }
+
+    await this.storage.remove(data.map(row => row.storage_key as string));
+    return true;
+  }
+
+  /**
+   * Remove the stored files of shipments that are being deleted
+   * (their rows go with the shipments)
+   */
+  async removeFilesForShipments(organizationId: string, shipmentIds: string[]): Promise<void> {
+    if (shipmentIds.length === 0) return;
+
+    const { data } = await supabaseAdmin
+      .from('shipment_documents')
+      .select('storage_key')
+      .eq('organization_id', organizationId)
+      .in('shipment_id', shipmentIds);
+
+    const keys = (data || []).map(row => row.storage_key as string);
+    try {
+      await this.storage.remove(keys);
+    } catch (error) {
+      // Orphaned files are harmless; deleting the shipment matters more
+      console.error('Remove shipment documents error:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const documentService = new DocumentService(documentStorage);
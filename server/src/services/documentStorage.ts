@@ -0,0 +1,123 @@
+/**
+ * Document Storage
+ * Where uploaded shipment documents are kept: the local filesystem or object storage
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { supabaseAdmin } from '../config/supabase';
+
+/**
+ * Storage backend for document contents
+ * Keys are opaque paths such as "<organization>/<shipment>/<document>"
+ */
+export interface DocumentStorage {
+  save(key: string, content: Uint8Array, contentType: string): Promise<void>;
+  /** @returns null when nothing is stored under the key */
+  read(key: string): Promise<Buffer | null>;
+  remove(keys: string[]): Promise<void>;
+}
+
+/**
+ * Local filesystem storage (development and single-server deployments)
+ */
+export class LocalDocumentStorage implements DocumentStorage {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async save(key: string, content: Uint8Array): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    await Promise.all(keys.map(key => fs.rm(this.resolve(key), { force: true })));
+  }
+
+  /**
+   * Path of a key, refusing keys that would escape the storage directory
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('Invalid document storage key');
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Object storage in a Supabase Storage bucket (serverless deployments)
+ * The bucket should be private; documents are only served through the API
+ */
+export class ObjectDocumentStorage implements DocumentStorage {
+  private readonly bucket: string;
+
+  constructor(bucket: string) {
+    this.bucket = bucket;
+  }
+
+  async save(key: string, content: Uint8Array, contentType: string): Promise<void> {
+    const { error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .upload(key, content, { contentType, upsert: false });
+
+    if (error) {
+      console.error('Document upload error:', error);
+      throw new Error('Failed to store document');
+    }
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const { data, error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .download(key);
+
+    if (error || !data) {
+      return null;
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const { error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .remove(keys);
+
+    if (error) {
+      console.error('Document removal error:', error);
+      throw new Error('Failed to remove documents');
+    }
+  }
+}
+
+/**
+ * Choose the storage backend from the environment
+ * DOCUMENT_STORAGE=object uses the DOCUMENT_STORAGE_BUCKET bucket,
+ * otherwise files are written below DOCUMENT_STORAGE_PATH
+ */
+export function createDocumentStorage(): DocumentStorage {
+  if (process.env.DOCUMENT_STORAGE === 'object') {
+    return new ObjectDocumentStorage(process.env.DOCUMENT_STORAGE_BUCKET || 'shipment-documents');
+  }
+  return new LocalDocumentStorage(process.env.DOCUMENT_STORAGE_PATH || 'uploads');
+}
+
+// Export singleton instance
+export const documentStorage = createDocumentStorage();
@@ -0,0 +1,178 @@
+/**
+ * Import Service
+ * Persistence for bulk shipment imports
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { CreateShipmentRequest, Shipment } from '../types';
+import { legService } from './legService';
+import { AuditActor } from './auditService';
+import { StatusWorkflow } from '../classes/StatusWorkflow';
+import { CargoPiece } from '../classes/CargoPiece';
+import { Airport } from '../classes/Airport';
+import { shipmentService } from './shipmentService';
+
+// Batch inserts tried when a generated tracking number is already taken
+const MAX_INSERT_ATTEMPTS = 3;
+
+/**
+ * Whether an insert failed on the unique tracking number
+ */
+function isTrackingNumberTaken(error: { code?: string; message?: string } | null): boolean {
+  return error?.code === '23505' && (error.message || '').includes('tracking_number');
+}
+
+/**
+ * A validated row ready to be inserted
+ */
+export interface ImportEntry {
+  importKey: string;
+  trackingNumber: string;
+  data: Partial<CreateShipmentRequest>;
+}
+
+/**
+ * Import Service - batch creation of shipments from uploaded files
+ */
+export class ImportService {
+  /**
+   * Find which import keys were already imported by this organization
+   */
+  async findExistingKeys(organizationId: string, keys: string[]): Promise<Set<string>> {
+    if (keys.length === 0) return new Set();
+
+    const { data, error } = await supabaseAdmin
+      .from('shipments')
+      .select('import_key')
+      .eq('organization_id', organizationId)
+      .in('import_key', keys);
+
+    if (error) {
+      console.error('Fetch import keys error:', error);
+      throw new Error('Failed to check for previously imported shipments');
+    }
+
+    return new Set((data || []).map(row => row.import_key as string));
+  }
+
+  /**
+   * Find which AWB numbers are already assigned to this organization's shipments
+   */
+  async findUsedAwbNumbers(organizationId: string, awbNumbers: string[]): Promise<Set<string>> {
+    if (awbNumbers.length === 0) return new Set();
+
+    const { data, error } = await supabaseAdmin
+      .from('shipments')
+      .select('awb_number')
+      .eq('organization_id', organizationId)
+      .in('awb_number', awbNumbers);
+
+    if (error) {
+      console.error('Fetch AWB numbers error:', error);
+      throw new Error('Failed to check AWB numbers');
+    }
+
+    return new Set((data || []).map(row => row.awb_number as string));
+  }
+
+  /**
+   * Insert all entries in one batch, each with its initial tracking event
+   * The batch is tried again with new tracking numbers when one is already taken, and
+   * the shipments are removed again if the tracking events cannot be written
+   */
+  async commit(
+    actor: AuditActor,
+    entries: ImportEntry[],
+    workflow: StatusWorkflow
+  ): Promise<Shipment[]> {
+    if (entries.length === 0) return [];
+
+    const initialStatus = workflow.getInitialStatus();
+
+    let { data: shipments, error } = await this.insertShipments(actor, entries, initialStatus);
+    for (let attempt = 1; attempt < MAX_INSERT_ATTEMPTS && isTrackingNumberTaken(error); attempt++) {
+      const trackingNumbers = new Set<string>();
+      entries.forEach(entry => {
+        entry.trackingNumber = shipmentService.generateTrackingNumber(trackingNumbers);
+      });
+      ({ data: shipments, error } = await this.insertShipments(actor, entries, initialStatus));
+    }
+
+    if (error || !shipments) {
+      console.error('Import shipments error:', error);
+      throw new Error('Failed to import shipments');
+    }
+
+    const { error: eventError } = await supabaseAdmin
+      .from('tracking_events')
+      .insert(shipments.map(shipment => ({
+        shipment_id: shipment.id,
+        status: initialStatus,
+        location: shipment.origin,
+        latitude: shipment.origin_lat,
+        longitude: shipment.origin_lon,
+        notes: 'Shipment created (bulk import)',
+      })));
+
+    if (eventError) {
+      console.error('Import tracking events error:', eventError);
+      await supabaseAdmin
+        .from('shipments')
+        .delete()
+        .in('id', shipments.map(shipment => shipment.id));
+      throw new Error('Failed to import shipments');
+    }
+
+    // Legs are only available from JSON uploads
+    const byKey = new Map(entries.map(entry => [entry.importKey, entry]));
+    for (const shipment of shipments) {
+      const legs = byKey.get(shipment.import_key)?.data.legs;
+      if (legs && legs.length > 0) {
+        await legService.replaceLegs(shipment.id, legs);
+        await legService.syncShipmentFromLegs(shipment.id, workflow);
+      }
+    }
+
+    return shipments;
+  }
+
+  /**
+   * Insert the shipment rows of the entries
+   */
+  private insertShipments(actor: AuditActor, entries: ImportEntry[], initialStatus: string) {
+    return supabaseAdmin
+      .from('shipments')
+      .insert(entries.map(({ importKey, trackingNumber, data }) => {
+        // Airports resolved from the origin and destination text fill in missing coordinates
+        const originAirport = Airport.findByCode(data.origin_iata) ?? Airport.resolve(data.origin);
+        const destAirport = Airport.findByCode(data.dest_iata) ?? Airport.resolve(data.destination);
+
+        return {
+          user_id: actor.id,
+          organization_id: actor.organizationId,
+          tracking_number: trackingNumber,
+          import_key: importKey,
+          origin: data.origin,
+          origin_lat: data.origin_lat ?? originAirport?.getPosition().lat ?? null,
+          origin_lon: data.origin_lon ?? originAirport?.getPosition().lon ?? null,
+          origin_iata: originAirport?.getIata() ?? null,
+          destination: data.destination,
+          dest_lat: data.dest_lat ?? destAirport?.getPosition().lat ?? null,
+          dest_lon: data.dest_lon ?? destAirport?.getPosition().lon ?? null,
+          dest_iata: destAirport?.getIata() ?? null,
+          status: initialStatus,
+          cargo_type: data.cargo_type || null,
+          weight_kg: data.weight_kg ?? null,
+          chargeable_weight_kg: CargoPiece.chargeableWeight(data.weight_kg),
+          estimated_arrival: data.estimated_arrival || null,
+          awb_number: data.awb_number || null,
+          temp_min_c: data.temp_min_c ?? null,
+          temp_max_c: data.temp_max_c ?? null,
+        };
+      }))
+      .select();
+  }
+}
+
+// Export singleton instance
+export const importService = new ImportService();
@@ -0,0 +1,181 @@
+/**
+ * Leg Service
+ * Persistence for multi-leg shipments and derivation of shipment status/ETA
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { ShipmentRoute } from '../classes/ShipmentRoute';
+import { StatusWorkflow } from '../classes/StatusWorkflow';
+import { StatusFactory } from '../classes/ShipmentStatus';
+import { StatusReason } from '../classes/StatusReason';
+import { CreateShipmentLegRequest, ShipmentLeg } from '../types';
+
+/**
+ * Leg Service - manages ordered legs of a shipment
+ */
+export class LegService {
+  /**
+   * Get the legs of a shipment in sequence order
+   */
+  async getLegs(shipmentId: string): Promise<ShipmentLeg[]> {
+    const { data, error } = await supabaseAdmin
+      .from('shipment_legs')
+      .select('*, tracked_flights(icao24, callsign)')
+      .eq('shipment_id', shipmentId)
+      .order('sequence', { ascending: true });
+
+    if (error) {
+      console.error('Fetch legs error:', error);
+      throw new Error('Failed to fetch shipment legs');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get a single leg belonging to a shipment
+   */
+  async getLeg(shipmentId: string, legId: number): Promise<ShipmentLeg | null> {
+    const { data } = await supabaseAdmin
+      .from('shipment_legs')
+      .select('*')
+      .eq('id', legId)
+      .eq('shipment_id', shipmentId)
+      .maybeSingle();
+
+    return data;
+  }
+
+  /**
+   * Replace all legs of a shipment
+   * Existing legs (and their flight assignments) are removed
+   */
+  async replaceLegs(shipmentId: string, legs: CreateShipmentLegRequest[]): Promise<ShipmentLeg[]> {
+    const { error: deleteError } = await supabaseAdmin
+      .from('shipment_legs')
+      .delete()
+      .eq('shipment_id', shipmentId);
+
+    if (deleteError) {
+      throw new Error('Failed to replace shipment legs');
+    }
+
+    if (legs.length === 0) {
+      return [];
+    }
+
+    const rows = legs.map((leg, index) => ({
+      shipment_id: shipmentId,
+      sequence: index + 1,
+      origin: leg.origin,
+      origin_lat: leg.origin_lat ?? null,
+      origin_lon: leg.origin_lon ?? null,
+      destination: leg.destination,
+      dest_lat: leg.dest_lat ?? null,
+      dest_lon: leg.dest_lon ?? null,
+      planned_departure: leg.planned_departure || null,
+      planned_arrival: leg.planned_arrival || null,
+      status: 'pending',
+    }));
+
+    const { data, error } = await supabaseAdmin
+      .from('shipment_legs')
+      .insert(rows)
+      .select();
+
+    if (error) {
+      console.error('Insert legs error:', error);
+      throw new Error('Failed to save shipment legs');
+    }
+
+    return (data || []).sort((a, b) => a.sequence - b.sequence);
+  }
+
+  /**
+   * Update a leg and record actual departure/arrival times for status changes
+   */
+  async updateLeg(legId: number, updates: Partial<ShipmentLeg>): Promise<ShipmentLeg> {
+    const changes: Partial<ShipmentLeg> = { ...updates, updated_at: new Date().toISOString() };
+
+    if (updates.status === 'departed' && !updates.actual_departure) {
+      changes.actual_departure = new Date().toISOString();
+    }
+    if (updates.status === 'arrived' && !updates.actual_arrival) {
+      changes.actual_arrival = new Date().toISOString();
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('shipment_legs')
+      .update(changes)
+      .eq('id', legId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error('Failed to update shipment leg');
+    }
+
+    return data;
+  }
+
+  /**
+   * Recalculate the shipment status and ETA from its legs
+   * Records a tracking event when the derived status changes and the workflow allows the
+   * transition; the reason of the leg change is stored on it when the workflow requires
+   * a reason for the derived status
+   * @returns The derived status, or null when the shipment has no legs
+   */
+  async syncShipmentFromLegs(
+    shipmentId: string,
+    workflow: StatusWorkflow = StatusWorkflow.getDefault(),
+    note?: string,
+    reason: StatusReason | null = null
+  ): Promise<string | null> {
+    const legs = await this.getLegs(shipmentId);
+    const route = new ShipmentRoute(legs);
+    const derivedStatus = route.deriveStatus();
+
+    if (!derivedStatus) return null;
+
+    const { data: shipment } = await supabaseAdmin
+      .from('shipments')
+      .select('status, estimated_arrival')
+      .eq('id', shipmentId)
+      .single();
+
+    if (!shipment) return null;
+
+    const eta = route.getEstimatedArrival();
+    // The derived status is only taken when the workflow allows the transition to it
+    const statusChanged = derivedStatus !== shipment.status &&
+      workflow.hasStatus(derivedStatus) &&
+      StatusFactory.isValidTransition(shipment.status, derivedStatus, workflow);
+
+    await supabaseAdmin
+      .from('shipments')
+      .update({
+        ...(statusChanged ? { status: derivedStatus } : {}),
+        estimated_arrival: eta ? eta.toISOString() : shipment.estimated_arrival,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', shipmentId);
+
+    if (statusChanged) {
+      const current = route.getCurrentLeg() || legs[legs.length - 1];
+      await supabaseAdmin
+        .from('tracking_events')
+        .insert({
+          shipment_id: shipmentId,
+          status: derivedStatus,
+          location: derivedStatus === 'arrived' ? current.destination : current.origin,
+          notes: note || `Status derived from legs: ${derivedStatus}`,
+          ...(reason && workflow.requiresReason(derivedStatus) ? reason.toJSON() : {}),
+        });
+    }
+
+    return statusChanged ? derivedStatus : shipment.status;
+  }
+}
+
+// Export singleton instance
+export const legService = new LegService();
@@ -0,0 +1,349 @@
+/**
+ * Organization Service
+ * Organizations, their members and roles, and invitations to join them
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { AccessPolicy, Role } from '../classes/AccessPolicy';
+import { Organization, OrganizationInvite, OrganizationMember } from '../types';
+
+/**
+ * Tables holding account data that belongs to an organization
+ */
+const ORGANIZATION_TABLES = ['shipments', 'status_workflows', 'awb_stock', 'rate_cards', 'quotes', 'shipment_audit_log'];
+
+/**
+ * Organization Service - every user belongs to exactly one organization
+ */
+export class OrganizationService {
+  /**
+   * Get the membership of a user
+   * Users without one join the organization that invited them, or get a
+   * personal organization in which they are the admin
+   */
+  async getMembership(user: { id: string; email: string }): Promise<OrganizationMember> {
+    const existing = await this.findMembership(user.id);
+    if (existing) {
+      return existing;
+    }
+
+    const [invite] = await this.getInvitesForEmail(user.email);
+    if (invite) {
+      const { member } = await this.acceptInvite(user, invite.id);
+      if (member) return member;
+    }
+
+    return this.createPersonalOrganization(user);
+  }
+
+  async getOrganization(organizationId: string): Promise<Organization | null> {
+    const { data } = await supabaseAdmin
+      .from('organizations')
+      .select('*')
+      .eq('id', organizationId)
+      .maybeSingle();
+
+    return data;
+  }
+
+  /**
+   * Rename an organization or change its settings
+   */
+  async updateOrganization(
+    organizationId: string,
+    updates: Partial<Pick<Organization, 'name' | 'auto_status'>>
+  ): Promise<Organization> {
+    const { data, error } = await supabaseAdmin
+      .from('organizations')
+      .update(updates)
+      .eq('id', organizationId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Update organization error:', error);
+      throw new Error('Failed to update organization');
+    }
+
+    return data;
+  }
+
+  /**
+   * Get the members of an organization, oldest first
+   */
+  async getMembers(organizationId: string): Promise<OrganizationMember[]> {
+    const { data, error } = await supabaseAdmin
+      .from('organization_members')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Fetch members error:', error);
+      throw new Error('Failed to fetch organization members');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Change the role of a member
+   * @returns Error message when the organization would be left without an admin
+   */
+  async updateMemberRole(
+    organizationId: string,
+    userId: string,
+    role: Role
+  ): Promise<{ member?: OrganizationMember | null; error?: string }> {
+    const members = await this.getMembers(organizationId);
+    if (AccessPolicy.removesLastAdmin(members, userId, role)) {
+      return { error: 'An organization needs at least one admin' };
+    }
+
+    const { data: member, error } = await supabaseAdmin
+      .from('organization_members')
+      .update({ role })
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Update member error:', error);
+      throw new Error('Failed to update member');
+    }
+
+    return { member };
+  }
+
+  /**
+   * Remove a member; they get a personal organization the next time they sign in
+   * @returns Error message when the organization would be left without an admin
+   */
+  async removeMember(organizationId: string, userId: string): Promise<{ removed: boolean; error?: string }> {
+    const members = await this.getMembers(organizationId);
+    if (AccessPolicy.removesLastAdmin(members, userId, null)) {
+      return { removed: false, error: 'An organization needs at least one admin' };
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .select();
+
+    if (error) {
+      throw new Error('Failed to remove member');
+    }
+
+    return { removed: (data || []).length > 0 };
+  }
+
+  /**
+   * Get the open invitations of an organization
+   */
+  async getInvites(organizationId: string): Promise<OrganizationInvite[]> {
+    const { data, error } = await supabaseAdmin
+      .from('organization_invites')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Fetch invites error:', error);
+      throw new Error('Failed to fetch invitations');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the invitations addressed to an email, oldest first
+   */
+  async getInvitesForEmail(email: string): Promise<OrganizationInvite[]> {
+    if (!email) return [];
+
+    const { data, error } = await supabaseAdmin
+      .from('organization_invites')
+      .select('*, organizations(name)')
+      .eq('email', email.toLowerCase())
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Fetch invites error:', error);
+      throw new Error('Failed to fetch invitations');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Invite someone by email; inviting the same email again updates the role
+   * @returns Error message when the email already belongs to a member
+   */
+  async invite(
+    organizationId: string,
+    email: string,
+    role: Role,
+    invitedBy: string
+  ): Promise<{ invite?: OrganizationInvite; error?: string }> {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const members = await this.getMembers(organizationId);
+    if (members.some(member => member.email.toLowerCase() === normalizedEmail)) {
+      return { error: `${normalizedEmail} is already a member` };
+    }
+
+    const { data: invite, error } = await supabaseAdmin
+      .from('organization_invites')
+      .upsert({
+        organization_id: organizationId,
+        email: normalizedEmail,
+        role,
+        invited_by: invitedBy,
+      }, { onConflict: 'organization_id,email' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Insert invite error:', error);
+      throw new Error('Failed to invite member');
+    }
+
+    return { invite };
+  }
+
+  async cancelInvite(organizationId: string, id: number): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('organization_invites')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select();
+
+    if (error) {
+      throw new Error('Failed to cancel invitation');
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Join the organization of an invitation, leaving the current one
+   * Data stays with the organization it was created in
+   * @returns Error message when the invitation is not for this user or they are
+   *          the last admin of an organization with other members
+   */
+  async acceptInvite(
+    user: { id: string; email: string },
+    inviteId: number
+  ): Promise<{ member?: OrganizationMember; error?: string }> {
+    const invite = (await this.getInvitesForEmail(user.email)).find(i => i.id === inviteId);
+    if (!invite) {
+      return { error: 'Invitation not found' };
+    }
+
+    const current = await this.findMembership(user.id);
+    if (current) {
+      const members = await this.getMembers(current.organization_id);
+      if (members.length > 1 && AccessPolicy.removesLastAdmin(members, user.id, null)) {
+        return { error: 'Make another member an admin before leaving your organization' };
+      }
+
+      await supabaseAdmin
+        .from('organization_members')
+        .delete()
+        .eq('user_id', user.id);
+    }
+
+    const { data: member, error } = await supabaseAdmin
+      .from('organization_members')
+      .insert({
+        organization_id: invite.organization_id,
+        user_id: user.id,
+        email: user.email,
+        role: invite.role,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Accept invite error:', error);
+      throw new Error('Failed to join organization');
+    }
+
+    await supabaseAdmin
+      .from('organization_invites')
+      .delete()
+      .eq('id', invite.id);
+
+    return { member };
+  }
+
+  private async findMembership(userId: string): Promise<OrganizationMember | null> {
+    const { data, error } = await supabaseAdmin
+      .from('organization_members')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Fetch membership error:', error);
+      throw new Error('Failed to fetch organization membership');
+    }
+
+    return data;
+  }
+
+  /**
+   * Create an organization with the user as its admin
+   * Data the user created before organizations existed is moved into it
+   */
+  private async createPersonalOrganization(user: { id: string; email: string }): Promise<OrganizationMember> {
+    const { data: organization, error } = await supabaseAdmin
+      .from('organizations')
+      .insert({ name: user.email ? user.email.split('@')[0] : 'My organization' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Create organization error:', error);
+      throw new Error('Failed to create organization');
+    }
+
+    const { data: member, error: memberError } = await supabaseAdmin
+      .from('organization_members')
+      .insert({
+        organization_id: organization.id,
+        user_id: user.id,
+        email: user.email,
+        role: 'admin',
+      })
+      .select()
+      .single();
+
+    // A concurrent request created the membership first
+    if (memberError) {
+      await supabaseAdmin.from('organizations').delete().eq('id', organization.id);
+      const existing = await this.findMembership(user.id);
+      if (existing) return existing;
+
+      console.error('Create membership error:', memberError);
+      throw new Error('Failed to create organization');
+    }
+
+    for (const table of ORGANIZATION_TABLES) {
+      await supabaseAdmin
+        .from(table)
+        .update({ organization_id: organization.id })
+        .eq('user_id', user.id)
+        .is('organization_id', null);
+    }
+
+    return member;
+  }
+}
+
+// Export singleton instance
+export const organizationService = new OrganizationService();
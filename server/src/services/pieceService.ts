@@ -0,0 +1,82 @@
+/**
+ * Piece Service
+ * Persistence for shipment pieces and the weight totals derived from them
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { CargoPiece, WeightSummary } from '../classes/CargoPiece';
+import { ShipmentPiece } from '../types';
+
+/**
+ * Piece Service - manages the piece lines of a shipment
+ */
+export class PieceService {
+  /**
+   * Get the piece lines of a shipment in entry order
+   */
+  async getPieces(shipmentId: string): Promise<ShipmentPiece[]> {
+    const { data, error } = await supabaseAdmin
+      .from('shipment_pieces')
+      .select('*')
+      .eq('shipment_id', shipmentId)
+      .order('id', { ascending: true });
+
+    if (error) {
+      console.error('Fetch pieces error:', error);
+      throw new Error('Failed to fetch shipment pieces');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Replace all piece lines of a shipment and store the recalculated totals
+   * @param declaredWeightKg - Shipment weight to keep when the pieces are removed
+   */
+  async replacePieces(
+    shipmentId: string,
+    pieces: CargoPiece[],
+    declaredWeightKg: number | null
+  ): Promise<{ pieces: ShipmentPiece[]; summary: WeightSummary }> {
+    const { error: deleteError } = await supabaseAdmin
+      .from('shipment_pieces')
+      .delete()
+      .eq('shipment_id', shipmentId);
+
+    if (deleteError) {
+      throw new Error('Failed to replace shipment pieces');
+    }
+
+    let saved: ShipmentPiece[] = [];
+    if (pieces.length > 0) {
+      const { data, error } = await supabaseAdmin
+        .from('shipment_pieces')
+        .insert(pieces.map(piece => ({ shipment_id: shipmentId, ...piece.toJSON() })))
+        .select();
+
+      if (error) {
+        console.error('Insert pieces error:', error);
+        throw new Error('Failed to save shipment pieces');
+      }
+
+      saved = (data || []).sort((a, b) => a.id - b.id);
+    }
+
+    const summary = CargoPiece.summarize(pieces, declaredWeightKg);
+
+    const { error: updateError } = await supabaseAdmin
+      .from('shipments')
+      .update({ ...summary, updated_at: new Date().toISOString() })
+      .eq('id', shipmentId);
+
+    if (updateError) {
+      console.error('Update weight totals error:', updateError);
+      throw new Error('Failed to update shipment weight');
+    }
+
+    return { pieces: saved, summary };
+  }
+}
+
+// Export singleton instance
+export const pieceService = new PieceService();
@@ -0,0 +1,157 @@
+/**
+ * Public Tracking Service
+ * Sanitized shipment lookup by tracking number for customers without an account
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { Flight } from '../classes/Flight';
+import { ShipmentRoute } from '../classes/ShipmentRoute';
+import { StatusFactory } from '../classes/ShipmentStatus';
+import { StatusWorkflow } from '../classes/StatusWorkflow';
+import { ShipmentValidator } from '../middleware/validation';
+import {
+  PublicFlightPosition,
+  PublicTrackingView,
+  Shipment,
+  ShipmentLeg,
+  TrackedFlight,
+  TrackingEvent,
+} from '../types';
+import { legService } from './legService';
+import { openskyService } from './openskyService';
+import { workflowService } from './workflowService';
+
+/**
+ * Public Tracking Service - builds the customer-facing view of a shipment
+ * Never returns the owner, internal notes, coordinates of tracking events or the PIN
+ */
+export class PublicTrackingService {
+  /**
+   * Look up a shipment by tracking number
+   * @param pin - PIN or postcode, required when the shipment has one
+   * @returns null when the shipment does not exist or the PIN does not match,
+   *          so both cases look the same to the caller
+   */
+  async lookup(trackingNumber: string, pin?: string): Promise<PublicTrackingView | null> {
+    const { data: shipment } = await supabaseAdmin
+      .from('shipments')
+      .select('*')
+      .eq('tracking_number', trackingNumber.trim().toUpperCase())
+      .maybeSingle();
+
+    if (!shipment) {
+      return null;
+    }
+    if (shipment.tracking_pin &&
+        ShipmentValidator.normalizeTrackingPin(pin || '') !== shipment.tracking_pin) {
+      return null;
+    }
+
+    const { data: events } = await supabaseAdmin
+      .from('tracking_events')
+      .select('status, location, timestamp')
+      .eq('shipment_id', shipment.id)
+      .order('timestamp', { ascending: true });
+
+    const legs = await legService.getLegs(shipment.id);
+    const workflow = await workflowService.getWorkflowForOrganization(shipment.organization_id);
+
+    // Transitions are internal to the account's workflow
+    const status = StatusFactory.createStatus(shipment.status, undefined, workflow).toJSON();
+    delete status.transitions;
+
+    const flight = workflow.isTerminal(shipment.status)
+      ? null
+      : await this.getFlightPosition(shipment, legs);
+
+    return {
+      tracking_number: shipment.tracking_number,
+      awb_number: shipment.awb_number ?? null,
+      origin: shipment.origin,
+      destination: shipment.destination,
+      total_pieces: shipment.total_pieces ?? null,
+      status,
+      estimated_arrival: shipment.estimated_arrival,
+      route: legs.map(({ sequence, origin, destination, status }) => ({ sequence, origin, destination, status })),
+      milestones: this.toMilestones(events || [], workflow),
+      flight,
+      updated_at: shipment.updated_at,
+    };
+  }
+
+  /**
+   * Tracking events as milestones, labelled with the account's status names
+   */
+  private toMilestones(
+    events: Pick<TrackingEvent, 'status' | 'location' | 'timestamp'>[],
+    workflow: StatusWorkflow
+  ) {
+    return events.map(event => ({
+      status: event.status,
+      label: workflow.getDefinition(event.status)?.label || event.status,
+      location: event.location,
+      timestamp: event.timestamp,
+    }));
+  }
+
+  /**
+   * Position of the flight carrying the shipment (or its current leg)
+   * Live OpenSky data is used when available, otherwise the last cached position
+   */
+  private async getFlightPosition(shipment: Shipment, legs: ShipmentLeg[]): Promise<PublicFlightPosition | null> {
+    const { data: assignments } = await supabaseAdmin
+      .from('shipment_assignments')
+      .select('leg_id, tracked_flights(*)')
+      .eq('shipment_id', shipment.id)
+      .order('assigned_at', { ascending: false });
+
+    const currentLeg = new ShipmentRoute(legs).getCurrentLeg();
+    const assignment = (assignments || []).find(a => !currentLeg || a.leg_id === currentLeg.id);
+    const cached = assignment?.tracked_flights as unknown as TrackedFlight | null | undefined;
+
+    if (!cached || cached.latitude === null || cached.longitude === null) {
+      return null;
+    }
+
+    const live = await openskyService.getFlightByIcao(cached.icao24);
+    const flight = live || new Flight(
+      cached.icao24,
+      cached.callsign || '',
+      cached.latitude,
+      cached.longitude,
+      cached.altitude || 0,
+      cached.velocity || 0,
+      cached.heading || 0,
+      cached.origin_country || '',
+      cached.vertical_rate || 0,
+      cached.on_ground
+    );
+    const position = flight.getPosition();
+
+    // Live ETA to where the flight is going: the current leg's destination or the shipment's
+    const headingTo = currentLeg ?? shipment;
+    let eta: string | null = null;
+    if (!flight.isOnGround() && headingTo.dest_lat !== null && headingTo.dest_lon !== null) {
+      const minutes = flight.calculateETA(headingTo.dest_lat, headingTo.dest_lon);
+      if (isFinite(minutes)) {
+        eta = new Date(Date.now() + minutes * 60000).toISOString();
+      }
+    }
+
+    return {
+      callsign: flight.getCallsign() || null,
+      latitude: position.lat,
+      longitude: position.lon,
+      altitude: flight.getAltitude(),
+      speed: flight.getSpeed(),
+      heading: flight.getHeading(),
+      on_ground: flight.isOnGround(),
+      last_updated: live ? flight.getLastUpdate().toISOString() : cached.last_updated,
+      heading_to: headingTo.destination,
+      eta,
+    };
+  }
+}
+
+// Export singleton instance
+export const publicTrackingService = new PublicTrackingService();
@@ -0,0 +1,222 @@
+/**
+ * Quote Service
+ * Rate card management and freight price quotes
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { RateCard, RateCardData } from '../classes/RateCard';
+import { CargoPiece } from '../classes/CargoPiece';
+import { CreateQuoteRequest, Quote, RateCardRow } from '../types';
+import { AuditActor } from './auditService';
+
+// Quotes can be accepted for this many days
+const QUOTE_VALIDITY_DAYS = 7;
+
+/**
+ * Quote Service - prices shipments from the organization's rate cards
+ */
+export class QuoteService {
+  /**
+   * Get all rate cards of an organization
+   */
+  async getRateCards(organizationId: string): Promise<RateCardRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_cards')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('origin', { ascending: true })
+      .order('destination', { ascending: true });
+
+    if (error) {
+      console.error('Fetch rate cards error:', error);
+      throw new Error('Failed to fetch rate cards');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create a rate card
+   * @returns Error message when a card for the same lane already exists
+   */
+  async createRateCard(actor: AuditActor, data: RateCardData): Promise<{ rateCard?: RateCardRow; error?: string }> {
+    const card = new RateCard(data).toJSON();
+
+    const existing = await this.getRateCards(actor.organizationId);
+    if (existing.some(row => row.origin === card.origin && row.destination === card.destination)) {
+      return { error: `A rate card for ${card.origin} → ${card.destination} already exists` };
+    }
+
+    const { data: rateCard, error } = await supabaseAdmin
+      .from('rate_cards')
+      .insert({ user_id: actor.id, organization_id: actor.organizationId, ...this.toRow(card) })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Insert rate card error:', error);
+      throw new Error('Failed to save rate card');
+    }
+
+    return { rateCard };
+  }
+
+  /**
+   * Update the rates of a rate card
+   */
+  async updateRateCard(organizationId: string, id: number, data: RateCardData): Promise<RateCardRow | null> {
+    const card = new RateCard(data).toJSON();
+
+    const { data: rateCard, error } = await supabaseAdmin
+      .from('rate_cards')
+      .update({ ...this.toRow(card), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Update rate card error:', error);
+      throw new Error('Failed to update rate card');
+    }
+
+    return rateCard;
+  }
+
+  /**
+   * Delete a rate card (existing quotes keep their prices)
+   */
+  async deleteRateCard(organizationId: string, id: number): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_cards')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select();
+
+    if (error) {
+      throw new Error('Failed to delete rate card');
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Price a shipment with the best matching rate card and store the quote
+   * @returns Error message when no rate card covers the lane
+   */
+  async createQuote(actor: AuditActor, request: CreateQuoteRequest): Promise<{ quote?: Quote; error?: string }> {
+    const cards = (await this.getRateCards(actor.organizationId)).map(row => new RateCard(row));
+    const card = RateCard.findBestMatch(cards, request.origin, request.destination);
+
+    if (!card) {
+      return { error: `No rate card covers ${request.origin} → ${request.destination}` };
+    }
+
+    const pieces = (request.pieces || []).map(piece => new CargoPiece(piece));
+    const weights = CargoPiece.summarize(pieces, request.weight_kg);
+    const breakdown = card.quote(weights.chargeable_weight_kg!, request.cargo_type);
+
+    const validUntil = new Date();
+    validUntil.setDate(validUntil.getDate() + QUOTE_VALIDITY_DAYS);
+
+    const { data: quote, error } = await supabaseAdmin
+      .from('quotes')
+      .insert({
+        user_id: actor.id,
+        organization_id: actor.organizationId,
+        rate_card_id: card.getId() ?? null,
+        origin: request.origin,
+        destination: request.destination,
+        cargo_type: request.cargo_type || null,
+        pieces: pieces.map(piece => piece.toJSON()),
+        weight_kg: weights.weight_kg,
+        volumetric_weight_kg: weights.volumetric_weight_kg,
+        ...breakdown,
+        status: 'quoted',
+        valid_until: validUntil.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Insert quote error:', error);
+      throw new Error('Failed to save quote');
+    }
+
+    return { quote };
+  }
+
+  /**
+   * Get the most recent quotes of an organization
+   */
+  async getQuotes(organizationId: string, limit: number = 50): Promise<Quote[]> {
+    const { data, error } = await supabaseAdmin
+      .from('quotes')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Fetch quotes error:', error);
+      throw new Error('Failed to fetch quotes');
+    }
+
+    return data || [];
+  }
+
+  async getQuote(organizationId: string, id: string): Promise<Quote | null> {
+    const { data } = await supabaseAdmin
+      .from('quotes')
+      .select('*')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    return data;
+  }
+
+  /**
+   * Move a quote from one status to the next
+   * Only succeeds when the quote is still in the expected status, so a quote
+   * cannot be converted twice by concurrent requests
+   */
+  async transition(
+    id: string,
+    from: Quote['status'],
+    to: Quote['status'],
+    changes: Partial<Quote> = {}
+  ): Promise<Quote | null> {
+    const { data } = await supabaseAdmin
+      .from('quotes')
+      .update({ ...changes, status: to })
+      .eq('id', id)
+      .eq('status', from)
+      .select()
+      .maybeSingle();
+
+    return data;
+  }
+
+  isExpired(quote: Quote): boolean {
+    return new Date(quote.valid_until).getTime() < Date.now();
+  }
+
+  private toRow(card: RateCardData) {
+    return {
+      origin: card.origin,
+      destination: card.destination,
+      currency: card.currency,
+      minimum_charge: card.minimum_charge,
+      rate_minus_45: card.rate_minus_45,
+      rate_plus_45: card.rate_plus_45,
+      rate_plus_100: card.rate_plus_100,
+      rate_plus_300: card.rate_plus_300,
+      surcharges: card.surcharges || {},
+    };
+  }
+}
+
+// Export singleton instance
+export const quoteService = new QuoteService();
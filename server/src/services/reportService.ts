@@ -12,6 +12,9 @@
 
 import { supabaseAdmin } from '../config/supabase';
 import { ReportFactory, ReportTemplates, Report } from '../classes/Report';
+import { TEMPERATURE_EXCURSION_IMPACT } from '../classes/ColdChain';
+import { CustomsClearance, CustomsStepRecord } from '../classes/CustomsClearance';
+import { StatusReason } from '../classes/StatusReason';
 import { ReportFilters } from '../types';
 
 /**
@@ -20,10 +23,11 @@ import { ReportFilters } from '../types';
 export class ReportService {
   /**
    * Generate Shipment Activity Report
-   * Columns: Tracking #, Origin, Destination, Status, Cargo Type, Weight, Created, ETA
+   * Columns: Tracking #, Origin, Destination, Status, Cargo Type, Weight, Pieces, Volume,
+   *          Volumetric Weight, Chargeable Weight, Created, ETA
    */
   async generateShipmentActivityReport(
-    userId: string,
+    organizationId: string,
     filters: ReportFilters,
     format: 'csv' | 'json' | 'html' = 'csv'
   ): Promise<Report> {
@@ -31,7 +35,7 @@ export class ReportService {
     let query = supabaseAdmin
       .from('shipments')
       .select('*')
-      .eq('user_id', userId);
+      .eq('organization_id', organizationId);
 
     if (filters.dateFrom) {
       query = query.gte('created_at', filters.dateFrom);
@@ -65,6 +69,10 @@ export class ReportService {
       status: shipment.status,
       cargo_type: shipment.cargo_type || 'N/A',
       weight_kg: shipment.weight_kg || 0,
+      total_pieces: shipment.total_pieces || 0,
+      volume_m3: shipment.volume_m3 || 0,
+      volumetric_weight_kg: shipment.volumetric_weight_kg || 0,
+      chargeable_weight_kg: shipment.chargeable_weight_kg || 0,
       created_at: new Date(shipment.created_at).toLocaleString(),
       estimated_arrival: shipment.estimated_arrival 
         ? new Date(shipment.estimated_arrival).toLocaleString() 
@@ -84,10 +92,11 @@ export class ReportService {
 
   /**
    * Generate Weather Impact Report
-   * Columns: Tracking #, Location, Weather, Impact Level, Delay Risk, Temp, Wind, Recorded At
+   * Columns: Tracking #, Location, Impact, Weather, Impact Level, Delay Risk, Temp, Wind, Recorded At
+   * Temperature excursions of perishable shipments are listed with the weather impacts
    */
   async generateWeatherImpactReport(
-    userId: string,
+    organizationId: string,
     filters: ReportFilters,
     format: 'csv' | 'json' | 'html' = 'csv'
   ): Promise<Report> {
@@ -96,9 +105,9 @@ export class ReportService {
       .from('weather_impacts')
       .select(`
         *,
-        shipments!inner(tracking_number, user_id, origin, destination)
+        shipments!inner(tracking_number, organization_id, origin, destination)
       `)
-      .eq('shipments.user_id', userId);
+      .eq('shipments.organization_id', organizationId);
 
     if (filters.dateFrom) {
       query = query.gte('recorded_at', filters.dateFrom);
@@ -120,11 +129,16 @@ export class ReportService {
 
     // Transform data for report
     const reportData = (data || []).map(impact => {
-      // Determine location based on impact_type (origin_weather or destination_weather)
+      // Determine location based on impact_type (origin_weather or destination_weather);
+      // excursions name their location (format: "Temperature excursion at JFK: 12°C, ...")
+      const isExcursion = impact.impact_type === TEMPERATURE_EXCURSION_IMPACT;
       const isDestination = impact.impact_type === 'destination_weather';
-      const location = isDestination 
-        ? impact.shipments?.destination 
-        : impact.shipments?.origin;
+      const excursionMatch = isExcursion ? impact.description?.match(/^Temperature excursion at (.+?):/) : null;
+      const location = excursionMatch
+        ? excursionMatch[1]
+        : isDestination
+          ? impact.shipments?.destination
+          : impact.shipments?.origin;
       
       // Parse temperature from description (format: "..., 20°C, Wind: ...")
       const tempMatch = impact.description?.match(/(-?\d+(?:\.\d+)?)°C/);
@@ -141,6 +155,7 @@ export class ReportService {
       return {
         tracking_number: impact.shipments?.tracking_number || 'N/A',
         location: location || 'Unknown',
+        impact_type: isExcursion ? 'Temperature excursion' : 'Weather',
         weather_condition: impact.weather_condition || 'Unknown',
         impact_level: impact.severity || 'none',
         delay_risk: delayRisk,
@@ -162,10 +177,12 @@ export class ReportService {
 
   /**
    * Generate Route Performance Report
-   * Columns: Route, Total Shipments, On-Time %, Avg Delay, Weather Delays, Total Weight
+   * Columns: Route, Total Shipments, On-Time %, Avg Delay, Weather Delays, Delay Reasons, Avg Customs Dwell, Customs Holds, Total Weight
+   * Delay reasons count the reason codes recorded when shipments were delayed or cancelled
+   * Customs dwell runs from submitting the documents to release (or now while still in customs)
    */
   async generateRoutePerformanceReport(
-    userId: string,
+    organizationId: string,
     filters: ReportFilters,
     format: 'csv' | 'json' | 'html' = 'csv'
   ): Promise<Report> {
@@ -174,10 +191,11 @@ export class ReportService {
       .from('shipments')
       .select(`
         *,
-        tracking_events(status, timestamp),
-        weather_impacts(severity)
+        tracking_events(status, timestamp, reason_code),
+        weather_impacts(severity, impact_type),
+        customs_events(status, occurred_at)
       `)
-      .eq('user_id', userId);
+      .eq('organization_id', organizationId);
 
     if (filters.dateFrom) {
       query = query.gte('created_at', filters.dateFrom);
@@ -198,9 +216,13 @@ export class ReportService {
       onTime: number;
       delayed: number;
       weatherDelays: number;
+      reasonCodes: string[];
       totalWeight: number;
       totalDelayHours: number;
       delayedCount: number;
+      totalCustomsHours: number;
+      customsCount: number;
+      customsHolds: number;
     }>();
 
     (data || []).forEach(shipment => {
@@ -210,9 +232,13 @@ export class ReportService {
         onTime: 0, 
         delayed: 0, 
         weatherDelays: 0,
+        reasonCodes: [],
         totalWeight: 0,
         totalDelayHours: 0,
-        delayedCount: 0
+        delayedCount: 0,
+        totalCustomsHours: 0,
+        customsCount: 0,
+        customsHolds: 0,
       };
       
       current.total += 1;
@@ -258,12 +284,35 @@ export class ReportService {
       // Count weather-related delays (shipments with medium/high/critical weather impacts)
       const weatherImpacts = shipment.weather_impacts || [];
       const hasSignificantWeatherImpact = weatherImpacts.some(
-        (w: { severity: string }) => ['medium', 'high', 'critical'].includes(w.severity)
+        (w: { severity: string; impact_type: string }) =>
+          w.impact_type !== TEMPERATURE_EXCURSION_IMPACT && ['medium', 'high', 'critical'].includes(w.severity)
       );
       if (hasSignificantWeatherImpact && (shipment.status === 'delayed' || current.delayedCount > 0)) {
         current.weatherDelays += 1;
       }
 
+      // Reasons given for delays and cancellations
+      (shipment.tracking_events || []).forEach((e: { reason_code: string | null }) => {
+        if (e.reason_code) {
+          current.reasonCodes.push(e.reason_code);
+        }
+      });
+
+      // Customs dwell time and holds
+      const clearance = new CustomsClearance(
+        (shipment.customs_events || []).map((event: Pick<CustomsStepRecord, 'status' | 'occurred_at'>) => ({
+          ...event,
+          broker_reference: null,
+          notes: null,
+        }))
+      );
+      const dwellHours = clearance.getDwellHours();
+      if (dwellHours !== null) {
+        current.totalCustomsHours += dwellHours;
+        current.customsCount += 1;
+        current.customsHolds += clearance.getHoldCount();
+      }
+
       routeStats.set(route, current);
     });
 
@@ -286,6 +335,11 @@ export class ReportService {
         on_time_percentage: onTimePercentage,
         avg_delay_hours: avgDelayHours,
         weather_delays: stats.weatherDelays,
+        delay_reasons: StatusReason.summarize(stats.reasonCodes) || 'None',
+        avg_customs_dwell_hours: stats.customsCount > 0
+          ? Math.round((stats.totalCustomsHours / stats.customsCount) * 10) / 10
+          : 'N/A',
+        customs_holds: stats.customsHolds,
         total_weight_kg: Math.round(stats.totalWeight * 100) / 100,
         period_start: filters.dateFrom || 'All time',
         period_end: filters.dateTo || 'Present',
@@ -306,7 +360,7 @@ export class ReportService {
    * Generate a custom report with specified columns
    */
   async generateCustomReport(
-    userId: string,
+    organizationId: string,
     title: string,
     columns: Array<{ key: string; header: string }>,
     filters: ReportFilters,
@@ -315,7 +369,7 @@ export class ReportService {
     let query = supabaseAdmin
       .from('shipments')
       .select('*')
-      .eq('user_id', userId);
+      .eq('organization_id', organizationId);
 
     if (filters.dateFrom) query = query.gte('created_at', filters.dateFrom);
     if (filters.dateTo) query = query.lte('created_at', filters.dateTo);
@@ -0,0 +1,283 @@
+/**
+ * Scheduler Service
+ * Runs background jobs on cron schedules; a lease in scheduled_jobs makes sure
+ * only one server instance runs a job at a time, and every run is kept in job_runs
+ */
+
+import os from 'os';
+import cron, { ScheduledTask } from 'node-cron';
+import { supabaseAdmin } from '../config/supabase';
+import { ScheduledJob, ScheduledJobData, JobRun } from '../classes/ScheduledJob';
+import { JobRunRow, ScheduledJobRow } from '../types';
+
+/**
+ * Work done by a job
+ * @returns Number of items processed (flights, shipments, rows)
+ */
+export type JobHandler = () => Promise<number>;
+
+/**
+ * Scheduler Service - registers jobs, takes their leases and records their runs
+ */
+export class SchedulerService {
+  /** Identifies this server instance in leases and run history */
+  readonly instanceId = `${os.hostname()}:${process.pid}`;
+
+  private jobs = new Map<string, { job: ScheduledJob; handler: JobHandler }>();
+  private tasks: ScheduledTask[] = [];
+  private stored = false;
+
+  /**
+   * Register a job to run once the scheduler starts
+   * @throws Error when the definition is invalid or the name is taken
+   */
+  register(data: ScheduledJobData, handler: JobHandler): ScheduledJob {
+    const job = new ScheduledJob(data);
+    if (this.jobs.has(job.getName())) {
+      throw new Error(`Job '${job.getName()}' is already registered`);
+    }
+
+    this.jobs.set(job.getName(), { job, handler });
+    return job;
+  }
+
+  /**
+   * Whether a job of this name is registered
+   */
+  isRegistered(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  /**
+   * Store the registered jobs in scheduled_jobs, once per instance
+   * A run can only take its job's lease once the job is stored
+   */
+  async store(): Promise<void> {
+    if (this.stored || this.jobs.size === 0) return;
+
+    const { error } = await supabaseAdmin
+      .from('scheduled_jobs')
+      .upsert([...this.jobs.values()].map(({ job }) => ({
+        name: job.getName(),
+        schedule: job.getSchedule(),
+        description: job.getDescription(),
+        updated_at: new Date().toISOString(),
+      })), { onConflict: 'name' });
+
+    if (error) {
+      console.error('Register scheduled jobs error:', error);
+      throw new Error('Failed to register scheduled jobs');
+    }
+
+    this.stored = true;
+  }
+
+  /**
+   * Store the registered jobs and start their schedules
+   * Jobs disabled in scheduled_jobs stay registered but are skipped when due
+   */
+  async start(): Promise<void> {
+    if (this.tasks.length > 0 || this.jobs.size === 0) return;
+
+    await this.store();
+
+    for (const { job } of this.jobs.values()) {
+      this.tasks.push(cron.schedule(job.getSchedule(), () => {
+        this.run(job.getName()).catch(err => console.error(`Scheduled job '${job.getName()}' error:`, err));
+      }));
+    }
+  }
+
+  /**
+   * Stop all schedules; runs in progress finish
+   */
+  stop(): void {
+    this.tasks.forEach(task => task.stop());
+    this.tasks = [];
+  }
+
+  /**
+   * Run a job now if no other run holds it
+   * @returns The finished run, or null when the job is disabled or held by another run
+   * @throws Error when the job is not registered
+   */
+  async run(name: string): Promise<JobRun | null> {
+    const registered = this.jobs.get(name);
+    if (!registered) {
+      throw new Error(`Job '${name}' is not registered`);
+    }
+
+    const { job, handler } = registered;
+    if (!(await this.acquire(job))) {
+      return null;
+    }
+
+    const run = new JobRun(name, this.instanceId);
+    const runId = await this.insertRun(run);
+
+    try {
+      run.succeed(await handler());
+    } catch (err) {
+      console.error(`Job '${name}' failed:`, err);
+      run.fail(err);
+    }
+
+    await this.finishRun(runId, run);
+    return run;
+  }
+
+  /**
+   * Get all stored jobs with their lease and last run
+   */
+  async getJobs(): Promise<ScheduledJobRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('scheduled_jobs')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Fetch scheduled jobs error:', error);
+      throw new Error('Failed to fetch scheduled jobs');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the runs of a job, newest first
+   */
+  async getRuns(name: string, limit: number = 50): Promise<JobRunRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('job_runs')
+      .select('*')
+      .eq('job_name', name)
+      .order('started_at', { ascending: false })
+      .limit(Math.min(limit, 500));
+
+    if (error) {
+      console.error('Fetch job runs error:', error);
+      throw new Error('Failed to fetch job runs');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Delete runs started before the cutoff
+   * @returns Number of runs deleted
+   */
+  async deleteRunsBefore(before: Date): Promise<number> {
+    const { count, error } = await supabaseAdmin
+      .from('job_runs')
+      .delete({ count: 'exact' })
+      .lt('started_at', before.toISOString())
+      .neq('status', 'running');
+
+    if (error) {
+      console.error('Delete job runs error:', error);
+      throw new Error('Failed to delete job runs');
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Take the job's lease; the update only matches while the lease is free,
+   * so of two instances taking it at the same moment only one succeeds
+   */
+  private async acquire(job: ScheduledJob): Promise<boolean> {
+    const { data: stored, error } = await supabaseAdmin
+      .from('scheduled_jobs')
+      .select('enabled, locked_by, locked_until')
+      .eq('name', job.getName())
+      .maybeSingle();
+
+    if (error || !stored) {
+      console.error(`Fetch scheduled job '${job.getName()}' error:`, error);
+      return false;
+    }
+
+    const now = new Date();
+    if (!stored.enabled || !job.canAcquire(stored, now)) {
+      return false;
+    }
+
+    const { data: locked, error: lockError } = await supabaseAdmin
+      .from('scheduled_jobs')
+      .update({
+        locked_by: this.instanceId,
+        locked_until: job.leaseUntil(now).toISOString(),
+        last_run_at: now.toISOString(),
+        last_status: 'running',
+        updated_at: now.toISOString(),
+      })
+      .eq('name', job.getName())
+      .eq('enabled', true)
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .select('name');
+
+    if (lockError) {
+      console.error(`Lock scheduled job '${job.getName()}' error:`, lockError);
+      return false;
+    }
+
+    return (locked || []).length > 0;
+  }
+
+  /**
+   * Record a started run
+   * @returns Id of the job_runs row, or null when it could not be stored
+   */
+  private async insertRun(run: JobRun): Promise<number | null> {
+    const { data, error } = await supabaseAdmin
+      .from('job_runs')
+      .insert(run.toJSON())
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Record job run error:', error);
+      return null;
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Record the outcome of a run and release the job's lease
+   */
+  private async finishRun(runId: number | null, run: JobRun): Promise<void> {
+    const { job_name, status, finished_at, items_processed, error: runError } = run.toJSON();
+
+    if (runId !== null) {
+      const { error } = await supabaseAdmin
+        .from('job_runs')
+        .update({ status, finished_at, items_processed, error: runError })
+        .eq('id', runId);
+
+      if (error) {
+        console.error('Update job run error:', error);
+      }
+    }
+
+    // Only release the lease this instance holds; it may have expired and been taken over
+    const { error } = await supabaseAdmin
+      .from('scheduled_jobs')
+      .update({
+        locked_by: null,
+        locked_until: null,
+        last_status: status,
+        last_error: runError,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('name', job_name)
+      .eq('locked_by', this.instanceId);
+
+    if (error) {
+      console.error(`Release scheduled job '${job_name}' error:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const schedulerService = new SchedulerService();
@@ -7,6 +7,7 @@
 
 import { supabaseAdmin } from '../config/supabase';
 import { SearchCriteria, Shipment } from '../types';
+import { AirWaybill } from '../classes/AirWaybill';
 
 /**
  * Search Service - handles multi-criteria shipment searches
@@ -17,14 +18,14 @@ export class SearchService {
    * Returns multiple rows matching the filters
    */
   async searchShipments(
-    userId: string,
+    organizationId: string,
     criteria: SearchCriteria
   ): Promise<{ data: Shipment[]; total: number }> {
     // Start building query
     let query = supabaseAdmin
       .from('shipments')
       .select('*', { count: 'exact' })
-      .eq('user_id', userId);
+      .eq('organization_id', organizationId);
 
     // Apply filters based on criteria
 
@@ -33,6 +34,11 @@ export class SearchService {
       query = query.ilike('tracking_number', `%${criteria.trackingNumber}%`);
     }
 
+    // AWB number - partial match, separators ignored
+    if (criteria.awbNumber) {
+      query = query.ilike('awb_number', `%${AirWaybill.normalize(criteria.awbNumber)}%`);
+    }
+
     // Status - exact match
     if (criteria.status) {
       query = query.eq('status', criteria.status.toLowerCase());
@@ -63,6 +69,14 @@ export class SearchService {
       query = query.eq('cargo_type', criteria.cargoType.toLowerCase());
     }
 
+    // Chargeable weight range
+    if (criteria.minChargeableWeight !== undefined) {
+      query = query.gte('chargeable_weight_kg', criteria.minChargeableWeight);
+    }
+    if (criteria.maxChargeableWeight !== undefined) {
+      query = query.lte('chargeable_weight_kg', criteria.maxChargeableWeight);
+    }
+
     // Order by created_at descending
     query = query.order('created_at', { ascending: false });
 
@@ -83,7 +97,7 @@ export class SearchService {
    * Search with pagination
    */
   async searchShipmentsPaginated(
-    userId: string,
+    organizationId: string,
     criteria: SearchCriteria,
     page: number = 1,
     pageSize: number = 10
@@ -93,12 +107,15 @@ export class SearchService {
     let query = supabaseAdmin
       .from('shipments')
       .select('*', { count: 'exact' })
-      .eq('user_id', userId);
+      .eq('organization_id', organizationId);
 
     // Apply same filters as above
     if (criteria.trackingNumber) {
       query = query.ilike('tracking_number', `%${criteria.trackingNumber}%`);
     }
+    if (criteria.awbNumber) {
+      query = query.ilike('awb_number', `%${AirWaybill.normalize(criteria.awbNumber)}%`);
+    }
     if (criteria.status) {
       query = query.eq('status', criteria.status.toLowerCase());
     }
@@ -117,6 +134,12 @@ export class SearchService {
     if (criteria.cargoType) {
       query = query.eq('cargo_type', criteria.cargoType.toLowerCase());
     }
+    if (criteria.minChargeableWeight !== undefined) {
+      query = query.gte('chargeable_weight_kg', criteria.minChargeableWeight);
+    }
+    if (criteria.maxChargeableWeight !== undefined) {
+      query = query.lte('chargeable_weight_kg', criteria.maxChargeableWeight);
+    }
 
     // Add pagination
     query = query
@@ -145,12 +168,24 @@ export class SearchService {
   /**
    * Quick search - searches across multiple fields
    */
-  async quickSearch(userId: string, searchTerm: string): Promise<Shipment[]> {
+  async quickSearch(organizationId: string, searchTerm: string): Promise<Shipment[]> {
+    const filters = [
+      `tracking_number.ilike.%${searchTerm}%`,
+      `origin.ilike.%${searchTerm}%`,
+      `destination.ilike.%${searchTerm}%`,
+    ];
+
+    // AWB numbers are often typed with a hyphen ("176-12345675")
+    const awbTerm = AirWaybill.normalize(searchTerm);
+    if (/^\d{3,}$/.test(awbTerm)) {
+      filters.push(`awb_number.ilike.%${awbTerm}%`);
+    }
+
     const { data, error } = await supabaseAdmin
       .from('shipments')
       .select('*')
-      .eq('user_id', userId)
-      .or(`tracking_number.ilike.%${searchTerm}%,origin.ilike.%${searchTerm}%,destination.ilike.%${searchTerm}%`)
+      .eq('organization_id', organizationId)
+      .or(filters.join(','))
       .order('created_at', { ascending: false })
       .limit(20);
 
@@ -166,14 +201,14 @@ export class SearchService {
    * Get search suggestions based on partial input
    */
   async getSearchSuggestions(
-    userId: string,
+    organizationId: string,
     field: 'origin' | 'destination' | 'cargo_type',
     partial: string
   ): Promise<string[]> {
     const { data, error } = await supabaseAdmin
       .from('shipments')
       .select(field)
-      .eq('user_id', userId)
+      .eq('organization_id', organizationId)
       .ilike(field, `%${partial}%`)
       .limit(10);
 
@@ -0,0 +1,219 @@
+/**
+ * Shipment Service
+ * Creation of single shipments with their tracking event, pieces, dangerous goods and legs
+ */
+
+import { randomInt } from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { CargoPiece } from '../classes/CargoPiece';
+import { DangerousGoodsItem } from '../classes/DangerousGoods';
+import { AirWaybill } from '../classes/AirWaybill';
+import {
+  CreateShipmentRequest,
+  Shipment,
+  ShipmentLeg,
+  ShipmentPiece,
+  ShipmentDangerousGood,
+} from '../types';
+import { awbService } from './awbService';
+import { auditService, AuditActor } from './auditService';
+import { legService } from './legService';
+import { pieceService } from './pieceService';
+import { dangerousGoodsService } from './dangerousGoodsService';
+import { workflowService } from './workflowService';
+import { slaService } from './slaService';
+import { DEFAULT_SERVICE_LEVEL } from '../classes/ServiceLevel';
+import { Airport } from '../classes/Airport';
+
+const TRACKING_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+// Random characters of a tracking number (36^8 values), enough for batches generated in the same millisecond
+const TRACKING_RANDOM_LENGTH = 8;
+
+/**
+ * A newly created shipment with its child rows
+ */
+export interface CreatedShipment {
+  shipment: Shipment;
+  legs?: ShipmentLeg[];
+  pieces: ShipmentPiece[];
+  dangerousGoods: ShipmentDangerousGood[];
+}
+
+/**
+ * Shipment Service - creates shipments for the API and for converted quotes
+ */
+export class ShipmentService {
+  /**
+   * Generate a tracking number: AF, the time and 8 random letters or digits
+   * @param taken - Numbers already generated for the same batch; the new number is added to it
+   */
+  generateTrackingNumber(taken?: Set<string>): string {
+    const prefix = 'AF';
+    let trackingNumber: string;
+
+    do {
+      const timestamp = Date.now().toString(36).toUpperCase();
+      const random = Array.from(
+        { length: TRACKING_RANDOM_LENGTH },
+        () => TRACKING_ALPHABET[randomInt(TRACKING_ALPHABET.length)]
+      ).join('');
+      trackingNumber = `${prefix}${timestamp}${random}`;
+    } while (taken?.has(trackingNumber));
+
+    taken?.add(trackingNumber);
+    return trackingNumber;
+  }
+
+  /**
+   * Create a shipment from validated request data
+   * Hazardous cargo must come with a declaration, and perishable cargo with a temperature range,
+ * that passed ShipmentValidator.validateCreate
+   * @returns Error message when the AWB number cannot be used or allocated
+   */
+  async create(
+    actor: AuditActor,
+    request: CreateShipmentRequest,
+    notes: string = 'Shipment created'
+  ): Promise<{ created?: CreatedShipment; error?: string }> {
+    const {
+      origin,
+      origin_lat,
+      origin_lon,
+      origin_iata,
+      destination,
+      dest_lat,
+      dest_lon,
+      dest_iata,
+      cargo_type,
+      weight_kg,
+      estimated_arrival,
+      awb_number,
+      awb_prefix,
+      tracking_pin,
+      legs,
+      pieces,
+      dangerous_goods,
+      temp_min_c,
+      temp_max_c,
+      service_level,
+    } = request;
+
+    // Use the given AWB number, or allocate one from the airline's stock
+    let awbNumber: string | null = awb_number || null;
+    let allocatedAwb: AirWaybill | null = null;
+    if (awbNumber && await awbService.isInUse(actor.organizationId, awbNumber)) {
+      return { error: 'AWB number is already assigned to another shipment' };
+    }
+    if (awb_prefix) {
+      allocatedAwb = await awbService.allocate(actor.organizationId, awb_prefix);
+      if (!allocatedAwb) {
+        return { error: `No AWB stock left for airline prefix ${awb_prefix}` };
+      }
+      awbNumber = allocatedAwb.toString();
+    }
+
+    // Weight totals; with pieces the actual weight is the sum of the piece weights
+    const cargoPieces = (pieces || []).map(piece => new CargoPiece(piece));
+    const weights = CargoPiece.summarize(cargoPieces, weight_kg || null);
+
+    // Airports by the given code, or resolved from the origin and destination text;
+    // coordinates given with the request take precedence over the airport's
+    const originAirport = Airport.findByCode(origin_iata) ?? Airport.resolve(origin);
+    const destAirport = Airport.findByCode(dest_iata) ?? Airport.resolve(destination);
+    const originLat = origin_lat || originAirport?.getPosition().lat || null;
+    const originLon = origin_lon || originAirport?.getPosition().lon || null;
+
+    const workflow = await workflowService.getWorkflowForOrganization(actor.organizationId);
+    const initialStatus = workflow.getInitialStatus();
+
+    const { data: shipment, error } = await supabaseAdmin
+      .from('shipments')
+      .insert({
+        user_id: actor.id,
+        organization_id: actor.organizationId,
+        tracking_number: this.generateTrackingNumber(),
+        origin,
+        origin_lat: originLat,
+        origin_lon: originLon,
+        origin_iata: originAirport?.getIata() ?? null,
+        destination,
+        dest_lat: dest_lat || destAirport?.getPosition().lat || null,
+        dest_lon: dest_lon || destAirport?.getPosition().lon || null,
+        dest_iata: destAirport?.getIata() ?? null,
+        status: initialStatus,
+        cargo_type: cargo_type || null,
+        ...weights,
+        estimated_arrival: estimated_arrival || null,
+        awb_number: awbNumber,
+        tracking_pin: tracking_pin || null,
+        temp_min_c: temp_min_c ?? null,
+        temp_max_c: temp_max_c ?? null,
+        service_level: service_level?.toLowerCase() || DEFAULT_SERVICE_LEVEL,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Create shipment error:', error);
+      if (allocatedAwb) {
+        await awbService.release(actor.organizationId, allocatedAwb);
+      }
+      throw new Error('Failed to create shipment');
+    }
+
+    // Create initial tracking event
+    await supabaseAdmin
+      .from('tracking_events')
+      .insert({
+        shipment_id: shipment.id,
+        status: initialStatus,
+        location: origin,
+        latitude: originLat,
+        longitude: originLon,
+        notes,
+      });
+
+    const createdPieces = cargoPieces.length > 0
+      ? (await pieceService.replacePieces(shipment.id, cargoPieces, null)).pieces
+      : [];
+
+    const dangerousGoods = dangerous_goods && dangerous_goods.length > 0
+      ? (await dangerousGoodsService.replaceItems(
+        shipment.id,
+        dangerous_goods.map(item => new DangerousGoodsItem(item))
+      )).items
+      : [];
+
+    // Create legs for multi-leg shipments; the ETA is taken from the final leg
+    if (Array.isArray(legs) && legs.length > 0) {
+      const createdLegs = await legService.replaceLegs(shipment.id, legs);
+      await legService.syncShipmentFromLegs(shipment.id, workflow);
+      await slaService.refreshShipment(actor.organizationId, shipment.id);
+
+      const { data: syncedShipment } = await supabaseAdmin
+        .from('shipments')
+        .select('*')
+        .eq('id', shipment.id)
+        .single();
+
+      await auditService.logCreate(actor, [syncedShipment || shipment]);
+      return {
+        created: {
+          shipment: syncedShipment || shipment,
+          legs: createdLegs,
+          pieces: createdPieces,
+          dangerousGoods,
+        },
+      };
+    }
+
+    // Promised delivery from the SLA target of the lane and service level
+    const sla = await slaService.refreshShipment(actor.organizationId, shipment.id);
+
+    await auditService.logCreate(actor, [shipment]);
+    return { created: { shipment: { ...shipment, ...sla }, pieces: createdPieces, dangerousGoods } };
+  }
+}
+
+// Export singleton instance
+export const shipmentService = new ShipmentService();
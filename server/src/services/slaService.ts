@@ -0,0 +1,432 @@
+/**
+ * SLA Service
+ * Service level targets, evaluation of shipments against them and escalation of predicted breaches
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import {
+  SlaTarget,
+  SlaTargetData,
+  SlaEvaluation,
+  SlaStatus,
+  SLA_STATUSES,
+  DEFAULT_SERVICE_LEVEL,
+} from '../classes/ServiceLevel';
+import { StatusWorkflow } from '../classes/StatusWorkflow';
+import { Shipment, SlaEscalationRow, SlaTargetRow } from '../types';
+import { AuditActor } from './auditService';
+import { DELIVERED_STATUS } from './deliveryService';
+import { workflowService } from './workflowService';
+
+// Open shipments evaluated more recently than this are not evaluated again by the summary
+const SUMMARY_STALE_MINUTES = 15;
+
+// Delivered shipments counted in the compliance figure
+const COMPLIANCE_DAYS = 30;
+
+/**
+ * SLA columns stored on a shipment by an evaluation
+ */
+export type SlaColumns = Pick<Shipment, 'sla_due_at' | 'sla_status' | 'sla_slack_hours' | 'sla_evaluated_at'>;
+
+/**
+ * SLA position of the organization for the dashboard
+ */
+export interface SlaSummary {
+  /** Open shipments by SLA status */
+  counts: Record<SlaStatus, number>;
+  /** Delivered shipments of the last 30 days that met or breached their SLA */
+  compliance: { met: number; breached: number; percentage: number | null };
+  /** Open shipments that are at risk, predicted to breach or breached, least slack first */
+  atRisk: Pick<Shipment,
+    'id' | 'tracking_number' | 'origin' | 'destination' | 'status' | 'service_level' |
+    'estimated_arrival' | 'sla_due_at' | 'sla_status' | 'sla_slack_hours'>[];
+  /** Escalations nobody has acknowledged yet */
+  escalations: (SlaEscalationRow & { tracking_number: string })[];
+}
+
+/**
+ * SLA Service - targets in sla_targets, evaluation on the shipment, escalations in sla_escalations
+ */
+export class SlaService {
+  /**
+   * Get all SLA targets of an organization
+   */
+  async getTargets(organizationId: string): Promise<SlaTargetRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('sla_targets')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('origin', { ascending: true })
+      .order('destination', { ascending: true })
+      .order('service_level', { ascending: true });
+
+    if (error) {
+      console.error('Fetch SLA targets error:', error);
+      throw new Error('Failed to fetch SLA targets');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create an SLA target
+   * @returns Error message when a target for the same lane and service level already exists
+   */
+  async createTarget(actor: AuditActor, data: SlaTargetData): Promise<{ target?: SlaTargetRow; error?: string }> {
+    const target = new SlaTarget(data).toJSON();
+
+    const existing = await this.getTargets(actor.organizationId);
+    if (existing.some(row =>
+      row.origin === target.origin &&
+      row.destination === target.destination &&
+      row.service_level === target.service_level
+    )) {
+      return {
+        error: `An SLA target for ${target.origin} → ${target.destination} (${target.service_level}) already exists`,
+      };
+    }
+
+    const { data: created, error } = await supabaseAdmin
+      .from('sla_targets')
+      .insert({ user_id: actor.id, organization_id: actor.organizationId, ...this.toRow(target) })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Insert SLA target error:', error);
+      throw new Error('Failed to save SLA target');
+    }
+
+    return { target: created };
+  }
+
+  /**
+   * Update the transit time and at-risk threshold of an SLA target
+   */
+  async updateTarget(organizationId: string, id: number, data: SlaTargetData): Promise<SlaTargetRow | null> {
+    const target = new SlaTarget(data).toJSON();
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('sla_targets')
+      .update({ ...this.toRow(target), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Update SLA target error:', error);
+      throw new Error('Failed to update SLA target');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Delete an SLA target (shipments keep their promised delivery until re-evaluated)
+   */
+  async deleteTarget(organizationId: string, id: number): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('sla_targets')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select();
+
+    if (error) {
+      throw new Error('Failed to delete SLA target');
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Evaluate one shipment after it changed
+   * @returns The stored SLA columns, or null when the shipment does not exist
+   */
+  async refreshShipment(organizationId: string, shipmentId: string): Promise<SlaColumns | null> {
+    const { data: shipment } = await supabaseAdmin
+      .from('shipments')
+      .select('*')
+      .eq('id', shipmentId)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (!shipment) {
+      return null;
+    }
+
+    const [targets, workflow] = await Promise.all([
+      this.getTargets(organizationId),
+      workflowService.getWorkflowForOrganization(organizationId),
+    ]);
+
+    return this.evaluateShipment(shipment, targets.map(row => new SlaTarget(row)), workflow);
+  }
+
+  /**
+   * Evaluate the open shipments of an organization
+   * @param staleMinutes - Skip shipments evaluated less than this many minutes ago
+   * @returns Number of shipments evaluated
+   */
+  async evaluateOpen(organizationId: string, staleMinutes: number = 0): Promise<number> {
+    const [targets, workflow] = await Promise.all([
+      this.getTargets(organizationId),
+      workflowService.getWorkflowForOrganization(organizationId),
+    ]);
+    const openStatuses = workflow.getStatusNames().filter(status => !workflow.isTerminal(status));
+
+    let query = supabaseAdmin
+      .from('shipments')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .in('status', openStatuses);
+
+    if (staleMinutes > 0) {
+      const cutoff = new Date(Date.now() - staleMinutes * 60 * 1000).toISOString();
+      query = query.or(`sla_evaluated_at.is.null,sla_evaluated_at.lt.${cutoff}`);
+    }
+
+    const { data: shipments, error } = await query;
+
+    if (error) {
+      console.error('Fetch shipments for SLA evaluation error:', error);
+      throw new Error('Failed to evaluate SLAs');
+    }
+
+    const slaTargets = targets.map(row => new SlaTarget(row));
+    for (const shipment of shipments || []) {
+      await this.evaluateShipment(shipment, slaTargets, workflow);
+    }
+
+    return (shipments || []).length;
+  }
+
+  /**
+   * Counts, compliance, at-risk shipments and open escalations; stale evaluations are refreshed first
+   */
+  async getSummary(organizationId: string): Promise<SlaSummary> {
+    await this.evaluateOpen(organizationId, SUMMARY_STALE_MINUTES);
+
+    const workflow = await workflowService.getWorkflowForOrganization(organizationId);
+    const since = new Date();
+    since.setDate(since.getDate() - COMPLIANCE_DAYS);
+
+    const { data: shipments, error } = await supabaseAdmin
+      .from('shipments')
+      .select('id, tracking_number, origin, destination, status, service_level, estimated_arrival, sla_due_at, sla_status, sla_slack_hours, updated_at')
+      .eq('organization_id', organizationId)
+      .not('sla_status', 'is', null);
+
+    if (error) {
+      console.error('Fetch SLA summary error:', error);
+      throw new Error('Failed to fetch SLA summary');
+    }
+
+    const counts = Object.fromEntries(SLA_STATUSES.map(status => [status, 0])) as Record<SlaStatus, number>;
+    const compliance = { met: 0, breached: 0, percentage: null as number | null };
+    const atRisk: SlaSummary['atRisk'] = [];
+
+    for (const { updated_at, ...shipment } of shipments || []) {
+      const status = shipment.sla_status as SlaStatus;
+
+      if (shipment.status === DELIVERED_STATUS) {
+        if (new Date(updated_at) >= since) {
+          compliance[status === 'met' ? 'met' : 'breached'] += 1;
+        }
+      } else if (!workflow.isTerminal(shipment.status)) {
+        counts[status] += 1;
+        if (['at_risk', 'breach_predicted', 'breached'].includes(status)) {
+          atRisk.push(shipment);
+        }
+      }
+    }
+
+    const delivered = compliance.met + compliance.breached;
+    compliance.percentage = delivered > 0 ? Math.round((compliance.met / delivered) * 100) : null;
+    atRisk.sort((a, b) => Number(a.sla_slack_hours) - Number(b.sla_slack_hours));
+
+    const { data: escalations, error: escalationError } = await supabaseAdmin
+      .from('sla_escalations')
+      .select('*, shipments(tracking_number)')
+      .eq('organization_id', organizationId)
+      .is('acknowledged_at', null)
+      .order('level', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (escalationError) {
+      console.error('Fetch SLA escalations error:', escalationError);
+      throw new Error('Failed to fetch SLA summary');
+    }
+
+    return {
+      counts,
+      compliance,
+      atRisk: atRisk.slice(0, 10),
+      escalations: (escalations || []).map(({ shipments: shipment, ...row }) => ({
+        ...row,
+        tracking_number: shipment?.tracking_number || '',
+      })),
+    };
+  }
+
+  /**
+   * Get the escalations raised for a shipment, lowest level first
+   */
+  async getEscalations(shipmentId: string): Promise<SlaEscalationRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('sla_escalations')
+      .select('*')
+      .eq('shipment_id', shipmentId)
+      .order('level', { ascending: true });
+
+    if (error) {
+      console.error('Fetch SLA escalations error:', error);
+      throw new Error('Failed to fetch SLA escalations');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Acknowledge an escalation on behalf of the notified role
+   * @returns The escalation, or null when it does not exist or was already acknowledged
+   */
+  async acknowledgeEscalation(actor: AuditActor, id: number): Promise<SlaEscalationRow | null> {
+    const { data, error } = await supabaseAdmin
+      .from('sla_escalations')
+      .update({ acknowledged_by: actor.id, acknowledged_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', actor.organizationId)
+      .is('acknowledged_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Acknowledge SLA escalation error:', error);
+      throw new Error('Failed to acknowledge escalation');
+    }
+
+    return data;
+  }
+
+  /**
+   * Evaluate a shipment against the best matching target, store the result and escalate
+   * Shipments without a target, and shipments that finished without being delivered, get no SLA status
+   */
+  private async evaluateShipment(
+    shipment: Shipment,
+    targets: SlaTarget[],
+    workflow: StatusWorkflow
+  ): Promise<SlaColumns> {
+    const target = SlaTarget.findBestMatch(
+      targets,
+      shipment.origin,
+      shipment.destination,
+      shipment.service_level || DEFAULT_SERVICE_LEVEL
+    );
+    const delivered = shipment.status === DELIVERED_STATUS;
+    const evaluatedAt = new Date().toISOString();
+
+    if (!target || (workflow.isTerminal(shipment.status) && !delivered)) {
+      return this.saveEvaluation(shipment.id, {
+        sla_due_at: target ? target.dueFrom(shipment.created_at).toISOString() : null,
+        sla_status: null,
+        sla_slack_hours: null,
+        sla_evaluated_at: evaluatedAt,
+      });
+    }
+
+    const evaluation = new SlaEvaluation({
+      due_at: target.dueFrom(shipment.created_at),
+      estimated_arrival: shipment.estimated_arrival,
+      arrived_at: delivered ? await this.getArrivedAt(shipment) : null,
+      at_risk_hours: target.getAtRiskHours(),
+    });
+
+    const columns = await this.saveEvaluation(shipment.id, { ...evaluation.toJSON(), sla_evaluated_at: evaluatedAt });
+    await this.escalate(shipment, evaluation);
+
+    return columns;
+  }
+
+  /**
+   * Time of the latest arrival tracking event (the last update when there is none)
+   */
+  private async getArrivedAt(shipment: Shipment): Promise<string> {
+    const { data } = await supabaseAdmin
+      .from('tracking_events')
+      .select('timestamp')
+      .eq('shipment_id', shipment.id)
+      .eq('status', DELIVERED_STATUS)
+      .order('timestamp', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    return data?.timestamp || shipment.updated_at;
+  }
+
+  private async saveEvaluation(shipmentId: string, columns: SlaColumns): Promise<SlaColumns> {
+    const { error } = await supabaseAdmin
+      .from('shipments')
+      .update(columns)
+      .eq('id', shipmentId);
+
+    if (error) {
+      console.error('Save SLA evaluation error:', error);
+      throw new Error('Failed to save SLA evaluation');
+    }
+
+    return columns;
+  }
+
+  /**
+   * Raise the escalation step of the evaluation unless the shipment already reached that level
+   */
+  private async escalate(shipment: Shipment, evaluation: SlaEvaluation): Promise<void> {
+    const step = evaluation.getEscalationStep();
+    if (!step) {
+      return;
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('sla_escalations')
+      .select('level')
+      .eq('shipment_id', shipment.id)
+      .gte('level', step.level)
+      .limit(1);
+
+    if ((existing || []).length > 0) {
+      return;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('sla_escalations')
+      .insert({
+        shipment_id: shipment.id,
+        organization_id: shipment.organization_id,
+        ...step,
+        slack_hours: evaluation.getSlackHours(),
+        due_at: evaluation.getDueAt().toISOString(),
+      });
+
+    if (error) {
+      console.error('Insert SLA escalation error:', error);
+      throw new Error('Failed to record SLA escalation');
+    }
+  }
+
+  private toRow(target: SlaTargetData) {
+    return {
+      origin: target.origin,
+      destination: target.destination,
+      service_level: target.service_level,
+      transit_hours: target.transit_hours,
+      at_risk_hours: target.at_risk_hours,
+    };
+  }
+}
+
+// Export singleton instance
+export const slaService = new SlaService();
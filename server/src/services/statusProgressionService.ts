@@ -0,0 +1,262 @@
+/**
+ * Status Progression Service
+ * Moves shipments through their statuses from the data of their assigned flight,
+ * or proposes the change for a user to apply, depending on the organization's setting
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { Flight } from '../classes/Flight';
+import {
+  FlightProgress,
+  ProgressionStep,
+  AutoStatusMode,
+  DEFAULT_AUTO_STATUS_MODE,
+  PROGRESSION_STEPS,
+} from '../classes/FlightProgress';
+import { StatusFactory } from '../classes/ShipmentStatus';
+import { StatusWorkflow } from '../classes/StatusWorkflow';
+import { Shipment, ShipmentAssignment, TrackedFlight } from '../types';
+import { AuditActor, auditService, systemActor } from './auditService';
+import { slaService } from './slaService';
+import { workflowService } from './workflowService';
+
+/** Cached flight positions older than this are not used */
+const FLIGHT_DATA_MAX_AGE_MINUTES = 30;
+
+/**
+ * Shipment columns that clear a proposal; any status change makes a proposal outdated
+ */
+export const CLEARED_PROPOSAL = { proposed_status: null, proposed_status_notes: null, proposed_at: null };
+
+type AssignedShipment = Shipment & {
+  shipment_assignments?: (Pick<ShipmentAssignment, 'leg_id' | 'assigned_at'> & { tracked_flights: TrackedFlight | null })[];
+  shipment_legs?: { id: number }[];
+};
+
+/**
+ * Build a Flight from its cached row
+ */
+function toFlight(row: TrackedFlight): Flight {
+  return new Flight(
+    row.icao24,
+    row.callsign || '',
+    Number(row.latitude) || 0,
+    Number(row.longitude) || 0,
+    Number(row.altitude) || 0,
+    Number(row.velocity) || 0,
+    Number(row.heading) || 0,
+    row.origin_country || '',
+    Number(row.vertical_rate) || 0,
+    row.on_ground
+  );
+}
+
+/**
+ * Status Progression Service - automatic tracking events from flight phases
+ */
+export class StatusProgressionService {
+  /**
+   * Get how an organization uses flight data for status changes
+   */
+  async getMode(organizationId: string): Promise<AutoStatusMode> {
+    const { data } = await supabaseAdmin
+      .from('organizations')
+      .select('auto_status')
+      .eq('id', organizationId)
+      .maybeSingle();
+
+    return FlightProgress.isMode(data?.auto_status) ? data!.auto_status : DEFAULT_AUTO_STATUS_MODE;
+  }
+
+  /**
+   * Apply or propose the status changes that the cached flight data calls for
+   * Multi-leg shipments are skipped; their status follows their legs
+   * @returns Number of shipments changed or given a new proposal
+   */
+  async progressOrganization(organizationId: string): Promise<number> {
+    const mode = await this.getMode(organizationId);
+    if (mode === 'off') return 0;
+
+    const workflow = await workflowService.getWorkflowForOrganization(organizationId);
+    const statuses = PROGRESSION_STEPS.map(step => step.from).filter(status => workflow.hasStatus(status));
+
+    const { data: shipments, error } = await supabaseAdmin
+      .from('shipments')
+      .select('*, shipment_assignments(leg_id, assigned_at, tracked_flights(*)), shipment_legs(id)')
+      .eq('organization_id', organizationId)
+      .in('status', statuses);
+
+    if (error) {
+      console.error('Fetch shipments for status progression error:', error);
+      throw new Error('Failed to fetch shipments for status progression');
+    }
+
+    const freshSince = Date.now() - FLIGHT_DATA_MAX_AGE_MINUTES * 60 * 1000;
+    let changed = 0;
+
+    for (const shipment of (shipments || []) as AssignedShipment[]) {
+      if ((shipment.shipment_legs || []).length > 0) continue;
+
+      const flightRow = (shipment.shipment_assignments || [])
+        .filter(assignment => assignment.leg_id === null && assignment.tracked_flights)
+        .sort((a, b) => b.assigned_at.localeCompare(a.assigned_at))[0]?.tracked_flights;
+      if (!flightRow || new Date(flightRow.last_updated).getTime() < freshSince) continue;
+
+      const flight = toFlight(flightRow);
+      const progress = new FlightProgress(
+        flight,
+        shipment.dest_lat != null && shipment.dest_lon != null
+          ? { lat: Number(shipment.dest_lat), lon: Number(shipment.dest_lon) }
+          : null
+      );
+      const steps = progress.planTransitions(shipment.status, workflow);
+
+      if (mode === 'apply') {
+        if (steps.length === 0) continue;
+        await this.applySteps(systemActor(organizationId), shipment, steps, workflow, step => progress.describe(step), flight.getPosition());
+        changed++;
+      } else if (await this.saveProposal(shipment, steps, progress)) {
+        changed++;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Apply a shipment's proposed status, one step at a time
+   * @returns The updated shipment, or an error when there is no proposal or it no longer applies
+   */
+  async applyProposal(actor: AuditActor, shipment: Shipment): Promise<{ shipment?: Shipment; error?: string }> {
+    if (!shipment.proposed_status) {
+      return { error: 'The shipment has no proposed status' };
+    }
+
+    const workflow = await workflowService.getWorkflowForOrganization(actor.organizationId);
+    const steps = FlightProgress.pathTo(shipment.status, shipment.proposed_status, workflow);
+    if (!steps) {
+      await this.dismissProposal(actor.organizationId, shipment.id);
+      return { error: `The proposed status '${shipment.proposed_status}' no longer follows '${shipment.status}'` };
+    }
+
+    const notes = shipment.proposed_status_notes || null;
+    await this.applySteps(actor, shipment, steps, workflow, () => notes);
+
+    const { data } = await supabaseAdmin
+      .from('shipments')
+      .select('*')
+      .eq('id', shipment.id)
+      .single();
+
+    return { shipment: data };
+  }
+
+  /**
+   * Remove a shipment's proposed status
+   * @returns false when the shipment does not exist in the organization
+   */
+  async dismissProposal(organizationId: string, shipmentId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('shipments')
+      .update(CLEARED_PROPOSAL)
+      .eq('id', shipmentId)
+      .eq('organization_id', organizationId)
+      .select('id');
+
+    if (error) {
+      console.error('Dismiss status proposal error:', error);
+      throw new Error('Failed to dismiss status proposal');
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Store the last status of the planned steps as the shipment's proposal
+   * @returns true when a new proposal was stored
+   */
+  private async saveProposal(shipment: Shipment, steps: ProgressionStep[], progress: FlightProgress): Promise<boolean> {
+    const proposed = steps.length > 0 ? steps[steps.length - 1].to : null;
+    if (proposed === (shipment.proposed_status ?? null)) return false;
+
+    const { error } = await supabaseAdmin
+      .from('shipments')
+      .update({
+        proposed_status: proposed,
+        proposed_status_notes: proposed ? steps.map(step => progress.describe(step)).join('; ') : null,
+        proposed_at: proposed ? new Date().toISOString() : null,
+      })
+      .eq('id', shipment.id);
+
+    if (error) {
+      console.error('Save status proposal error:', error);
+      throw new Error('Failed to save status proposal');
+    }
+
+    return proposed !== null;
+  }
+
+  /**
+   * Move a shipment through the steps, recording an automatic tracking event for each
+   * Stops when the status was changed by someone else in the meantime
+   * @param describe - Notes of the tracking event of a step (the status description when empty)
+   * @param position - Aircraft position recorded on the tracking events
+   */
+  private async applySteps(
+    actor: AuditActor,
+    shipment: Shipment,
+    steps: ProgressionStep[],
+    workflow: StatusWorkflow,
+    describe: (step: ProgressionStep) => string | null,
+    position?: { lat: number; lon: number }
+  ): Promise<void> {
+    let current = shipment.status;
+
+    for (const step of steps) {
+      if (step.from !== current || !StatusFactory.isValidTransition(current, step.to, workflow)) break;
+      const status = StatusFactory.createStatus(step.to, undefined, workflow);
+
+      const { data: updated, error } = await supabaseAdmin
+        .from('shipments')
+        .update({
+          status: step.to,
+          ...CLEARED_PROPOSAL,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', shipment.id)
+        .eq('organization_id', actor.organizationId)
+        .eq('status', current)
+        .select('id');
+
+      if (error) {
+        console.error('Automatic status change error:', error);
+        throw new Error('Failed to update shipment');
+      }
+      if (!updated || updated.length === 0) break;
+
+      await auditService.logUpdate(actor, shipment.id, { status: current }, { status: step.to });
+
+      const atDestination = step.to === 'arrived';
+      await supabaseAdmin
+        .from('tracking_events')
+        .insert({
+          shipment_id: shipment.id,
+          status: step.to,
+          location: atDestination ? shipment.destination : step.from === 'pending' ? shipment.origin : null,
+          latitude: position?.lat ?? (atDestination ? shipment.dest_lat : null),
+          longitude: position?.lon ?? (atDestination ? shipment.dest_lon : null),
+          notes: describe(step) || status.getDescription(),
+          automatic: true,
+        });
+
+      current = step.to;
+    }
+
+    if (current !== shipment.status) {
+      await slaService.refreshShipment(actor.organizationId, shipment.id);
+    }
+  }
+}
+
+// Export singleton instance
+export const statusProgressionService = new StatusProgressionService();
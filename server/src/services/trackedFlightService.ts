@@ -0,0 +1,222 @@
+/**
+ * Tracked Flight Service
+ * Flights cached in tracked_flights for assigned shipments and legs, with the
+ * position history of every refresh in flight_positions
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { Flight } from '../classes/Flight';
+import { FlightTrack } from '../classes/FlightTrack';
+import { FlightPosition, TrackedFlight } from '../types';
+import { openskyService } from './openskyService';
+
+/**
+ * Tracked Flight Service - keeps cached flight positions up to date
+ */
+export class TrackedFlightService {
+  /**
+   * Cache the latest state of a flight and add it to the flight's position history
+   * @returns The stored row, or null when it could not be stored
+   */
+  async upsert(flight: Flight): Promise<TrackedFlight | null> {
+    const flightData = flight.toJSON();
+    const { data, error } = await supabaseAdmin
+      .from('tracked_flights')
+      .upsert({
+        icao24: flight.getIcao24(),
+        callsign: flight.getCallsign(),
+        origin_country: flight.getOriginCountry(),
+        latitude: flightData.latitude as number,
+        longitude: flightData.longitude as number,
+        altitude: flightData.altitude as number,
+        velocity: flightData.speed as number,
+        heading: flightData.heading as number,
+        vertical_rate: flightData.verticalRate as number,
+        on_ground: flight.isOnGround(),
+        last_updated: new Date().toISOString(),
+      }, { onConflict: 'icao24' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Cache flight error:', error);
+      return null;
+    }
+
+    const { error: positionError } = await supabaseAdmin
+      .from('flight_positions')
+      .insert({
+        flight_id: data.id,
+        latitude: data.latitude,
+        longitude: data.longitude,
+        altitude: data.altitude,
+        velocity: data.velocity,
+        heading: data.heading,
+        vertical_rate: data.vertical_rate,
+        on_ground: data.on_ground,
+        recorded_at: data.last_updated,
+      });
+
+    // The latest position is cached either way; only the history misses a point
+    if (positionError) {
+      console.error('Record flight position error:', positionError);
+    }
+
+    return data;
+  }
+
+  /**
+   * Get the recorded track of a cached flight
+   * @param since - Only positions recorded from then on (the aircraft's earlier trips are left out)
+   */
+  async getTrack(flight: Pick<TrackedFlight, 'id' | 'icao24' | 'callsign'>, since?: Date): Promise<FlightTrack> {
+    let query = supabaseAdmin
+      .from('flight_positions')
+      .select('*')
+      .eq('flight_id', flight.id)
+      .order('recorded_at', { ascending: true });
+
+    if (since) {
+      query = query.gte('recorded_at', since.toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Fetch flight positions error:', error);
+      throw new Error('Failed to fetch flight positions');
+    }
+
+    return new FlightTrack(flight.icao24, flight.callsign, (data || []) as FlightPosition[]);
+  }
+
+  /**
+   * Get the recorded track of an aircraft by its ICAO24 address
+   * @returns The track, or null when the flight is not cached
+   */
+  async getTrackByIcao24(icao24: string, since?: Date): Promise<FlightTrack | null> {
+    const { data: flight, error } = await supabaseAdmin
+      .from('tracked_flights')
+      .select('id, icao24, callsign')
+      .eq('icao24', icao24.toLowerCase())
+      .maybeSingle();
+
+    if (error) {
+      console.error('Fetch tracked flight error:', error);
+      throw new Error('Failed to fetch tracked flight');
+    }
+
+    return flight ? this.getTrack(flight, since) : null;
+  }
+
+  /**
+   * Delete positions recorded before the cutoff
+   * @returns Number of positions deleted
+   */
+  async deletePositionsBefore(before: Date): Promise<number> {
+    const { count, error } = await supabaseAdmin
+      .from('flight_positions')
+      .delete({ count: 'exact' })
+      .lt('recorded_at', before.toISOString());
+
+    if (error) {
+      console.error('Delete flight positions error:', error);
+      throw new Error('Failed to delete flight positions');
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Get the flights assigned to an organization's shipments in one of the given statuses
+   * @param openStatuses - Statuses of shipments still in transit
+   * @returns ICAO24 addresses of the flights
+   */
+  async getAssignedIcao24s(organizationId: string, openStatuses: string[]): Promise<string[]> {
+    const { data, error } = await supabaseAdmin
+      .from('shipment_assignments')
+      .select('tracked_flights(icao24), shipments!inner(organization_id, status)')
+      .eq('shipments.organization_id', organizationId)
+      .in('shipments.status', openStatuses);
+
+    if (error) {
+      console.error('Fetch assigned flights error:', error);
+      throw new Error('Failed to fetch assigned flights');
+    }
+
+    const icao24s = new Set<string>();
+    for (const assignment of data || []) {
+      const flight = assignment.tracked_flights as unknown as { icao24: string } | null;
+      if (flight?.icao24) icao24s.add(flight.icao24);
+    }
+
+    return [...icao24s];
+  }
+
+  /**
+   * Fetch the latest state of flights from OpenSky and cache it
+   * Flights OpenSky no longer reports keep their last known position
+   * @returns Number of flights refreshed
+   */
+  async refresh(icao24s: string[]): Promise<number> {
+    let refreshed = 0;
+    for (const icao24 of icao24s) {
+      const flight = await openskyService.getFlightByIcao(icao24);
+      if (flight && await this.upsert(flight)) {
+        refreshed++;
+      }
+    }
+
+    return refreshed;
+  }
+
+  /**
+   * Delete cached flights not updated since the cutoff that no assignment or leg refers to
+   * @returns Number of flights deleted
+   */
+  async deleteStale(before: Date): Promise<number> {
+    const { data: stale, error } = await supabaseAdmin
+      .from('tracked_flights')
+      .select('id')
+      .lt('last_updated', before.toISOString());
+
+    if (error) {
+      console.error('Fetch stale flights error:', error);
+      throw new Error('Failed to fetch stale flights');
+    }
+
+    const staleIds = (stale || []).map(flight => flight.id as number);
+    if (staleIds.length === 0) return 0;
+
+    const [assignments, legs] = await Promise.all([
+      supabaseAdmin.from('shipment_assignments').select('flight_id').in('flight_id', staleIds),
+      supabaseAdmin.from('shipment_legs').select('flight_id').in('flight_id', staleIds),
+    ]);
+
+    if (assignments.error || legs.error) {
+      console.error('Fetch flight references error:', assignments.error || legs.error);
+      throw new Error('Failed to fetch flight references');
+    }
+
+    const referenced = new Set(
+      [...(assignments.data || []), ...(legs.data || [])].map(row => row.flight_id as number)
+    );
+    const unreferenced = staleIds.filter(id => !referenced.has(id));
+    if (unreferenced.length === 0) return 0;
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('tracked_flights')
+      .delete()
+      .in('id', unreferenced);
+
+    if (deleteError) {
+      console.error('Delete stale flights error:', deleteError);
+      throw new Error('Failed to delete stale flights');
+    }
+
+    return unreferenced.length;
+  }
+}
+
+// Export singleton instance
+export const trackedFlightService = new TrackedFlightService();
@@ -0,0 +1,230 @@
+/**
+ * Weather Impact Service
+ * Records the weather at a shipment's origin and destination for reports
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { TemperatureExcursion, TEMPERATURE_EXCURSION_IMPACT } from '../classes/ColdChain';
+import { WeatherCondition } from '../classes/WeatherCondition';
+import { ShipmentRoute } from '../classes/ShipmentRoute';
+import { FORECAST_SLOT_HOURS } from '../classes/WeatherForecast';
+import { Shipment, ShipmentLeg, WeatherImpactRow } from '../types';
+import { AuditActor } from './auditService';
+import { coldChainService, TEMPERATURE_READING_CONDITION } from './coldChainService';
+import { weatherService } from './weatherService';
+
+/** Weather is recorded at most once per interval per shipment */
+const RECORD_INTERVAL_MS = 60 * 60 * 1000;
+/** A departure or arrival this long ago still gets the first forecast slot */
+const PAST_FORECAST_MARGIN_MS = (FORECAST_SLOT_HOURS / 2) * 60 * 60 * 1000;
+
+/**
+ * Current weather of a shipment and the temperature excursions it causes
+ */
+export interface ShipmentWeather {
+  origin: WeatherCondition | null;
+  destination: WeatherCondition | null;
+  temperatureExcursions: TemperatureExcursion[];
+  /** Whether impacts were recorded by this check */
+  recorded: boolean;
+}
+
+/**
+ * Forecast weather at the time a shipment is expected somewhere
+ */
+export interface ExpectedWeather {
+  expectedAt: string;
+  /** Null when the time is beyond the 5-day forecast or no forecast is available */
+  weather: WeatherCondition | null;
+}
+
+/**
+ * Forecast at the origin at departure and at the destination at arrival
+ */
+export interface ShipmentForecast {
+  origin: ExpectedWeather | null;
+  destination: ExpectedWeather | null;
+}
+
+/**
+ * Weather Impact Service - weather_impacts rows for origin and destination weather
+ */
+export class WeatherImpactService {
+  /**
+   * Fetch the current weather of a shipment and record its impact,
+   * unless weather was recorded within the last hour
+   * For perishable shipments the temperatures are checked against the allowed range
+   * @param shipment - Shipment row including its weather_impacts
+   */
+  async checkShipment(
+    actor: AuditActor,
+    shipment: Shipment & { weather_impacts?: WeatherImpactRow[] }
+  ): Promise<ShipmentWeather> {
+    // Excursions from logged temperature readings do not count as weather records
+    const since = new Date(Date.now() - RECORD_INTERVAL_MS).toISOString();
+    const recentImpacts = (shipment.weather_impacts || []).filter(impact =>
+      impact.recorded_at > since &&
+      !(impact.impact_type === TEMPERATURE_EXCURSION_IMPACT && impact.weather_condition === TEMPERATURE_READING_CONDITION)
+    );
+    const shouldRecord = recentImpacts.length === 0;
+
+    const [origin, destination] = await Promise.all([
+      shipment.origin_lat && shipment.origin_lon
+        ? weatherService.getWeatherByCoords(shipment.origin_lat, shipment.origin_lon)
+        : null,
+      shipment.dest_lat && shipment.dest_lon
+        ? weatherService.getWeatherByCoords(shipment.dest_lat, shipment.dest_lon)
+        : null,
+    ]);
+
+    if (!shouldRecord) {
+      return {
+        origin,
+        destination,
+        temperatureExcursions: coldChainService.findWeatherExcursions(shipment, origin, destination),
+        recorded: false,
+      };
+    }
+
+    await this.cacheWeatherData(shipment);
+    await this.recordImpacts(shipment.id, origin, destination);
+
+    // Temperatures outside a perishable shipment's range are recorded as excursions with the weather
+    return {
+      origin,
+      destination,
+      temperatureExcursions: await coldChainService.checkWeather(actor, shipment, origin, destination),
+      recorded: true,
+    };
+  }
+
+  /**
+   * Forecast weather at the origin at the expected departure and at the destination at the ETA
+   * Departure comes from the first leg; arrival from the final leg or the shipment's estimated arrival
+   * @param shipment - Shipment row, including its shipment_legs when it has any
+   */
+  async getForecast(shipment: Shipment & { shipment_legs?: ShipmentLeg[] }): Promise<ShipmentForecast> {
+    const route = new ShipmentRoute<ShipmentLeg>(shipment.shipment_legs || []);
+    const departure = route.getDeparture();
+    const arrival = route.getEstimatedArrival() ?? (shipment.estimated_arrival ? new Date(shipment.estimated_arrival) : null);
+
+    const forecastAt = async (lat: number | null, lon: number | null, time: Date | null): Promise<ExpectedWeather | null> => {
+      // Departures and arrivals that have happened are not forecast
+      if (lat == null || lon == null || !time || time.getTime() < Date.now() - PAST_FORECAST_MARGIN_MS) return null;
+      return {
+        expectedAt: time.toISOString(),
+        weather: await weatherService.getForecastAt(lat, lon, time),
+      };
+    };
+
+    const [origin, destination] = await Promise.all([
+      forecastAt(shipment.origin_lat, shipment.origin_lon, departure),
+      forecastAt(shipment.dest_lat, shipment.dest_lon, arrival),
+    ]);
+
+    return { origin, destination };
+  }
+
+  /**
+   * Check the weather of an organization's shipments in one of the given statuses
+   * @param openStatuses - Statuses of shipments still in transit
+   * @returns Number of shipments whose weather was recorded
+   */
+  async checkOpenShipments(actor: AuditActor, openStatuses: string[]): Promise<number> {
+    const { data: shipments, error } = await supabaseAdmin
+      .from('shipments')
+      .select('*, weather_impacts(*)')
+      .eq('organization_id', actor.organizationId)
+      .in('status', openStatuses)
+      .or('origin_lat.not.is.null,dest_lat.not.is.null');
+
+    if (error) {
+      console.error('Fetch shipments for weather check error:', error);
+      throw new Error('Failed to fetch shipments for weather check');
+    }
+
+    let recorded = 0;
+    for (const shipment of shipments || []) {
+      const { recorded: wasRecorded } = await this.checkShipment(actor, shipment);
+      if (wasRecorded) recorded++;
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Cache raw weather data in the weather_data table
+   * The API responses come from the service cache filled by checkShipment
+   */
+  private async cacheWeatherData(shipment: Shipment): Promise<void> {
+    const weatherDataToCache = [];
+    if (shipment.origin_lat && shipment.origin_lon) {
+      const originData = await weatherService.getWeatherData(shipment.origin_lat, shipment.origin_lon);
+      if (originData) weatherDataToCache.push(originData);
+    }
+    if (shipment.dest_lat && shipment.dest_lon) {
+      const destData = await weatherService.getWeatherData(shipment.dest_lat, shipment.dest_lon);
+      if (destData) weatherDataToCache.push(destData);
+    }
+
+    if (weatherDataToCache.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('weather_data')
+        .insert(weatherDataToCache);
+
+      if (error) {
+        console.error('Failed to cache weather data:', error);
+      }
+    }
+  }
+
+  /**
+   * Record origin and destination weather impacts for report generation
+   */
+  private async recordImpacts(
+    shipmentId: string,
+    origin: WeatherCondition | null,
+    destination: WeatherCondition | null
+  ): Promise<void> {
+    const impactsToRecord: Array<{
+      shipment_id: string;
+      impact_type: string;
+      description: string;
+      severity: string;
+      weather_condition: string;
+    }> = [];
+
+    if (origin) {
+      impactsToRecord.push({
+        shipment_id: shipmentId,
+        impact_type: 'origin_weather',
+        description: `Origin: ${origin.getConditionSummary()}. Delay factor: ${Math.round(origin.getDelayFactor() * 100)}%`,
+        severity: origin.assessImpact(),
+        weather_condition: origin.getConditionType(),
+      });
+    }
+
+    if (destination) {
+      impactsToRecord.push({
+        shipment_id: shipmentId,
+        impact_type: 'destination_weather',
+        description: `Destination: ${destination.getConditionSummary()}. Delay factor: ${Math.round(destination.getDelayFactor() * 100)}%`,
+        severity: destination.assessImpact(),
+        weather_condition: destination.getConditionType(),
+      });
+    }
+
+    if (impactsToRecord.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('weather_impacts')
+        .insert(impactsToRecord);
+
+      if (error) {
+        console.error('Failed to record weather impacts:', error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const weatherImpactService = new WeatherImpactService();
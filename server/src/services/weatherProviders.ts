@@ -0,0 +1,307 @@
+/**
+ * Weather Providers
+ * Where current weather and forecasts come from: OpenWeatherMap, airport METAR/TAF
+ * reports from aviationweather.gov, or recorded reports for offline development
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { WeatherFactory, WeatherCondition } from '../classes/WeatherCondition';
+import { WeatherForecast, FORECAST_SLOT_HOURS } from '../classes/WeatherForecast';
+import { Metar, Taf, KNOTS_TO_MS } from '../classes/AviationWeather';
+import { Airport, NEAREST_AIRPORT_MAX_KM } from '../classes/Airport';
+import { GreatCircleRoute } from '../classes/GreatCircleRoute';
+import { OpenWeatherForecastResponse, OpenWeatherResponse, WeatherData } from '../types';
+
+const OPENWEATHER_BASE_URL = 'https://api.openweathermap.org/data/2.5';
+const AVIATIONWEATHER_BASE_URL = 'https://aviationweather.gov/api/data';
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Current conditions of a location with the fields stored in weather_data
+ */
+export interface WeatherObservation {
+  condition: WeatherCondition;
+  record: Partial<WeatherData>;
+}
+
+/**
+ * Source of weather data
+ * Methods resolve to null when the provider has nothing for the location or the request fails
+ */
+export interface WeatherProvider {
+  getCurrent(lat: number, lon: number): Promise<WeatherObservation | null>;
+  getCurrentByCity(city: string): Promise<WeatherObservation | null>;
+  getForecast(lat: number, lon: number): Promise<WeatherForecast | null>;
+}
+
+/**
+ * OpenWeatherMap current weather and 5-day/3-hour forecast
+ * FREE tier - 1,000 requests/day with API key
+ */
+export class OpenWeatherMapProvider implements WeatherProvider {
+  private readonly apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+    if (!this.apiKey) {
+      console.warn('Warning: OpenWeatherMap API key not configured');
+    }
+  }
+
+  async getCurrent(lat: number, lon: number): Promise<WeatherObservation | null> {
+    const data = await this.fetch<OpenWeatherResponse>('weather', { lat, lon });
+    return data ? this.toObservation(data) : null;
+  }
+
+  async getCurrentByCity(city: string): Promise<WeatherObservation | null> {
+    const data = await this.fetch<OpenWeatherResponse>('weather', { q: city });
+    return data ? this.toObservation(data) : null;
+  }
+
+  async getForecast(lat: number, lon: number): Promise<WeatherForecast | null> {
+    const data = await this.fetch<OpenWeatherForecastResponse>('forecast', { lat, lon });
+    return data ? WeatherForecast.fromApiData(data.list || []) : null;
+  }
+
+  private async fetch<T>(endpoint: string, location: { lat: number; lon: number } | { q: string }): Promise<T | null> {
+    if (!this.apiKey) {
+      console.error('OpenWeatherMap API key not configured');
+      return null;
+    }
+
+    try {
+      const response = await axios.get<T>(`${OPENWEATHER_BASE_URL}/${endpoint}`, {
+        params: {
+          ...location,
+          appid: this.apiKey,
+          units: 'metric',
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`OpenWeatherMap ${endpoint} API error:`, error);
+      return null;
+    }
+  }
+
+  private toObservation(data: OpenWeatherResponse): WeatherObservation {
+    return {
+      condition: WeatherFactory.createFromApiData({
+        temp: data.main.temp,
+        wind_speed: data.wind.speed,
+        humidity: data.main.humidity,
+        visibility: data.visibility,
+        clouds: data.clouds.all,
+        weather: data.weather,
+      }),
+      record: {
+        location_name: data.name,
+        latitude: data.coord.lat,
+        longitude: data.coord.lon,
+        temperature: data.main.temp,
+        feels_like: data.main.feels_like,
+        conditions: data.weather[0]?.main || 'Unknown',
+        description: data.weather[0]?.description || '',
+        wind_speed: data.wind.speed,
+        wind_direction: data.wind.deg,
+        visibility: data.visibility,
+        humidity: data.main.humidity,
+        pressure: data.main.pressure,
+        clouds: data.clouds.all,
+      },
+    };
+  }
+}
+
+/**
+ * Observation of a decoded METAR, stored with the airport as its location
+ */
+function metarObservation(metar: Metar, airport: Airport | null): WeatherObservation {
+  const condition = metar.toCondition();
+  const type = condition.getConditionType();
+  const wind = metar.getWind();
+
+  return {
+    condition,
+    record: {
+      location_name: airport?.getLabel() ?? metar.getStation(),
+      latitude: airport?.getPosition().lat ?? null,
+      longitude: airport?.getPosition().lon ?? null,
+      temperature: metar.getTemperatureC(),
+      feels_like: null,
+      conditions: type.charAt(0).toUpperCase() + type.slice(1),
+      description: metar.getRaw(),
+      wind_speed: wind ? Math.round(wind.speedKt * KNOTS_TO_MS * 10) / 10 : null,
+      wind_direction: wind?.directionDeg ?? null,
+      visibility: metar.getVisibilityM(),
+      humidity: metar.getHumidity(),
+      pressure: metar.getPressureHpa(),
+      clouds: metar.getCloudCoverPercent(),
+    },
+  };
+}
+
+/**
+ * Airport METAR observations and TAF forecasts from aviationweather.gov (no API key)
+ * A location is served by the nearest airport within NEAREST_AIRPORT_MAX_KM; TAFs
+ * cover about 24-30 hours, so later times have no forecast.
+ */
+export class AviationWeatherProvider implements WeatherProvider {
+  async getCurrent(lat: number, lon: number): Promise<WeatherObservation | null> {
+    return this.observe(Airport.nearest(lat, lon));
+  }
+
+  async getCurrentByCity(city: string): Promise<WeatherObservation | null> {
+    return this.observe(Airport.resolve(city));
+  }
+
+  async getForecast(lat: number, lon: number): Promise<WeatherForecast | null> {
+    const airport = Airport.nearest(lat, lon);
+    if (!airport) return null;
+
+    const tafText = await this.fetch('taf', airport.getIcao());
+    if (!tafText) return null;
+
+    try {
+      return Taf.parse(tafText).toForecast();
+    } catch (error) {
+      console.error(`Invalid TAF for ${airport.getIcao()}:`, error);
+      return null;
+    }
+  }
+
+  private async observe(airport: Airport | null): Promise<WeatherObservation | null> {
+    if (!airport) return null;
+
+    const text = await this.fetch('metar', airport.getIcao());
+    if (!text) return null;
+
+    try {
+      return metarObservation(Metar.parse(text), airport);
+    } catch (error) {
+      console.error(`Invalid METAR for ${airport.getIcao()}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Latest raw report of a station, on one line
+   */
+  private async fetch(report: 'metar' | 'taf', icao: string): Promise<string | null> {
+    try {
+      const response = await axios.get<string>(`${AVIATIONWEATHER_BASE_URL}/${report}`, {
+        params: { ids: icao, format: 'raw' },
+        responseType: 'text',
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      const text = String(response.data || '').replace(/\s+/g, ' ').trim();
+      return text || null;
+    } catch (error) {
+      console.error(`aviationweather.gov ${report} API error:`, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Recorded METAR/TAF reports by ICAO station, read from a JSON file
+ */
+export interface WeatherFixtures {
+  /** Station used for locations with no fixture station nearby */
+  default: string;
+  stations: Record<string, { metar: string; taf?: string }>;
+}
+
+/**
+ * Recorded reports for offline development and demos
+ * Every location gets the reports of the nearest fixture station, or of the default
+ * one; observations are dated now and forecasts start at the current slot.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  private readonly filePath: string;
+  private fixtures: Promise<WeatherFixtures> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async getCurrent(lat: number, lon: number): Promise<WeatherObservation | null> {
+    return this.observe(await this.stationNear(lat, lon));
+  }
+
+  async getCurrentByCity(city: string): Promise<WeatherObservation | null> {
+    const airport = Airport.resolve(city);
+    const fixtures = await this.load();
+    return this.observe(airport && fixtures.stations[airport.getIcao()] ? airport.getIcao() : fixtures.default);
+  }
+
+  async getForecast(lat: number, lon: number): Promise<WeatherForecast | null> {
+    const station = await this.stationNear(lat, lon);
+    const reports = (await this.load()).stations[station];
+    if (!reports?.taf) return null;
+
+    const slotMs = FORECAST_SLOT_HOURS * 3600000;
+    const currentSlot = new Date(Math.floor(Date.now() / slotMs) * slotMs);
+    return Taf.parse(reports.taf).toForecast(currentSlot);
+  }
+
+  private async observe(station: string): Promise<WeatherObservation | null> {
+    const reports = (await this.load()).stations[station];
+    if (!reports) return null;
+
+    const observation = metarObservation(Metar.parse(reports.metar), Airport.findByCode(station));
+    observation.condition.setTimestamp(new Date());
+    return observation;
+  }
+
+  private async stationNear(lat: number, lon: number): Promise<string> {
+    const fixtures = await this.load();
+    let best = fixtures.default;
+    let bestKm = NEAREST_AIRPORT_MAX_KM;
+
+    for (const station of Object.keys(fixtures.stations)) {
+      const airport = Airport.findByCode(station);
+      const km = airport ? GreatCircleRoute.distanceKm({ lat, lon }, airport.getPosition()) : Infinity;
+      if (km <= bestKm) {
+        best = station;
+        bestKm = km;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Fixtures are read once; a file that cannot be read or parsed is tried again next time
+   */
+  private load(): Promise<WeatherFixtures> {
+    if (!this.fixtures) {
+      this.fixtures = fs.readFile(this.filePath, 'utf8')
+        .then(text => JSON.parse(text) as WeatherFixtures)
+        .catch(error => {
+          this.fixtures = null;
+          throw error;
+        });
+    }
+    return this.fixtures;
+  }
+}
+
+/**
+ * Choose the provider from WEATHER_PROVIDER (default: openweathermap)
+ */
+export function createWeatherProvider(): WeatherProvider {
+  if (process.env.WEATHER_PROVIDER === 'aviationweather') {
+    return new AviationWeatherProvider();
+  }
+  if (process.env.WEATHER_PROVIDER === 'fixture') {
+    return new FixtureWeatherProvider(process.env.WEATHER_FIXTURES_PATH || 'fixtures/weather.json');
+  }
+  return new OpenWeatherMapProvider(process.env.OPENWEATHER_API_KEY || '');
+}
+
+// Export singleton instance
+export const weatherProvider = createWeatherProvider();
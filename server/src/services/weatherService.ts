@@ -0,0 +1,130 @@
+/**
+ * Weather Service
+ * Current weather, forecasts and route impact from the configured weather provider
+ *
+ * Responses are cached by location (coordinates rounded to about 1 km) for a few
+ * minutes, and identical requests in flight share one provider call.
+ */
+
+import { WeatherCondition } from '../classes/WeatherCondition';
+import { GreatCircleRoute, RouteImpactSummary, RouteSample } from '../classes/GreatCircleRoute';
+import { WeatherForecast } from '../classes/WeatherForecast';
+import { RequestCache, mapWithConcurrency } from '../classes/RequestCache';
+import { WeatherData, WeatherAlert } from '../types';
+import { WeatherObservation, WeatherProvider, weatherProvider } from './weatherProviders';
+
+const DEFAULT_CACHE_MINUTES = 10;
+/** Forecasts are issued every few hours, so they are kept longer */
+const DEFAULT_FORECAST_CACHE_MINUTES = 60;
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Weather Service - caches and combines provider data
+ */
+export class WeatherService {
+  private readonly provider: WeatherProvider;
+  private currentCache: RequestCache<WeatherObservation | null>;
+  private forecastCache: RequestCache<WeatherForecast | null>;
+  /** Most weather requests run at the same time for lists of locations */
+  readonly concurrency: number;
+
+  constructor(provider: WeatherProvider) {
+    this.provider = provider;
+
+    const minutes = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback), 10) * 60000;
+    this.currentCache = new RequestCache(minutes('WEATHER_CACHE_MINUTES', DEFAULT_CACHE_MINUTES));
+    this.forecastCache = new RequestCache(minutes('WEATHER_FORECAST_CACHE_MINUTES', DEFAULT_FORECAST_CACHE_MINUTES));
+    this.concurrency = parseInt(process.env.WEATHER_CONCURRENCY || String(DEFAULT_CONCURRENCY), 10) || DEFAULT_CONCURRENCY;
+  }
+
+  /**
+   * Current observation of a location, from the cache when fetched recently
+   */
+  private getCurrent(lat: number, lon: number): Promise<WeatherObservation | null> {
+    return this.currentCache.get(RequestCache.coordinateKey(lat, lon), () => this.provider.getCurrent(lat, lon));
+  }
+
+  /**
+   * Get current weather for a location by coordinates
+   */
+  async getWeatherByCoords(lat: number, lon: number): Promise<WeatherCondition | null> {
+    return (await this.getCurrent(lat, lon))?.condition ?? null;
+  }
+
+  /**
+   * Get current weather for a location by city name
+   */
+  async getWeatherByCity(city: string): Promise<WeatherCondition | null> {
+    const key = `city:${city.trim().toLowerCase()}`;
+    const observation = await this.currentCache.get(key, () => this.provider.getCurrentByCity(city));
+    return observation?.condition ?? null;
+  }
+
+  /**
+   * Get the forecast for a location by coordinates
+   */
+  async getForecastByCoords(lat: number, lon: number): Promise<WeatherForecast | null> {
+    return this.forecastCache.get(RequestCache.coordinateKey(lat, lon), () => this.provider.getForecast(lat, lon));
+  }
+
+  /**
+   * Get the forecast conditions for a location at a time
+   * @returns Null when the time is beyond the 5-day forecast or the forecast is unavailable
+   */
+  async getForecastAt(lat: number, lon: number, time: Date): Promise<WeatherCondition | null> {
+    if (!WeatherForecast.covers(time)) return null;
+
+    const forecast = await this.getForecastByCoords(lat, lon);
+    return forecast?.nearest(time) ?? null;
+  }
+
+  /**
+   * Get raw weather data for database storage
+   * Shares the cached observation with getWeatherByCoords
+   */
+  async getWeatherData(lat: number, lon: number): Promise<Partial<WeatherData> | null> {
+    const observation = await this.getCurrent(lat, lon);
+    if (!observation) return null;
+
+    return {
+      ...observation.record,
+      latitude: lat,
+      longitude: lon,
+      fetched_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get weather alerts for a location (One Call API 3.0)
+   * Note: This requires a subscription for One Call API 3.0
+   */
+  async getWeatherAlerts(lat: number, lon: number): Promise<WeatherAlert[]> {
+    // One Call API requires subscription, returning empty for free tier
+    console.log(`Weather alerts requested for ${lat}, ${lon} - requires One Call API subscription`);
+    return [];
+  }
+
+  /**
+   * Get weather along a route (multiple points)
+   */
+  async getRouteWeather(points: Array<{ lat: number; lon: number }>): Promise<WeatherCondition[]> {
+    const results = await mapWithConcurrency(points, this.concurrency, point => this.getWeatherByCoords(point.lat, point.lon));
+    return results.filter((w): w is WeatherCondition => w !== null);
+  }
+
+  /**
+   * Calculate weather impact along a route, per segment between consecutive samples
+   * Samples without weather leave their segments unrated
+   */
+  async getRouteImpact(samples: RouteSample[]): Promise<RouteImpactSummary & {
+    conditions: (WeatherCondition | null)[];
+  }> {
+    const conditions = await mapWithConcurrency(samples, this.concurrency, sample => this.getWeatherByCoords(sample.lat, sample.lon));
+    const summary = GreatCircleRoute.summarize(GreatCircleRoute.rateSegments(samples, conditions));
+
+    return { ...summary, conditions };
+  }
+}
+
+// Export singleton instance
+export const weatherService = new WeatherService(weatherProvider);
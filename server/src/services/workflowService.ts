@@ -0,0 +1,109 @@
+/**
+ * Workflow Service
+ * Loads and stores per-account shipment status workflows
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { StatusWorkflow, StatusDefinition } from '../classes/StatusWorkflow';
+
+/**
+ * Workflow Service - resolves the status workflow of an organization
+ */
+export class WorkflowService {
+  /**
+   * Get the workflow configured for an organization, falling back to the default workflow
+   */
+  async getWorkflowForOrganization(organizationId: string): Promise<StatusWorkflow> {
+    const { data, error } = await supabaseAdmin
+      .from('status_workflows')
+      .select('name, initial_status, statuses')
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error || !data) {
+      return StatusWorkflow.getDefault();
+    }
+
+    try {
+      return new StatusWorkflow(data.name, data.statuses as StatusDefinition[], data.initial_status);
+    } catch (err) {
+      // A stored workflow that no longer validates should not lock the account out
+      console.error(`Invalid stored workflow for organization ${organizationId}:`, err);
+      return StatusWorkflow.getDefault();
+    }
+  }
+
+  /**
+   * Save a custom workflow for an organization
+   * @param userId - User saving the workflow
+   * @throws Error when the definitions are invalid
+   */
+  async saveWorkflowForOrganization(
+    organizationId: string,
+    userId: string,
+    name: string,
+    statuses: StatusDefinition[],
+    initialStatus: string = 'pending'
+  ): Promise<StatusWorkflow> {
+    // Constructing the workflow validates the definitions
+    const workflow = new StatusWorkflow(name, statuses, initialStatus);
+
+    const { error } = await supabaseAdmin
+      .from('status_workflows')
+      .upsert({
+        organization_id: organizationId,
+        user_id: userId,
+        name: workflow.getName(),
+        initial_status: workflow.getInitialStatus(),
+        statuses: workflow.getDefinitions(),
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'organization_id' });
+
+    if (error) {
+      console.error('Save workflow error:', error);
+      throw new Error('Failed to save status workflow');
+    }
+
+    return workflow;
+  }
+
+  /**
+   * Which of the given statuses the organization's shipments are still in
+   * A workflow may not drop these, or the shipments could no longer be shown or moved on
+   */
+  async getStatusesInUse(organizationId: string, statuses: string[]): Promise<string[]> {
+    const counts = await Promise.all(statuses.map(async status => {
+      const { count, error } = await supabaseAdmin
+        .from('shipments')
+        .select('id', { count: 'exact', head: true })
+        .eq('organization_id', organizationId)
+        .eq('status', status);
+
+      if (error) {
+        console.error('Count shipments by status error:', error);
+        throw new Error('Failed to check statuses in use');
+      }
+
+      return count || 0;
+    }));
+
+    return statuses.filter((_status, index) => counts[index] > 0);
+  }
+
+  /**
+   * Remove an organization's custom workflow so the default applies again
+   */
+  async resetWorkflowForOrganization(organizationId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('status_workflows')
+      .delete()
+      .eq('organization_id', organizationId);
+
+    if (error) {
+      throw new Error('Failed to reset status workflow');
+    }
+  }
+}
+
+// Export singleton instance
+export const workflowService = new WorkflowService();
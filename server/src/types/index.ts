@@ -2,10 +2,24 @@
  * TypeScript type definitions for the application
  */
 
+import type { PieceData } from '../classes/CargoPiece';
+import type { RateCardData, WeightBreak } from '../classes/RateCard';
+import type { Role } from '../classes/AccessPolicy';
+import type { DocumentType } from '../classes/ShipmentDocument';
+import type { DeliveryCondition } from '../classes/ProofOfDelivery';
+import type { DangerousGoodsItemData, DangerousGoodsCheck } from '../classes/DangerousGoods';
+import type { TemperatureRangeData } from '../classes/ColdChain';
+import type { CustomsStepRecord } from '../classes/CustomsClearance';
+import type { SlaTargetData, SlaStatus } from '../classes/ServiceLevel';
+import type { JobRunStatus } from '../classes/ScheduledJob';
+import type { AutoStatusMode } from '../classes/FlightProgress';
+import type { ForecastSlotData } from '../classes/WeatherForecast';
+
 // Database types
 export interface Shipment {
   id: string;
   user_id: string;
+  organization_id: string;
   tracking_number: string;
   origin: string;
   origin_lat: number | null;
@@ -13,10 +27,31 @@ export interface Shipment {
   destination: string;
   dest_lat: number | null;
   dest_lon: number | null;
+  origin_iata?: string | null;
+  dest_iata?: string | null;
   status: string;
   estimated_arrival: string | null;
   cargo_type: string | null;
   weight_kg: number | null;
+  total_pieces?: number | null;
+  volume_m3?: number | null;
+  volumetric_weight_kg?: number | null;
+  chargeable_weight_kg?: number | null;
+  awb_number?: string | null;
+  tracking_pin?: string | null;
+  import_key?: string | null;
+  temp_min_c?: number | null;
+  temp_max_c?: number | null;
+  cold_chain_exception_at?: string | null;
+  customs_status?: string | null;
+  service_level?: string;
+  sla_due_at?: string | null;
+  sla_status?: SlaStatus | null;
+  sla_slack_hours?: number | null;
+  sla_evaluated_at?: string | null;
+  proposed_status?: string | null;
+  proposed_status_notes?: string | null;
+  proposed_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -36,6 +71,19 @@ export interface TrackedFlight {
   last_updated: string;
 }
 
+export interface FlightPosition {
+  id: number;
+  flight_id: number;
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  velocity: number | null;
+  heading: number | null;
+  vertical_rate: number | null;
+  on_ground: boolean;
+  recorded_at: string;
+}
+
 export interface WeatherData {
   id: number;
   location_name: string;
@@ -86,45 +134,102 @@ export interface TrackingEvent {
   longitude: number | null;
   timestamp: string;
   notes: string | null;
+  reason_code: string | null;
+  reason_text: string | null;
+  automatic?: boolean;
 }
 
 export interface ShipmentAssignment {
   id: number;
   shipment_id: string;
+  leg_id: number | null;
   flight_id: number | null;
   assigned_at: string;
 }
 
+export interface ShipmentLeg {
+  id: number;
+  shipment_id: string;
+  sequence: number;
+  origin: string;
+  origin_lat: number | null;
+  origin_lon: number | null;
+  destination: string;
+  dest_lat: number | null;
+  dest_lon: number | null;
+  planned_departure: string | null;
+  planned_arrival: string | null;
+  actual_departure: string | null;
+  actual_arrival: string | null;
+  flight_id: number | null;
+  status: string;
+  created_at: string;
+  updated_at: string;
+  tracked_flights?: Pick<TrackedFlight, 'icao24' | 'callsign'> | null;
+}
+
 // API Request/Response types
 export interface SearchCriteria {
   trackingNumber?: string;
+  awbNumber?: string;
   status?: string;
   origin?: string;
   destination?: string;
   dateFrom?: string;
   dateTo?: string;
   cargoType?: string;
+  minChargeableWeight?: number;
+  maxChargeableWeight?: number;
 }
 
 export interface CreateShipmentRequest {
   origin: string;
   origin_lat?: number;
   origin_lon?: number;
+  origin_iata?: string;
   destination: string;
   dest_lat?: number;
   dest_lon?: number;
+  dest_iata?: string;
   cargo_type?: string;
   weight_kg?: number;
   estimated_arrival?: string;
+  awb_number?: string;
+  awb_prefix?: string;
+  tracking_pin?: string;
+  legs?: CreateShipmentLegRequest[];
+  pieces?: PieceData[];
+  dangerous_goods?: DangerousGoodsItemData[];
+  temp_min_c?: number;
+  temp_max_c?: number;
+  service_level?: string;
+}
+
+export interface CreateShipmentLegRequest {
+  origin: string;
+  origin_lat?: number;
+  origin_lon?: number;
+  destination: string;
+  dest_lat?: number;
+  dest_lon?: number;
+  planned_departure?: string;
+  planned_arrival?: string;
 }
 
 export interface UpdateShipmentRequest {
   origin?: string;
+  origin_iata?: string | null;
   destination?: string;
+  dest_iata?: string | null;
   status?: string;
   cargo_type?: string;
   weight_kg?: number;
   estimated_arrival?: string;
+  awb_number?: string | null;
+  tracking_pin?: string | null;
+  temp_min_c?: number | null;
+  temp_max_c?: number | null;
+  service_level?: string;
 }
 
 export interface ValidationResult {
@@ -132,6 +237,288 @@ export interface ValidationResult {
   errors: string[];
 }
 
+// Shipment pieces (lines of identical pieces with dimensions)
+export interface ShipmentPiece extends Required<PieceData> {
+  id: number;
+  shipment_id: string;
+  created_at: string;
+}
+
+// Dangerous goods lines of a hazardous shipment
+export interface ShipmentDangerousGood extends Required<DangerousGoodsItemData> {
+  id: number;
+  shipment_id: string;
+  unit: string | null;
+  created_at: string;
+}
+
+export interface DangerousGoodsDeclarationView {
+  items: ShipmentDangerousGood[];
+  check: DangerousGoodsCheck;
+}
+
+// Cold chain (temperature range of perishable shipments)
+export interface TemperatureReadingRow {
+  id: number;
+  shipment_id: string;
+  recorded_by: string;
+  temperature_c: number;
+  recorded_at: string;
+  location: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface WeatherImpactRow {
+  id: number;
+  shipment_id: string;
+  impact_type: string;
+  description: string | null;
+  severity: string | null;
+  weather_condition: string | null;
+  recorded_at: string;
+}
+
+export interface ColdChainView {
+  range: TemperatureRangeData | null;
+  exception_at: string | null;
+  readings: TemperatureReadingRow[];
+  excursions: WeatherImpactRow[];
+}
+
+// Customs clearance steps
+export interface CustomsEventRow extends CustomsStepRecord {
+  id: number;
+  shipment_id: string;
+  recorded_by: string;
+  created_at: string;
+}
+
+// Rate cards (per-lane freight rates by weight break)
+export interface RateCardRow extends Required<RateCardData> {
+  user_id: string;
+  organization_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Service level targets (promised transit hours per lane and service level)
+export interface SlaTargetRow extends Required<SlaTargetData> {
+  user_id: string;
+  organization_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Escalations raised when a shipment's SLA status worsens
+export interface SlaEscalationRow {
+  id: number;
+  shipment_id: string;
+  organization_id: string;
+  level: number;
+  sla_status: SlaStatus;
+  notify_role: Role;
+  action: string;
+  slack_hours: number | null;
+  due_at: string;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+}
+
+// Background jobs and their run history
+export interface ScheduledJobRow {
+  name: string;
+  schedule: string;
+  description: string;
+  enabled: boolean;
+  locked_by: string | null;
+  locked_until: string | null;
+  last_run_at: string | null;
+  last_status: JobRunStatus | null;
+  last_error: string | null;
+  updated_at: string;
+}
+
+export interface JobRunRow {
+  id: number;
+  job_name: string;
+  instance_id: string;
+  status: JobRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  items_processed: number | null;
+  error: string | null;
+}
+
+// Freight quotes
+export type QuoteStatus = 'quoted' | 'accepted' | 'converted';
+
+export interface CreateQuoteRequest {
+  origin: string;
+  destination: string;
+  cargo_type?: string;
+  weight_kg?: number;
+  pieces?: PieceData[];
+}
+
+export interface Quote {
+  id: string;
+  user_id: string;
+  organization_id: string;
+  rate_card_id: number | null;
+  origin: string;
+  destination: string;
+  cargo_type: string | null;
+  pieces: Required<PieceData>[];
+  weight_kg: number;
+  volumetric_weight_kg: number | null;
+  chargeable_weight_kg: number;
+  weight_break: WeightBreak;
+  rate_per_kg: number;
+  freight_charge: number;
+  surcharge_percent: number;
+  surcharge: number;
+  total: number;
+  currency: string;
+  status: QuoteStatus;
+  valid_until: string;
+  shipment_id: string | null;
+  created_at: string;
+}
+
+// Air waybill stock (per-airline blocks of AWB serials)
+export interface AwbStock {
+  id: number;
+  user_id: string;
+  organization_id: string;
+  airline_prefix: string;
+  airline_name: string | null;
+  range_start: number;
+  range_end: number;
+  next_serial: number;
+  created_at: string;
+}
+
+// Shipment document types (file contents live in document storage)
+export interface ShipmentDocumentRow {
+  id: string;
+  shipment_id: string;
+  organization_id: string;
+  uploaded_by: string;
+  uploaded_by_email: string | null;
+  document_type: DocumentType;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  storage_key: string;
+  created_at: string;
+}
+
+// Proof of delivery types (images live in document storage)
+export interface DeliveryProofRow {
+  id: string;
+  shipment_id: string;
+  organization_id: string;
+  tracking_event_id: number;
+  recorded_by: string;
+  recorded_by_email: string | null;
+  recipient_name: string;
+  delivered_at: string;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  condition: DeliveryCondition;
+  condition_notes: string | null;
+  signature_key: string;
+  photo_keys: string[];
+  created_at: string;
+}
+
+/**
+ * Proof of delivery as returned by the API, with images as data URLs
+ */
+export interface DeliveryProofView extends Omit<DeliveryProofRow, 'signature_key' | 'photo_keys'> {
+  signature: string | null;
+  photos: string[];
+}
+
+// Audit log types
+export type AuditAction = 'create' | 'update' | 'assign' | 'delete';
+
+export interface AuditLogEntry {
+  id: number;
+  shipment_id: string;
+  organization_id: string;
+  /** null for changes made by background jobs */
+  user_id: string | null;
+  user_email: string | null;
+  action: AuditAction;
+  field: string | null;
+  old_value: unknown;
+  new_value: unknown;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  shipmentId?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+// Bulk action types
+export type BulkActionType = 'status' | 'update' | 'delete';
+
+export interface BulkActionRequest {
+  ids: string[];
+  action: BulkActionType;
+  status?: string;
+  notes?: string;
+  reason_code?: string;
+  reason_text?: string;
+  updates?: Partial<Pick<UpdateShipmentRequest, 'cargo_type' | 'weight_kg' | 'estimated_arrival'>>;
+}
+
+export interface BulkActionItemResult {
+  id: string;
+  success: boolean;
+  error?: string;
+  status?: string;
+}
+
+export interface BulkActionResult {
+  action: BulkActionType;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkActionItemResult[];
+}
+
+// Bulk import types
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate' | 'created';
+
+export interface ImportRowResult {
+  row: number;
+  status: ImportRowStatus;
+  errors: string[];
+  origin?: string;
+  destination?: string;
+  shipment_id?: string;
+  tracking_number?: string;
+}
+
+export interface ImportSummary {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  created: number;
+  rows: ImportRowResult[];
+}
+
 // OpenSky API types
 export interface OpenSkyState {
   icao24: string;
@@ -176,6 +563,15 @@ export interface OpenWeatherResponse {
   name: string;
 }
 
+/**
+ * 5-day/3-hour forecast (api.openweathermap.org/data/2.5/forecast)
+ */
+export interface OpenWeatherForecastResponse {
+  cnt: number;
+  list: ForecastSlotData[];
+  city: { name: string; country: string; timezone: number };
+}
+
 // Dashboard types
 export interface DashboardStats {
   totalShipments: number;
@@ -194,3 +590,64 @@ export interface ReportFilters {
   destination?: string;
 }
 
+// Organizations (users share shipments and settings within their organization)
+export interface Organization {
+  id: string;
+  name: string;
+  auto_status: AutoStatusMode;
+  created_at: string;
+}
+
+export interface OrganizationMember {
+  organization_id: string;
+  user_id: string;
+  email: string;
+  role: Role;
+  created_at: string;
+}
+
+export interface OrganizationInvite {
+  id: number;
+  organization_id: string;
+  email: string;
+  role: Role;
+  invited_by: string | null;
+  created_at: string;
+  organizations?: Pick<Organization, 'name'> | null;
+}
+
+// Public tracking (what customers without an account may see)
+export interface PublicMilestone {
+  status: string;
+  label: string;
+  location: string | null;
+  timestamp: string;
+}
+
+export interface PublicFlightPosition {
+  callsign: string | null;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  speed: number;
+  heading: number;
+  on_ground: boolean;
+  last_updated: string;
+  /** Airport the flight is heading to and its live ETA, when it can be calculated */
+  heading_to: string;
+  eta: string | null;
+}
+
+export interface PublicTrackingView {
+  tracking_number: string;
+  awb_number: string | null;
+  origin: string;
+  destination: string;
+  total_pieces: number | null;
+  status: Record<string, unknown>;
+  estimated_arrival: string | null;
+  route: Pick<ShipmentLeg, 'sequence' | 'origin' | 'destination' | 'status'>[];
+  milestones: PublicMilestone[];
+  flight: PublicFlightPosition | null;
+  updated_at: string;
+}